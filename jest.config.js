@@ -1,5 +1,9 @@
 const nextJest = require('next/jest')
 
+// Run tests in the library's timezone, ahead of UTC, so dates that slip back to
+// their UTC day show up as failures rather than passing on a UTC machine
+process.env.TZ = 'Asia/Kolkata'
+
 const createJestConfig = nextJest({
   // Provide the path to your Next.js app to load next.config.js and .env files in your test environment
   dir: './',
@@ -0,0 +1,330 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { authFetch } from '@/lib/auth-fetch';
+import { diffAuditDetails, formatAuditValue } from '@/lib/audit-diff';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import type { AuditLog, AuditLogPage } from '@/types';
+
+const PAGE_SIZE = 25;
+
+const emptyFilters = {
+  adminId: '',
+  action: '',
+  targetType: 'all',
+  targetId: '',
+  startDate: '',
+  endDate: '',
+};
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState(emptyFilters);
+  const [result, setResult] = useState<AuditLogPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetchLogs(page);
+  }, [page]);
+
+  const buildParams = () => {
+    const params = new URLSearchParams();
+
+    if (filters.adminId) params.set('adminId', filters.adminId.trim());
+    if (filters.action) params.set('action', filters.action.trim());
+    if (filters.targetType !== 'all') params.set('targetType', filters.targetType);
+    if (filters.targetId) params.set('targetId', filters.targetId.trim());
+    // Date inputs are local days; include the whole end day
+    if (filters.startDate) params.set('startDate', new Date(`${filters.startDate}T00:00:00`).toISOString());
+    if (filters.endDate) params.set('endDate', new Date(`${filters.endDate}T23:59:59.999`).toISOString());
+
+    return params;
+  };
+
+  const fetchLogs = async (pageNumber: number) => {
+    setLoading(true);
+    try {
+      const params = buildParams();
+      params.set('page', String(pageNumber));
+      params.set('pageSize', String(PAGE_SIZE));
+
+      const response = await authFetch(`/api/admin/audit?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch audit logs: ${response.status}`);
+      }
+
+      setResult(await response.json());
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = () => {
+    if (page === 1) {
+      fetchLogs(1);
+    } else {
+      setPage(1);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const params = buildParams();
+      params.set('format', 'csv');
+
+      const response = await authFetch(`/api/admin/audit?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`Audit log export failed with status ${response.status}`);
+      }
+
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+    }
+  };
+
+  const totalPages = result ? Math.max(Math.ceil(result.total / result.pageSize), 1) : 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filter</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="adminId">Admin ID</Label>
+              <Input
+                id="adminId"
+                value={filters.adminId}
+                onChange={(e) => setFilters({ ...filters, adminId: e.target.value })}
+                placeholder="e.g. system"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="action">Action</Label>
+              <Input
+                id="action"
+                value={filters.action}
+                onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+                placeholder="e.g. cancel_booking"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Target Type</Label>
+              <Select
+                value={filters.targetType}
+                onValueChange={(value) => setFilters({ ...filters, targetType: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Targets</SelectItem>
+                  <SelectItem value="booking">Booking</SelectItem>
+                  <SelectItem value="user">User</SelectItem>
+                  <SelectItem value="seat">Seat</SelectItem>
+                  <SelectItem value="settings">Settings</SelectItem>
+                  <SelectItem value="feedback">Feedback</SelectItem>
+                  <SelectItem value="layout">Layout</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="targetId">Target ID</Label>
+              <Input
+                id="targetId"
+                value={filters.targetId}
+                onChange={(e) => setFilters({ ...filters, targetId: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="startDate">From</Label>
+              <Input
+                id="startDate"
+                type="date"
+                value={filters.startDate}
+                onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="endDate">To</Label>
+              <Input
+                id="endDate"
+                type="date"
+                value={filters.endDate}
+                onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSearch} disabled={loading}>
+              {loading ? 'Loading...' : 'Search'}
+            </Button>
+            <Button variant="outline" onClick={() => setFilters(emptyFilters)}>
+              Clear
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries ({result?.total ?? 0})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Admin</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!result || result.logs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No audit entries found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  result.logs.map((log) => (
+                    <TableRow key={log.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {new Date(log.timestamp).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{log.adminName}</div>
+                        <div className="text-xs text-muted-foreground font-mono">
+                          {log.adminId ?? `student ${log.actorId}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-mono">{log.action}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm capitalize">{log.targetType}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{log.targetId}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{log.reason || '—'}</TableCell>
+                      <TableCell>
+                        <AuditDetailsDialog log={log} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={loading || page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={loading || page >= totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function AuditDetailsDialog({ log }: { log: AuditLog }) {
+  const changes = diffAuditDetails(log.details);
+
+  if (changes.length === 0) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          View ({changes.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{log.action}</DialogTitle>
+          <DialogDescription>
+            {log.adminName} · {log.targetType} {log.targetId} · {new Date(log.timestamp).toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.map((change) => (
+              <TableRow key={change.field}>
+                <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                <TableCell className="text-xs text-red-600 line-through break-all">
+                  {'before' in change ? formatAuditValue(change.before) : ''}
+                </TableCell>
+                <TableCell className="text-xs text-green-600 break-all">
+                  {formatAuditValue(change.after)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { ref, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { authFetch } from '@/lib/auth-fetch';
+import { useAuth } from '@/components/providers/auth-provider';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -15,6 +17,7 @@ import { Search, XCircle, LogIn, LogOut } from 'lucide-react';
 import type { Booking } from '@/types';
 
 export default function BookingsPage() {
+  const { can } = useAuth();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(false);
@@ -83,12 +86,12 @@ export default function BookingsPage() {
     fetchBookings();
   }, []);
 
-  const handleCancelBooking = async (bookingId: string) => {
+  const handleCancelBooking = async (booking: Booking) => {
     try {
-      await fetch('/api/admin/bookings/cancel', {
+      await authFetch('/api/admin/bookings/cancel', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ bookingId, reason: actionReason }),
+        body: JSON.stringify({ userId: booking.userId, bookingId: booking.id, reason: actionReason }),
       });
       fetchBookings();
       setActionReason('');
@@ -97,12 +100,12 @@ export default function BookingsPage() {
     }
   };
 
-  const handleCheckIn = async (bookingId: string) => {
+  const handleCheckIn = async (booking: Booking) => {
     try {
-      await fetch('/api/admin/bookings/check-in', {
+      await authFetch('/api/admin/bookings/check-in', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ bookingId, reason: actionReason }),
+        body: JSON.stringify({ userId: booking.userId, bookingId: booking.id, reason: actionReason }),
       });
       fetchBookings();
       setActionReason('');
@@ -111,12 +114,12 @@ export default function BookingsPage() {
     }
   };
 
-  const handleCheckOut = async (bookingId: string) => {
+  const handleCheckOut = async (booking: Booking) => {
     try {
-      await fetch('/api/admin/bookings/check-out', {
+      await authFetch('/api/admin/bookings/check-out', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ bookingId, reason: actionReason }),
+        body: JSON.stringify({ userId: booking.userId, bookingId: booking.id, reason: actionReason }),
       });
       fetchBookings();
       setActionReason('');
@@ -280,7 +283,7 @@ export default function BookingsPage() {
                                 </div>
                                 <DialogFooter>
                                   <Button
-                                    onClick={() => handleCheckIn(booking.id)}
+                                    onClick={() => handleCheckIn(booking)}
                                   >
                                     Confirm
                                   </Button>
@@ -318,7 +321,7 @@ export default function BookingsPage() {
                                 </div>
                                 <DialogFooter>
                                   <Button
-                                    onClick={() => handleCheckOut(booking.id)}
+                                    onClick={() => handleCheckOut(booking)}
                                   >
                                     Confirm
                                   </Button>
@@ -326,46 +329,48 @@ export default function BookingsPage() {
                               </DialogContent>
                             </Dialog>
 
-                            <Dialog>
-                              <DialogTrigger asChild>
-                                <Button
-                                  size="sm"
-                                  variant="destructive"
-                                >
-                                  <XCircle className="h-4 w-4" />
-                                </Button>
-                              </DialogTrigger>
-                              <DialogContent>
-                                <DialogHeader>
-                                  <DialogTitle>Cancel Booking</DialogTitle>
-                                  <DialogDescription>
-                                    This action cannot be undone
-                                  </DialogDescription>
-                                </DialogHeader>
-                                <div className="space-y-4">
-                                  <div>
-                                    <Label>Reason</Label>
-                                    <Textarea
-                                      value={actionReason}
-                                      onChange={(e) =>
-                                        setActionReason(e.target.value)
-                                      }
-                                      placeholder="Enter reason for cancellation..."
-                                    />
-                                  </div>
-                                </div>
-                                <DialogFooter>
+                            {can('bookings.manage') && (
+                              <Dialog>
+                                <DialogTrigger asChild>
                                   <Button
+                                    size="sm"
                                     variant="destructive"
-                                    onClick={() =>
-                                      handleCancelBooking(booking.id)
-                                    }
                                   >
-                                    Cancel Booking
+                                    <XCircle className="h-4 w-4" />
                                   </Button>
-                                </DialogFooter>
-                              </DialogContent>
-                            </Dialog>
+                                </DialogTrigger>
+                                <DialogContent>
+                                  <DialogHeader>
+                                    <DialogTitle>Cancel Booking</DialogTitle>
+                                    <DialogDescription>
+                                      This action cannot be undone
+                                    </DialogDescription>
+                                  </DialogHeader>
+                                  <div className="space-y-4">
+                                    <div>
+                                      <Label>Reason</Label>
+                                      <Textarea
+                                        value={actionReason}
+                                        onChange={(e) =>
+                                          setActionReason(e.target.value)
+                                        }
+                                        placeholder="Enter reason for cancellation..."
+                                      />
+                                    </div>
+                                  </div>
+                                  <DialogFooter>
+                                    <Button
+                                      variant="destructive"
+                                      onClick={() =>
+                                        handleCancelBooking(booking)
+                                      }
+                                    >
+                                      Cancel Booking
+                                    </Button>
+                                  </DialogFooter>
+                                </DialogContent>
+                              </Dialog>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
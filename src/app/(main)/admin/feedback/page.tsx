@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ref, get, update } from 'firebase/database';
+import { ref, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { authFetch } from '@/lib/auth-fetch';
 import { useAuth } from '@/components/providers/auth-provider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,6 +12,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { MessageSquare, Clock, CheckCircle, XCircle } from 'lucide-react';
+import type { FeedbackResponse } from '@/types';
 
 interface FeedbackTicket {
   id: string;
@@ -22,12 +24,7 @@ interface FeedbackTicket {
   status: 'open' | 'in-progress' | 'resolved' | 'closed';
   priority: 'low' | 'medium' | 'high';
   createdAt: string;
-  responses?: Array<{
-    message: string;
-    respondedBy: string;
-    respondedAt: string;
-    isAdmin: boolean;
-  }>;
+  responses?: FeedbackResponse[];
 }
 
 export default function AdminFeedbackPage() {
@@ -89,47 +86,40 @@ export default function AdminFeedbackPage() {
     }
   };
 
-  const handleRespond = async (ticketId: string, userId: string) => {
+  const handleRespond = async (ticketId: string) => {
     if (!response.trim() || !user) return;
     
     try {
-      const ticketRef = ref(db, `feedback/${ticketId}`);
-      const snapshot = await get(ticketRef);
+      const res = await authFetch('/api/feedback/respond', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ticketId, message: response }),
+      });
       
-      if (snapshot.exists()) {
-        const ticketData = snapshot.val();
-        const responses = ticketData.responses || [];
-        
-        responses.push({
-          message: response,
-          respondedBy: user.email || 'Admin',
-          respondedAt: new Date().toISOString(),
-          isAdmin: true,
-        });
-        
-        await update(ticketRef, {
-          responses,
-          status: 'in-progress',
-          updatedAt: new Date().toISOString(),
-        });
-        
-        setResponse('');
-        setSelectedTicket(null);
-        fetchFeedback();
+      if (!res.ok) {
+        throw new Error('Failed to send response');
       }
+      
+      setResponse('');
+      setSelectedTicket(null);
+      fetchFeedback();
     } catch (error) {
       console.error('Error responding to feedback:', error);
     }
   };
 
-  const handleUpdateStatus = async (ticketId: string, userId: string, newStatus: string) => {
+  const handleUpdateStatus = async (ticketId: string, newStatus: string) => {
     try {
-      const ticketRef = ref(db, `feedback/${ticketId}`);
-      await update(ticketRef, {
-        status: newStatus,
-        updatedAt: new Date().toISOString(),
+      const res = await authFetch('/api/feedback/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ticketId, status: newStatus }),
       });
       
+      if (!res.ok) {
+        throw new Error('Failed to update status');
+      }
+      
       fetchFeedback();
     } catch (error) {
       console.error('Error updating status:', error);
@@ -236,26 +226,29 @@ export default function AdminFeedbackPage() {
                 {ticket.responses && ticket.responses.length > 0 && (
                   <div className="space-y-2 border-t pt-4">
                     <p className="text-sm font-medium">Responses ({ticket.responses.length})</p>
-                    {ticket.responses.map((resp, idx) => (
+                    {ticket.responses.map((resp, idx) => {
+                      const isAdmin = resp.isAdmin ?? resp.authorId !== ticket.userId;
+                      return (
                       <div
                         key={idx}
                         className={`p-3 rounded-lg text-sm ${
-                          resp.isAdmin
+                          isAdmin
                             ? 'bg-primary/10 border border-primary/20'
                             : 'bg-muted'
                         }`}
                       >
                         <div className="flex items-center justify-between mb-1">
                           <span className="font-medium">
-                            {resp.isAdmin ? '👨‍💼 Admin' : '👤 User'}
+                            {isAdmin ? '👨‍💼 Admin' : '👤 User'}
                           </span>
                           <span className="text-xs text-muted-foreground">
-                            {new Date(resp.respondedAt).toLocaleString()}
+                            {new Date(resp.respondedAt || resp.timestamp || ticket.createdAt).toLocaleString()}
                           </span>
                         </div>
                         <p>{resp.message}</p>
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
 
@@ -279,7 +272,7 @@ export default function AdminFeedbackPage() {
                         rows={5}
                       />
                       <DialogFooter>
-                        <Button onClick={() => handleRespond(ticket.id, ticket.userId)}>
+                        <Button onClick={() => handleRespond(ticket.id)}>
                           Send Response
                         </Button>
                       </DialogFooter>
@@ -288,7 +281,7 @@ export default function AdminFeedbackPage() {
 
                   <Select
                     value={ticket.status}
-                    onValueChange={(value) => handleUpdateStatus(ticket.id, ticket.userId, value)}
+                    onValueChange={(value) => handleUpdateStatus(ticket.id, value)}
                   >
                     <SelectTrigger className="w-40">
                       <SelectValue />
@@ -0,0 +1,56 @@
+'use client';
+
+import { useState } from 'react';
+import { getFloors } from '@/lib/seat-layout';
+import { useSeatLayout } from '@/hooks/use-seat-layout';
+import { FloorPlanEditor } from '@/components/admin/floor-plan-editor';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export default function FloorPlansPage() {
+  const { layout, loading } = useSeatLayout();
+  const [floorId, setFloorId] = useState<string | null>(null);
+  const floors = layout ? getFloors(layout) : [];
+  const selectedFloorId = floorId && layout?.floors[floorId] ? floorId : floors[0]?.id;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Floor Plans</h1>
+          <p className="text-muted-foreground">
+            Place seats, tables, walls and zones. Saving publishes the plan to the seat map.
+          </p>
+        </div>
+        {floors.length > 0 && (
+          <Select value={selectedFloorId} onValueChange={setFloorId}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select floor" />
+            </SelectTrigger>
+            <SelectContent>
+              {floors.map((floor) => (
+                <SelectItem key={floor.id} value={floor.id}>{floor.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {loading || !layout ? (
+        <Card>
+          <CardContent className="py-8">
+            <p className="text-center text-muted-foreground">Loading layout...</p>
+          </CardContent>
+        </Card>
+      ) : selectedFloorId ? (
+        <FloorPlanEditor layout={layout} floorId={selectedFloorId} />
+      ) : (
+        <Card>
+          <CardContent className="py-8">
+            <p className="text-center text-muted-foreground">No floors in the layout</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,38 @@
 'use client';
 
 import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/components/providers/auth-provider';
 import { AdminNav } from '@/components/admin/admin-nav';
 
-import { getAdminEmails } from '@/lib/admin-config';
-
-const ADMIN_EMAILS = getAdminEmails();
+import { getPagePermission, getStaffHomePage, isStaffRole } from '@/lib/permissions';
 
 export default function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const { user, loading } = useAuth();
+  const { user, role, loading, can } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
+  const isStaff = isStaffRole(role);
+  const pagePermission = getPagePermission(pathname);
+  const canViewPage = isStaff && (!pagePermission || can(pagePermission));
 
   useEffect(() => {
     if (!loading) {
       if (!user) {
         // Not logged in - redirect to auth immediately
         router.replace('/auth');
-      } else if (!ADMIN_EMAILS.includes(user.email || '')) {
-        // Not an admin - redirect to dashboard immediately
+      } else if (!isStaff) {
+        // Not staff - redirect to dashboard immediately
         router.replace('/dashboard');
+      } else if (!canViewPage) {
+        // Staff without access to this page - send them to one they can use
+        router.replace(getStaffHomePage(role) ?? '/dashboard');
       }
     }
-  }, [user, loading, router]);
+  }, [user, role, isStaff, canViewPage, loading, router]);
 
   // Show loading state
   if (loading) {
@@ -41,8 +46,8 @@ export default function AdminLayout({
     );
   }
 
-  // Show 404 if not admin (hide admin pages from regular users)
-  if (!user || !ADMIN_EMAILS.includes(user.email || '')) {
+  // Show 404 if not permitted (hide admin pages from regular users)
+  if (!user || !canViewPage) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen">
         <div className="text-center space-y-4">
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { ref, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { authFetch } from '@/lib/auth-fetch';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -20,8 +21,36 @@ export default function ReportsPage() {
   const [groupBy, setGroupBy] = useState('day');
   const [exportFormat, setExportFormat] = useState('csv');
 
+  const downloadBlob = (blob: Blob, extension: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `report-${formatDate(startDate, 'yyyy-MM-dd')}-to-${formatDate(endDate, 'yyyy-MM-dd')}.${extension}`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
   const handleGenerateReport = async () => {
     try {
+      // PDF and Excel files are rendered server-side
+      if (exportFormat !== 'csv') {
+        const params = new URLSearchParams({
+          metrics: metrics.join(','),
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          groupBy,
+          format: exportFormat,
+        });
+        const response = await authFetch(`/api/admin/reports/generate?${params}`);
+
+        if (!response.ok) {
+          throw new Error(`Report generation failed with status ${response.status}`);
+        }
+
+        downloadBlob(await response.blob(), exportFormat === 'excel' ? 'xlsx' : 'pdf');
+        return;
+      }
+
       // Fetch data from Firebase client-side
       const bookingsRef = ref(db, 'bookings');
       const bookingsSnapshot = await get(bookingsRef);
@@ -42,34 +71,23 @@ export default function ReportsPage() {
       }
       
       // Generate CSV
-      if (exportFormat === 'csv') {
-        const headers = ['Date', 'Seat ID', 'User', 'Status', 'Duration (min)', 'Entry Time', 'Exit Time'];
-        const rows = allBookings.map(b => [
-          new Date(b.bookingTime).toLocaleDateString(),
-          b.seatId,
-          b.userEmail?.split('@')[0] || 'Unknown',
-          b.status,
-          b.duration || 0,
-          b.entryTime ? new Date(b.entryTime).toLocaleString() : 'N/A',
-          b.exitTime ? new Date(b.exitTime).toLocaleString() : 'N/A',
-        ]);
-        
-        const csvContent = [
-          headers.join(','),
-          ...rows.map(row => row.join(','))
-        ].join('\n');
-        
-        const blob = new Blob([csvContent], { type: 'text/csv' });
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `report-${formatDate(startDate, 'yyyy-MM-dd')}-to-${formatDate(endDate, 'yyyy-MM-dd')}.csv`;
-        a.click();
-        window.URL.revokeObjectURL(url);
-      } else {
-        console.log('Report data:', allBookings);
-        alert(`${exportFormat.toUpperCase()} export not yet implemented. Check console for data.`);
-      }
+      const headers = ['Date', 'Seat ID', 'User', 'Status', 'Duration (min)', 'Entry Time', 'Exit Time'];
+      const rows = allBookings.map(b => [
+        new Date(b.bookingTime).toLocaleDateString(),
+        b.seatId,
+        b.userEmail?.split('@')[0] || 'Unknown',
+        b.status,
+        b.duration || 0,
+        b.entryTime ? new Date(b.entryTime).toLocaleString() : 'N/A',
+        b.exitTime ? new Date(b.exitTime).toLocaleString() : 'N/A',
+      ]);
+      
+      const csvContent = [
+        headers.join(','),
+        ...rows.map(row => row.join(','))
+      ].join('\n');
+      
+      downloadBlob(new Blob([csvContent], { type: 'text/csv' }), 'csv');
     } catch (error) {
       console.error('Error generating report:', error);
       alert('Error generating report. Check console for details.');
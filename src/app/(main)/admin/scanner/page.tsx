@@ -0,0 +1,14 @@
+'use client';
+
+import { QrScanner } from '@/components/qr-scanner';
+
+export default function AdminScannerPage() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Check-in Scanner</h1>
+      <div className="w-full max-w-4xl">
+        <QrScanner />
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,35 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ref, get, update } from 'firebase/database';
+import { ref, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { authFetch } from '@/lib/auth-fetch';
+import { getFloors, getFloorSeats } from '@/lib/seat-layout';
+import { SEAT_ATTRIBUTES, SEAT_ATTRIBUTE_LABELS } from '@/lib/seat-attributes';
+import { useAuth } from '@/components/providers/auth-provider';
+import { useSeatLayout } from '@/hooks/use-seat-layout';
+import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { Seat } from '@/types';
+import type { Seat, SeatAttribute } from '@/types';
 
 export default function SeatsPage() {
   const [seats, setSeats] = useState<Seat[]>([]);
   const [selectedSeat, setSelectedSeat] = useState<Seat | null>(null);
   const [maintenanceReason, setMaintenanceReason] = useState('');
   const [expectedRestoration, setExpectedRestoration] = useState('');
+  const [selectedAttributes, setSelectedAttributes] = useState<SeatAttribute[]>([]);
   const [loading, setLoading] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const { user } = useAuth();
+  const { layout } = useSeatLayout();
+  const { toast } = useToast();
 
   useEffect(() => {
     fetchSeats();
@@ -50,70 +61,29 @@ export default function SeatsPage() {
 
   const handleMarkMaintenance = async (seatId: string, action: string) => {
     try {
-      // Find the seat in Firebase - seats are stored as seats/{floor}/{seatId}
-      const seatsRef = ref(db, 'seats');
-      const snapshot = await get(seatsRef);
+      const response = await authFetch('/api/admin/seats/maintenance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          seatId,
+          action,
+          maintenanceInfo: action === 'restore' ? undefined : {
+            reason: maintenanceReason,
+            reportedBy: user?.uid || 'admin',
+            expectedRestoration,
+            startedAt: new Date().toISOString(),
+          },
+        }),
+      });
       
-      let seatPath: string | null = null;
-      
-      if (snapshot.exists()) {
-        snapshot.forEach((floorSnapshot) => {
-          floorSnapshot.forEach((seatSnapshot) => {
-            const seat = seatSnapshot.val();
-            if (seat.id === seatId) {
-              seatPath = `seats/${floorSnapshot.key}/${seatSnapshot.key}`;
-            }
-          });
-        });
-      }
+      const data = await response.json();
       
-      if (!seatPath) {
-        console.error(`Seat ${seatId} not found`);
+      if (!response.ok) {
+        toast({ variant: 'destructive', title: 'Error', description: data.error });
         return;
       }
       
-      const seatRef = ref(db, seatPath);
-      const { update } = await import('firebase/database');
-      
-      switch (action) {
-        case 'maintenance':
-          await update(seatRef, {
-            status: 'maintenance',
-            maintenanceInfo: {
-              reason: maintenanceReason,
-              reportedBy: 'admin',
-              expectedRestoration,
-              startedAt: new Date().toISOString(),
-            }
-          });
-          console.log('Seat marked for maintenance');
-          break;
-          
-        case 'out-of-service':
-          await update(seatRef, {
-            status: 'out-of-service',
-            maintenanceInfo: {
-              reason: maintenanceReason,
-              reportedBy: 'admin',
-              expectedRestoration,
-              startedAt: new Date().toISOString(),
-            }
-          });
-          console.log('Seat marked out of service');
-          break;
-          
-        case 'restore':
-          await update(seatRef, {
-            status: 'available',
-            maintenanceInfo: null
-          });
-          console.log('Seat restored to service');
-          break;
-          
-        default:
-          console.error('Invalid action');
-          return;
-      }
+      toast({ title: data.message });
       
       // Refresh seats list
       await fetchSeats();
@@ -128,6 +98,35 @@ export default function SeatsPage() {
     }
   };
 
+  const handleSaveAttributes = async (seatId: string) => {
+    try {
+      const response = await authFetch('/api/admin/seats/attributes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ seatId, attributes: selectedAttributes }),
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        console.error('Error updating seat attributes:', data.error);
+        return;
+      }
+      
+      await fetchSeats();
+      setDialogOpen(false);
+      setSelectedSeat(null);
+    } catch (error) {
+      console.error('Error updating seat attributes:', error);
+    }
+  };
+
+  const toggleAttribute = (attribute: SeatAttribute, checked: boolean) => {
+    setSelectedAttributes((current) =>
+      checked ? [...current, attribute] : current.filter((value) => value !== attribute)
+    );
+  };
+
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold">Seat Management</h1>
@@ -139,46 +138,26 @@ export default function SeatsPage() {
           </CardContent>
         </Card>
       ) : (
-        // Group seats by floor based on seat ID prefix (G=Ground, F=First, S=Second, T=Third)
+        // Group seats by floor, in layout order
         (() => {
-          const seatsByFloor = seats.reduce((acc, seat) => {
-            // Get floor from seat ID prefix
-            const prefix = seat.id.charAt(0).toUpperCase();
-            let floorKey = '';
-            
-            switch (prefix) {
-              case 'G': floorKey = 'ground'; break;
-              case 'F': floorKey = 'first'; break;
-              case 'S': floorKey = 'second'; break;
-              case 'T': floorKey = 'third'; break;
-              default: floorKey = 'unknown'; break;
-            }
-            
-            if (!acc[floorKey]) acc[floorKey] = [];
-            acc[floorKey].push(seat);
-            return acc;
-          }, {} as Record<string, Seat[]>);
-
-          const floorOrder = ['ground', 'first', 'second', 'third'];
-          const floorLabels: Record<string, string> = {
-            ground: 'Ground Floor',
-            first: 'First Floor',
-            second: 'Second Floor',
-            third: 'Third Floor',
-          };
+          const seatsById = new Map(seats.map((seat) => [seat.id, seat]));
+          const seatsByFloor = (layout ? getFloors(layout) : []).map((floor) => ({
+            floor,
+            seats: getFloorSeats(layout!, floor.id)
+              .map((layoutSeat) => seatsById.get(layoutSeat.id))
+              .filter((seat): seat is Seat => !!seat),
+          }));
 
-          return floorOrder
-            .filter(floor => seatsByFloor[floor] && seatsByFloor[floor].length > 0)
-            .map((floor) => (
-              <Card key={floor}>
+          return seatsByFloor
+            .filter(({ seats: floorSeats }) => floorSeats.length > 0)
+            .map(({ floor, seats: floorSeats }) => (
+              <Card key={floor.id}>
                 <CardHeader>
-                  <CardTitle>{floorLabels[floor]}</CardTitle>
+                  <CardTitle>{floor.name}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="grid grid-cols-4 gap-4">
-                    {seatsByFloor[floor]
-                      .sort((a, b) => a.id.localeCompare(b.id))
-                      .map((seat) => {
+                    {floorSeats.map((seat) => {
                       const statusColors: Record<string, string> = {
                         available: 'border-green-500 hover:bg-green-50 dark:hover:bg-green-950',
                         reserved: 'border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-950',
@@ -202,6 +181,7 @@ export default function SeatsPage() {
                               className={`h-20 ${statusColors[seat.status] || ''}`}
                               onClick={() => {
                                 setSelectedSeat(seat);
+                                setSelectedAttributes(layout?.seats[seat.id]?.attributes || []);
                                 setDialogOpen(true);
                               }}
                             >
@@ -214,9 +194,33 @@ export default function SeatsPage() {
                           <DialogContent>
                             <DialogHeader>
                               <DialogTitle>Seat {seat.number}</DialogTitle>
-                              <DialogDescription>Manage seat maintenance status</DialogDescription>
+                              <DialogDescription>Manage seat features and maintenance status</DialogDescription>
                             </DialogHeader>
                             <div className="space-y-5 py-4">
+                              <div className="space-y-2">
+                                <Label className="text-sm font-medium">Features</Label>
+                                <div className="grid grid-cols-2 gap-2">
+                                  {SEAT_ATTRIBUTES.map((attribute) => (
+                                    <div key={attribute} className="flex items-center gap-2">
+                                      <Checkbox
+                                        id={`attribute-${attribute}`}
+                                        checked={selectedAttributes.includes(attribute)}
+                                        onCheckedChange={(checked) => toggleAttribute(attribute, checked === true)}
+                                      />
+                                      <Label htmlFor={`attribute-${attribute}`} className="text-sm font-normal">
+                                        {SEAT_ATTRIBUTE_LABELS[attribute]}
+                                      </Label>
+                                    </div>
+                                  ))}
+                                </div>
+                                <Button
+                                  variant="secondary"
+                                  size="sm"
+                                  onClick={() => handleSaveAttributes(seat.id)}
+                                >
+                                  Save Features
+                                </Button>
+                              </div>
                               <div className="space-y-2">
                                 <Label htmlFor="reason" className="text-sm font-medium">
                                   Maintenance Reason
@@ -1,79 +1,448 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { authFetch } from '@/lib/auth-fetch';
+import { getMaxBreakMinutes } from '@/lib/booking-break';
+import { DAYS_OF_WEEK, validateLibrarySettings, type LibrarySettingsValues } from '@/lib/library-settings';
+import { getPenaltyPolicy } from '@/lib/penalties';
+import { useToast } from '@/hooks/use-toast';
+import { HolidayImportDialog } from '@/components/admin/holiday-import-dialog';
+import { SettingsHistory } from '@/components/admin/settings-history';
+import { SpecialHoursEditor } from '@/components/admin/special-hours-editor';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { AlertTriangle, Download, Loader2, Trash2 } from 'lucide-react';
+import type { BookingRules, LibrarySettings, LibrarySettingsVersion, PenaltyPolicy } from '@/types';
+
+const RULE_FIELDS: Array<{ key: keyof BookingRules; label: string; unit: string }> = [
+  { key: 'minBookingDuration', label: 'Minimum booking length', unit: 'minutes' },
+  { key: 'maxBookingDuration', label: 'Maximum booking length', unit: 'minutes' },
+  { key: 'maxDailyDuration', label: 'Daily limit per student', unit: 'minutes' },
+  { key: 'extensionIncrement', label: 'Extension step', unit: 'minutes' },
+  { key: 'maxAdvanceBookingDays', label: 'Book up to', unit: 'days ahead' },
+  { key: 'maxBreakDuration', label: 'Longest break', unit: 'minutes' },
+];
+
+const PENALTY_FIELDS: Array<{ key: Exclude<keyof PenaltyPolicy, 'enabled'>; label: string; unit: string }> = [
+  { key: 'noShowStrikes', label: 'Strikes per no-show', unit: 'strikes' },
+  { key: 'overstayStrikes', label: 'Strikes per overstay', unit: 'strikes' },
+  { key: 'strikeLifetimeDays', label: 'Strikes expire after', unit: 'days' },
+  { key: 'banThreshold', label: 'Ban after', unit: 'strikes' },
+  { key: 'banWindowDays', label: 'Counted within', unit: 'days' },
+  { key: 'banDays', label: 'Ban length', unit: 'days' },
+  { key: 'repeatOffenderStrikes', label: 'Shorten bookings from', unit: 'strikes' },
+  { key: 'repeatOffenderMaxDuration', label: 'Shortened booking length', unit: 'minutes' },
+];
+
+// Fill in the defaults so every field has a value to edit
+const toForm = (settings: LibrarySettingsValues): LibrarySettingsValues => ({
+  operatingHours: settings.operatingHours,
+  holidays: settings.holidays || [],
+  specialHours: settings.specialHours || [],
+  bookingRules: { ...settings.bookingRules, maxBreakDuration: getMaxBreakMinutes(settings as LibrarySettings) },
+  penaltyPolicy: getPenaltyPolicy(settings as LibrarySettings),
+});
 
 export default function SettingsPage() {
-  const [operatingHours, setOperatingHours] = useState({
-    monday: { open: '09:00', close: '18:00', isClosed: false },
-    tuesday: { open: '09:00', close: '18:00', isClosed: false },
-    wednesday: { open: '09:00', close: '18:00', isClosed: false },
-    thursday: { open: '09:00', close: '18:00', isClosed: false },
-    friday: { open: '09:00', close: '18:00', isClosed: false },
-    saturday: { open: '10:00', close: '16:00', isClosed: false },
-    sunday: { open: '00:00', close: '00:00', isClosed: true },
-  });
+  const { toast } = useToast();
+  const [form, setForm] = useState<LibrarySettingsValues | null>(null);
+  const [lastSaved, setLastSaved] = useState<{ versionId?: string; at: string } | null>(null);
+  const [versions, setVersions] = useState<LibrarySettingsVersion[]>([]);
+  const [holiday, setHoliday] = useState({ date: '', name: '' });
+  const [reason, setReason] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [serverProblems, setServerProblems] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await authFetch('/api/admin/settings');
+        if (!response.ok) {
+          throw new Error(`Failed to load settings: ${response.status}`);
+        }
+        const data = await response.json();
+        setForm(toForm(data.settings));
+        setLastSaved(data.isDefault ? null : { versionId: data.settings.versionId, at: data.settings.updatedAt });
+      } catch (error: any) {
+        toast({ variant: 'destructive', title: 'Error', description: error.message });
+      }
+    };
+
+    fetchSettings();
+  }, [toast]);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/admin/settings/versions');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load settings history');
+      }
+      setVersions(data.versions || []);
+    } catch (error) {
+      console.error('Error fetching library settings versions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, lastSaved]);
+
+  if (!form) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold">Library Settings</h1>
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  const problems = validateLibrarySettings(form);
+
+  const setDay = (day: string, changes: Partial<LibrarySettingsValues['operatingHours'][string]>) =>
+    setForm({ ...form, operatingHours: { ...form.operatingHours, [day]: { ...form.operatingHours[day], ...changes } } });
+
+  const setRule = (key: keyof BookingRules, value: string) =>
+    setForm({ ...form, bookingRules: { ...form.bookingRules, [key]: value === '' ? NaN : Number(value) } });
+
+  const setPenalty = (changes: Partial<PenaltyPolicy>) =>
+    setForm({ ...form, penaltyPolicy: { ...form.penaltyPolicy!, ...changes } });
+
+  const addHoliday = () => {
+    setForm({
+      ...form,
+      holidays: [...form.holidays, { date: holiday.date, name: holiday.name.trim() }].sort((a, b) => a.date.localeCompare(b.date)),
+    });
+    setHoliday({ date: '', name: '' });
+  };
+
+  const removeHoliday = (date: string) =>
+    setForm({ ...form, holidays: form.holidays.filter((h) => h.date !== date) });
 
   const handleSave = async () => {
-    // TODO: Implement save functionality
-    console.log('Saving settings:', operatingHours);
+    setSaving(true);
+    setServerProblems([]);
+    try {
+      const response = await authFetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          settings: form,
+          reason,
+          ...(effectiveFrom ? { effectiveFrom: new Date(effectiveFrom).toISOString() } : {}),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setServerProblems(data.problems || []);
+        throw new Error(data.error || 'Failed to save settings');
+      }
+
+      setReason('');
+      setEffectiveFrom('');
+      if (data.version) {
+        toast({
+          title: 'Settings scheduled',
+          description: `They go live on ${new Date(data.version.effectiveFrom).toLocaleString()}.`,
+        });
+        fetchVersions();
+      } else {
+        showSaved(data, 'Settings saved');
+      }
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: LibrarySettingsVersion) => {
+    if (!confirm(`Roll back to the settings saved on ${new Date(version.createdAt).toLocaleString()}?`)) {
+      return;
+    }
+
+    setSaving(true);
+    setServerProblems([]);
+    try {
+      const response = await authFetch(`/api/admin/settings/versions/${version.id}/restore`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setServerProblems(data.problems || []);
+        throw new Error(data.error || 'Failed to roll back settings');
+      }
+
+      showSaved(data, 'Settings rolled back');
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (version: LibrarySettingsVersion) => {
+    setSaving(true);
+    try {
+      const response = await authFetch(`/api/admin/settings/versions/${version.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel scheduled settings');
+      }
+
+      toast({ title: 'Scheduled settings cancelled' });
+      fetchVersions();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExportHolidays = async () => {
+    try {
+      const response = await authFetch('/api/admin/settings/holidays/export');
+
+      if (!response.ok) {
+        throw new Error(`Holiday export failed with status ${response.status}`);
+      }
+
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'library-holidays.ics';
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const showSaved = (data: { settings: LibrarySettings; affectedBookings: string[] }, title: string) => {
+    setForm(toForm(data.settings));
+    setLastSaved({ versionId: data.settings.versionId, at: data.settings.updatedAt });
+    toast({
+      title,
+      description: data.affectedBookings.length > 0
+        ? `${data.affectedBookings.length} open booking(s) now start outside opening hours.`
+        : 'Bookings will use the new settings straight away.',
+    });
   };
 
+  const shownProblems = Array.from(new Set([...problems, ...serverProblems]));
+
   return (
     <div className="space-y-6">
-      <h1 className="text-3xl font-bold">Library Settings</h1>
+      <div>
+        <h1 className="text-3xl font-bold">Library Settings</h1>
+        <p className="text-muted-foreground mt-1">
+          {lastSaved
+            ? `Last saved ${new Date(lastSaved.at).toLocaleString()}`
+            : 'Using the default settings until you save'}
+        </p>
+      </div>
 
       <Card>
         <CardHeader>
           <CardTitle>Operating Hours</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          {Object.entries(operatingHours).map(([day, hours]) => (
-            <div key={day} className="grid grid-cols-4 gap-4 items-center">
-              <Label className="capitalize">{day}</Label>
-              <Input
-                type="time"
-                value={hours.open}
-                onChange={(e) =>
-                  setOperatingHours({
-                    ...operatingHours,
-                    [day]: { ...hours, open: e.target.value },
-                  })
-                }
-                disabled={hours.isClosed}
-              />
-              <Input
-                type="time"
-                value={hours.close}
-                onChange={(e) =>
-                  setOperatingHours({
-                    ...operatingHours,
-                    [day]: { ...hours, close: e.target.value },
-                  })
-                }
-                disabled={hours.isClosed}
-              />
-              <Button
-                variant={hours.isClosed ? 'outline' : 'destructive'}
-                onClick={() =>
-                  setOperatingHours({
-                    ...operatingHours,
-                    [day]: { ...hours, isClosed: !hours.isClosed },
-                  })
-                }
-              >
-                {hours.isClosed ? 'Open' : 'Close'}
+          {DAYS_OF_WEEK.map((day) => {
+            const hours = form.operatingHours[day];
+            return (
+              <div key={day} className="grid grid-cols-4 gap-4 items-center">
+                <Label className="capitalize">{day}</Label>
+                <Input
+                  type="time"
+                  value={hours.open}
+                  onChange={(e) => setDay(day, { open: e.target.value })}
+                  disabled={hours.isClosed}
+                />
+                <Input
+                  type="time"
+                  value={hours.close}
+                  onChange={(e) => setDay(day, { close: e.target.value })}
+                  disabled={hours.isClosed}
+                />
+                <Button
+                  variant={hours.isClosed ? 'outline' : 'destructive'}
+                  onClick={() => setDay(day, { isClosed: !hours.isClosed })}
+                >
+                  {hours.isClosed ? 'Open' : 'Close'}
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="space-y-1.5">
+              <CardTitle>Holidays</CardTitle>
+              <CardDescription>The library is closed all day on these dates.</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <HolidayImportDialog onImported={(data) => showSaved(data, 'Holidays imported')} />
+              <Button variant="outline" size="sm" onClick={handleExportHolidays}>
+                <Download className="mr-2 h-4 w-4" />
+                Export .ics
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {form.holidays.length === 0 && <p className="text-sm text-muted-foreground">No holidays set.</p>}
+          {form.holidays.map((h) => (
+            <div key={h.date} className="flex items-center justify-between gap-4 rounded-md border px-3 py-2">
+              <span className="text-sm">
+                <span className="font-medium">{h.date}</span> · {h.name}
+              </span>
+              <Button variant="ghost" size="icon" onClick={() => removeHoliday(h.date)} aria-label={`Remove ${h.name}`}>
+                <Trash2 className="h-4 w-4" />
               </Button>
             </div>
           ))}
-          <Button onClick={handleSave} className="w-full">
-            Save Settings
-          </Button>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="date"
+              value={holiday.date}
+              onChange={(e) => setHoliday({ ...holiday, date: e.target.value })}
+              className="sm:w-48"
+            />
+            <Input
+              value={holiday.name}
+              onChange={(e) => setHoliday({ ...holiday, name: e.target.value })}
+              placeholder="Holiday name"
+            />
+            <Button variant="outline" onClick={addHoliday} disabled={!holiday.date || !holiday.name.trim()}>
+              Add Holiday
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <SpecialHoursEditor
+        value={form.specialHours || []}
+        bookingRules={form.bookingRules}
+        onChange={(specialHours) => setForm({ ...form, specialHours })}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Booking Rules</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          {RULE_FIELDS.map(({ key, label, unit }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={key}>{label}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id={key}
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(form.bookingRules[key]) ? '' : form.bookingRules[key] ?? ''}
+                  onChange={(e) => setRule(key, e.target.value)}
+                />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">{unit}</span>
+              </div>
+            </div>
+          ))}
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Strikes and Bans</CardTitle>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="penalties-enabled">Enabled</Label>
+              <Switch
+                id="penalties-enabled"
+                checked={form.penaltyPolicy!.enabled}
+                onCheckedChange={(enabled) => setPenalty({ enabled })}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          {PENALTY_FIELDS.map(({ key, label, unit }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={key}>{label}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id={key}
+                  type="number"
+                  min={0}
+                  value={Number.isNaN(form.penaltyPolicy![key]) ? '' : form.penaltyPolicy![key]}
+                  onChange={(e) => setPenalty({ [key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+                  disabled={!form.penaltyPolicy!.enabled}
+                />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">{unit}</span>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {shownProblems.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Fix these before saving</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {shownProblems.map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="reason">Reason for the change</Label>
+            <Input
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Exam season hours"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="effective-from">Take effect from</Label>
+            <Input
+              id="effective-from"
+              type="datetime-local"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Leave empty to apply straight away.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Button onClick={handleSave} className="w-full" disabled={saving || problems.length > 0}>
+        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {effectiveFrom ? 'Schedule Settings' : 'Save Settings'}
+      </Button>
+
+      <SettingsHistory
+        versions={versions}
+        liveVersionId={lastSaved?.versionId}
+        busy={saving}
+        onRestore={handleRestore}
+        onCancel={handleCancel}
+      />
     </div>
   );
 }
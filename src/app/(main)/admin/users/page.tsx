@@ -3,6 +3,18 @@
 import { useState, useEffect } from 'react';
 import { ref, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { authFetch } from '@/lib/auth-fetch';
+import { useAuth } from '@/components/providers/auth-provider';
+import { ROLE_LABELS, USER_ROLES } from '@/lib/permissions';
+import { getActiveStrikes } from '@/lib/penalties';
+import { isRestrictionActive, RESTRICTION_SEVERITIES, SEVERITY_LABELS } from '@/lib/restrictions';
+import type {
+  PenaltyOverride,
+  RestrictionAppeal,
+  RestrictionHistoryEntry,
+  RestrictionSeverity,
+  UserPenalties,
+} from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -10,25 +22,56 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Search, Flag, FlagOff } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Flag, FlagOff, Gavel, History } from 'lucide-react';
+
+// The ban still in force, if any
+const getBannedUntil = (penalties?: UserPenalties): string | null =>
+  penalties?.bannedUntil && new Date(penalties.bannedUntil) > new Date() ? penalties.bannedUntil : null;
 
 export default function UsersPage() {
+  const { user: currentUser, can } = useAuth();
   const [users, setUsers] = useState<any[]>([]);
   const [allUsers, setAllUsers] = useState<any[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [reason, setReason] = useState('');
+  const [severity, setSeverity] = useState<RestrictionSeverity>('moderate');
+  const [suspendUntil, setSuspendUntil] = useState('');
+  const [appeals, setAppeals] = useState<RestrictionAppeal[]>([]);
+  const [replies, setReplies] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     fetchUsers();
+    fetchAppeals();
   }, []);
 
+  const fetchAppeals = async () => {
+    try {
+      const response = await authFetch('/api/admin/appeals?status=pending');
+      const data = await response.json();
+      setAppeals(data.appeals || []);
+    } catch (error) {
+      console.error('Error fetching appeals:', error);
+    }
+  };
+
   const fetchUsers = async () => {
     setLoading(true);
     try {
       // Fetch users from Realtime DB client-side
       const usersRef = ref(db, 'users');
-      const snapshot = await get(usersRef);
+      const [snapshot, rolesSnapshot, penaltiesSnapshot, restrictionsSnapshot, historySnapshot] = await Promise.all([
+        get(usersRef),
+        get(ref(db, 'roles')),
+        get(ref(db, 'penalties')),
+        get(ref(db, 'restrictions')),
+        get(ref(db, 'restrictionHistory')),
+      ]);
+      const roles = rolesSnapshot.val() || {};
+      const penalties = penaltiesSnapshot.val() || {};
+      const restrictions = restrictionsSnapshot.val() || {};
+      const restrictionHistory = historySnapshot.val() || {};
       
       const usersList: any[] = [];
       if (snapshot.exists()) {
@@ -39,8 +82,11 @@ export default function UsersPage() {
             email: userData.email || '',
             displayName: userData.displayName || userData.email?.split('@')[0] || '',
             stats: userData.stats || { totalBookings: 0 },
-            restrictions: userData.restrictions || { isFlagged: false },
-            ...userData
+            ...userData,
+            role: roles[userSnapshot.key!] || 'user',
+            penalties: penalties[userSnapshot.key!],
+            restrictions: restrictions[userSnapshot.key!] || { isFlagged: false },
+            restrictionHistory: restrictionHistory[userSnapshot.key!],
           });
         });
       }
@@ -70,13 +116,20 @@ export default function UsersPage() {
 
   const handleFlagUser = async (userId: string) => {
     try {
-      await fetch('/api/admin/users/flag', {
+      await authFetch('/api/admin/users/flag', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, reason }),
+        body: JSON.stringify({
+          userId,
+          reason,
+          severity,
+          ...(suspendUntil ? { expiresAt: new Date(suspendUntil).toISOString() } : {}),
+        }),
       });
-      handleSearch();
+      await fetchUsers();
       setReason('');
+      setSeverity('moderate');
+      setSuspendUntil('');
     } catch (error) {
       console.error('Error flagging user:', error);
     }
@@ -84,17 +137,67 @@ export default function UsersPage() {
 
   const handleUnflagUser = async (userId: string) => {
     try {
-      await fetch('/api/admin/users/unflag', {
+      await authFetch('/api/admin/users/unflag', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ userId }),
       });
-      handleSearch();
+      await fetchUsers();
     } catch (error) {
       console.error('Error unflagging user:', error);
     }
   };
 
+  const handleReviewAppeal = async (appealId: string, decision: 'accepted' | 'rejected') => {
+    try {
+      const response = await authFetch(`/api/admin/appeals/${appealId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, reply: replies[appealId] || '' }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.message || data.error || 'Failed to review appeal');
+        return;
+      }
+      await Promise.all([fetchAppeals(), fetchUsers()]);
+    } catch (error) {
+      console.error('Error reviewing appeal:', error);
+    }
+  };
+
+  const handlePenaltyOverride = async (userId: string, override: PenaltyOverride, strikeId?: string) => {
+    try {
+      const response = await authFetch('/api/admin/users/penalties', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, override, reason, strikeId }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to update penalties');
+        return;
+      }
+      setReason('');
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error overriding penalties:', error);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: string) => {
+    try {
+      await authFetch('/api/admin/users/role', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, role }),
+      });
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error changing user role:', error);
+    }
+  };
+
   const syncAuthUsersToDb = async () => {
     setLoading(true);
     try {
@@ -145,6 +248,58 @@ export default function UsersPage() {
         </CardContent>
       </Card>
 
+      {appeals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Appeals ({appeals.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {appeals.map((appeal) => (
+              <div key={appeal.id} className="rounded-md border p-4 space-y-3">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <span className="font-medium">{appeal.userName} · {appeal.userEmail}</span>
+                  <span className="text-xs text-muted-foreground">
+                    Submitted {new Date(appeal.submittedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Flagged for: {appeal.restriction.reason || 'No reason given'}
+                  {appeal.restriction.severity && ` (${SEVERITY_LABELS[appeal.restriction.severity]})`}
+                  {appeal.restriction.expiresAt && `, until ${new Date(appeal.restriction.expiresAt).toLocaleString()}`}
+                </p>
+                <p className="text-sm whitespace-pre-wrap">{appeal.message}</p>
+                {can('users.flag') && (
+                  <>
+                    <Textarea
+                      value={replies[appeal.id] || ''}
+                      onChange={(e) => setReplies((prev) => ({ ...prev, [appeal.id]: e.target.value }))}
+                      placeholder="Reply to the student..."
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        disabled={!replies[appeal.id]?.trim()}
+                        onClick={() => handleReviewAppeal(appeal.id, 'accepted')}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!replies[appeal.id]?.trim()}
+                        onClick={() => handleReviewAppeal(appeal.id, 'rejected')}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Users ({users.length})</CardTitle>
@@ -161,6 +316,7 @@ export default function UsersPage() {
                 <TableHead>Name</TableHead>
                 <TableHead>Email</TableHead>
                 <TableHead>Total Bookings</TableHead>
+                <TableHead>Role</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
@@ -168,25 +324,156 @@ export default function UsersPage() {
             <TableBody>
               {users.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
                     No users found
                   </TableCell>
                 </TableRow>
               ) : (
-                users.map((user) => (
+                users.map((user) => {
+                  const strikes = getActiveStrikes(user.penalties, new Date());
+                  const bannedUntil = getBannedUntil(user.penalties);
+                  const isFlagged = isRestrictionActive(user.restrictions, new Date());
+                  const history = Object.values(user.restrictionHistory || {}) as RestrictionHistoryEntry[];
+
+                  return (
                   <TableRow key={user.uid}>
                     <TableCell>{user.displayName || user.email?.split('@')[0] || 'N/A'}</TableCell>
                     <TableCell>{user.email || 'N/A'}</TableCell>
                     <TableCell>{user.stats?.totalBookings || 0}</TableCell>
                     <TableCell>
-                      {user.restrictions?.isFlagged ? (
-                        <span className="text-destructive">Flagged</span>
+                      {can('users.roles') && user.uid !== currentUser?.uid ? (
+                        <Select value={user.role || 'user'} onValueChange={(role) => handleRoleChange(user.uid, role)}>
+                          <SelectTrigger className="w-[160px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       ) : (
-                        <span className="text-green-600">Active</span>
+                        ROLE_LABELS[user.role as keyof typeof ROLE_LABELS] || ROLE_LABELS.user
                       )}
                     </TableCell>
                     <TableCell>
-                      {user.restrictions?.isFlagged ? (
+                      {isFlagged ? (
+                        <span className="text-destructive">
+                          {user.restrictions.expiresAt
+                            ? `Suspended until ${new Date(user.restrictions.expiresAt).toLocaleDateString()}`
+                            : 'Flagged'}
+                          {user.restrictions.severity && ` (${SEVERITY_LABELS[user.restrictions.severity as RestrictionSeverity]})`}
+                        </span>
+                      ) : bannedUntil ? (
+                        <span className="text-destructive">Banned until {new Date(bannedUntil).toLocaleDateString()}</span>
+                      ) : (
+                        <span className="text-green-600">Active</span>
+                      )}
+                      {strikes.length > 0 && (
+                        <span className="block text-xs text-muted-foreground">
+                          {strikes.length} active {strikes.length === 1 ? 'strike' : 'strikes'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="flex gap-2">
+                      {can('users.flag') && (strikes.length > 0 || bannedUntil) && (
+                        <Dialog>
+                          <DialogTrigger asChild>
+                            <Button size="sm" variant="outline">
+                              <Gavel className="h-4 w-4 mr-2" />
+                              Penalties
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Penalties</DialogTitle>
+                              <DialogDescription>
+                                Waive strikes or lift a ban. Every change is recorded in the audit log.
+                              </DialogDescription>
+                            </DialogHeader>
+                            <div className="space-y-2">
+                              {bannedUntil && (
+                                <p className="text-sm text-destructive">
+                                  Banned until {new Date(bannedUntil).toLocaleString()}
+                                </p>
+                              )}
+                              {strikes.map((strike) => (
+                                <div key={strike.id} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                                  <span>
+                                    <span className="capitalize">{strike.reason}</span> on {new Date(strike.issuedAt).toLocaleDateString()}
+                                    <span className="text-muted-foreground"> · expires {new Date(strike.expiresAt).toLocaleDateString()}</span>
+                                  </span>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    disabled={!reason.trim()}
+                                    onClick={() => handlePenaltyOverride(user.uid, 'waive-strike', strike.id)}
+                                  >
+                                    Waive
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                            <div>
+                              <Label>Reason</Label>
+                              <Textarea
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                placeholder="Enter reason for the override..."
+                              />
+                            </div>
+                            <DialogFooter>
+                              {strikes.length > 0 && (
+                                <Button
+                                  variant="outline"
+                                  disabled={!reason.trim()}
+                                  onClick={() => handlePenaltyOverride(user.uid, 'clear-strikes')}
+                                >
+                                  Clear Strikes
+                                </Button>
+                              )}
+                              {bannedUntil && (
+                                <Button disabled={!reason.trim()} onClick={() => handlePenaltyOverride(user.uid, 'lift-ban')}>
+                                  Lift Ban
+                                </Button>
+                              )}
+                            </DialogFooter>
+                          </DialogContent>
+                        </Dialog>
+                      )}
+                      {history.length > 0 && (
+                        <Dialog>
+                          <DialogTrigger asChild>
+                            <Button size="sm" variant="ghost">
+                              <History className="h-4 w-4 mr-2" />
+                              History
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Restriction History</DialogTitle>
+                              <DialogDescription>Flags, suspensions and appeals, newest first</DialogDescription>
+                            </DialogHeader>
+                            <div className="space-y-2 max-h-96 overflow-y-auto">
+                              {history
+                                .sort((a, b) => b.at.localeCompare(a.at))
+                                .map((entry) => (
+                                  <div key={entry.id} className="rounded-md border px-3 py-2 text-sm">
+                                    <div className="flex justify-between gap-2">
+                                      <span className="font-medium capitalize">{entry.event.replace('-', ' ')}</span>
+                                      <span className="text-muted-foreground">{new Date(entry.at).toLocaleString()}</span>
+                                    </div>
+                                    {entry.reason && <p className="text-muted-foreground">{entry.reason}</p>}
+                                    {entry.expiresAt && (
+                                      <p className="text-muted-foreground">Until {new Date(entry.expiresAt).toLocaleString()}</p>
+                                    )}
+                                  </div>
+                                ))}
+                            </div>
+                          </DialogContent>
+                        </Dialog>
+                      )}
+                      {!can('users.flag') ? null : isFlagged ? (
                         <Button size="sm" variant="outline" onClick={() => handleUnflagUser(user.uid)}>
                           <FlagOff className="h-4 w-4 mr-2" />
                           Unflag
@@ -204,13 +491,36 @@ export default function UsersPage() {
                               <DialogTitle>Flag User</DialogTitle>
                               <DialogDescription>Restrict this user from making bookings</DialogDescription>
                             </DialogHeader>
-                            <div>
-                              <Label>Reason</Label>
-                              <Textarea
-                                value={reason}
-                                onChange={(e) => setReason(e.target.value)}
-                                placeholder="Enter reason for flagging..."
-                              />
+                            <div className="space-y-4">
+                              <div>
+                                <Label>Reason</Label>
+                                <Textarea
+                                  value={reason}
+                                  onChange={(e) => setReason(e.target.value)}
+                                  placeholder="Enter reason for flagging..."
+                                />
+                              </div>
+                              <div>
+                                <Label>Severity</Label>
+                                <Select value={severity} onValueChange={(value) => setSeverity(value as RestrictionSeverity)}>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {RESTRICTION_SEVERITIES.map((level) => (
+                                      <SelectItem key={level} value={level}>{SEVERITY_LABELS[level]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                              <div>
+                                <Label>Suspend until (leave empty to flag until lifted)</Label>
+                                <Input
+                                  type="datetime-local"
+                                  value={suspendUntil}
+                                  onChange={(e) => setSuspendUntil(e.target.value)}
+                                />
+                              </div>
                             </div>
                             <DialogFooter>
                               <Button variant="destructive" onClick={() => handleFlagUser(user.uid)}>
@@ -222,7 +532,8 @@ export default function UsersPage() {
                       )}
                     </TableCell>
                   </TableRow>
-                ))
+                  );
+                })
               )}
             </TableBody>
           </Table>
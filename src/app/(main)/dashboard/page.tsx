@@ -3,6 +3,10 @@
 import { useState, useEffect } from 'react';
 import { BookingHistory } from "@/components/booking-history";
 import { BookingExtension } from "@/components/booking-extension";
+import { BookingBreak } from "@/components/booking-break";
+import { SeatSwapPanel } from "@/components/seat-swap-panel";
+import { PenaltyNotice } from "@/components/penalty-notice";
+import { RestrictionNotice } from "@/components/restriction-notice";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/components/providers/auth-provider";
@@ -50,6 +54,9 @@ export default function DashboardPage() {
         <p className="text-muted-foreground mt-2">Manage your bookings and view statistics</p>
       </div>
 
+      {user && <RestrictionNotice userId={user.uid} />}
+      {user && <PenaltyNotice userId={user.uid} />}
+
       {/* Quick Actions */}
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
@@ -95,6 +102,12 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {/* Break */}
+      {activeBooking && <BookingBreak booking={activeBooking} />}
+
+      {/* Seat Swaps */}
+      {user && <SeatSwapPanel userId={user.uid} booking={activeBooking} />}
+
       {/* Booking Extension */}
       {activeBooking && (
         <BookingExtension
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { GroupBookingForm } from '@/components/group-booking-form';
+import { GroupBookingsList } from '@/components/group-bookings-list';
+import { useAuth } from '@/components/providers/auth-provider';
+import { useGroupBookings } from '@/hooks/use-group-bookings';
+
+export default function GroupsPage() {
+  const { user } = useAuth();
+  const { groups, loading, create, respond, cancel } = useGroupBookings(!!user);
+  const [activeTab, setActiveTab] = useState('groups');
+  const pendingInvites = groups.filter((group) =>
+    group.status === 'active' &&
+    group.members.some((member) => member.status === 'invited' && member.email === user?.email?.toLowerCase())
+  ).length;
+
+  const handleCreate = async (...args: Parameters<typeof create>) => {
+    await create(...args);
+    setActiveTab('groups');
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-6 animate-in fade-in-50 duration-500">
+      <div className="text-center sm:text-left">
+        <h1 className="text-3xl md:text-4xl font-bold font-headline">Group Bookings</h1>
+        <p className="text-muted-foreground mt-2">
+          Study together: book seats side by side or a discussion room for your project group
+        </p>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="grid w-full max-w-md mx-auto grid-cols-2">
+          <TabsTrigger value="groups">
+            My Groups{pendingInvites > 0 ? ` (${pendingInvites} new)` : ''}
+          </TabsTrigger>
+          <TabsTrigger value="new">New Group Booking</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="groups" className="mt-6">
+          <GroupBookingsList
+            groups={groups}
+            loading={loading}
+            userId={user?.uid || ''}
+            email={user?.email || ''}
+            onRespond={respond}
+            onCancel={cancel}
+          />
+        </TabsContent>
+
+        <TabsContent value="new" className="mt-6">
+          <GroupBookingForm onCreate={handleCreate} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
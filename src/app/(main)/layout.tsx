@@ -15,34 +15,31 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
+  Clock,
   LayoutGrid,
   LogOut,
   QrCode,
   User,
   Loader2,
+  Users,
 } from 'lucide-react';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { cn } from '@/lib/utils';
 
-import { getAdminEmails } from '@/lib/admin-config';
-
-// Admin email whitelist - loaded from environment
-const ADMIN_EMAILS = getAdminEmails();
+import { getStaffHomePage, isStaffRole, ROLE_LABELS } from '@/lib/permissions';
 
 export default function MainLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const { user, loading, logout } = useAuth();
+  const { user, role, loading, logout } = useAuth();
   const router = useRouter();
   const pathname = usePathname();
   const [isRedirecting, setIsRedirecting] = React.useState(false);
 
-  // Check if user is admin - memoized to avoid recalculation
-  const isAdmin = useMemo(() => {
-    return user?.email ? ADMIN_EMAILS.includes(user.email) : false;
-  }, [user?.email]);
+  // Library staff (admins included) use the admin pages - memoized to avoid recalculation
+  const isAdmin = useMemo(() => isStaffRole(role), [role]);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -54,9 +51,9 @@ export default function MainLayout({
   // Redirect admins to admin dashboard immediately (no 404 shown)
   useEffect(() => {
     if (isAdmin && !pathname.startsWith('/admin')) {
-      router.replace('/admin/analytics');
+      router.replace(getStaffHomePage(role) ?? '/dashboard');
     }
-  }, [isAdmin, pathname, router]);
+  }, [isAdmin, role, pathname, router]);
 
   // Show nothing while redirecting (prevents flash of user pages)
   if (isAdmin && !pathname.startsWith('/admin')) {
@@ -93,6 +90,7 @@ export default function MainLayout({
   const navItems = [
     { href: '/seats', label: 'Seats', icon: LayoutGrid },
     { href: '/dashboard', label: 'Dashboard', icon: User },
+    { href: '/groups', label: 'Groups', icon: Users },
     { href: '/scanner', label: 'Scanner', icon: QrCode },
   ];
 
@@ -150,7 +148,7 @@ export default function MainLayout({
               <DropdownMenuContent align="end" className="w-56">
                 <DropdownMenuLabel>
                   <div className="flex flex-col space-y-1">
-                    <p className="text-sm font-medium leading-none">{isAdmin ? 'Admin' : 'SRM Student'}</p>
+                    <p className="text-sm font-medium leading-none">{isAdmin ? ROLE_LABELS[role] : 'SRM Student'}</p>
                     <p className="text-xs leading-none text-muted-foreground truncate">
                       {user.email}
                     </p>
@@ -165,6 +163,12 @@ export default function MainLayout({
                         <span>Usage Statistics</span>
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/hours" className="cursor-pointer">
+                        <Clock className="mr-2 h-4 w-4" />
+                        <span>Opening Hours</span>
+                      </Link>
+                    </DropdownMenuItem>
                     <DropdownMenuItem asChild>
                       <Link href="/feedback" className="cursor-pointer">
                         <User className="mr-2 h-4 w-4" />
@@ -1,11 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
 import { computeAnalytics, getUsageTrends } from '@/services/analytics';
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission('analytics.view', async (request) => {
   try {
-    // Admin access is verified client-side in the layout
-    // This API is only accessible from admin pages
-    
     // Get query parameters
     const searchParams = request.nextUrl.searchParams;
     const startDate = searchParams.get('startDate');
@@ -42,4 +40,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
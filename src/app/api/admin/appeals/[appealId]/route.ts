@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { reviewAppeal } from '@/services/appeals';
+
+export const POST = withPermission<{ params: Promise<{ appealId: string }> }>('users.flag', async (request, staff, { params }) => {
+  try {
+    const { appealId } = await params;
+    const { decision, reply } = await request.json();
+    
+    if (decision !== 'accepted' && decision !== 'rejected') {
+      return NextResponse.json(
+        { error: 'decision must be accepted or rejected' },
+        { status: 400 }
+      );
+    }
+    
+    if (typeof reply !== 'string' || !reply.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required field: reply' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await reviewAppeal(appealId, decision, reply.trim(), staff.uid);
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      appeal: result.appeal,
+      message: decision === 'accepted' ? 'Appeal accepted' : 'Appeal rejected',
+    });
+  } catch (error) {
+    console.error('Error reviewing appeal:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
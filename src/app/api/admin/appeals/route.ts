@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { getAppeals } from '@/services/appeals';
+import type { AppealStatus } from '@/types';
+
+const STATUSES: AppealStatus[] = ['pending', 'accepted', 'rejected'];
+
+export const GET = withPermission('users.view', async (request) => {
+  try {
+    const status = request.nextUrl.searchParams.get('status') as AppealStatus | null;
+    
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const appeals = await getAppeals(status || undefined);
+    
+    return NextResponse.json({ appeals });
+  } catch (error) {
+    console.error('Error fetching appeals:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
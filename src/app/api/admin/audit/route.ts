@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import {
+  DEFAULT_AUDIT_PAGE_SIZE,
+  exportAuditLogsToCSV,
+  getAuditLogPage,
+  searchAuditLogs,
+} from '@/services/audit-log';
+import type { AuditLogFilters, AuditTargetType } from '@/types';
+
+const TARGET_TYPES: AuditTargetType[] = ['booking', 'user', 'seat', 'settings', 'feedback', 'layout'];
+const MAX_PAGE_SIZE = 200;
+
+export const GET = withPermission('audit.view', async (request) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const filters: AuditLogFilters = {};
+    
+    const adminId = searchParams.get('adminId');
+    const action = searchParams.get('action');
+    const targetType = searchParams.get('targetType');
+    const targetId = searchParams.get('targetId');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    
+    if (adminId) filters.adminId = adminId;
+    if (action) filters.action = action;
+    if (targetId) filters.targetId = targetId;
+    
+    if (targetType) {
+      if (!TARGET_TYPES.includes(targetType as AuditTargetType)) {
+        return NextResponse.json(
+          { error: `Invalid targetType. Must be one of: ${TARGET_TYPES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      filters.targetType = targetType as AuditTargetType;
+    }
+    
+    if (startDate) filters.startDate = new Date(startDate);
+    if (endDate) filters.endDate = new Date(endDate);
+    
+    if ([filters.startDate, filters.endDate].some((date) => date && isNaN(date.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid startDate or endDate' },
+        { status: 400 }
+      );
+    }
+    
+    // CSV export includes every matching entry
+    if (searchParams.get('format') === 'csv') {
+      const logs = await searchAuditLogs(filters);
+      
+      return new NextResponse(exportAuditLogsToCSV(logs), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': 'attachment; filename="audit-log.csv"',
+        },
+      });
+    }
+    
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const pageSize = Math.min(
+      Math.max(parseInt(searchParams.get('pageSize') || '', 10) || DEFAULT_AUDIT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    
+    return NextResponse.json(await getAuditLogPage(filters, page, pageSize));
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,28 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminAccess } from '@/lib/auth-utils';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
 import { manuallyAssignSeat } from '@/services/booking-management';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('bookings.manage', async (request, staff) => {
   try {
-    const sessionId = request.cookies.get('session')?.value || 
-                     request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!sessionId) {
-      return NextResponse.json(
-        { error: 'Unauthorized - No session provided' },
-        { status: 401 }
-      );
-    }
-    
-    const accessResult = await verifyAdminAccess(sessionId);
-    
-    if (!accessResult.authorized) {
-      return NextResponse.json(
-        { error: accessResult.reason || 'Unauthorized' },
-        { status: 403 }
-      );
-    }
-    
     const body = await request.json();
     const { seatId, userId, userName, userEmail, startTime, endTime } = body;
     
@@ -33,19 +14,26 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const booking = await manuallyAssignSeat(
+    const result = await manuallyAssignSeat(
       seatId,
       userId,
       userName || 'User',
       userEmail || '',
       new Date(startTime),
       new Date(endTime),
-      accessResult.userId!
+      staff.uid
     );
     
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message, violations: result.violations },
+        { status: 409 }
+      );
+    }
+    
     return NextResponse.json({
       success: true,
-      booking,
+      booking: result.booking,
     });
   } catch (error) {
     console.error('Error assigning seat:', error);
@@ -54,4 +42,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
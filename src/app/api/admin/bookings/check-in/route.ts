@@ -1,49 +1,51 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminAccess } from '@/lib/auth-utils';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { BookingNotFoundError, InvalidTransitionError } from '@/lib/booking-status';
 import { manualCheckIn } from '@/services/booking-management';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('bookings.checkin', async (request, staff) => {
   try {
-    const sessionId = request.cookies.get('session')?.value || 
-                     request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!sessionId) {
-      return NextResponse.json(
-        { error: 'Unauthorized - No session provided' },
-        { status: 401 }
-      );
-    }
-    
-    const accessResult = await verifyAdminAccess(sessionId);
+    const body = await request.json();
+    const { userId, bookingId, reason } = body;
     
-    if (!accessResult.authorized) {
+    if (!userId || !bookingId || !reason) {
       return NextResponse.json(
-        { error: accessResult.reason || 'Unauthorized' },
-        { status: 403 }
+        { error: 'Missing required fields: userId, bookingId, reason' },
+        { status: 400 }
       );
     }
     
-    const body = await request.json();
-    const { bookingId, reason } = body;
+    const result = await manualCheckIn(userId, bookingId, staff.uid, reason);
     
-    if (!bookingId || !reason) {
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Missing required fields: bookingId, reason' },
-        { status: 400 }
+        { error: result.message },
+        { status: 409 }
       );
     }
     
-    await manualCheckIn(bookingId, accessResult.userId!, reason);
-    
     return NextResponse.json({
       success: true,
       message: 'Manual check-in completed successfully',
     });
   } catch (error) {
+    if (error instanceof BookingNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    
     console.error('Error during manual check-in:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
+});
@@ -1,49 +1,44 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminAccess } from '@/lib/auth-utils';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { BookingNotFoundError, InvalidTransitionError } from '@/lib/booking-status';
 import { manualCheckOut } from '@/services/booking-management';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('bookings.checkin', async (request, staff) => {
   try {
-    const sessionId = request.cookies.get('session')?.value || 
-                     request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!sessionId) {
-      return NextResponse.json(
-        { error: 'Unauthorized - No session provided' },
-        { status: 401 }
-      );
-    }
-    
-    const accessResult = await verifyAdminAccess(sessionId);
-    
-    if (!accessResult.authorized) {
-      return NextResponse.json(
-        { error: accessResult.reason || 'Unauthorized' },
-        { status: 403 }
-      );
-    }
-    
     const body = await request.json();
-    const { bookingId, reason } = body;
+    const { userId, bookingId, reason } = body;
     
-    if (!bookingId || !reason) {
+    if (!userId || !bookingId || !reason) {
       return NextResponse.json(
-        { error: 'Missing required fields: bookingId, reason' },
+        { error: 'Missing required fields: userId, bookingId, reason' },
         { status: 400 }
       );
     }
     
-    await manualCheckOut(bookingId, accessResult.userId!, reason);
+    await manualCheckOut(userId, bookingId, staff.uid, reason);
     
     return NextResponse.json({
       success: true,
       message: 'Manual check-out completed successfully',
     });
   } catch (error) {
+    if (error instanceof BookingNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    
     console.error('Error during manual check-out:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { FloorPlanError, restoreFloorPlanVersion } from '@/services/floor-plans';
+
+export const POST = withPermission<{ params: Promise<{ floorId: string }> }>(
+  'layout.edit',
+  async (request, staff, { params }) => {
+    try {
+      const { floorId } = await params;
+      const body = await request.json();
+      const { versionId } = body;
+      
+      if (!versionId) {
+        return NextResponse.json(
+          { error: 'Missing required field: versionId' },
+          { status: 400 }
+        );
+      }
+      
+      const version = await restoreFloorPlanVersion(floorId, versionId, staff.uid);
+      
+      return NextResponse.json({
+        success: true,
+        version,
+        message: 'Floor plan restored',
+      });
+    } catch (error) {
+      if (error instanceof FloorPlanError) {
+        return NextResponse.json(
+          { error: error.message, problems: error.problems },
+          { status: 400 }
+        );
+      }
+      
+      console.error('Error restoring floor plan:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { FloorPlanError, getFloorPlanVersions, saveFloorPlan } from '@/services/floor-plans';
+
+type FloorPlanContext = { params: Promise<{ floorId: string }> };
+
+export const GET = withPermission<FloorPlanContext>('layout.edit', async (request, staff, { params }) => {
+  try {
+    const { floorId } = await params;
+    const versions = await getFloorPlanVersions(floorId);
+    
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching floor plan versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withPermission<FloorPlanContext>('layout.edit', async (request, staff, { params }) => {
+  try {
+    const { floorId } = await params;
+    const body = await request.json();
+    const { plan, seats, note } = body;
+    
+    if (!plan || !plan.seats || !seats) {
+      return NextResponse.json(
+        { error: 'Missing required fields: plan, seats' },
+        { status: 400 }
+      );
+    }
+    
+    const version = await saveFloorPlan(floorId, { plan, seats }, staff.uid, note);
+    
+    return NextResponse.json({
+      success: true,
+      version,
+      message: 'Floor plan saved',
+    });
+  } catch (error) {
+    if (error instanceof FloorPlanError) {
+      return NextResponse.json(
+        { error: error.message, problems: error.problems },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error saving floor plan:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
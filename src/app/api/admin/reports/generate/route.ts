@@ -1,11 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminAccess } from '@/lib/auth-utils';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
 import { generateReport, exportReport } from '@/services/reports';
 import { ReportConfig, ReportFormat } from '@/types';
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission('reports.generate', async (request) => {
   try {
-    // Skip auth check - handled client-side with Firebase Auth
     const searchParams = request.nextUrl.searchParams;
     
     // Parse metrics
@@ -62,7 +61,7 @@ export async function GET(request: NextRequest) {
           'Content-Type': format === 'csv' ? 'text/csv' : 
                          format === 'pdf' ? 'application/pdf' : 
                          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'Content-Disposition': `attachment; filename="report.${format}"`,
+          'Content-Disposition': `attachment; filename="report.${format === 'excel' ? 'xlsx' : format}"`,
         },
       });
     }
@@ -75,4 +74,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
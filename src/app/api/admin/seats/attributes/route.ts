@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { normalizeSeatAttributes, SEAT_ATTRIBUTES } from '@/lib/seat-attributes';
+import { recordAuditEvent } from '@/services/audit-log';
+import { setSeatAttributes } from '@/services/seat-layout';
+
+export const POST = withPermission('seats.maintenance', async (request, staff) => {
+  try {
+    const body = await request.json();
+    const { seatId } = body;
+    const attributes = normalizeSeatAttributes(body.attributes);
+
+    if (!seatId || !attributes) {
+      return NextResponse.json(
+        { error: `Missing or invalid fields: seatId, attributes (any of ${SEAT_ATTRIBUTES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    // An empty list removes the attributes
+    const before = await setSeatAttributes(seatId, attributes);
+
+    if (!before) {
+      return NextResponse.json(
+        { error: `Seat ${seatId} not found` },
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent({
+      adminId: staff.uid,
+      adminName: staff.profile?.displayName || staff.email || undefined,
+      action: 'update_seat_attributes',
+      targetId: seatId,
+      targetType: 'seat',
+      details: {
+        before: { attributes: before },
+        after: { attributes },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      attributes,
+      message: 'Seat attributes updated',
+    });
+  } catch (error) {
+    console.error('Error updating seat attributes:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,8 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
 import { ref, update, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { recordAuditEvent } from '@/services/audit-log';
+import { resolveSeatPath } from '@/services/seat-layout';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('seats.maintenance', async (request, staff) => {
   try {
     const body = await request.json();
     const { seatId, action, maintenanceInfo } = body;
@@ -14,33 +17,20 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Find the seat in Firebase - seats are stored as seats/{floor}/{seatId}
-    const seatsRef = ref(db, 'seats');
-    const snapshot = await get(seatsRef);
+    const seatPath = await resolveSeatPath(seatId);
+    const seatSnapshot = seatPath ? await get(ref(db, seatPath)) : null;
     
-    let seatPath: string | null = null;
-    let seatData: any = null;
-    
-    if (snapshot.exists()) {
-      snapshot.forEach((floorSnapshot) => {
-        floorSnapshot.forEach((seatSnapshot) => {
-          const seat = seatSnapshot.val();
-          if (seat.id === seatId) {
-            seatPath = `seats/${floorSnapshot.key}/${seatSnapshot.key}`;
-            seatData = seat;
-          }
-        });
-      });
-    }
-    
-    if (!seatPath) {
+    if (!seatPath || !seatSnapshot?.exists()) {
       return NextResponse.json(
         { error: `Seat ${seatId} not found` },
         { status: 404 }
       );
     }
     
+    const seatData = seatSnapshot.val();
+    
     let result;
+    let changes: Record<string, any>;
     const seatRef = ref(db, seatPath);
     
     switch (action) {
@@ -51,10 +41,10 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        await update(seatRef, {
+        changes = {
           status: 'maintenance',
           maintenanceInfo: maintenanceInfo
-        });
+        };
         result = { message: 'Seat marked for maintenance' };
         break;
         
@@ -65,18 +55,18 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        await update(seatRef, {
+        changes = {
           status: 'out-of-service',
           maintenanceInfo: maintenanceInfo
-        });
+        };
         result = { message: 'Seat marked out of service' };
         break;
         
       case 'restore':
-        await update(seatRef, {
+        changes = {
           status: 'available',
           maintenanceInfo: null
-        });
+        };
         result = { message: 'Seat restored to service' };
         break;
         
@@ -87,6 +77,21 @@ export async function POST(request: NextRequest) {
         );
     }
     
+    await update(seatRef, changes);
+    
+    await recordAuditEvent({
+      adminId: staff.uid,
+      adminName: staff.profile?.displayName || staff.email || undefined,
+      action: `seat_${action.replace(/-/g, '_')}`,
+      targetId: seatId,
+      targetType: 'seat',
+      reason: maintenanceInfo?.reason,
+      details: {
+        before: { status: seatData.status, maintenanceInfo: seatData.maintenanceInfo ?? null },
+        after: changes,
+      },
+    });
+    
     return NextResponse.json({
       success: true,
       ...result,
@@ -98,4 +103,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
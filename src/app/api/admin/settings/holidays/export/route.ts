@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { exportHolidays } from '@/services/library-settings';
+
+export const GET = withPermission('settings.write', async () => {
+  try {
+    return new NextResponse(await exportHolidays(), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="library-holidays.ics"',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting holidays:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
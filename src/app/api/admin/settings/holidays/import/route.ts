@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { fetchICalendarFeed } from '@/services/calendar-feed';
+import { importHolidays, previewHolidayImport, SettingsError } from '@/services/library-settings';
+
+/**
+ * Import holidays and closures from an uploaded .ics file or a calendar feed
+ * link. With `preview` nothing is saved; the response lists what would be
+ * added, changed and skipped.
+ */
+export const POST = withPermission('settings.write', async (request, staff) => {
+  try {
+    const body = await request.json();
+    const { ics, url, preview } = body;
+    
+    if (!ics && !url) {
+      return NextResponse.json(
+        { error: 'Missing required field: ics or url' },
+        { status: 400 }
+      );
+    }
+    
+    const calendar = ics || (await fetchICalendarFeed(url));
+    
+    if (preview) {
+      const items = await previewHolidayImport(calendar);
+      
+      return NextResponse.json({ items });
+    }
+    
+    const result = await importHolidays(calendar, staff.uid);
+    
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: 'Holidays imported',
+    });
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      return NextResponse.json(
+        { error: error.message, problems: error.problems },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error importing holidays:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
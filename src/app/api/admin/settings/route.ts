@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { DEFAULT_LIBRARY_SETTINGS } from '@/lib/library-settings';
+import {
+  getLibrarySettings,
+  scheduleLibrarySettings,
+  SettingsError,
+  updateLibrarySettings,
+} from '@/services/library-settings';
+
+export const GET = withPermission('settings.write', async () => {
+  try {
+    const settings = await getLibrarySettings();
+    
+    // Libraries that have never saved settings start from the defaults
+    return NextResponse.json({
+      settings: settings ?? DEFAULT_LIBRARY_SETTINGS,
+      isDefault: !settings,
+    });
+  } catch (error) {
+    console.error('Error fetching library settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withPermission('settings.write', async (request, staff) => {
+  try {
+    const body = await request.json();
+    const { settings, reason, effectiveFrom } = body;
+    
+    if (!settings || !settings.operatingHours || !settings.bookingRules) {
+      return NextResponse.json(
+        { error: 'Missing required fields: settings.operatingHours, settings.bookingRules' },
+        { status: 400 }
+      );
+    }
+    
+    const values = {
+      operatingHours: settings.operatingHours,
+      holidays: settings.holidays || [],
+      specialHours: settings.specialHours || [],
+      bookingRules: settings.bookingRules,
+      ...(settings.penaltyPolicy ? { penaltyPolicy: settings.penaltyPolicy } : {}),
+    };
+    
+    // A start date saves the settings as a version that goes live later
+    if (effectiveFrom) {
+      const version = await scheduleLibrarySettings(values, staff.uid, new Date(effectiveFrom), reason);
+      
+      return NextResponse.json({
+        success: true,
+        version,
+        message: 'Settings scheduled',
+      });
+    }
+    
+    const result = await updateLibrarySettings(values, staff.uid, reason);
+    
+    return NextResponse.json({
+      success: true,
+      settings: result.settings,
+      affectedBookings: result.affectedBookings,
+      message: 'Settings saved',
+    });
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      return NextResponse.json(
+        { error: error.message, problems: error.problems },
+        { status: 400 }
+      );
+    }
+    
+    console.error('Error saving library settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { restoreLibrarySettingsVersion, SettingsError } from '@/services/library-settings';
+
+export const POST = withPermission<{ params: Promise<{ versionId: string }> }>(
+  'settings.write',
+  async (request, staff, { params }) => {
+    try {
+      const { versionId } = await params;
+      const result = await restoreLibrarySettingsVersion(versionId, staff.uid);
+      
+      return NextResponse.json({
+        success: true,
+        settings: result.settings,
+        affectedBookings: result.affectedBookings,
+        message: 'Settings rolled back',
+      });
+    } catch (error) {
+      if (error instanceof SettingsError) {
+        return NextResponse.json(
+          { error: error.message, problems: error.problems },
+          { status: 400 }
+        );
+      }
+      
+      console.error('Error restoring library settings:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { cancelScheduledSettings, SettingsError } from '@/services/library-settings';
+
+export const DELETE = withPermission<{ params: Promise<{ versionId: string }> }>(
+  'settings.write',
+  async (request, staff, { params }) => {
+    try {
+      const { versionId } = await params;
+      const version = await cancelScheduledSettings(versionId, staff.uid);
+      
+      return NextResponse.json({
+        success: true,
+        version,
+        message: 'Scheduled settings cancelled',
+      });
+    } catch (error) {
+      if (error instanceof SettingsError) {
+        return NextResponse.json(
+          { error: error.message, problems: error.problems },
+          { status: 400 }
+        );
+      }
+      
+      console.error('Error cancelling scheduled settings:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { getLibrarySettingsVersions } from '@/services/library-settings';
+
+export const GET = withPermission('settings.write', async () => {
+  try {
+    const versions = await getLibrarySettingsVersions();
+    
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching library settings versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,39 +1,38 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminAccess } from '@/lib/auth-utils';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { RESTRICTION_SEVERITIES } from '@/lib/restrictions';
 import { flagUser } from '@/services/user-management';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('users.flag', async (request, staff) => {
   try {
-    const sessionId = request.cookies.get('session')?.value || 
-                     request.headers.get('authorization')?.replace('Bearer ', '');
+    const body = await request.json();
+    const { userId, reason, severity, expiresAt } = body;
     
-    if (!sessionId) {
+    if (!userId || !reason) {
       return NextResponse.json(
-        { error: 'Unauthorized - No session provided' },
-        { status: 401 }
+        { error: 'Missing required fields: userId, reason' },
+        { status: 400 }
       );
     }
     
-    const accessResult = await verifyAdminAccess(sessionId);
-    
-    if (!accessResult.authorized) {
+    if (severity !== undefined && !RESTRICTION_SEVERITIES.includes(severity)) {
       return NextResponse.json(
-        { error: accessResult.reason || 'Unauthorized' },
-        { status: 403 }
+        { error: `severity must be one of ${RESTRICTION_SEVERITIES.join(', ')}` },
+        { status: 400 }
       );
     }
     
-    const body = await request.json();
-    const { userId, reason } = body;
-    
-    if (!userId || !reason) {
+    if (expiresAt !== undefined && !(new Date(expiresAt).getTime() > Date.now())) {
       return NextResponse.json(
-        { error: 'Missing required fields: userId, reason' },
+        { error: 'expiresAt must be a date in the future' },
         { status: 400 }
       );
     }
     
-    await flagUser(userId, reason, accessResult.userId!);
+    await flagUser(userId, reason, staff.uid, {
+      severity,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+    });
     
     return NextResponse.json({
       success: true,
@@ -46,4 +45,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
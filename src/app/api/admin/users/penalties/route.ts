@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { overridePenalties, PenaltyError } from '@/services/penalties';
+import type { PenaltyOverride } from '@/types';
+
+const OVERRIDES: PenaltyOverride[] = ['waive-strike', 'clear-strikes', 'lift-ban'];
+
+export const POST = withPermission('users.flag', async (request, staff) => {
+  try {
+    const body = await request.json();
+    const { userId, override, reason, strikeId } = body;
+    
+    if (!userId || !override || !reason) {
+      return NextResponse.json(
+        { error: 'Missing required fields: userId, override, reason' },
+        { status: 400 }
+      );
+    }
+    
+    if (!OVERRIDES.includes(override) || (override === 'waive-strike' && !strikeId)) {
+      return NextResponse.json(
+        { error: `override must be one of ${OVERRIDES.join(', ')}; waive-strike needs a strikeId` },
+        { status: 400 }
+      );
+    }
+    
+    const penalties = await overridePenalties(userId, override, staff.uid, reason, strikeId);
+    
+    return NextResponse.json({
+      success: true,
+      penalties,
+      message: 'Penalties updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof PenaltyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error overriding penalties:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
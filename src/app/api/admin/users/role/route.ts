@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { isUserRole } from '@/lib/permissions';
+import { setUserRole } from '@/services/user-management';
+
+export const POST = withPermission('users.roles', async (request, staff) => {
+  try {
+    const body = await request.json();
+    const { userId, role } = body;
+    
+    if (!userId || !isUserRole(role)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: userId, role' },
+        { status: 400 }
+      );
+    }
+    
+    if (userId === staff.uid) {
+      return NextResponse.json(
+        { error: 'You cannot change your own role' },
+        { status: 400 }
+      );
+    }
+    
+    await setUserRole(userId, role, staff.uid);
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Role updated successfully',
+    });
+  } catch (error) {
+    console.error('Error setting user role:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
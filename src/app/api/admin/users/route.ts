@@ -1,8 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
 import { ref, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission('users.view', async (request) => {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = searchParams.get('query') || '';
@@ -41,4 +42,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
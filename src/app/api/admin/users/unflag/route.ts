@@ -1,28 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminAccess } from '@/lib/auth-utils';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
 import { unflagUser } from '@/services/user-management';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('users.flag', async (request, staff) => {
   try {
-    const sessionId = request.cookies.get('session')?.value || 
-                     request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!sessionId) {
-      return NextResponse.json(
-        { error: 'Unauthorized - No session provided' },
-        { status: 401 }
-      );
-    }
-    
-    const accessResult = await verifyAdminAccess(sessionId);
-    
-    if (!accessResult.authorized) {
-      return NextResponse.json(
-        { error: accessResult.reason || 'Unauthorized' },
-        { status: 403 }
-      );
-    }
-    
     const body = await request.json();
     const { userId } = body;
     
@@ -33,7 +14,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    await unflagUser(userId, accessResult.userId!);
+    await unflagUser(userId, staff.uid);
     
     return NextResponse.json({
       success: true,
@@ -46,4 +27,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { getUserAppeals, submitAppeal } from '@/services/appeals';
+
+export const GET = withUser(async (request, user) => {
+  try {
+    const appeals = await getUserAppeals(user.uid);
+    
+    return NextResponse.json({ appeals });
+  } catch (error) {
+    console.error('Error fetching appeals:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withUser(async (request, user) => {
+  try {
+    const body = await request.json();
+    const { message } = body;
+    
+    if (typeof message !== 'string' || !message.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required field: message' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await submitAppeal(
+      user.uid,
+      user.profile?.displayName || user.email?.split('@')[0] || 'User',
+      user.email || '',
+      message
+    );
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      appeal: result.appeal,
+      message: 'Appeal submitted',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error submitting appeal:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { startBreak } from '@/services/booking-breaks';
+
+export const POST = withUser<{ params: Promise<{ bookingId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { bookingId } = await params;
+    
+    const result = await startBreak(user.uid, bookingId);
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      booking: result.booking,
+      message: 'Break started',
+    });
+  } catch (error) {
+    console.error('Error starting break:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { moveBooking } from '@/services/seat-swaps';
+
+export const POST = withUser<{ params: Promise<{ bookingId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { bookingId } = await params;
+    const { seatId } = await request.json();
+    
+    if (!seatId || typeof seatId !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: seatId' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await moveBooking(user.uid, bookingId, seatId);
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      booking: result.booking,
+      message: `Moved to seat ${seatId}`,
+    });
+  } catch (error) {
+    console.error('Error moving booking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { issueBookingToken } from '@/services/booking-checkin';
+
+export const GET = withUser<{ params: Promise<{ bookingId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { bookingId } = await params;
+    
+    const result = await issueBookingToken(user.uid, bookingId);
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      token: result.token,
+      expiresAt: result.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error issuing booking QR token:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
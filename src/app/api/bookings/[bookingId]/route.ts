@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { cancelUserBooking } from '@/services/booking-engine';
+
+export const DELETE = withUser<{ params: Promise<{ bookingId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { bookingId } = await params;
+    
+    const result = await cancelUserBooking(user.uid, bookingId);
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      booking: result.booking,
+      message: 'Booking cancelled successfully',
+    });
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
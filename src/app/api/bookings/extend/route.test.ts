@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+import { __test__ as authTest } from '@/lib/auth-utils';
+import { __test__ as settingsCache } from '@/services/library-settings';
+
+// Import after mocking
+import { POST } from './route';
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60000);
+
+function extendRequest(body: Record<string, unknown>): NextRequest {
+  return new NextRequest('http://localhost/api/bookings/extend', {
+    method: 'POST',
+    headers: { authorization: 'Bearer token-u1', 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/bookings/extend', () => {
+  const endTime = minutesFromNow(30);
+
+  beforeEach(() => {
+    settingsCache.clear();
+    resetMockDatabase();
+    authTest.setVerifier(async () => ({
+      uid: 'u1',
+      email: 'u1@srmist.edu.in',
+      email_verified: true,
+      exp: Date.now() / 1000 + 3600,
+    }));
+
+    writePath('users/u1', { uid: 'u1', email: 'u1@srmist.edu.in', displayName: 'Student' });
+    writePath('bookings/u1/b1', {
+      id: 'b1',
+      seatId: 'G01',
+      userId: 'u1',
+      status: 'active',
+      startTime: minutesFromNow(-60).toISOString(),
+      endTime: endTime.toISOString(),
+      duration: 90,
+    });
+    writePath('seats/ground/G01', {
+      id: 'G01',
+      status: 'occupied',
+      bookedBy: 'u1',
+      bookedAt: minutesFromNow(-60).getTime(),
+      bookingId: 'b1',
+      occupiedUntil: endTime.getTime(),
+    });
+  });
+
+  afterAll(() => {
+    authTest.reset();
+  });
+
+  test('saves the new end time on the booking and the seat', async () => {
+    const response = await POST(extendRequest({ bookingId: 'b1', additionalMinutes: 30 }), {});
+    const newEndTime = new Date(endTime.getTime() + 30 * 60000);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, newEndTime: newEndTime.toISOString() });
+    expect(readPath('bookings/u1/b1')).toMatchObject({
+      endTime: newEndTime.toISOString(),
+      duration: 120,
+      extendedFrom: endTime.toISOString(),
+    });
+    expect(readPath('seats/ground/G01/occupiedUntil')).toBe(newEndTime.getTime());
+  });
+
+  test('refuses to run into the next reservation on the seat', async () => {
+    writePath('seats/ground/G01/reservations/b2', {
+      bookingId: 'b2',
+      userId: 'u2',
+      startTime: endTime.toISOString(),
+      endTime: minutesFromNow(120).toISOString(),
+    });
+
+    const response = await POST(extendRequest({ bookingId: 'b1', additionalMinutes: 30 }), {});
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).message).toBe('Seat is booked during extension period');
+    expect(readPath('bookings/u1/b1/endTime')).toBe(endTime.toISOString());
+  });
+
+  test("returns 404 for a booking that isn't the caller's", async () => {
+    const response = await POST(extendRequest({ bookingId: 'other', additionalMinutes: 30 }), {});
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -1,28 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { validateSession } from '@/lib/auth-utils';
-import { extendBookingWithPolicy } from '@/services/booking-extension';
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { describeViolations } from '@/lib/booking-policy';
+import { extendBooking } from '@/services/booking-extension';
+import { checkExtensionPolicy } from '@/services/booking-policy';
 
-export async function POST(request: NextRequest) {
+export const POST = withUser(async (request, user) => {
   try {
-    const sessionId = request.cookies.get('session')?.value || 
-                     request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!sessionId) {
-      return NextResponse.json(
-        { error: 'Unauthorized - No session provided' },
-        { status: 401 }
-      );
-    }
-    
-    const sessionValidation = await validateSession(sessionId);
-    
-    if (!sessionValidation.valid) {
-      return NextResponse.json(
-        { error: sessionValidation.expired ? 'Session expired' : 'Invalid session' },
-        { status: 401 }
-      );
-    }
-    
     const body = await request.json();
     const { bookingId, additionalMinutes } = body;
     
@@ -40,14 +23,31 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const result = await extendBookingWithPolicy(bookingId, additionalMinutes);
+    const violations = await checkExtensionPolicy(user.uid, bookingId, additionalMinutes);
+    
+    if (violations === null) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (violations.length > 0) {
+      return NextResponse.json({
+        success: false,
+        message: describeViolations(violations),
+        violations,
+      }, { status: 400 });
+    }
+    
+    const result = await extendBooking(user.uid, bookingId, additionalMinutes);
     
     if (!result.success) {
       return NextResponse.json({
         success: false,
         message: result.message,
         alternatives: result.alternatives,
-      }, { status: 400 });
+      }, { status: 409 });
     }
     
     return NextResponse.json({
@@ -62,4 +62,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { createBooking } from '@/services/booking-engine';
+
+export const POST = withUser(async (request, user) => {
+  try {
+    const body = await request.json();
+    const { seatId, startTime, endTime } = body;
+    
+    if (!seatId || !endTime) {
+      return NextResponse.json(
+        { error: 'Missing required fields: seatId, endTime' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await createBooking({
+      seatId,
+      userId: user.uid,
+      userName: user.profile?.displayName || user.email?.split('@')[0] || 'User',
+      userEmail: user.email || '',
+      startTime,
+      endTime,
+    });
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+        violations: result.violations,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      booking: result.booking,
+      message: startTime ? 'Seat reserved successfully' : 'Seat booked successfully',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating booking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
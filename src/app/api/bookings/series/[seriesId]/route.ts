@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { cancelBookingSeries } from '@/services/booking-series';
+
+export const DELETE = withUser<{ params: Promise<{ seriesId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { seriesId } = await params;
+
+    const result = await cancelBookingSeries(user.uid, seriesId);
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      cancelled: result.cancelled,
+      message: 'Series cancelled successfully',
+    });
+  } catch (error) {
+    console.error('Error cancelling booking series:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
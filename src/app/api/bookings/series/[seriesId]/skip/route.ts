@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { skipSeriesOccurrence } from '@/services/booking-series';
+
+export const POST = withUser<{ params: Promise<{ seriesId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { seriesId } = await params;
+    const { bookingId } = await request.json();
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bookingId' },
+        { status: 400 }
+      );
+    }
+
+    const result = await skipSeriesOccurrence(user.uid, seriesId, bookingId);
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      booking: result.booking,
+      message: 'Session skipped',
+    });
+  } catch (error) {
+    console.error('Error skipping series session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { createBookingSeries, getUserBookingSeries } from '@/services/booking-series';
+
+export const GET = withUser(async (request, user) => {
+  try {
+    const series = await getUserBookingSeries(user.uid);
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error('Error fetching booking series:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withUser(async (request, user) => {
+  try {
+    const body = await request.json();
+    const { seatId, startTime, endTime, rule } = body;
+
+    if (!seatId || !startTime || !endTime || !rule) {
+      return NextResponse.json(
+        { error: 'Missing required fields: seatId, startTime, endTime, rule' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createBookingSeries({
+      seatId,
+      userId: user.uid,
+      userName: user.profile?.displayName || user.email?.split('@')[0] || 'User',
+      userEmail: user.email || '',
+      startTime,
+      endTime,
+      rule,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+        skipped: result.skipped,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      series: result.series,
+      bookings: result.bookings,
+      skipped: result.skipped,
+      message: `Booked ${result.bookings!.length} sessions`,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating booking series:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
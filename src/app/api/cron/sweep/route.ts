@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runScheduledJobs } from '@/services/scheduled-jobs';
+
+/**
+ * Expire lapsed bookings and free their seats, lift suspensions whose time
+ * is up, and put scheduled library settings live.
+ * Call on a schedule with: Authorization: Bearer $CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!secret || token !== secret) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await runScheduledJobs();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error running booking sweep:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = GET;
@@ -1,28 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminAccess, getUserProfile } from '@/lib/auth-utils';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
 import { addResponse } from '@/services/feedback';
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission('feedback.respond', async (request, staff) => {
   try {
-    const sessionId = request.cookies.get('session')?.value || 
-                     request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!sessionId) {
-      return NextResponse.json(
-        { error: 'Unauthorized - No session provided' },
-        { status: 401 }
-      );
-    }
-    
-    const accessResult = await verifyAdminAccess(sessionId);
-    
-    if (!accessResult.authorized) {
-      return NextResponse.json(
-        { error: accessResult.reason || 'Unauthorized' },
-        { status: 403 }
-      );
-    }
-    
     const body = await request.json();
     const { ticketId, message } = body;
     
@@ -33,11 +14,10 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Get admin profile for author name
-    const adminProfile = await getUserProfile(accessResult.userId!);
-    const authorName = adminProfile?.displayName || adminProfile?.email || 'Admin';
+    // Use the admin's profile for the author name
+    const authorName = staff.profile?.displayName || staff.email || 'Admin';
     
-    await addResponse(ticketId, accessResult.userId!, authorName, message);
+    await addResponse(ticketId, staff.uid, authorName, message);
     
     return NextResponse.json({
       success: true,
@@ -50,4 +30,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
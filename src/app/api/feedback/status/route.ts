@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/api-auth';
+import { updateTicketStatus } from '@/services/feedback';
+
+export const POST = withPermission('feedback.respond', async (request, staff) => {
+  try {
+    const body = await request.json();
+    const { ticketId, status } = body;
+    
+    if (!ticketId || !status) {
+      return NextResponse.json(
+        { error: 'Missing required fields: ticketId, status' },
+        { status: 400 }
+      );
+    }
+    
+    await updateTicketStatus(ticketId, status, staff.uid);
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Status updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating ticket status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
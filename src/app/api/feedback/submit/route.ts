@@ -1,14 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
 import { submitFeedback } from '@/services/feedback';
 import { FeedbackCategory } from '@/types';
 
-export async function POST(request: NextRequest) {
+export const POST = withUser(async (request, user) => {
   try {
-    // Auth is handled client-side with Firebase Auth
     const body = await request.json();
-    const { userId, userName, userEmail, category, subject, description, attachments } = body;
+    const { category, subject, description, attachments } = body;
     
-    if (!userId || !userName || !userEmail || !category || !subject || !description) {
+    if (!category || !subject || !description) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -16,9 +16,9 @@ export async function POST(request: NextRequest) {
     }
     
     const ticketId = await submitFeedback({
-      userId,
-      userName,
-      userEmail,
+      userId: user.uid,
+      userName: user.profile?.displayName || user.email?.split('@')[0] || 'User',
+      userEmail: user.email || '',
       category: category as FeedbackCategory,
       subject,
       description,
@@ -37,4 +37,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { respondToGroupInvite } from '@/services/group-bookings';
+
+export const POST = withUser<{ params: Promise<{ groupId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { groupId } = await params;
+    const { accept } = await request.json();
+
+    if (typeof accept !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Missing required field: accept' },
+        { status: 400 }
+      );
+    }
+
+    const result = await respondToGroupInvite(
+      user.uid,
+      user.profile?.displayName || user.email?.split('@')[0] || 'User',
+      user.email || '',
+      groupId,
+      accept
+    );
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      group: result.group,
+      message: accept ? 'Invitation accepted; your seat is booked' : 'Invitation declined',
+    });
+  } catch (error) {
+    console.error('Error responding to group invitation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { cancelGroupBooking } from '@/services/group-bookings';
+
+export const DELETE = withUser<{ params: Promise<{ groupId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { groupId } = await params;
+
+    const result = await cancelGroupBooking(user.uid, groupId);
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      group: result.group,
+      message: 'Group booking cancelled',
+    });
+  } catch (error) {
+    console.error('Error cancelling group booking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
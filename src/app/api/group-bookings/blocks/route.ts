@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { getGroupBlocks } from '@/services/group-bookings';
+
+export const GET = withUser(async () => {
+  try {
+    const blocks = await getGroupBlocks();
+
+    return NextResponse.json({ blocks });
+  } catch (error) {
+    console.error('Error fetching group blocks:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { createGroupBooking, getUserGroupBookings } from '@/services/group-bookings';
+
+export const GET = withUser(async (request, user) => {
+  try {
+    const groups = await getUserGroupBookings(user.uid, user.email || '');
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error('Error fetching group bookings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withUser(async (request, user) => {
+  try {
+    const body = await request.json();
+    const { floorId, seatIds, roomId, startTime, endTime, memberEmails } = body;
+
+    if (!floorId || !endTime || !Array.isArray(memberEmails) || (!roomId && !Array.isArray(seatIds))) {
+      return NextResponse.json(
+        { error: 'Missing required fields: floorId, seatIds or roomId, endTime, memberEmails' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createGroupBooking({
+      organiserId: user.uid,
+      organiserName: user.profile?.displayName || user.email?.split('@')[0] || 'User',
+      organiserEmail: user.email || '',
+      floorId,
+      seatIds,
+      roomId,
+      startTime,
+      endTime,
+      memberEmails,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      group: result.group,
+      message: 'Group booked; your invitations have been sent',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating group booking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
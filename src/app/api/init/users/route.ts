@@ -16,10 +16,6 @@ export async function GET() {
         uid: 'sample_user_001',
         email: 'sample@example.com',
         displayName: 'Sample User',
-        role: 'user',
-        restrictions: {
-          isFlagged: false,
-        },
         stats: {
           totalBookings: 0,
           noShowCount: 0,
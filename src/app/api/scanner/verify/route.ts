@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { verifyBookingScan } from '@/services/booking-checkin';
+
+export const POST = withUser(async (request) => {
+  try {
+    const body = await request.json();
+    const { token, mode, seatId } = body;
+    
+    if (!token || (mode !== 'entry' && mode !== 'exit')) {
+      return NextResponse.json(
+        { error: 'Missing required fields: token, mode (entry or exit)' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await verifyBookingScan(token, mode, new Date(), seatId || undefined);
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        reason: result.reason,
+        message: result.message,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      booking: result.booking,
+      message: mode === 'entry' ? 'Checked in successfully' : 'Checked out successfully',
+    });
+  } catch (error) {
+    console.error('Error verifying booking scan:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
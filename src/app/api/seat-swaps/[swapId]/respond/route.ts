@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { respondToSeatSwap } from '@/services/seat-swaps';
+
+export const POST = withUser<{ params: Promise<{ swapId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { swapId } = await params;
+    const { accept, bookingId } = await request.json();
+
+    if (typeof accept !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Missing required field: accept' },
+        { status: 400 }
+      );
+    }
+
+    const result = await respondToSeatSwap(
+      {
+        userId: user.uid,
+        userName: user.profile?.displayName || user.email?.split('@')[0] || 'User',
+        email: user.email || '',
+      },
+      swapId,
+      accept,
+      bookingId
+    );
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      swap: result.swap,
+      booking: result.booking,
+      message: !accept
+        ? 'Request declined'
+        : result.swap!.kind === 'swap'
+          ? `Seats swapped; you are now on seat ${result.booking!.seatId}`
+          : `Booking for seat ${result.booking!.seatId} is now yours`,
+    });
+  } catch (error) {
+    console.error('Error responding to seat swap:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { cancelSeatSwap } from '@/services/seat-swaps';
+
+export const DELETE = withUser<{ params: Promise<{ swapId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { swapId } = await params;
+
+    const result = await cancelSeatSwap(
+      {
+        userId: user.uid,
+        userName: user.profile?.displayName || user.email?.split('@')[0] || 'User',
+        email: user.email || '',
+      },
+      swapId
+    );
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      swap: result.swap,
+      message: 'Request withdrawn',
+    });
+  } catch (error) {
+    console.error('Error cancelling seat swap:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
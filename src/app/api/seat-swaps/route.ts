@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { getUserSeatSwaps, requestSeatSwap } from '@/services/seat-swaps';
+
+const SWAP_KINDS = ['swap', 'transfer'];
+
+export const GET = withUser(async (request, user) => {
+  try {
+    const swaps = await getUserSeatSwaps(user.uid, user.email || '');
+
+    return NextResponse.json({ swaps });
+  } catch (error) {
+    console.error('Error fetching seat swaps:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withUser(async (request, user) => {
+  try {
+    const { bookingId, toEmail, kind } = await request.json();
+
+    if (!bookingId || !toEmail || !SWAP_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: bookingId, toEmail, kind (swap or transfer)' },
+        { status: 400 }
+      );
+    }
+
+    const result = await requestSeatSwap(
+      {
+        userId: user.uid,
+        userName: user.profile?.displayName || user.email?.split('@')[0] || 'User',
+        email: user.email || '',
+      },
+      bookingId,
+      toEmail,
+      kind
+    );
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      swap: result.swap,
+      message: `Request sent to ${result.swap!.toEmail}`,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error requesting seat swap:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
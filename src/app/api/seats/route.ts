@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { normalizeSeatAttributes, SEAT_ATTRIBUTES } from '@/lib/seat-attributes';
+import { findSeats } from '@/services/seat-layout';
+
+export const GET = withUser(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const floorId = searchParams.get('floorId') || undefined;
+    const attributeList = searchParams.get('attributes');
+    const attributes = normalizeSeatAttributes(attributeList ? attributeList.split(',') : []);
+
+    if (!attributes) {
+      return NextResponse.json(
+        { error: `Invalid attributes (any of ${SEAT_ATTRIBUTES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const seats = await findSeats(
+      { floorId, attributes, availableOnly: searchParams.get('availableOnly') === 'true' },
+      user.uid
+    );
+
+    return NextResponse.json({
+      seats: seats.map(([seat, state]) => ({
+        id: seat.id,
+        label: seat.label,
+        floorId: seat.floorId,
+        attributes: seat.attributes || [],
+        status: state.status,
+      })),
+    });
+  } catch (error) {
+    console.error('Error finding seats:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,15 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { canActFor, withUser } from '@/lib/api-auth';
 import { getUserStatistics } from '@/services/user-management';
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ userId: string }> }
-) {
+export const GET = withUser<{ params: Promise<{ userId: string }> }>(async (request, user, { params }) => {
   try {
     const { userId } = await params;
     
-    // For now, allow direct access since auth is handled client-side
-    // In production, you'd want to verify Firebase ID token here
+    if (!canActFor(user, userId)) {
+      return NextResponse.json(
+        { error: 'Insufficient privileges' },
+        { status: 403 }
+      );
+    }
     
     const statistics = await getUserStatistics(userId);
     
@@ -21,4 +23,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
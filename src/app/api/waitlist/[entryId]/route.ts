@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { leaveWaitlist } from '@/services/waitlist';
+
+export const DELETE = withUser<{ params: Promise<{ entryId: string }> }>(async (request, user, { params }) => {
+  try {
+    const { entryId } = await params;
+    
+    const result = await leaveWaitlist(user.uid, entryId);
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      entry: result.entry,
+      message: 'Removed from the waitlist',
+    });
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
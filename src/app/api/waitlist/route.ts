@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { withUser } from '@/lib/api-auth';
+import { getUserWaitlist, joinWaitlist } from '@/services/waitlist';
+
+export const GET = withUser(async (request, user) => {
+  try {
+    const entries = await getUserWaitlist(user.uid);
+    
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error fetching waitlist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withUser(async (request, user) => {
+  try {
+    const body = await request.json();
+    const { seatId, floorId, attributes } = body;
+    
+    if (!seatId && !floorId && !attributes) {
+      return NextResponse.json(
+        { error: 'Missing required fields: seatId, floorId or attributes' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await joinWaitlist(
+      user.uid,
+      user.profile?.displayName || user.email?.split('@')[0] || 'User',
+      { seatId, floorId, attributes }
+    );
+    
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.message,
+      }, { status: 409 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      entry: result.entry,
+      message: 'Added to the waitlist',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
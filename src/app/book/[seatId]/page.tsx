@@ -5,7 +5,8 @@ import { BookingClient } from "@/components/booking-client";
 import { useAuth } from "@/components/providers/auth-provider";
 import { db } from "@/lib/firebase";
 import { Booking } from "@/types";
-import { ref, onValue, off, query, orderByChild, equalTo } from "firebase/database";
+import { ref, onValue, off } from "firebase/database";
+import { isOpenBooking } from "@/lib/booking-status";
 import { Loader2 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
@@ -29,13 +30,16 @@ export default function BookSeatPage({ params }: { params: Promise<{ seatId: str
             return;
         }
         
-        const activeBookingQuery = query(ref(db, `bookings/${user.uid}`), orderByChild('status'), equalTo('booked'));
+        const userBookingsRef = ref(db, `bookings/${user.uid}`);
         
-        const listener = onValue(activeBookingQuery, (snapshot) => {
-            if (snapshot.exists()) {
-                const data = snapshot.val();
-                const [bookingId, bookingData] = Object.entries(data)[0];
-                const booking = { id: bookingId, ...(bookingData as any) };
+        const listener = onValue(userBookingsRef, (snapshot) => {
+            const data = (snapshot.val() || {}) as Record<string, Booking>;
+            // Advance reservations that haven't started don't block booking now
+            const open = Object.entries(data).find(
+                ([, bookingData]) => isOpenBooking(bookingData.status) && new Date(bookingData.startTime).getTime() <= Date.now()
+            );
+            if (open) {
+                const booking = { ...open[1], id: open[0] };
                 setActiveBooking(booking);
                 
                 // If user tries to book a different seat, redirect them
@@ -53,7 +57,7 @@ export default function BookSeatPage({ params }: { params: Promise<{ seatId: str
             setLoading(false);
         });
 
-        return () => off(activeBookingQuery, 'value', listener);
+        return () => off(userBookingsRef, 'value', listener);
 
     }, [user, authLoading, seatId, router, toast]);
 
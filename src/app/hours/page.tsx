@@ -0,0 +1,23 @@
+import { OpeningHoursCalendar } from '@/components/opening-hours-calendar';
+import { createMetadata } from '@/lib/metadata';
+
+export const metadata = createMetadata({
+  title: 'Opening Hours',
+  description: 'Library opening hours for the coming weeks, including exam season hours, events and holidays.',
+  keywords: ['opening hours', 'library timings', 'exam season', 'holidays'],
+});
+
+export default function OpeningHoursPage() {
+  return (
+    <div className="w-full max-w-7xl mx-auto space-y-6 p-4 animate-in fade-in-50 duration-500">
+      <div className="text-center sm:text-left">
+        <h1 className="text-3xl md:text-4xl font-bold font-headline">Opening Hours</h1>
+        <p className="text-muted-foreground mt-2">
+          When the library is open over the next four weeks
+        </p>
+      </div>
+
+      <OpeningHoursCalendar />
+    </div>
+  );
+}
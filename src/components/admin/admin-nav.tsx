@@ -4,6 +4,8 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
+import { getPagePermission, ROLE_LABELS } from '@/lib/permissions';
+import { useAuth } from '@/components/providers/auth-provider';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger, SheetTitle } from '@/components/ui/sheet';
 import { 
@@ -14,7 +16,10 @@ import {
   Settings,
   BarChart3,
   Menu,
-  MessageSquare
+  MessageSquare,
+  QrCode,
+  History,
+  LayoutGrid
 } from 'lucide-react';
 import { VisuallyHidden } from '@radix-ui/react-visually-hidden';
 
@@ -29,6 +34,11 @@ const navItems = [
     href: '/admin/bookings',
     icon: Calendar,
   },
+  {
+    title: 'Scanner',
+    href: '/admin/scanner',
+    icon: QrCode,
+  },
   {
     title: 'Users',
     href: '/admin/users',
@@ -39,6 +49,11 @@ const navItems = [
     href: '/admin/seats',
     icon: Armchair,
   },
+  {
+    title: 'Floor Plans',
+    href: '/admin/floor-plans',
+    icon: LayoutGrid,
+  },
   {
     title: 'Reports',
     href: '/admin/reports',
@@ -54,14 +69,26 @@ const navItems = [
     href: '/admin/settings',
     icon: Settings,
   },
+  {
+    title: 'Audit Log',
+    href: '/admin/audit',
+    icon: History,
+  },
 ];
 
 function NavLinks({ onNavigate }: { onNavigate?: () => void }) {
   const pathname = usePathname();
+  const { can } = useAuth();
+
+  // Only show the pages this staff member may use
+  const visibleItems = navItems.filter((item) => {
+    const permission = getPagePermission(item.href);
+    return !permission || can(permission);
+  });
 
   return (
     <div className="space-y-1">
-      {navItems.map((item) => {
+      {visibleItems.map((item) => {
         const Icon = item.icon;
         const isActive = pathname === item.href || pathname?.startsWith(item.href + '/');
         
@@ -88,6 +115,7 @@ function NavLinks({ onNavigate }: { onNavigate?: () => void }) {
 
 export function AdminNav() {
   const [open, setOpen] = useState(false);
+  const { role } = useAuth();
 
   return (
     <>
@@ -104,7 +132,7 @@ export function AdminNav() {
               <SheetTitle>Admin Navigation</SheetTitle>
             </VisuallyHidden>
             <div className="p-6">
-              <h2 className="text-2xl font-bold">Admin</h2>
+              <h2 className="text-2xl font-bold">{ROLE_LABELS[role]}</h2>
             </div>
             <div className="px-3">
               <NavLinks onNavigate={() => setOpen(false)} />
@@ -117,7 +145,7 @@ export function AdminNav() {
       <nav className="hidden lg:flex w-64 border-r bg-card/50 backdrop-blur-sm rounded-r-2xl">
         <div className="flex flex-col w-full">
           <div className="p-6">
-            <h2 className="text-2xl font-bold">Admin Dashboard</h2>
+            <h2 className="text-2xl font-bold">{role === 'admin' ? 'Admin Dashboard' : ROLE_LABELS[role]}</h2>
           </div>
           <div className="px-3 pb-6">
             <NavLinks />
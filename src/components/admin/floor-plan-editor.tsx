@@ -0,0 +1,476 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { authFetch } from '@/lib/auth-fetch';
+import {
+  clampToPlan,
+  createPlanElement,
+  findFreeSeatPosition,
+  getFloorPlan,
+  getNextSeatId,
+  getPlanBoxStyle,
+  normalizeRotation,
+  SEAT_SIZE,
+  snapToGrid,
+  sortElementsForDrawing,
+  validateFloorPlan,
+} from '@/lib/floor-plan';
+import { getFloorSeats, getFloorSections } from '@/lib/seat-layout';
+import { FloorPlanElementShape } from '@/components/floor-plan';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Armchair, AlertCircle, DoorOpen, RotateCw, Square, Minus, Trash2, Table2, History } from 'lucide-react';
+import type { FloorPlan, FloorPlanElementType, FloorPlanVersion, LayoutSeat, SeatLayout } from '@/types';
+
+type Selection = { kind: 'seat' | 'element'; id: string } | null;
+
+interface DragState {
+  selection: NonNullable<Selection>;
+  pointerX: number;
+  pointerY: number;
+  startX: number;
+  startY: number;
+}
+
+interface FloorPlanEditorProps {
+  layout: SeatLayout;
+  floorId: string;
+}
+
+export function FloorPlanEditor({ layout, floorId }: FloorPlanEditorProps) {
+  const [plan, setPlan] = useState<FloorPlan>(() => getFloorPlan(layout, floorId));
+  const [seats, setSeats] = useState<Record<string, LayoutSeat>>(() => getDraftSeats(layout, floorId));
+  const [selection, setSelection] = useState<Selection>(null);
+  const [snap, setSnap] = useState(true);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [versions, setVersions] = useState<FloorPlanVersion[]>([]);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const { toast } = useToast();
+  const publishedVersion = layout.plans[floorId]?.versionId;
+
+  // Start again from the published plan when the floor or its plan changes
+  useEffect(() => {
+    setPlan(getFloorPlan(layout, floorId));
+    setSeats(getDraftSeats(layout, floorId));
+    setSelection(null);
+    setProblems([]);
+  }, [floorId, publishedVersion]);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await authFetch(`/api/admin/floor-plans/${floorId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load versions');
+      }
+      setVersions(data.versions || []);
+    } catch (error) {
+      console.error('Error fetching floor plan versions:', error);
+    }
+  }, [floorId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, publishedVersion]);
+
+  const moveSelection = (target: NonNullable<Selection>, x: number, y: number) => {
+    setPlan((current) => {
+      if (target.kind === 'seat') {
+        const placement = current.seats[target.id];
+        if (!placement) return current;
+        const position = clampToPlan(current, x, y, SEAT_SIZE, SEAT_SIZE);
+        return { ...current, seats: { ...current.seats, [target.id]: { ...placement, ...position } } };
+      }
+      const element = current.elements[target.id];
+      if (!element) return current;
+      const position = clampToPlan(current, x, y, element.width, element.height);
+      return { ...current, elements: { ...current.elements, [target.id]: { ...element, ...position } } };
+    });
+  };
+
+  const handlePointerDown = (target: NonNullable<Selection>) => (event: React.PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    const box = target.kind === 'seat' ? plan.seats[target.id] : plan.elements[target.id];
+    if (!box) return;
+
+    setSelection(target);
+    dragRef.current = {
+      selection: target,
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      startX: box.x,
+      startY: box.y,
+    };
+    canvasRef.current?.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const canvas = canvasRef.current;
+    if (!drag || !canvas) return;
+
+    // Pointer movement is in screen pixels; the plan is scaled to the canvas
+    const scale = plan.width / canvas.getBoundingClientRect().width;
+    const x = drag.startX + (event.clientX - drag.pointerX) * scale;
+    const y = drag.startY + (event.clientY - drag.pointerY) * scale;
+
+    moveSelection(drag.selection, snap ? snapToGrid(x) : Math.round(x), snap ? snapToGrid(y) : Math.round(y));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current) {
+      canvasRef.current?.releasePointerCapture(event.pointerId);
+      dragRef.current = null;
+    }
+  };
+
+  const addSeat = () => {
+    const floor = layout.floors[floorId];
+    const takenIds = [...Object.keys(layout.seats), ...Object.keys(seats)];
+    const seatId = getNextSeatId(takenIds, (floor?.name || floorId).charAt(0).toUpperCase());
+    const sectionId = getFloorSections(layout, floorId)[0]?.id;
+    const order = Math.max(0, ...Object.values(seats).map((seat) => seat.order)) + 1;
+
+    setSeats((current) => ({
+      ...current,
+      [seatId]: { id: seatId, floorId, label: seatId, order, ...(sectionId ? { sectionId } : {}) },
+    }));
+    setPlan((current) => ({ ...current, seats: { ...current.seats, [seatId]: findFreeSeatPosition(current) } }));
+    setSelection({ kind: 'seat', id: seatId });
+  };
+
+  const addElement = (type: FloorPlanElementType) => {
+    const element = createPlanElement(plan, type, `${type}-${Date.now().toString(36)}`);
+    setPlan((current) => ({ ...current, elements: { ...current.elements, [element.id]: element } }));
+    setSelection({ kind: 'element', id: element.id });
+  };
+
+  const deleteSelection = () => {
+    if (!selection) return;
+
+    if (selection.kind === 'seat') {
+      setSeats(({ [selection.id]: _removed, ...rest }) => rest);
+      setPlan((current) => {
+        const { [selection.id]: _removed, ...rest } = current.seats;
+        return { ...current, seats: rest };
+      });
+    } else {
+      setPlan((current) => {
+        const { [selection.id]: _removed, ...rest } = current.elements;
+        return { ...current, elements: rest };
+      });
+    }
+    setSelection(null);
+  };
+
+  const updateSelected = (changes: Record<string, number | string>) => {
+    if (!selection) return;
+
+    if (selection.kind === 'seat' && typeof changes.label === 'string') {
+      setSeats((current) => ({ ...current, [selection.id]: { ...current[selection.id], label: changes.label as string } }));
+      return;
+    }
+
+    setPlan((current) => {
+      if (selection.kind === 'seat') {
+        const placement = current.seats[selection.id];
+        return { ...current, seats: { ...current.seats, [selection.id]: { ...placement, ...changes } } };
+      }
+      const element = current.elements[selection.id];
+      return { ...current, elements: { ...current.elements, [selection.id]: { ...element, ...changes } } };
+    });
+  };
+
+  const rotateSelected = () => {
+    const box = selection && (selection.kind === 'seat' ? plan.seats[selection.id] : plan.elements[selection.id]);
+    if (box) {
+      updateSelected({ rotation: normalizeRotation(box.rotation + 90) });
+    }
+  };
+
+  const handleSave = async () => {
+    const otherSeatIds = new Set(
+      Object.values(layout.seats).filter((seat) => seat.floorId !== floorId).map((seat) => seat.id)
+    );
+    const found = validateFloorPlan(plan, seats, otherSeatIds);
+    setProblems(found);
+    if (found.length > 0) return;
+
+    setSaving(true);
+    try {
+      const response = await authFetch(`/api/admin/floor-plans/${floorId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan, seats, note }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setProblems(data.problems || []);
+        throw new Error(data.error || 'Failed to save floor plan');
+      }
+
+      setNote('');
+      toast({ title: 'Floor plan saved', description: 'Students now see the new layout.' });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: FloorPlanVersion) => {
+    if (!confirm(`Restore the floor plan saved on ${new Date(version.createdAt).toLocaleString()}?`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await authFetch(`/api/admin/floor-plans/${floorId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versionId: version.id }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setProblems(data.problems || []);
+        throw new Error(data.error || 'Failed to restore floor plan');
+      }
+
+      toast({ title: 'Floor plan restored' });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedSeat = selection?.kind === 'seat' ? seats[selection.id] : null;
+  const selectedBox = selection
+    ? selection.kind === 'seat'
+      ? plan.seats[selection.id]
+      : plan.elements[selection.id]
+    : null;
+  const selectedElement = selection?.kind === 'element' ? plan.elements[selection.id] : null;
+  const elements = sortElementsForDrawing(Object.values(plan.elements));
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_300px]">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={addSeat}>
+            <Armchair className="mr-2 h-4 w-4" /> Seat
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => addElement('table')}>
+            <Table2 className="mr-2 h-4 w-4" /> Table
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => addElement('wall')}>
+            <Minus className="mr-2 h-4 w-4" /> Wall
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => addElement('zone')}>
+            <Square className="mr-2 h-4 w-4" /> Zone
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => addElement('room')}>
+            <DoorOpen className="mr-2 h-4 w-4" /> Study Room
+          </Button>
+          <div className="ml-auto flex items-center gap-2">
+            <Switch id="snap-to-grid" checked={snap} onCheckedChange={setSnap} />
+            <Label htmlFor="snap-to-grid" className="text-sm">Snap to grid</Label>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border bg-card p-2">
+          <div
+            ref={canvasRef}
+            className="relative min-w-[720px] w-full touch-none select-none bg-muted/20"
+            style={{ aspectRatio: `${plan.width} / ${plan.height}` }}
+            onPointerDown={() => setSelection(null)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {elements.map((element) => (
+              <FloorPlanElementShape
+                key={element.id}
+                plan={plan}
+                element={element}
+                onPointerDown={handlePointerDown({ kind: 'element', id: element.id })}
+                className={cn(
+                  'cursor-move',
+                  selection?.kind === 'element' && selection.id === element.id && 'ring-2 ring-primary'
+                )}
+              />
+            ))}
+            {Object.entries(plan.seats).map(([seatId, placement]) => (
+              <div
+                key={seatId}
+                className={cn(
+                  'absolute flex cursor-move flex-col items-center justify-center rounded-md border-2 border-primary/40 bg-background text-primary',
+                  selection?.kind === 'seat' && selection.id === seatId && 'border-primary ring-2 ring-primary'
+                )}
+                style={getPlanBoxStyle(plan, { ...placement, width: SEAT_SIZE, height: SEAT_SIZE })}
+                onPointerDown={handlePointerDown({ kind: 'seat', id: seatId })}
+              >
+                <Armchair className="h-4 w-4" />
+                <span className="text-[10px] font-bold leading-tight">{seats[seatId]?.label || seatId}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {problems.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Fix these before saving</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {selectedSeat ? `Seat ${selectedSeat.id}` : selectedElement ? `${capitalize(selectedElement.type)}` : 'Floor'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {selection && selectedBox ? (
+              <>
+                {(selectedSeat || selectedElement?.type !== 'wall') && (
+                  <div className="space-y-1">
+                    <Label htmlFor="plan-label">Label</Label>
+                    <Input
+                      id="plan-label"
+                      value={selectedSeat ? selectedSeat.label : selectedElement?.label || ''}
+                      onChange={(e) => updateSelected({ label: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <NumberField label="X" value={selectedBox.x} onChange={(x) => moveSelection(selection, x, selectedBox.y)} />
+                  <NumberField label="Y" value={selectedBox.y} onChange={(y) => moveSelection(selection, selectedBox.x, y)} />
+                  {selectedElement && (
+                    <>
+                      <NumberField label="Width" value={selectedElement.width} onChange={(width) => updateSelected({ width })} />
+                      <NumberField label="Height" value={selectedElement.height} onChange={(height) => updateSelected({ height })} />
+                    </>
+                  )}
+                  <NumberField
+                    label="Rotation"
+                    value={selectedBox.rotation}
+                    onChange={(rotation) => updateSelected({ rotation: normalizeRotation(rotation) })}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={rotateSelected}>
+                    <RotateCw className="mr-2 h-4 w-4" /> Rotate
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={deleteSelection}>
+                    <Trash2 className="mr-2 h-4 w-4" /> Delete
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField label="Width" value={plan.width} onChange={(width) => setPlan((current) => ({ ...current, width }))} />
+                <NumberField label="Height" value={plan.height} onChange={(height) => setPlan((current) => ({ ...current, height }))} />
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  {Object.keys(seats).length} seats. Drag items to move them; select one to edit it.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Save</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="plan-note">Note (optional)</Label>
+              <Input
+                id="plan-note"
+                placeholder="e.g. Added window seats"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <Button className="w-full" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save and Publish'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <History className="h-4 w-4" /> Versions
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No saved versions yet</p>
+            ) : (
+              versions.map((version) => (
+                <div key={version.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{new Date(version.createdAt).toLocaleString()}</p>
+                    {version.note && <p className="truncate text-xs text-muted-foreground">{version.note}</p>}
+                    {version.id === publishedVersion && <p className="text-xs text-primary">Published</p>}
+                  </div>
+                  {version.id !== publishedVersion && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRestore(version)} disabled={saving}>
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function NumberField({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        value={value}
+        onChange={(e) => {
+          const number = Number(e.target.value);
+          if (!isNaN(number)) onChange(number);
+        }}
+      />
+    </div>
+  );
+}
+
+function getDraftSeats(layout: SeatLayout, floorId: string): Record<string, LayoutSeat> {
+  return Object.fromEntries(getFloorSeats(layout, floorId).map((seat) => [seat.id, seat]));
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
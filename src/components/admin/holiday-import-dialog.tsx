@@ -0,0 +1,177 @@
+'use client';
+
+import { useState } from 'react';
+import { authFetch } from '@/lib/auth-fetch';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Upload } from 'lucide-react';
+import type { HolidayImportItem, LibrarySettings } from '@/types';
+
+const ACTION_BADGES: Record<HolidayImportItem['action'], 'default' | 'secondary' | 'outline'> = {
+  add: 'default',
+  change: 'secondary',
+  skip: 'outline',
+};
+
+interface HolidayImportDialogProps {
+  onImported: (data: { settings: LibrarySettings; affectedBookings: string[] }) => void;
+}
+
+/**
+ * Import holidays and closures from the university's .ics calendar, after a
+ * preview of what would be added, changed and skipped
+ */
+export function HolidayImportDialog({ onImported }: HolidayImportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<{ ics?: string; url?: string }>({});
+  const [url, setUrl] = useState('');
+  const [items, setItems] = useState<HolidayImportItem[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const send = async (body: { ics?: string; url?: string; preview?: boolean }) => {
+    const response = await authFetch('/api/admin/settings/holidays/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error([data.error, ...(data.problems || [])].filter(Boolean).join('. ') || 'Failed to import holidays');
+    }
+    return data;
+  };
+
+  const handlePreview = async (next: { ics?: string; url?: string }) => {
+    setBusy(true);
+    setSource(next);
+    try {
+      setItems((await send({ ...next, preview: true })).items);
+    } catch (error: any) {
+      setItems(null);
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      await handlePreview({ ics: await file.text() });
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const data = await send(source);
+      if (data.settings) {
+        onImported(data);
+      }
+      setOpen(false);
+      setItems(null);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importCount = (items || []).filter((item) => item.action !== 'skip').length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="mr-2 h-4 w-4" />
+          Import .ics
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Holidays</DialogTitle>
+          <DialogDescription>
+            All-day events become holidays and timed events become closures. Importing saves straight away and
+            replaces any unsaved changes on this page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="ics-file">Calendar file</Label>
+            <Input
+              id="ics-file"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={busy}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ics-url">Or calendar link</Label>
+            <div className="flex gap-2">
+              <Input
+                id="ics-url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://..."
+              />
+              <Button variant="outline" onClick={() => handlePreview({ url })} disabled={busy || !url.trim()}>
+                Preview
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {items && (
+          <div className="max-h-80 overflow-y-auto">
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The calendar has no events.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item, index) => (
+                    <TableRow key={`${item.date}-${item.name}-${index}`}>
+                      <TableCell>
+                        <Badge variant={ACTION_BADGES[item.action]} className="capitalize">{item.action}</Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{item.date}</TableCell>
+                      <TableCell>
+                        {item.name}
+                        {item.kind === 'closure' && item.start && (
+                          <span className="text-muted-foreground"> · closed {item.start}-{item.end}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {item.previousName ? `Was "${item.previousName}"` : item.reason}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        <Button onClick={handleImport} disabled={busy || importCount === 0}>
+          {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {importCount > 0 ? `Import ${importCount} item(s)` : 'Nothing to import'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
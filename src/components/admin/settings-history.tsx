@@ -0,0 +1,86 @@
+'use client';
+
+import { diffAuditDetails, formatAuditValue } from '@/lib/audit-diff';
+import { getPreviousVersion } from '@/lib/library-settings';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { History } from 'lucide-react';
+import type { LibrarySettingsVersion } from '@/types';
+
+interface SettingsHistoryProps {
+  versions: LibrarySettingsVersion[];
+  liveVersionId?: string;
+  busy: boolean;
+  onRestore: (version: LibrarySettingsVersion) => void;
+  onCancel: (version: LibrarySettingsVersion) => void;
+}
+
+/**
+ * Saved settings versions, newest first. Each shows what it changed from the
+ * settings live before it; scheduled versions are compared with the live ones.
+ */
+export function SettingsHistory({ versions, liveVersionId, busy, onRestore, onCancel }: SettingsHistoryProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" /> History
+        </CardTitle>
+        <CardDescription>Every saved change, who made it and why. Roll back to put a version live again.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {versions.length === 0 && <p className="text-sm text-muted-foreground">No saved versions yet.</p>}
+        {versions.map((version) => {
+          const previous = getPreviousVersion(versions, version);
+          const changes = previous ? diffAuditDetails({ before: previous.settings, after: version.settings }) : [];
+          const isLive = version.id === liveVersionId;
+
+          return (
+            <div key={version.id} className="space-y-2 rounded-md border p-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {new Date(version.createdAt).toLocaleString()} · {version.createdByName}
+                  </p>
+                  {version.reason && <p className="text-sm text-muted-foreground">{version.reason}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {isLive && <Badge>Live</Badge>}
+                  {version.status === 'scheduled' && (
+                    <Badge variant="secondary">From {new Date(version.effectiveFrom).toLocaleString()}</Badge>
+                  )}
+                  {version.status === 'cancelled' && <Badge variant="outline">Cancelled</Badge>}
+                  {version.status === 'scheduled' ? (
+                    <Button variant="ghost" size="sm" onClick={() => onCancel(version)} disabled={busy}>
+                      Cancel
+                    </Button>
+                  ) : (
+                    !isLive && (
+                      <Button variant="ghost" size="sm" onClick={() => onRestore(version)} disabled={busy}>
+                        Roll back
+                      </Button>
+                    )
+                  )}
+                </div>
+              </div>
+              {changes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">{previous ? 'No changes' : 'First saved version'}</p>
+              ) : (
+                <ul className="space-y-1">
+                  {changes.map((change) => (
+                    <li key={change.field} className="text-xs">
+                      <span className="font-mono">{change.field}</span>{' '}
+                      <span className="text-red-600 line-through break-all">{formatAuditValue(change.before)}</span>{' '}
+                      <span className="text-green-600 break-all">{formatAuditValue(change.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useState } from 'react';
+import { validateSpecialHours } from '@/lib/library-settings';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { BookingRules, SpecialClosure, SpecialHours } from '@/types';
+
+type HoursMode = 'weekly' | 'custom' | 'all-day' | 'closed';
+
+const HOURS_LABELS: Record<HoursMode, string> = {
+  weekly: 'Usual weekly hours',
+  custom: 'Different hours',
+  'all-day': 'Open 24 hours',
+  closed: 'Closed all day',
+};
+
+const RULE_OVERRIDES: Array<{ key: keyof BookingRules; label: string }> = [
+  { key: 'minBookingDuration', label: 'Minimum booking length' },
+  { key: 'maxBookingDuration', label: 'Maximum booking length' },
+  { key: 'maxDailyDuration', label: 'Daily limit per student' },
+];
+
+const emptyDraft = () => ({
+  name: '',
+  startDate: '',
+  endDate: '',
+  mode: 'weekly' as HoursMode,
+  open: '08:00',
+  close: '22:00',
+  closures: [] as SpecialClosure[],
+  rules: {} as Partial<Record<keyof BookingRules, string>>,
+});
+
+interface SpecialHoursEditorProps {
+  value: SpecialHours[];
+  bookingRules: BookingRules;
+  onChange: (specialHours: SpecialHours[]) => void;
+}
+
+/**
+ * Date ranges with their own hours, closures and booking rules, such as exam
+ * season or an event that closes the library early
+ */
+export function SpecialHoursEditor({ value, bookingRules, onChange }: SpecialHoursEditorProps) {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [closure, setClosure] = useState<SpecialClosure>({ start: '', end: '', reason: '' });
+
+  const toSpecialHours = (): SpecialHours => {
+    const rules = Object.fromEntries(
+      Object.entries(draft.rules)
+        .filter(([, minutes]) => minutes !== '')
+        .map(([key, minutes]) => [key, Number(minutes)])
+    );
+    const hours = {
+      weekly: undefined,
+      custom: { open: draft.open, close: draft.close, isClosed: false },
+      'all-day': { open: '00:00', close: '24:00', isClosed: false },
+      closed: { open: '00:00', close: '00:00', isClosed: true },
+    }[draft.mode];
+
+    return {
+      id: `special-${Date.now().toString(36)}`,
+      name: draft.name.trim(),
+      startDate: draft.startDate,
+      endDate: draft.endDate || draft.startDate,
+      ...(hours ? { hours } : {}),
+      ...(draft.closures.length > 0 ? { closures: draft.closures } : {}),
+      ...(Object.keys(rules).length > 0 ? { bookingRules: rules } : {}),
+    };
+  };
+
+  const problems = draft.name || draft.startDate ? validateSpecialHours([toSpecialHours()], bookingRules) : [];
+
+  const addClosure = () => {
+    const reason = closure.reason?.trim();
+    setDraft({
+      ...draft,
+      closures: [...draft.closures, { start: closure.start, end: closure.end, ...(reason ? { reason } : {}) }],
+    });
+    setClosure({ start: '', end: '', reason: '' });
+  };
+
+  const handleAdd = () => {
+    onChange([...value, toSpecialHours()].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    setDraft(emptyDraft());
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Special Hours</CardTitle>
+        <CardDescription>
+          Hours and rules for a range of dates, such as exam season or an event. Where ranges overlap the shorter one
+          wins, closures from both apply, and holidays close the library regardless.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {value.length === 0 && <p className="text-sm text-muted-foreground">No special hours set.</p>}
+        {value.map((special) => (
+          <div key={special.id} className="flex items-start justify-between gap-4 rounded-md border px-3 py-2">
+            <div className="space-y-1 text-sm">
+              <p>
+                <span className="font-medium">{special.name}</span> · {special.startDate}
+                {special.endDate !== special.startDate && ` to ${special.endDate}`}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {special.hours && (
+                  <Badge variant="secondary">
+                    {special.hours.isClosed ? 'Closed' : `${special.hours.open}-${special.hours.close}`}
+                  </Badge>
+                )}
+                {(special.closures || []).map((c) => (
+                  <Badge key={`${c.start}-${c.end}`} variant="outline">
+                    Closed {c.start}-{c.end}
+                    {c.reason && ` · ${c.reason}`}
+                  </Badge>
+                ))}
+                {Object.entries(special.bookingRules || {}).map(([key, minutes]) => (
+                  <Badge key={key} variant="outline">
+                    {RULE_OVERRIDES.find((rule) => rule.key === key)?.label ?? key}: {minutes} min
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((s) => s.id !== special.id))}
+              aria-label={`Remove ${special.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="space-y-4 rounded-md border border-dashed p-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="special-name">Name</Label>
+              <Input
+                id="special-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Exam season"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="special-start">From</Label>
+              <Input
+                id="special-start"
+                type="date"
+                value={draft.startDate}
+                onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="special-end">To</Label>
+              <Input
+                id="special-end"
+                type="date"
+                value={draft.endDate}
+                min={draft.startDate}
+                onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label>Hours</Label>
+              <Select value={draft.mode} onValueChange={(mode) => setDraft({ ...draft, mode: mode as HoursMode })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(HOURS_LABELS) as HoursMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {HOURS_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.mode === 'custom' && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="special-open">Opens</Label>
+                  <Input
+                    id="special-open"
+                    type="time"
+                    value={draft.open}
+                    onChange={(e) => setDraft({ ...draft, open: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="special-close">Closes</Label>
+                  <Input
+                    id="special-close"
+                    type="time"
+                    value={draft.close}
+                    onChange={(e) => setDraft({ ...draft, close: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Closed for part of the day</Label>
+            {draft.closures.map((c, index) => (
+              <div key={`${c.start}-${c.end}-${index}`} className="flex items-center justify-between text-sm">
+                <span>
+                  {c.start}-{c.end}
+                  {c.reason && ` · ${c.reason}`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft({ ...draft, closures: draft.closures.filter((_, i) => i !== index) })}
+                  aria-label="Remove closure"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="time"
+                value={closure.start}
+                onChange={(e) => setClosure({ ...closure, start: e.target.value })}
+                className="sm:w-32"
+                aria-label="Closed from"
+              />
+              <Input
+                type="time"
+                value={closure.end}
+                onChange={(e) => setClosure({ ...closure, end: e.target.value })}
+                className="sm:w-32"
+                aria-label="Closed until"
+              />
+              <Input
+                value={closure.reason}
+                onChange={(e) => setClosure({ ...closure, reason: e.target.value })}
+                placeholder="Reason (optional)"
+              />
+              <Button variant="outline" onClick={addClosure} disabled={!closure.start || !closure.end}>
+                Add Closure
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            {RULE_OVERRIDES.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`special-${key}`}>{label}</Label>
+                <Input
+                  id={`special-${key}`}
+                  type="number"
+                  min={0}
+                  value={draft.rules[key] ?? ''}
+                  onChange={(e) => setDraft({ ...draft, rules: { ...draft.rules, [key]: e.target.value } })}
+                  placeholder={`${bookingRules[key]} minutes`}
+                />
+              </div>
+            ))}
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="list-disc pl-4 text-sm text-destructive">
+              {problems.map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          )}
+
+          <Button variant="outline" onClick={handleAdd} disabled={!draft.name.trim() || !draft.startDate || problems.length > 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Special Hours
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
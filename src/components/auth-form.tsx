@@ -9,6 +9,7 @@ import {
   signInWithEmailAndPassword,
 } from "firebase/auth";
 import { auth } from "@/lib/firebase";
+import { isUniversityEmail, UNIVERSITY_EMAIL_DOMAIN } from "@/lib/admin-config";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -39,8 +40,8 @@ import { useToast } from "@/hooks/use-toast";
 import { LogIn, UserPlus, Loader2, Eye, EyeOff } from "lucide-react";
 
 const authSchema = z.object({
-  email: z.string().email().refine(email => email.endsWith('@srmist.edu.in'), {
-    message: "Only @srmist.edu.in emails are allowed.",
+  email: z.string().email().refine(isUniversityEmail, {
+    message: `Only ${UNIVERSITY_EMAIL_DOMAIN} emails are allowed.`,
   }),
   password: z.string()
     .min(8, "Password must be at least 8 characters")
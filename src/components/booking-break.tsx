@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Coffee, Loader2, QrCode } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { authFetch } from '@/lib/auth-fetch';
+import { getMaxBreakMinutes } from '@/lib/booking-break';
+import { loadLibrarySettings } from '@/services/library-settings';
+import type { Booking, LibrarySettings } from '@/types';
+
+interface BookingBreakProps {
+  booking: Booking;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Step away from an active booking without losing the seat, with a countdown
+ * to rescan by while on break
+ */
+export function BookingBreak({ booking }: BookingBreakProps) {
+  const [loading, setLoading] = useState(false);
+  const [settings, setSettings] = useState<LibrarySettings | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLibrarySettings().then((loaded) => {
+      if (!cancelled) setSettings(loaded);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const currentBreak = booking.currentBreakId ? booking.breaks?.[booking.currentBreakId] : undefined;
+
+  // Tick the countdown once a second while on break
+  useEffect(() => {
+    if (!currentBreak) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [currentBreak]);
+
+  const handleStartBreak = async () => {
+    setLoading(true);
+    try {
+      const response = await authFetch(`/api/bookings/${booking.id}/break`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to start break');
+      }
+
+      toast({
+        title: 'Break Started',
+        description: 'Your seat is held. Scan your QR code at the entrance when you return.',
+      });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could Not Start Break',
+        description: error.message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const maxBreakMinutes = getMaxBreakMinutes(settings);
+
+  if (currentBreak) {
+    const remaining = new Date(currentBreak.endsBy).getTime() - now;
+
+    return (
+      <Alert className="border-amber-500">
+        <Coffee className="h-4 w-4" />
+        <AlertTitle>You&apos;re on a break · {formatCountdown(remaining)} left</AlertTitle>
+        <AlertDescription className="flex items-center gap-2">
+          <QrCode className="h-4 w-4 shrink-0" />
+          Scan your booking QR code by {new Date(currentBreak.endsBy).toLocaleTimeString()} or your booking will end
+          and the seat will be freed.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Take a Break</CardTitle>
+        <CardDescription>
+          Step away for up to {maxBreakMinutes} minutes without losing your seat. Rescan your QR code when you return.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button onClick={handleStartBreak} disabled={loading} variant="outline" className="w-full">
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Starting...
+            </>
+          ) : (
+            <>
+              <Coffee className="mr-2 h-4 w-4" />
+              Start Break
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
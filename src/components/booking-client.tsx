@@ -3,31 +3,84 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import { ref, onValue, update, serverTimestamp, push, off } from 'firebase/database';
+import { ref, onValue, off } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { authFetch } from '@/lib/auth-fetch';
+import { describeViolations, evaluateBookingPolicy } from '@/lib/booking-policy';
+import { canTransition, isOpenBooking } from '@/lib/booking-status';
+import { findTimelineConflict } from '@/lib/seat-timeline';
+import { getSeatFloorId, getSeatStatePath } from '@/lib/seat-layout';
+import { isHeldForOthers } from '@/lib/waitlist';
+import { MAX_SERIES_OCCURRENCES, toDateKey } from '@/lib/recurrence';
+import { getAvailableTimeSlots, loadLibrarySettings } from '@/services/library-settings';
 import { useAuth } from '@/components/providers/auth-provider';
-import type { Seat, Booking } from '@/types';
+import type { Seat, Booking, LibrarySettings, PolicyRule, RecurrenceRule, SkippedOccurrence } from '@/types';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, Armchair, ArrowLeft, Clock, Info, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useBookingQrToken } from '@/hooks/use-booking-qr-token';
+import { useSeatLayout } from '@/hooks/use-seat-layout';
+import { useWaitlist } from '@/hooks/use-waitlist';
 import QRCode from 'react-qr-code';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 import QRCodeLib from 'qrcode';
 
+// Reservations are picked in half-hour slots
+const SLOT_MINUTES = 30;
+
+// Rules that decide which end times can be offered for a start time
+const END_TIME_RULES: PolicyRule[] = ['min-duration', 'max-duration', 'operating-hours'];
+
+// Combine a YYYY-MM-DD date and an HH:mm time into a local Date
+const atTime = (dateKey: string, time24: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time24.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes, 0, 0);
+};
+
+type RepeatOption = 'none' | 'daily' | 'weekdays' | 'weekly';
+
+const REPEAT_LABELS: Record<RepeatOption, string> = {
+  none: 'Does not repeat',
+  daily: 'Every day',
+  weekdays: 'Every weekday (Mon-Fri)',
+  weekly: 'Every week on this day',
+};
+
+const formatTime12 = (time24: string) => {
+  const [hour, minute] = time24.split(':').map(Number);
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+};
+
 export function BookingClient({ seatId, activeBooking }: { seatId: string, activeBooking: Booking | null }) {
   const { user } = useAuth();
   const [seat, setSeat] = useState<Seat | null>(null);
   const [loading, setLoading] = useState(true);
   const [booking, setBooking] = useState<Booking | null>(activeBooking);
   const [countdown, setCountdown] = useState<number>(0);
+  const [bookingDate, setBookingDate] = useState<string>(() => toDateKey(new Date()));
+  const [startTime, setStartTime] = useState<string>("now");
   const [endTime, setEndTime] = useState<string>("");
+  const [slots, setSlots] = useState<Array<{ start: string; end: string }> | null>(null);
+  const [maxAdvanceDays, setMaxAdvanceDays] = useState(0);
+  const [settings, setSettings] = useState<LibrarySettings | null>(null);
+  const [repeat, setRepeat] = useState<RepeatOption>('none');
+  const [repeatEnd, setRepeatEnd] = useState<'until' | 'count'>('count');
+  const [repeatUntil, setRepeatUntil] = useState<string>('');
+  const [repeatCount, setRepeatCount] = useState<string>('5');
+  const { entries: waitlistEntries, join: joinWaitlist } = useWaitlist(!!user);
   const router = useRouter();
   const { toast } = useToast();
+  const qrToken = useBookingQrToken(booking);
   
-  const floor = useMemo(() => seatId.charAt(0).toLowerCase() === 'g' ? 'ground' : seatId.charAt(0).toLowerCase() === 'f' ? 'first' : seatId.charAt(0).toLowerCase() === 's' ? 'second' : 'third', [seatId]);
-  const seatRef = useMemo(() => ref(db, `seats/${floor}/${seatId}`), [floor, seatId]);
+  const { layout } = useSeatLayout();
+  const floorId = useMemo(() => layout && getSeatFloorId(layout, seatId), [layout, seatId]);
+  const seatRef = useMemo(() => floorId ? ref(db, getSeatStatePath(floorId, seatId)) : null, [floorId, seatId]);
 
   // Generate time options (current time to 11:59 PM in 30-minute intervals)
   const generateTimeOptions = () => {
@@ -65,6 +118,83 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
 
   const timeOptions = useMemo(() => generateTimeOptions(), []);
 
+  // Load the library's opening slots for the selected day. Without configured
+  // settings we fall back to booking from now until midnight.
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSlots = async () => {
+      const loaded = await loadLibrarySettings();
+      if (cancelled) return;
+
+      setSettings(loaded);
+      if (!loaded) {
+        setSlots(null);
+        setMaxAdvanceDays(0);
+        return;
+      }
+
+      setMaxAdvanceDays(loaded.bookingRules.maxAdvanceBookingDays);
+      const daySlots = await getAvailableTimeSlots(atTime(bookingDate, '00:00'), SLOT_MINUTES);
+      if (!cancelled) setSlots(daySlots);
+    };
+
+    loadSlots();
+    return () => { cancelled = true; };
+  }, [bookingDate]);
+
+  const dateOptions = useMemo(() => {
+    const today = new Date();
+    return Array.from({ length: maxAdvanceDays + 1 }, (_, offset) => {
+      const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+      const label = offset === 0
+        ? 'Today'
+        : offset === 1
+          ? 'Tomorrow'
+          : date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+      return { value: toDateKey(date), label };
+    });
+  }, [maxAdvanceDays]);
+
+  // Start times: "now" (today only) plus every free slot that hasn't begun
+  const startOptions = useMemo(() => {
+    const now = new Date();
+    const options: string[] = [];
+
+    if (bookingDate === toDateKey(now)) {
+      options.push('now');
+    }
+
+    (slots || []).forEach((slot) => {
+      const slotStart = atTime(bookingDate, slot.start);
+      if (slotStart <= now) return;
+      if (seat && findTimelineConflict(seat, slotStart, atTime(bookingDate, slot.end), now)) return;
+      options.push(slot.start);
+    });
+
+    return options;
+  }, [bookingDate, slots, seat]);
+
+  // End times run from the chosen start until the seat's next reservation,
+  // within the library's duration limits and closing time
+  const endOptions = useMemo(() => {
+    const now = new Date();
+    const from = startTime === 'now' ? now : atTime(bookingDate, startTime);
+    const candidates = slots ? slots.map((slot) => slot.end) : timeOptions.map((option) => option.split('|')[1]);
+    const options: string[] = [];
+
+    for (const candidate of candidates) {
+      const candidateEnd = atTime(bookingDate, candidate);
+      if (candidateEnd <= from) continue;
+      if (seat && findTimelineConflict(seat, from, candidateEnd, now)) break;
+      const violations = evaluateBookingPolicy({ settings, startTime: from, endTime: candidateEnd, now });
+      if (violations.some((violation) => END_TIME_RULES.includes(violation.rule))) continue;
+      options.push(candidate);
+    }
+
+    return options;
+  }, [bookingDate, startTime, slots, timeOptions, seat, settings]);
+
   useEffect(() => {
     // When the active booking from props changes, update our internal state.
     setBooking(activeBooking);
@@ -72,6 +202,12 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
 
   useEffect(() => {
     // This effect is only responsible for listening to changes for this specific seat.
+    if (!seatRef) {
+      // Seats missing from the layout are not found
+      if (layout) setLoading(false);
+      return;
+    }
+
     const listener = onValue(seatRef, (snapshot) => {
       const data = snapshot.val();
       if (data) {
@@ -81,22 +217,26 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
     });
 
     return () => off(seatRef, 'value', listener);
-  }, [seatRef]);
+  }, [seatRef, layout]);
 
 
   // This useEffect now only handles the visual countdown timer.
-  // The actual expiry logic is now centralized in MainLayout.
+  // The actual expiry is handled by the server-side booking sweeper.
   useEffect(() => {
-    if (!booking || (booking.status !== 'pending' && booking.status !== 'active')) {
+    if (!booking || !isOpenBooking(booking.status)) {
         setCountdown(0);
         return;
     };
 
+    // The check-in window opens when the booking starts, not when it was made
     const calculateRemaining = () => {
-        const bookingTime = new Date(booking.bookingTime).getTime();
+        const opensAt = Math.max(
+          new Date(booking.bookingTime).getTime(),
+          new Date(booking.startTime).getTime()
+        );
         const now = Date.now();
-        const elapsed = (now - bookingTime) / 1000;
-        return Math.max(0, 150 - elapsed);
+        const elapsed = (now - opensAt) / 1000;
+        return Math.min(150, Math.max(0, 150 - elapsed));
     }
     
     setCountdown(calculateRemaining());
@@ -118,13 +258,13 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
   const handleCancelBooking = async () => {
     if (!user || !booking || !seat) return;
     
-    // Only allow canceling if it's the user's own booking and status is 'booked'
+    // Only allow canceling the user's own bookings that haven't finished
     if (booking.userId !== user.uid) {
       toast({ variant: 'destructive', title: 'Unauthorized', description: 'You can only cancel your own bookings.' });
       return;
     }
 
-    if (booking.status !== 'pending' && booking.status !== 'active') {
+    if (!canTransition(booking.status, 'cancel')) {
       toast({ variant: 'destructive', title: 'Cannot Cancel', description: 'Only pending or active bookings can be cancelled.' });
       return;
     }
@@ -132,14 +272,15 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
     setLoading(true);
     
     try {
-      const updates: {[key: string]: any} = {};
-      updates[`/seats/${floor}/${seatId}/status`] = 'available';
-      updates[`/seats/${floor}/${seatId}/bookedBy`] = null;
-      updates[`/seats/${floor}/${seatId}/bookedAt`] = null;
-      updates[`/seats/${floor}/${seatId}/bookingId`] = null;
-      updates[`/bookings/${user.uid}/${booking.id}/status`] = 'expired';
-      
-      await update(ref(db), updates);
+      const response = await authFetch(`/api/bookings/${booking.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to cancel booking');
+      }
       
       toast({ 
         title: "Booking Cancelled", 
@@ -155,7 +296,7 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
   };
 
   const handleBooking = async () => {
-    if (!user || !seat || seat.status !== 'available') return;
+    if (!user || !seat || seat.status !== 'available' || isHeldForOthers(seat, user.uid, new Date())) return;
     
     if (activeBooking) {
         toast({ 
@@ -166,7 +307,7 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
         return;
     }
 
-    if (!endTime) {
+    if (!startTime || !endTime) {
         toast({ variant: 'destructive', title: 'Select End Time', description: 'Please select when you want to end your session.' });
         return;
     }
@@ -174,59 +315,54 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
     setLoading(true);
     
     try {
-      // Calculate duration in minutes from now to selected end time
-      const now = new Date();
-      const [time12hr, time24hr] = endTime.split('|');
-      const [hours, minutes] = time24hr.split(':').map(Number);
-      
-      const endDateTime = new Date();
-      endDateTime.setHours(hours, minutes, 0, 0);
+      const isReservation = startTime !== 'now';
+      const startDateTime = isReservation ? atTime(bookingDate, startTime) : new Date();
+      const endDateTime = atTime(bookingDate, endTime);
       
-      // If end time is before current time, it means next day
-      if (endDateTime < now) {
-        endDateTime.setDate(endDateTime.getDate() + 1);
-      }
+      // The server enforces the same policy; checking here saves a round trip
+      const violations = evaluateBookingPolicy({ settings, startTime: startDateTime, endTime: endDateTime, now: new Date() });
       
-      const durationMinutes = Math.round((endDateTime.getTime() - now.getTime()) / (1000 * 60));
-      
-      if (durationMinutes < 30) {
-        toast({ variant: 'destructive', title: 'Invalid Duration', description: 'Please select an end time at least 30 minutes from now.' });
+      if (violations.length > 0) {
+        toast({ variant: 'destructive', title: 'Booking Not Allowed', description: describeViolations(violations) });
         setLoading(false);
         return;
       }
 
-      const newBookingRef = push(ref(db, `bookings/${user.uid}`));
-      const nowISO = new Date().toISOString();
-      const endTimeISO = new Date(Date.now() + durationMinutes * 60 * 1000).toISOString();
-      
-      const newBookingData: Omit<Booking, 'id'> = {
-          seatId: seatId,
-          userId: user.uid,
-          userName: user.displayName || user.email?.split('@')[0] || 'User',
-          userEmail: user.email || '',
-          bookingTime: nowISO,
-          startTime: nowISO,
-          endTime: endTimeISO,
-          status: 'pending',
-          duration: durationMinutes,
-          createdAt: nowISO,
-          updatedAt: nowISO,
+      if (isReservation && repeat !== 'none') {
+        await handleSeriesBooking(startDateTime, endDateTime);
+        return;
       }
 
-      const updates: {[key: string]: any} = {};
-      updates[`/seats/${floor}/${seatId}/status`] = 'booked';
-      updates[`/seats/${floor}/${seatId}/bookedBy`] = user.uid;
-      updates[`/seats/${floor}/${seatId}/bookedAt`] = serverTimestamp();
-      updates[`/seats/${floor}/${seatId}/bookingId`] = newBookingRef.key;
-      updates[`/bookings/${user.uid}/${newBookingRef.key}`] = newBookingData;
-      
-      await update(ref(db), updates);
-      
-      toast({ 
-        title: "Seat Booked!", 
-        description: `Booked until ${time12hr}. Scan QR within 2.5 minutes.` 
+      const response = await authFetch('/api/bookings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          seatId,
+          startTime: isReservation ? startDateTime.toISOString() : undefined,
+          endTime: endDateTime.toISOString(),
+        }),
       });
 
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.violations ? describeViolations(data.violations) : data.message || data.error || 'Failed to book seat');
+      }
+
+      setBooking(data.booking);
+      
+      if (isReservation) {
+        toast({ 
+          title: "Seat Reserved!", 
+          description: `Reserved ${startDateTime.toLocaleDateString()} from ${formatTime12(startTime)} to ${formatTime12(endTime)}. Scan QR within 2.5 minutes of your start time.` 
+        });
+      } else {
+        toast({ 
+          title: "Seat Booked!", 
+          description: `Booked until ${formatTime12(endTime)}. Scan QR within 2.5 minutes.` 
+        });
+      }
+
     } catch (error: any) {
       toast({ variant: 'destructive', title: 'Booking failed', description: error.message });
     } finally {
@@ -234,8 +370,43 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
     }
   };
 
+  // Book every session of a recurring series; dates that can't be booked are skipped
+  const handleSeriesBooking = async (startDateTime: Date, endDateTime: Date) => {
+    const rule: RecurrenceRule = {
+      frequency: repeat === 'daily' ? 'daily' : 'weekly',
+      ...(repeat === 'weekdays' ? { weekdays: [1, 2, 3, 4, 5] } : {}),
+      ...(repeatEnd === 'until' ? { until: repeatUntil } : { count: Number(repeatCount) }),
+    };
+
+    const response = await authFetch('/api/bookings/series', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        seatId,
+        startTime: startDateTime.toISOString(),
+        endTime: endDateTime.toISOString(),
+        rule,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Failed to book recurring sessions');
+    }
+
+    const skipped: SkippedOccurrence[] = data.skipped || [];
+    setBooking(data.bookings[0]);
+    toast({
+      title: 'Recurring Reservation Created!',
+      description: skipped.length > 0
+        ? `Booked ${data.bookings.length} sessions. Skipped ${skipped.map((s) => `${new Date(s.startTime).toLocaleDateString()} (${s.reason})`).join(', ')}.`
+        : `Booked ${data.bookings.length} sessions from ${formatTime12(startTime)} to ${formatTime12(endTime)}.`,
+    });
+  };
+
   const downloadQRCode = async () => {
-    if (!booking || !user) return;
+    if (!booking || !user || !qrToken) return;
 
     try {
       const canvas = document.createElement("canvas");
@@ -290,7 +461,7 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
       ctx.fill();
 
       // Booking details FIRST (so QR draws on top)
-      const bookingTime = new Date(booking.bookingTime);
+      const bookingTime = new Date(booking.startTime || booking.bookingTime);
       const duration = booking.duration || 60;
       const endDateTime = new Date(bookingTime.getTime() + duration * 60000);
       
@@ -307,7 +478,7 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
     // Detail items
     const details = [
       { label: 'Booked By', value: user.email?.split('@')[0] || 'Student' },
-      { label: 'Booking Time', value: bookingTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) },
+      { label: 'Start Time', value: bookingTime.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) },
       { label: 'Duration', value: `${duration} minutes` },
       { label: 'End Time', value: endDateTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) },
     ];
@@ -340,7 +511,7 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
       ctx.fillRect(qrWhiteBgX, 270, qrWhiteBg, qrWhiteBg);
 
       // Generate QR code directly using qrcode library
-      const qrData = JSON.stringify({bookingId: booking.id, userId: user?.uid, seatId: seatId});
+      const qrData = qrToken;
       
       const qrDataUrl = await QRCodeLib.toDataURL(qrData, {
         width: 300,
@@ -404,7 +575,20 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
     );
   }
    
-  if (seat.status !== 'available' && (!booking || booking.seatId !== seat.id)) {
+  const heldForOthers = isHeldForOthers(seat, user?.uid, new Date());
+  const onSeatWaitlist = waitlistEntries.some((entry) => entry.target.seatId === seat.id);
+  const canJoinWaitlist = seat.status !== 'maintenance' && seat.status !== 'out-of-service' && seat.bookedBy !== user?.uid;
+
+  const handleJoinWaitlist = async () => {
+    try {
+      await joinWaitlist({ seatId: seat.id });
+      toast({ title: 'Added to the waitlist', description: `We'll hold seat ${seatId} for you when it's free.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Could not join the waitlist', description: error.message });
+    }
+  };
+
+  if ((seat.status !== 'available' || heldForOthers) && (!booking || booking.seatId !== seat.id)) {
     return (
       <div className="max-w-lg mx-auto space-y-4">
         <Button variant="ghost" onClick={() => router.push('/seats')}>
@@ -414,9 +598,19 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
           <CardHeader>
             <CardTitle>Seat Unavailable</CardTitle>
             <CardDescription>
-              This seat is currently {seat.status}. Please select another seat.
+              {heldForOthers
+                ? 'This seat is being held for a student on the waitlist.'
+                : `This seat is currently ${seat.status}.`}{' '}
+              Please select another seat{canJoinWaitlist ? ", or join the waitlist to be offered it when it's free" : ''}.
             </CardDescription>
           </CardHeader>
+          {canJoinWaitlist && (
+            <CardContent>
+              <Button onClick={handleJoinWaitlist} className="w-full" disabled={onSeatWaitlist}>
+                {onSeatWaitlist ? "You're on the waitlist for this seat" : 'Join waitlist for this seat'}
+              </Button>
+            </CardContent>
+          )}
         </Card>
       </div>
     );
@@ -435,26 +629,43 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
             {booking ? "Booking Confirmed" : `Book Seat ${seatId}`}
           </CardTitle>
           <CardDescription>
-            {booking ? "Scan this QR code at the library entrance within the time limit." : "Select when you want to end your session."}
+            {booking ? "Scan this QR code at the library entrance within the time limit." : "Book now or reserve a slot in advance."}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {booking && (booking.status === 'pending' || booking.status === 'active') && booking.seatId === seatId ? (
+          {booking && isOpenBooking(booking.status) && booking.seatId === seatId ? (
             <div className="text-center flex flex-col items-center gap-6">
                 <div className="bg-white p-4 rounded-xl shadow-md border w-full max-w-xs mx-auto">
-                    <QRCode 
-                      id="QRCode" 
-                      value={JSON.stringify({bookingId: booking.id, userId: user?.uid, seatId: seatId})} 
-                      size={256}
-                      className="w-full h-auto"
-                    />
-                </div>
-                <div className="font-bold text-3xl sm:text-4xl text-destructive font-mono tracking-tighter">
-                    {Math.floor(countdown / 60)}:{(Math.round(countdown) % 60).toString().padStart(2, '0')}
+                    {qrToken ? (
+                      <QRCode 
+                        id="QRCode" 
+                        value={qrToken} 
+                        size={256}
+                        className="w-full h-auto"
+                      />
+                    ) : (
+                      <div className="aspect-square flex items-center justify-center">
+                        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                      </div>
+                    )}
                 </div>
-                <p className="text-muted-foreground -mt-4 text-sm sm:text-base">Time left to check-in</p>
+                {new Date(booking.startTime).getTime() > Date.now() ? (
+                  <>
+                    <div className="font-bold text-xl sm:text-2xl text-primary">
+                        {new Date(booking.startTime).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                    </div>
+                    <p className="text-muted-foreground -mt-4 text-sm sm:text-base">Reservation starts — check in within 2.5 minutes of this time</p>
+                  </>
+                ) : (
+                  <>
+                    <div className="font-bold text-3xl sm:text-4xl text-destructive font-mono tracking-tighter">
+                        {Math.floor(countdown / 60)}:{(Math.round(countdown) % 60).toString().padStart(2, '0')}
+                    </div>
+                    <p className="text-muted-foreground -mt-4 text-sm sm:text-base">Time left to check-in</p>
+                  </>
+                )}
                 <div className="flex flex-col sm:flex-row gap-3 w-full">
-                  <Button onClick={downloadQRCode} size="lg" className="flex-1">
+                  <Button onClick={downloadQRCode} size="lg" className="flex-1" disabled={!qrToken}>
                       <Download className="mr-2 h-4 w-4" /> Download QR Code
                   </Button>
                   <Button onClick={handleCancelBooking} variant="destructive" size="lg" className="flex-1" disabled={loading}>
@@ -463,7 +674,7 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
                   </Button>
                 </div>
             </div>
-          ) : booking && (booking.status === 'pending' || booking.status === 'active') && (seat.status === 'reserved' || seat.status === 'occupied') && seat.bookedBy === user?.uid ? (
+          ) : booking && isOpenBooking(booking.status) && (seat.status === 'reserved' || seat.status === 'occupied') && seat.bookedBy === user?.uid ? (
             // User clicked on their already-booked seat - show cancel option
             <div className="space-y-6">
               <Alert variant="default" className="bg-yellow-500/10 border-yellow-500/30">
@@ -504,42 +715,160 @@ export function BookingClient({ seatId, activeBooking }: { seatId: string, activ
                 </div>
               </div>
 
+               {dateOptions.length > 1 && (
+                 <div className="space-y-2">
+                   <label htmlFor="bookingDate" className="font-medium text-sm sm:text-base">Date</label>
+                   <Select
+                     onValueChange={(value) => {
+                       setBookingDate(value);
+                       setStartTime(value === toDateKey(new Date()) ? 'now' : '');
+                       setEndTime('');
+                     }}
+                     value={bookingDate}
+                   >
+                      <SelectTrigger id="bookingDate" className="w-full text-base py-6">
+                          <SelectValue placeholder="Select date" />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-60">
+                          {dateOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                   </Select>
+                 </div>
+               )}
+
+               <div className="space-y-2">
+                 <label htmlFor="startTime" className="font-medium text-sm sm:text-base">Start Time</label>
+                 <Select
+                   onValueChange={(value) => {
+                     setStartTime(value);
+                     setEndTime('');
+                   }}
+                   value={startTime}
+                 >
+                    <SelectTrigger id="startTime" className="w-full text-base py-6">
+                        <SelectValue placeholder="Select start time" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-60">
+                        {startOptions.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {option === 'now' ? 'Now' : formatTime12(option)}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                 </Select>
+                 {startOptions.length === 0 && (
+                   <p className="text-xs sm:text-sm text-muted-foreground">
+                     No free slots on this day. Try another date.
+                   </p>
+                 )}
+               </div>
+
                <div className="space-y-2">
                  <label htmlFor="endTime" className="font-medium text-sm sm:text-base">End Time (12-hour format)</label>
-                 <Select onValueChange={setEndTime} value={endTime}>
+                 <Select onValueChange={setEndTime} value={endTime} disabled={!startTime}>
                     <SelectTrigger id="endTime" className="w-full text-base py-6">
                         <SelectValue placeholder="Select end time" />
                     </SelectTrigger>
                     <SelectContent className="max-h-60">
-                        {timeOptions.map((option) => {
-                          const [time12hr] = option.split('|');
-                          return (
-                            <SelectItem key={option} value={option}>
-                              {time12hr}
-                            </SelectItem>
-                          );
-                        })}
+                        {endOptions.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {formatTime12(option)}
+                          </SelectItem>
+                        ))}
                     </SelectContent>
                  </Select>
                  {endTime && (
                    <p className="text-xs sm:text-sm text-muted-foreground">
-                     You'll have the seat until {endTime.split('|')[0]}
+                     {startTime === 'now'
+                       ? `You'll have the seat until ${formatTime12(endTime)}`
+                       : `You'll have the seat from ${formatTime12(startTime)} until ${formatTime12(endTime)}`}
                    </p>
                  )}
                </div>
               
+               {startTime && startTime !== 'now' && (
+                 <div className="space-y-2">
+                   <label htmlFor="repeat" className="font-medium text-sm sm:text-base">Repeat</label>
+                   <Select onValueChange={(value) => setRepeat(value as RepeatOption)} value={repeat}>
+                      <SelectTrigger id="repeat" className="w-full text-base py-6">
+                          <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                          {(Object.keys(REPEAT_LABELS) as RepeatOption[]).map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {REPEAT_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                   </Select>
+                   {repeat !== 'none' && (
+                     <div className="flex gap-2">
+                       <Select onValueChange={(value) => setRepeatEnd(value as 'until' | 'count')} value={repeatEnd}>
+                          <SelectTrigger className="w-40">
+                              <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                              <SelectItem value="count">For</SelectItem>
+                              <SelectItem value="until">Until</SelectItem>
+                          </SelectContent>
+                       </Select>
+                       {repeatEnd === 'count' ? (
+                         <div className="flex flex-1 items-center gap-2">
+                           <Input
+                             type="number"
+                             min={2}
+                             max={MAX_SERIES_OCCURRENCES}
+                             value={repeatCount}
+                             onChange={(e) => setRepeatCount(e.target.value)}
+                             aria-label="Number of sessions"
+                           />
+                           <span className="text-sm text-muted-foreground">sessions</span>
+                         </div>
+                       ) : (
+                         <Select onValueChange={setRepeatUntil} value={repeatUntil}>
+                            <SelectTrigger className="flex-1" aria-label="Last day">
+                                <SelectValue placeholder="Last day" />
+                            </SelectTrigger>
+                            <SelectContent className="max-h-60">
+                                {dateOptions.filter((option) => option.value > bookingDate).map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                         </Select>
+                       )}
+                     </div>
+                   )}
+                   {repeat !== 'none' && (
+                     <p className="text-xs sm:text-sm text-muted-foreground">
+                       Sessions can be booked up to {maxAdvanceDays} days ahead. Holidays and dates the seat is taken are skipped.
+                     </p>
+                   )}
+                 </div>
+               )}
+
               <Alert variant="default" className="bg-primary/5 border-primary/20">
                 <Info className="h-4 w-4 text-primary" />
                 <AlertTitle className="text-primary">Important!</AlertTitle>
                 <AlertDescription className="text-xs sm:text-sm">
-                  After booking, you have <span className="font-bold">2.5 minutes</span> to scan the QR code at the library entrance. 
+                  Once your booking starts, you have <span className="font-bold">2.5 minutes</span> to scan the QR code at the library entrance. 
                   The booking will be automatically cancelled if not scanned in time.
                 </AlertDescription>
               </Alert>
 
-              <Button onClick={handleBooking} disabled={loading || !endTime} size="lg" className="w-full">
+              <Button
+                onClick={handleBooking}
+                disabled={loading || !startTime || !endTime || (startTime !== 'now' && repeat !== 'none' && repeatEnd === 'until' && !repeatUntil)}
+                size="lg"
+                className="w-full"
+              >
                 {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Clock className="mr-2 h-4 w-4" />}
-                Confirm Booking
+                {startTime === 'now' ? 'Confirm Booking' : repeat !== 'none' ? 'Confirm Recurring Reservation' : 'Confirm Reservation'}
               </Button>
             </div>
           )}
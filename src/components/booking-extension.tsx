@@ -1,13 +1,22 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Loader2, Clock, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { Booking, ExtensionResult } from '@/types';
+import { authFetch } from '@/lib/auth-fetch';
+import { describeViolations, evaluateExtensionPolicy } from '@/lib/booking-policy';
+import { loadLibrarySettings } from '@/services/library-settings';
+import type { Booking, ExtensionResult, LibrarySettings } from '@/types';
+
+// Offered when the library hasn't configured an extension increment
+const DEFAULT_EXTENSION_MINUTES = [30, 60, 90, 120];
+
+const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : minutes === 60 ? '1 hour' : `${minutes / 60} hours`;
 
 interface BookingExtensionProps {
   booking: Booking;
@@ -18,14 +27,28 @@ export function BookingExtension({ booking, onExtensionComplete }: BookingExtens
   const [loading, setLoading] = useState(false);
   const [extensionMinutes, setExtensionMinutes] = useState<string>('');
   const [result, setResult] = useState<ExtensionResult | null>(null);
+  const [settings, setSettings] = useState<LibrarySettings | null>(null);
   const { toast } = useToast();
 
-  const extensionOptions = [
-    { value: '30', label: '30 minutes' },
-    { value: '60', label: '1 hour' },
-    { value: '90', label: '1.5 hours' },
-    { value: '120', label: '2 hours' },
-  ];
+  useEffect(() => {
+    let cancelled = false;
+    loadLibrarySettings().then((loaded) => {
+      if (!cancelled) setSettings(loaded);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Steps of the library's extension increment that the policy allows
+  const extensionOptions = useMemo(() => {
+    const increment = settings?.bookingRules.extensionIncrement;
+    const candidates = increment
+      ? Array.from({ length: Math.floor(120 / increment) }, (_, index) => (index + 1) * increment)
+      : DEFAULT_EXTENSION_MINUTES;
+
+    return candidates
+      .filter((minutes) => evaluateExtensionPolicy({ settings, booking, additionalMinutes: minutes }).length === 0)
+      .map((minutes) => ({ value: minutes.toString(), label: formatMinutes(minutes) }));
+  }, [settings, booking]);
 
   const handleExtend = async () => {
     if (!extensionMinutes) {
@@ -41,7 +64,7 @@ export function BookingExtension({ booking, onExtensionComplete }: BookingExtens
     setResult(null);
 
     try {
-      const response = await fetch('/api/bookings/extend', {
+      const response = await authFetch('/api/bookings/extend', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -52,7 +75,7 @@ export function BookingExtension({ booking, onExtensionComplete }: BookingExtens
 
       const data = await response.json();
 
-      if (!response.ok) {
+      if (!response.ok && !data.message) {
         throw new Error(data.error || 'Failed to extend booking');
       }
 
@@ -68,7 +91,7 @@ export function BookingExtension({ booking, onExtensionComplete }: BookingExtens
         toast({
           variant: 'destructive',
           title: 'Extension Unavailable',
-          description: data.message || 'Could not extend booking at this time.',
+          description: data.violations ? describeViolations(data.violations) : data.message || 'Could not extend booking at this time.',
         });
       }
     } catch (error: any) {
@@ -99,7 +122,7 @@ export function BookingExtension({ booking, onExtensionComplete }: BookingExtens
           <label htmlFor="extension-duration" className="text-sm font-medium">
             Extension Duration
           </label>
-          <Select value={extensionMinutes} onValueChange={setExtensionMinutes}>
+          <Select value={extensionMinutes} onValueChange={setExtensionMinutes} disabled={extensionOptions.length === 0}>
             <SelectTrigger id="extension-duration">
               <SelectValue placeholder="Select duration" />
             </SelectTrigger>
@@ -111,6 +134,11 @@ export function BookingExtension({ booking, onExtensionComplete }: BookingExtens
               ))}
             </SelectContent>
           </Select>
+          {extensionOptions.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Library rules don&apos;t allow this booking to be extended any further.
+            </p>
+          )}
         </div>
 
         {extensionMinutes && (
@@ -4,8 +4,13 @@
 import React, { useState, useEffect } from 'react';
 import { ref, onValue, off, query, orderByChild } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { isOpenBooking } from '@/lib/booking-status';
+import { describeRecurrence } from '@/lib/recurrence';
+import { authFetch } from '@/lib/auth-fetch';
+import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/components/providers/auth-provider';
-import type { Booking } from '@/types';
+import { useBookingQrToken } from '@/hooks/use-booking-qr-token';
+import type { Booking, BookingSeries } from '@/types';
 import {
   Table,
   TableBody,
@@ -21,24 +26,29 @@ import { Badge } from './ui/badge';
 import { cn } from '@/lib/utils';
 import QRCode from 'react-qr-code';
 import { Button } from './ui/button';
-import { Download, Info } from 'lucide-react';
+import { Download, Info, Repeat } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 import QRCodeLib from 'qrcode';
 
 function ActiveBookingCard({ booking }: { booking: Booking }) {
     const { user } = useAuth();
+    const qrToken = useBookingQrToken(booking);
     const [countdown, setCountdown] = useState(0);
 
     // This useEffect now only handles the visual countdown timer.
-    // The actual expiry logic is now centralized in MainLayout.
+    // The actual expiry is handled by the server-side booking sweeper.
     useEffect(() => {
-        if (booking.status !== 'pending' && booking.status !== 'active') return;
+        if (!isOpenBooking(booking.status)) return;
 
+        // The check-in window opens when the booking starts, not when it was made
         const calculateRemaining = () => {
-            const bookingTime = new Date(booking.bookingTime).getTime();
+            const opensAt = Math.max(
+              new Date(booking.bookingTime).getTime(),
+              new Date(booking.startTime).getTime()
+            );
             const now = Date.now();
-            const elapsed = (now - bookingTime) / 1000;
-            return Math.max(0, 150 - elapsed);
+            const elapsed = (now - opensAt) / 1000;
+            return Math.min(150, Math.max(0, 150 - elapsed));
         }
 
         setCountdown(calculateRemaining());
@@ -57,7 +67,7 @@ function ActiveBookingCard({ booking }: { booking: Booking }) {
 
 
     const downloadQRCode = async () => {
-        if (!user) return;
+        if (!user || !qrToken) return;
 
         try {
           const canvas = document.createElement("canvas");
@@ -162,7 +172,7 @@ function ActiveBookingCard({ booking }: { booking: Booking }) {
           ctx.fillRect(qrWhiteBgX, 270, qrWhiteBg, qrWhiteBg);
 
           // Generate QR code directly using qrcode library
-          const qrData = JSON.stringify({bookingId: booking.id, userId: user?.uid, seatId: booking.seatId});
+          const qrData = qrToken;
           const qrDataUrl = await QRCodeLib.toDataURL(qrData, {
             width: 300,
             margin: 0,
@@ -211,23 +221,36 @@ function ActiveBookingCard({ booking }: { booking: Booking }) {
         )
     }
 
+    const startsAt = new Date(booking.startTime);
+    const isUpcoming = startsAt.getTime() > Date.now();
+
     return (
         <Card className="mb-6 bg-secondary shadow-lg">
             <CardHeader>
-                <CardTitle className="font-headline text-2xl">Your Active Booking</CardTitle>
+                <CardTitle className="font-headline text-2xl">{isUpcoming ? 'Your Upcoming Reservation' : 'Your Active Booking'}</CardTitle>
                 <CardDescription>Scan this QR code at the library entrance to check in.</CardDescription>
             </CardHeader>
             <CardContent className="flex flex-col md:flex-row items-center gap-6">
                 <div className="bg-white p-4 rounded-lg shadow-md border">
-                    <QRCode id="DashboardQRCode" value={JSON.stringify({bookingId: booking.id, userId: user?.uid, seatId: booking.seatId})} size={180} />
+                    {qrToken ? (
+                      <QRCode id="DashboardQRCode" value={qrToken} size={180} />
+                    ) : (
+                      <Skeleton className="h-[180px] w-[180px]" />
+                    )}
                 </div>
                 <div className="flex-1 text-center md:text-left space-y-2">
                     <h3 className="text-3xl font-bold font-headline">Seat {booking.seatId}</h3>
-                    <div className="text-destructive font-bold text-2xl font-mono tracking-tight">
-                        {Math.floor(countdown / 60)}:{(Math.round(countdown) % 60).toString().padStart(2, '0')}
-                    </div>
+                    {isUpcoming ? (
+                      <div className="text-primary font-bold text-xl">
+                          Starts {startsAt.toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                      </div>
+                    ) : (
+                      <div className="text-destructive font-bold text-2xl font-mono tracking-tight">
+                          {Math.floor(countdown / 60)}:{(Math.round(countdown) % 60).toString().padStart(2, '0')}
+                      </div>
+                    )}
                      <p className="text-muted-foreground -mt-1">Booked for {booking.duration} minutes.</p>
-                     <Button onClick={downloadQRCode} className="mt-4 w-full md:w-auto">
+                     <Button onClick={downloadQRCode} className="mt-4 w-full md:w-auto" disabled={!qrToken}>
                         <Download className="mr-2 h-4 w-4" /> Download QR Code
                      </Button>
                      <p className="text-xs text-muted-foreground mt-2">
@@ -241,8 +264,35 @@ function ActiveBookingCard({ booking }: { booking: Booking }) {
 
 export function BookingHistory() {
   const { user } = useAuth();
+  const { toast } = useToast();
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [series, setSeries] = useState<BookingSeries[]>([]);
   const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setSeries([]);
+      return;
+    }
+
+    const seriesRef = ref(db, `bookingSeries/${user.uid}`);
+
+    const listener = onValue(seriesRef, (snapshot) => {
+      const data = snapshot.val() as Record<string, BookingSeries> | null;
+      setSeries(
+        Object.entries(data || {})
+          .map(([key, value]) => ({ ...value, id: key }))
+          .filter((s) => s.status === 'active')
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      );
+    }, (error) => {
+      console.error("Failed to fetch booking series:", error);
+      setSeries([]);
+    });
+
+    return () => off(seriesRef, 'value', listener);
+  }, [user]);
 
   useEffect(() => {
     if (!user) {
@@ -294,11 +344,82 @@ export function BookingHistory() {
     }
   };
 
-  const activeBooking = bookings.find(b => b.status === 'pending' || b.status === 'active');
+  const runSeriesAction = async (id: string, path: string, init: RequestInit, success: string) => {
+    setBusyId(id);
+    try {
+      const response = await authFetch(path, init);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Request failed');
+      }
+      toast({ title: success });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const skipOccurrence = (booking: Booking) =>
+    runSeriesAction(
+      booking.id,
+      `/api/bookings/series/${booking.seriesId}/skip`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookingId: booking.id }),
+      },
+      `Skipped the session on ${format(new Date(booking.startTime), 'PP')}`
+    );
+
+  const cancelSeries = (seriesId: string) =>
+    runSeriesAction(seriesId, `/api/bookings/series/${seriesId}`, { method: 'DELETE' }, 'Recurring booking cancelled');
+
+  // The booking that starts soonest, which may be an advance reservation
+  const activeBooking = bookings
+    .filter(b => isOpenBooking(b.status))
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())[0];
 
   return (
     <div className="space-y-6">
       {activeBooking && <ActiveBookingCard booking={activeBooking} />}
+
+      {series.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recurring Bookings</CardTitle>
+            <CardDescription>Skip a single session in the table below, or cancel the rest of a series here.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {series.map((s) => {
+              const upcoming = bookings.filter((b) => b.seriesId === s.id && b.status === 'pending').length;
+              return (
+                <div key={s.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border p-3">
+                  <div className="flex items-center gap-3">
+                    <Repeat className="h-4 w-4 text-primary" />
+                    <div>
+                      <p className="font-medium">
+                        Seat {s.seatId} at {format(new Date(s.startTime), 'p')} for {s.duration} mins
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {describeRecurrence(s.rule)} · {upcoming} upcoming
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cancelSeries(s.id)}
+                    disabled={busyId === s.id}
+                  >
+                    Cancel Series
+                  </Button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
       
       <Card>
         <CardHeader>
@@ -316,6 +437,7 @@ export function BookingHistory() {
                   <TableHead>Entry Time</TableHead>
                   <TableHead>Exit Time</TableHead>
                   <TableHead className="text-right">Status</TableHead>
+                  <TableHead className="w-[80px]" />
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -328,11 +450,13 @@ export function BookingHistory() {
                       <TableCell><Skeleton className="h-5 w-36" /></TableCell>
                       <TableCell><Skeleton className="h-5 w-36" /></TableCell>
                       <TableCell className="text-right"><Skeleton className="h-6 w-24 rounded-full ml-auto" /></TableCell>
+                      <TableCell />
                     </TableRow>
                   ))
                 ) : bookings.length > 0 ? (
                   bookings.map((booking) => {
                     const bookingDate = new Date(booking.bookingTime);
+                    const canSkip = !!booking.seriesId && booking.status === 'pending' && new Date(booking.startTime).getTime() > Date.now();
                     const entryDate = booking.entryTime ? new Date(booking.entryTime) : null;
                     const exitDate = booking.exitTime ? new Date(booking.exitTime) : null;
                     
@@ -349,7 +473,12 @@ export function BookingHistory() {
                     
                     return (
                     <TableRow key={booking.id}>
-                      <TableCell className="font-medium">{booking.seatId}</TableCell>
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-1">
+                          {booking.seatId}
+                          {booking.seriesId && <Repeat className="h-3 w-3 text-muted-foreground" aria-label="Recurring" />}
+                        </span>
+                      </TableCell>
                       <TableCell>{!isNaN(bookingDate.getTime()) ? format(bookingDate, "PPp") : '—'}</TableCell>
                       <TableCell>{displayDuration}</TableCell>
                       <TableCell>{entryDate && !isNaN(entryDate.getTime()) ? format(entryDate, "p") : '—'}</TableCell>
@@ -365,12 +494,19 @@ export function BookingHistory() {
                           {booking.status}
                         </Badge>
                       </TableCell>
+                      <TableCell className="text-right">
+                        {canSkip && (
+                          <Button variant="ghost" size="sm" onClick={() => skipOccurrence(booking)} disabled={busyId === booking.id}>
+                            Skip
+                          </Button>
+                        )}
+                      </TableCell>
                     </TableRow>
                     );
                   })
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={6} className="h-24 text-center">
+                    <TableCell colSpan={7} className="h-24 text-center">
                       No bookings found.
                     </TableCell>
                   </TableRow>
@@ -0,0 +1,95 @@
+"use client";
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { getPlanBoxStyle, getSeatsBoundingBox, SEAT_SIZE, sortElementsForDrawing } from '@/lib/floor-plan';
+import type { FloorPlan, FloorPlanElement } from '@/types';
+
+const elementVariants: Record<FloorPlanElement['type'], string> = {
+  zone: 'border-2 border-dashed border-primary/30 bg-primary/5 rounded-lg',
+  room: 'border-2 border-primary/50 bg-primary/10 rounded-lg',
+  table: 'border border-border bg-muted rounded-md',
+  wall: 'bg-foreground/70 rounded-sm',
+};
+
+interface FloorPlanElementShapeProps {
+  plan: FloorPlan;
+  element: FloorPlanElement;
+  className?: string;
+  onPointerDown?: (event: React.PointerEvent<HTMLDivElement>) => void;
+}
+
+/**
+ * A wall, table, zone or study room drawn at its position on the plan
+ */
+export function FloorPlanElementShape({ plan, element, className, onPointerDown }: FloorPlanElementShapeProps) {
+  return (
+    <div
+      className={cn('absolute flex items-start justify-start', elementVariants[element.type], className)}
+      style={getPlanBoxStyle(plan, element)}
+      onPointerDown={onPointerDown}
+    >
+      {element.label && (
+        <span className="px-1 text-[10px] font-medium text-muted-foreground truncate">{element.label}</span>
+      )}
+    </div>
+  );
+}
+
+export interface PlanHighlight {
+  id: string;
+  seatIds: string[];
+  label: string;
+}
+
+interface FloorPlanViewProps {
+  plan: FloorPlan;
+  renderSeat: (seatId: string) => React.ReactNode;
+  highlights?: PlanHighlight[];
+  className?: string;
+}
+
+/**
+ * Draw a floor plan scaled to its container. Zones and rooms are drawn first
+ * so seats and furniture sit on top of them; highlights outline groups of seats.
+ */
+export function FloorPlanView({ plan, renderSeat, highlights = [], className }: FloorPlanViewProps) {
+  const elements = sortElementsForDrawing(Object.values(plan.elements));
+
+  return (
+    <div
+      className={cn('relative w-full', className)}
+      style={{ aspectRatio: `${plan.width} / ${plan.height}` }}
+    >
+      {elements.map((element) => (
+        <FloorPlanElementShape key={element.id} plan={plan} element={element} />
+      ))}
+      {highlights.map((highlight) => {
+        const box = getSeatsBoundingBox(plan, highlight.seatIds);
+        return box ? (
+          <div
+            key={highlight.id}
+            className="absolute rounded-lg border-2 border-dashed border-purple-500/70 bg-purple-500/10"
+            style={getPlanBoxStyle(plan, box)}
+          >
+            <span className="absolute -top-4 left-1 whitespace-nowrap text-[10px] font-medium text-purple-600 dark:text-purple-300">
+              {highlight.label}
+            </span>
+          </div>
+        ) : null;
+      })}
+      {Object.entries(plan.seats).map(([seatId, placement]) => {
+        const seat = renderSeat(seatId);
+        return seat ? (
+          <div
+            key={seatId}
+            className="absolute"
+            style={getPlanBoxStyle(plan, { ...placement, width: SEAT_SIZE, height: SEAT_SIZE })}
+          >
+            {seat}
+          </div>
+        ) : null;
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { getFloorPlan, getRoomSeatIds, getStudyRooms } from '@/lib/floor-plan';
+import { getFloors } from '@/lib/seat-layout';
+import { UNIVERSITY_EMAIL_DOMAIN } from '@/lib/admin-config';
+import { GROUP_MAX_SIZE, GROUP_MIN_SIZE } from '@/lib/group-booking';
+import { toDateKey } from '@/lib/recurrence';
+import { FloorPlanView } from '@/components/floor-plan';
+import type { NewGroupBooking } from '@/hooks/use-group-bookings';
+import { useSeatLayout } from '@/hooks/use-seat-layout';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Users } from 'lucide-react';
+
+interface GroupBookingFormProps {
+  onCreate: (group: NewGroupBooking) => Promise<unknown>;
+}
+
+const parseEmails = (value: string) => value.split(/[\s,;]+/).map((email) => email.trim()).filter(Boolean);
+
+/**
+ * Book a block of adjacent seats or a study room and invite the group
+ */
+export function GroupBookingForm({ onCreate }: GroupBookingFormProps) {
+  const { layout } = useSeatLayout();
+  const { toast } = useToast();
+  const [floorId, setFloorId] = useState('');
+  const [mode, setMode] = useState<'seats' | 'room'>('seats');
+  const [seatIds, setSeatIds] = useState<string[]>([]);
+  const [roomId, setRoomId] = useState('');
+  const [date, setDate] = useState(() => toDateKey(new Date()));
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [emails, setEmails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const floors = layout ? getFloors(layout) : [];
+  const activeFloorId = floorId || floors[0]?.id || '';
+  const plan = useMemo(() => (layout && activeFloorId ? getFloorPlan(layout, activeFloorId) : null), [layout, activeFloorId]);
+  const rooms = plan ? getStudyRooms(plan) : [];
+  const memberEmails = parseEmails(emails);
+  const groupSize = memberEmails.length + 1;
+
+  const toggleSeat = (seatId: string) => {
+    setSeatIds((current) =>
+      current.includes(seatId) ? current.filter((id) => id !== seatId) : [...current, seatId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startTime || !endTime) {
+      toast({ variant: 'destructive', title: 'Choose a time', description: 'Pick when the group starts and ends.' });
+      return;
+    }
+
+    const [year, month, day] = date.split('-').map(Number);
+    const at = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return new Date(year, month - 1, day, hours, minutes);
+    };
+
+    setSubmitting(true);
+    try {
+      await onCreate({
+        floorId: activeFloorId,
+        ...(mode === 'room' ? { roomId } : { seatIds }),
+        startTime: at(startTime).toISOString(),
+        endTime: at(endTime).toISOString(),
+        memberEmails,
+      });
+      toast({ title: 'Group booked!', description: `Invitations sent to ${memberEmails.length} members.` });
+      setSeatIds([]);
+      setEmails('');
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Group booking failed', description: error.message });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Users className="h-5 w-5" /> Book for a Group</CardTitle>
+        <CardDescription>
+          Reserve {GROUP_MIN_SIZE}-{GROUP_MAX_SIZE} seats next to each other, or a study room. Each member accepts the
+          invitation and checks in with their own QR code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="group-floor">Floor</Label>
+              <Select
+                value={activeFloorId}
+                onValueChange={(value) => {
+                  setFloorId(value);
+                  setSeatIds([]);
+                  setRoomId('');
+                }}
+              >
+                <SelectTrigger id="group-floor">
+                  <SelectValue placeholder="Select floor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {floors.map((floor) => (
+                    <SelectItem key={floor.id} value={floor.id}>{floor.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Book</Label>
+              <Tabs value={mode} onValueChange={(value) => setMode(value as 'seats' | 'room')}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="seats">Adjacent seats</TabsTrigger>
+                  <TabsTrigger value="room" disabled={rooms.length === 0}>Study room</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+          </div>
+
+          {mode === 'room' ? (
+            <div className="space-y-2">
+              <Label htmlFor="group-room">Study room</Label>
+              <Select value={roomId} onValueChange={setRoomId}>
+                <SelectTrigger id="group-room">
+                  <SelectValue placeholder="Select a room" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>
+                      {room.label || 'Study room'} ({getRoomSeatIds(plan!, room).length} seats)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            plan && (
+              <div className="space-y-2">
+                <Label>
+                  Seats ({seatIds.length} of {groupSize} chosen; the first is yours)
+                </Label>
+                <div className="overflow-x-auto rounded-lg border bg-muted/20 p-2">
+                  <FloorPlanView
+                    plan={plan}
+                    className="min-w-[600px]"
+                    renderSeat={(seatId) => {
+                      const index = seatIds.indexOf(seatId);
+                      return (
+                        <button
+                          type="button"
+                          onClick={() => toggleSeat(seatId)}
+                          className={cn(
+                            'w-full h-full rounded-md border text-[10px] font-medium transition-colors',
+                            index >= 0 ? 'bg-purple-500 text-white border-purple-600' : 'bg-card hover:bg-muted'
+                          )}
+                        >
+                          {index === 0 ? 'You' : layout?.seats[seatId]?.label || seatId}
+                        </button>
+                      );
+                    }}
+                  />
+                </div>
+              </div>
+            )
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="group-date">Date</Label>
+              <Input id="group-date" type="date" min={toDateKey(new Date())} value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-start">Start</Label>
+              <Input id="group-start" type="time" step={1800} value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-end">End</Label>
+              <Input id="group-end" type="time" step={1800} value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="group-emails">Invite members</Label>
+            <Textarea
+              id="group-emails"
+              placeholder={`friend${UNIVERSITY_EMAIL_DOMAIN}, classmate${UNIVERSITY_EMAIL_DOMAIN}`}
+              value={emails}
+              onChange={(e) => setEmails(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {UNIVERSITY_EMAIL_DOMAIN} addresses, separated by commas or new lines. Seats held for members who haven&apos;t
+              accepted are released when the booking starts.
+            </p>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={submitting || !activeFloorId || (mode === 'room' ? !roomId : seatIds.length === 0)}>
+            {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Users className="mr-2 h-4 w-4" />}
+            Book for {groupSize} people
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { normalizeEmail } from '@/lib/group-booking';
+import type { GroupBooking, GroupMember } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+
+interface GroupBookingsListProps {
+  groups: GroupBooking[];
+  loading: boolean;
+  userId: string;
+  email: string;
+  onRespond: (groupId: string, accept: boolean) => Promise<void>;
+  onCancel: (groupId: string) => Promise<void>;
+}
+
+// What to show for a member: their booking's progress once they've accepted
+const getMemberLabel = (member: GroupMember): string => {
+  if (member.status !== 'accepted') {
+    return member.status;
+  }
+  switch (member.bookingStatus) {
+    case 'active':
+      return 'checked in';
+    case 'completed':
+      return 'attended';
+    case 'no-show':
+    case 'expired':
+      return 'no-show';
+    case 'cancelled':
+      return 'left';
+    default:
+      return 'accepted';
+  }
+};
+
+/**
+ * The student's group bookings, with invitations to answer
+ */
+export function GroupBookingsList({ groups, loading, userId, email, onRespond, onCancel }: GroupBookingsListProps) {
+  const { toast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = async (groupId: string, action: () => Promise<void>, success: string) => {
+    setBusyId(groupId);
+    try {
+      await action();
+      toast({ title: success });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (groups.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          No group bookings yet.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => {
+        const me = group.members.find((member) => member.email === normalizeEmail(email));
+        const isOrganiser = group.organiserId === userId;
+        const isOver = new Date(group.endTime).getTime() <= Date.now();
+        const start = new Date(group.startTime);
+
+        return (
+          <Card key={group.id}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle className="text-lg">
+                  {group.roomName || `Seats ${group.members.map((member) => member.seatId).join(', ')}`}
+                </CardTitle>
+                <CardDescription>
+                  {format(start, 'PPP')}, {format(start, 'p')} – {format(new Date(group.endTime), 'p')} · organised by{' '}
+                  {isOrganiser ? 'you' : group.organiserName}
+                </CardDescription>
+              </div>
+              <Badge variant={group.status === 'cancelled' ? 'destructive' : isOver ? 'outline' : 'secondary'} className="capitalize">
+                {group.status === 'cancelled' ? 'cancelled' : isOver ? 'ended' : 'upcoming'}
+              </Badge>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-2 sm:grid-cols-2">
+                {group.members.map((member) => (
+                  <div key={member.email} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                    <span className="truncate">
+                      <span className="font-medium">{member.seatId}</span> · {member.userName || member.email}
+                    </span>
+                    <Badge variant="outline" className="capitalize shrink-0">{getMemberLabel(member)}</Badge>
+                  </div>
+                ))}
+              </div>
+
+              {group.status === 'active' && !isOver && (
+                <div className="flex flex-wrap gap-2">
+                  {me?.status === 'invited' && (
+                    <>
+                      <Button
+                        size="sm"
+                        disabled={busyId === group.id}
+                        onClick={() => run(group.id, () => onRespond(group.id, true), `Seat ${me.seatId} booked`)}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === group.id}
+                        onClick={() => run(group.id, () => onRespond(group.id, false), 'Invitation declined')}
+                      >
+                        Decline
+                      </Button>
+                    </>
+                  )}
+                  {isOrganiser && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={busyId === group.id}
+                      onClick={() => run(group.id, () => onCancel(group.id), 'Group booking cancelled')}
+                    >
+                      Cancel Group Booking
+                    </Button>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getDaySchedules, getOpenPeriods } from '@/lib/opening-hours';
+import { loadLibrarySettings } from '@/services/library-settings';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import type { DaySchedule } from '@/types';
+
+// Four weeks ahead
+const DAYS_SHOWN = 28;
+
+/**
+ * When the library is open over the coming weeks, with exam season, events
+ * and holidays marked
+ */
+export function OpeningHoursCalendar() {
+  const [days, setDays] = useState<DaySchedule[] | null>(null);
+  const [configured, setConfigured] = useState(true);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      const settings = await loadLibrarySettings();
+      setConfigured(!!settings);
+      setDays(settings ? getDaySchedules(settings, new Date(), DAYS_SHOWN) : []);
+    };
+
+    fetchSchedule();
+  }, []);
+
+  if (!days) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  if (!configured) {
+    return <p className="text-muted-foreground">Opening hours haven&apos;t been published yet.</p>;
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+      {days.map((day) => {
+        const periods = getOpenPeriods(day);
+        const isSpecial = day.specialHours.length > 0 || !!day.holiday;
+
+        return (
+          <Card key={day.date} className={cn(isSpecial && 'border-primary')}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">
+                {new Date(`${day.date}T12:00:00`).toLocaleDateString('en-US', {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                })}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {periods.length === 0 ? (
+                <p className="font-medium text-destructive">Closed</p>
+              ) : (
+                periods.map((period) => (
+                  <p key={period.start} className="font-medium">
+                    {period.start === '00:00' && period.end === '24:00' ? 'Open 24 hours' : `${period.start} – ${period.end}`}
+                  </p>
+                ))
+              )}
+              {day.closures.filter((closure) => closure.reason).map((closure) => (
+                <p key={`${closure.start}-${closure.end}`} className="text-xs text-muted-foreground">
+                  Closed {closure.start}–{closure.end}: {closure.reason}
+                </p>
+              ))}
+              <div className="flex flex-wrap gap-1">
+                {day.holiday && <Badge variant="destructive">{day.holiday}</Badge>}
+                {day.specialHours.map((name) => (
+                  <Badge key={name} variant="secondary">{name}</Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { ref, onValue, off } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { getPenaltyPolicy, getPenaltyStatus } from '@/lib/penalties';
+import { loadLibrarySettings } from '@/services/library-settings';
+import type { LibrarySettings, UserPenalties } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, Ban } from 'lucide-react';
+
+interface PenaltyNoticeProps {
+  userId: string;
+}
+
+/**
+ * Tells the student about their strikes: a ban in force, or how close they
+ * are to one and any limit on how long they can book
+ */
+export function PenaltyNotice({ userId }: PenaltyNoticeProps) {
+  const [penalties, setPenalties] = useState<UserPenalties | null>(null);
+  const [settings, setSettings] = useState<LibrarySettings | null>(null);
+
+  useEffect(() => {
+    loadLibrarySettings().then(setSettings);
+  }, []);
+
+  useEffect(() => {
+    const penaltiesRef = ref(db, `penalties/${userId}`);
+    const listener = onValue(penaltiesRef, (snapshot) => {
+      setPenalties(snapshot.exists() ? snapshot.val() : null);
+    });
+
+    return () => off(penaltiesRef, 'value', listener);
+  }, [userId]);
+
+  const policy = getPenaltyPolicy(settings);
+  const status = getPenaltyStatus(penalties, policy, new Date());
+
+  if (status.bannedUntil) {
+    return (
+      <Alert variant="destructive">
+        <Ban className="h-4 w-4" />
+        <AlertTitle>Booking suspended</AlertTitle>
+        <AlertDescription>
+          After repeated no-shows or overstays you can't book seats until{' '}
+          {new Date(status.bannedUntil).toLocaleString()}. Contact library staff if you think this is a mistake.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status.activeStrikes === 0) {
+    return null;
+  }
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        You have {status.activeStrikes} active {status.activeStrikes === 1 ? 'strike' : 'strikes'}
+      </AlertTitle>
+      <AlertDescription>
+        Strikes are given for no-shows and overstays and expire after {policy.strikeLifetimeDays} days.{' '}
+        {policy.banThreshold} strikes within {policy.banWindowDays} days means a {policy.banDays}-day booking ban.
+        {status.maxDuration !== null && ` Until your strikes expire, bookings are limited to ${status.maxDuration} minutes.`}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -3,24 +3,31 @@
 
 import { createContext, useContext, useEffect, useState } from "react";
 import { onAuthStateChanged, signOut, type User } from "firebase/auth";
-import { ref, set, get } from "firebase/database";
+import { ref, set, get, update } from "firebase/database";
 import { auth, db } from "@/lib/firebase";
+import { hasPermission, resolveUserRole, type Permission } from "@/lib/permissions";
+import type { UserRole } from "@/types";
 import { useRouter } from "next/navigation";
 
 interface AuthContextType {
   user: User | null;
+  role: UserRole;
   loading: boolean;
   logout: () => void;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  role: 'user',
   loading: true,
   logout: () => {},
+  can: () => false,
 });
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<UserRole>('user');
   const [loading, setLoading] = useState(true);
   const router = useRouter();
 
@@ -34,10 +41,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setUser(user);
+      setRole(resolveUserRole(null, user?.emailVerified ? user.email : null));
       
       // Automatically sync user to Realtime Database
       if (user) {
         try {
+          // Roles are kept at roles/{uid}, which only the server writes
+          const roleSnapshot = await get(ref(db, `roles/${user.uid}`));
+          setRole(resolveUserRole(roleSnapshot.val(), user.emailVerified ? user.email : null));
+
           const userRef = ref(db, `users/${user.uid}`);
           const snapshot = await get(userRef);
           
@@ -53,9 +65,6 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                 totalHours: 0,
                 noShows: 0,
               },
-              restrictions: {
-                isFlagged: false,
-              },
             };
             
             // Only add photoURL if it exists (not null/undefined)
@@ -68,8 +77,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             // Update email/displayName if changed
             const userData = snapshot.val();
             if (userData.email !== user.email || userData.displayName !== user.displayName) {
+              // Only the sign-in details are written; the rest of the profile is left alone
               const updatedData: any = {
-                ...userData,
                 email: user.email || userData.email,
                 displayName: user.displayName || user.email?.split('@')[0] || userData.displayName,
               };
@@ -77,12 +86,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
               // Only update photoURL if it exists
               if (user.photoURL) {
                 updatedData.photoURL = user.photoURL;
-              } else if (userData.photoURL === undefined) {
-                // Remove undefined photoURL from existing data
-                delete updatedData.photoURL;
               }
               
-              await set(userRef, updatedData);
+              await update(userRef, updatedData);
             }
           }
         } catch (error) {
@@ -114,7 +120,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, logout }}>
+    <AuthContext.Provider
+      value={{ user, role, loading, logout, can: (permission) => hasPermission(role, permission) }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -2,8 +2,7 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Html5Qrcode } from 'html5-qrcode';
-import { ref, update, get } from 'firebase/database';
-import { db } from '@/lib/firebase';
+import type { Booking, ScanMode, ScanResult } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import {
   Card,
@@ -15,17 +14,32 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { LogIn, LogOut, Camera, CameraOff, Loader2, Upload } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { LogIn, LogOut, Camera, CameraOff, Loader2, Upload, CheckCircle2, XCircle } from 'lucide-react';
+import { authFetch } from '@/lib/auth-fetch';
 import { cn } from '@/lib/utils';
 import jsQR from 'jsqr';
 
-type ScanMode = 'entry' | 'exit';
+// Short labels for why a scan was rejected
+const REJECTION_LABELS: Record<string, string> = {
+  malformed: 'Invalid QR',
+  'bad-signature': 'Tampered',
+  expired: 'Expired',
+  'not-yet-valid': 'Too early',
+  'not-found': 'Unknown booking',
+  'wrong-seat': 'Wrong seat',
+  replayed: 'Already used',
+  revoked: 'Revoked',
+  'not-checked-in': 'Not checked in',
+  'seat-taken': 'Seat taken',
+};
 
 export function QrScanner() {
   const [mode, setMode] = useState<ScanMode>('entry');
   const [isScanning, setIsScanning] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastScan, setLastScan] = useState<string>('');
+  const [lastResult, setLastResult] = useState<ScanResult | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -40,69 +54,37 @@ export function QrScanner() {
     setIsProcessing(true);
 
     try {
-      const { bookingId, userId, seatId } = JSON.parse(decodedText);
+      // The server verifies the signed token and applies the check-in/out
+      const response = await authFetch('/api/scanner/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: decodedText, mode }),
+      });
+
+      const data = await response.json();
 
-      if (!bookingId || !userId || !seatId) {
-        throw new Error("Invalid QR Code");
+      if (!response.ok) {
+        setLastResult({
+          success: false,
+          reason: data.reason,
+          message: data.message || data.error || 'Failed to verify QR code.',
+        });
+        throw new Error(data.message || data.error || 'Failed to verify QR code.');
       }
-      
-      const floor = seatId.charAt(0).toLowerCase() === 'g' ? 'ground' : 
-                    seatId.charAt(0).toLowerCase() === 'f' ? 'first' : 
-                    seatId.charAt(0).toLowerCase() === 's' ? 'second' : 'third';
-      const seatRefPath = `seats/${floor}/${seatId}`;
-      const bookingRefPath = `bookings/${userId}/${bookingId}`;
 
-      const updates: { [key: string]: any } = {};
-      const now = new Date();
+      const booking = data.booking as Booking;
+      setLastResult({ success: true, booking, message: data.message });
 
       if (mode === 'entry') {
-        const bookingRef = ref(db, bookingRefPath);
-        const bookingSnapshot = await get(bookingRef);
-        
-        if (!bookingSnapshot.exists()) {
-          throw new Error("Booking not found.");
-        }
-        
-        const bookingData = bookingSnapshot.val();
-
-        if (bookingData.status !== 'booked') {
-          throw new Error(`Cannot check in. Booking is ${bookingData.status}.`);
-        }
-
-        const duration = bookingData.duration;
-        if (!duration) {
-          throw new Error("Invalid booking duration.");
-        }
-        
-        const expiryTimestamp = now.getTime() + duration * 60 * 1000;
-
-        updates[`${seatRefPath}/status`] = 'occupied';
-        updates[`${seatRefPath}/occupiedUntil`] = expiryTimestamp;
-        updates[`${bookingRefPath}/status`] = 'occupied';
-        updates[`${bookingRefPath}/entryTime`] = now.toISOString();
-
-        await update(ref(db), updates);
-
         toast({ 
           title: '✅ Check-in Successful', 
-          description: `Seat ${seatId} occupied until ${new Date(expiryTimestamp).toLocaleTimeString()}.`,
+          description: `Seat ${booking.seatId} occupied until ${new Date(booking.endTime).toLocaleTimeString()}.`,
           duration: 3000,
         });
-
       } else {
-        updates[`${seatRefPath}/status`] = 'available';
-        updates[`${seatRefPath}/bookedBy`] = null;
-        updates[`${seatRefPath}/bookedAt`] = null;
-        updates[`${seatRefPath}/bookingId`] = null;
-        updates[`${seatRefPath}/occupiedUntil`] = null;
-        updates[`${bookingRefPath}/status`] = 'completed';
-        updates[`${bookingRefPath}/exitTime`] = now.toISOString();
-
-        await update(ref(db), updates);
-
         toast({ 
           title: '✅ Check-out Successful', 
-          description: `Seat ${seatId} is now available.`,
+          description: `Seat ${booking.seatId} is now available.`,
           duration: 3000,
         });
       }
@@ -303,6 +285,24 @@ export function QrScanner() {
           )}
         </div>
 
+        {/* Last Scan Result */}
+        {lastResult && (
+          <Alert variant={lastResult.success ? 'default' : 'destructive'}>
+            {lastResult.success ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            <AlertTitle className="flex items-center gap-2">
+              {lastResult.success ? 'Accepted' : 'Rejected'}
+              {lastResult.reason && (
+                <Badge variant="outline">{REJECTION_LABELS[lastResult.reason] || lastResult.reason}</Badge>
+              )}
+            </AlertTitle>
+            <AlertDescription>
+              {lastResult.success && lastResult.booking
+                ? `${lastResult.message} — seat ${lastResult.booking.seatId}, ${lastResult.booking.userName}`
+                : lastResult.message}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Control Buttons */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
           <Button
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { ref, onValue, off } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { canAppealRestriction, isRestrictionActive, SEVERITY_LABELS } from '@/lib/restrictions';
+import { useAppeals } from '@/hooks/use-appeals';
+import { useToast } from '@/hooks/use-toast';
+import type { UserRestrictions } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, ShieldAlert } from 'lucide-react';
+
+interface RestrictionNoticeProps {
+  userId: string;
+}
+
+// How long an accepted appeal stays on the dashboard
+const ACCEPTED_NOTICE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Tells a flagged student why and for how long, and lets them appeal
+ */
+export function RestrictionNotice({ userId }: RestrictionNoticeProps) {
+  const { toast } = useToast();
+  const [restrictions, setRestrictions] = useState<UserRestrictions | null>(null);
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { appeals, submit, refresh } = useAppeals(true);
+
+  useEffect(() => {
+    const restrictionsRef = ref(db, `restrictions/${userId}`);
+    const listener = onValue(restrictionsRef, (snapshot) => {
+      setRestrictions(snapshot.exists() ? snapshot.val() : null);
+      refresh();
+    });
+
+    return () => off(restrictionsRef, 'value', listener);
+  }, [userId, refresh]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await submit(message);
+      setMessage('');
+      toast({ title: 'Appeal submitted', description: 'Library staff will review it and reply here.' });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const now = new Date();
+  const latest = appeals[0];
+
+  if (!isRestrictionActive(restrictions, now)) {
+    if (latest?.status === 'accepted' && now.getTime() - new Date(latest.reviewedAt!).getTime() < ACCEPTED_NOTICE_MS) {
+      return (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>Your appeal was accepted</AlertTitle>
+          <AlertDescription>{latest.reply}</AlertDescription>
+        </Alert>
+      );
+    }
+    return null;
+  }
+
+  const appeal = appeals.find((a) => a.id === restrictions!.appealId);
+
+  return (
+    <Alert variant="destructive">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>
+        {restrictions!.expiresAt
+          ? `Booking suspended until ${new Date(restrictions!.expiresAt).toLocaleString()}`
+          : 'Booking privileges restricted'}
+        {restrictions!.severity && ` · ${SEVERITY_LABELS[restrictions!.severity]}`}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        {restrictions!.reason && <p>Reason: {restrictions!.reason}</p>}
+
+        {appeal?.status === 'pending' && <p>Your appeal is waiting for review by library staff.</p>}
+        {appeal?.status === 'rejected' && <p>Your appeal was rejected: {appeal.reply}</p>}
+
+        {canAppealRestriction(restrictions, now) && (
+          <div className="space-y-2">
+            <Textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Think this is a mistake? Explain why and staff will review it."
+              className="text-foreground"
+            />
+            <Button size="sm" onClick={handleSubmit} disabled={submitting || !message.trim()}>
+              {submitting ? 'Submitting...' : 'Submit Appeal'}
+            </Button>
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -2,17 +2,40 @@
 "use client";
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { ref, onValue, off, set, update, query, orderByChild, equalTo } from 'firebase/database';
+import { ref, onValue, off } from 'firebase/database';
 import { auth, db } from '@/lib/firebase';
+import { authFetch } from '@/lib/auth-fetch';
+import { cn } from '@/lib/utils';
 import { Seat } from '@/components/seat';
-import type { Seat as SeatType, Booking } from '@/types';
+import { FloorPlanView, type PlanHighlight } from '@/components/floor-plan';
+import { WaitlistPanel } from '@/components/waitlist-panel';
+import { isOpenBooking } from '@/lib/booking-status';
+import { getNextReservation } from '@/lib/seat-timeline';
+import { filterSeats, getFloors, getFloorSeatStates, getSeatsWithoutState } from '@/lib/seat-layout';
+import { getFloorPlan } from '@/lib/floor-plan';
+import { SEAT_ATTRIBUTES, SEAT_ATTRIBUTE_LABELS } from '@/lib/seat-attributes';
+import { describeWaitlistTarget, isHeldForOthers } from '@/lib/waitlist';
+import { syncSeatStates } from '@/services/seat-layout';
+import { useSeatLayout } from '@/hooks/use-seat-layout';
+import { useWaitlist } from '@/hooks/use-waitlist';
+import { useGroupBlocks } from '@/hooks/use-group-bookings';
+import type { Seat as SeatType, SeatAttribute, SeatStatus, Booking, LayoutSeat, WaitlistTarget } from '@/types';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useAuth } from '@/components/providers/auth-provider';
+import { Button } from '@/components/ui/button';
+import { Accessibility, ArrowRightLeft, Monitor, Plug, Sun, VolumeX } from 'lucide-react';
 
-const FLOORS = ["Ground", "First", "Second", "Third"];
-const SEATS_PER_FLOOR = 50;
+const SKELETON_SEATS = 50;
+
+const ATTRIBUTE_ICONS: Record<SeatAttribute, React.ComponentType<{ className?: string }>> = {
+  power: Plug,
+  window: Sun,
+  quiet: VolumeX,
+  accessible: Accessibility,
+  desktop: Monitor,
+};
 
 export function SeatMap() {
   const [seats, setSeats] = useState<Record<string, Record<string, SeatType>>>({});
@@ -20,33 +43,46 @@ export function SeatMap() {
   const [activeBooking, setActiveBooking] = useState<Booking | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showAvailableOnly, setShowAvailableOnly] = useState(false);
+  const [requiredAttributes, setRequiredAttributes] = useState<SeatAttribute[]>([]);
+  const [moving, setMoving] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { layout } = useSeatLayout();
+  const floors = layout ? getFloors(layout) : [];
+
+  // Reload the waitlist whenever a seat is offered to (or taken from) this student
+  const heldSeatKey = Object.values(seats)
+    .flatMap((floorSeats) => Object.values(floorSeats || {}))
+    .filter((seat) => seat.waitlistHold?.userId === user?.uid)
+    .map((seat) => `${seat.id}:${seat.waitlistHold!.entryId}`)
+    .join(',');
+  const { entries: waitlistEntries, join: joinWaitlist, leave: leaveWaitlist } = useWaitlist(!!user, heldSeatKey);
+  const groupBlocks = useGroupBlocks(!!user, activeBooking?.id);
+
+  // Outline groups sitting on a floor now or later today
+  const getGroupHighlights = (floorId: string): PlanHighlight[] => {
+    const now = new Date();
+    const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+    return groupBlocks
+      .filter((block) => block.floorId === floorId && new Date(block.startTime) < endOfDay && new Date(block.endTime) > now)
+      .map((block) => ({
+        id: block.groupId,
+        seatIds: block.seatIds,
+        label: `${block.label} · ${formatTime(block.startTime)}–${formatTime(block.endTime)}`,
+      }));
+  };
   
   const initializeSeats = useCallback(async () => {
+    if (!layout) return;
     try {
-      const seatStructure: Record<string, Record<string, any>> = {};
-      FLOORS.forEach(floor => {
-        const floorKey = floor.toLowerCase();
-        seatStructure[floorKey] = {};
-        for (let i = 1; i <= SEATS_PER_FLOOR; i++) {
-          const seatId = `${floor.charAt(0).toUpperCase()}${i.toString().padStart(2, '0')}`;
-          seatStructure[floorKey][seatId] = {
-            id: seatId,
-            status: 'available',
-            bookedBy: null,
-            bookedAt: null,
-            bookingId: null,
-            occupiedUntil: null,
-          };
-        }
-      });
-      await set(ref(db, 'seats'), seatStructure);
+      await syncSeatStates(layout);
       toast({ title: "Success", description: "Seat map has been initialized for the first time." });
     } catch (error: any) {
       toast({ variant: 'destructive', title: "Database Error", description: `Failed to initialize seats: ${error.message}` });
     }
-  }, [toast]);
+  }, [layout, toast]);
 
   // Listen for user's active booking
   useEffect(() => {
@@ -55,19 +91,18 @@ export function SeatMap() {
       return;
     }
 
-    const activeBookingQuery = query(ref(db, `bookings/${user.uid}`), orderByChild('status'), equalTo('booked'));
+    const userBookingsRef = ref(db, `bookings/${user.uid}`);
     
-    const listener = onValue(activeBookingQuery, (snapshot) => {
-      if (snapshot.exists()) {
-        const data = snapshot.val();
-        const [bookingId, bookingData] = Object.entries(data)[0];
-        setActiveBooking({ id: bookingId, ...(bookingData as any) });
-      } else {
-        setActiveBooking(null);
-      }
+    const listener = onValue(userBookingsRef, (snapshot) => {
+      const data = (snapshot.val() || {}) as Record<string, Booking>;
+      // Advance reservations that haven't started don't block booking now
+      const open = Object.entries(data).find(
+        ([, booking]) => isOpenBooking(booking.status) && new Date(booking.startTime).getTime() <= Date.now()
+      );
+      setActiveBooking(open ? { ...open[1], id: open[0] } : null);
     });
 
-    return () => off(activeBookingQuery, 'value', listener);
+    return () => off(userBookingsRef, 'value', listener);
   }, [user]);
 
   useEffect(() => {
@@ -75,87 +110,21 @@ export function SeatMap() {
       setLoading(false);
       return;
     }
+    if (!layout) {
+      return;
+    }
 
     const seatsRef = ref(db, 'seats');
     const listener = onValue(seatsRef, (snapshot) => {
       const data = snapshot.val();
 
-      // Core expiry logic: any user loading the map cleans up expired seats.
-      if (data) {
-        const updates: {[key: string]: any} = {};
-        const now = Date.now();
-        const BOOKING_EXPIRY_MS = 150 * 1000; // 2.5 minutes for pre-booking
-
-        Object.entries(data as Record<string, Record<string, SeatType>>).forEach(([floor, seatsOnFloor]) => {
-          Object.entries(seatsOnFloor).forEach(([seatId, seatData]) => {
-            const seatPath = `seats/${floor}/${seatId}`;
-
-            // Case 1: Handle 'reserved' seats that were not confirmed in time
-            if (seatData.status === 'reserved') {
-              // If bookedAt is missing or invalid, free the seat immediately
-              if (!seatData.bookedAt || !seatData.bookedBy || !seatData.bookingId) {
-                updates[`${seatPath}/status`] = 'available';
-                updates[`${seatPath}/bookedBy`] = null;
-                updates[`${seatPath}/bookedAt`] = null;
-                updates[`${seatPath}/bookingId`] = null;
-                updates[`${seatPath}/occupiedUntil`] = null;
-              } else if ((now - seatData.bookedAt) > BOOKING_EXPIRY_MS) {
-                // Booking expired
-                updates[`${seatPath}/status`] = 'available';
-                updates[`${seatPath}/bookedBy`] = null;
-                updates[`${seatPath}/bookedAt`] = null;
-                updates[`${seatPath}/bookingId`] = null;
-                updates[`${seatPath}/occupiedUntil`] = null;
-
-                // Only try to update booking if it's the current user's booking
-                if (seatData.bookedBy === user?.uid) {
-                  const bookingPath = `bookings/${seatData.bookedBy}/${seatData.bookingId}`;
-                  updates[`${bookingPath}/status`] = 'expired';
-                }
-              }
-            }
-
-            // Case 2: Handle 'occupied' seats where the user has overstayed
-            if (seatData.status === 'occupied') {
-              // If occupiedUntil is missing or invalid, free the seat after 24 hours from bookedAt
-              if (!seatData.occupiedUntil) {
-                const maxOccupiedTime = seatData.bookedAt ? seatData.bookedAt + (24 * 60 * 60 * 1000) : now;
-                if (now > maxOccupiedTime) {
-                  updates[`${seatPath}/status`] = 'available';
-                  updates[`${seatPath}/bookedBy`] = null;
-                  updates[`${seatPath}/bookedAt`] = null;
-                  updates[`${seatPath}/bookingId`] = null;
-                  updates[`${seatPath}/occupiedUntil`] = null;
-                }
-              } else if (now > seatData.occupiedUntil) {
-                // Normal expiry
-                updates[`${seatPath}/status`] = 'available';
-                updates[`${seatPath}/bookedBy`] = null;
-                updates[`${seatPath}/bookedAt`] = null;
-                updates[`${seatPath}/bookingId`] = null;
-                updates[`${seatPath}/occupiedUntil`] = null;
-
-                // Only try to update booking if it's the current user's booking
-                if (seatData.bookedBy === user?.uid && seatData.bookingId) {
-                  const bookingPath = `bookings/${seatData.bookedBy}/${seatData.bookingId}`;
-                  updates[`${bookingPath}/status`] = 'completed';
-                  updates[`${bookingPath}/exitTime`] = new Date(seatData.occupiedUntil).toISOString();
-                }
-              }
-            }
-          });
-        });
-
-        if (Object.keys(updates).length > 0) {
-          update(ref(db), updates).catch(error => {
-            console.error("Failed to update seats:", error);
-          });
-        }
-      }
-      
-      // Standard rendering logic
+      // Expired and overstayed seats are freed server-side by the booking sweeper
       if (data) {
         setSeats(data);
+        // Seats added to the layout get their live state the first time they're shown
+        if (getSeatsWithoutState(layout, data).length > 0) {
+          syncSeatStates(layout).catch((error) => console.error('Failed to add new seats:', error));
+        }
       } else {
         // No seats found, initializing
         initializeSeats();
@@ -174,31 +143,88 @@ export function SeatMap() {
     });
 
     return () => off(seatsRef, 'value', listener);
-  }, [initializeSeats, toast, user]);
-
-  const getSeatCounts = (floor: string) => {
-    const floorSeats = seats[floor.toLowerCase()] || {};
-    const counts = { available: 0, reserved: 0, occupied: 0, maintenance: 0, 'out-of-service': 0 };
-    Object.values(floorSeats).forEach((seat) => {
-      if (seat.status in counts) {
-        counts[seat.status as keyof typeof counts]++;
+  }, [initializeSeats, layout, toast, user]);
+
+  // Layout seats paired with their live state, in layout order
+  const getSeatsOnFloor = (floorId: string): Array<[LayoutSeat, SeatType]> => {
+    return layout ? getFloorSeatStates(layout, seats, floorId) : [];
+  };
+
+  // Seats held for another student on the waitlist are shown as reserved
+  const getDisplayStatus = (seat: SeatType): SeatStatus => {
+    return seat.status === 'available' && isHeldForOthers(seat, user?.uid, new Date()) ? 'reserved' : seat.status;
+  };
+
+  const getSeatCounts = (floorId: string) => {
+    const counts = { total: 0, available: 0, reserved: 0, occupied: 0, maintenance: 0, 'out-of-service': 0 };
+    getSeatsOnFloor(floorId).forEach(([, seat]) => {
+      const status = getDisplayStatus(seat);
+      counts.total++;
+      if (status in counts) {
+        counts[status as keyof typeof counts]++;
       }
     });
     return counts;
   };
 
-  const filterSeats = (floorSeats: Record<string, SeatType>) => {
-    return Object.entries(floorSeats).filter(([seatId, seatData]) => {
-      // Search filter
-      if (searchTerm && !seatId.toLowerCase().includes(searchTerm.toLowerCase())) {
-        return false;
-      }
-      // Availability filter
-      if (showAvailableOnly && seatData.status !== 'available') {
-        return false;
+  // Search by seat number, then the availability and feature filters
+  const filterFloorSeats = (floorSeats: Array<[LayoutSeat, SeatType]>) => {
+    const query = searchTerm.toLowerCase();
+    const matching = floorSeats.filter(
+      ([layoutSeat]) => !query || layoutSeat.id.toLowerCase().includes(query) || layoutSeat.label.toLowerCase().includes(query)
+    );
+    return filterSeats(matching, { attributes: requiredAttributes, availableOnly: showAvailableOnly }, user?.uid ?? null, new Date());
+  };
+
+  const toggleAttribute = (attribute: SeatAttribute) => {
+    setRequiredAttributes((current) =>
+      current.includes(attribute) ? current.filter((value) => value !== attribute) : [...current, attribute]
+    );
+  };
+
+  const handleJoinWaitlist = async (target: WaitlistTarget) => {
+    try {
+      await joinWaitlist(target);
+      toast({ title: "Added to the waitlist", description: `We'll hold the next free seat for you: ${describeWaitlistTarget(target, layout).toLowerCase()}.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: "Could not join the waitlist", description: error.message });
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    try {
+      await leaveWaitlist(entryId);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: "Error", description: error.message });
+    }
+  };
+
+  // Move the booking to another seat; the map updates as the seats change
+  const handleMoveHere = async (seatId: string) => {
+    if (!activeBooking) return;
+    setMoving(false);
+    try {
+      const response = await authFetch(`/api/bookings/${activeBooking.id}/move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ seatId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to move seat');
       }
-      return true;
-    });
+      toast({ title: "Seat changed", description: `${data.message}. Your QR code still works.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: "Could not move", description: error.message });
+    }
+  };
+
+  const canMove = !!activeBooking && !activeBooking.currentBreakId;
+
+  const clearFilters = () => {
+    setSearchTerm('');
+    setShowAvailableOnly(false);
+    setRequiredAttributes([]);
   };
 
   return (
@@ -226,12 +252,9 @@ export function SeatMap() {
             Show available only
           </label>
         </div>
-        {(searchTerm || showAvailableOnly) && (
+        {(searchTerm || showAvailableOnly || requiredAttributes.length > 0) && (
           <button
-            onClick={() => {
-              setSearchTerm('');
-              setShowAvailableOnly(false);
-            }}
+            onClick={clearFilters}
             className="text-sm text-primary hover:underline"
           >
             Clear filters
@@ -239,21 +262,60 @@ export function SeatMap() {
         )}
       </div>
 
-      <Tabs defaultValue="ground" className="w-full">
+      <WaitlistPanel entries={waitlistEntries} layout={layout} onLeave={handleLeaveWaitlist} />
+
+      {canMove && (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-3 rounded-lg border p-4">
+          <p className="text-sm text-muted-foreground">
+            {moving
+              ? 'Pick a free seat to move to. You keep your booking times and QR code.'
+              : `You're booked on seat ${activeBooking!.seatId}.`}
+          </p>
+          <Button size="sm" variant={moving ? 'ghost' : 'outline'} onClick={() => setMoving(!moving)}>
+            <ArrowRightLeft className="mr-2 h-4 w-4" />
+            {moving ? 'Cancel move' : 'Move to another seat'}
+          </Button>
+        </div>
+      )}
+
+      {/* Seat feature filters */}
+      <div className="flex flex-wrap justify-center gap-2">
+        {SEAT_ATTRIBUTES.map((attribute) => {
+          const Icon = ATTRIBUTE_ICONS[attribute];
+          const selected = requiredAttributes.includes(attribute);
+          return (
+            <button
+              key={attribute}
+              type="button"
+              aria-pressed={selected}
+              onClick={() => toggleAttribute(attribute)}
+              className={cn(
+                'flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors',
+                selected ? 'bg-primary text-primary-foreground border-primary' : 'bg-card hover:bg-muted'
+              )}
+            >
+              <Icon className="h-4 w-4" />
+              {SEAT_ATTRIBUTE_LABELS[attribute]}
+            </button>
+          );
+        })}
+      </div>
+
+      <Tabs key={floors[0]?.id} defaultValue={floors[0]?.id} className="w-full">
         <div className="flex justify-center items-center mb-6">
-          <TabsList className="grid w-full max-w-2xl grid-cols-2 sm:grid-cols-4 h-auto">
-            {FLOORS.map(floor => {
-              const counts = loading ? null : getSeatCounts(floor);
+          <TabsList className="flex flex-wrap w-full max-w-2xl h-auto">
+            {floors.map(floor => {
+              const counts = loading ? null : getSeatCounts(floor.id);
               return (
                 <TabsTrigger 
-                  key={floor} 
-                  value={floor.toLowerCase()} 
-                  className="flex flex-col gap-1 py-3 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                  key={floor.id} 
+                  value={floor.id} 
+                  className="flex-1 flex flex-col gap-1 py-3 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
                 >
-                  <span className="font-semibold text-sm sm:text-base">{floor}</span>
+                  <span className="font-semibold text-sm sm:text-base">{floor.name}</span>
                   {counts && (
                     <span className="text-xs opacity-80">
-                      {counts.available}/{SEATS_PER_FLOOR}
+                      {counts.available}/{counts.total}
                     </span>
                   )}
                 </TabsTrigger>
@@ -262,30 +324,50 @@ export function SeatMap() {
           </TabsList>
         </div>
         
-        {loading ? (
+        {loading || !layout ? (
           <div className="bg-card rounded-lg border p-4">
             <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 lg:grid-cols-10 gap-2 sm:gap-3">
-              {Array.from({ length: SEATS_PER_FLOOR }).map((_, i) => (
+              {Array.from({ length: SKELETON_SEATS }).map((_, i) => (
                 <Skeleton key={i} className="aspect-square rounded-lg" />
               ))}
             </div>
           </div>
         ) : (
-          FLOORS.map(floor => (
-            <TabsContent key={floor} value={floor.toLowerCase()} className="mt-0">
+          floors.map(floor => (
+            <TabsContent key={floor.id} value={floor.id} className="mt-0">
               <div className="bg-card rounded-lg border p-3 sm:p-4 md:p-6">
                 {(() => {
-                  const filteredSeats = filterSeats(seats[floor.toLowerCase()] || {});
+                  const filteredSeats = filterFloorSeats(getSeatsOnFloor(floor.id));
+
+                  // Nothing free on this floor (with the chosen features): offer the waitlist
+                  const hasFreeSeat = filterSeats(
+                    getSeatsOnFloor(floor.id),
+                    { attributes: requiredAttributes, availableOnly: true },
+                    user?.uid ?? null,
+                    new Date()
+                  ).length > 0;
+                  const waitlistTarget: WaitlistTarget = {
+                    floorId: floor.id,
+                    ...(requiredAttributes.length > 0 ? { attributes: requiredAttributes } : {}),
+                  };
+                  const waitlistPrompt = user && !activeBooking && !hasFreeSeat && (
+                    <div className="flex flex-col sm:flex-row items-center justify-between gap-3 rounded-lg border border-dashed p-4 mb-4">
+                      <p className="text-sm text-muted-foreground">
+                        No free seats right now. Join the waitlist and we&apos;ll hold the next one for you.
+                      </p>
+                      <Button size="sm" onClick={() => handleJoinWaitlist(waitlistTarget)}>
+                        Join waitlist: {describeWaitlistTarget(waitlistTarget, layout).toLowerCase()}
+                      </Button>
+                    </div>
+                  );
                   
                   if (filteredSeats.length === 0) {
                     return (
                       <div className="text-center py-12 text-muted-foreground">
+                        {waitlistPrompt}
                         <p>No seats match your search criteria</p>
                         <button
-                          onClick={() => {
-                            setSearchTerm('');
-                            setShowAvailableOnly(false);
-                          }}
+                          onClick={clearFilters}
                           className="mt-2 text-primary hover:underline"
                         >
                           Clear filters
@@ -294,20 +376,40 @@ export function SeatMap() {
                     );
                   }
 
+                  // Seats are drawn where they are on the floor; filtered-out seats are dimmed
+                  const matching = new Set(filteredSeats.map(([layoutSeat]) => layoutSeat.id));
+                  const seatStates = new Map(
+                    getSeatsOnFloor(floor.id).map(([layoutSeat, seatData]) => [layoutSeat.id, { layoutSeat, seatData }])
+                  );
+
                   return (
-                    <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 lg:grid-cols-10 gap-2 sm:gap-3 md:gap-4">
-                      {filteredSeats
-                        .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
-                        .map(([seatId, seatData]) => (
-                          <Seat 
-                            key={seatId} 
-                            id={seatId} 
-                            status={seatData.status}
-                            bookedBy={seatData.bookedBy}
-                            currentUserId={user?.uid}
-                            userHasActiveBooking={!!activeBooking}
-                          />
-                        ))}
+                    <div className="overflow-x-auto">
+                      {waitlistPrompt}
+                      <FloorPlanView
+                        plan={getFloorPlan(layout, floor.id)}
+                        highlights={getGroupHighlights(floor.id)}
+                        className="min-w-[720px]"
+                        renderSeat={(seatId) => {
+                          const state = seatStates.get(seatId);
+                          if (!state) return null;
+                          const { layoutSeat, seatData } = state;
+                          return (
+                            <Seat 
+                              id={layoutSeat.id} 
+                              label={layoutSeat.label}
+                              status={getDisplayStatus(seatData)}
+                              bookedBy={seatData.bookedBy}
+                              currentUserId={user?.uid}
+                              userHasActiveBooking={!!activeBooking}
+                              reservedFrom={getNextReservation(seatData)?.start ?? null}
+                              breakEndsAt={seatData.onBreak?.endsAt ?? null}
+                              onMoveHere={moving && canMove ? () => handleMoveHere(layoutSeat.id) : undefined}
+                              compact
+                              className={cn('block w-full h-full', !matching.has(seatId) && 'opacity-25 pointer-events-none')}
+                            />
+                          );
+                        }}
+                      />
                     </div>
                   );
                 })()}
@@ -331,10 +433,20 @@ export function SeatMap() {
           <div className="w-5 h-5 rounded-md bg-green-500/80 border-2 border-green-600"></div>
           <span className="font-medium">Occupied</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-5 h-5 rounded-md bg-amber-400/70 border-2 border-dashed border-amber-500"></div>
+          <span className="font-medium">On Break</span>
+        </div>
         <div className="flex items-center gap-2">
           <div className="w-5 h-5 rounded-md bg-gray-300 dark:bg-gray-700 border-2 border-gray-400 dark:border-gray-600"></div>
           <span className="font-medium">Maintenance</span>
         </div>
+        {groupBlocks.length > 0 && (
+          <div className="flex items-center gap-2">
+            <div className="w-5 h-5 rounded-md border-2 border-dashed border-purple-500/70 bg-purple-500/10"></div>
+            <span className="font-medium">Group Booking</span>
+          </div>
+        )}
         {activeBooking && (
           <div className="flex items-center gap-2">
             <div className="w-5 h-5 rounded-md bg-yellow-500/80 border-2 border-yellow-600"></div>
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeftRight, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSeatSwaps } from '@/hooks/use-seat-swaps';
+import type { Booking, SeatSwapKind, SeatSwapRequest } from '@/types';
+
+interface SeatSwapPanelProps {
+  userId: string;
+  booking: Booking | null;
+}
+
+const describeOffer = (swap: SeatSwapRequest) =>
+  swap.kind === 'swap'
+    ? `${swap.fromUserName} wants to swap seat ${swap.fromSeatId} for yours`
+    : `${swap.fromUserName} is offering you their booking for seat ${swap.fromSeatId} until ${new Date(swap.expiresAt).toLocaleTimeString()}`;
+
+/**
+ * Swap seats with a friend or hand the booking over, and answer requests
+ * from others. Nothing changes until the other student accepts.
+ */
+export function SeatSwapPanel({ userId, booking }: SeatSwapPanelProps) {
+  const [email, setEmail] = useState('');
+  const [kind, setKind] = useState<SeatSwapKind>('swap');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { swaps, offer, respond, withdraw } = useSeatSwaps(true);
+  const { toast } = useToast();
+
+  const incoming = swaps.filter((swap) => swap.fromUserId !== userId && swap.status === 'pending');
+  const outgoing = swaps.filter((swap) => swap.fromUserId === userId);
+
+  const run = async (id: string, action: () => Promise<string>) => {
+    setBusyId(id);
+    try {
+      toast({ title: await action() });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOffer = () =>
+    run('offer', async () => {
+      const swap = await offer(booking!.id, email, kind);
+      setEmail('');
+      return `Request sent to ${swap.toEmail}`;
+    });
+
+  if (!booking && incoming.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Swap or Hand Over
+        </CardTitle>
+        <CardDescription>
+          Swap seats with a friend, or give them your booking. Nothing changes until they accept.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {incoming.map((swap) => (
+          <div key={swap.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border p-3">
+            <p className="text-sm">{describeOffer(swap)}</p>
+            <div className="flex gap-2 shrink-0">
+              <Button
+                size="sm"
+                disabled={busyId === swap.id || (swap.kind === 'swap' && !booking)}
+                title={swap.kind === 'swap' && !booking ? 'You need a checked-in booking to swap' : undefined}
+                onClick={() => run(swap.id, async () => (await respond(swap.id, true, booking?.id)).message)}
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busyId === swap.id}
+                onClick={() => run(swap.id, async () => (await respond(swap.id, false)).message)}
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {booking && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Friend's email"
+            />
+            <Select value={kind} onValueChange={(value) => setKind(value as SeatSwapKind)}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="swap">Swap seats</SelectItem>
+                <SelectItem value="transfer">Give my booking</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleOffer} disabled={busyId === 'offer' || !email.trim()}>
+              {busyId === 'offer' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send
+            </Button>
+          </div>
+        )}
+
+        {outgoing.map((swap) => (
+          <div key={swap.id} className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+            <span>
+              {swap.kind === 'swap' ? 'Swap' : 'Hand-over'} of seat {swap.fromSeatId} to {swap.toEmail}
+            </span>
+            {swap.status === 'pending' ? (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busyId === swap.id}
+                onClick={() => run(swap.id, async () => {
+                  await withdraw(swap.id);
+                  return 'Request withdrawn';
+                })}
+              >
+                Withdraw
+              </Button>
+            ) : (
+              <Badge variant={swap.status === 'completed' ? 'default' : 'secondary'}>{swap.status}</Badge>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
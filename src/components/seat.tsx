@@ -9,33 +9,48 @@ import { Armchair } from 'lucide-react';
 
 interface SeatProps {
   id: string;
+  label?: string; // Shown instead of the id
   status: SeatStatus;
   bookedBy?: string | null;
   currentUserId?: string | null;
   userHasActiveBooking?: boolean;
+  reservedFrom?: number | null; // Start of the next advance reservation (epoch ms)
+  breakEndsAt?: number | null; // Set while the student holding the seat is on a break (epoch ms)
+  onMoveHere?: () => void; // Set while the student is choosing a seat to move their booking to
+  compact?: boolean; // Smaller icon and text, for seats drawn on a floor plan
+  className?: string;
 }
 
 const seatVariants = {
   available: 'border-primary/30 bg-card text-primary/80 hover:bg-primary/10 hover:text-primary hover:border-primary hover:shadow-lg hover:shadow-primary/20 cursor-pointer',
   reserved: 'bg-accent/80 text-accent-foreground border-accent cursor-not-allowed shadow-md shadow-accent/10',
   occupied: 'bg-green-500/80 text-green-50 border-green-600 cursor-not-allowed shadow-md shadow-green-500/10',
+  onBreak: 'bg-amber-400/70 text-amber-950 border-amber-500 border-dashed cursor-not-allowed',
+  moveTarget: 'border-primary border-dashed bg-primary/5 text-primary hover:bg-primary/15 hover:shadow-lg cursor-pointer',
   disabled: 'bg-muted/50 text-muted-foreground border-muted cursor-not-allowed opacity-50',
   myBooking: 'bg-yellow-500/80 text-yellow-950 border-yellow-600 cursor-pointer shadow-md shadow-yellow-500/10 hover:bg-yellow-500 hover:shadow-lg',
   maintenance: 'bg-gray-300 dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-400 dark:border-gray-600 cursor-not-allowed',
   'out-of-service': 'bg-red-500/20 text-red-600 border-red-500 cursor-not-allowed',
 };
 
-const SeatComponent = ({ id, status, bookedBy, currentUserId, userHasActiveBooking }: SeatProps) => {
+const SeatComponent = ({ id, label, status, bookedBy, currentUserId, userHasActiveBooking, reservedFrom, breakEndsAt, onMoveHere, compact, className }: SeatProps) => {
   // Check if this seat is booked by the current user
   const isMyBooking = (status === 'reserved' || status === 'occupied') && bookedBy === currentUserId;
   
   // Determine if seat should be clickable
   const isClickable = status === 'available' && !userHasActiveBooking || isMyBooking;
   
+  // While moving, any free seat can be picked
+  const isMoveTarget = status === 'available' && !!onMoveHere;
+
   // Determine visual variant
-  let variant: 'available' | 'occupied' | 'disabled' | 'reserved' | 'myBooking' | 'maintenance' | 'out-of-service';
+  let variant: 'available' | 'occupied' | 'onBreak' | 'moveTarget' | 'disabled' | 'reserved' | 'myBooking' | 'maintenance' | 'out-of-service';
   if (isMyBooking) {
     variant = 'myBooking';
+  } else if (isMoveTarget) {
+    variant = 'moveTarget';
+  } else if (status === 'occupied' && breakEndsAt) {
+    variant = 'onBreak';
   } else if (status === 'available' && userHasActiveBooking) {
     variant = 'disabled';
   } else if (status === 'reserved' || status === 'occupied') {
@@ -46,22 +61,47 @@ const SeatComponent = ({ id, status, bookedBy, currentUserId, userHasActiveBooki
 
   const content = (
       <div
+        title={status === 'available' && reservedFrom
+          ? `Available now, reserved from ${new Date(reservedFrom).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })}`
+          : variant === 'onBreak'
+            ? `On break, back by ${new Date(breakEndsAt!).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+            : undefined}
         className={cn(
           'w-full h-full rounded-lg flex flex-col items-center justify-center transition-all duration-200 border-2 shadow-sm',
           seatVariants[variant]
         )}
       >
-        <Armchair className="h-6 w-6 sm:h-8 sm:w-8" />
-        <span className="text-xs font-bold mt-1">{id}</span>
+        <Armchair className={compact ? 'h-4 w-4' : 'h-6 w-6 sm:h-8 sm:w-8'} />
+        <span className={cn('font-bold', compact ? 'text-[10px] leading-tight' : 'text-xs mt-1')}>{label || id}</span>
+        {!compact && variant === 'onBreak' && (
+          <span className="text-[10px] leading-tight opacity-80">on break</span>
+        )}
+        {!compact && status === 'available' && reservedFrom && (
+          <span className="text-[10px] leading-tight opacity-80">
+            from {new Date(reservedFrom).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+          </span>
+        )}
       </div>
   );
 
+  if (isMoveTarget) {
+    return (
+      <button
+        type="button"
+        onClick={onMoveHere}
+        className={cn('aspect-square transform transition-transform hover:scale-110 focus:scale-110 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded-lg', className)}
+      >
+        {content}
+      </button>
+    );
+  }
+
   if (!isClickable) {
-    return <div className="aspect-square">{content}</div>;
+    return <div className={cn('aspect-square', className)}>{content}</div>;
   }
   
   return (
-    <Link href={`/book/${id}`} className="aspect-square transform transition-transform hover:scale-110 focus:scale-110 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded-lg">
+    <Link href={`/book/${id}`} className={cn('aspect-square transform transition-transform hover:scale-110 focus:scale-110 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded-lg', className)}>
         {content}
     </Link>
   );
@@ -9,6 +9,7 @@ import { Clock, Calendar, Armchair, TrendingUp } from 'lucide-react';
 import { useAuth } from '@/components/providers/auth-provider';
 import { ref, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { getBreakHours, getStudyHours } from '@/lib/booking-break';
 import type { UserStatistics, Booking } from '@/types';
 
 export function UsageStatistics() {
@@ -28,7 +29,8 @@ export function UsageStatistics() {
         if (!snapshot.exists()) {
           setStats({
             totalBookings: 0,
-            totalHoursBooked: 0,
+                  totalHoursBooked: 0,
+            totalBreakHours: 0,
             averageSessionDuration: 0,
             noShowCount: 0,
             overstayCount: 0,
@@ -112,7 +114,9 @@ export function UsageStatistics() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold font-headline">{stats.totalHoursBooked.toFixed(1)}</div>
-            <p className="text-xs text-muted-foreground mt-1">Hours booked</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Hours studied{stats.totalBreakHours > 0 && `, plus ${stats.totalBreakHours.toFixed(1)} on breaks`}
+            </p>
           </CardContent>
         </Card>
 
@@ -249,13 +253,9 @@ function calculateStatistics(bookings: Booking[]): UserStatistics {
     (b) => b.status === 'completed' && b.entryTime
   );
 
-  // Calculate total hours booked
-  const totalHoursBooked = completedBookings.reduce((sum, booking) => {
-    const start = new Date(booking.entryTime!);
-    const end = new Date(booking.exitTime || booking.endTime);
-    const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-    return sum + Math.max(0, hours);
-  }, 0);
+  // Calculate total hours booked, with breaks counted separately
+  const totalHoursBooked = completedBookings.reduce((sum, booking) => sum + getStudyHours(booking), 0);
+  const totalBreakHours = completedBookings.reduce((sum, booking) => sum + getBreakHours(booking), 0);
 
   // Calculate average session duration (in minutes)
   const averageSessionDuration =
@@ -304,6 +304,7 @@ function calculateStatistics(bookings: Booking[]): UserStatistics {
   return {
     totalBookings: bookings.length,
     totalHoursBooked,
+    totalBreakHours,
     averageSessionDuration,
     noShowCount,
     overstayCount,
@@ -326,8 +327,7 @@ function calculateWeeklyUsage(
     if (!booking.entryTime) return;
 
     const start = new Date(booking.entryTime);
-    const end = new Date(booking.exitTime || booking.endTime);
-    const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+    const hours = getStudyHours(booking);
 
     // Get week identifier (ISO week)
     const weekStart = getWeekStart(start);
@@ -354,8 +354,7 @@ function calculateMonthlyUsage(
     if (!booking.entryTime) return;
 
     const start = new Date(booking.entryTime);
-    const end = new Date(booking.exitTime || booking.endTime);
-    const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+    const hours = getStudyHours(booking);
 
     // Get month identifier (YYYY-MM)
     const monthKey = start.toISOString().substring(0, 7);
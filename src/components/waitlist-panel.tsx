@@ -0,0 +1,76 @@
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { describeWaitlistTarget } from '@/lib/waitlist';
+import type { UserWaitlistEntry } from '@/hooks/use-waitlist';
+import type { SeatLayout } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { BellRing, Clock } from 'lucide-react';
+
+interface WaitlistPanelProps {
+  entries: UserWaitlistEntry[];
+  layout: SeatLayout | null;
+  onLeave: (entryId: string) => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * The student's waitlists: a seat being held for them, then the queues
+ * they're waiting in
+ */
+export function WaitlistPanel({ entries, layout, onLeave }: WaitlistPanelProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const offers = entries.filter((entry) => entry.status === 'offered' && entry.offer);
+  const waiting = entries.filter((entry) => entry.status === 'waiting');
+
+  return (
+    <div className="space-y-3">
+      {offers.map((entry) => {
+        const seatId = entry.offer!.seatId;
+        return (
+          <Alert key={entry.id} className="border-primary">
+            <BellRing className="h-4 w-4" />
+            <AlertTitle>Seat {layout?.seats[seatId]?.label || seatId} is being held for you</AlertTitle>
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+              <span>Book it before {formatTime(entry.offer!.expiresAt)} or it goes to the next student.</span>
+              <div className="flex gap-2">
+                <Button asChild size="sm">
+                  <Link href={`/book/${seatId}`}>Book now</Link>
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onLeave(entry.id)}>
+                  Decline
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        );
+      })}
+
+      {waiting.length > 0 && (
+        <div className="bg-card rounded-lg border p-4 space-y-2">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <Clock className="h-4 w-4" /> Your waitlists
+          </p>
+          {waiting.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                {describeWaitlistTarget(entry.target, layout)}
+                <span className="text-muted-foreground"> · #{entry.position} in line</span>
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => onLeave(entry.id)}>
+                Leave
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import * as React from "react"
+import { authFetch } from "@/lib/auth-fetch"
+import type { RestrictionAppeal } from "@/types"
+
+/**
+ * Load the signed-in student's restriction appeals, newest first, with an
+ * action to submit a new one
+ */
+export function useAppeals(enabled: boolean) {
+  const [appeals, setAppeals] = React.useState<RestrictionAppeal[]>([])
+
+  const refresh = React.useCallback(async () => {
+    if (!enabled) {
+      setAppeals([])
+      return
+    }
+    try {
+      const response = await authFetch("/api/appeals")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to load appeals")
+      }
+      setAppeals(data.appeals || [])
+    } catch (error) {
+      console.error("Failed to load appeals:", error)
+    }
+  }, [enabled])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const submit = React.useCallback(
+    async (message: string) => {
+      const response = await authFetch("/api/appeals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to submit appeal")
+      }
+      await refresh()
+      return data.appeal as RestrictionAppeal
+    },
+    [refresh]
+  )
+
+  return { appeals, submit, refresh }
+}
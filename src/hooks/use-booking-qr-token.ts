@@ -0,0 +1,43 @@
+import * as React from "react"
+import { authFetch } from "@/lib/auth-fetch"
+import { isOpenBooking } from "@/lib/booking-status"
+import type { Booking } from "@/types"
+
+/**
+ * Fetch the server-signed QR token for an open booking
+ */
+export function useBookingQrToken(booking: Booking | null | undefined) {
+  const [token, setToken] = React.useState<string | null>(null)
+
+  const bookingId = booking?.id
+  const isOpen = !!booking && isOpenBooking(booking.status)
+  const endTime = booking?.endTime
+
+  React.useEffect(() => {
+    if (!bookingId || !isOpen) {
+      setToken(null)
+      return
+    }
+
+    let cancelled = false
+
+    authFetch(`/api/bookings/${bookingId}/qr`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.message || data.error || "Failed to load QR code")
+        }
+        if (!cancelled) setToken(data.token)
+      })
+      .catch((error) => {
+        console.error("Failed to load booking QR token:", error)
+        if (!cancelled) setToken(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [bookingId, isOpen, endTime])
+
+  return token
+}
@@ -0,0 +1,112 @@
+import * as React from "react"
+import { authFetch } from "@/lib/auth-fetch"
+import type { GroupBlock, GroupBooking } from "@/types"
+
+export interface NewGroupBooking {
+  floorId: string
+  seatIds?: string[]
+  roomId?: string
+  startTime?: string
+  endTime: string
+  memberEmails: string[]
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await authFetch(path, init)
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.error || "Request failed")
+  }
+  return data as T
+}
+
+/**
+ * Load the groups the signed-in student organised or was invited to, with
+ * create, respond and cancel actions
+ */
+export function useGroupBookings(enabled: boolean) {
+  const [groups, setGroups] = React.useState<GroupBooking[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  const refresh = React.useCallback(async () => {
+    if (!enabled) {
+      setGroups([])
+      setLoading(false)
+      return
+    }
+    try {
+      const data = await request<{ groups: GroupBooking[] }>("/api/group-bookings")
+      setGroups(data.groups || [])
+    } catch (error) {
+      console.error("Failed to load group bookings:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [enabled])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const create = React.useCallback(
+    async (group: NewGroupBooking) => {
+      const data = await request<{ group: GroupBooking }>("/api/group-bookings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(group),
+      })
+      await refresh()
+      return data.group
+    },
+    [refresh]
+  )
+
+  const respond = React.useCallback(
+    async (groupId: string, accept: boolean) => {
+      await request(`/api/group-bookings/${groupId}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accept }),
+      })
+      await refresh()
+    },
+    [refresh]
+  )
+
+  const cancel = React.useCallback(
+    async (groupId: string) => {
+      await request(`/api/group-bookings/${groupId}`, { method: "DELETE" })
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { groups, loading, create, respond, cancel, refresh }
+}
+
+/**
+ * Load where active groups sit, for outlining them on the seat map
+ */
+export function useGroupBlocks(enabled: boolean, refreshKey?: string | number) {
+  const [blocks, setBlocks] = React.useState<GroupBlock[]>([])
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setBlocks([])
+      return
+    }
+
+    let cancelled = false
+    request<{ blocks: GroupBlock[] }>("/api/group-bookings/blocks")
+      .then((data) => {
+        if (!cancelled) setBlocks(data.blocks || [])
+      })
+      .catch((error) => console.error("Failed to load group blocks:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, refreshKey])
+
+  return blocks
+}
@@ -0,0 +1,29 @@
+import * as React from "react"
+import { ref, onValue, off } from "firebase/database"
+import { db } from "@/lib/firebase"
+import { normalizeLayout } from "@/lib/seat-layout"
+import type { SeatLayout } from "@/types"
+
+/**
+ * Subscribe to the library layout (the default layout until one is stored)
+ */
+export function useSeatLayout() {
+  const [layout, setLayout] = React.useState<SeatLayout | null>(null)
+
+  React.useEffect(() => {
+    const layoutRef = ref(db, "layout")
+
+    const listener = onValue(
+      layoutRef,
+      (snapshot) => setLayout(normalizeLayout(snapshot.val())),
+      (error) => {
+        console.error("Failed to load seat layout:", error)
+        setLayout(normalizeLayout(null))
+      }
+    )
+
+    return () => off(layoutRef, "value", listener)
+  }, [])
+
+  return { layout, loading: layout === null }
+}
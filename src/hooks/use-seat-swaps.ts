@@ -0,0 +1,77 @@
+import * as React from "react"
+import { authFetch } from "@/lib/auth-fetch"
+import type { Booking, SeatSwapKind, SeatSwapRequest } from "@/types"
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await authFetch(path, init)
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.error || "Request failed")
+  }
+  return data as T
+}
+
+/**
+ * Load the seat swaps the signed-in student offered or was offered, with
+ * offer, respond and withdraw actions
+ */
+export function useSeatSwaps(enabled: boolean) {
+  const [swaps, setSwaps] = React.useState<SeatSwapRequest[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  const refresh = React.useCallback(async () => {
+    if (!enabled) {
+      setSwaps([])
+      setLoading(false)
+      return
+    }
+    try {
+      const data = await request<{ swaps: SeatSwapRequest[] }>("/api/seat-swaps")
+      setSwaps(data.swaps || [])
+    } catch (error) {
+      console.error("Failed to load seat swaps:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [enabled])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const offer = React.useCallback(
+    async (bookingId: string, toEmail: string, kind: SeatSwapKind) => {
+      const data = await request<{ swap: SeatSwapRequest }>("/api/seat-swaps", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bookingId, toEmail, kind }),
+      })
+      await refresh()
+      return data.swap
+    },
+    [refresh]
+  )
+
+  const respond = React.useCallback(
+    async (swapId: string, accept: boolean, bookingId?: string) => {
+      const data = await request<{ booking?: Booking; message: string }>(`/api/seat-swaps/${swapId}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accept, bookingId }),
+      })
+      await refresh()
+      return data
+    },
+    [refresh]
+  )
+
+  const withdraw = React.useCallback(
+    async (swapId: string) => {
+      await request(`/api/seat-swaps/${swapId}`, { method: "DELETE" })
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { swaps, loading, offer, respond, withdraw, refresh }
+}
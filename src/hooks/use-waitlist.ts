@@ -0,0 +1,65 @@
+import * as React from "react"
+import { authFetch } from "@/lib/auth-fetch"
+import type { WaitlistEntry, WaitlistTarget } from "@/types"
+
+export type UserWaitlistEntry = WaitlistEntry & { position: number }
+
+/**
+ * Load the signed-in student's waitlist entries, with join and leave actions.
+ * Pass a changing `refreshKey` (e.g. the seat offered to the student) to reload.
+ */
+export function useWaitlist(enabled: boolean, refreshKey?: string | null) {
+  const [entries, setEntries] = React.useState<UserWaitlistEntry[]>([])
+
+  const refresh = React.useCallback(async () => {
+    if (!enabled) {
+      setEntries([])
+      return
+    }
+    try {
+      const response = await authFetch("/api/waitlist")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to load waitlist")
+      }
+      setEntries(data.entries || [])
+    } catch (error) {
+      console.error("Failed to load waitlist:", error)
+    }
+  }, [enabled])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh, refreshKey])
+
+  const join = React.useCallback(
+    async (target: WaitlistTarget) => {
+      const response = await authFetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(target),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to join the waitlist")
+      }
+      await refresh()
+      return data.entry as WaitlistEntry
+    },
+    [refresh]
+  )
+
+  const leave = React.useCallback(
+    async (entryId: string) => {
+      const response = await authFetch(`/api/waitlist/${entryId}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to leave the waitlist")
+      }
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { entries, join, leave, refresh }
+}
@@ -3,6 +3,9 @@
  * Reads admin emails from environment variable
  */
 
+// Only university accounts may use the app, apart from configured admins
+export const UNIVERSITY_EMAIL_DOMAIN = '@srmist.edu.in';
+
 export function getAdminEmails(): string[] {
   const adminEmailsEnv = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
   
@@ -23,3 +26,7 @@ export function isAdminEmail(email: string | null | undefined): boolean {
   const adminEmails = getAdminEmails();
   return adminEmails.includes(email);
 }
+
+export function isUniversityEmail(email: string | null | undefined): boolean {
+  return !!email && email.toLowerCase().endsWith(UNIVERSITY_EMAIL_DOMAIN);
+}
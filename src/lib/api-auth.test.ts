@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+import * as fc from 'fast-check';
+import { NextRequest, NextResponse } from 'next/server';
+import type { UserRole } from '@/types';
+
+process.env.NEXT_PUBLIC_ADMIN_EMAILS = 'head.librarian@example.com';
+
+// Mock Firebase with in-memory roles; every profile claims to be an admin
+const mockRoles = new Map<string, UserRole>();
+
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => ({
+  ref: jest.fn((_db, path: string) => ({ path })),
+  get: jest.fn(async ({ path }: { path: string }) => {
+    const [node, uid] = path.split('/');
+    const value = node === 'roles' ? mockRoles.get(uid) : { uid, email: `${uid}@example.com`, role: 'admin' };
+    return {
+      exists: () => value !== undefined,
+      val: () => value ?? null,
+    };
+  }),
+}));
+
+// Import after mocking
+import { withAdmin, withPermission, withUser } from './api-auth';
+import { IdTokenError, __test__ } from './auth-utils';
+
+function requestAs(uid: string | null): NextRequest {
+  return new NextRequest('http://localhost/api/admin/test', {
+    headers: uid ? { authorization: `Bearer token-${uid}` } : {},
+  });
+}
+
+const handler = jest.fn(async (_request: NextRequest, user: { uid: string }) =>
+  NextResponse.json({ uid: user.uid })
+);
+
+describe('API Route Auth - Property-Based Tests', () => {
+  beforeEach(() => {
+    mockRoles.clear();
+    handler.mockClear();
+    __test__.setVerifier(async (idToken) => {
+      if (!idToken.startsWith('token-')) {
+        throw new IdTokenError('Unknown token');
+      }
+      const uid = idToken.slice('token-'.length);
+      return { uid, email: `${uid}@srmist.edu.in`, email_verified: true, exp: Date.now() / 1000 + 3600 };
+    });
+  });
+
+  afterAll(() => {
+    __test__.reset();
+  });
+
+  // Feature: api-auth, Property 1: Wrapped handlers only run for callers with the required role
+  test('Property 1: For any caller, withAdmin runs the handler only for admins and withUser for anyone signed in', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.stringMatching(/^[a-zA-Z0-9]{6,20}$/),
+        fc.constantFrom<UserRole>('user', 'admin'),
+        async (uid, role) => {
+          mockRoles.set(uid, role);
+          handler.mockClear();
+
+          const adminResponse = await withAdmin(handler)(requestAs(uid), {});
+          expect(adminResponse.status).toBe(role === 'admin' ? 200 : 403);
+
+          const userResponse = await withUser(handler)(requestAs(uid), {});
+          expect(userResponse.status).toBe(200);
+          expect(await userResponse.json()).toEqual({ uid });
+
+          expect(handler).toHaveBeenCalledTimes(role === 'admin' ? 2 : 1);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('withPermission admits staff roles that hold the permission', async () => {
+    const roles: UserRole[] = ['user', 'desk-staff', 'floor-manager', 'head-librarian', 'admin'];
+    roles.forEach((role) => mockRoles.set(role, role));
+
+    const statuses = await Promise.all(
+      roles.map(async (role) => (await withPermission('seats.maintenance', handler)(requestAs(role), {})).status)
+    );
+
+    expect(statuses).toEqual([403, 403, 200, 200, 200]);
+  });
+
+  test('requests without a valid bearer token are rejected with 401', async () => {
+    const missing = await withUser(handler)(requestAs(null), {});
+    expect(missing.status).toBe(401);
+
+    const forged = new NextRequest('http://localhost/api/admin/test', {
+      headers: { authorization: 'Bearer forged' },
+    });
+    const rejected = await withAdmin(handler)(forged, {});
+    expect(rejected.status).toBe(401);
+    expect(await rejected.json()).toEqual({ error: 'Invalid session' });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  getBearerToken,
+  verifyAdminAccess,
+  verifyPermissionAccess,
+  type AccessResult,
+  type AuthenticatedUser,
+} from '@/lib/auth-utils';
+import { hasPermission, type Permission } from '@/lib/permissions';
+
+/**
+ * API route wrappers
+ * withUser, withPermission and withAdmin verify the caller's Firebase ID
+ * token before the handler runs and pass the authenticated user along:
+ *
+ *   export const POST = withPermission('users.flag', async (request, staff) => { ... });
+ */
+
+export type AuthenticatedHandler<C> = (
+  request: NextRequest,
+  user: AuthenticatedUser,
+  context: C
+) => Promise<Response>;
+
+/**
+ * Require a signed-in user
+ */
+export function withUser<C = unknown>(handler: AuthenticatedHandler<C>) {
+  return withAccess(authenticateUser, handler);
+}
+
+/**
+ * Require a signed-in staff member with a permission
+ */
+export function withPermission<C = unknown>(permission: Permission, handler: AuthenticatedHandler<C>) {
+  return withAccess((idToken) => verifyPermissionAccess(idToken, permission), handler);
+}
+
+/**
+ * Require a signed-in admin
+ */
+export function withAdmin<C = unknown>(handler: AuthenticatedHandler<C>) {
+  return withAccess(verifyAdminAccess, handler);
+}
+
+/**
+ * Whether a user may read another user's data
+ */
+export function canActFor(user: AuthenticatedUser, userId: string): boolean {
+  return user.uid === userId || hasPermission(user.role, 'users.view');
+}
+
+// Helper Functions
+
+function withAccess<C>(
+  authorize: (idToken: string) => Promise<AccessResult>,
+  handler: AuthenticatedHandler<C>
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const idToken = getBearerToken(request);
+
+    if (!idToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized - No session provided' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorize(idToken);
+
+    if (!access.authorized) {
+      return NextResponse.json(
+        { error: access.reason },
+        { status: access.status }
+      );
+    }
+
+    return handler(request, access.user, context);
+  };
+}
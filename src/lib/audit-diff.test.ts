@@ -0,0 +1,52 @@
+import * as fc from 'fast-check';
+import { diffAuditDetails, formatAuditValue } from './audit-diff';
+
+// Flat records of primitive values keyed by a small set of field names
+const valueArb = fc.oneof(fc.integer({ min: 0, max: 3 }), fc.constantFrom('a', 'b'), fc.boolean());
+const recordArb = fc.dictionary(fc.constantFrom('status', 'seatId', 'role', 'reason'), valueArb);
+
+describe('Audit Details Diff', () => {
+  // Feature: audit-log, Property 3: The diff lists exactly the fields whose value changed
+  test('Property 3: diffAuditDetails lists exactly the changed fields with their old and new values', () => {
+    fc.assert(
+      fc.property(recordArb, recordArb, (before, after) => {
+        const changes = diffAuditDetails({ before, after });
+        const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+        const changed = fields.filter((field) => before[field] !== after[field]).sort();
+
+        expect(changes.map((change) => change.field)).toEqual(changed);
+        changes.forEach((change) => {
+          expect(change.before).toBe(before[change.field]);
+          expect(change.after).toBe(after[change.field]);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('flattens nested settings to dotted paths', () => {
+    const changes = diffAuditDetails({
+      before: { operatingHours: { monday: { open: '09:00', close: '18:00' } } },
+      after: { operatingHours: { monday: { open: '08:00', close: '18:00' } } },
+    });
+
+    expect(changes).toEqual([{ field: 'operatingHours.monday.open', before: '09:00', after: '08:00' }]);
+  });
+
+  test('lists plain details as values and handles a missing before', () => {
+    expect(diffAuditDetails({ userId: 'u1', seatId: 'G05' })).toEqual([
+      { field: 'userId', after: 'u1' },
+      { field: 'seatId', after: 'G05' },
+    ]);
+    expect(diffAuditDetails({ before: null, after: { role: 'admin' } })).toEqual([
+      { field: 'role', before: undefined, after: 'admin' },
+    ]);
+    expect(diffAuditDetails(undefined)).toEqual([]);
+  });
+
+  test('formats values for display', () => {
+    expect(formatAuditValue(null)).toBe('—');
+    expect(formatAuditValue('G05')).toBe('G05');
+    expect(formatAuditValue([{ date: '2024-12-25' }])).toBe('[{"date":"2024-12-25"}]');
+  });
+});
@@ -0,0 +1,72 @@
+import type { AuditDetailChange } from '@/types';
+
+/**
+ * Audit log details diffing
+ * Writers record changes as `details: { before, after }`. The audit viewer
+ * shows them field by field, with nested objects flattened to dotted paths
+ * (e.g. `operatingHours.monday.open`). Details without a before/after pair are
+ * listed as plain values.
+ */
+
+/**
+ * List the fields an audit entry changed
+ */
+export function diffAuditDetails(details?: Record<string, any>): AuditDetailChange[] {
+  if (!details) {
+    return [];
+  }
+
+  if (!('before' in details) && !('after' in details)) {
+    return Object.entries(flatten(details)).map(([field, after]) => ({ field, after }));
+  }
+
+  const before = flatten(details.before);
+  const after = flatten(details.after);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return fields
+    .filter((field) => !isSameValue(before[field], after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Format a detail value for display
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '—';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+// Helper Functions
+
+/**
+ * Flatten nested plain objects to dotted paths. Arrays are kept as values.
+ */
+function flatten(value: unknown, prefix: string = ''): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    return prefix ? { [prefix]: value } : {};
+  }
+
+  const entries = Object.entries(value);
+
+  if (entries.length === 0 && prefix) {
+    return { [prefix]: value };
+  }
+
+  return entries.reduce<Record<string, unknown>>((flat, [key, child]) => {
+    return { ...flat, ...flatten(child, prefix ? `${prefix}.${key}` : key) };
+  }, {});
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
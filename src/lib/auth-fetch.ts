@@ -0,0 +1,16 @@
+import { auth } from '@/lib/firebase';
+
+/**
+ * fetch() for our API routes: sends the signed-in user's Firebase ID token as
+ * a bearer token so the route can authenticate the caller
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const idToken = await auth.currentUser?.getIdToken();
+
+  if (idToken) {
+    headers.set('Authorization', `Bearer ${idToken}`);
+  }
+
+  return fetch(input, { ...init, headers });
+}
@@ -1,21 +1,58 @@
 import * as fc from 'fast-check';
+import type { UserProfile } from '@/types';
+
+process.env.NEXT_PUBLIC_ADMIN_EMAILS = 'head.librarian@example.com';
+
+// Mock Firebase with an in-memory users table. Each user's role is served
+// from roles/{uid}, apart from the profile, as in the database.
+const mockUsers = new Map<string, UserProfile & { role: 'user' | 'admin' }>();
+
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => ({
+  ref: jest.fn((_db, path: string) => ({ path })),
+  get: jest.fn(async ({ path }: { path: string }) => {
+    const [root, uid] = path.split('/');
+    const user = mockUsers.get(uid);
+    const value = root === 'roles' ? (user?.role === 'user' ? undefined : user?.role) : user;
+    return {
+      exists: () => value !== undefined,
+      val: () => value ?? null,
+    };
+  }),
+}));
+
+// Import after mocking
 import {
   authenticateUser,
-  authenticateAdmin,
+  verifyAdminAccess,
   isAdmin,
   hasRole,
-  createSession,
-  validateSession,
-  verifyAdminAccess,
   canAccessAdminFeatures,
+  getBearerToken,
+  IdTokenError,
   __test__,
 } from './auth-utils';
-import { UserProfile } from '@/types';
+
+// Fake ID token verifier: tokens are issued by the test and looked up here
+const issuedTokens = new Map<string, { uid: string; email?: string; emailVerified: boolean; expired?: boolean }>();
+
+function requestWithAuthorization(value: string | null): Request {
+  return { headers: { get: (name: string) => (name === 'authorization' ? value : null) } } as unknown as Request;
+}
+
+function issueToken(profile: UserProfile, options: { email?: string; emailVerified?: boolean; expired?: boolean } = {}): string {
+  const token = `token-${issuedTokens.size}-${profile.uid}`;
+  issuedTokens.set(token, { uid: profile.uid, email: profile.email, emailVerified: true, ...options });
+  return token;
+}
 
 // Arbitraries for generating test data
 const userProfileArb = (role: 'user' | 'admin') => fc.record({
   uid: fc.uuid(),
-  email: fc.emailAddress(),
+  email: fc.stringMatching(/^[a-z][a-z0-9.]{2,15}$/).map((name) => `${name}@srmist.edu.in`),
   displayName: fc.option(fc.string({ minLength: 3, maxLength: 20 }), { nil: undefined }),
   photoURL: fc.option(fc.webUrl(), { nil: undefined }),
   role: fc.constant(role),
@@ -39,36 +76,42 @@ const userProfileArb = (role: 'user' | 'admin') => fc.record({
 const adminProfileArb = userProfileArb('admin');
 const regularUserProfileArb = userProfileArb('user');
 
-const passwordArb = fc.string({ minLength: 8, maxLength: 20 });
-
 describe('Authentication and Authorization - Property-Based Tests', () => {
   beforeEach(() => {
-    __test__.clear();
+    mockUsers.clear();
+    issuedTokens.clear();
+    __test__.setVerifier(async (idToken) => {
+      const issued = issuedTokens.get(idToken);
+      if (!issued) {
+        throw new IdTokenError('Unknown token');
+      }
+      if (issued.expired) {
+        throw new IdTokenError('Token expired', true);
+      }
+      return { uid: issued.uid, email: issued.email, email_verified: issued.emailVerified, exp: Date.now() / 1000 + 3600 };
+    });
+  });
+
+  afterAll(() => {
+    __test__.reset();
   });
 
   // Feature: admin-dashboard-analytics, Property 1: Valid admin credentials grant access
-  test('Property 1: For any valid administrator email and password, authentication succeeds and grants access', async () => {
+  test('Property 1: For any valid administrator ID token, admin access is granted', async () => {
     await fc.assert(
       fc.asyncProperty(
         adminProfileArb,
-        passwordArb,
-        async (profile, password) => {
-          // Add admin user
-          __test__.addUser(profile.email, password, profile);
+        async (profile) => {
+          mockUsers.set(profile.uid, profile);
           
-          // Authenticate with correct credentials
-          const result = await authenticateAdmin(profile.email, password);
+          const result = await verifyAdminAccess(issueToken(profile));
           
           // Should succeed
-          expect(result.success).toBe(true);
-          expect(result.sessionId).toBeDefined();
-          expect(result.error).toBeUndefined();
-          
-          // Session should be valid
-          if (result.sessionId) {
-            const sessionValidation = await validateSession(result.sessionId);
-            expect(sessionValidation.valid).toBe(true);
-            expect(sessionValidation.userId).toBe(profile.uid);
+          expect(result.authorized).toBe(true);
+          if (result.authorized) {
+            expect(result.user.uid).toBe(profile.uid);
+            expect(result.user.role).toBe('admin');
+            expect(result.user.profile?.email).toBe(profile.email);
           }
         }
       ),
@@ -77,26 +120,24 @@ describe('Authentication and Authorization - Property-Based Tests', () => {
   });
 
   // Feature: admin-dashboard-analytics, Property 2: Invalid credentials are rejected
-  test('Property 2: For any invalid credential combination, authentication fails with error message', async () => {
+  test('Property 2: For any token the verifier rejects, authentication fails with 401', async () => {
     await fc.assert(
       fc.asyncProperty(
         adminProfileArb,
-        passwordArb,
-        passwordArb,
-        async (profile, correctPassword, wrongPassword) => {
-          // Ensure passwords are different
-          fc.pre(correctPassword !== wrongPassword);
+        fc.string({ minLength: 1, maxLength: 40 }),
+        async (profile, forgedToken) => {
+          mockUsers.set(profile.uid, profile);
+          const validToken = issueToken(profile);
+          fc.pre(forgedToken !== validToken);
           
-          // Add admin user with correct password
-          __test__.addUser(profile.email, correctPassword, profile);
-          
-          // Try to authenticate with wrong password
-          const result = await authenticateAdmin(profile.email, wrongPassword);
+          const result = await verifyAdminAccess(forgedToken);
           
           // Should fail
-          expect(result.success).toBe(false);
-          expect(result.error).toBeDefined();
-          expect(result.sessionId).toBeUndefined();
+          expect(result.authorized).toBe(false);
+          if (!result.authorized) {
+            expect(result.status).toBe(401);
+            expect(result.reason).toBe('Invalid session');
+          }
         }
       ),
       { numRuns: 100 }
@@ -104,25 +145,21 @@ describe('Authentication and Authorization - Property-Based Tests', () => {
   });
 
   // Feature: admin-dashboard-analytics, Property 3: Expired sessions redirect to login
-  test('Property 3: For any expired session, validation fails and indicates expiration', async () => {
+  test('Property 3: For any expired ID token, authentication fails and indicates expiration', async () => {
     await fc.assert(
       fc.asyncProperty(
-        adminProfileArb,
+        fc.oneof(adminProfileArb, regularUserProfileArb),
         async (profile) => {
-          __test__.addUser(profile.email, 'password123', profile);
+          mockUsers.set(profile.uid, profile);
           
-          // Create a session with very short duration (0 minutes = already expired)
-          const sessionId = await createSession(profile.uid, 0);
-          
-          // Wait a tiny bit to ensure expiration
-          await new Promise(resolve => setTimeout(resolve, 10));
-          
-          // Validate session
-          const validation = await validateSession(sessionId);
+          const result = await authenticateUser(issueToken(profile, { expired: true }));
           
           // Should be invalid and marked as expired
-          expect(validation.valid).toBe(false);
-          expect(validation.expired).toBe(true);
+          expect(result.authorized).toBe(false);
+          if (!result.authorized) {
+            expect(result.status).toBe(401);
+            expect(result.reason).toBe('Session expired');
+          }
         }
       ),
       { numRuns: 100 }
@@ -134,51 +171,24 @@ describe('Authentication and Authorization - Property-Based Tests', () => {
     await fc.assert(
       fc.asyncProperty(
         regularUserProfileArb,
-        passwordArb,
-        async (profile, password) => {
-          // Add regular user (not admin)
-          __test__.addUser(profile.email, password, profile);
+        async (profile) => {
+          mockUsers.set(profile.uid, profile);
+          const token = issueToken(profile);
           
-          // Try to authenticate as admin
-          const authResult = await authenticateAdmin(profile.email, password);
+          // Signed in, but not an admin
+          const userResult = await authenticateUser(token);
+          expect(userResult.authorized).toBe(true);
           
-          // Should fail because user is not admin
-          expect(authResult.success).toBe(false);
-          expect(authResult.error).toBeDefined();
-          expect(authResult.error).toContain('admin');
+          const adminResult = await verifyAdminAccess(token);
+          expect(adminResult.authorized).toBe(false);
+          if (!adminResult.authorized) {
+            expect(adminResult.status).toBe(403);
+            expect(adminResult.reason).toBe('Insufficient privileges');
+          }
           
           // Check admin access directly
-          const hasAdminAccess = await canAccessAdminFeatures(profile.uid);
-          expect(hasAdminAccess).toBe(false);
-          
-          // Check role
-          const userIsAdmin = await isAdmin(profile.uid);
-          expect(userIsAdmin).toBe(false);
-        }
-      ),
-      { numRuns: 100 }
-    );
-  });
-
-  // Additional test: Valid sessions grant access
-  test('Valid non-expired sessions grant access to admin features', async () => {
-    await fc.assert(
-      fc.asyncProperty(
-        adminProfileArb,
-        fc.integer({ min: 1, max: 60 }),
-        async (profile, durationMinutes) => {
-          __test__.addUser(profile.email, 'password123', profile);
-          
-          // Create session with valid duration
-          const sessionId = await createSession(profile.uid, durationMinutes);
-          
-          // Verify admin access
-          const accessResult = await verifyAdminAccess(sessionId);
-          
-          // Should be authorized
-          expect(accessResult.authorized).toBe(true);
-          expect(accessResult.userId).toBe(profile.uid);
-          expect(accessResult.reason).toBeUndefined();
+          expect(await canAccessAdminFeatures(profile.uid)).toBe(false);
+          expect(await isAdmin(profile.uid)).toBe(false);
         }
       ),
       { numRuns: 100 }
@@ -191,7 +201,7 @@ describe('Authentication and Authorization - Property-Based Tests', () => {
       fc.asyncProperty(
         fc.oneof(adminProfileArb, regularUserProfileArb),
         async (profile) => {
-          __test__.addUser(profile.email, 'password123', profile);
+          mockUsers.set(profile.uid, profile);
           
           // Check role
           const hasAdminRole = await hasRole(profile.uid, 'admin');
@@ -210,41 +220,104 @@ describe('Authentication and Authorization - Property-Based Tests', () => {
     );
   });
 
-  // Additional test: Empty credentials are rejected
-  test('Empty or missing credentials are rejected', async () => {
+  // Additional test: Configured admin emails are admins without a profile role
+  test('Users listed in NEXT_PUBLIC_ADMIN_EMAILS are granted admin access', async () => {
     await fc.assert(
       fc.asyncProperty(
-        fc.oneof(fc.constant(''), fc.constant('valid@email.com')),
-        fc.oneof(fc.constant(''), fc.constant('validpassword')),
-        async (email, password) => {
-          // At least one should be empty
-          fc.pre(email === '' || password === '');
+        regularUserProfileArb,
+        async (profile) => {
+          const librarian = { ...profile, email: 'head.librarian@example.com' };
+          mockUsers.set(librarian.uid, librarian);
           
-          const result = await authenticateUser(email, password);
+          const result = await verifyAdminAccess(issueToken(librarian));
           
-          // Should fail
-          expect(result.success).toBe(false);
-          expect(result.error).toBeDefined();
+          expect(result.authorized).toBe(true);
         }
       ),
-      { numRuns: 100 }
+      { numRuns: 20 }
     );
   });
 
-  // Additional test: Non-existent users are rejected
-  test('Authentication fails for non-existent users', async () => {
+  // Additional test: Only the token's verified email can make someone an admin
+  test('Admin emails count only when they are the verified email of the token', async () => {
     await fc.assert(
       fc.asyncProperty(
-        fc.emailAddress(),
-        passwordArb,
-        async (email, password) => {
-          // Don't add any users
+        regularUserProfileArb,
+        async (profile) => {
+          // A student who writes the admin address into their own profile
+          const impostor = { ...profile, email: 'head.librarian@example.com' };
+          mockUsers.set(impostor.uid, impostor);
+
+          const forgedProfile = await authenticateUser(issueToken(impostor, { email: profile.email }));
+          expect(forgedProfile.authorized && forgedProfile.user.role).toBe('user');
+
+          const unverified = await authenticateUser(issueToken(impostor, { emailVerified: false }));
+          expect(unverified).toMatchObject({ authorized: false, status: 403 });
+
+          const unverifiedStudent = await authenticateUser(issueToken(profile, { emailVerified: false }));
+          expect(unverifiedStudent.authorized && unverifiedStudent.user.role).toBe('user');
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  // Additional test: Accounts outside the university are turned away
+  test('Tokens for non-university emails are rejected with 403', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        adminProfileArb,
+        fc.emailAddress().filter((email) => !email.toLowerCase().endsWith('@srmist.edu.in')),
+        async (profile, email) => {
+          mockUsers.set(profile.uid, profile);
+
+          const result = await authenticateUser(issueToken(profile, { email }));
+
+          expect(result).toMatchObject({ authorized: false, status: 403 });
+          expect((await authenticateUser(issueToken(profile, { email: undefined }))).authorized).toBe(false);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  // Additional test: Tokens for users without a profile still authenticate
+  test('Signed-in users without a profile authenticate as regular users', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        regularUserProfileArb,
+        async (profile) => {
+          // Don't add the profile
           
-          const result = await authenticateUser(email, password);
+          const result = await authenticateUser(issueToken(profile));
           
-          // Should fail
-          expect(result.success).toBe(false);
-          expect(result.error).toBe('Invalid credentials');
+          expect(result.authorized).toBe(true);
+          if (result.authorized) {
+            expect(result.user.role).toBe('user');
+            expect(result.user.profile).toBeNull();
+            expect(result.user.email).toBe(profile.email);
+          }
+          expect(await isAdmin(profile.uid)).toBe(false);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // Additional test: Missing or malformed Authorization headers yield no token
+  test('Only well-formed bearer Authorization headers yield a token', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 40 }).filter(t => t.trim() === t && t.length > 0),
+        (token) => {
+          const withBearer = requestWithAuthorization(`Bearer ${token}`);
+          const withoutBearer = requestWithAuthorization(token);
+          const withoutHeader = requestWithAuthorization(null);
+          
+          expect(getBearerToken(withBearer)).toBe(token);
+          fc.pre(!token.startsWith('Bearer '));
+          expect(getBearerToken(withoutBearer)).toBeNull();
+          expect(getBearerToken(withoutHeader)).toBeNull();
         }
       ),
       { numRuns: 100 }
@@ -1,227 +1,264 @@
+import { ref, get } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { isAdminEmail, isUniversityEmail, UNIVERSITY_EMAIL_DOMAIN } from '@/lib/admin-config';
+import { hasPermission, isStaffRole, resolveUserRole, type Permission } from '@/lib/permissions';
 import { UserProfile, UserRole } from '@/types';
 
-// Mock authentication database
-const mockDb = {
-  users: new Map<string, { email: string; password: string; profile: UserProfile }>(),
-  sessions: new Map<string, { userId: string; expiresAt: number }>(),
-};
-
 /**
- * Authenticate user with email and password
+ * Server-side authentication
+ * API routes authenticate callers by the Firebase ID token the client sends
+ * as `Authorization: Bearer <token>`. Tokens are verified against Google's
+ * signing keys (or accepted unsigned from the Auth emulator) and the caller's
+ * role, and so their permissions, is read from roles/{uid}.
+ *
+ * Nothing in the user-writable profile is trusted. Only setUserRole writes
+ * roles/{uid}, and only the token's own email counts: it
+ * must be a university address, and it makes the caller an admin through
+ * NEXT_PUBLIC_ADMIN_EMAILS only once Firebase has verified it.
  */
-export async function authenticateUser(
-  email: string,
-  password: string
-): Promise<{ success: boolean; userId?: string; error?: string }> {
-  // Validate input
-  if (!email || !password) {
-    return {
-      success: false,
-      error: 'Email and password are required',
-    };
-  }
-  
-  // Find user by email
-  let foundUser: { email: string; password: string; profile: UserProfile } | undefined;
-  
-  for (const user of mockDb.users.values()) {
-    if (user.email === email) {
-      foundUser = user;
-      break;
-    }
-  }
-  
-  if (!foundUser) {
-    return {
-      success: false,
-      error: 'Invalid credentials',
-    };
-  }
-  
-  // Check password
-  if (foundUser.password !== password) {
-    return {
-      success: false,
-      error: 'Invalid credentials',
-    };
-  }
-  
-  return {
-    success: true,
-    userId: foundUser.profile.uid,
-  };
+
+const FIREBASE_JWKS_URL =
+  'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+export interface DecodedIdToken {
+  uid: string;
+  email?: string;
+  email_verified?: boolean;
+  exp: number; // Expires at (epoch seconds)
 }
 
-/**
- * Check if user has admin role
- */
-export async function isAdmin(userId: string): Promise<boolean> {
-  for (const user of mockDb.users.values()) {
-    if (user.profile.uid === userId) {
-      return user.profile.role === 'admin';
-    }
-  }
-  
-  return false;
+export type IdTokenVerifier = (idToken: string) => Promise<DecodedIdToken>;
+
+export interface AuthenticatedUser {
+  uid: string;
+  email: string | null;
+  role: UserRole;
+  profile: UserProfile | null;
 }
 
+export type AccessResult =
+  | { authorized: true; user: AuthenticatedUser }
+  | { authorized: false; status: 401 | 403; reason: string };
+
 /**
- * Check if user has specific role
+ * Thrown by ID token verifiers when a token is rejected
  */
-export async function hasRole(userId: string, role: UserRole): Promise<boolean> {
-  for (const user of mockDb.users.values()) {
-    if (user.profile.uid === userId) {
-      return user.profile.role === role;
-    }
+export class IdTokenError extends Error {
+  readonly expired: boolean;
+
+  constructor(message: string, expired: boolean = false) {
+    super(message);
+    this.name = 'IdTokenError';
+    this.expired = expired;
   }
-  
-  return false;
 }
 
-/**
- * Create a session for a user
- */
-export async function createSession(
-  userId: string,
-  durationMinutes: number = 60
-): Promise<string> {
-  const sessionId = `session-${Date.now()}-${Math.random()}`;
-  const expiresAt = Date.now() + durationMinutes * 60000;
-  
-  mockDb.sessions.set(sessionId, {
-    userId,
-    expiresAt,
-  });
-  
-  return sessionId;
-}
+let verifier: IdTokenVerifier = verifyFirebaseIdToken;
+let remoteKeys: ReturnType<typeof import('jose').createRemoteJWKSet> | null = null;
 
 /**
- * Validate a session
+ * Read the bearer token from a request's Authorization header
  */
-export async function validateSession(
-  sessionId: string
-): Promise<{ valid: boolean; userId?: string; expired?: boolean }> {
-  const session = mockDb.sessions.get(sessionId);
-  
-  if (!session) {
-    return { valid: false };
-  }
-  
-  if (Date.now() > session.expiresAt) {
-    return { valid: false, expired: true };
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+
+  if (!header?.startsWith('Bearer ')) {
+    return null;
   }
-  
-  return {
-    valid: true,
-    userId: session.userId,
-  };
-}
 
-/**
- * Check if user can access admin features
- */
-export async function canAccessAdminFeatures(userId: string): Promise<boolean> {
-  return isAdmin(userId);
+  return header.slice('Bearer '.length).trim() || null;
 }
 
 /**
- * Verify admin access with session
+ * Verify an ID token and resolve the caller's profile and role
  */
-export async function verifyAdminAccess(
-  sessionId: string
-): Promise<{ authorized: boolean; userId?: string; reason?: string }> {
-  // Validate session
-  const sessionValidation = await validateSession(sessionId);
-  
-  if (!sessionValidation.valid) {
+export async function authenticateUser(idToken: string): Promise<AccessResult> {
+  let decoded: DecodedIdToken;
+
+  try {
+    decoded = await verifier(idToken);
+  } catch (error) {
+    if (!(error instanceof IdTokenError)) {
+      console.error('Error verifying ID token:', error);
+    }
     return {
       authorized: false,
-      reason: sessionValidation.expired ? 'Session expired' : 'Invalid session',
+      status: 401,
+      reason: error instanceof IdTokenError && error.expired ? 'Session expired' : 'Invalid session',
     };
   }
-  
-  // Check if user is admin
-  const isUserAdmin = await isAdmin(sessionValidation.userId!);
-  
-  if (!isUserAdmin) {
+
+  const email = decoded.email ?? null;
+  const verifiedEmail = decoded.email_verified === true ? email : null;
+
+  if (!isUniversityEmail(email) && !isAdminEmail(verifiedEmail)) {
     return {
       authorized: false,
-      reason: 'Insufficient privileges',
+      status: 403,
+      reason: `Only ${UNIVERSITY_EMAIL_DOMAIN} accounts can use SeatFinderSRM`,
     };
   }
-  
+
+  const [profile, storedRole] = await Promise.all([getUserProfile(decoded.uid), getStoredRole(decoded.uid)]);
+
   return {
     authorized: true,
-    userId: sessionValidation.userId,
+    user: {
+      uid: decoded.uid,
+      email,
+      role: resolveUserRole(storedRole, verifiedEmail),
+      profile,
+    },
   };
 }
 
 /**
- * Authenticate admin user
+ * Verify an ID token and require the admin role
  */
-export async function authenticateAdmin(
-  email: string,
-  password: string
-): Promise<{ success: boolean; sessionId?: string; error?: string }> {
-  // Authenticate user
-  const authResult = await authenticateUser(email, password);
-  
-  if (!authResult.success) {
+export async function verifyAdminAccess(idToken: string): Promise<AccessResult> {
+  const result = await authenticateUser(idToken);
+
+  if (result.authorized && result.user.role !== 'admin') {
     return {
-      success: false,
-      error: authResult.error,
+      authorized: false,
+      status: 403,
+      reason: 'Insufficient privileges',
     };
   }
-  
-  // Check if user is admin
-  const isUserAdmin = await isAdmin(authResult.userId!);
-  
-  if (!isUserAdmin) {
+
+  return result;
+}
+
+/**
+ * Verify an ID token and require a permission
+ */
+export async function verifyPermissionAccess(
+  idToken: string,
+  permission: Permission
+): Promise<AccessResult> {
+  const result = await authenticateUser(idToken);
+
+  if (result.authorized && !hasPermission(result.user.role, permission)) {
     return {
-      success: false,
-      error: 'Access denied - admin privileges required',
+      authorized: false,
+      status: 403,
+      reason: 'Insufficient privileges',
     };
   }
-  
-  // Create session
-  const sessionId = await createSession(authResult.userId!);
-  
-  return {
-    success: true,
-    sessionId,
-  };
+
+  return result;
 }
 
 /**
- * Revoke a session
+ * Check if user has admin role
+ */
+export async function isAdmin(userId: string): Promise<boolean> {
+  return hasRole(userId, 'admin');
+}
+
+/**
+ * Check if user has specific role. Without an ID token only the stored role
+ * is known, so configured admin emails don't count here.
  */
-export async function revokeSession(sessionId: string): Promise<void> {
-  mockDb.sessions.delete(sessionId);
+export async function hasRole(userId: string, role: UserRole): Promise<boolean> {
+  return resolveUserRole(await getStoredRole(userId), null) === role;
+}
+
+/**
+ * Check if user can access admin features (any staff role)
+ */
+export async function canAccessAdminFeatures(userId: string): Promise<boolean> {
+  return isStaffRole(resolveUserRole(await getStoredRole(userId), null));
 }
 
 /**
  * Get user profile by ID
  */
 export async function getUserProfile(userId: string): Promise<UserProfile | null> {
-  for (const user of mockDb.users.values()) {
-    if (user.profile.uid === userId) {
-      return user.profile;
+  const snapshot = await get(ref(db, `users/${userId}`));
+
+  if (!snapshot.exists()) {
+    return null;
+  }
+
+  return { ...(snapshot.val() as UserProfile), uid: userId };
+}
+
+// Helper Functions
+
+/**
+ * The role stored for a user at roles/{uid}, if any
+ */
+async function getStoredRole(userId: string): Promise<unknown> {
+  const snapshot = await get(ref(db, `roles/${userId}`));
+  return snapshot.exists() ? snapshot.val() : null;
+}
+
+/**
+ * Verify a Firebase ID token. Against the Auth emulator
+ * (FIREBASE_AUTH_EMULATOR_HOST) tokens are unsigned, so only the claims are
+ * checked.
+ */
+async function verifyFirebaseIdToken(idToken: string): Promise<DecodedIdToken> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+  if (!projectId) {
+    throw new Error('NEXT_PUBLIC_FIREBASE_PROJECT_ID is not configured');
+  }
+
+  const issuer = `https://securetoken.google.com/${projectId}`;
+  const { createRemoteJWKSet, decodeJwt, jwtVerify, errors } = await import('jose');
+  let claims: import('jose').JWTPayload;
+
+  try {
+    if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+      claims = decodeJwt(idToken);
+      if (claims.aud !== projectId || claims.iss !== issuer) {
+        throw new IdTokenError('ID token was issued for a different project');
+      }
+      if (!claims.exp || claims.exp * 1000 < Date.now()) {
+        throw new IdTokenError('ID token has expired', true);
+      }
+    } else {
+      remoteKeys ??= createRemoteJWKSet(new URL(FIREBASE_JWKS_URL));
+      ({ payload: claims } = await jwtVerify(idToken, remoteKeys, {
+        issuer,
+        audience: projectId,
+        algorithms: ['RS256'],
+      }));
+    }
+  } catch (error) {
+    if (error instanceof IdTokenError) {
+      throw error;
+    }
+    if (error instanceof errors.JWTExpired) {
+      throw new IdTokenError('ID token has expired', true);
     }
+    if (error instanceof errors.JOSEError) {
+      throw new IdTokenError(error.message);
+    }
+    throw error;
+  }
+
+  if (!claims.sub) {
+    throw new IdTokenError('ID token has no subject');
   }
-  
-  return null;
+
+  return {
+    uid: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    email_verified: claims.email_verified === true,
+    exp: claims.exp!,
+  };
 }
 
 // Test utilities
 export const __test__ = {
-  addUser: (email: string, password: string, profile: UserProfile) => {
-    mockDb.users.set(profile.uid, { email, password, profile });
+  setVerifier: (fake: IdTokenVerifier) => {
+    verifier = fake;
   },
-  getUsers: () => Array.from(mockDb.users.values()),
-  getSessions: () => Array.from(mockDb.sessions.values()),
-  clear: () => {
-    mockDb.users.clear();
-    mockDb.sessions.clear();
+  reset: () => {
+    verifier = verifyFirebaseIdToken;
+    remoteKeys = null;
   },
 };
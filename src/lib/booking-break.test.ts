@@ -0,0 +1,78 @@
+import * as fc from 'fast-check';
+import type { Booking } from '@/types';
+import { DEFAULT_MAX_BREAK_MINUTES, getBreakDeadline, getBreakHours, getMaxBreakMinutes, getStudyHours } from './booking-break';
+
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+const at = (minutes: number) => new Date(NOW.getTime() + minutes * 60000).toISOString();
+
+function booking(overrides: Partial<Booking> = {}): Booking {
+  return {
+    id: 'b1',
+    seatId: 'G01',
+    userId: 'user1',
+    userName: 'Student',
+    userEmail: 'user1@srmist.edu.in',
+    bookingTime: at(0),
+    startTime: at(0),
+    endTime: at(180),
+    entryTime: at(0),
+    exitTime: at(180),
+    status: 'completed',
+    duration: 180,
+    createdAt: at(0),
+    updatedAt: at(0),
+    ...overrides,
+  };
+}
+
+describe('Booking Breaks', () => {
+  // Feature: booking-breaks, Property 2: Break time is counted apart from study time
+  test('Property 2: study and break hours together make up the time between entry and exit', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ length: fc.integer({ min: 1, max: 30 }), returned: fc.boolean() }), { maxLength: 3 }),
+        (breaks) => {
+          // One break in each 50-minute slot, so they never overlap
+          const records = Object.fromEntries(
+            breaks.map((b, index) => [
+              `k${index}`,
+              {
+                id: `k${index}`,
+                startedAt: at(index * 50),
+                endsBy: at(index * 50 + 30),
+                ...(b.returned ? { endedAt: at(index * 50 + b.length) } : {}),
+              },
+            ])
+          );
+          const subject = booking({ breaks: records });
+          const returnedMinutes = breaks.filter((b) => b.returned).reduce((sum, b) => sum + b.length, 0);
+
+          expect(getBreakHours(subject)).toBeCloseTo(returnedMinutes / 60);
+          expect(getStudyHours(subject) + getBreakHours(subject)).toBeCloseTo(3);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('only breaks the student came back from count as break time', () => {
+    const subject = booking({
+      breaks: {
+        k1: { id: 'k1', startedAt: at(30), endsBy: at(60), endedAt: at(45) },
+        k2: { id: 'k2', startedAt: at(90), endsBy: at(120) },
+      },
+    });
+
+    expect(getBreakHours(subject)).toBeCloseTo(0.25);
+    expect(getStudyHours(subject)).toBeCloseTo(2.75);
+    expect(getStudyHours(booking({ entryTime: undefined }))).toBe(0);
+  });
+
+  test('break deadlines follow the library limit but never pass the end of the booking', () => {
+    expect(getMaxBreakMinutes(null)).toBe(DEFAULT_MAX_BREAK_MINUTES);
+    expect(getMaxBreakMinutes({ bookingRules: { maxBreakDuration: 10 } } as any)).toBe(10);
+
+    expect(getBreakDeadline(booking(), 30, new Date(at(60))).toISOString()).toBe(at(90));
+    expect(getBreakDeadline(booking(), 30, new Date(at(170))).toISOString()).toBe(at(180));
+  });
+});
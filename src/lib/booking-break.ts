@@ -0,0 +1,51 @@
+import type { Booking, LibrarySettings } from '@/types';
+
+/**
+ * Break rules
+ * A student with an active booking can step away for a while without losing
+ * their seat. The seat shows as on break until they rescan their QR code; if
+ * they don't come back in time the booking ends when the break started.
+ */
+
+export const DEFAULT_MAX_BREAK_MINUTES = 30;
+
+/**
+ * The longest break the library allows, in minutes
+ */
+export function getMaxBreakMinutes(settings: LibrarySettings | null | undefined): number {
+  return settings?.bookingRules.maxBreakDuration ?? DEFAULT_MAX_BREAK_MINUTES;
+}
+
+/**
+ * When a break started now must end by: the break limit or the end of the
+ * booking, whichever comes first
+ */
+export function getBreakDeadline(booking: Booking, maxMinutes: number, now: Date): Date {
+  return new Date(Math.min(now.getTime() + maxMinutes * 60000, new Date(booking.endTime).getTime()));
+}
+
+/**
+ * Hours spent on breaks the student came back from
+ */
+export function getBreakHours(booking: Booking): number {
+  return Object.values(booking.breaks || {}).reduce((sum, b) => {
+    if (!b.endedAt) {
+      return sum;
+    }
+    return sum + Math.max(0, new Date(b.endedAt).getTime() - new Date(b.startedAt).getTime()) / (1000 * 60 * 60);
+  }, 0);
+}
+
+/**
+ * Hours actually spent studying: entry to exit, less any breaks
+ */
+export function getStudyHours(booking: Booking): number {
+  if (!booking.entryTime) {
+    return 0;
+  }
+
+  const start = new Date(booking.entryTime);
+  const end = new Date(booking.exitTime || booking.endTime);
+  const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+  return Math.max(0, hours - getBreakHours(booking));
+}
@@ -0,0 +1,246 @@
+import * as fc from 'fast-check';
+import type { Booking, BookingStatus, LibrarySettings } from '@/types';
+import {
+  describeViolations,
+  evaluateBookingPolicy,
+  evaluateExtensionPolicy,
+  evaluateOpeningHours,
+  getBookedMinutesOnDay,
+} from './booking-policy';
+
+// A Monday at 09:00 local time
+const NOW = new Date(2024, 0, 8, 9, 0, 0);
+
+const settings: LibrarySettings = {
+  operatingHours: {
+    monday: { open: '08:00', close: '22:00', isClosed: false },
+    tuesday: { open: '08:00', close: '22:00', isClosed: false },
+    wednesday: { open: '08:00', close: '22:00', isClosed: false },
+    thursday: { open: '08:00', close: '22:00', isClosed: false },
+    friday: { open: '08:00', close: '22:00', isClosed: false },
+    saturday: { open: '09:00', close: '18:00', isClosed: false },
+    sunday: { open: '09:00', close: '18:00', isClosed: true },
+  },
+  holidays: [{ date: '2024-01-15', name: 'Pongal' }],
+  bookingRules: {
+    maxDailyDuration: 300,
+    maxAdvanceBookingDays: 7,
+    minBookingDuration: 30,
+    maxBookingDuration: 240,
+    extensionIncrement: 30,
+  },
+  updatedBy: 'system',
+  updatedAt: NOW.toISOString(),
+};
+
+const at = (hours: number, minutes = 0, day = 8) => new Date(2024, 0, day, hours, minutes, 0);
+
+function booking(id: string, start: Date, duration: number, status: BookingStatus = 'pending'): Booking {
+  return {
+    id,
+    seatId: 'G01',
+    userId: 'user1',
+    userName: 'Student',
+    userEmail: 'user1@srmist.edu.in',
+    bookingTime: NOW.toISOString(),
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + duration * 60000).toISOString(),
+    status,
+    duration,
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+  };
+}
+
+const rulesOf = (violations: Array<{ rule: string }>) => violations.map((violation) => violation.rule);
+
+describe('Booking Policy', () => {
+  // Feature: booking-policy, Property 1: Duration limits
+  test('Property 1: a booking within opening hours is allowed iff its duration is within the limits', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 10, max: 14 }), fc.integer({ min: 1, max: 480 }), (hour, minutes) => {
+        const start = at(hour);
+        const end = new Date(start.getTime() + minutes * 60000);
+        const violations = evaluateBookingPolicy({ settings, startTime: start, endTime: end, now: NOW });
+
+        const rules = settings.bookingRules;
+        const closesAt = (22 - hour) * 60;
+        expect(rulesOf(violations).includes('min-duration')).toBe(minutes < rules.minBookingDuration);
+        expect(rulesOf(violations).includes('max-duration')).toBe(minutes > rules.maxBookingDuration);
+        expect(rulesOf(violations).includes('operating-hours')).toBe(minutes > closesAt);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  // Feature: booking-policy, Property 2: The daily cap counts all of the user's bookings that day
+  test('Property 2: the daily limit sums pending, active and completed bookings on the same day only', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            day: fc.constantFrom(8, 9),
+            duration: fc.integer({ min: 30, max: 120 }),
+            status: fc.constantFrom<BookingStatus>('pending', 'active', 'completed', 'cancelled', 'no-show'),
+          }),
+          { maxLength: 6 }
+        ),
+        fc.integer({ min: 30, max: 240 }),
+        (existing, minutes) => {
+          const userBookings = existing.map((b, index) => booking(`b${index}`, at(8, 0, b.day), b.duration, b.status));
+          const bookedToday = existing
+            .filter((b) => b.day === 8 && ['pending', 'active', 'completed'].includes(b.status))
+            .reduce((sum, b) => sum + b.duration, 0);
+
+          expect(getBookedMinutesOnDay(userBookings, at(12))).toBe(bookedToday);
+
+          const violations = evaluateBookingPolicy({
+            settings,
+            startTime: at(12),
+            endTime: new Date(at(12).getTime() + minutes * 60000),
+            now: NOW,
+            userBookings,
+          });
+          expect(rulesOf(violations).includes('daily-limit')).toBe(
+            bookedToday + minutes > settings.bookingRules.maxDailyDuration
+          );
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  // Feature: booking-policy, Property 3: Extensions follow the increment, length, daily and closing rules
+  test('Property 3: an extension is allowed iff it is a whole increment and stays within every limit', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 8, max: 20 }),
+        fc.integer({ min: 30, max: 240 }),
+        fc.integer({ min: 1, max: 180 }),
+        (hour, duration, additionalMinutes) => {
+          const current = booking('b1', at(hour), duration, 'active');
+          const violations = evaluateExtensionPolicy({ settings, booking: current, additionalMinutes, userBookings: [current] });
+
+          const newEnd = at(hour).getTime() + (duration + additionalMinutes) * 60000;
+          const allowed =
+            additionalMinutes % settings.bookingRules.extensionIncrement === 0 &&
+            duration + additionalMinutes <= settings.bookingRules.maxBookingDuration &&
+            duration + additionalMinutes <= settings.bookingRules.maxDailyDuration &&
+            newEnd <= at(22).getTime();
+
+          expect(violations.length === 0).toBe(allowed);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  test('rejects restricted users, closed days, holidays and bookings too far ahead', () => {
+    const restricted = evaluateBookingPolicy({
+      settings: null,
+      startTime: at(10),
+      endTime: at(11),
+      now: NOW,
+      restrictions: { isFlagged: true },
+    });
+    expect(rulesOf(restricted)).toEqual(['restricted-user']);
+
+    const suspension = { isFlagged: true, expiresAt: at(9, 0, 9).toISOString() };
+    const suspended = evaluateBookingPolicy({ settings, startTime: at(10), endTime: at(11), now: NOW, restrictions: suspension });
+    expect(rulesOf(suspended)).toEqual(['restricted-user']);
+    expect(
+      evaluateBookingPolicy({ settings, startTime: at(10, 0, 10), endTime: at(11, 0, 10), now: at(9, 0, 10), restrictions: suspension })
+    ).toEqual([]);
+
+    expect(rulesOf(evaluateOpeningHours(settings, at(10, 0, 14), at(11, 0, 14)))).toEqual(['operating-hours']);
+    expect(rulesOf(evaluateOpeningHours(settings, at(12, 0, 15), at(13, 0, 15)))).toEqual(['holiday']);
+    expect(rulesOf(evaluateOpeningHours(settings, at(7, 30), at(9)))).toEqual(['operating-hours']);
+    expect(evaluateOpeningHours(settings, at(20), at(22))).toEqual([]);
+
+    const farAhead = evaluateBookingPolicy({ settings, startTime: at(10, 0, 16), endTime: at(11, 0, 16), now: NOW });
+    expect(rulesOf(farAhead)).toEqual(['advance-window']);
+  });
+
+  test('bans and repeat-offender limits apply even without library settings', () => {
+    const strike = (id: string, issuedAt: Date) => ({
+      id,
+      reason: 'no-show' as const,
+      bookingId: null,
+      weight: 1,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: new Date(issuedAt.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    const penalties = { strikes: { s1: strike('s1', at(9, 0, 1)), s2: strike('s2', at(9, 0, 2)) } };
+
+    const long = evaluateBookingPolicy({ settings: null, startTime: at(10), endTime: at(13), now: NOW, penalties });
+    expect(rulesOf(long)).toEqual(['penalty-duration']);
+    expect(evaluateBookingPolicy({ settings: null, startTime: at(10), endTime: at(12), now: NOW, penalties })).toEqual([]);
+
+    const banned = { ...penalties, bannedAt: at(9, 0, 7).toISOString(), bannedUntil: at(9, 0, 14).toISOString() };
+    expect(rulesOf(evaluateBookingPolicy({ settings, startTime: at(10), endTime: at(11), now: NOW, penalties: banned }))).toEqual([
+      'penalty-ban',
+    ]);
+
+    const extension = evaluateExtensionPolicy({
+      settings,
+      booking: booking('b1', at(10), 120, 'active'),
+      additionalMinutes: 30,
+      penalties,
+      now: NOW,
+    });
+    expect(rulesOf(extension)).toEqual(['penalty-duration']);
+  });
+
+  test('reports every broken rule together', () => {
+    const violations = evaluateBookingPolicy({
+      settings,
+      startTime: at(21, 50),
+      endTime: at(22, 10),
+      now: NOW,
+      restrictions: { isFlagged: true },
+    });
+
+    expect(rulesOf(violations)).toEqual(['restricted-user', 'min-duration', 'operating-hours']);
+    expect(describeViolations(violations)).toBe(violations.map((v) => v.message).join('. '));
+    expect(evaluateBookingPolicy({ settings, startTime: at(11), endTime: at(10), now: NOW })).toEqual([
+      { rule: 'invalid-time', message: 'End time must be after start time' },
+    ]);
+  });
+
+  test('special hours decide the opening hours and rules on their dates', () => {
+    const examSeason: LibrarySettings = {
+      ...settings,
+      specialHours: [
+        {
+          id: 'exams',
+          name: 'Exam season',
+          startDate: '2024-01-08',
+          endDate: '2024-01-12',
+          hours: { open: '00:00', close: '24:00', isClosed: false },
+          bookingRules: { maxBookingDuration: 120 },
+        },
+        {
+          id: 'fair',
+          name: 'Book fair',
+          startDate: '2024-01-09',
+          endDate: '2024-01-09',
+          closures: [{ start: '14:00', end: '16:00', reason: 'Book fair setup' }],
+        },
+      ],
+    };
+
+    expect(evaluateBookingPolicy({ settings: examSeason, startTime: at(22), endTime: at(24), now: NOW })).toEqual([]);
+    expect(
+      rulesOf(evaluateBookingPolicy({ settings: examSeason, startTime: at(10), endTime: at(13), now: NOW }))
+    ).toEqual(['max-duration']);
+    expect(evaluateOpeningHours(examSeason, at(14, 30, 9), at(15, 0, 9))).toEqual([
+      { rule: 'operating-hours', message: 'The library is closed 14:00-16:00 (Book fair setup)' },
+    ]);
+    expect(evaluateOpeningHours(examSeason, at(13, 0, 9), at(14, 30, 9))).toEqual([
+      { rule: 'operating-hours', message: 'Bookings must end by closing time (14:00)' },
+    ]);
+    expect(
+      evaluateExtensionPolicy({ settings: examSeason, booking: booking('b1', at(13, 0, 9), 30), additionalMinutes: 60, now: NOW })
+    ).toEqual([{ rule: 'operating-hours', message: 'Bookings must end by closing time (14:00)' }]);
+  });
+});
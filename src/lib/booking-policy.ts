@@ -0,0 +1,245 @@
+import { isOpenBooking } from '@/lib/booking-status';
+import { atTimeOfDay, formatTimeOfDay, getClosureAt, getDaySchedule, getOpenPeriodAt } from '@/lib/opening-hours';
+import { getPenaltyPolicy, getPenaltyStatus } from '@/lib/penalties';
+import { isRestrictionActive } from '@/lib/restrictions';
+import type { Booking, LibrarySettings, PolicyViolation, UserPenalties, UserRestrictions } from '@/types';
+
+/**
+ * Booking policy engine
+ * Every rule a booking must satisfy, evaluated in one place so that the
+ * booking page, the booking engine, staff assignments and extensions agree.
+ * Rules come from the library settings, as they apply on the booking's day
+ * once special hours are taken into account; without settings only the basic
+ * checks (valid times, restricted users, penalties) apply. Each broken rule
+ * is reported as a separate violation.
+ */
+
+export interface BookingPolicyInput {
+  settings: LibrarySettings | null;
+  startTime: Date;
+  endTime: Date;
+  now: Date;
+  userBookings?: Booking[]; // The user's other bookings, for the daily limit
+  restrictions?: UserRestrictions | null;
+  penalties?: UserPenalties | null;
+}
+
+export interface ExtensionPolicyInput {
+  settings: LibrarySettings | null;
+  booking: Booking;
+  additionalMinutes: number;
+  userBookings?: Booking[];
+  restrictions?: UserRestrictions | null;
+  penalties?: UserPenalties | null;
+  now?: Date;
+}
+
+/**
+ * Evaluate a new booking against every rule
+ */
+export function evaluateBookingPolicy(input: BookingPolicyInput): PolicyViolation[] {
+  const { settings, startTime, endTime, now, userBookings = [], restrictions, penalties } = input;
+
+  if (isNaN(startTime.getTime()) || isNaN(endTime.getTime()) || endTime <= startTime) {
+    return [{ rule: 'invalid-time', message: 'End time must be after start time' }];
+  }
+
+  const duration = getDurationMinutes(startTime, endTime);
+  const violations: PolicyViolation[] = [
+    ...evaluateRestrictions(settings, restrictions, penalties, duration, now),
+  ];
+  if (!settings) {
+    return violations;
+  }
+
+  const rules = getDaySchedule(settings, startTime).bookingRules;
+  const latestStart = now.getTime() + rules.maxAdvanceBookingDays * 24 * 60 * 60 * 1000;
+
+  if (startTime.getTime() > latestStart) {
+    violations.push({
+      rule: 'advance-window',
+      message: `Bookings can be made at most ${rules.maxAdvanceBookingDays} days in advance`,
+    });
+  }
+  if (duration < rules.minBookingDuration) {
+    violations.push({ rule: 'min-duration', message: `Bookings must be at least ${rules.minBookingDuration} minutes` });
+  }
+  if (duration > rules.maxBookingDuration) {
+    violations.push({ rule: 'max-duration', message: `Bookings cannot exceed ${rules.maxBookingDuration} minutes` });
+  }
+  if (getBookedMinutesOnDay(userBookings, startTime) + duration > rules.maxDailyDuration) {
+    violations.push({
+      rule: 'daily-limit',
+      message: `Booking would exceed the daily limit of ${rules.maxDailyDuration} minutes`,
+    });
+  }
+
+  return [...violations, ...evaluateOpeningHours(settings, startTime, endTime)];
+}
+
+/**
+ * Evaluate extending a booking by `additionalMinutes`
+ */
+export function evaluateExtensionPolicy(input: ExtensionPolicyInput): PolicyViolation[] {
+  const { settings, booking, additionalMinutes, userBookings = [], restrictions, penalties, now = new Date() } = input;
+  const newDuration = booking.duration + additionalMinutes;
+  const violations: PolicyViolation[] = [
+    ...evaluateRestrictions(settings, restrictions, penalties, newDuration, now),
+  ];
+  if (!settings) {
+    return violations;
+  }
+
+  const startTime = new Date(booking.startTime);
+  const rules = getDaySchedule(settings, startTime).bookingRules;
+  const newEndTime = new Date(new Date(booking.endTime).getTime() + additionalMinutes * 60000);
+  const otherBookings = userBookings.filter((b) => b.id !== booking.id);
+
+  if (rules.extensionIncrement > 0 && additionalMinutes % rules.extensionIncrement !== 0) {
+    violations.push({
+      rule: 'extension-increment',
+      message: `Extensions must be in steps of ${rules.extensionIncrement} minutes`,
+    });
+  }
+  if (newDuration > rules.maxBookingDuration) {
+    violations.push({
+      rule: 'max-duration',
+      message: `Extension would exceed maximum booking duration of ${rules.maxBookingDuration} minutes`,
+    });
+  }
+  if (getBookedMinutesOnDay(otherBookings, startTime) + newDuration > rules.maxDailyDuration) {
+    violations.push({
+      rule: 'daily-limit',
+      message: `Extension would exceed maximum daily duration of ${rules.maxDailyDuration} minutes`,
+    });
+  }
+
+  const closingTime = getClosingTime(settings, startTime);
+  if (closingTime && newEndTime > closingTime) {
+    violations.push({ rule: 'operating-hours', message: `Bookings must end by closing time (${formatClosingTime(closingTime)})` });
+  }
+
+  return violations;
+}
+
+/**
+ * Check a time range against holidays and the day's opening hours, special
+ * hours included. A booking must start and end on the same day, within one
+ * stretch of opening hours.
+ */
+export function evaluateOpeningHours(settings: LibrarySettings | null, startTime: Date, endTime: Date): PolicyViolation[] {
+  if (!settings) {
+    return [];
+  }
+
+  const schedule = getDaySchedule(settings, startTime);
+  if (schedule.holiday) {
+    return [{ rule: 'holiday', message: 'Library is closed on this date (holiday)' }];
+  }
+  if (schedule.isClosed) {
+    return [{ rule: 'operating-hours', message: 'Booking time is outside operating hours' }];
+  }
+
+  const violations: PolicyViolation[] = [];
+  const period = getOpenPeriodAt(schedule, startTime);
+  if (!period) {
+    const closure = getClosureAt(schedule, startTime);
+    violations.push({
+      rule: 'operating-hours',
+      message: closure
+        ? `The library is closed ${closure.start}-${closure.end}${closure.reason ? ` (${closure.reason})` : ''}`
+        : `Booking time is outside operating hours (${schedule.open}-${schedule.close})`,
+    });
+  }
+
+  const closesAt = period?.end ?? schedule.close;
+  if (endTime > atTimeOfDay(startTime, closesAt)) {
+    violations.push({ rule: 'operating-hours', message: `Bookings must end by closing time (${closesAt})` });
+  }
+
+  return violations;
+}
+
+/**
+ * Minutes a user has booked on the given day, counting bookings that are
+ * pending, in progress or completed
+ */
+export function getBookedMinutesOnDay(bookings: Booking[], day: Date): number {
+  const dayStr = day.toDateString();
+  return bookings
+    .filter(
+      (b) =>
+        new Date(b.startTime).toDateString() === dayStr && (isOpenBooking(b.status) || b.status === 'completed')
+    )
+    .reduce((sum, b) => sum + (b.duration || 0), 0);
+}
+
+/**
+ * One message summarising the violations, for places that show a single line
+ */
+export function describeViolations(violations: PolicyViolation[]): string {
+  return violations.map((violation) => violation.message).join('. ');
+}
+
+// Helper Functions
+
+/**
+ * Rules about the student rather than the booking: staff restrictions and
+ * suspensions, penalty bans and the shorter sessions allowed to repeat offenders
+ */
+function evaluateRestrictions(
+  settings: LibrarySettings | null,
+  restrictions: UserRestrictions | null | undefined,
+  penalties: UserPenalties | null | undefined,
+  duration: number,
+  now: Date
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  if (isRestrictionActive(restrictions, now)) {
+    violations.push({
+      rule: 'restricted-user',
+      message: restrictions!.expiresAt
+        ? `Your booking privileges are suspended until ${new Date(restrictions!.expiresAt).toLocaleString()}`
+        : 'Your booking privileges have been restricted',
+    });
+  }
+
+  const status = getPenaltyStatus(penalties, getPenaltyPolicy(settings), now);
+  if (status.bannedUntil) {
+    violations.push({
+      rule: 'penalty-ban',
+      message: `You can't book until ${new Date(status.bannedUntil).toLocaleString()} because of repeated no-shows or overstays`,
+    });
+  }
+  if (status.maxDuration !== null && duration > status.maxDuration) {
+    violations.push({
+      rule: 'penalty-duration',
+      message: `With ${status.activeStrikes} active strikes, bookings are limited to ${status.maxDuration} minutes`,
+    });
+  }
+
+  return violations;
+}
+
+function getDurationMinutes(startTime: Date, endTime: Date): number {
+  return Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
+}
+
+/**
+ * When the library closes after `date`: the end of the open stretch it falls
+ * in, else the day's closing time, or null if it is closed all day
+ */
+function getClosingTime(settings: LibrarySettings, date: Date): Date | null {
+  const schedule = getDaySchedule(settings, date);
+  if (schedule.isClosed) {
+    return null;
+  }
+
+  return atTimeOfDay(date, getOpenPeriodAt(schedule, date)?.end ?? schedule.close);
+}
+
+// Midnight closing reads as 24:00 rather than 00:00
+function formatClosingTime(closing: Date): string {
+  const time = formatTimeOfDay(closing);
+  return time === '00:00' ? '24:00' : time;
+}
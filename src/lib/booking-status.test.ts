@@ -0,0 +1,68 @@
+import * as fc from 'fast-check';
+import type { BookingStatus } from '@/types';
+import {
+  canTransition,
+  transitionBooking,
+  getTransitionEvent,
+  isOpenBooking,
+  normalizeBookingStatus,
+  InvalidTransitionError,
+  type BookingEvent,
+} from './booking-status';
+
+const statusArb = fc.constantFrom<BookingStatus>('pending', 'active', 'completed', 'cancelled', 'no-show', 'expired');
+const eventArb = fc.constantFrom<BookingEvent>('check-in', 'check-out', 'cancel', 'expire', 'no-show', 'extend');
+
+describe('Booking Status State Machine', () => {
+  // Feature: booking-status, Property 1: Transitions are either applied or rejected with a typed error
+  test('Property 1: For any status and event, transitionBooking agrees with canTransition', () => {
+    fc.assert(
+      fc.property(statusArb, eventArb, (status, event) => {
+        if (canTransition(status, event)) {
+          const next = transitionBooking(status, event);
+          expect(getTransitionEvent(status, next)).toBeDefined();
+        } else {
+          expect(() => transitionBooking(status, event)).toThrow(InvalidTransitionError);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('follows the booking lifecycle', () => {
+    expect(transitionBooking('pending', 'check-in')).toBe('active');
+    expect(transitionBooking('active', 'check-out')).toBe('completed');
+    expect(transitionBooking('pending', 'expire')).toBe('expired');
+    expect(transitionBooking('pending', 'no-show')).toBe('no-show');
+    expect(transitionBooking('active', 'cancel')).toBe('cancelled');
+    expect(transitionBooking('active', 'extend')).toBe('active');
+  });
+
+  test('finished bookings accept no events', () => {
+    fc.assert(
+      fc.property(fc.constantFrom<BookingStatus>('completed', 'cancelled', 'no-show', 'expired'), eventArb, (status, event) => {
+        expect(canTransition(status, event)).toBe(false);
+        expect(isOpenBooking(status)).toBe(false);
+      })
+    );
+  });
+
+  test('rejects check-out before check-in with details of the attempt', () => {
+    try {
+      transitionBooking('pending', 'check-out');
+      throw new Error('expected InvalidTransitionError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidTransitionError);
+      expect((error as InvalidTransitionError).from).toBe('pending');
+      expect((error as InvalidTransitionError).event).toBe('check-out');
+    }
+  });
+
+  test('maps legacy statuses and rejects unknown ones', () => {
+    expect(normalizeBookingStatus('booked')).toBe('pending');
+    expect(transitionBooking('occupied', 'check-out')).toBe('completed');
+    expect(normalizeBookingStatus('toString')).toBeNull();
+    expect(() => transitionBooking('unknown', 'cancel')).toThrow(InvalidTransitionError);
+    expect(() => getTransitionEvent('completed', 'active')).toThrow(InvalidTransitionError);
+  });
+});
@@ -0,0 +1,132 @@
+import type { BookingStatus } from '@/types';
+
+/**
+ * Booking status state machine
+ * Every writer of a booking's status goes through this module so that only
+ * these transitions are ever stored:
+ *
+ *   pending --check-in--> active --check-out--> completed
+ *   pending --expire--> expired
+ *   pending --no-show--> no-show
+ *   pending | active --cancel--> cancelled
+ *   pending | active --extend--> (unchanged)
+ */
+
+export type BookingEvent = 'check-in' | 'check-out' | 'cancel' | 'expire' | 'no-show' | 'extend';
+
+const TRANSITIONS: Record<BookingStatus, Partial<Record<BookingEvent, BookingStatus>>> = {
+  pending: {
+    'check-in': 'active',
+    cancel: 'cancelled',
+    expire: 'expired',
+    'no-show': 'no-show',
+    extend: 'pending',
+  },
+  active: {
+    'check-out': 'completed',
+    cancel: 'cancelled',
+    extend: 'active',
+  },
+  completed: {},
+  cancelled: {},
+  'no-show': {},
+  expired: {},
+};
+
+// Statuses written by older clients, mapped onto the current ones
+const LEGACY_STATUSES: Record<string, BookingStatus> = {
+  booked: 'pending',
+  occupied: 'active',
+};
+
+/**
+ * Thrown when an event is not allowed from a booking's current status
+ */
+export class InvalidTransitionError extends Error {
+  readonly from: string;
+  readonly event: BookingEvent | null;
+  readonly to: BookingStatus | null;
+
+  constructor(from: string, event: BookingEvent | null, to: BookingStatus | null = null) {
+    super(
+      event
+        ? `Cannot ${event} a booking that is ${from}`
+        : `Cannot change a booking from ${from} to ${to}`
+    );
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.event = event;
+    this.to = to;
+  }
+}
+
+/**
+ * Thrown when a booking to act on does not exist
+ */
+export class BookingNotFoundError extends Error {
+  readonly bookingId: string;
+
+  constructor(bookingId: string) {
+    super(`Booking ${bookingId} not found`);
+    this.name = 'BookingNotFoundError';
+    this.bookingId = bookingId;
+  }
+}
+
+/**
+ * Map a stored status (including legacy values) onto a BookingStatus
+ */
+export function normalizeBookingStatus(status: string): BookingStatus | null {
+  if (Object.prototype.hasOwnProperty.call(TRANSITIONS, status)) {
+    return status as BookingStatus;
+  }
+  if (Object.prototype.hasOwnProperty.call(LEGACY_STATUSES, status)) {
+    return LEGACY_STATUSES[status];
+  }
+  return null;
+}
+
+/**
+ * Check whether an event is allowed from the given status
+ */
+export function canTransition(from: string, event: BookingEvent): boolean {
+  const status = normalizeBookingStatus(from);
+  return status !== null && TRANSITIONS[status][event] !== undefined;
+}
+
+/**
+ * Get the status a booking moves to on an event, or throw if it is illegal
+ */
+export function transitionBooking(from: string, event: BookingEvent): BookingStatus {
+  const status = normalizeBookingStatus(from);
+  const next = status ? TRANSITIONS[status][event] : undefined;
+
+  if (!next) {
+    throw new InvalidTransitionError(from, event);
+  }
+
+  return next;
+}
+
+/**
+ * Find the event that moves a booking between two statuses, or throw if none does
+ */
+export function getTransitionEvent(from: string, to: BookingStatus): BookingEvent {
+  const status = normalizeBookingStatus(from);
+  const transitions = status ? TRANSITIONS[status] : {};
+  const event = (Object.keys(transitions) as BookingEvent[]).find((e) => transitions[e] === to);
+
+  if (!event) {
+    throw new InvalidTransitionError(from, null, to);
+  }
+
+  return event;
+}
+
+/**
+ * Whether a booking still holds (or will hold) a seat
+ */
+export function isOpenBooking(status: string): boolean {
+  const normalized = normalizeBookingStatus(status);
+  return normalized === 'pending' || normalized === 'active';
+}
@@ -0,0 +1,196 @@
+import * as fc from 'fast-check';
+import {
+  areSeatsAdjacent,
+  arrangeSeatsInGrid,
+  clampToPlan,
+  findFreeSeatPosition,
+  getFloorPlan,
+  getNextSeatId,
+  getPlanBoxStyle,
+  getRoomSeatIds,
+  getSeatsBoundingBox,
+  normalizeRotation,
+  SEAT_SIZE,
+  validateFloorPlan,
+} from './floor-plan';
+import { DEFAULT_LAYOUT, getFloorSeats } from './seat-layout';
+import type { FloorPlan, LayoutSeat, SeatLayout } from '@/types';
+
+function overlaps(a: { x: number; y: number }, b: { x: number; y: number }): boolean {
+  return Math.abs(a.x - b.x) < SEAT_SIZE && Math.abs(a.y - b.y) < SEAT_SIZE;
+}
+
+function floorSeats(layout: SeatLayout, floorId: string): Record<string, LayoutSeat> {
+  return Object.fromEntries(getFloorSeats(layout, floorId).map((seat) => [seat.id, seat]));
+}
+
+const planWidthArb = fc.integer({ min: 100, max: 2000 });
+
+describe('Floor Plan Utilities', () => {
+  // Feature: floor-plans, Property 1: Every floor renders a valid plan, with or without a published one
+  test('Property 1: getFloorPlan places every seat of the floor inside the plan without overlaps', () => {
+    fc.assert(
+      fc.property(fc.constantFrom('ground', 'first', 'second', 'third'), planWidthArb, (floorId, width) => {
+        const layout: SeatLayout = {
+          ...DEFAULT_LAYOUT,
+          plans: { [floorId]: { width, height: 100, elements: {}, seats: {} } },
+        };
+        const plan = getFloorPlan(layout, floorId);
+
+        expect(Object.keys(plan.seats).sort()).toEqual(Object.keys(floorSeats(layout, floorId)).sort());
+        expect(validateFloorPlan(plan, floorSeats(layout, floorId), new Set())).toEqual([]);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: floor-plans, Property 2: Grid arrangements never overlap
+  test('Property 2: arrangeSeatsInGrid gives every seat its own spot', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 80 }), planWidthArb, (count, width) => {
+        const ids = Array.from({ length: count }, (_, index) => `s${index}`);
+        const placements = Object.values(arrangeSeatsInGrid(ids, width));
+
+        expect(placements).toHaveLength(count);
+        placements.forEach((a, index) => {
+          placements.slice(index + 1).forEach((b) => expect(overlaps(a, b)).toBe(false));
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: floor-plans, Property 3: Boxes are kept inside the plan
+  test('Property 3: clampToPlan keeps a box that fits inside the plan', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -500, max: 2500 }),
+        fc.integer({ min: -500, max: 2500 }),
+        fc.integer({ min: 1, max: 100 }),
+        (x, y, size) => {
+          const plan = { width: 1000, height: 600 };
+          const position = clampToPlan(plan, x, y, size, size);
+
+          expect(position.x).toBeGreaterThanOrEqual(0);
+          expect(position.y).toBeGreaterThanOrEqual(0);
+          expect(position.x + size).toBeLessThanOrEqual(plan.width);
+          expect(position.y + size).toBeLessThanOrEqual(plan.height);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: group-bookings, Property 4: Consecutive seats in a grid row form one block
+  test('Property 4: areSeatsAdjacent accepts a run of grid seats and rejects one with a gap', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 8 }), fc.integer({ min: 0, max: 10 }), (count, start) => {
+        const ids = Array.from({ length: 20 }, (_, index) => `s${index.toString().padStart(2, '0')}`);
+        const plan: FloorPlan = {
+          width: 2000,
+          height: 200,
+          elements: {},
+          seats: arrangeSeatsInGrid(ids, 2000),
+        };
+        const run = ids.slice(start, start + count);
+
+        expect(areSeatsAdjacent(plan, run)).toBe(true);
+        expect(areSeatsAdjacent(plan, [...run, ids[start + count + 2]])).toBe(false);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('keeps published positions and adds unplaced seats below them', () => {
+    const layout: SeatLayout = {
+      ...DEFAULT_LAYOUT,
+      plans: {
+        ground: {
+          width: 1000,
+          height: 600,
+          elements: { t1: { id: 't1', type: 'table', x: 100, y: 100, width: 120, height: 60, rotation: 0 } },
+          seats: { G01: { x: 500, y: 400, rotation: 90 } },
+        },
+      },
+    };
+    const plan = getFloorPlan(layout, 'ground');
+
+    expect(plan.seats.G01).toEqual({ x: 500, y: 400, rotation: 90 });
+    expect(plan.elements.t1).toBeDefined();
+    expect(Object.values(plan.seats).filter((seat) => seat.y > 400)).toHaveLength(49);
+    expect(plan.height).toBeGreaterThan(600);
+  });
+
+  test('reports what stops a plan from being published', () => {
+    const seats: Record<string, LayoutSeat> = {
+      A1: { id: 'A1', floorId: 'ground', label: 'A1', order: 1 },
+      A2: { id: 'A2', floorId: 'ground', label: 'A2', order: 2 },
+      A3: { id: 'A3', floorId: 'ground', label: 'A3', order: 3 },
+    };
+    const plan: FloorPlan = {
+      width: 400,
+      height: 200,
+      elements: { w1: { id: 'w1', type: 'wall', x: 300, y: 0, width: 200, height: 10, rotation: 0 } },
+      seats: {
+        A1: { x: 0, y: 0, rotation: 0 },
+        A2: { x: 20, y: 20, rotation: 0 },
+        B9: { x: 100, y: 100, rotation: 0 },
+      },
+    };
+
+    expect(validateFloorPlan(plan, seats, new Set(['A1'])).sort()).toEqual(
+      [
+        'Position given for unknown seat B9',
+        'Seat A1 is already on another floor',
+        'Seat A3 has no position',
+        'Seats A1 and A2 overlap',
+        'The wall w1 is outside the plan',
+      ].sort()
+    );
+  });
+
+  test('finds free spots and unused seat ids', () => {
+    const plan: FloorPlan = {
+      width: 200,
+      height: 200,
+      elements: {},
+      seats: { A: { x: 0, y: 0, rotation: 0 } },
+    };
+
+    expect(overlaps(findFreeSeatPosition(plan), plan.seats.A)).toBe(false);
+    expect(getNextSeatId(['G01', 'G02', 'G04'], 'G')).toBe('G03');
+    expect(getNextSeatId([], 'M')).toBe('M01');
+  });
+
+  test('converts plan units to percentages and normalises rotation', () => {
+    expect(getPlanBoxStyle({ width: 1000, height: 500 }, { x: 100, y: 250, width: 40, height: 40, rotation: 45 })).toEqual({
+      left: '10%',
+      top: '50%',
+      width: '4%',
+      height: '8%',
+      transform: 'rotate(45deg)',
+    });
+    expect(normalizeRotation(-90)).toBe(270);
+    expect(normalizeRotation(450)).toBe(90);
+  });
+
+  test('finds the seats in a study room and the box around a group', () => {
+    const plan: FloorPlan = {
+      width: 400,
+      height: 200,
+      elements: { r1: { id: 'r1', type: 'room', x: 0, y: 0, width: 200, height: 100, rotation: 0, label: 'Room 1' } },
+      seats: {
+        A: { x: 10, y: 10, rotation: 0 },
+        B: { x: 60, y: 10, rotation: 0 },
+        C: { x: 300, y: 10, rotation: 0 },
+      },
+    };
+
+    expect(getRoomSeatIds(plan, plan.elements.r1)).toEqual(['A', 'B']);
+    expect(areSeatsAdjacent(plan, ['A', 'B'])).toBe(true);
+    expect(areSeatsAdjacent(plan, ['A', 'C'])).toBe(false);
+    expect(areSeatsAdjacent(plan, ['A', 'missing'])).toBe(false);
+    expect(getSeatsBoundingBox(plan, ['A', 'B'], 5)).toEqual({ x: 5, y: 5, width: 100, height: 50, rotation: 0 });
+    expect(getSeatsBoundingBox(plan, ['missing'])).toBeNull();
+  });
+});
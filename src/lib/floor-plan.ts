@@ -0,0 +1,351 @@
+import { getFloorSeats } from '@/lib/seat-layout';
+import type {
+  FloorPlan,
+  FloorPlanElement,
+  FloorPlanElementType,
+  LayoutSeat,
+  SeatLayout,
+  SeatPlacement,
+} from '@/types';
+
+/**
+ * Floor plan utilities
+ * Positions are in plan units from the plan's top-left corner; seats are
+ * SEAT_SIZE squares placed by their top-left corner and rotated about their
+ * centre. Floors without a published plan are shown as a grid so every floor
+ * can be rendered the same way.
+ */
+
+export const DEFAULT_PLAN_WIDTH = 1000;
+export const DEFAULT_PLAN_HEIGHT = 600;
+export const SEAT_SIZE = 40;
+export const GRID_SIZE = 10;
+
+const GRID_GAP = 20;
+
+const DEFAULT_ELEMENT_SIZES: Record<FloorPlanElementType, { width: number; height: number }> = {
+  table: { width: 120, height: 60 },
+  wall: { width: 200, height: 10 },
+  zone: { width: 240, height: 160 },
+  room: { width: 200, height: 160 },
+};
+
+const DEFAULT_ELEMENT_LABELS: Partial<Record<FloorPlanElementType, string>> = {
+  zone: 'New Zone',
+  room: 'Study Room',
+};
+
+// Seats whose centres are at most this far apart sit next to each other
+export const ADJACENT_SEAT_DISTANCE = SEAT_SIZE * 2;
+
+/**
+ * Get the plan for a floor: the published plan, or a grid of the floor's
+ * seats. Seats missing from a published plan are added to the grid after
+ * the placed ones.
+ */
+export function getFloorPlan(layout: SeatLayout, floorId: string): FloorPlan {
+  const published = layout.plans[floorId];
+  const plan: FloorPlan = {
+    width: published?.width || DEFAULT_PLAN_WIDTH,
+    height: published?.height || DEFAULT_PLAN_HEIGHT,
+    elements: { ...(published?.elements || {}) },
+    seats: { ...(published?.seats || {}) },
+    versionId: published?.versionId,
+    updatedBy: published?.updatedBy,
+    updatedAt: published?.updatedAt,
+  };
+
+  const unplaced = getFloorSeats(layout, floorId).filter((seat) => !plan.seats[seat.id]);
+  const gridTop = Object.keys(plan.seats).length > 0 ? getPlanContentBottom(plan) + GRID_GAP : GRID_GAP;
+  const grid = arrangeSeatsInGrid(unplaced.map((seat) => seat.id), plan.width, gridTop);
+
+  plan.seats = { ...plan.seats, ...grid };
+  plan.height = Math.max(plan.height, getPlanContentBottom(plan) + GRID_GAP);
+
+  return plan;
+}
+
+/**
+ * Place seats in rows across the plan, starting at `top`
+ */
+export function arrangeSeatsInGrid(
+  seatIds: string[],
+  width: number = DEFAULT_PLAN_WIDTH,
+  top: number = GRID_GAP
+): Record<string, SeatPlacement> {
+  const step = SEAT_SIZE + GRID_GAP;
+  const perRow = Math.max(Math.floor((width - GRID_GAP) / step), 1);
+
+  return Object.fromEntries(
+    seatIds.map((seatId, index) => [
+      seatId,
+      {
+        x: GRID_GAP + (index % perRow) * step,
+        y: top + Math.floor(index / perRow) * step,
+        rotation: 0,
+      },
+    ])
+  );
+}
+
+/**
+ * Round a coordinate to the editor grid
+ */
+export function snapToGrid(value: number, step: number = GRID_SIZE): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Keep a box of the given size inside the plan
+ */
+export function clampToPlan(
+  plan: Pick<FloorPlan, 'width' | 'height'>,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): { x: number; y: number } {
+  return {
+    x: Math.min(Math.max(x, 0), Math.max(plan.width - width, 0)),
+    y: Math.min(Math.max(y, 0), Math.max(plan.height - height, 0)),
+  };
+}
+
+/**
+ * Normalise a rotation to 0-359 degrees
+ */
+export function normalizeRotation(rotation: number): number {
+  return ((Math.round(rotation) % 360) + 360) % 360;
+}
+
+/**
+ * Create a new furniture element in the middle of the plan
+ */
+export function createPlanElement(
+  plan: Pick<FloorPlan, 'width' | 'height'>,
+  type: FloorPlanElementType,
+  id: string
+): FloorPlanElement {
+  const { width, height } = DEFAULT_ELEMENT_SIZES[type];
+
+  return {
+    id,
+    type,
+    x: snapToGrid((plan.width - width) / 2),
+    y: snapToGrid((plan.height - height) / 2),
+    width,
+    height,
+    rotation: 0,
+    ...(DEFAULT_ELEMENT_LABELS[type] ? { label: DEFAULT_ELEMENT_LABELS[type] } : {}),
+  };
+}
+
+/**
+ * Find the first grid position where a new seat overlaps no other seat
+ */
+export function findFreeSeatPosition(plan: FloorPlan): SeatPlacement {
+  const placed = Object.values(plan.seats);
+
+  for (let y = 0; y + SEAT_SIZE <= plan.height; y += GRID_SIZE) {
+    for (let x = 0; x + SEAT_SIZE <= plan.width; x += GRID_SIZE) {
+      if (placed.every((seat) => Math.abs(seat.x - x) >= SEAT_SIZE || Math.abs(seat.y - y) >= SEAT_SIZE)) {
+        return { x, y, rotation: 0 };
+      }
+    }
+  }
+
+  return { x: 0, y: 0, rotation: 0 };
+}
+
+/**
+ * Suggest an unused seat id: the prefix followed by the next free number
+ */
+export function getNextSeatId(existingIds: Iterable<string>, prefix: string): string {
+  const taken = new Set(existingIds);
+  let number = 1;
+
+  while (taken.has(`${prefix}${number.toString().padStart(2, '0')}`)) {
+    number++;
+  }
+
+  return `${prefix}${number.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Position a box on a rendered plan as CSS percentages, so the plan scales
+ * with its container
+ */
+export function getPlanBoxStyle(
+  plan: Pick<FloorPlan, 'width' | 'height'>,
+  box: { x: number; y: number; width: number; height: number; rotation: number }
+): { left: string; top: string; width: string; height: string; transform?: string } {
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return {
+    left: percent(box.x, plan.width),
+    top: percent(box.y, plan.height),
+    width: percent(box.width, plan.width),
+    height: percent(box.height, plan.height),
+    ...(box.rotation ? { transform: `rotate(${box.rotation}deg)` } : {}),
+  };
+}
+
+/**
+ * Order elements for drawing: zones and rooms first, so seats and furniture
+ * sit on top of them
+ */
+export function sortElementsForDrawing(elements: FloorPlanElement[]): FloorPlanElement[] {
+  const isArea = (element: FloorPlanElement) => element.type === 'zone' || element.type === 'room';
+  return [...elements].sort((a, b) => Number(isArea(b)) - Number(isArea(a)));
+}
+
+/**
+ * Get the study rooms on a plan
+ */
+export function getStudyRooms(plan: FloorPlan): FloorPlanElement[] {
+  return Object.values(plan.elements).filter((element) => element.type === 'room');
+}
+
+/**
+ * Get the seats inside a study room: those whose centre lies within the
+ * room's (unrotated) box
+ */
+export function getRoomSeatIds(plan: FloorPlan, room: FloorPlanElement): string[] {
+  return Object.entries(plan.seats)
+    .filter(([, placement]) => {
+      const centreX = placement.x + SEAT_SIZE / 2;
+      const centreY = placement.y + SEAT_SIZE / 2;
+      return (
+        centreX >= room.x &&
+        centreX <= room.x + room.width &&
+        centreY >= room.y &&
+        centreY <= room.y + room.height
+      );
+    })
+    .map(([seatId]) => seatId)
+    .sort();
+}
+
+/**
+ * Check that seats form one connected block, each next to at least one other
+ */
+export function areSeatsAdjacent(plan: FloorPlan, seatIds: string[]): boolean {
+  if (seatIds.length === 0 || seatIds.some((seatId) => !plan.seats[seatId])) {
+    return false;
+  }
+
+  const isNeighbour = (a: SeatPlacement, b: SeatPlacement) =>
+    Math.hypot(a.x - b.x, a.y - b.y) <= ADJACENT_SEAT_DISTANCE;
+
+  const reached = new Set([seatIds[0]]);
+  const queue = [seatIds[0]];
+  while (queue.length > 0) {
+    const current = plan.seats[queue.shift()!];
+    seatIds
+      .filter((seatId) => !reached.has(seatId) && isNeighbour(current, plan.seats[seatId]))
+      .forEach((seatId) => {
+        reached.add(seatId);
+        queue.push(seatId);
+      });
+  }
+
+  return reached.size === seatIds.length;
+}
+
+/**
+ * The box around a set of placed seats, with some padding, for outlining a
+ * group on the plan. Null if none of the seats is placed.
+ */
+export function getSeatsBoundingBox(
+  plan: FloorPlan,
+  seatIds: string[],
+  padding: number = GRID_SIZE / 2
+): { x: number; y: number; width: number; height: number; rotation: number } | null {
+  const placed = seatIds.map((seatId) => plan.seats[seatId]).filter(Boolean);
+  if (placed.length === 0) {
+    return null;
+  }
+
+  const left = Math.min(...placed.map((seat) => seat.x)) - padding;
+  const top = Math.min(...placed.map((seat) => seat.y)) - padding;
+  const right = Math.max(...placed.map((seat) => seat.x + SEAT_SIZE)) + padding;
+  const bottom = Math.max(...placed.map((seat) => seat.y + SEAT_SIZE)) + padding;
+
+  return { x: left, y: top, width: right - left, height: bottom - top, rotation: 0 };
+}
+
+/**
+ * Find the problems that stop a floor plan from being published. `seats` are
+ * the floor's seats as edited; `otherFloorSeatIds` are seats on other floors.
+ */
+export function validateFloorPlan(
+  plan: FloorPlan,
+  seats: Record<string, LayoutSeat>,
+  otherFloorSeatIds: Set<string>
+): string[] {
+  const problems: string[] = [];
+
+  if (!(plan.width > 0) || !(plan.height > 0)) {
+    problems.push('Plan width and height must be positive');
+  }
+
+  Object.values(seats).forEach((seat) => {
+    if (!seat.id || !seat.label?.trim()) {
+      problems.push('Every seat needs an ID and a label');
+    }
+    if (otherFloorSeatIds.has(seat.id)) {
+      problems.push(`Seat ${seat.id} is already on another floor`);
+    }
+    if (!plan.seats[seat.id]) {
+      problems.push(`Seat ${seat.id} has no position`);
+    }
+  });
+
+  Object.entries(plan.seats).forEach(([seatId, placement]) => {
+    if (!seats[seatId]) {
+      problems.push(`Position given for unknown seat ${seatId}`);
+    } else if (!isInside(plan, placement.x, placement.y, SEAT_SIZE, SEAT_SIZE)) {
+      problems.push(`Seat ${seatId} is outside the plan`);
+    }
+  });
+
+  Object.values(plan.elements).forEach((element) => {
+    if (!(element.width > 0) || !(element.height > 0)) {
+      problems.push(`The ${element.type} ${element.label || element.id} has no size`);
+    } else if (!isInside(plan, element.x, element.y, element.width, element.height)) {
+      problems.push(`The ${element.type} ${element.label || element.id} is outside the plan`);
+    }
+  });
+
+  const placed = Object.entries(plan.seats).filter(([seatId]) => seats[seatId]);
+  placed.forEach(([seatId, a], index) => {
+    placed.slice(index + 1).forEach(([otherId, b]) => {
+      if (Math.abs(a.x - b.x) < SEAT_SIZE && Math.abs(a.y - b.y) < SEAT_SIZE) {
+        problems.push(`Seats ${seatId} and ${otherId} overlap`);
+      }
+    });
+  });
+
+  return Array.from(new Set(problems));
+}
+
+// Helper Functions
+
+function isInside(
+  plan: Pick<FloorPlan, 'width' | 'height'>,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): boolean {
+  return x >= 0 && y >= 0 && x + width <= plan.width && y + height <= plan.height;
+}
+
+/**
+ * The lowest edge of anything on the plan
+ */
+function getPlanContentBottom(plan: FloorPlan): number {
+  const seatBottoms = Object.values(plan.seats).map((seat) => seat.y + SEAT_SIZE);
+  const elementBottoms = Object.values(plan.elements).map((element) => element.y + element.height);
+  return Math.max(0, ...seatBottoms, ...elementBottoms);
+}
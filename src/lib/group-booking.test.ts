@@ -0,0 +1,82 @@
+import * as fc from 'fast-check';
+import { UNIVERSITY_EMAIL_DOMAIN } from './admin-config';
+import {
+  findGroupMember,
+  getGroupHoldExpiry,
+  getGroupHoldId,
+  GROUP_INVITE_TTL_MS,
+  GROUP_MAX_SIZE,
+  GROUP_MIN_SIZE,
+  isSeatedMember,
+  validateGroupMembers,
+} from './group-booking';
+
+const localPartArb = fc.stringMatching(/^[a-z][a-z0-9.]{2,12}$/);
+
+describe('Group Booking Rules', () => {
+  // Feature: group-bookings, Property 1: Groups of allowed size with distinct SRM emails are accepted
+  test('Property 1: validateGroupMembers accepts GROUP_MIN_SIZE-GROUP_MAX_SIZE distinct SRM members', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(localPartArb, { minLength: GROUP_MIN_SIZE, maxLength: GROUP_MAX_SIZE }),
+        (localParts) => {
+          const [organiser, ...members] = localParts.map((part) => `${part}${UNIVERSITY_EMAIL_DOMAIN}`);
+          expect(validateGroupMembers(organiser, members)).toBeNull();
+          // Case and whitespace don't make a duplicate look distinct
+          expect(validateGroupMembers(organiser, [...members.slice(1), ` ${members[0].toUpperCase()} `, members[0]])).not.toBeNull();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: group-bookings, Property 2: Groups outside the size limits are rejected
+  test('Property 2: validateGroupMembers rejects too few or too many members', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(localPartArb, { minLength: 1, maxLength: 15 }).filter(
+          (parts) => parts.length < GROUP_MIN_SIZE || parts.length > GROUP_MAX_SIZE
+        ),
+        (localParts) => {
+          const [organiser, ...members] = localParts.map((part) => `${part}${UNIVERSITY_EMAIL_DOMAIN}`);
+          expect(validateGroupMembers(organiser, members)).toMatch(/Groups must have/);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('rejects outside addresses and inviting yourself', () => {
+    const organiser = `lead${UNIVERSITY_EMAIL_DOMAIN}`;
+
+    expect(validateGroupMembers(organiser, [`a${UNIVERSITY_EMAIL_DOMAIN}`, 'b@gmail.com'])).toBe(
+      `b@gmail.com is not an ${UNIVERSITY_EMAIL_DOMAIN} email address`
+    );
+    expect(validateGroupMembers(organiser, [`a${UNIVERSITY_EMAIL_DOMAIN}`, `LEAD${UNIVERSITY_EMAIL_DOMAIN}`])).toMatch(
+      /already in the group/
+    );
+  });
+
+  test('finds members by email and knows who still has a seat', () => {
+    const group = {
+      members: [
+        { email: `a${UNIVERSITY_EMAIL_DOMAIN}`, seatId: 'G01', status: 'accepted' as const },
+        { email: `b${UNIVERSITY_EMAIL_DOMAIN}`, seatId: 'G02', status: 'declined' as const },
+      ],
+    };
+
+    expect(findGroupMember(group, ` A${UNIVERSITY_EMAIL_DOMAIN}`)?.seatId).toBe('G01');
+    expect(findGroupMember(group, `c${UNIVERSITY_EMAIL_DOMAIN}`)).toBeNull();
+    expect(group.members.map(isSeatedMember)).toEqual([true, false]);
+    expect(getGroupHoldId('g1', 'G02')).toBe('group-g1-G02');
+  });
+
+  test('invitations last until the group starts, or at least GROUP_INVITE_TTL_MS, within the booking', () => {
+    const invitedAt = new Date(2024, 0, 8, 10, 0);
+    const at = (hours: number, minutes = 0) => new Date(2024, 0, 8, hours, minutes);
+
+    expect(getGroupHoldExpiry(at(14), at(16), invitedAt)).toEqual(at(14));
+    expect(getGroupHoldExpiry(invitedAt, at(12), invitedAt)).toEqual(new Date(invitedAt.getTime() + GROUP_INVITE_TTL_MS));
+    expect(getGroupHoldExpiry(invitedAt, at(10, 20), invitedAt)).toEqual(at(10, 20));
+  });
+});
@@ -0,0 +1,81 @@
+import { UNIVERSITY_EMAIL_DOMAIN } from '@/lib/admin-config';
+import type { GroupBooking, GroupMember } from '@/types';
+
+/**
+ * Group booking rules
+ * A group of GROUP_MIN_SIZE to GROUP_MAX_SIZE students, all with SRM email
+ * addresses, books a block of adjacent seats or a study room. The organiser
+ * books straight away; every invitee's seat is held for the group until they
+ * accept or decline, or the invitation lapses.
+ */
+
+export const GROUP_MIN_SIZE = 3;
+export const GROUP_MAX_SIZE = 8;
+
+// Invitees always get at least this long to answer, even when the group starts straight away
+export const GROUP_INVITE_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Normalise an email address for comparison
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Check the invitee list for a group; returns the problem, or null if valid
+ */
+export function validateGroupMembers(organiserEmail: string, memberEmails: string[]): string | null {
+  const organiser = normalizeEmail(organiserEmail);
+  const emails = memberEmails.map(normalizeEmail);
+  const size = emails.length + 1;
+
+  if (size < GROUP_MIN_SIZE || size > GROUP_MAX_SIZE) {
+    return `Groups must have ${GROUP_MIN_SIZE} to ${GROUP_MAX_SIZE} people, including you`;
+  }
+
+  const invalid = emails.find((email) => !/^[^\s@]+@[^\s@]+$/.test(email) || !email.endsWith(UNIVERSITY_EMAIL_DOMAIN));
+  if (invalid !== undefined) {
+    return `${invalid || 'An empty address'} is not an ${UNIVERSITY_EMAIL_DOMAIN} email address`;
+  }
+  if (emails.includes(organiser)) {
+    return "You're already in the group; invite the other members only";
+  }
+  if (new Set(emails).size !== emails.length) {
+    return 'Each member can only be invited once';
+  }
+
+  return null;
+}
+
+/**
+ * The id under which an invitee's seat is held on the seat timeline
+ */
+export function getGroupHoldId(groupId: string, seatId: string): string {
+  return `group-${groupId}-${seatId}`;
+}
+
+/**
+ * When an unanswered invitation lapses and its seat is released: when the
+ * group starts, or GROUP_INVITE_TTL_MS after the invitation if that is later,
+ * but never after the group ends
+ */
+export function getGroupHoldExpiry(startTime: Date, endTime: Date, invitedAt: Date): Date {
+  const expiresAt = Math.max(startTime.getTime(), invitedAt.getTime() + GROUP_INVITE_TTL_MS);
+  return new Date(Math.min(expiresAt, endTime.getTime()));
+}
+
+/**
+ * Find a group member by email
+ */
+export function findGroupMember(group: Pick<GroupBooking, 'members'>, email: string): GroupMember | null {
+  const wanted = normalizeEmail(email);
+  return group.members.find((member) => member.email === wanted) || null;
+}
+
+/**
+ * Whether a member still has a seat in the group
+ */
+export function isSeatedMember(member: Pick<GroupMember, 'status'>): boolean {
+  return member.status === 'invited' || member.status === 'accepted';
+}
@@ -0,0 +1,124 @@
+import * as fc from 'fast-check';
+import type { ICalendarEvent } from './icalendar';
+import { applyHolidayImport, MAX_HOLIDAY_DAYS, planHolidayImport, type HolidayCalendar } from './holiday-import';
+
+const NOW = new Date('2025-01-01T09:00:00Z');
+
+const allDay = (date: string, summary: string, end?: string): ICalendarEvent => ({
+  summary,
+  start: { date },
+  ...(end ? { end: { date: end } } : {}),
+});
+
+const timed = (date: string, start: string, end: string, summary: string, uid?: string): ICalendarEvent => ({
+  summary,
+  start: { date, time: start },
+  end: { date, time: end },
+  ...(uid ? { uid } : {}),
+});
+
+const current: HolidayCalendar = {
+  holidays: [
+    { date: '2025-01-14', name: 'Pongal' },
+    { date: '2025-01-26', name: 'Republic Day' },
+  ],
+  specialHours: [
+    {
+      id: 'ical-fair@srmist',
+      name: 'Book fair',
+      startDate: '2025-02-03',
+      endDate: '2025-02-03',
+      closures: [{ start: '14:00', end: '16:00', reason: 'Book fair' }],
+    },
+  ],
+};
+
+describe('Holiday Import', () => {
+  // Feature: holiday-import, Property 1: Importing the same calendar twice changes nothing
+  test('Property 1: after an import, previewing the same events again skips every one of them', () => {
+    const eventArb = fc
+      .record({ offset: fc.integer({ min: 0, max: 60 }), days: fc.integer({ min: 1, max: 3 }), name: fc.constantFrom('Diwali', 'Holi', 'Onam') })
+      .map(({ offset, days, name }) => {
+        const start = new Date(Date.UTC(2025, 0, 1 + offset));
+        const end = new Date(Date.UTC(2025, 0, 1 + offset + days));
+        return allDay(start.toISOString().split('T')[0], name, end.toISOString().split('T')[0]);
+      });
+
+    fc.assert(
+      fc.property(fc.array(eventArb, { maxLength: 8 }), (events) => {
+        const imported = applyHolidayImport(current, planHolidayImport(events, current, NOW));
+        const again = planHolidayImport(events, imported, NOW);
+
+        expect(again.every((item) => item.action === 'skip')).toBe(true);
+        expect(new Set(imported.holidays.map((h) => h.date)).size).toBe(imported.holidays.length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('previews what each event would add, change or skip', () => {
+    const items = planHolidayImport(
+      [
+        allDay('2025-01-14', 'Pongal', '2025-01-16'),
+        allDay('2025-01-26', 'Republic Day (observed)'),
+        allDay('2025-01-15', 'Thiruvalluvar Day'),
+        allDay('2024-12-25', 'Christmas Day'),
+        allDay('2025-06-01', 'Summer vacation', '2025-07-15'),
+        allDay('2025-08-01', 'Academic calendar', '9999-12-31'),
+        { ...allDay('2025-03-14', 'Holi'), status: 'CANCELLED' },
+        timed('2025-01-20', '14:00', '17:00', 'Convocation', 'convocation@srmist'),
+        timed('2025-02-03', '15:00', '17:00', 'Book fair', 'fair@srmist'),
+        { ...timed('2025-01-21', '22:00', '02:00', 'Night event'), end: { date: '2025-01-22', time: '02:00' } },
+      ],
+      current,
+      NOW
+    );
+
+    expect(items.map(({ action, date, reason, previousName }) => ({ action, date, reason, previousName }))).toEqual([
+      { action: 'skip', date: '2025-01-14', reason: 'Already a holiday', previousName: undefined },
+      { action: 'add', date: '2025-01-15', reason: undefined, previousName: undefined },
+      { action: 'change', date: '2025-01-26', reason: undefined, previousName: 'Republic Day' },
+      { action: 'skip', date: '2025-01-15', reason: 'Listed more than once in the file', previousName: undefined },
+      { action: 'skip', date: '2024-12-25', reason: 'In the past', previousName: undefined },
+      {
+        action: 'skip',
+        date: '2025-06-01',
+        reason: `Runs for 44 days; only events up to ${MAX_HOLIDAY_DAYS} days are imported as holidays`,
+        previousName: undefined,
+      },
+      {
+        action: 'skip',
+        date: '2025-08-01',
+        reason: `Runs for 2912595 days; only events up to ${MAX_HOLIDAY_DAYS} days are imported as holidays`,
+        previousName: undefined,
+      },
+      { action: 'skip', date: '2025-03-14', reason: 'Cancelled in the calendar', previousName: undefined },
+      { action: 'add', date: '2025-01-20', reason: undefined, previousName: undefined },
+      { action: 'change', date: '2025-02-03', reason: undefined, previousName: 'Book fair' },
+      { action: 'skip', date: '2025-01-21', reason: 'Closures must start and end on the same day', previousName: undefined },
+    ]);
+
+    const applied = applyHolidayImport(current, items);
+    expect(applied.holidays).toEqual([
+      { date: '2025-01-14', name: 'Pongal' },
+      { date: '2025-01-15', name: 'Pongal' },
+      { date: '2025-01-26', name: 'Republic Day (observed)' },
+    ]);
+    expect(applied.specialHours).toEqual([
+      {
+        id: 'ical-convocation@srmist',
+        name: 'Convocation',
+        startDate: '2025-01-20',
+        endDate: '2025-01-20',
+        closures: [{ start: '14:00', end: '17:00', reason: 'Convocation' }],
+      },
+      {
+        id: 'ical-fair@srmist',
+        name: 'Book fair',
+        startDate: '2025-02-03',
+        endDate: '2025-02-03',
+        closures: [{ start: '15:00', end: '17:00', reason: 'Book fair' }],
+      },
+    ]);
+  });
+});
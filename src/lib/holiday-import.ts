@@ -0,0 +1,178 @@
+import { addDays, type ICalendarEvent, type ICalendarTime } from '@/lib/icalendar';
+import { toDateKey } from '@/lib/recurrence';
+import type { Holiday, HolidayImportItem, SpecialHours } from '@/types';
+
+/**
+ * Holiday import planning
+ * Turns the events of an iCalendar file into holidays and closures and works
+ * out, before anything is saved, what each would do:
+ *
+ * - All-day events become a holiday on each day they cover
+ * - Timed events become a partial-day closure, saved as special hours
+ * - A date that is already a holiday under the same name is skipped; under
+ *   another name the holiday is renamed
+ * - A closure imported before (same calendar UID) is updated in place
+ * - Past, cancelled, very long and overnight events are skipped
+ */
+
+// Longer all-day events are terms or semesters rather than holidays
+export const MAX_HOLIDAY_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HolidayCalendar {
+  holidays: Holiday[];
+  specialHours: SpecialHours[];
+}
+
+/**
+ * Work out what importing the events would add, change and skip
+ */
+export function planHolidayImport(events: ICalendarEvent[], current: HolidayCalendar, now: Date): HolidayImportItem[] {
+  const today = toDateKey(now);
+  const items: HolidayImportItem[] = [];
+  const importedDates = new Set<string>();
+
+  events.forEach((event) => {
+    const name = event.summary.trim() || 'Holiday';
+    const kind = event.start.time ? 'closure' : 'holiday';
+    const skip = (reason: string) => items.push({ action: 'skip', kind, date: event.start.date, name, reason });
+
+    if (event.status === 'CANCELLED') {
+      skip('Cancelled in the calendar');
+    } else if (!event.start.time) {
+      // Measured before listing the dates, as an end date can be years away
+      const days = getEventDays(event);
+      if (days > MAX_HOLIDAY_DAYS) {
+        skip(`Runs for ${days} days; only events up to ${MAX_HOLIDAY_DAYS} days are imported as holidays`);
+        return;
+      }
+      Array.from({ length: days }, (_, offset) => addDays(event.start.date, offset)).forEach((date) => {
+        items.push(planHoliday(date, name, current.holidays, importedDates, today));
+        importedDates.add(date);
+      });
+    } else if (!event.end?.time) {
+      skip('Has no end time');
+    } else {
+      const end = getClosureEnd(event.start, event.end);
+      if (!end) {
+        skip('Closures must start and end on the same day');
+      } else if (end <= event.start.time) {
+        skip('Ends before it starts');
+      } else {
+        items.push(planClosure(event, name, end, current.specialHours, today));
+      }
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Apply the planned additions and changes to the holidays and special hours
+ */
+export function applyHolidayImport(current: HolidayCalendar, items: HolidayImportItem[]): HolidayCalendar {
+  let holidays = [...current.holidays];
+  let specialHours = [...current.specialHours];
+
+  items.forEach((item) => {
+    if (item.action === 'skip') {
+      return;
+    }
+
+    if (item.kind === 'holiday') {
+      holidays = [...holidays.filter((h) => h.date !== item.date), { date: item.date, name: item.name }];
+      return;
+    }
+
+    const special: SpecialHours = {
+      id: item.specialHoursId!,
+      name: item.name,
+      startDate: item.date,
+      endDate: item.date,
+      closures: [{ start: item.start!, end: item.end!, reason: item.name }],
+    };
+    specialHours = [...specialHours.filter((s) => s.id !== special.id), special];
+  });
+
+  return {
+    holidays: holidays.sort((a, b) => a.date.localeCompare(b.date)),
+    specialHours: specialHours.sort((a, b) => a.startDate.localeCompare(b.startDate)),
+  };
+}
+
+// Helper Functions
+
+function planHoliday(
+  date: string,
+  name: string,
+  holidays: Holiday[],
+  importedDates: Set<string>,
+  today: string
+): HolidayImportItem {
+  const existing = holidays.find((h) => h.date === date);
+
+  if (date < today) {
+    return { action: 'skip', kind: 'holiday', date, name, reason: 'In the past' };
+  }
+  if (importedDates.has(date)) {
+    return { action: 'skip', kind: 'holiday', date, name, reason: 'Listed more than once in the file' };
+  }
+  if (existing?.name === name) {
+    return { action: 'skip', kind: 'holiday', date, name, reason: 'Already a holiday' };
+  }
+  if (existing) {
+    return { action: 'change', kind: 'holiday', date, name, previousName: existing.name };
+  }
+  return { action: 'add', kind: 'holiday', date, name };
+}
+
+function planClosure(
+  event: ICalendarEvent,
+  name: string,
+  end: string,
+  specialHours: SpecialHours[],
+  today: string
+): HolidayImportItem {
+  const { date, time: start } = event.start;
+  const specialHoursId = `ical-${event.uid ?? `${date}-${start}`}`;
+  const item: HolidayImportItem = { action: 'add', kind: 'closure', date, name, start, end, specialHoursId };
+  const imported = specialHours.find((s) => s.id === specialHoursId);
+  const sameClosure = (s: SpecialHours) =>
+    s.startDate <= date && date <= s.endDate && (s.closures || []).some((c) => c.start === start && c.end === end);
+
+  if (date < today) {
+    return { ...item, action: 'skip', reason: 'In the past' };
+  }
+  if (imported) {
+    return imported.name === name && imported.startDate === date && sameClosure(imported)
+      ? { ...item, action: 'skip', reason: 'Already imported' }
+      : { ...item, action: 'change', previousName: imported.name };
+  }
+  if (specialHours.some(sameClosure)) {
+    return { ...item, action: 'skip', reason: 'Already closed then' };
+  }
+  return item;
+}
+
+/**
+ * How many days an all-day event covers; its end date is the day after it ends
+ */
+function getEventDays(event: ICalendarEvent): number {
+  if (!event.end) {
+    return 1;
+  }
+  const span = (Date.parse(event.end.date) - Date.parse(event.start.date)) / DAY_MS;
+  return Math.max(1, Math.round(span));
+}
+
+/**
+ * When a timed event ends on the day it starts, with midnight as 24:00, or
+ * null if it runs on past midnight
+ */
+function getClosureEnd(start: ICalendarTime, end: ICalendarTime): string | null {
+  if (end.date === start.date) {
+    return end.time!;
+  }
+  return end.date === addDays(start.date, 1) && end.time === '00:00' ? '24:00' : null;
+}
@@ -0,0 +1,81 @@
+import * as fc from 'fast-check';
+import { exportHolidaysToICalendar, parseICalendar } from './icalendar';
+import { formatTimeOfDay } from './opening-hours';
+
+const holidayArb = fc.record({
+  date: fc
+    .integer({ min: 0, max: 3 * 365 })
+    .map((offset) => new Date(Date.UTC(2024, 0, 1 + offset)).toISOString().split('T')[0]),
+  name: fc.string({ minLength: 1, maxLength: 120 }).filter((name) => name.trim() === name && !/[\r\n]/.test(name)),
+});
+
+describe('iCalendar', () => {
+  // Feature: holiday-import, Property 1: Exported holidays read back unchanged
+  test('Property 1: holidays exported to .ics parse back as the same all-day events', () => {
+    fc.assert(
+      fc.property(fc.uniqueArray(holidayArb, { selector: (h) => h.date, maxLength: 10 }), (holidays) => {
+        const ics = exportHolidaysToICalendar(holidays, new Date('2024-01-01T00:00:00Z'));
+        const events = parseICalendar(ics)!;
+
+        expect(ics.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+        expect(events.map((event) => ({ date: event.start.date, name: event.summary }))).toEqual(
+          [...holidays].sort((a, b) => a.date.localeCompare(b.date))
+        );
+        events.forEach((event) => expect(event.start.time).toBeUndefined());
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('reads folded lines, escaped text, parameters and UTC times', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:pongal-2025@srmist.edu.in',
+      'DTSTART;VALUE=DATE:20250114',
+      'DTEND;VALUE=DATE:20250116',
+      'SUMMARY:Pongal\\, Thiruvalluvar',
+      '  Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID="Asia/Kolkata":20250120T140000',
+      'DTEND;TZID="Asia/Kolkata":20250120T170000',
+      'SUMMARY:Convocation',
+      'STATUS:confirmed',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20250121T090000Z',
+      'DTEND:20250121T100000Z',
+      'SUMMARY:Fire drill',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:No start date',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    // 09:00 UTC is 14:30 in the test timezone
+    const utc = new Date(Date.UTC(2025, 0, 21, 9, 0));
+    expect(parseICalendar(ics)).toEqual([
+      {
+        uid: 'pongal-2025@srmist.edu.in',
+        summary: 'Pongal, Thiruvalluvar Day',
+        start: { date: '2025-01-14' },
+        end: { date: '2025-01-16' },
+      },
+      {
+        summary: 'Convocation',
+        status: 'CONFIRMED',
+        start: { date: '2025-01-20', time: '14:00' },
+        end: { date: '2025-01-20', time: '17:00' },
+      },
+      {
+        summary: 'Fire drill',
+        start: { date: '2025-01-21', time: formatTimeOfDay(utc) },
+        end: { date: '2025-01-21', time: formatTimeOfDay(new Date(utc.getTime() + 60 * 60 * 1000)) },
+      },
+    ]);
+    expect(parseICalendar('date,name\n2025-01-14,Pongal')).toBeNull();
+  });
+});
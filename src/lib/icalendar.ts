@@ -0,0 +1,186 @@
+import type { Holiday } from '@/types';
+
+/**
+ * iCalendar (.ics) reading and writing
+ * Only what the holiday import and export need: the events of a calendar
+ * with their UID, summary, status and start and end. Recurring events are
+ * read as their first occurrence.
+ *
+ * Times in UTC are converted to the server's local time; times with a TZID
+ * or no zone are taken as the library's wall-clock time.
+ */
+
+export interface ICalendarTime {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:mm; absent for all-day dates
+}
+
+export interface ICalendarEvent {
+  uid?: string;
+  summary: string;
+  status?: string; // e.g. CONFIRMED, CANCELLED
+  start: ICalendarTime;
+  end?: ICalendarTime; // Exclusive, as in the file
+}
+
+const DATE_VALUE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+// Lines longer than this are folded, as RFC 5545 asks
+const MAX_LINE_LENGTH = 75;
+
+/**
+ * Read the events from an iCalendar file. Returns null if the text isn't an
+ * iCalendar; events without a readable start are left out.
+ */
+export function parseICalendar(text: string): ICalendarEvent[] | null {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map(parseLine)
+    .filter((line): line is ContentLine => line !== null);
+
+  if (!lines.some((line) => line.name === 'BEGIN' && line.value.toUpperCase() === 'VCALENDAR')) {
+    return null;
+  }
+
+  const events: ICalendarEvent[] = [];
+  let current: Partial<ICalendarEvent> | null = null;
+
+  lines.forEach((line) => {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = { summary: '' };
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      if (current?.start) {
+        events.push(current as ICalendarEvent);
+      }
+      current = null;
+    } else if (current) {
+      switch (line.name) {
+        case 'UID':
+          current.uid = line.value;
+          break;
+        case 'SUMMARY':
+          current.summary = unescapeText(line.value);
+          break;
+        case 'STATUS':
+          current.status = line.value.toUpperCase();
+          break;
+        case 'DTSTART':
+          current.start = parseDateValue(line.value) ?? undefined;
+          break;
+        case 'DTEND':
+          current.end = parseDateValue(line.value) ?? undefined;
+          break;
+      }
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Write holidays as an iCalendar of all-day events
+ */
+export function exportHolidaysToICalendar(holidays: Holiday[], now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SeatFinderSRM//Library Holidays//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Library Holidays',
+  ];
+
+  [...holidays]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((holiday) => {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:holiday-${holiday.date}@seatfindersrm`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${holiday.date.replace(/-/g, '')}`,
+        `DTEND;VALUE=DATE:${addDays(holiday.date, 1).replace(/-/g, '')}`,
+        `SUMMARY:${escapeText(holiday.name)}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The YYYY-MM-DD date `days` days after `date`
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// Helper Functions
+
+interface ContentLine {
+  name: string;
+  value: string;
+}
+
+/**
+ * Split `NAME;PARAM=...:value`, ignoring colons inside quoted parameters
+ */
+function parseLine(line: string): ContentLine | null {
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      return { name: line.slice(0, i).split(';')[0].toUpperCase(), value: line.slice(i + 1) };
+    }
+  }
+
+  return null;
+}
+
+function parseDateValue(value: string): ICalendarTime | null {
+  const match = DATE_VALUE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, , utc] = match;
+  if (hour === undefined) {
+    return { date: `${year}-${month}-${day}` };
+  }
+  if (!utc) {
+    return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}` };
+  }
+
+  const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute)));
+  return {
+    date: [local.getFullYear(), pad(local.getMonth() + 1), pad(local.getDate())].join('-'),
+    time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+  };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+function escapeText(value: string): string {
+  return value.replace(/([\\;,])/g, '\\$1').replace(/\n/g, '\\n');
+}
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += MAX_LINE_LENGTH - 1) {
+    parts.push(line.slice(i, i + MAX_LINE_LENGTH - 1));
+  }
+  return parts.join('\r\n ');
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
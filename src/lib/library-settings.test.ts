@@ -0,0 +1,157 @@
+import * as fc from 'fast-check';
+import type { LibrarySettingsVersion } from '@/types';
+import { DEFAULT_PENALTY_POLICY } from './penalties';
+import {
+  DAYS_OF_WEEK,
+  DEFAULT_LIBRARY_SETTINGS,
+  getPreviousVersion,
+  validateBookingRules,
+  validateHolidays,
+  validateLibrarySettings,
+  validateOperatingHours,
+  validateSpecialHours,
+} from './library-settings';
+
+const timeArb = fc
+  .record({ hour: fc.integer({ min: 0, max: 23 }), minute: fc.constantFrom(0, 15, 30, 45) })
+  .map(({ hour, minute }) => `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`);
+
+const rulesArb = fc.record({
+  minBookingDuration: fc.integer({ min: 0, max: 300 }),
+  maxBookingDuration: fc.integer({ min: 0, max: 1600 }),
+  maxDailyDuration: fc.integer({ min: 0, max: 1600 }),
+  extensionIncrement: fc.integer({ min: 0, max: 120 }),
+  maxAdvanceBookingDays: fc.integer({ min: 0, max: 30 }),
+});
+
+describe('Library Settings Rules', () => {
+  // Feature: library-settings, Property 1: An open day is valid iff it closes after it opens
+  test('Property 1: opening hours are accepted iff every open day closes after it opens', () => {
+    fc.assert(
+      fc.property(fc.array(fc.tuple(timeArb, timeArb, fc.boolean()), { minLength: 7, maxLength: 7 }), (days) => {
+        const operatingHours = Object.fromEntries(
+          DAYS_OF_WEEK.map((day, i) => [day, { open: days[i][0], close: days[i][1], isClosed: days[i][2] }])
+        );
+        const valid = days.every(([open, close, isClosed]) => isClosed || close > open);
+
+        expect(validateOperatingHours(operatingHours).length === 0).toBe(valid);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: library-settings, Property 2: Booking lengths must nest inside each other
+  test('Property 2: booking rules are accepted iff 0 < min <= max <= daily, max <= 24h and the extension step fits', () => {
+    fc.assert(
+      fc.property(rulesArb, (rules) => {
+        const valid =
+          rules.minBookingDuration >= 1 &&
+          rules.minBookingDuration <= rules.maxBookingDuration &&
+          rules.maxBookingDuration <= rules.maxDailyDuration &&
+          rules.maxBookingDuration <= 24 * 60 &&
+          rules.extensionIncrement >= 1 &&
+          rules.extensionIncrement <= rules.maxBookingDuration;
+
+        expect(validateBookingRules(rules).length === 0).toBe(valid);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('the defaults are valid', () => {
+    expect(validateLibrarySettings(DEFAULT_LIBRARY_SETTINGS)).toEqual([]);
+    expect(validateLibrarySettings({ ...DEFAULT_LIBRARY_SETTINGS, penaltyPolicy: DEFAULT_PENALTY_POLICY })).toEqual([]);
+  });
+
+  test('non-numbers and breaks as long as a booking are refused', () => {
+    const rules = DEFAULT_LIBRARY_SETTINGS.bookingRules;
+
+    expect(validateBookingRules({ ...rules, minBookingDuration: NaN })).toEqual(['Minimum booking length must be a whole number']);
+    expect(validateBookingRules({ ...rules, maxBreakDuration: rules.maxBookingDuration })).toEqual([
+      'Break length must be at least 1 minute and shorter than the maximum booking length',
+    ]);
+    expect(validateBookingRules({ ...rules, maxBreakDuration: 15 })).toEqual([]);
+  });
+
+  test('holidays need a real date, a name and no repeats', () => {
+    expect(validateHolidays([{ date: '2024-12-25', name: 'Christmas Day' }])).toEqual([]);
+    expect(validateHolidays([{ date: '25/12/2024', name: 'Christmas Day' }])).toEqual([
+      'Holiday "Christmas Day" needs a date as YYYY-MM-DD',
+    ]);
+    expect(
+      validateHolidays([
+        { date: '2024-12-25', name: 'Christmas Day' },
+        { date: '2024-12-25', name: ' ' },
+      ])
+    ).toEqual(['2024-12-25 is listed as a holiday more than once', 'The holiday on 2024-12-25 needs a name']);
+  });
+
+  test('penalty settings must be sensible', () => {
+    const problems = validateLibrarySettings({
+      ...DEFAULT_LIBRARY_SETTINGS,
+      penaltyPolicy: { ...DEFAULT_PENALTY_POLICY, banThreshold: 0, repeatOffenderMaxDuration: 10 },
+    });
+
+    expect(problems).toEqual([
+      'Strikes before a ban must be a whole number of at least 1',
+      'Shortened booking length cannot be below the minimum booking length',
+    ]);
+  });
+
+  test('each version is compared with the one live before it, and pending ones with the live one', () => {
+    const version = (id: string, status: LibrarySettingsVersion['status'], appliedAt?: string): LibrarySettingsVersion => ({
+      id,
+      settings: DEFAULT_LIBRARY_SETTINGS,
+      status,
+      effectiveFrom: appliedAt ?? '2024-09-01T00:00:00.000Z',
+      createdBy: 'admin1',
+      createdByName: 'Ada',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      ...(appliedAt ? { appliedAt } : {}),
+    });
+    const v1 = version('v1', 'applied', '2024-01-01T00:00:00.000Z');
+    const v2 = version('v2', 'applied', '2024-02-01T00:00:00.000Z');
+    const scheduled = version('v3', 'scheduled');
+    const cancelled = version('v4', 'cancelled');
+    const versions = [cancelled, scheduled, v2, v1];
+
+    expect(getPreviousVersion(versions, v1)).toBeNull();
+    expect(getPreviousVersion(versions, v2)).toBe(v1);
+    expect(getPreviousVersion(versions, scheduled)).toBe(v2);
+    expect(getPreviousVersion(versions, cancelled)).toBe(v2);
+  });
+
+  test('special hours need a name, a date range, sensible hours and rules that still fit', () => {
+    const examSeason = {
+      id: 'exams',
+      name: 'Exam season',
+      startDate: '2024-04-01',
+      endDate: '2024-04-30',
+      hours: { open: '00:00', close: '24:00', isClosed: false },
+      closures: [{ start: '06:00', end: '07:00' }],
+    };
+
+    expect(validateSpecialHours([examSeason], DEFAULT_LIBRARY_SETTINGS.bookingRules)).toEqual([]);
+    expect(
+      validateSpecialHours(
+        [
+          { ...examSeason, name: ' ', endDate: '2024-03-31' },
+          {
+            ...examSeason,
+            hours: { open: '18:00', close: '12:00', isClosed: false },
+            closures: [{ start: '10:00', end: '09:00' }],
+            bookingRules: { maxBookingDuration: 10 },
+          },
+        ],
+        DEFAULT_LIBRARY_SETTINGS.bookingRules
+      )
+    ).toEqual([
+      'Special hours need a name',
+      'Special hours must end on or after the day it starts',
+      '"Exam season" must close after it opens',
+      '"Exam season" has a closure that ends before it starts',
+      '"Exam season": Maximum booking length cannot be shorter than the minimum',
+      '"Exam season": Extension step must be between 1 minute and the maximum booking length',
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+import type {
+  BookingRules,
+  Holiday,
+  LibrarySettings,
+  LibrarySettingsVersion,
+  OperatingHours,
+  PenaltyPolicy,
+  SpecialHours,
+} from '@/types';
+
+/**
+ * Library settings rules
+ * Opening hours, holidays, booking rules and the penalty policy are edited
+ * together by staff and checked here before they are saved.
+ */
+
+export type LibrarySettingsValues = LibrarySettingsVersion['settings'];
+
+export const DAYS_OF_WEEK = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const DEFAULT_LIBRARY_SETTINGS: LibrarySettingsValues = {
+  operatingHours: {
+    monday: { open: '08:00', close: '22:00', isClosed: false },
+    tuesday: { open: '08:00', close: '22:00', isClosed: false },
+    wednesday: { open: '08:00', close: '22:00', isClosed: false },
+    thursday: { open: '08:00', close: '22:00', isClosed: false },
+    friday: { open: '08:00', close: '22:00', isClosed: false },
+    saturday: { open: '09:00', close: '18:00', isClosed: false },
+    sunday: { open: '09:00', close: '18:00', isClosed: false },
+  },
+  holidays: [],
+  bookingRules: {
+    maxDailyDuration: 480, // 8 hours
+    maxAdvanceBookingDays: 7,
+    minBookingDuration: 30,
+    maxBookingDuration: 240, // 4 hours
+    extensionIncrement: 30,
+  },
+};
+
+// Longest single booking staff can allow, in minutes
+const MAX_SESSION_MINUTES = 24 * 60;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Special hours may run until midnight
+const CLOSING_TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Find the problems that stop the settings from being saved
+ */
+export function validateLibrarySettings(settings: LibrarySettingsValues): string[] {
+  return [
+    ...validateOperatingHours(settings.operatingHours),
+    ...validateHolidays(settings.holidays),
+    ...validateBookingRules(settings.bookingRules),
+    ...validateSpecialHours(settings.specialHours, settings.bookingRules),
+    ...(settings.penaltyPolicy ? validatePenaltyPolicy(settings.penaltyPolicy, settings.bookingRules) : []),
+  ];
+}
+
+/**
+ * The parts of the settings staff edit, without who last changed them
+ */
+export function withoutMetadata(settings: LibrarySettings): LibrarySettingsValues {
+  const { versionId: _versionId, updatedBy: _updatedBy, updatedAt: _updatedAt, ...values } = settings;
+  return values;
+}
+
+/**
+ * The version a version's changes are shown against: the one that was live
+ * before it was applied, or the live one for a version that hasn't been
+ */
+export function getPreviousVersion(
+  versions: LibrarySettingsVersion[],
+  version: LibrarySettingsVersion
+): LibrarySettingsVersion | null {
+  const applied = versions
+    .filter((v) => v.status === 'applied' && v.appliedAt && v.id !== version.id)
+    .filter((v) => version.status !== 'applied' || v.appliedAt! < version.appliedAt!)
+    .sort((a, b) => b.appliedAt!.localeCompare(a.appliedAt!) || b.createdAt.localeCompare(a.createdAt));
+
+  return applied[0] ?? null;
+}
+
+/**
+ * Check each open day closes after it opens
+ */
+export function validateOperatingHours(operatingHours: OperatingHours | undefined): string[] {
+  const problems: string[] = [];
+
+  DAYS_OF_WEEK.forEach((day) => {
+    const hours = operatingHours?.[day];
+    const label = day.charAt(0).toUpperCase() + day.slice(1);
+
+    if (!hours) {
+      problems.push(`${label} has no opening hours`);
+    } else if (!hours.isClosed) {
+      if (!TIME_PATTERN.test(hours.open) || !TIME_PATTERN.test(hours.close)) {
+        problems.push(`${label} needs opening and closing times as HH:mm`);
+      } else if (hours.close <= hours.open) {
+        problems.push(`${label} must close after it opens`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Check holiday dates are valid and not repeated
+ */
+export function validateHolidays(holidays: Holiday[] | undefined): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  (holidays || []).forEach((holiday) => {
+    if (!isValidDate(holiday.date)) {
+      problems.push(`Holiday "${holiday.name}" needs a date as YYYY-MM-DD`);
+    } else if (seen.has(holiday.date)) {
+      problems.push(`${holiday.date} is listed as a holiday more than once`);
+    }
+    if (!holiday.name?.trim()) {
+      problems.push(`The holiday on ${holiday.date} needs a name`);
+    }
+    seen.add(holiday.date);
+  });
+
+  return problems;
+}
+
+/**
+ * Check booking lengths, limits and windows fit together
+ */
+export function validateBookingRules(rules: BookingRules | undefined): string[] {
+  if (!rules) {
+    return ['Booking rules are missing'];
+  }
+
+  const problems: string[] = [];
+  const wholeNumbers: Array<[keyof BookingRules, string]> = [
+    ['minBookingDuration', 'Minimum booking length'],
+    ['maxBookingDuration', 'Maximum booking length'],
+    ['maxDailyDuration', 'Daily limit'],
+    ['extensionIncrement', 'Extension step'],
+    ['maxAdvanceBookingDays', 'Advance booking window'],
+  ];
+
+  wholeNumbers.forEach(([key, label]) => {
+    if (!isWholeNumber(rules[key])) {
+      problems.push(`${label} must be a whole number`);
+    }
+  });
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  if (rules.minBookingDuration < 1) {
+    problems.push('Minimum booking length must be at least 1 minute');
+  }
+  if (rules.maxBookingDuration < rules.minBookingDuration) {
+    problems.push('Maximum booking length cannot be shorter than the minimum');
+  }
+  if (rules.maxBookingDuration > MAX_SESSION_MINUTES) {
+    problems.push('Maximum booking length cannot be more than 24 hours');
+  }
+  if (rules.maxDailyDuration < rules.maxBookingDuration) {
+    problems.push('Daily limit cannot be shorter than the maximum booking length');
+  }
+  if (rules.extensionIncrement < 1 || rules.extensionIncrement > rules.maxBookingDuration) {
+    problems.push('Extension step must be between 1 minute and the maximum booking length');
+  }
+  if (rules.maxAdvanceBookingDays < 0 || rules.maxAdvanceBookingDays > 365) {
+    problems.push('Advance booking window must be between 0 and 365 days');
+  }
+  if (
+    rules.maxBreakDuration != null &&
+    (!isWholeNumber(rules.maxBreakDuration) || rules.maxBreakDuration < 1 || rules.maxBreakDuration >= rules.maxBookingDuration)
+  ) {
+    problems.push('Break length must be at least 1 minute and shorter than the maximum booking length');
+  }
+
+  return problems;
+}
+
+/**
+ * Check each special hours entry has a name, a date range, hours that close
+ * after they open, closures inside the day and booking rules that still fit
+ * together once applied
+ */
+export function validateSpecialHours(specialHours: SpecialHours[] | undefined, rules: BookingRules | undefined): string[] {
+  const problems: string[] = [];
+
+  (specialHours || []).forEach((special) => {
+    const label = special.name?.trim() ? `"${special.name.trim()}"` : 'Special hours';
+
+    if (!special.name?.trim()) {
+      problems.push('Special hours need a name');
+    }
+    if (!isValidDate(special.startDate) || !isValidDate(special.endDate)) {
+      problems.push(`${label} needs start and end dates as YYYY-MM-DD`);
+    } else if (special.endDate < special.startDate) {
+      problems.push(`${label} must end on or after the day it starts`);
+    }
+
+    if (special.hours && !special.hours.isClosed) {
+      if (!TIME_PATTERN.test(special.hours.open) || !CLOSING_TIME_PATTERN.test(special.hours.close)) {
+        problems.push(`${label} needs opening and closing times as HH:mm`);
+      } else if (special.hours.close <= special.hours.open) {
+        problems.push(`${label} must close after it opens`);
+      }
+    }
+
+    (special.closures || []).forEach((closure) => {
+      if (!TIME_PATTERN.test(closure.start) || !CLOSING_TIME_PATTERN.test(closure.end)) {
+        problems.push(`${label} has a closure that needs times as HH:mm`);
+      } else if (closure.end <= closure.start) {
+        problems.push(`${label} has a closure that ends before it starts`);
+      }
+    });
+
+    if (special.bookingRules && rules) {
+      validateBookingRules({ ...rules, ...special.bookingRules }).forEach((problem) => {
+        problems.push(`${label}: ${problem}`);
+      });
+    }
+  });
+
+  return problems;
+}
+
+// Helper Functions
+
+function validatePenaltyPolicy(policy: PenaltyPolicy, rules: BookingRules | undefined): string[] {
+  const problems: string[] = [];
+  const counts: Array<[keyof PenaltyPolicy, string, number]> = [
+    ['noShowStrikes', 'Strikes per no-show', 0],
+    ['overstayStrikes', 'Strikes per overstay', 0],
+    ['strikeLifetimeDays', 'Strike lifetime', 1],
+    ['banThreshold', 'Strikes before a ban', 1],
+    ['banWindowDays', 'Ban window', 1],
+    ['banDays', 'Ban length', 1],
+    ['repeatOffenderStrikes', 'Strikes before bookings are shortened', 1],
+    ['repeatOffenderMaxDuration', 'Shortened booking length', 1],
+  ];
+
+  counts.forEach(([key, label, min]) => {
+    const value = policy[key];
+    if (!isWholeNumber(value) || (value as number) < min) {
+      problems.push(`${label} must be a whole number of at least ${min}`);
+    }
+  });
+
+  if (rules && isWholeNumber(policy.repeatOffenderMaxDuration) && policy.repeatOffenderMaxDuration < rules.minBookingDuration) {
+    problems.push('Shortened booking length cannot be below the minimum booking length');
+  }
+
+  return problems;
+}
+
+function isValidDate(date: string | undefined): boolean {
+  return !!date && DATE_PATTERN.test(date) && !isNaN(new Date(`${date}T00:00:00`).getTime());
+}
+
+function isWholeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
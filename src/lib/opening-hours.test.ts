@@ -0,0 +1,133 @@
+import * as fc from 'fast-check';
+import type { LibrarySettings, SpecialClosure } from '@/types';
+import { DEFAULT_LIBRARY_SETTINGS } from './library-settings';
+import { getDaySchedule, getDaySchedules, getOpenPeriodAt, getOpenPeriods } from './opening-hours';
+
+const settings: LibrarySettings = {
+  ...DEFAULT_LIBRARY_SETTINGS,
+  updatedBy: 'system',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+const on = (dateKey: string) => new Date(`${dateKey}T12:00:00`);
+
+const timeArb = fc
+  .integer({ min: 0, max: 24 * 4 })
+  .map((quarter) => `${Math.floor(quarter / 4).toString().padStart(2, '0')}:${((quarter % 4) * 15).toString().padStart(2, '0')}`);
+
+const closureArb = fc
+  .tuple(timeArb, timeArb)
+  .filter(([a, b]) => a !== b)
+  .map(([a, b]): SpecialClosure => (a < b ? { start: a, end: b } : { start: b, end: a }));
+
+describe('Opening Hours', () => {
+  // Feature: special-hours, Property 1: Without overrides the weekly schedule applies
+  test('Property 1: a date without special hours or a holiday keeps its weekly hours and rules', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 365 }), (offset) => {
+        const date = new Date(2024, 0, 1 + offset, 12);
+        const weekly = settings.operatingHours[date.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase()];
+        const schedule = getDaySchedule(settings, date);
+
+        expect(schedule).toMatchObject({
+          isClosed: weekly.isClosed,
+          open: weekly.open,
+          close: weekly.close,
+          closures: [],
+          bookingRules: settings.bookingRules,
+          specialHours: [],
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: special-hours, Property 2: Closures are taken out of the open hours
+  test('Property 2: a time is in an open period iff it is within opening hours and outside every closure', () => {
+    fc.assert(
+      fc.property(fc.array(closureArb, { maxLength: 4 }), fc.integer({ min: 0, max: 24 * 60 - 1 }), (closures, minute) => {
+        const schedule = {
+          ...getDaySchedule(settings, on('2024-01-08')),
+          open: '08:00',
+          close: '24:00',
+          closures,
+        };
+        const time = new Date(2024, 0, 8, Math.floor(minute / 60), minute % 60);
+        const hhmm = `${time.getHours().toString().padStart(2, '0')}:${time.getMinutes().toString().padStart(2, '0')}`;
+        const expected = hhmm >= '08:00' && !closures.some((closure) => hhmm >= closure.start && hhmm < closure.end);
+
+        expect(getOpenPeriodAt(schedule, time) !== null).toBe(expected);
+        getOpenPeriods(schedule).forEach((period) => expect(period.start < period.end).toBe(true));
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('special hours apply longest range first and a holiday closes the day regardless', () => {
+    const withSpecials: LibrarySettings = {
+      ...settings,
+      holidays: [{ date: '2024-04-14', name: 'Tamil New Year' }],
+      specialHours: [
+        {
+          id: 'fair',
+          name: 'Book fair',
+          startDate: '2024-04-10',
+          endDate: '2024-04-10',
+          hours: { open: '08:00', close: '18:00', isClosed: false },
+          closures: [{ start: '12:00', end: '13:00' }],
+        },
+        {
+          id: 'exams',
+          name: 'Exam season',
+          startDate: '2024-04-01',
+          endDate: '2024-04-30',
+          hours: { open: '00:00', close: '24:00', isClosed: false },
+          closures: [{ start: '06:00', end: '07:00', reason: 'Cleaning' }],
+          bookingRules: { maxBookingDuration: 180 },
+        },
+      ],
+    };
+
+    expect(getDaySchedule(withSpecials, on('2024-04-09'))).toMatchObject({
+      open: '00:00',
+      close: '24:00',
+      specialHours: ['Exam season'],
+      bookingRules: { ...settings.bookingRules, maxBookingDuration: 180 },
+    });
+    expect(getDaySchedule(withSpecials, on('2024-04-10'))).toMatchObject({
+      open: '08:00',
+      close: '18:00',
+      closures: [{ start: '06:00', end: '07:00', reason: 'Cleaning' }, { start: '12:00', end: '13:00' }],
+      specialHours: ['Exam season', 'Book fair'],
+      bookingRules: { maxBookingDuration: 180 },
+    });
+    expect(getOpenPeriods(getDaySchedule(withSpecials, on('2024-04-10')))).toEqual([
+      { start: '08:00', end: '12:00' },
+      { start: '13:00', end: '18:00' },
+    ]);
+    expect(getDaySchedule(withSpecials, on('2024-04-14'))).toMatchObject({
+      isClosed: true,
+      holiday: 'Tamil New Year',
+      specialHours: ['Exam season'],
+    });
+    expect(getDaySchedules(withSpecials, on('2024-04-09'), 3).map((day) => day.date)).toEqual([
+      '2024-04-09',
+      '2024-04-10',
+      '2024-04-11',
+    ]);
+  });
+
+  test('a holiday covers its whole local day, from midnight to the last minute', () => {
+    // Tests run ahead of UTC, where local midnight is still the previous UTC day
+    const withHoliday: LibrarySettings = { ...settings, holidays: [{ date: '2026-10-20', name: 'Ayudha Puja' }] };
+
+    expect(getDaySchedule(withHoliday, new Date(2026, 9, 20))).toMatchObject({ date: '2026-10-20', isClosed: true });
+    expect(getDaySchedule(withHoliday, new Date(2026, 9, 20, 23, 59)).holiday).toBe('Ayudha Puja');
+    expect(getDaySchedule(withHoliday, new Date(2026, 9, 21)).holiday).toBeUndefined();
+    expect(getDaySchedules(withHoliday, new Date(2026, 9, 19), 3).map((day) => day.holiday ?? null)).toEqual([
+      null,
+      'Ayudha Puja',
+      null,
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { toDateKey } from '@/lib/recurrence';
+import type { DaySchedule, LibrarySettings, SpecialClosure, SpecialHours } from '@/types';
+
+/**
+ * Opening hours resolution
+ * The hours and booking rules for a date are worked out in a fixed order:
+ *
+ * 1. The weekly schedule for that day of the week
+ * 2. Special hours covering the date, longest date range first, so a one-day
+ *    event inside exam season has the last word. Each replaces the hours and
+ *    booking rules it sets; their partial-day closures add up.
+ * 3. A holiday on the date closes the library all day.
+ *
+ * Dates are matched by their local calendar day as YYYY-MM-DD, the way
+ * holidays are stored. A day that closes at 24:00 is open until midnight;
+ * bookings still end the day they start.
+ */
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface OpenPeriod {
+  start: string; // HH:mm
+  end: string; // HH:mm, or 24:00 for midnight
+}
+
+/**
+ * Work out the hours and booking rules that apply on the day of `date`
+ */
+export function getDaySchedule(settings: LibrarySettings, date: Date): DaySchedule {
+  const dateKey = toDateKey(date);
+  const weekly = settings.operatingHours?.[DAY_NAMES[date.getDay()]];
+  const schedule: DaySchedule = {
+    date: dateKey,
+    isClosed: !weekly || weekly.isClosed,
+    open: weekly?.open ?? '00:00',
+    close: weekly?.close ?? '00:00',
+    closures: [],
+    bookingRules: settings.bookingRules,
+    specialHours: [],
+  };
+
+  getSpecialHoursOn(settings.specialHours, dateKey).forEach((special) => {
+    if (special.hours) {
+      schedule.isClosed = special.hours.isClosed;
+      schedule.open = special.hours.open;
+      schedule.close = special.hours.close;
+    }
+    schedule.closures = [...schedule.closures, ...(special.closures || [])];
+    schedule.bookingRules = { ...schedule.bookingRules, ...special.bookingRules };
+    schedule.specialHours = [...schedule.specialHours, special.name];
+  });
+
+  const holiday = (settings.holidays || []).find((h) => h.date === dateKey);
+  if (holiday) {
+    schedule.isClosed = true;
+    schedule.holiday = holiday.name;
+  }
+
+  return schedule;
+}
+
+/**
+ * The resolved schedules for `days` consecutive days from `from`
+ */
+export function getDaySchedules(settings: LibrarySettings, from: Date, days: number): DaySchedule[] {
+  return Array.from({ length: days }, (_, offset) => {
+    const date = new Date(from);
+    date.setDate(from.getDate() + offset);
+    return getDaySchedule(settings, date);
+  });
+}
+
+/**
+ * The stretches of the day the library is open: opening to closing time
+ * with the closures taken out
+ */
+export function getOpenPeriods(schedule: DaySchedule): OpenPeriod[] {
+  if (schedule.isClosed || schedule.close <= schedule.open) {
+    return [];
+  }
+
+  const closures = [...schedule.closures].sort((a, b) => a.start.localeCompare(b.start));
+
+  return closures.reduce<OpenPeriod[]>(
+    (periods, closure) =>
+      periods.flatMap((period) => {
+        if (closure.end <= period.start || closure.start >= period.end) {
+          return [period];
+        }
+        return [
+          { start: period.start, end: closure.start },
+          { start: closure.end, end: period.end },
+        ].filter((part) => part.start < part.end);
+      }),
+    [{ start: schedule.open, end: schedule.close }]
+  );
+}
+
+/**
+ * The open period `date` falls in, or null if the library is shut then
+ */
+export function getOpenPeriodAt(schedule: DaySchedule, date: Date): OpenPeriod | null {
+  const time = formatTimeOfDay(date);
+  return getOpenPeriods(schedule).find((period) => time >= period.start && time < period.end) ?? null;
+}
+
+/**
+ * The closure `date` falls in, if any
+ */
+export function getClosureAt(schedule: DaySchedule, date: Date): SpecialClosure | null {
+  const time = formatTimeOfDay(date);
+  return schedule.closures.find((closure) => time >= closure.start && time < closure.end) ?? null;
+}
+
+/**
+ * The HH:mm time on the day of `date`; 24:00 is the following midnight
+ */
+export function atTimeOfDay(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+/**
+ * The local time of `date` as HH:mm
+ */
+export function formatTimeOfDay(date: Date): string {
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+}
+
+// Helper Functions
+
+/**
+ * Special hours covering the date, in the order they are applied
+ */
+function getSpecialHoursOn(specialHours: SpecialHours[] | undefined, dateKey: string): SpecialHours[] {
+  return (specialHours || [])
+    .filter((special) => special.startDate <= dateKey && dateKey <= special.endDate)
+    .sort((a, b) => getRangeDays(b) - getRangeDays(a) || a.startDate.localeCompare(b.startDate));
+}
+
+function getRangeDays(special: SpecialHours): number {
+  return (new Date(special.endDate).getTime() - new Date(special.startDate).getTime()) / (24 * 60 * 60 * 1000);
+}
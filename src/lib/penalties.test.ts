@@ -0,0 +1,107 @@
+import * as fc from 'fast-check';
+import type { PenaltyPolicy, UserPenalties } from '@/types';
+import {
+  applyStrike,
+  createStrike,
+  DEFAULT_PENALTY_POLICY,
+  getActiveStrikes,
+  getPenaltyPolicy,
+  getPenaltyStatus,
+} from './penalties';
+
+const NOW = new Date(2024, 0, 8, 9, 0, 0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const policy: PenaltyPolicy = { ...DEFAULT_PENALTY_POLICY };
+
+const daysAfter = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+
+/**
+ * Issue strikes on the given days (relative to NOW), in order
+ */
+function strikeOn(days: number[], start: UserPenalties | null = null, strikePolicy = policy) {
+  let penalties = start;
+  let bans = 0;
+  days.forEach((day, index) => {
+    const now = daysAfter(day);
+    const result = applyStrike(penalties, createStrike(`s${index}`, 'no-show', null, strikePolicy, now), strikePolicy, now);
+    penalties = result.penalties;
+    bans += result.banned ? 1 : 0;
+  });
+  return { penalties: penalties!, bans };
+}
+
+describe('Penalties', () => {
+  // Feature: penalties, Property 1: Strikes decay
+  test('Property 1: a strike counts until its lifetime runs out, then never again', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 60 }), (day) => {
+        const { penalties } = strikeOn([0]);
+        const active = getActiveStrikes(penalties, daysAfter(day));
+        expect(active.length).toBe(day < policy.strikeLifetimeDays ? 1 : 0);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: penalties, Property 2: Bans follow the threshold and window
+  test('Property 2: a ban starts iff the threshold is reached within the window', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 4 }), (gaps) => {
+        const days = gaps.map((_, index) => gaps.slice(0, index + 1).reduce((sum, gap) => sum + gap, 0));
+        const { penalties, bans } = strikeOn(days);
+
+        // Before any ban, count strikes in each window ending at a new strike
+        const firstBanAt = days.findIndex((day, index) =>
+          days.filter((d, i) => i <= index && d > day - policy.banWindowDays).length >= policy.banThreshold
+        );
+        expect(bans > 0).toBe(firstBanAt !== -1);
+        if (firstBanAt !== -1) {
+          expect(penalties.bannedAt).toBe(daysAfter(days[firstBanAt]).toISOString());
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('strikes that led to a ban do not count towards the next one', () => {
+    const { penalties, bans } = strikeOn([0, 1, 2]);
+    expect(bans).toBe(1);
+    expect(getPenaltyStatus(penalties, policy, daysAfter(3)).bannedUntil).toBe(penalties.bannedUntil);
+
+    // After the ban ends, one more strike is not enough for another
+    const next = strikeOn([10], penalties);
+    expect(next.bans).toBe(0);
+    expect(strikeOn([10, 11, 12], penalties).bans).toBe(1);
+  });
+
+  test('strikes during a ban do not extend it', () => {
+    const { penalties } = strikeOn([0, 1, 2]);
+    const during = strikeOn([3], penalties);
+    expect(during.bans).toBe(0);
+    expect(during.penalties.bannedUntil).toBe(penalties.bannedUntil);
+  });
+
+  test('repeat offenders may only book shorter sessions', () => {
+    const one = strikeOn([0]).penalties;
+    const two = strikeOn([0, 10]).penalties;
+
+    expect(getPenaltyStatus(one, policy, daysAfter(10)).maxDuration).toBeNull();
+    expect(getPenaltyStatus(two, policy, daysAfter(10))).toEqual({
+      activeStrikes: 2,
+      bannedUntil: null,
+      maxDuration: policy.repeatOffenderMaxDuration,
+    });
+    expect(getPenaltyStatus(two, { ...policy, enabled: false }, daysAfter(10))).toEqual({
+      activeStrikes: 0,
+      bannedUntil: null,
+      maxDuration: null,
+    });
+  });
+
+  test('settings override the default policy field by field', () => {
+    expect(getPenaltyPolicy(null)).toEqual(DEFAULT_PENALTY_POLICY);
+    expect(getPenaltyPolicy({ penaltyPolicy: { banThreshold: 5 } } as any).banThreshold).toBe(5);
+    expect(createStrike('s1', 'overstay', 'b1', { ...policy, overstayStrikes: 2 }, NOW).weight).toBe(2);
+  });
+});
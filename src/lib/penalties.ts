@@ -0,0 +1,127 @@
+import type {
+  LibrarySettings,
+  PenaltyPolicy,
+  PenaltyStatus,
+  Strike,
+  StrikeReason,
+  UserPenalties,
+} from '@/types';
+
+/**
+ * Penalty rules
+ * No-shows and overstays earn strikes that decay after a while. Enough
+ * strikes within the ban window bring a temporary booking ban; students
+ * with several active strikes may only book shorter sessions.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_PENALTY_POLICY: PenaltyPolicy = {
+  enabled: true,
+  noShowStrikes: 1,
+  overstayStrikes: 1,
+  strikeLifetimeDays: 30,
+  banThreshold: 3,
+  banWindowDays: 14,
+  banDays: 7,
+  repeatOffenderStrikes: 2,
+  repeatOffenderMaxDuration: 120,
+};
+
+/**
+ * The penalty policy in force, falling back to the defaults
+ */
+export function getPenaltyPolicy(settings: LibrarySettings | null | undefined): PenaltyPolicy {
+  return { ...DEFAULT_PENALTY_POLICY, ...(settings?.penaltyPolicy || {}) };
+}
+
+/**
+ * Strikes that still count: not waived and not yet decayed
+ */
+export function getActiveStrikes(penalties: UserPenalties | null | undefined, now: Date): Strike[] {
+  return Object.values(penalties?.strikes || {})
+    .filter((strike) => !strike.waivedAt && new Date(strike.expiresAt) > now)
+    .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+}
+
+/**
+ * Work out what a student's strikes mean for them right now
+ */
+export function getPenaltyStatus(
+  penalties: UserPenalties | null | undefined,
+  policy: PenaltyPolicy,
+  now: Date
+): PenaltyStatus {
+  if (!policy.enabled) {
+    return { activeStrikes: 0, bannedUntil: null, maxDuration: null };
+  }
+
+  const activeStrikes = getActiveStrikes(penalties, now).reduce((sum, strike) => sum + strike.weight, 0);
+  const bannedUntil =
+    penalties?.bannedUntil && new Date(penalties.bannedUntil) > now ? penalties.bannedUntil : null;
+
+  return {
+    activeStrikes,
+    bannedUntil,
+    maxDuration: activeStrikes >= policy.repeatOffenderStrikes ? policy.repeatOffenderMaxDuration : null,
+  };
+}
+
+/**
+ * Add a strike and start a ban if it brings the student to the threshold.
+ * Returns the updated penalties and whether a ban started.
+ */
+export function applyStrike(
+  penalties: UserPenalties | null | undefined,
+  strike: Strike,
+  policy: PenaltyPolicy,
+  now: Date
+): { penalties: UserPenalties; banned: boolean } {
+  const next: UserPenalties = {
+    ...(penalties || {}),
+    strikes: { ...(penalties?.strikes || {}), [strike.id]: strike },
+  };
+
+  if (getPenaltyStatus(penalties, policy, now).bannedUntil) {
+    return { penalties: next, banned: false };
+  }
+
+  // Strikes that led to an earlier ban don't count towards the next one
+  const windowStart = Math.max(now.getTime() - policy.banWindowDays * DAY_MS, new Date(next.bannedAt || 0).getTime());
+  const strikesInWindow = getActiveStrikes(next, now)
+    .filter((s) => new Date(s.issuedAt).getTime() > windowStart || s.id === strike.id)
+    .reduce((sum, s) => sum + s.weight, 0);
+
+  if (strikesInWindow < policy.banThreshold) {
+    return { penalties: next, banned: false };
+  }
+
+  return {
+    penalties: {
+      ...next,
+      bannedAt: now.toISOString(),
+      bannedUntil: new Date(now.getTime() + policy.banDays * DAY_MS).toISOString(),
+    },
+    banned: true,
+  };
+}
+
+/**
+ * Build the strike for a no-show or overstay under the policy
+ */
+export function createStrike(
+  id: string,
+  reason: StrikeReason,
+  bookingId: string | null,
+  policy: PenaltyPolicy,
+  now: Date
+): Strike {
+  return {
+    id,
+    reason,
+    bookingId,
+    weight: reason === 'no-show' ? policy.noShowStrikes : policy.overstayStrikes,
+    issuedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + policy.strikeLifetimeDays * DAY_MS).toISOString(),
+  };
+}
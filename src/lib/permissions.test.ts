@@ -0,0 +1,94 @@
+import * as fc from 'fast-check';
+import type { UserRole } from '@/types';
+
+process.env.NEXT_PUBLIC_ADMIN_EMAILS = 'head.librarian@example.com';
+
+import {
+  ADMIN_PAGE_PERMISSIONS,
+  USER_ROLES,
+  getPagePermission,
+  getPermissions,
+  getStaffHomePage,
+  hasPermission,
+  isStaffRole,
+  isUserRole,
+  resolveUserRole,
+} from './permissions';
+
+// Roles from least to most privileged
+const HIERARCHY: UserRole[] = ['user', 'desk-staff', 'floor-manager', 'head-librarian', 'admin'];
+
+const roleArb = fc.constantFrom(...USER_ROLES);
+
+describe('Permissions - Property-Based Tests', () => {
+  // Feature: staff-roles, Property 1: More senior roles keep every permission of junior roles
+  test('Property 1: For any two roles in the hierarchy, the senior role has every permission of the junior one', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: HIERARCHY.length - 1 }),
+        fc.integer({ min: 0, max: HIERARCHY.length - 1 }),
+        (a, b) => {
+          const junior = HIERARCHY[Math.min(a, b)];
+          const senior = HIERARCHY[Math.max(a, b)];
+
+          getPermissions(junior).forEach((permission) => {
+            expect(hasPermission(senior, permission)).toBe(true);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: staff-roles, Property 2: Every staff member lands on a page they may open
+  test('Property 2: For any staff role, the home page is one whose permission the role holds', () => {
+    fc.assert(
+      fc.property(roleArb, (role) => {
+        const home = getStaffHomePage(role);
+
+        if (!isStaffRole(role)) {
+          expect(home).toBeNull();
+          return;
+        }
+
+        expect(home).not.toBeNull();
+        expect(hasPermission(role, getPagePermission(home!)!)).toBe(true);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('students have no permissions and only admins may change roles or read the audit log', () => {
+    expect(getPermissions('user')).toEqual([]);
+    expect(USER_ROLES.filter((role) => hasPermission(role, 'users.roles'))).toEqual(['admin']);
+    expect(USER_ROLES.filter((role) => hasPermission(role, 'audit.view'))).toEqual(['admin']);
+    expect(hasPermission('desk-staff', 'bookings.checkin')).toBe(true);
+    expect(hasPermission('desk-staff', 'seats.maintenance')).toBe(false);
+    expect(hasPermission('floor-manager', 'seats.maintenance')).toBe(true);
+    expect(hasPermission('floor-manager', 'settings.write')).toBe(false);
+    expect(hasPermission('head-librarian', 'settings.write')).toBe(true);
+    expect(USER_ROLES.filter((role) => hasPermission(role, 'layout.edit'))).toEqual(['head-librarian', 'admin']);
+  });
+
+  test('roles resolve from the stored role, with configured admin emails taking precedence', () => {
+    fc.assert(
+      fc.property(roleArb, fc.string(), (role, junk) => {
+        expect(resolveUserRole(role, 'student@example.com')).toBe(role);
+        expect(resolveUserRole(role, 'head.librarian@example.com')).toBe('admin');
+
+        fc.pre(!isUserRole(junk));
+        expect(resolveUserRole(junk, null)).toBe('user');
+      }),
+      { numRuns: 50 }
+    );
+    expect(resolveUserRole(null, null)).toBe('user');
+  });
+
+  test('page permissions match nested admin paths', () => {
+    ADMIN_PAGE_PERMISSIONS.forEach(({ href, permission }) => {
+      expect(getPagePermission(href)).toBe(permission);
+      expect(getPagePermission(`${href}/details`)).toBe(permission);
+    });
+    expect(getPagePermission('/admin/analyticsx')).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { isAdminEmail } from '@/lib/admin-config';
+import type { UserRole } from '@/types';
+
+/**
+ * Role-based permissions
+ * Each staff role grants a fixed set of permissions. API routes check a
+ * permission (not a role) and the admin navigation only shows the pages the
+ * signed-in staff member may use.
+ */
+
+export type Permission =
+  | 'analytics.view'
+  | 'bookings.view'
+  | 'bookings.checkin'
+  | 'bookings.manage'
+  | 'seats.maintenance'
+  | 'users.view'
+  | 'users.flag'
+  | 'users.roles'
+  | 'feedback.respond'
+  | 'reports.generate'
+  | 'settings.write'
+  | 'layout.edit'
+  | 'audit.view';
+
+const DESK_STAFF_PERMISSIONS: Permission[] = ['bookings.view', 'bookings.checkin'];
+
+const FLOOR_MANAGER_PERMISSIONS: Permission[] = [
+  ...DESK_STAFF_PERMISSIONS,
+  'seats.maintenance',
+  'analytics.view',
+];
+
+const HEAD_LIBRARIAN_PERMISSIONS: Permission[] = [
+  ...FLOOR_MANAGER_PERMISSIONS,
+  'bookings.manage',
+  'users.view',
+  'users.flag',
+  'feedback.respond',
+  'reports.generate',
+  'settings.write',
+  'layout.edit',
+];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  user: [],
+  'desk-staff': DESK_STAFF_PERMISSIONS,
+  'floor-manager': FLOOR_MANAGER_PERMISSIONS,
+  'head-librarian': HEAD_LIBRARIAN_PERMISSIONS,
+  admin: [...HEAD_LIBRARIAN_PERMISSIONS, 'users.roles', 'audit.view'],
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  user: 'Student',
+  'desk-staff': 'Desk Staff',
+  'floor-manager': 'Floor Manager',
+  'head-librarian': 'Head Librarian',
+  admin: 'Admin',
+};
+
+// The permission each admin page requires, in navigation order
+export const ADMIN_PAGE_PERMISSIONS: Array<{ href: string; permission: Permission }> = [
+  { href: '/admin/analytics', permission: 'analytics.view' },
+  { href: '/admin/bookings', permission: 'bookings.view' },
+  { href: '/admin/scanner', permission: 'bookings.checkin' },
+  { href: '/admin/users', permission: 'users.view' },
+  { href: '/admin/seats', permission: 'seats.maintenance' },
+  { href: '/admin/floor-plans', permission: 'layout.edit' },
+  { href: '/admin/reports', permission: 'reports.generate' },
+  { href: '/admin/feedback', permission: 'feedback.respond' },
+  { href: '/admin/settings', permission: 'settings.write' },
+  { href: '/admin/audit', permission: 'audit.view' },
+];
+
+/**
+ * Check whether a string is a known role
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value);
+}
+
+/**
+ * Get the permissions granted to a role
+ */
+export function getPermissions(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role] ?? [];
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
+
+/**
+ * Whether a role belongs to library staff (and may use the admin pages)
+ */
+export function isStaffRole(role: UserRole): boolean {
+  return getPermissions(role).length > 0;
+}
+
+/**
+ * Determine a user's role from the one stored at roles/{userId}. Addresses
+ * listed in NEXT_PUBLIC_ADMIN_EMAILS are admins even before a role is stored;
+ * pass only an email the sign-in provider has verified, never the profile's.
+ */
+export function resolveUserRole(storedRole: unknown, email: string | null): UserRole {
+  if (isAdminEmail(email)) {
+    return 'admin';
+  }
+  return isUserRole(storedRole) ? storedRole : 'user';
+}
+
+/**
+ * Get the permission required for an admin page, or null if it has none
+ */
+export function getPagePermission(pathname: string): Permission | null {
+  const page = ADMIN_PAGE_PERMISSIONS.find(
+    ({ href }) => pathname === href || pathname.startsWith(href + '/')
+  );
+  return page?.permission ?? null;
+}
+
+/**
+ * Get the first admin page a role may open
+ */
+export function getStaffHomePage(role: UserRole): string | null {
+  const page = ADMIN_PAGE_PERMISSIONS.find(({ permission }) => hasPermission(role, permission));
+  return page?.href ?? null;
+}
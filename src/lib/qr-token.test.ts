@@ -0,0 +1,63 @@
+import * as fc from 'fast-check';
+import { signQrToken, verifyQrToken, type QrTokenPayload } from './qr-token';
+
+const SECRET = 'test-secret';
+const NOW = new Date('2024-01-08T10:00:00Z');
+
+const payloadArb: fc.Arbitrary<QrTokenPayload> = fc.record({
+  bookingId: fc.stringMatching(/^[A-Za-z0-9_-]{8,20}$/),
+  userId: fc.stringMatching(/^[A-Za-z0-9]{8,28}$/),
+  seatId: fc.stringMatching(/^[GFST][0-9]{2}$/),
+  jti: fc.uuid(),
+  nbf: fc.integer({ min: NOW.getTime() - 3600000, max: NOW.getTime() }),
+  exp: fc.integer({ min: NOW.getTime() + 1, max: NOW.getTime() + 3600000 }),
+});
+
+describe('QR Token - Property-Based Tests', () => {
+  // Feature: qr-tokens, Property 1: Signed tokens round-trip
+  test('Property 1: For any payload inside its validity window, the signed token verifies to the same payload', () => {
+    fc.assert(
+      fc.property(payloadArb, (payload) => {
+        const result = verifyQrToken(signQrToken(payload, SECRET), SECRET, NOW);
+        expect(result).toEqual({ valid: true, payload });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: qr-tokens, Property 2: Tampered tokens are rejected
+  test('Property 2: For any change to the payload or signature, the token is rejected', () => {
+    fc.assert(
+      fc.property(payloadArb, fc.stringMatching(/^[GFST][0-9]{2}$/), (payload, otherSeat) => {
+        fc.pre(otherSeat !== payload.seatId);
+
+        const [version, , signature] = signQrToken(payload, SECRET).split('.');
+        const forgedBody = Buffer.from(JSON.stringify({ ...payload, seatId: otherSeat })).toString('base64url');
+
+        expect(verifyQrToken(`${version}.${forgedBody}.${signature}`, SECRET, NOW)).toEqual({
+          valid: false,
+          reason: 'bad-signature',
+        });
+        expect(verifyQrToken(signQrToken(payload, 'other-secret'), SECRET, NOW)).toEqual({
+          valid: false,
+          reason: 'bad-signature',
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('enforces the validity window', () => {
+    const payload = { bookingId: 'b1', userId: 'u1', seatId: 'G01', jti: 'j1', nbf: 1000, exp: 2000 };
+    const token = signQrToken(payload, SECRET);
+
+    expect(verifyQrToken(token, SECRET, new Date(999))).toEqual({ valid: false, reason: 'not-yet-valid' });
+    expect(verifyQrToken(token, SECRET, new Date(1500)).valid).toBe(true);
+    expect(verifyQrToken(token, SECRET, new Date(2001))).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  test('rejects legacy JSON QR codes as malformed', () => {
+    const legacy = JSON.stringify({ bookingId: 'b1', userId: 'u1', seatId: 'G01' });
+    expect(verifyQrToken(legacy, SECRET, NOW)).toEqual({ valid: false, reason: 'malformed' });
+  });
+});
@@ -0,0 +1,93 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Buffer } from 'buffer';
+import type { ScanRejectionReason } from '@/types';
+
+/**
+ * Signed QR booking tokens
+ * A token is `sfs1.<payload>.<signature>`: a base64url JSON payload and its
+ * HMAC-SHA256 signature. Tokens are issued and verified on the server only.
+ */
+
+const TOKEN_VERSION = 'sfs1';
+
+export interface QrTokenPayload {
+  bookingId: string;
+  userId: string;
+  seatId: string;
+  jti: string; // Token ID, matched against Booking.qrTokenId
+  nbf: number; // Not valid before (epoch ms)
+  exp: number; // Expires at (epoch ms)
+}
+
+export type QrTokenFailure = Extract<ScanRejectionReason, 'malformed' | 'bad-signature' | 'expired' | 'not-yet-valid'>;
+
+export type QrTokenVerification =
+  | { valid: true; payload: QrTokenPayload }
+  | { valid: false; reason: QrTokenFailure };
+
+/**
+ * Read the signing secret from the environment
+ */
+export function getQrTokenSecret(): string {
+  const secret = process.env.QR_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error('QR_TOKEN_SECRET is not configured');
+  }
+
+  return secret;
+}
+
+/**
+ * Sign a payload into a QR token
+ */
+export function signQrToken(payload: QrTokenPayload, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${TOKEN_VERSION}.${body}.${sign(body, secret)}`;
+}
+
+/**
+ * Verify a QR token's signature and validity window
+ */
+export function verifyQrToken(token: string, secret: string, now: Date = new Date()): QrTokenVerification {
+  const parts = token.split('.');
+
+  if (parts.length !== 3 || parts[0] !== TOKEN_VERSION) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [, body, signature] = parts;
+  const expected = Buffer.from(sign(body, secret));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'bad-signature' };
+  }
+
+  let payload: QrTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (!payload.bookingId || !payload.userId || !payload.seatId || !payload.jti) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (now.getTime() < payload.nbf) {
+    return { valid: false, reason: 'not-yet-valid' };
+  }
+
+  if (now.getTime() > payload.exp) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, payload };
+}
+
+// Helper Functions
+
+function sign(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${TOKEN_VERSION}.${body}`).digest('base64url');
+}
@@ -0,0 +1,80 @@
+import * as fc from 'fast-check';
+import type { RecurrenceRule } from '@/types';
+import { describeRecurrence, expandRecurrence, MAX_SERIES_OCCURRENCES, toDateKey, validateRecurrenceRule } from './recurrence';
+
+// Local-time starts between 2024 and 2025, on the half hour
+const startArb = fc
+  .record({
+    dayOffset: fc.integer({ min: 0, max: 700 }),
+    slot: fc.integer({ min: 16, max: 40 }),
+  })
+  .map(({ dayOffset, slot }) => new Date(2024, 0, 1 + dayOffset, Math.floor(slot / 2), (slot % 2) * 30));
+
+const weekdaysArb = fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 });
+
+describe('Recurrence', () => {
+  // Feature: recurring-bookings, Property 1: Count rules expand to exactly that many occurrences
+  test('Property 1: a count rule yields count occurrences at the first start time, on allowed days, in order', () => {
+    fc.assert(
+      fc.property(
+        startArb,
+        fc.option(weekdaysArb, { nil: undefined }),
+        fc.integer({ min: 1, max: MAX_SERIES_OCCURRENCES }),
+        (start, weekdays, count) => {
+          const rule: RecurrenceRule = weekdays ? { frequency: 'weekly', weekdays, count } : { frequency: 'daily', count };
+          const occurrences = expandRecurrence(start, rule);
+
+          expect(validateRecurrenceRule(rule)).toBeNull();
+          expect(occurrences).toHaveLength(count);
+          expect(occurrences[0].getTime()).toBe(start.getTime());
+          occurrences.forEach((occurrence, index) => {
+            expect(occurrence.getHours()).toBe(start.getHours());
+            expect(occurrence.getMinutes()).toBe(start.getMinutes());
+            if (index > 0) {
+              expect(occurrence.getTime()).toBeGreaterThan(occurrences[index - 1].getTime());
+              if (weekdays) {
+                expect(weekdays).toContain(occurrence.getDay());
+              }
+            }
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: recurring-bookings, Property 2: Until rules never pass the end date
+  test('Property 2: an until rule yields every allowed day up to and including the end date', () => {
+    fc.assert(
+      fc.property(startArb, weekdaysArb, fc.integer({ min: 0, max: 30 }), (start, weekdays, days) => {
+        const last = new Date(start);
+        last.setDate(start.getDate() + days);
+        const until = toDateKey(last);
+        const occurrences = expandRecurrence(start, { frequency: 'weekly', weekdays, until });
+
+        occurrences.forEach((occurrence) => expect(toDateKey(occurrence) <= until).toBe(true));
+        const expected = Array.from({ length: days + 1 }, (_, offset) => {
+          const day = new Date(start);
+          day.setDate(start.getDate() + offset);
+          return day;
+        }).filter((day, offset) => offset === 0 || weekdays.includes(day.getDay()));
+        expect(occurrences.map(toDateKey)).toEqual(expected.map(toDateKey));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('rejects rules without exactly one end, or with bad weekdays', () => {
+    expect(validateRecurrenceRule({ frequency: 'daily' })).not.toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'daily', count: 3, until: '2024-03-01' })).not.toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'daily', count: MAX_SERIES_OCCURRENCES + 1 })).not.toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'daily', weekdays: [1], count: 3 })).not.toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'weekly', weekdays: [7], count: 3 })).not.toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'weekly', until: '1 March' })).not.toBeNull();
+  });
+
+  test('describes weekday series', () => {
+    expect(describeRecurrence({ frequency: 'weekly', weekdays: [5, 1, 2, 3, 4], count: 10 })).toBe('Every weekday, 10 sessions');
+    expect(describeRecurrence({ frequency: 'daily', until: '2024-03-29' })).toBe('Every day until 2024-03-29');
+  });
+});
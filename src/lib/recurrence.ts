@@ -0,0 +1,103 @@
+import type { RecurrenceRule } from '@/types';
+
+/**
+ * Recurrence rules
+ * A series repeats a booking at the same local time every day, or on chosen
+ * weekdays, until an end date or for a number of occurrences.
+ */
+
+// Most occurrences a single series may expand to
+export const MAX_SERIES_OCCURRENCES = 60;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Check a rule is well formed; returns the problem, or null if valid
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule | null | undefined): string | null {
+  if (!rule || (rule.frequency !== 'daily' && rule.frequency !== 'weekly')) {
+    return 'Repeat must be daily or weekly';
+  }
+
+  const hasCount = rule.count !== undefined && rule.count !== null;
+  const hasUntil = !!rule.until;
+
+  if (hasCount === hasUntil) {
+    return 'Choose either an end date or a number of sessions';
+  }
+  if (hasCount && (!Number.isInteger(rule.count) || rule.count! < 1 || rule.count! > MAX_SERIES_OCCURRENCES)) {
+    return `A series can have between 1 and ${MAX_SERIES_OCCURRENCES} sessions`;
+  }
+  if (hasUntil && !/^\d{4}-\d{2}-\d{2}$/.test(rule.until!)) {
+    return 'End date must be YYYY-MM-DD';
+  }
+  if (rule.weekdays !== undefined) {
+    if (rule.frequency !== 'weekly') {
+      return 'Weekdays can only be chosen for weekly series';
+    }
+    if (
+      !Array.isArray(rule.weekdays) ||
+      rule.weekdays.length === 0 ||
+      rule.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+    ) {
+      return 'Choose at least one day of the week';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Expand a rule into the start times of its occurrences, beginning with
+ * `firstStart` (which need not fall on one of the rule's weekdays). Stops at
+ * the count, the end date or MAX_SERIES_OCCURRENCES, whichever comes first.
+ */
+export function expandRecurrence(firstStart: Date, rule: RecurrenceRule): Date[] {
+  const weekdays = new Set(rule.frequency === 'weekly' ? rule.weekdays || [firstStart.getDay()] : [0, 1, 2, 3, 4, 5, 6]);
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const occurrences: Date[] = [];
+
+  // Even a once-a-week series reaches its limit within this many days
+  for (let offset = 0; offset < MAX_SERIES_OCCURRENCES * 7 && occurrences.length < limit; offset++) {
+    const day = new Date(firstStart);
+    day.setDate(firstStart.getDate() + offset);
+
+    if (rule.until && toDateKey(day) > rule.until) {
+      break;
+    }
+    if (offset === 0 || weekdays.has(day.getDay())) {
+      occurrences.push(day);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Describe a rule for display, e.g. "Every Monday, Wednesday until 2024-03-29"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let repeat = 'Every day';
+  if (rule.frequency === 'weekly') {
+    const days = [...(rule.weekdays || [])].sort();
+    repeat =
+      days.length === 5 && days.every((day, index) => day === index + 1)
+        ? 'Every weekday'
+        : days.length > 0
+          ? `Every ${days.map((day) => WEEKDAY_NAMES[day]).join(', ')}`
+          : 'Every week';
+  }
+
+  return rule.until ? `${repeat} until ${rule.until}` : `${repeat}, ${rule.count} sessions`;
+}
+
+/**
+ * A date's local calendar day as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    (date.getMonth() + 1).toString().padStart(2, '0'),
+    date.getDate().toString().padStart(2, '0'),
+  ].join('-');
+}
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+
+import * as fc from 'fast-check';
+import type { ReportData } from '@/types';
+import { renderReportPdf } from './report-pdf';
+
+function makeReport(rowCount: number): ReportData {
+  return {
+    title: 'Report: occupancy',
+    generatedAt: '2024-01-31T12:00:00.000Z',
+    dateRange: { start: '2024-01-01T00:00:00.000Z', end: '2024-01-31T00:00:00.000Z' },
+    summary: { 'Occupancy Rate (%)': 42.5, 'Total Bookings': rowCount },
+    data: Array.from({ length: rowCount }, (_, i) => ({
+      'Booking ID': `booking-${i}`,
+      Seat: `G${String(i % 50).padStart(2, '0')}`,
+      Status: 'completed',
+      'Duration (min)': 60,
+    })),
+    charts: [
+      { type: 'bar', title: 'Bookings by Status', data: [{ label: 'completed', value: rowCount }] },
+    ],
+  };
+}
+
+function pdfText(bytes: ArrayBuffer): string {
+  return Buffer.from(bytes).toString('latin1');
+}
+
+function countPages(bytes: ArrayBuffer): number {
+  return (pdfText(bytes).match(/\/Type \/Page\b/g) || []).length;
+}
+
+describe('Report PDF - Property-Based Tests', () => {
+  // Feature: report-export, Property 1: Rendered reports are PDF documents containing the report content
+  test('Property 1: For any report, the output is a PDF containing its title, summary and rows', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 30 }), (rowCount) => {
+        const text = pdfText(renderReportPdf(makeReport(rowCount)));
+
+        expect(text.startsWith('%PDF-')).toBe(true);
+        expect(text).toContain('Report: occupancy');
+        expect(text).toContain('Occupancy Rate \\(%\\)');
+        expect(text).toContain('Bookings by Status');
+        if (rowCount > 0) {
+          expect(text).toContain(`booking-${rowCount - 1}`);
+        } else {
+          expect(text).toContain('No bookings in this date range.');
+        }
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('long data tables are split across pages', () => {
+    const short = renderReportPdf(makeReport(5));
+    const long = renderReportPdf(makeReport(300));
+
+    expect(countPages(short)).toBe(1);
+    expect(countPages(long)).toBeGreaterThan(1);
+    expect(pdfText(long)).toContain('booking-299');
+    expect(pdfText(long)).toContain(`Page ${countPages(long)} of ${countPages(long)}`);
+  });
+});
@@ -0,0 +1,199 @@
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import type { ReportChart, ReportData } from '@/types';
+
+/**
+ * Report PDF rendering
+ * Lays out a ReportData as an A4 document: title and date range, a summary
+ * table, one section per chart, the period breakdowns and the paginated data
+ * table.
+ */
+
+const MARGIN = 14; // mm
+const HEADER_COLOR: [number, number, number] = [59, 130, 246];
+const BAR_COLOR: [number, number, number] = [59, 130, 246];
+const CHART_HEIGHT = 70; // mm, including axis labels
+
+/**
+ * Render a report to PDF bytes
+ */
+export function renderReportPdf(report: ReportData): ArrayBuffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // Title and date range
+  doc.setFontSize(18);
+  doc.text(report.title, MARGIN, 20);
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Date Range: ${formatDate(report.dateRange.start)} to ${formatDate(report.dateRange.end)}`, MARGIN, 28);
+  doc.text(`Generated: ${new Date(report.generatedAt).toLocaleString()}`, MARGIN, 33);
+  doc.setTextColor(0);
+
+  let y = 42;
+
+  // Summary table
+  const summaryRows = Object.entries(report.summary).map(([key, value]) => [key, String(value)]);
+  if (summaryRows.length > 0) {
+    y = drawHeading(doc, 'Summary', y);
+    autoTable(doc, {
+      startY: y,
+      head: [['Metric', 'Value']],
+      body: summaryRows,
+      theme: 'grid',
+      headStyles: { fillColor: HEADER_COLOR },
+      margin: { left: MARGIN, right: MARGIN },
+      tableWidth: (pageWidth - MARGIN * 2) / 2,
+    });
+    y = getFinalY(doc) + 10;
+  }
+
+  // Charts
+  (report.charts || []).forEach((chart) => {
+    if (y + CHART_HEIGHT + 10 > doc.internal.pageSize.getHeight() - MARGIN) {
+      doc.addPage();
+      y = 20;
+    }
+    y = drawHeading(doc, chart.title, y);
+    drawBarChart(doc, chart, MARGIN, y, pageWidth - MARGIN * 2, CHART_HEIGHT);
+    y += CHART_HEIGHT + 10;
+  });
+
+  // Period breakdowns
+  (report.breakdowns || []).forEach((breakdown) => {
+    y = drawHeading(doc, `Bookings by ${breakdown.groupBy}`, y);
+    y = drawDataTable(doc, breakdown.rows, y) + 10;
+  });
+
+  // Data table, split across pages by autoTable
+  y = drawHeading(doc, 'Data', y);
+  if (report.data.length === 0) {
+    doc.setFontSize(10);
+    doc.text('No bookings in this date range.', MARGIN, y + 4);
+  } else {
+    drawDataTable(doc, report.data, y);
+  }
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(100);
+    doc.text(
+      `Page ${page} of ${pageCount}`,
+      pageWidth - MARGIN,
+      doc.internal.pageSize.getHeight() - 8,
+      { align: 'right' }
+    );
+  }
+
+  return doc.output('arraybuffer');
+}
+
+// Helper Functions
+
+function drawHeading(doc: jsPDF, text: string, y: number): number {
+  if (y > doc.internal.pageSize.getHeight() - 30) {
+    doc.addPage();
+    y = 20;
+  }
+  doc.setFontSize(13);
+  doc.setTextColor(0);
+  doc.text(text, MARGIN, y);
+  return y + 4;
+}
+
+/**
+ * Draw rows as a striped table, returning the y position below it
+ */
+function drawDataTable(doc: jsPDF, rows: Array<Record<string, any>>, y: number): number {
+  if (rows.length === 0) {
+    return y;
+  }
+
+  const headers = Object.keys(rows[0]);
+  autoTable(doc, {
+    startY: y,
+    head: [headers],
+    body: rows.map((row) => headers.map((header) => formatCell(row[header]))),
+    theme: 'striped',
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: HEADER_COLOR },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+
+  return getFinalY(doc);
+}
+
+/**
+ * Draw a bar chart with a value axis and one labelled bar per data point
+ */
+function drawBarChart(
+  doc: jsPDF,
+  chart: ReportChart,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const labelSpace = 12;
+  const axisSpace = 10;
+  const plotX = x + axisSpace;
+  const plotWidth = width - axisSpace;
+  const plotHeight = height - labelSpace;
+  const plotBottom = y + plotHeight;
+
+  doc.setDrawColor(180);
+  doc.line(plotX, y, plotX, plotBottom);
+  doc.line(plotX, plotBottom, plotX + plotWidth, plotBottom);
+
+  if (chart.data.length === 0) {
+    doc.setFontSize(9);
+    doc.text('No data', plotX + plotWidth / 2, y + plotHeight / 2, { align: 'center' });
+    return;
+  }
+
+  const max = Math.max(...chart.data.map((point) => point.value), 1);
+  const slot = plotWidth / chart.data.length;
+  const barWidth = Math.max(slot * 0.7, 0.5);
+
+  doc.setFontSize(7);
+  doc.setTextColor(100);
+  doc.text(String(max), plotX - 1, y + 2, { align: 'right' });
+  doc.text('0', plotX - 1, plotBottom, { align: 'right' });
+
+  // Thin out labels so they don't overlap when there are many bars
+  const labelEvery = Math.ceil(chart.data.length / Math.floor(plotWidth / 12));
+
+  doc.setFillColor(...BAR_COLOR);
+  chart.data.forEach((point, index) => {
+    const barHeight = (point.value / max) * plotHeight;
+    const barX = plotX + index * slot + (slot - barWidth) / 2;
+
+    if (barHeight > 0) {
+      doc.rect(barX, plotBottom - barHeight, barWidth, barHeight, 'F');
+    }
+
+    if (index % labelEvery === 0) {
+      doc.text(point.label, barX + barWidth / 2, plotBottom + 4, { align: 'center', maxWidth: slot * labelEvery });
+    }
+  });
+
+  doc.setTextColor(0);
+}
+
+function getFinalY(doc: jsPDF): number {
+  return (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString();
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return String(value);
+}
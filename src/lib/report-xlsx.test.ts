@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+
+import * as fc from 'fast-check';
+import ExcelJS from 'exceljs';
+import type { ReportData } from '@/types';
+import { renderReportXlsx, toCellValue } from './report-xlsx';
+
+function makeReport(rowCount: number): ReportData {
+  return {
+    title: 'Report: occupancy',
+    generatedAt: '2024-01-31T12:00:00.000Z',
+    dateRange: { start: '2024-01-01T00:00:00.000Z', end: '2024-01-31T00:00:00.000Z' },
+    summary: { 'Occupancy Rate (%)': 42.5 },
+    data: Array.from({ length: rowCount }, (_, i) => ({
+      'Booking ID': `booking-${i}`,
+      'Start Time': new Date(Date.UTC(2024, 0, 1 + (i % 28), 9)).toISOString(),
+      'Status': 'completed',
+      'Duration (min)': 30 + i,
+    })),
+    breakdowns: [
+      { groupBy: 'day', rows: [{ Period: '2024-01-01', 'Total Bookings': rowCount }] },
+    ],
+  };
+}
+
+async function readWorkbook(bytes: ArrayBuffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(bytes);
+  return workbook;
+}
+
+describe('Report XLSX - Property-Based Tests', () => {
+  // Feature: report-export, Property 2: Timestamps are written as dates and other values keep their type
+  test('Property 2: For any value, toCellValue keeps numbers and turns ISO timestamps into dates', () => {
+    fc.assert(
+      fc.property(
+        fc.date({ min: new Date('2000-01-01'), max: new Date('2100-01-01'), noInvalidDate: true }),
+        fc.double({ noNaN: true }),
+        fc.string(),
+        (date, number, text) => {
+          expect(toCellValue(date.toISOString())).toEqual(date);
+          expect(toCellValue(number)).toBe(number);
+          if (isNaN(new Date(text).getTime()) || !text.includes('T')) {
+            expect(toCellValue(text)).toBe(text);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('writes Summary, Data and breakdown sheets with typed, filterable columns', async () => {
+    const workbook = await readWorkbook(await renderReportXlsx(makeReport(3)));
+
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual(['Summary', 'Data', 'By Day']);
+
+    const summary = workbook.getWorksheet('Summary')!;
+    expect(summary.getRow(1).values).toEqual([, 'Metric', 'Value']);
+    expect(summary.getCell('B6').value).toBe(42.5);
+
+    const data = workbook.getWorksheet('Data')!;
+    expect(data.rowCount).toBe(4);
+    expect(data.getCell('A4').value).toBe('booking-2');
+    expect(data.getCell('B2').value).toEqual(new Date(Date.UTC(2024, 0, 1, 9)));
+    expect(data.getCell('D2').value).toBe(30);
+    expect(data.views[0]).toMatchObject({ state: 'frozen', ySplit: 1 });
+    expect(data.autoFilter).toBeDefined();
+
+    expect(workbook.getWorksheet('By Day')!.getCell('B2').value).toBe(3);
+  });
+});
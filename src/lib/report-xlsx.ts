@@ -0,0 +1,111 @@
+import ExcelJS from 'exceljs';
+import type { ReportData } from '@/types';
+
+/**
+ * Report XLSX rendering
+ * Writes a ReportData as a workbook with a Summary sheet, a Data sheet and one
+ * sheet per period breakdown. Every sheet has a frozen header row and an
+ * auto-filter; ISO timestamps are written as dates and numbers as numbers.
+ */
+
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm';
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+const BREAKDOWN_SHEET_NAMES: Record<string, string> = {
+  day: 'By Day',
+  week: 'By Week',
+  month: 'By Month',
+};
+
+/**
+ * Render a report to XLSX bytes
+ */
+export async function renderReportXlsx(report: ReportData): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.title = report.title;
+  workbook.created = new Date(report.generatedAt);
+
+  addSheet(workbook, 'Summary', [
+    { Metric: 'Report', Value: report.title },
+    { Metric: 'From', Value: report.dateRange.start },
+    { Metric: 'To', Value: report.dateRange.end },
+    { Metric: 'Generated', Value: report.generatedAt },
+    ...Object.entries(report.summary).map(([Metric, Value]) => ({ Metric, Value })),
+  ], ['Metric', 'Value']);
+
+  addSheet(workbook, 'Data', report.data);
+
+  (report.breakdowns || []).forEach((breakdown) => {
+    addSheet(workbook, BREAKDOWN_SHEET_NAMES[breakdown.groupBy] || `By ${breakdown.groupBy}`, breakdown.rows);
+  });
+
+  return workbook.xlsx.writeBuffer();
+}
+
+/**
+ * Convert a report value to the cell value Excel should store
+ */
+export function toCellValue(value: unknown): ExcelJS.CellValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return String(value);
+}
+
+// Helper Functions
+
+/**
+ * Add a sheet with a frozen, filterable header row. Headers default to the
+ * keys of the first row.
+ */
+function addSheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  rows: Array<Record<string, any>>,
+  headers: string[] = rows.length > 0 ? Object.keys(rows[0]) : []
+): ExcelJS.Worksheet {
+  const sheet = workbook.addWorksheet(name, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = headers.map((header) => ({
+    header,
+    key: header,
+    width: Math.max(header.length + 2, 12),
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  rows.forEach((row) => {
+    const added = sheet.addRow(headers.map((header) => toCellValue(row[header])));
+
+    added.eachCell((cell) => {
+      if (cell.value instanceof Date) {
+        cell.numFmt = DATE_FORMAT;
+      }
+    });
+  });
+
+  // Widen columns to fit their longest value
+  sheet.columns.forEach((column) => {
+    column.eachCell?.({ includeEmpty: false }, (cell) => {
+      const length = cell.value instanceof Date ? DATE_FORMAT.length : String(cell.value ?? '').length;
+      column.width = Math.min(Math.max(column.width ?? 12, length + 2), 50);
+    });
+  });
+
+  if (headers.length > 0) {
+    sheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: headers.length },
+    };
+  }
+
+  return sheet;
+}
@@ -0,0 +1,39 @@
+import * as fc from 'fast-check';
+import type { UserRestrictions } from '@/types';
+import { canAppealRestriction, hasRestrictionLapsed, isRestrictionActive } from './restrictions';
+
+const NOW = new Date(2024, 0, 8, 9, 0, 0);
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Restrictions', () => {
+  // Feature: restrictions, Property 1: Suspensions lift themselves
+  test('Property 1: a suspension is active exactly until it expires, then has lapsed', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -500, max: 500 }), (hoursLeft) => {
+        const restrictions: UserRestrictions = {
+          isFlagged: true,
+          reason: 'Noise',
+          expiresAt: new Date(NOW.getTime() + hoursLeft * HOUR_MS).toISOString(),
+        };
+
+        expect(isRestrictionActive(restrictions, NOW)).toBe(hoursLeft > 0);
+        expect(hasRestrictionLapsed(restrictions, NOW)).toBe(hoursLeft <= 0);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('flags without an expiry last until lifted', () => {
+    expect(isRestrictionActive({ isFlagged: true }, new Date(2099, 0, 1))).toBe(true);
+    expect(isRestrictionActive({ isFlagged: false }, NOW)).toBe(false);
+    expect(isRestrictionActive(null, NOW)).toBe(false);
+    expect(hasRestrictionLapsed({ isFlagged: false, expiresAt: NOW.toISOString() }, NOW)).toBe(false);
+  });
+
+  test('each restriction can be appealed once while it lasts', () => {
+    expect(canAppealRestriction({ isFlagged: true }, NOW)).toBe(true);
+    expect(canAppealRestriction({ isFlagged: true, appealId: 'a1' }, NOW)).toBe(false);
+    expect(canAppealRestriction({ isFlagged: true, expiresAt: NOW.toISOString() }, NOW)).toBe(false);
+    expect(canAppealRestriction({ isFlagged: false }, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import type { RestrictionSeverity, UserRestrictions } from '@/types';
+
+/**
+ * Account restrictions
+ * Staff flag a student with a severity and, for suspensions, an expiry after
+ * which the restriction lifts itself. A student may appeal each restriction
+ * once.
+ */
+
+export const RESTRICTION_SEVERITIES: RestrictionSeverity[] = ['minor', 'moderate', 'severe'];
+
+export const SEVERITY_LABELS: Record<RestrictionSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  severe: 'Severe',
+};
+
+/**
+ * Whether the restriction still stops the student booking
+ */
+export function isRestrictionActive(restrictions: UserRestrictions | null | undefined, now: Date): boolean {
+  if (!restrictions?.isFlagged) {
+    return false;
+  }
+  return !restrictions.expiresAt || new Date(restrictions.expiresAt) > now;
+}
+
+/**
+ * Whether the restriction is a suspension whose time is up but which hasn't
+ * been cleared from the profile yet
+ */
+export function hasRestrictionLapsed(restrictions: UserRestrictions | null | undefined, now: Date): boolean {
+  return !!restrictions?.isFlagged && !isRestrictionActive(restrictions, now);
+}
+
+/**
+ * Whether the student can still appeal their restriction
+ */
+export function canAppealRestriction(restrictions: UserRestrictions | null | undefined, now: Date): boolean {
+  return isRestrictionActive(restrictions, now) && !restrictions!.appealId;
+}
@@ -0,0 +1,30 @@
+import * as fc from 'fast-check';
+import { hasSeatAttributes, normalizeSeatAttributes, SEAT_ATTRIBUTES } from './seat-attributes';
+
+describe('Seat Attributes', () => {
+  // Feature: seat-attributes, Property 3: Normalised attributes are unique and in display order
+  test('Property 3: normalizeSeatAttributes keeps each known attribute once, in display order', () => {
+    fc.assert(
+      fc.property(fc.array(fc.constantFrom(...SEAT_ATTRIBUTES), { maxLength: 10 }), (attributes) => {
+        const normalized = normalizeSeatAttributes(attributes)!;
+
+        expect(new Set(normalized)).toEqual(new Set(attributes));
+        expect(normalized).toEqual(SEAT_ATTRIBUTES.filter((attribute) => attributes.includes(attribute)));
+        expect(hasSeatAttributes({ attributes: normalized }, attributes)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('rejects unknown attributes and non-lists', () => {
+    expect(normalizeSeatAttributes(['power', 'jacuzzi'])).toBeNull();
+    expect(normalizeSeatAttributes('power')).toBeNull();
+    expect(normalizeSeatAttributes([])).toEqual([]);
+  });
+
+  test('seats without attributes only match an empty filter', () => {
+    expect(hasSeatAttributes({}, [])).toBe(true);
+    expect(hasSeatAttributes({}, ['window'])).toBe(false);
+    expect(hasSeatAttributes({ attributes: ['window', 'power'] }, ['power'])).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import type { SeatAttribute } from '@/types';
+
+/**
+ * Seat attributes
+ * Physical features of a seat that students filter the seat map by. A seat
+ * matches a filter when it has every selected attribute.
+ */
+
+// In display order
+export const SEAT_ATTRIBUTES: SeatAttribute[] = ['power', 'window', 'quiet', 'accessible', 'desktop'];
+
+export const SEAT_ATTRIBUTE_LABELS: Record<SeatAttribute, string> = {
+  power: 'Power Socket',
+  window: 'Window',
+  quiet: 'Quiet Zone',
+  accessible: 'Wheelchair Accessible',
+  desktop: 'Desktop PC',
+};
+
+/**
+ * Check whether a value is a known seat attribute
+ */
+export function isSeatAttribute(value: unknown): value is SeatAttribute {
+  return typeof value === 'string' && (SEAT_ATTRIBUTES as string[]).includes(value);
+}
+
+/**
+ * Deduplicate attributes and put them in display order. Returns null if the
+ * value is not a list of known attributes.
+ */
+export function normalizeSeatAttributes(value: unknown): SeatAttribute[] | null {
+  if (!Array.isArray(value) || !value.every(isSeatAttribute)) {
+    return null;
+  }
+  return SEAT_ATTRIBUTES.filter((attribute) => value.includes(attribute));
+}
+
+/**
+ * Check whether a seat has every one of the required attributes
+ */
+export function hasSeatAttributes(
+  seat: { attributes?: SeatAttribute[] | null },
+  required: SeatAttribute[]
+): boolean {
+  return required.every((attribute) => seat.attributes?.includes(attribute));
+}
@@ -0,0 +1,201 @@
+import * as fc from 'fast-check';
+import {
+  DEFAULT_LAYOUT,
+  normalizeLayout,
+  getFloors,
+  getFloorSeats,
+  getFloorSections,
+  getSeatFloorId,
+  getSeatsWithoutState,
+  createSeatState,
+  getFloorSeatStates,
+  filterSeats,
+} from './seat-layout';
+import { SEAT_ATTRIBUTES } from './seat-attributes';
+import type { Seat, SeatAttribute, SeatLayout, SeatStatus } from '@/types';
+
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+
+// Layouts of up to three floors, each seat on one of them
+const layoutArb: fc.Arbitrary<SeatLayout> = fc
+  .record({
+    floorOrders: fc.array(fc.integer({ min: 0, max: 5 }), { minLength: 1, maxLength: 3 }),
+    seats: fc.uniqueArray(
+      fc.record({
+        id: fc.stringMatching(/^[a-z][a-z0-9-]{0,7}$/),
+        floor: fc.nat(),
+        order: fc.integer({ min: 0, max: 20 }),
+        attributes: fc.subarray(SEAT_ATTRIBUTES),
+      }),
+      { selector: (seat) => seat.id, maxLength: 30 }
+    ),
+  })
+  .map(({ floorOrders, seats }) => {
+    const floorIds = floorOrders.map((_, index) => `floor-${index}`);
+    return {
+      buildings: { main: { id: 'main', name: 'Main', order: 0 } },
+      floors: Object.fromEntries(
+        floorIds.map((id, index) => [id, { id, buildingId: 'main', name: id, order: floorOrders[index] }])
+      ),
+      sections: {},
+      plans: {},
+      seats: Object.fromEntries(
+        seats.map((seat) => {
+          const floorId = floorIds[seat.floor % floorIds.length];
+          return [
+            seat.id,
+            {
+              id: seat.id,
+              floorId,
+              label: seat.id.toUpperCase(),
+              order: seat.order,
+              ...(seat.attributes.length > 0 ? { attributes: seat.attributes } : {}),
+            },
+          ];
+        })
+      ),
+    };
+  });
+
+// A layout with live state for some of its seats; some free seats are held for other students
+const seatStatesArb = layoutArb.chain((layout) =>
+  fc
+    .array(
+      fc.option(
+        fc.record({
+          status: fc.constantFrom<SeatStatus>('available', 'reserved', 'occupied', 'maintenance'),
+          heldForOther: fc.boolean(),
+        }),
+        { nil: null }
+      ),
+      { minLength: Object.keys(layout.seats).length, maxLength: Object.keys(layout.seats).length }
+    )
+    .map((states) => {
+      const seatStates: Record<string, Record<string, Seat>> = {};
+      Object.values(layout.seats).forEach((seat, index) => {
+        const state = states[index];
+        if (state) {
+          seatStates[seat.floorId] = {
+            ...seatStates[seat.floorId],
+            [seat.id]: {
+              ...createSeatState(layout, seat),
+              status: state.status,
+              ...(state.heldForOther
+                ? { waitlistHold: { entryId: 'w1', userId: 'other', expiresAt: NOW.getTime() + 60000 } }
+                : {}),
+            },
+          };
+        }
+      });
+      return { layout, seatStates };
+    })
+);
+
+const attributeFilterArb = fc.subarray<SeatAttribute>(SEAT_ATTRIBUTES, { maxLength: 3 });
+
+describe('Seat Layout', () => {
+  // Feature: seat-layout, Property 1: Every seat is listed on exactly the floor it belongs to
+  test('Property 1: each seat appears once, on its own floor, in layout order', () => {
+    fc.assert(
+      fc.property(layoutArb, (layout) => {
+        const listed = getFloors(layout).flatMap((floor) => {
+          const seats = getFloorSeats(layout, floor.id);
+          seats.forEach((seat) => expect(getSeatFloorId(layout, seat.id)).toBe(floor.id));
+          seats.slice(1).forEach((seat, index) => {
+            expect(seat.order).toBeGreaterThanOrEqual(seats[index].order);
+          });
+          return seats.map((seat) => seat.id);
+        });
+
+        expect(listed.sort()).toEqual(Object.keys(layout.seats).sort());
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('the default layout keeps the original floors and seat ids', () => {
+    expect(getFloors(DEFAULT_LAYOUT).map((floor) => floor.name)).toEqual(['Ground', 'First', 'Second', 'Third']);
+    expect(getFloorSeats(DEFAULT_LAYOUT, 'ground')).toHaveLength(50);
+    expect(getSeatFloorId(DEFAULT_LAYOUT, 'G01')).toBe('ground');
+    expect(getSeatFloorId(DEFAULT_LAYOUT, 'F50')).toBe('first');
+    expect(getSeatFloorId(DEFAULT_LAYOUT, 'S07')).toBe('second');
+    expect(getSeatFloorId(DEFAULT_LAYOUT, 'T12')).toBe('third');
+    expect(getSeatFloorId(DEFAULT_LAYOUT, 'X01')).toBeNull();
+    expect(getFloorSections(DEFAULT_LAYOUT, 'ground').map((section) => section.name)).toEqual(['General']);
+  });
+
+  test('falls back to the default layout and fills in dropped collections', () => {
+    expect(normalizeLayout(null)).toBe(DEFAULT_LAYOUT);
+    expect(normalizeLayout({ seats: {} } as Partial<SeatLayout>)).toBe(DEFAULT_LAYOUT);
+
+    const floors = { mezzanine: { id: 'mezzanine', buildingId: 'main', name: 'Mezzanine', order: 0 } };
+    expect(normalizeLayout({ floors })).toEqual({ buildings: {}, floors, sections: {}, seats: {}, plans: {} });
+  });
+
+  test('finds seats without live state and creates it from the layout', () => {
+    const missing = getSeatsWithoutState(DEFAULT_LAYOUT, { ground: { G01: { id: 'G01' } } });
+    expect(missing).toHaveLength(199);
+    expect(missing.map((seat) => seat.id)).not.toContain('G01');
+
+    expect(createSeatState(DEFAULT_LAYOUT, DEFAULT_LAYOUT.seats.F10)).toEqual({
+      id: 'F10',
+      number: 'F10',
+      section: 'General',
+      floor: 'First',
+      status: 'available',
+      bookedBy: null,
+      bookedAt: null,
+      bookingId: null,
+      occupiedUntil: null,
+    });
+  });
+
+  // Feature: seat-attributes, Property 1: Attribute filters require every selected attribute
+  test('Property 1: For any attribute filter, only seats with all selected attributes are shown, combined with availability', () => {
+    fc.assert(
+      fc.property(seatStatesArb, attributeFilterArb, fc.boolean(), ({ layout, seatStates }, attributes, availableOnly) => {
+        getFloors(layout).forEach((floor) => {
+          const seats = getFloorSeatStates(layout, seatStates, floor.id);
+          const shown = filterSeats(seats, { attributes, availableOnly }, 'me', NOW);
+
+          const expected = seats.filter(
+            ([layoutSeat, state]) =>
+              attributes.every((attribute) => layoutSeat.attributes?.includes(attribute)) &&
+              (!availableOnly || (state.status === 'available' && !state.waitlistHold))
+          );
+          expect(shown.map(([seat]) => seat.id)).toEqual(expected.map(([seat]) => seat.id));
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: seat-attributes, Property 2: An empty attribute filter shows every seat
+  test('Property 2: For any seat collection, clearing the attribute filter displays all seats with live state', () => {
+    fc.assert(
+      fc.property(seatStatesArb, ({ layout, seatStates }) => {
+        getFloors(layout).forEach((floor) => {
+          const seats = getFloorSeatStates(layout, seatStates, floor.id);
+
+          expect(seats.map(([seat]) => seat.id)).toEqual(
+            getFloorSeats(layout, floor.id)
+              .filter((seat) => seatStates[floor.id]?.[seat.id])
+              .map((seat) => seat.id)
+          );
+          expect(filterSeats(seats, { attributes: [] }, 'me', NOW)).toEqual(seats);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('a seat held for the student themselves still counts as available to them', () => {
+    const seat = createSeatState(DEFAULT_LAYOUT, DEFAULT_LAYOUT.seats.G01);
+    const held: Seat = { ...seat, waitlistHold: { entryId: 'w1', userId: 'me', expiresAt: NOW.getTime() + 60000 } };
+    const seats = getFloorSeatStates(DEFAULT_LAYOUT, { ground: { G01: held } }, 'ground');
+
+    expect(filterSeats(seats, { availableOnly: true }, 'me', NOW)).toHaveLength(1);
+    expect(filterSeats(seats, { availableOnly: true }, 'other', NOW)).toHaveLength(0);
+    expect(filterSeats(seats, { floorId: 'first' }, 'me', NOW)).toHaveLength(0);
+  });
+});
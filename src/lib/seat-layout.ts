@@ -0,0 +1,172 @@
+import { hasSeatAttributes } from '@/lib/seat-attributes';
+import { isHeldForOthers } from '@/lib/waitlist';
+import type { Floor, LayoutSeat, Seat, SeatFilters, SeatLayout, Section } from '@/types';
+
+/**
+ * Seat layout utilities
+ * The layout (buildings, floors, sections and seats) is data, stored at
+ * layout/. Libraries that have not stored one get DEFAULT_LAYOUT: the original
+ * four floors of 50 seats (G01-G50, F01-F50, S01-S50, T01-T50).
+ */
+
+const DEFAULT_BUILDING_ID = 'main';
+const DEFAULT_FLOORS = ['Ground', 'First', 'Second', 'Third'];
+const DEFAULT_SEATS_PER_FLOOR = 50;
+
+export const DEFAULT_LAYOUT: SeatLayout = buildDefaultLayout();
+
+/**
+ * Fill in the collections the database drops when they are empty
+ */
+export function normalizeLayout(layout: Partial<SeatLayout> | null | undefined): SeatLayout {
+  if (!layout || !layout.floors) {
+    return DEFAULT_LAYOUT;
+  }
+
+  return {
+    buildings: layout.buildings || {},
+    floors: layout.floors,
+    sections: layout.sections || {},
+    seats: layout.seats || {},
+    plans: layout.plans || {},
+  };
+}
+
+/**
+ * Get the floors in display order (by building, then floor)
+ */
+export function getFloors(layout: SeatLayout): Floor[] {
+  const buildingOrder = (buildingId: string) => layout.buildings[buildingId]?.order ?? 0;
+
+  return Object.values(layout.floors).sort(
+    (a, b) => buildingOrder(a.buildingId) - buildingOrder(b.buildingId) || byOrder(a, b)
+  );
+}
+
+/**
+ * Get a floor's sections in display order
+ */
+export function getFloorSections(layout: SeatLayout, floorId: string): Section[] {
+  return Object.values(layout.sections)
+    .filter((section) => section.floorId === floorId)
+    .sort(byOrder);
+}
+
+/**
+ * Get a floor's seats in display order
+ */
+export function getFloorSeats(layout: SeatLayout, floorId: string): LayoutSeat[] {
+  return Object.values(layout.seats)
+    .filter((seat) => seat.floorId === floorId)
+    .sort(byOrder);
+}
+
+/**
+ * Pair a floor's layout seats with their live state (seats/{floorId}), in
+ * display order. Seats without live state yet are left out.
+ */
+export function getFloorSeatStates(
+  layout: SeatLayout,
+  seatStates: Record<string, Record<string, Seat>> | null,
+  floorId: string
+): Array<[LayoutSeat, Seat]> {
+  const floorStates = seatStates?.[floorId] || {};
+  return getFloorSeats(layout, floorId)
+    .filter((seat) => floorStates[seat.id])
+    .map((seat) => [seat, floorStates[seat.id]]);
+}
+
+/**
+ * Keep the seats matching the filters. Attributes come from the layout seat;
+ * a seat held for another waitlisted student is not available to userId.
+ */
+export function filterSeats(
+  seats: Array<[LayoutSeat, Seat]>,
+  filters: SeatFilters,
+  userId: string | null,
+  now: Date
+): Array<[LayoutSeat, Seat]> {
+  return seats.filter(([layoutSeat, state]) => {
+    if (filters.floorId && layoutSeat.floorId !== filters.floorId) {
+      return false;
+    }
+    if (filters.availableOnly && (state.status !== 'available' || isHeldForOthers(state, userId, now))) {
+      return false;
+    }
+    return hasSeatAttributes(layoutSeat, filters.attributes || []);
+  });
+}
+
+/**
+ * Find the floor a seat is on, or null if the seat is not in the layout
+ */
+export function getSeatFloorId(layout: SeatLayout, seatId: string): string | null {
+  return layout.seats[seatId]?.floorId ?? null;
+}
+
+/**
+ * Path of a seat's live state (status, holds and reservations)
+ */
+export function getSeatStatePath(floorId: string, seatId: string): string {
+  return `seats/${floorId}/${seatId}`;
+}
+
+/**
+ * Get the layout seats that have no live state yet
+ */
+export function getSeatsWithoutState(
+  layout: SeatLayout,
+  seatStates: Record<string, Record<string, unknown>> | null
+): LayoutSeat[] {
+  return Object.values(layout.seats).filter((seat) => !seatStates?.[seat.floorId]?.[seat.id]);
+}
+
+/**
+ * Initial live state for a layout seat
+ */
+export function createSeatState(layout: SeatLayout, seat: LayoutSeat): Seat {
+  return {
+    id: seat.id,
+    number: seat.label,
+    section: (seat.sectionId && layout.sections[seat.sectionId]?.name) || '',
+    floor: layout.floors[seat.floorId]?.name || seat.floorId,
+    status: 'available',
+    bookedBy: null,
+    bookedAt: null,
+    bookingId: null,
+    occupiedUntil: null,
+  };
+}
+
+// Helper Functions
+
+function byOrder(a: { id: string; order: number }, b: { id: string; order: number }): number {
+  return (a.order ?? 0) - (b.order ?? 0) || a.id.localeCompare(b.id);
+}
+
+function buildDefaultLayout(): SeatLayout {
+  const layout: SeatLayout = {
+    buildings: {
+      [DEFAULT_BUILDING_ID]: { id: DEFAULT_BUILDING_ID, name: 'Main Library', order: 0 },
+    },
+    floors: {},
+    sections: {},
+    seats: {},
+    plans: {},
+  };
+
+  DEFAULT_FLOORS.forEach((name, floorIndex) => {
+    const floorId = name.toLowerCase();
+    const sectionId = `${floorId}-general`;
+
+    layout.floors[floorId] = { id: floorId, buildingId: DEFAULT_BUILDING_ID, name, order: floorIndex };
+    layout.sections[sectionId] = { id: sectionId, floorId, name: 'General', order: 0 };
+
+    for (let i = 1; i <= DEFAULT_SEATS_PER_FLOOR; i++) {
+      const seatId = `${name.charAt(0)}${i.toString().padStart(2, '0')}`;
+      layout.seats[seatId] = { id: seatId, floorId, sectionId, label: seatId, order: i };
+    }
+  });
+
+  return layout;
+}
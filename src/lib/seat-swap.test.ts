@@ -0,0 +1,124 @@
+import * as fc from 'fast-check';
+import type { Seat } from '@/types';
+import { getSeatSlot, getSlotProblem, isSameSlot, placeSlot, reassignSlot, type SeatSlot } from './seat-swap';
+
+// Monday 10:00 UTC; times below are minutes after this
+const NOW = new Date(Date.UTC(2024, 0, 8, 10, 0));
+const at = (minute: number) => new Date(NOW.getTime() + minute * 60000);
+
+const freeSeat = (): Seat => ({
+  id: 'G02',
+  number: '02',
+  section: 'A',
+  floor: 'ground',
+  status: 'available',
+  bookedBy: null,
+  bookedAt: null,
+  bookingId: null,
+});
+
+const holdArb = fc.record({
+  status: fc.constantFrom<'reserved' | 'occupied'>('reserved', 'occupied'),
+  heldFor: fc.integer({ min: -120, max: 0 }),
+  until: fc.integer({ min: 1, max: 240 }),
+});
+
+const reservationArb = fc
+  .record({ start: fc.integer({ min: 0, max: 600 }), length: fc.integer({ min: 15, max: 240 }) })
+  .map(({ start, length }) => ({ start, end: start + length }));
+
+function holdSlot(hold: { status: 'reserved' | 'occupied'; heldFor: number; until: number }): Extract<SeatSlot, { kind: 'hold' }> {
+  return {
+    kind: 'hold',
+    bookingId: 'b1',
+    userId: 'user1',
+    status: hold.status,
+    bookedAt: at(hold.heldFor).getTime(),
+    occupiedUntil: at(hold.until).getTime(),
+  };
+}
+
+function reservationSlot(bookingId: string, start: number, end: number): Extract<SeatSlot, { kind: 'reservation' }> {
+  return {
+    kind: 'reservation',
+    reservation: { bookingId, userId: 'user1', startTime: at(start).toISOString(), endTime: at(end).toISOString() },
+  };
+}
+
+describe('Seat Swaps', () => {
+  // Feature: seat-swaps, Property 1: A slot moves between seats unchanged
+  test('Property 1: a hold or reservation placed on a free seat reads back as the same slot', () => {
+    fc.assert(
+      fc.property(holdArb, reservationArb, (hold, { start, end }) => {
+        const held = holdSlot(hold);
+        expect(getSlotProblem(freeSeat(), held, NOW)).toBeNull();
+        expect(isSameSlot(getSeatSlot(placeSlot(freeSeat(), held), 'b1'), held)).toBe(true);
+
+        const reserved = reservationSlot('b2', start, end);
+        expect(getSlotProblem(freeSeat(), reserved, NOW)).toBeNull();
+        expect(isSameSlot(getSeatSlot(placeSlot(freeSeat(), reserved), 'b2'), reserved)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: seat-swaps, Property 2: A slot is refused where it would overlap another booking
+  test('Property 2: a reservation can be placed iff it misses every reservation already on the seat', () => {
+    fc.assert(
+      fc.property(reservationArb, reservationArb, (existing, wanted) => {
+        const seat = placeSlot(freeSeat(), reservationSlot('other', existing.start, existing.end));
+        const problem = getSlotProblem(seat, reservationSlot('b1', wanted.start, wanted.end), NOW);
+        const overlaps = wanted.start < existing.end && wanted.end > existing.start;
+
+        expect(problem !== null).toBe(overlaps);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: seat-swaps, Property 3: A hold is refused by a seat that isn't free now
+  test('Property 3: a hold cannot be placed on a held or out-of-use seat', () => {
+    fc.assert(
+      fc.property(holdArb, fc.constantFrom<Seat['status']>('reserved', 'occupied', 'maintenance', 'out-of-service'), (hold, status) => {
+        expect(getSlotProblem({ ...freeSeat(), status }, holdSlot(hold), NOW)).not.toBeNull();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('a hold is refused if a reservation starts before it ends', () => {
+    const seat = placeSlot(freeSeat(), reservationSlot('other', 60, 120));
+    const hold = holdSlot({ status: 'occupied', heldFor: -30, until: 90 });
+
+    expect(getSlotProblem(seat, hold, NOW)).toMatch(/already reserved/);
+    expect(getSlotProblem(seat, { ...hold, occupiedUntil: at(60).getTime() }, NOW)).toBeNull();
+  });
+
+  test('a hold is refused on a seat offered to someone else on the waitlist', () => {
+    const seat: Seat = {
+      ...freeSeat(),
+      waitlistHold: { entryId: 'w1', userId: 'user2', expiresAt: at(10).getTime() },
+    };
+    const hold = holdSlot({ status: 'reserved', heldFor: 0, until: 60 });
+
+    expect(getSlotProblem(seat, hold, NOW)).toMatch(/waitlist/);
+    expect(getSlotProblem(seat, { ...hold, userId: 'user2' }, NOW)).toBeNull();
+  });
+
+  test('a handed-over hold is reserved again from the hand-over', () => {
+    const hold = holdSlot({ status: 'occupied', heldFor: -30, until: 90 });
+
+    expect(reassignSlot(hold, 'b9', 'user2', NOW)).toEqual({
+      ...hold,
+      bookingId: 'b9',
+      userId: 'user2',
+      status: 'reserved',
+      bookedAt: NOW.getTime(),
+    });
+    const reserved = reservationSlot('b1', 60, 120);
+    expect(reassignSlot(reserved, 'b9', 'user2', NOW)).toEqual({
+      kind: 'reservation',
+      reservation: { ...reserved.reservation, bookingId: 'b9', userId: 'user2' },
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { findTimelineConflict } from '@/lib/seat-timeline';
+import { getActiveHold } from '@/lib/waitlist';
+import type { Seat, SeatReservation } from '@/types';
+
+/**
+ * Seat moves and swaps
+ * A booking's place on a seat is its slot: either the seat's current hold or
+ * a reservation on its timeline. Moving a booking lifts its slot off one seat
+ * and places it, unchanged, on another.
+ */
+
+export type SeatSlot =
+  | {
+      kind: 'hold';
+      bookingId: string;
+      userId: string;
+      status: 'reserved' | 'occupied';
+      bookedAt: number | null; // Epoch ms
+      occupiedUntil: number | null; // Epoch ms
+    }
+  | { kind: 'reservation'; reservation: SeatReservation };
+
+/**
+ * Get the booking's slot on a seat, or null if the seat holds nothing for it
+ */
+export function getSeatSlot(seat: Seat, bookingId: string): SeatSlot | null {
+  if (seat.bookingId === bookingId && seat.bookedBy && (seat.status === 'reserved' || seat.status === 'occupied')) {
+    return {
+      kind: 'hold',
+      bookingId,
+      userId: seat.bookedBy,
+      status: seat.status,
+      bookedAt: seat.bookedAt ?? null,
+      occupiedUntil: seat.occupiedUntil ?? null,
+    };
+  }
+
+  const reservation = seat.reservations?.[bookingId];
+  return reservation ? { kind: 'reservation', reservation } : null;
+}
+
+/**
+ * Why the slot can't be placed on the seat, or null if it can
+ */
+export function getSlotProblem(seat: Seat, slot: SeatSlot, now: Date): string | null {
+  if (seat.status === 'maintenance' || seat.status === 'out-of-service') {
+    return `Seat ${seat.id} is under maintenance`;
+  }
+
+  if (slot.kind === 'hold') {
+    if (seat.status !== 'available') {
+      return `Seat ${seat.id} is not available`;
+    }
+    const hold = getActiveHold(seat, now);
+    if (hold && hold.userId !== slot.userId) {
+      return `Seat ${seat.id} is being held for a student on the waitlist`;
+    }
+  }
+
+  const { start, end } = getSlotInterval(slot, now);
+  const conflict = findTimelineConflict(seat, start, end, now);
+  if (conflict && conflict.bookingId !== getSlotBookingId(slot)) {
+    return `Seat ${seat.id} is already reserved from ${new Date(conflict.start).toLocaleTimeString()}`;
+  }
+
+  return null;
+}
+
+/**
+ * Put the slot on the seat. Check getSlotProblem first.
+ */
+export function placeSlot(seat: Seat, slot: SeatSlot): Seat {
+  if (slot.kind === 'hold') {
+    return {
+      ...seat,
+      status: slot.status,
+      bookedBy: slot.userId,
+      bookedAt: slot.bookedAt,
+      bookingId: slot.bookingId,
+      occupiedUntil: slot.occupiedUntil,
+    };
+  }
+
+  return {
+    ...seat,
+    reservations: { ...(seat.reservations || {}), [slot.reservation.bookingId]: slot.reservation },
+  };
+}
+
+/**
+ * The same slot, held for another booking (when a booking is handed over).
+ * A hold goes back to reserved: the new holder still has to check in.
+ */
+export function reassignSlot(slot: SeatSlot, bookingId: string, userId: string, now: Date): SeatSlot {
+  if (slot.kind === 'hold') {
+    return { ...slot, bookingId, userId, status: 'reserved', bookedAt: now.getTime() };
+  }
+  return { kind: 'reservation', reservation: { ...slot.reservation, bookingId, userId } };
+}
+
+/**
+ * Whether two slots are the same hold or reservation
+ */
+export function isSameSlot(a: SeatSlot | null, b: SeatSlot | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  if (a.kind === 'hold' && b.kind === 'hold') {
+    return (
+      a.bookingId === b.bookingId &&
+      a.status === b.status &&
+      a.bookedAt === b.bookedAt &&
+      a.occupiedUntil === b.occupiedUntil
+    );
+  }
+  if (a.kind === 'reservation' && b.kind === 'reservation') {
+    return (
+      a.reservation.bookingId === b.reservation.bookingId &&
+      a.reservation.startTime === b.reservation.startTime &&
+      a.reservation.endTime === b.reservation.endTime
+    );
+  }
+  return false;
+}
+
+// Helper Functions
+
+function getSlotBookingId(slot: SeatSlot): string {
+  return slot.kind === 'hold' ? slot.bookingId : slot.reservation.bookingId;
+}
+
+function getSlotInterval(slot: SeatSlot, now: Date): { start: Date; end: Date } {
+  if (slot.kind === 'hold') {
+    return { start: now, end: new Date(slot.occupiedUntil ?? Number.MAX_SAFE_INTEGER) };
+  }
+  return { start: new Date(slot.reservation.startTime), end: new Date(slot.reservation.endTime) };
+}
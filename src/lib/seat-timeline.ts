@@ -0,0 +1,69 @@
+import type { Seat, SeatReservation } from '@/types';
+
+/**
+ * Seat timeline utilities
+ * A seat's timeline is its current hold (reserved/occupied until
+ * occupiedUntil) plus any future reservations stored on the seat.
+ */
+
+export interface TimelineEntry {
+  bookingId: string;
+  userId: string;
+  start: number; // epoch ms
+  end: number; // epoch ms
+}
+
+/**
+ * Get the seat's timeline entries that have not yet ended, earliest first
+ */
+export function getSeatTimeline(seat: Seat, now: Date = new Date()): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const nowMs = now.getTime();
+
+  if ((seat.status === 'reserved' || seat.status === 'occupied') && seat.bookingId && seat.bookedBy) {
+    entries.push({
+      bookingId: seat.bookingId,
+      userId: seat.bookedBy,
+      start: seat.bookedAt ?? nowMs,
+      end: seat.occupiedUntil ?? Number.MAX_SAFE_INTEGER,
+    });
+  }
+
+  Object.values(seat.reservations || {}).forEach((reservation: SeatReservation) => {
+    entries.push({
+      bookingId: reservation.bookingId,
+      userId: reservation.userId,
+      start: new Date(reservation.startTime).getTime(),
+      end: new Date(reservation.endTime).getTime(),
+    });
+  });
+
+  return entries
+    .filter((entry) => entry.end > nowMs)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find the first timeline entry overlapping the requested interval
+ */
+export function findTimelineConflict(
+  seat: Seat,
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): TimelineEntry | null {
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+
+  return (
+    getSeatTimeline(seat, now).find((entry) => startMs < entry.end && endMs > entry.start) || null
+  );
+}
+
+/**
+ * Get the next reservation that has not started yet
+ */
+export function getNextReservation(seat: Seat, now: Date = new Date()): TimelineEntry | null {
+  const nowMs = now.getTime();
+  return getSeatTimeline(seat, now).find((entry) => entry.start > nowMs) || null;
+}
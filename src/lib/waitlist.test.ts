@@ -0,0 +1,107 @@
+import * as fc from 'fast-check';
+import type { WaitlistEntry } from '@/types';
+import { SEAT_ATTRIBUTES } from './seat-attributes';
+import {
+  getActiveHold,
+  getTargetKey,
+  getWaitlistCandidates,
+  getWaitlistPosition,
+  isHeldForOthers,
+  matchesWaitlistTarget,
+} from './waitlist';
+
+const floorArb = fc.constantFrom('ground', 'first', 'second');
+const attributesArb = fc.uniqueArray(fc.constantFrom(...SEAT_ATTRIBUTES), { maxLength: 3 });
+
+const entryArb = fc.record({
+  userId: fc.constantFrom('u1', 'u2', 'u3', 'u4'),
+  floorId: floorArb,
+  status: fc.constantFrom<WaitlistEntry['status']>('waiting', 'waiting', 'offered', 'cancelled'),
+  minute: fc.integer({ min: 0, max: 59 }),
+});
+
+function toEntries(records: Array<{ userId: string; floorId: string; status: WaitlistEntry['status']; minute: number }>): WaitlistEntry[] {
+  return records.map((record, index) => {
+    const createdAt = new Date(Date.UTC(2024, 2, 1, 10, record.minute)).toISOString();
+    return {
+      id: `entry-${index.toString().padStart(3, '0')}`,
+      userId: record.userId,
+      userName: 'Student',
+      target: { floorId: record.floorId },
+      status: record.status,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  });
+}
+
+describe('Waitlist', () => {
+  // Feature: waitlist, Property 1: Floor and feature targets match exactly the seats that satisfy them
+  test('Property 1: a floor/feature target matches a seat iff the floor matches and the seat has every feature', () => {
+    fc.assert(
+      fc.property(floorArb, attributesArb, floorArb, attributesArb, (targetFloor, wanted, seatFloor, seatAttributes) => {
+        const matches = matchesWaitlistTarget(
+          { floorId: targetFloor, attributes: wanted },
+          { id: 'X01', floorId: seatFloor, attributes: seatAttributes }
+        );
+
+        expect(matches).toBe(
+          targetFloor === seatFloor && wanted.every((attribute) => seatAttributes.includes(attribute))
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: waitlist, Property 2: Candidates are waiting entries in first-come, first-served order
+  test('Property 2: candidates are the matching waiting entries, oldest first, without skipped users', () => {
+    fc.assert(
+      fc.property(fc.array(entryArb, { maxLength: 20 }), floorArb, fc.uniqueArray(fc.constantFrom('u1', 'u2', 'u3', 'u4'), { maxLength: 2 }), (records, floorId, skipped) => {
+        const skippedIds: string[] = skipped;
+        const entries = toEntries(records);
+        const candidates = getWaitlistCandidates(entries, { id: 'X01', floorId }, new Set(skippedIds));
+
+        expect(candidates.map((entry) => entry.id).sort()).toEqual(
+          entries
+            .filter((entry) => entry.status === 'waiting' && entry.target.floorId === floorId && !skippedIds.includes(entry.userId))
+            .map((entry) => entry.id)
+            .sort()
+        );
+        candidates.slice(1).forEach((entry, index) => {
+          expect(entry.createdAt >= candidates[index].createdAt).toBe(true);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: waitlist, Property 3: Positions number each queue 1..n in offer order
+  test('Property 3: the waiting entries of a queue hold positions 1..n in the order they would be offered', () => {
+    fc.assert(
+      fc.property(fc.array(entryArb, { maxLength: 20 }), floorArb, (records, floorId) => {
+        const entries = toEntries(records);
+        const queue = getWaitlistCandidates(entries, { id: 'X01', floorId });
+
+        expect(queue.map((entry) => getWaitlistPosition(entries, entry))).toEqual(queue.map((_, index) => index + 1));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('target keys ignore attribute order', () => {
+    expect(getTargetKey({ floorId: 'ground', attributes: ['window', 'power'] })).toBe(
+      getTargetKey({ floorId: 'ground', attributes: ['power', 'window'] })
+    );
+    expect(getTargetKey({ seatId: 'G01' })).not.toBe(getTargetKey({ floorId: 'ground' }));
+  });
+
+  test('lapsed holds no longer keep the seat from other students', () => {
+    const now = new Date('2024-03-01T10:00:00.000Z');
+    const seat = { waitlistHold: { entryId: 'e1', userId: 'u1', expiresAt: now.getTime() + 1000 } };
+
+    expect(getActiveHold(seat, now)?.userId).toBe('u1');
+    expect(isHeldForOthers(seat, 'u1', now)).toBe(false);
+    expect(isHeldForOthers(seat, 'u2', now)).toBe(true);
+    expect(isHeldForOthers(seat, 'u2', new Date(now.getTime() + 1000))).toBe(false);
+  });
+});
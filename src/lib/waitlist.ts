@@ -0,0 +1,118 @@
+import { hasSeatAttributes, SEAT_ATTRIBUTE_LABELS } from '@/lib/seat-attributes';
+import type { Seat, SeatAttribute, SeatLayout, WaitlistEntry, WaitlistHold, WaitlistTarget } from '@/types';
+
+/**
+ * Waitlist rules
+ * A freed seat is offered to the longest-waiting student whose target it
+ * matches. The seat is held for them for the claim window; if they don't book
+ * it in time the offer lapses and the seat goes to the next student.
+ */
+
+// How long an offered seat is held for the student
+export const WAITLIST_CLAIM_WINDOW_MS = 5 * 60 * 1000;
+
+// Waiting or offered entries a student may have at once
+export const MAX_ACTIVE_WAITLIST_ENTRIES = 3;
+
+export interface WaitlistSeat {
+  id: string;
+  floorId: string;
+  attributes?: SeatAttribute[];
+}
+
+/**
+ * Check whether a seat satisfies a waitlist target
+ */
+export function matchesWaitlistTarget(target: WaitlistTarget, seat: WaitlistSeat): boolean {
+  if (target.seatId) {
+    return target.seatId === seat.id;
+  }
+  if (target.floorId && target.floorId !== seat.floorId) {
+    return false;
+  }
+  return hasSeatAttributes(seat, target.attributes || []);
+}
+
+/**
+ * Whether an entry is still in the queue or holding an offer
+ */
+export function isActiveWaitlistEntry(entry: Pick<WaitlistEntry, 'status'>): boolean {
+  return entry.status === 'waiting' || entry.status === 'offered';
+}
+
+/**
+ * Get a seat's waitlist hold if it has not lapsed
+ */
+export function getActiveHold(seat: Pick<Seat, 'waitlistHold'>, now: Date): WaitlistHold | null {
+  const hold = seat.waitlistHold;
+  return hold && hold.expiresAt > now.getTime() ? hold : null;
+}
+
+/**
+ * Whether a seat is held for someone other than this user
+ */
+export function isHeldForOthers(seat: Pick<Seat, 'waitlistHold'>, userId: string | null | undefined, now: Date): boolean {
+  const hold = getActiveHold(seat, now);
+  return !!hold && hold.userId !== userId;
+}
+
+/**
+ * Order the waiting entries a freed seat could be offered to, longest
+ * waiting first. Users in `skipUserIds` (already holding an offer or a
+ * booking) are passed over but keep their place.
+ */
+export function getWaitlistCandidates(
+  entries: WaitlistEntry[],
+  seat: WaitlistSeat,
+  skipUserIds: Set<string> = new Set()
+): WaitlistEntry[] {
+  return entries
+    .filter((entry) => entry.status === 'waiting' && !skipUserIds.has(entry.userId))
+    .filter((entry) => matchesWaitlistTarget(entry.target, seat))
+    .sort(byQueueOrder);
+}
+
+/**
+ * An entry's place among the waiting entries with the same target (1-based)
+ */
+export function getWaitlistPosition(entries: WaitlistEntry[], entry: WaitlistEntry): number {
+  const key = getTargetKey(entry.target);
+  return (
+    entries.filter(
+      (other) =>
+        other.status === 'waiting' &&
+        getTargetKey(other.target) === key &&
+        byQueueOrder(other, entry) < 0
+    ).length + 1
+  );
+}
+
+/**
+ * A stable key for a target, so equal targets compare equal
+ */
+export function getTargetKey(target: WaitlistTarget): string {
+  if (target.seatId) {
+    return `seat:${target.seatId}`;
+  }
+  return `floor:${target.floorId || '*'}|${[...(target.attributes || [])].sort().join(',')}`;
+}
+
+/**
+ * Describe a target for display, e.g. "any seat on Second with Power Socket"
+ */
+export function describeWaitlistTarget(target: WaitlistTarget, layout: SeatLayout | null): string {
+  if (target.seatId) {
+    return `Seat ${layout?.seats[target.seatId]?.label || target.seatId}`;
+  }
+
+  const floor = target.floorId ? ` on ${layout?.floors[target.floorId]?.name || target.floorId}` : '';
+  const features = (target.attributes || []).map((attribute) => SEAT_ATTRIBUTE_LABELS[attribute]);
+
+  return `Any seat${floor}${features.length > 0 ? ` with ${features.join(', ')}` : ''}`;
+}
+
+// Helper Functions
+
+function byQueueOrder(a: WaitlistEntry, b: WaitlistEntry): number {
+  return a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+}
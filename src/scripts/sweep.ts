@@ -0,0 +1,36 @@
+/**
+ * Run the scheduled jobs (settings, booking sweep, suspension expiry) once
+ * against the configured database, as the cron route does.
+ * Usage: npm run sweep
+ */
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the env is loaded so Firebase picks up the config
+  const { runScheduledJobs } = await import('@/services/scheduled-jobs');
+  const result = await runScheduledJobs();
+
+  result.appliedSettings.forEach((versionId) => {
+    console.log(`settings version ${versionId} applied`);
+  });
+
+  result.actions.forEach((action) => {
+    console.log(`${action.type.padEnd(8)} seat ${action.seatId} booking ${action.bookingId ?? '-'}`);
+  });
+  result.expiredOffers.forEach((entryId) => {
+    console.log(`offer    waitlist entry ${entryId} expired`);
+  });
+  result.liftedRestrictions.forEach((userId) => {
+    console.log(`lifted   suspension of user ${userId}`);
+  });
+  console.log(`Sweep finished at ${result.sweptAt}: ${result.actions.length} action(s)`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Sweep failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,122 @@
+import * as fc from 'fast-check';
+import type { RestrictionHistoryEntry } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { mockTree, readPath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { getAppeals, getUserAppeals, reviewAppeal, submitAppeal } from './appeals';
+import { flagUser, liftExpiredRestrictions } from './user-management';
+
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+const HOUR_MS = 60 * 60 * 1000;
+const hoursAfter = (hours: number) => new Date(NOW.getTime() + hours * HOUR_MS);
+
+function resetTree() {
+  mockTree.root = {
+    users: {
+      user1: { uid: 'user1', email: 'user1@srmist.edu.in' },
+      staff1: { uid: 'staff1', displayName: 'Librarian' },
+    },
+    restrictions: {
+      user1: { isFlagged: false },
+    },
+  };
+}
+
+const historyOf = (userId: string) =>
+  (Object.values(readPath(`restrictionHistory/${userId}`) || {}) as RestrictionHistoryEntry[]).map((entry) => entry.event);
+const auditActions = () => (Object.values(readPath('auditLogs') || {}) as any[]).map((log) => log.action);
+
+async function appeal(message = 'I was at the help desk') {
+  return submitAppeal('user1', 'Student', 'user1@srmist.edu.in', message, hoursAfter(1));
+}
+
+describe('Appeals', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetTree();
+  });
+
+  // Feature: restrictions, Property 2: Accepting an appeal lifts the restriction, rejecting keeps it
+  test('Property 2: a reviewed appeal lifts the restriction iff it was accepted', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom<'accepted' | 'rejected'>('accepted', 'rejected'), fc.boolean(), async (decision, suspension) => {
+        resetTree();
+        await flagUser('user1', 'Left bag on seat', 'staff1', suspension ? { expiresAt: hoursAfter(48).toISOString() } : {}, NOW);
+        const submitted = await appeal();
+
+        const result = await reviewAppeal(submitted.appeal!.id, decision, 'Thanks for explaining', 'staff1', hoursAfter(2));
+
+        expect(result.appeal).toMatchObject({ status: decision, reply: 'Thanks for explaining', reviewedBy: 'staff1' });
+        expect(readPath('restrictions/user1/isFlagged')).toBe(decision === 'rejected');
+        expect(historyOf('user1')).toEqual(['flagged', 'appeal-submitted', `appeal-${decision}`]);
+        expect(auditActions()).toEqual(['flag_user', decision === 'accepted' ? 'accept_appeal' : 'reject_appeal']);
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('queues appeals for staff with the restriction being appealed', async () => {
+    await flagUser('user1', 'Noise', 'staff1', { severity: 'severe' }, NOW);
+    const result = await appeal();
+
+    expect(result.success).toBe(true);
+    expect(readPath('restrictions/user1/appealId')).toBe(result.appeal!.id);
+
+    const [queued] = await getAppeals('pending');
+    expect(queued).toMatchObject({
+      userId: 'user1',
+      message: 'I was at the help desk',
+      restriction: { reason: 'Noise', severity: 'severe', isFlagged: true },
+    });
+    expect(await getUserAppeals('user1')).toHaveLength(1);
+  });
+
+  test('only a restricted student can appeal, once per restriction', async () => {
+    expect(await appeal()).toEqual({ success: false, message: 'Your account has no restriction to appeal' });
+
+    await flagUser('user1', 'Noise', 'staff1', {}, NOW);
+    await appeal();
+    expect(await appeal()).toEqual({ success: false, message: 'You have already appealed this restriction' });
+
+    // A new flag can be appealed again
+    await flagUser('user1', 'Food at desk', 'staff1', {}, hoursAfter(3));
+    expect((await submitAppeal('user1', 'Student', 'user1@srmist.edu.in', 'Not mine', hoursAfter(4))).success).toBe(true);
+  });
+
+  test('an appeal is reviewed once, and accepting it leaves a newer restriction alone', async () => {
+    await flagUser('user1', 'Noise', 'staff1', {}, NOW);
+    const first = await appeal();
+    await flagUser('user1', 'Food at desk', 'staff1', {}, hoursAfter(2));
+
+    await reviewAppeal(first.appeal!.id, 'accepted', 'Fair enough', 'staff1', hoursAfter(3));
+    expect(readPath('restrictions/user1')).toMatchObject({ isFlagged: true, reason: 'Food at desk' });
+
+    expect(await reviewAppeal(first.appeal!.id, 'rejected', 'Changed my mind', 'staff1', hoursAfter(4))).toEqual({
+      success: false,
+      message: 'Appeal not found or already reviewed',
+    });
+  });
+
+  test('suspensions lift themselves once they expire', async () => {
+    await flagUser('user1', 'Noise', 'staff1', { expiresAt: hoursAfter(24).toISOString() }, NOW);
+
+    expect(await liftExpiredRestrictions(hoursAfter(23))).toEqual([]);
+    expect(await liftExpiredRestrictions(hoursAfter(24))).toEqual(['user1']);
+
+    expect(readPath('restrictions/user1')).toEqual({ isFlagged: false });
+    expect(historyOf('user1')).toEqual(['flagged', 'expired']);
+    expect((Object.values(readPath('auditLogs')) as any[]).pop()).toMatchObject({
+      adminId: 'system',
+      action: 'unflag_user',
+      reason: 'Suspension expired',
+    });
+  });
+});
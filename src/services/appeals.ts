@@ -0,0 +1,149 @@
+import { ref, get, set, push, update, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { canAppealRestriction, isRestrictionActive } from '@/lib/restrictions';
+import { recordAuditEvent } from '@/services/audit-log';
+import { getUserRestrictions, restrictionHistoryUpdate } from '@/services/user-management';
+import type { AppealResult, AppealStatus, RestrictionAppeal } from '@/types';
+
+/**
+ * Appeals Service
+ * A flagged student can appeal their restriction once. Appeals wait in a
+ * queue for staff, who accept (lifting the restriction) or reject them with
+ * a reply. Each step is kept in the student's restriction history.
+ */
+
+/**
+ * Appeal the student's current restriction
+ */
+export async function submitAppeal(
+  userId: string,
+  userName: string,
+  userEmail: string,
+  message: string,
+  now: Date = new Date()
+): Promise<AppealResult> {
+  try {
+    const restrictions = await getUserRestrictions(userId);
+
+    if (!isRestrictionActive(restrictions, now)) {
+      return { success: false, message: 'Your account has no restriction to appeal' };
+    }
+    if (!canAppealRestriction(restrictions, now)) {
+      return { success: false, message: 'You have already appealed this restriction' };
+    }
+
+    const appealRef = push(ref(db, 'appeals'));
+    const appeal: RestrictionAppeal = {
+      id: appealRef.key!,
+      userId,
+      userName,
+      userEmail,
+      message: message.trim(),
+      status: 'pending',
+      restriction: restrictions!,
+      submittedAt: now.toISOString(),
+    };
+
+    await set(appealRef, appeal);
+    await update(ref(db), {
+      [`restrictions/${userId}/appealId`]: appeal.id,
+      ...restrictionHistoryUpdate(userId, {
+        event: 'appeal-submitted',
+        at: now.toISOString(),
+        by: userId,
+        reason: appeal.message,
+        appealId: appeal.id,
+      }),
+    });
+
+    return { success: true, appeal };
+  } catch (error) {
+    console.error('Error submitting appeal:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accept or reject a pending appeal. Accepting lifts the restriction if it
+ * is still the one that was appealed.
+ */
+export async function reviewAppeal(
+  appealId: string,
+  decision: Exclude<AppealStatus, 'pending'>,
+  reply: string,
+  adminId: string,
+  now: Date = new Date()
+): Promise<AppealResult> {
+  try {
+    const result = await runTransaction(ref(db, `appeals/${appealId}`), (current: RestrictionAppeal | null) => {
+      if (!current || current.status !== 'pending') {
+        return undefined;
+      }
+      return { ...current, status: decision, reply, reviewedBy: adminId, reviewedAt: now.toISOString() };
+    });
+
+    if (!result.committed) {
+      return { success: false, message: 'Appeal not found or already reviewed' };
+    }
+
+    const appeal = result.snapshot.val() as RestrictionAppeal;
+    const restrictions = await getUserRestrictions(appeal.userId);
+    const lift = decision === 'accepted' && restrictions?.isFlagged && restrictions.appealId === appealId;
+
+    await update(ref(db), {
+      ...(lift ? { [`restrictions/${appeal.userId}`]: { isFlagged: false } } : {}),
+      ...restrictionHistoryUpdate(appeal.userId, {
+        event: decision === 'accepted' ? 'appeal-accepted' : 'appeal-rejected',
+        at: now.toISOString(),
+        by: adminId,
+        reason: reply,
+        appealId,
+      }),
+      [`users/${appeal.userId}/updatedAt`]: now.toISOString(),
+    });
+
+    await recordAuditEvent(
+      {
+        adminId,
+        action: decision === 'accepted' ? 'accept_appeal' : 'reject_appeal',
+        targetId: appeal.userId,
+        targetType: 'user',
+        reason: reply,
+        details: { appealId, restrictionLifted: !!lift },
+      },
+      now
+    );
+
+    return { success: true, appeal };
+  } catch (error) {
+    console.error('Error reviewing appeal:', error);
+    throw error;
+  }
+}
+
+/**
+ * Appeals in the staff queue, oldest first
+ */
+export async function getAppeals(status?: AppealStatus): Promise<RestrictionAppeal[]> {
+  try {
+    const snapshot = await get(ref(db, 'appeals'));
+    if (!snapshot.exists()) {
+      return [];
+    }
+
+    return (Object.values(snapshot.val()) as RestrictionAppeal[])
+      .filter((appeal) => !status || appeal.status === status)
+      .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+  } catch (error) {
+    console.error('Error fetching appeals:', error);
+    return [];
+  }
+}
+
+/**
+ * A student's own appeals, newest first
+ */
+export async function getUserAppeals(userId: string): Promise<RestrictionAppeal[]> {
+  const appeals = await getAppeals();
+  return appeals.filter((appeal) => appeal.userId === userId).reverse();
+}
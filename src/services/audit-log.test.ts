@@ -0,0 +1,181 @@
+import * as fc from 'fast-check';
+import type { AuditLog, AuditLogFilters, AuditTargetType } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { mockTree, resetMockDatabase } from '@/test-utils/mock-database';
+
+// Import after mocking
+import {
+  recordAuditEvent,
+  searchAuditLogs,
+  getAuditLogPage,
+  exportAuditLogsToCSV,
+} from './audit-log';
+
+const targetTypes: AuditTargetType[] = ['booking', 'user', 'seat', 'settings', 'feedback'];
+const BASE = Date.UTC(2024, 0, 1);
+
+const auditLogArb: fc.Arbitrary<AuditLog> = fc.record({
+  id: fc.uuid(),
+  timestamp: fc.integer({ min: 0, max: 60 * 24 * 60 }).map((minutes) => new Date(BASE + minutes * 60000).toISOString()),
+  adminId: fc.constantFrom('admin1', 'admin2', 'system'),
+  adminName: fc.constantFrom('Ada', 'Grace', 'Booking Sweeper'),
+  action: fc.constantFrom('cancel_booking', 'flag_user', 'seat_maintenance', 'update_operating_hours'),
+  targetId: fc.constantFrom('b1', 'u1', 'G05', 'library'),
+  targetType: fc.constantFrom(...targetTypes),
+});
+
+const filtersArb: fc.Arbitrary<AuditLogFilters> = fc.record(
+  {
+    adminId: fc.constantFrom('admin1', 'admin2', 'system'),
+    action: fc.constantFrom('cancel_booking', 'flag_user', 'seat_maintenance'),
+    targetType: fc.constantFrom(...targetTypes),
+    targetId: fc.constantFrom('b1', 'u1', 'G05'),
+    startDate: fc.integer({ min: 0, max: 30 }).map((days) => new Date(BASE + days * 86400000)),
+    endDate: fc.integer({ min: 30, max: 60 }).map((days) => new Date(BASE + days * 86400000)),
+  },
+  { requiredKeys: [] }
+);
+
+function seedLogs(logs: AuditLog[]): void {
+  mockTree.root = { auditLogs: Object.fromEntries(logs.map((log) => [log.id, log])) };
+}
+
+function matches(log: AuditLog, filters: AuditLogFilters): boolean {
+  const time = new Date(log.timestamp).getTime();
+  return (
+    (!filters.adminId || log.adminId === filters.adminId) &&
+    (!filters.action || log.action === filters.action) &&
+    (!filters.targetType || log.targetType === filters.targetType) &&
+    (!filters.targetId || log.targetId === filters.targetId) &&
+    (!filters.startDate || time >= filters.startDate.getTime()) &&
+    (!filters.endDate || time <= filters.endDate.getTime())
+  );
+}
+
+describe('Audit Log Service', () => {
+  beforeEach(() => {
+    resetMockDatabase();
+  });
+
+  // Feature: audit-log, Property 1: Queries return exactly the matching entries, newest first
+  test('Property 1: searchAuditLogs returns exactly the entries matching every filter, newest first', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(auditLogArb, { maxLength: 30 }), filtersArb, async (logs, filters) => {
+        seedLogs(logs);
+
+        const result = await searchAuditLogs(filters);
+
+        expect(result.map((log) => log.id).sort()).toEqual(
+          logs.filter((log) => matches(log, filters)).map((log) => log.id).sort()
+        );
+        result.slice(1).forEach((log, index) => {
+          expect(log.timestamp <= result[index].timestamp).toBe(true);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: audit-log, Property 2: Pages partition the matching entries
+  test('Property 2: consecutive pages cover every matching entry exactly once', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(auditLogArb, { maxLength: 30 }),
+        fc.integer({ min: 1, max: 10 }),
+        async (logs, pageSize) => {
+          seedLogs(logs);
+
+          const all = await searchAuditLogs();
+          const first = await getAuditLogPage({}, 1, pageSize);
+          const pageCount = Math.max(Math.ceil(first.total / pageSize), 1);
+          const paged: AuditLog[] = [];
+
+          for (let page = 1; page <= pageCount; page++) {
+            const result = await getAuditLogPage({}, page, pageSize);
+            expect(result.logs.length).toBeLessThanOrEqual(pageSize);
+            paged.push(...result.logs);
+          }
+
+          expect(first.total).toBe(logs.length);
+          expect(paged.map((log) => log.id)).toEqual(all.map((log) => log.id));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('records the admin name from their profile and drops undefined fields', async () => {
+    mockTree.root = { users: { admin1: { displayName: 'Ada Lovelace', email: 'ada@example.com' } } };
+    const now = new Date(BASE);
+
+    await recordAuditEvent(
+      { adminId: 'admin1', action: 'flag_user', targetId: 'u1', targetType: 'user', reason: undefined },
+      now
+    );
+    await recordAuditEvent({ adminId: 'ghost', action: 'unflag_user', targetId: 'u1', targetType: 'user' }, now);
+
+    const logs = await searchAuditLogs();
+    expect(logs.map((log) => log.adminName).sort()).toEqual(['Ada Lovelace', 'Admin']);
+    expect(logs[0].timestamp).toBe(now.toISOString());
+    expect(logs.every((log) => !('reason' in log))).toBe(true);
+  });
+
+  test('keeps an explicit admin name', async () => {
+    await recordAuditEvent({
+      adminId: 'system',
+      adminName: 'Booking Sweeper',
+      action: 'sweep_expired',
+      targetId: 'b1',
+      targetType: 'booking',
+    });
+
+    expect((await searchAuditLogs())[0]).toMatchObject({ adminId: 'system', adminName: 'Booking Sweeper' });
+  });
+
+  test('exports one CSV row per entry with quoted details', () => {
+    const csv = exportAuditLogsToCSV([
+      {
+        id: 'l1',
+        timestamp: '2024-01-01T10:00:00.000Z',
+        adminId: 'admin1',
+        adminName: 'Ada',
+        action: 'override_booking',
+        targetId: 'b1',
+        targetType: 'booking',
+        reason: 'Wrong seat, moved',
+        details: { before: { seatId: 'G01' }, after: { seatId: 'G02' } },
+      },
+    ]);
+
+    const lines = csv.split('\n');
+    expect(lines[0]).toBe('timestamp,adminId,actorId,adminName,action,targetType,targetId,reason,details');
+    expect(lines[1]).toBe(
+      '2024-01-01T10:00:00.000Z,admin1,,Ada,override_booking,booking,b1,"Wrong seat, moved",' +
+        '"{""before"":{""seatId"":""G01""},""after"":{""seatId"":""G02""}}"'
+    );
+  });
+
+  test('cells a spreadsheet would run as formulas are exported as text', () => {
+    const csv = exportAuditLogsToCSV(
+      ['=HYPERLINK("http://evil")', '+1', '-2+3', '@SUM(A1)', '\tTab', '\rReturn'].map((adminName, index) => ({
+        id: `l${index}`,
+        timestamp: '2024-01-01T10:00:00.000Z',
+        adminId: 'user1',
+        adminName,
+        action: 'move_seat',
+        targetId: 'b1',
+        targetType: 'booking',
+      }))
+    );
+
+    const names = csv.split('\n').slice(1).map((line) => line.split(',')[3]);
+    expect(names).toEqual(["\"'=HYPERLINK(\"\"http://evil\"\")\"", "'+1", "'-2+3", "'@SUM(A1)", "'\tTab", "\"'\rReturn\""]);
+  });
+});
@@ -0,0 +1,172 @@
+import { ref, get, set, push } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import type { AuditLog, AuditLogFilters, AuditLogPage, AuditTargetType } from '@/types';
+
+/**
+ * Audit Log Service
+ * The single writer for auditLogs, used by every staff action and the booking
+ * sweeper, plus the queries behind the admin audit viewer.
+ */
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+const CSV_COLUMNS: Array<keyof AuditLog> = [
+  'timestamp',
+  'adminId',
+  'actorId',
+  'adminName',
+  'action',
+  'targetType',
+  'targetId',
+  'reason',
+  'details',
+];
+
+export interface AuditEvent {
+  adminId?: string; // Staff member who acted, or 'system'
+  actorId?: string; // Set instead of adminId when a student acted on their own booking
+  adminName?: string; // Looked up from the actor's profile when omitted
+  action: string;
+  targetId: string;
+  targetType: AuditTargetType;
+  reason?: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Record a staff or student action in the audit log. Failures are logged,
+ * not thrown: the action itself has already happened.
+ */
+export async function recordAuditEvent(event: AuditEvent, now: Date = new Date()): Promise<void> {
+  try {
+    const adminName = event.adminName || (await getAdminName((event.adminId ?? event.actorId)!));
+    const newLogRef = push(ref(db, 'auditLogs'));
+
+    const log: AuditLog = {
+      ...event,
+      id: newLogRef.key!,
+      timestamp: now.toISOString(),
+      adminName,
+    };
+
+    // The database rejects undefined values
+    await set(newLogRef, JSON.parse(JSON.stringify(log)));
+  } catch (error) {
+    console.error('Error logging admin action:', error);
+  }
+}
+
+/**
+ * Get all audit log entries matching the filters, newest first
+ */
+export async function searchAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLog[]> {
+  try {
+    const snapshot = await get(ref(db, 'auditLogs'));
+
+    if (!snapshot.exists()) {
+      return [];
+    }
+
+    const logs = Object.values(snapshot.val() as Record<string, AuditLog>);
+
+    return logs
+      .filter((log) => matchesFilters(log, filters))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one page of audit log entries matching the filters
+ */
+export async function getAuditLogPage(
+  filters: AuditLogFilters = {},
+  page: number = 1,
+  pageSize: number = DEFAULT_AUDIT_PAGE_SIZE
+): Promise<AuditLogPage> {
+  const logs = await searchAuditLogs(filters);
+  const start = (page - 1) * pageSize;
+
+  return {
+    logs: logs.slice(start, start + pageSize),
+    total: logs.length,
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * Export audit log entries to CSV
+ */
+export function exportAuditLogsToCSV(logs: AuditLog[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+
+  logs.forEach((log) => {
+    lines.push(CSV_COLUMNS.map((column) => toCSVCell(log[column])).join(','));
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Resolve the display name recorded for an admin
+ */
+export async function getAdminName(adminId: string): Promise<string> {
+  try {
+    const snapshot = await get(ref(db, `users/${adminId}`));
+    const profile = snapshot?.exists() ? snapshot.val() : null;
+    return profile?.displayName || profile?.email || 'Admin';
+  } catch {
+    return 'Admin';
+  }
+}
+
+// Helper Functions
+
+
+function matchesFilters(log: AuditLog, filters: AuditLogFilters): boolean {
+  if (filters.adminId && log.adminId !== filters.adminId) {
+    return false;
+  }
+  if (filters.action && log.action !== filters.action) {
+    return false;
+  }
+  if (filters.targetType && log.targetType !== filters.targetType) {
+    return false;
+  }
+  if (filters.targetId && log.targetId !== filters.targetId) {
+    return false;
+  }
+
+  const timestamp = new Date(log.timestamp);
+
+  if (filters.startDate && timestamp < filters.startDate) {
+    return false;
+  }
+  if (filters.endDate && timestamp > filters.endDate) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Quote a value for CSV. Names and reasons can be student-written, so text a
+ * spreadsheet would run as a formula is prefixed with ' to keep it as text.
+ */
+function toCSVCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const raw = typeof value === 'string' ? value : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
@@ -0,0 +1,145 @@
+import * as fc from 'fast-check';
+import type { Booking } from '@/types';
+
+process.env.QR_TOKEN_SECRET = 'test-secret';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { endBreak, startBreak } from './booking-breaks';
+import { issueBookingToken, verifyBookingScan } from './booking-checkin';
+import { runSweep } from './booking-sweeper';
+import { __test__ as settingsTest } from './library-settings';
+
+// Fake clock: a Monday at 10:00 local time
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+const minutes = (n: number) => n * 60000;
+const later = (n: number) => new Date(NOW.getTime() + minutes(n));
+
+// A checked-in two-hour booking on G01
+function seedActiveBooking() {
+  resetMockDatabase();
+  settingsTest.clear();
+  writePath('bookings/user1/b1', {
+    id: 'b1',
+    seatId: 'G01',
+    userId: 'user1',
+    userName: 'Student',
+    status: 'active',
+    bookingTime: NOW.toISOString(),
+    startTime: NOW.toISOString(),
+    endTime: later(120).toISOString(),
+    entryTime: NOW.toISOString(),
+    duration: 120,
+    qrScans: { entry: NOW.toISOString() },
+  });
+  writePath('users/user1', { uid: 'user1', currentBookingId: 'b1' });
+  writePath('seats/ground/G01', {
+    id: 'G01',
+    status: 'occupied',
+    bookedBy: 'user1',
+    bookedAt: NOW.getTime(),
+    bookingId: 'b1',
+    occupiedUntil: later(120).getTime(),
+  });
+}
+
+const bookingOf = () => ({ ...(readPath('bookings/user1/b1') as Booking), id: 'b1' });
+
+describe('Booking Breaks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    seedActiveBooking();
+  });
+
+  // Feature: booking-breaks, Property 1: A break ends with a rescan or, failing that, the booking
+  test('Property 1: the booking survives a break iff the student rescans before the deadline', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 60 }), fc.integer({ min: 1, max: 60 }), async (startAfter, awayFor) => {
+        seedActiveBooking();
+        const token = (await issueBookingToken('user1', 'b1')).token!;
+        await startBreak('user1', 'b1', later(startAfter));
+
+        const deadline = startAfter + 30;
+        const sweepAt = startAfter + awayFor;
+        await runSweep(later(sweepAt));
+        const scan = await verifyBookingScan(token, 'entry', later(sweepAt));
+
+        const booking = bookingOf();
+        if (sweepAt <= deadline) {
+          expect(scan).toMatchObject({ success: true, message: 'Welcome back' });
+          expect(booking.status).toBe('active');
+          expect(readPath('seats/ground/G01/onBreak')).toBeFalsy();
+        } else {
+          expect(scan.success).toBe(false);
+          expect(booking.status).toBe('completed');
+          expect(booking.exitTime).toBe(later(startAfter).toISOString());
+          expect(readPath('seats/ground/G01/status')).toBe('available');
+        }
+        expect(booking.currentBreakId).toBeFalsy();
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('marks the seat as on break until the configured limit', async () => {
+    settingsTest.setSettings({ bookingRules: { maxBreakDuration: 15 } } as any);
+
+    const result = await startBreak('user1', 'b1', later(10));
+
+    expect(result.success).toBe(true);
+    expect(readPath('seats/ground/G01')).toMatchObject({
+      status: 'occupied',
+      bookingId: 'b1',
+      onBreak: { bookingId: 'b1', startedAt: later(10).getTime(), endsAt: later(25).getTime() },
+    });
+    expect(bookingOf().breaks![bookingOf().currentBreakId!]).toMatchObject({
+      startedAt: later(10).toISOString(),
+      endsBy: later(25).toISOString(),
+    });
+  });
+
+  test('breaks end no later than the booking', async () => {
+    await startBreak('user1', 'b1', later(110));
+    expect(readPath('seats/ground/G01/onBreak/endsAt')).toBe(later(120).getTime());
+  });
+
+  test('only one break at a time, and only once checked in', async () => {
+    await startBreak('user1', 'b1', later(10));
+    expect(await startBreak('user1', 'b1', later(11))).toEqual({ success: false, message: 'You are already on a break' });
+
+    writePath('bookings/user1/b2', { id: 'b2', seatId: 'G02', userId: 'user1', status: 'pending', endTime: later(60).toISOString() });
+    expect(await startBreak('user1', 'b2', later(11))).toEqual({
+      success: false,
+      message: 'You can only take a break after checking in',
+    });
+  });
+
+  test('a break can only be ended once', async () => {
+    await startBreak('user1', 'b1', later(10));
+    const onBreak = bookingOf();
+
+    const returned = await endBreak(onBreak, later(20));
+    expect(returned?.breaks![onBreak.currentBreakId!].endedAt).toBe(later(20).toISOString());
+    expect(await endBreak(onBreak, later(21))).toBeNull();
+  });
+
+  test('checking out during a break ends the break and frees the seat', async () => {
+    const token = (await issueBookingToken('user1', 'b1')).token!;
+    await startBreak('user1', 'b1', later(10));
+
+    const scan = await verifyBookingScan(token, 'exit', later(20));
+
+    expect(scan.success).toBe(true);
+    expect(readPath('seats/ground/G01')).toMatchObject({ status: 'available', bookingId: null });
+    expect(readPath('seats/ground/G01/onBreak')).toBeFalsy();
+    expect(bookingOf()).toMatchObject({ status: 'completed', exitTime: later(20).toISOString() });
+  });
+});
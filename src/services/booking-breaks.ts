@@ -0,0 +1,136 @@
+import { ref, get, push, update, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { getBreakDeadline, getMaxBreakMinutes } from '@/lib/booking-break';
+import { normalizeBookingStatus } from '@/lib/booking-status';
+import { loadLibrarySettings } from '@/services/library-settings';
+import { resolveSeatPath } from '@/services/seat-layout';
+import type { Booking, BookingBreak, BreakResult, Seat } from '@/types';
+
+/**
+ * Booking Break Service
+ * Lets a checked-in student step away without giving up their seat. The
+ * seat is marked as on break; rescanning the booking's QR code ends the
+ * break, and the sweeper ends the booking if the student doesn't return in
+ * time.
+ */
+
+/**
+ * Start a break on the student's active booking
+ */
+export async function startBreak(userId: string, bookingId: string, now: Date = new Date()): Promise<BreakResult> {
+  try {
+    const bookingRef = ref(db, `bookings/${userId}/${bookingId}`);
+    const snapshot = await get(bookingRef);
+
+    if (!snapshot.exists()) {
+      return { success: false, message: 'Booking not found' };
+    }
+
+    const booking = { ...(snapshot.val() as Booking), id: bookingId };
+
+    if (normalizeBookingStatus(booking.status) !== 'active') {
+      return { success: false, message: 'You can only take a break after checking in' };
+    }
+    if (booking.currentBreakId) {
+      return { success: false, message: 'You are already on a break' };
+    }
+
+    const endsBy = getBreakDeadline(booking, getMaxBreakMinutes(await loadLibrarySettings()), now);
+    if (endsBy <= now) {
+      return { success: false, message: 'Your booking has ended' };
+    }
+
+    const seatPath = await resolveSeatPath(booking.seatId);
+    if (!seatPath) {
+      return { success: false, message: `Seat ${booking.seatId} not found` };
+    }
+
+    const seatClaim = await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+      if (seat === null) {
+        return null;
+      }
+      if (seat.bookingId !== bookingId || seat.status !== 'occupied' || seat.onBreak) {
+        return;
+      }
+      return { ...seat, onBreak: { bookingId, startedAt: now.getTime(), endsAt: endsBy.getTime() } };
+    });
+
+    if (!seatClaim.committed || !seatClaim.snapshot.exists()) {
+      return { success: false, message: 'Your seat is no longer held for this booking' };
+    }
+
+    const breakId = push(ref(db, `bookings/${userId}/${bookingId}/breaks`)).key!;
+    const started: BookingBreak = { id: breakId, startedAt: now.toISOString(), endsBy: endsBy.toISOString() };
+
+    await update(bookingRef, {
+      [`breaks/${breakId}`]: started,
+      currentBreakId: breakId,
+      updatedAt: now.toISOString(),
+    });
+
+    return {
+      success: true,
+      booking: {
+        ...booking,
+        breaks: { ...booking.breaks, [breakId]: started },
+        currentBreakId: breakId,
+        updatedAt: now.toISOString(),
+      },
+    };
+  } catch (error) {
+    console.error('Error starting break:', error);
+    throw error;
+  }
+}
+
+/**
+ * End the booking's current break, when the student rescans on their return
+ * or checks out. Returns null if there is no break to end (e.g. a replayed scan).
+ */
+export async function endBreak(booking: Booking, now: Date = new Date()): Promise<Booking | null> {
+  try {
+    const breakId = booking.currentBreakId;
+    if (!breakId) {
+      return null;
+    }
+
+    const bookingPath = `bookings/${booking.userId}/${booking.id}`;
+
+    // Claim the return so the same scan can't end the break twice
+    const claim = await runTransaction(ref(db, `${bookingPath}/breaks/${breakId}/endedAt`), (current: string | null) => {
+      if (current) {
+        return;
+      }
+      return now.toISOString();
+    });
+
+    if (!claim.committed) {
+      return null;
+    }
+
+    const seatPath = await resolveSeatPath(booking.seatId);
+    if (seatPath) {
+      await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+        if (seat === null) {
+          return null;
+        }
+        if (seat.onBreak?.bookingId !== booking.id) {
+          return;
+        }
+        return { ...seat, onBreak: null };
+      });
+    }
+
+    await update(ref(db, bookingPath), { currentBreakId: null, updatedAt: now.toISOString() });
+
+    return {
+      ...booking,
+      breaks: { ...booking.breaks, [breakId]: { ...booking.breaks![breakId], endedAt: now.toISOString() } },
+      currentBreakId: null,
+      updatedAt: now.toISOString(),
+    };
+  } catch (error) {
+    console.error('Error ending break:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,171 @@
+import * as fc from 'fast-check';
+import type { ScanMode } from '@/types';
+
+process.env.QR_TOKEN_SECRET = 'test-secret';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { issueBookingToken, verifyBookingScan } from './booking-checkin';
+import { signQrToken } from '@/lib/qr-token';
+
+// Fake clock: a Monday at 10:00 local time
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+const minutes = (n: number) => n * 60000;
+
+function seedBooking(overrides: Record<string, any> = {}) {
+  writePath('bookings/user1/b1', {
+    id: 'b1',
+    seatId: 'G01',
+    userId: 'user1',
+    userName: 'Student',
+    status: 'pending',
+    bookingTime: NOW.toISOString(),
+    startTime: NOW.toISOString(),
+    endTime: new Date(NOW.getTime() + minutes(60)).toISOString(),
+    duration: 60,
+    ...overrides,
+  });
+  writePath('seats/ground/G01', {
+    id: 'G01',
+    status: 'reserved',
+    bookedBy: 'user1',
+    bookedAt: NOW.getTime(),
+    bookingId: 'b1',
+    occupiedUntil: NOW.getTime() + minutes(60),
+  });
+}
+
+async function tokenFor(bookingId = 'b1') {
+  const issued = await issueBookingToken('user1', bookingId);
+  return issued.token!;
+}
+
+describe('Booking Check-in - Property-Based Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetMockDatabase();
+  });
+
+  // Feature: qr-tokens, Property 3: Each token is accepted at most once per direction
+  test('Property 3: For any sequence of scans of one token, each direction is accepted at most once', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.constantFrom<ScanMode>('entry', 'exit'), { minLength: 1, maxLength: 8 }), async (scans) => {
+        resetMockDatabase();
+        seedBooking();
+        const token = await tokenFor();
+
+        const accepted: ScanMode[] = [];
+        for (const mode of scans) {
+          const result = await verifyBookingScan(token, mode, NOW);
+          if (result.success) {
+            accepted.push(mode);
+          } else {
+            expect(result.reason).toBeDefined();
+          }
+        }
+
+        expect(accepted.filter((m) => m === 'entry').length).toBeLessThanOrEqual(1);
+        expect(accepted.filter((m) => m === 'exit').length).toBeLessThanOrEqual(1);
+        // Exit is only ever accepted after entry
+        if (accepted.includes('exit')) {
+          expect(accepted.indexOf('entry')).toBeLessThan(accepted.indexOf('exit'));
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('checks in and out, updating the booking and seat', async () => {
+    seedBooking();
+    const token = await tokenFor();
+
+    const entry = await verifyBookingScan(token, 'entry', NOW);
+    expect(entry.success).toBe(true);
+    expect(readPath('bookings/user1/b1/status')).toBe('active');
+    expect(readPath('seats/ground/G01/status')).toBe('occupied');
+
+    const exit = await verifyBookingScan(token, 'exit', new Date(NOW.getTime() + minutes(45)));
+    expect(exit.success).toBe(true);
+    expect(readPath('bookings/user1/b1/status')).toBe('completed');
+    expect(readPath('seats/ground/G01/status')).toBe('available');
+  });
+
+  test('rejects replayed, revoked and wrong-seat scans with reasons', async () => {
+    seedBooking();
+    const token = await tokenFor();
+
+    await verifyBookingScan(token, 'entry', NOW);
+    expect((await verifyBookingScan(token, 'entry', NOW)).reason).toBe('replayed');
+    expect((await verifyBookingScan(token, 'entry', NOW, 'G02')).reason).toBe('wrong-seat');
+
+    // A token whose ID no longer matches the booking has been revoked
+    writePath('bookings/user1/b1/qrTokenId', 'reissued');
+    expect((await verifyBookingScan(token, 'exit', NOW)).reason).toBe('revoked');
+  });
+
+  test('rejects scans for cancelled bookings and before check-in', async () => {
+    seedBooking();
+    const token = await tokenFor();
+
+    expect((await verifyBookingScan(token, 'exit', NOW)).reason).toBe('not-checked-in');
+
+    writePath('bookings/user1/b1/status', 'cancelled');
+    expect((await verifyBookingScan(token, 'entry', NOW)).reason).toBe('revoked');
+  });
+
+  test('rejects expired and forged tokens', async () => {
+    seedBooking();
+    const token = await tokenFor();
+
+    expect((await verifyBookingScan(token, 'entry', new Date(NOW.getTime() + minutes(120)))).reason).toBe('expired');
+
+    const forged = signQrToken(
+      { bookingId: 'b1', userId: 'user1', seatId: 'G01', jti: 'guess', nbf: 0, exp: Number.MAX_SAFE_INTEGER },
+      'wrong-secret'
+    );
+    expect((await verifyBookingScan(forged, 'entry', NOW)).reason).toBe('bad-signature');
+    expect(readPath('bookings/user1/b1/status')).toBe('pending');
+  });
+
+  test('checks in an advance reservation onto the seat', async () => {
+    const start = new Date(NOW.getTime() + minutes(120));
+    seedBooking({
+      startTime: start.toISOString(),
+      endTime: new Date(start.getTime() + minutes(60)).toISOString(),
+    });
+    writePath('seats/ground/G01', {
+      id: 'G01',
+      status: 'available',
+      bookedBy: null,
+      bookedAt: null,
+      bookingId: null,
+      reservations: {
+        b1: { bookingId: 'b1', userId: 'user1', startTime: start.toISOString(), endTime: new Date(start.getTime() + minutes(60)).toISOString() },
+      },
+    });
+    const token = await tokenFor();
+
+    expect((await verifyBookingScan(token, 'entry', NOW)).reason).toBe('not-yet-valid');
+
+    const entry = await verifyBookingScan(token, 'entry', start);
+    expect(entry.success).toBe(true);
+    expect(readPath('seats/ground/G01/bookingId')).toBe('b1');
+    expect(readPath('seats/ground/G01/reservations/b1')).toBeUndefined();
+  });
+
+  test('re-issuing a token keeps previously downloaded codes valid', async () => {
+    seedBooking();
+    const first = await tokenFor();
+    const second = await tokenFor();
+
+    expect(second).toBe(first);
+  });
+});
@@ -0,0 +1,270 @@
+import { randomUUID } from 'crypto';
+import { ref, get, update, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { canTransition, isOpenBooking, normalizeBookingStatus, transitionBooking } from '@/lib/booking-status';
+import { getQrTokenSecret, signQrToken, verifyQrToken } from '@/lib/qr-token';
+import { endBreak } from '@/services/booking-breaks';
+import { releaseFromSeat } from '@/services/booking-engine';
+import { resolveSeatPath } from '@/services/seat-layout';
+import { offerFreedSeat } from '@/services/waitlist';
+import type { Booking, ScanMode, ScanRejectionReason, ScanResult, Seat } from '@/types';
+
+/**
+ * Booking Check-in Service
+ * Issues signed QR tokens for bookings and verifies them when scanned at the
+ * library entrance, applying the check-in or check-out server-side. An entry
+ * scan during a break ends the break.
+ */
+
+// Tokens become valid this long before the booking starts
+const EARLY_CHECK_IN_MS = 10 * 60 * 1000;
+
+// Tokens stay valid this long after the booking ends, so students can check out
+const LATE_CHECK_OUT_MS = 30 * 60 * 1000;
+
+const REJECTION_MESSAGES: Record<ScanRejectionReason, string> = {
+  malformed: 'This is not a SeatFinderSRM booking QR code',
+  'bad-signature': 'QR code has been tampered with',
+  expired: 'QR code has expired',
+  'not-yet-valid': 'Booking has not started yet',
+  'not-found': 'Booking not found',
+  'wrong-seat': 'QR code is for a different seat',
+  replayed: 'QR code has already been used',
+  revoked: 'Booking is no longer valid',
+  'not-checked-in': 'Booking has not been checked in yet',
+  'seat-taken': 'Seat is still held by another booking',
+};
+
+/**
+ * Issue the QR token for a user's booking. The token ID is kept on the
+ * booking, so re-issuing returns an equivalent token rather than revoking
+ * codes the student has already downloaded.
+ */
+export async function issueBookingToken(
+  userId: string,
+  bookingId: string
+): Promise<{ success: boolean; token?: string; expiresAt?: string; message?: string }> {
+  try {
+    const bookingRef = ref(db, `bookings/${userId}/${bookingId}`);
+    const snapshot = await get(bookingRef);
+
+    if (!snapshot.exists()) {
+      return { success: false, message: 'Booking not found' };
+    }
+
+    const booking = snapshot.val() as Booking;
+
+    if (!isOpenBooking(booking.status)) {
+      return { success: false, message: `Booking is ${booking.status}` };
+    }
+
+    const jti = booking.qrTokenId || randomUUID();
+    if (!booking.qrTokenId) {
+      await update(bookingRef, { qrTokenId: jti });
+    }
+
+    const exp = new Date(booking.endTime).getTime() + LATE_CHECK_OUT_MS;
+    const token = signQrToken(
+      {
+        bookingId,
+        userId,
+        seatId: booking.seatId,
+        jti,
+        nbf: new Date(booking.startTime).getTime() - EARLY_CHECK_IN_MS,
+        exp,
+      },
+      getQrTokenSecret()
+    );
+
+    return { success: true, token, expiresAt: new Date(exp).toISOString() };
+  } catch (error) {
+    console.error('Error issuing booking token:', error);
+    throw error;
+  }
+}
+
+/**
+ * Verify a scanned token and check the booking in or out.
+ * Pass seatId when the scanner is mounted at a specific seat.
+ */
+export async function verifyBookingScan(
+  token: string,
+  mode: ScanMode,
+  now: Date = new Date(),
+  seatId?: string
+): Promise<ScanResult> {
+  try {
+    const verification = verifyQrToken(token, getQrTokenSecret(), now);
+    if (!verification.valid) {
+      return reject(verification.reason);
+    }
+
+    const { payload } = verification;
+    const bookingPath = `bookings/${payload.userId}/${payload.bookingId}`;
+    const snapshot = await get(ref(db, bookingPath));
+
+    if (!snapshot.exists()) {
+      return reject('not-found');
+    }
+
+    const booking = { ...(snapshot.val() as Booking), id: payload.bookingId };
+
+    if (booking.qrTokenId !== payload.jti) {
+      return reject('revoked');
+    }
+
+    // A booking moved to another seat keeps the QR code issued for its old one
+    const issuedForBooking = payload.seatId === booking.seatId || !!booking.movedFrom?.includes(payload.seatId);
+    if (!issuedForBooking || (seatId && seatId !== booking.seatId)) {
+      return reject('wrong-seat');
+    }
+
+    // Back from a break: the rescan ends it and keeps the seat
+    if (mode === 'entry' && booking.currentBreakId) {
+      const returned = await endBreak(booking, now);
+      return returned ? { success: true, booking: returned, message: 'Welcome back' } : reject('replayed');
+    }
+
+    const event = mode === 'entry' ? 'check-in' : 'check-out';
+    if (!canTransition(booking.status, event)) {
+      return reject(getStatusRejection(booking.status, mode));
+    }
+
+    // Claim this scan so the same code can't be used twice concurrently
+    const scanRef = ref(db, `${bookingPath}/qrScans/${mode}`);
+    const claim = await runTransaction(scanRef, (current: string | null) => {
+      if (current) {
+        return;
+      }
+      return now.toISOString();
+    });
+
+    if (!claim.committed) {
+      return reject('replayed');
+    }
+
+    const applied = mode === 'entry'
+      ? await checkInBooking(booking, now)
+      : await checkOutBooking(booking, now);
+
+    if (!applied.success) {
+      await runTransaction(scanRef, () => null);
+    }
+
+    return applied;
+  } catch (error) {
+    console.error('Error verifying booking scan:', error);
+    throw error;
+  }
+}
+
+/**
+ * Seat the student: take over the seat hold (moving an advance reservation
+ * onto the seat) and mark the booking active. Used for scans and for staff
+ * checking a student in at the desk.
+ */
+export async function checkInBooking(booking: Booking, now: Date = new Date()): Promise<ScanResult> {
+  const status = transitionBooking(booking.status, 'check-in');
+  const seatPath = await resolveSeatPath(booking.seatId);
+
+  // A seat removed from the layout can't be taken over
+  if (!seatPath) {
+    return reject('seat-taken');
+  }
+
+  const occupiedUntil = new Date(booking.endTime).getTime();
+
+  const seatClaim = await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+
+    const hasReservation = !!seat.reservations?.[booking.id];
+    if (seat.bookingId !== booking.id && (!hasReservation || seat.bookingId)) {
+      return;
+    }
+
+    const occupied: Seat = {
+      ...seat,
+      status: 'occupied',
+      bookedBy: booking.userId,
+      bookedAt: seat.bookingId === booking.id ? seat.bookedAt : now.getTime(),
+      bookingId: booking.id,
+      occupiedUntil,
+    };
+
+    if (hasReservation) {
+      const { [booking.id]: _checkedIn, ...remaining } = seat.reservations!;
+      occupied.reservations = remaining;
+    }
+
+    return occupied;
+  });
+
+  if (!seatClaim.committed || !seatClaim.snapshot.exists()) {
+    return reject('seat-taken');
+  }
+
+  const changes = {
+    status,
+    entryTime: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  await update(ref(db, `bookings/${booking.userId}/${booking.id}`), changes);
+
+  return { success: true, booking: { ...booking, ...changes } };
+}
+
+/**
+ * Release the seat (if this booking still holds it) and complete the booking
+ */
+export async function checkOutBooking(booking: Booking, now: Date = new Date()): Promise<ScanResult> {
+  const status = transitionBooking(booking.status, 'check-out');
+
+  // Checking out at the desk during a break ends the break there
+  if (booking.currentBreakId) {
+    booking = (await endBreak(booking, now)) || booking;
+  }
+
+  const seatPath = await resolveSeatPath(booking.seatId);
+
+  if (seatPath) {
+    await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+      if (seat === null) {
+        return null;
+      }
+      return releaseFromSeat(seat, booking.id);
+    });
+  }
+
+  const changes = {
+    status,
+    exitTime: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  await update(ref(db, `bookings/${booking.userId}/${booking.id}`), changes);
+  await offerFreedSeat(booking.seatId, now);
+
+  return { success: true, booking: { ...booking, ...changes } };
+}
+
+// Helper Functions
+
+function reject(reason: ScanRejectionReason): ScanResult {
+  return { success: false, reason, message: REJECTION_MESSAGES[reason] };
+}
+
+/**
+ * Explain why a booking's status doesn't allow the scan
+ */
+function getStatusRejection(status: string, mode: ScanMode): ScanRejectionReason {
+  const normalized = normalizeBookingStatus(status);
+
+  if (mode === 'exit' && normalized === 'pending') {
+    return 'not-checked-in';
+  }
+  if (normalized === 'active' || normalized === 'completed') {
+    return 'replayed';
+  }
+  return 'revoked';
+}
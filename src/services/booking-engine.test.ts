@@ -0,0 +1,430 @@
+import * as fc from 'fast-check';
+import type { Booking, LibrarySettings, Seat } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { mockTree, readPath, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { createBooking, cancelUserBooking } from './booking-engine';
+import { DEFAULT_LAYOUT, getSeatFloorId, getSeatStatePath } from '@/lib/seat-layout';
+import { __test__ as settingsTest } from './library-settings';
+
+// A Monday at 10:00 local time
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+
+const settings: LibrarySettings = {
+  operatingHours: {
+    monday: { open: '08:00', close: '22:00', isClosed: false },
+    tuesday: { open: '08:00', close: '22:00', isClosed: false },
+    wednesday: { open: '08:00', close: '22:00', isClosed: false },
+    thursday: { open: '08:00', close: '22:00', isClosed: false },
+    friday: { open: '08:00', close: '22:00', isClosed: false },
+    saturday: { open: '09:00', close: '18:00', isClosed: false },
+    sunday: { open: '09:00', close: '18:00', isClosed: false },
+  },
+  holidays: [],
+  bookingRules: {
+    maxDailyDuration: 480,
+    maxAdvanceBookingDays: 7,
+    minBookingDuration: 30,
+    maxBookingDuration: 240,
+    extensionIncrement: 30,
+  },
+  updatedBy: 'system',
+  updatedAt: NOW.toISOString(),
+};
+
+const seatIdArb = fc
+  .tuple(fc.constantFrom('G', 'F', 'S', 'T'), fc.integer({ min: 1, max: 50 }))
+  .map(([prefix, n]) => `${prefix}${n.toString().padStart(2, '0')}`);
+
+const userIdArb = fc.stringMatching(/^[a-z0-9]{8,16}$/);
+
+// Where a default-layout seat's state is stored
+function seatPath(seatId: string): string {
+  return getSeatStatePath(getSeatFloorId(DEFAULT_LAYOUT, seatId)!, seatId);
+}
+
+function seedSeat(seatId: string, overrides: Partial<Seat> = {}) {
+  writePath(seatPath(seatId), {
+    id: seatId,
+    status: 'available',
+    bookedBy: null,
+    bookedAt: null,
+    bookingId: null,
+    occupiedUntil: null,
+    ...overrides,
+  });
+}
+
+function requestFor(seatId: string, userId: string, minutes: number) {
+  return {
+    seatId,
+    userId,
+    userName: 'Student',
+    userEmail: `${userId}@srmist.edu.in`,
+    endTime: new Date(NOW.getTime() + minutes * 60000).toISOString(),
+  };
+}
+
+describe('Booking Engine - Property-Based Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTree.root = { settings: { library: settings } };
+    settingsTest.clear();
+  });
+
+  // Feature: booking-engine, Property 1: Concurrent requests never double-book a seat
+  test('Property 1: For any set of users racing for one seat, exactly one booking succeeds', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        seatIdArb,
+        fc.uniqueArray(userIdArb, { minLength: 2, maxLength: 6 }),
+        async (seatId, userIds) => {
+          mockTree.root = { settings: { library: settings } };
+          seedSeat(seatId);
+
+          const results = await Promise.all(
+            userIds.map((userId) => createBooking(requestFor(seatId, userId, 60), NOW))
+          );
+
+          const winners = results.filter((r) => r.success);
+          expect(winners).toHaveLength(1);
+
+          const seat = readPath(seatPath(seatId)) as Seat;
+          expect(seat.status).toBe('reserved');
+          expect(seat.bookingId).toBe(winners[0].booking!.id);
+          expect(seat.bookedBy).toBe(winners[0].booking!.userId);
+
+          // Losers must not be left holding a booking pointer
+          userIds
+            .filter((userId) => userId !== seat.bookedBy)
+            .forEach((userId) => {
+              expect(readPath(`users/${userId}/currentBookingId`)).toBeUndefined();
+            });
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: booking-engine, Property 2: One active booking per user
+  test('Property 2: For any user with a pending or active booking, a second booking is rejected', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(seatIdArb, { minLength: 2, maxLength: 2 }),
+        userIdArb,
+        async ([firstSeat, secondSeat], userId) => {
+          mockTree.root = { settings: { library: settings } };
+          seedSeat(firstSeat);
+          seedSeat(secondSeat);
+
+          const first = await createBooking(requestFor(firstSeat, userId, 60), NOW);
+          const second = await createBooking(requestFor(secondSeat, userId, 60), NOW);
+
+          expect(first.success).toBe(true);
+          expect(second.success).toBe(false);
+          expect(readPath(`${seatPath(secondSeat)}/status`)).toBe('available');
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: booking-engine, Property 3: Booking rules are enforced server-side
+  test('Property 3: For any duration outside the configured limits, the booking is rejected', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        seatIdArb,
+        userIdArb,
+        fc.integer({ min: 1, max: 700 }),
+        async (seatId, userId, minutes) => {
+          mockTree.root = { settings: { library: settings } };
+          seedSeat(seatId);
+
+          const result = await createBooking(requestFor(seatId, userId, minutes), NOW);
+          const closesAt = 12 * 60; // 22:00 is 12 hours after NOW
+          const shouldSucceed =
+            minutes >= settings.bookingRules.minBookingDuration &&
+            minutes <= settings.bookingRules.maxBookingDuration &&
+            minutes < closesAt;
+
+          expect(result.success).toBe(shouldSucceed);
+          if (!shouldSucceed) {
+            expect(result.message).toBeDefined();
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('rejects bookings for seats that are not available', async () => {
+    seedSeat('G01', { status: 'maintenance' });
+
+    const result = await createBooking(requestFor('G01', 'user1', 60), NOW);
+
+    expect(result.success).toBe(false);
+    expect(readPath('users/user1/currentBookingId')).toBeUndefined();
+  });
+
+  test('rejects bookings from flagged users', async () => {
+    seedSeat('G01');
+    writePath('restrictions/user1', { isFlagged: true, reason: 'No-shows' });
+
+    const result = await createBooking(requestFor('G01', 'user1', 60), NOW);
+
+    expect(result.success).toBe(false);
+    expect(readPath('seats/ground/G01/status')).toBe('available');
+  });
+
+  test('rejects bookings from banned students, whatever their profile says', async () => {
+    seedSeat('G01');
+    writePath('users/user1', { penalties: {} });
+    writePath('penalties/user1', { bannedUntil: new Date(2024, 0, 10).toISOString() });
+
+    const result = await createBooking(requestFor('G01', 'user1', 60), NOW);
+
+    expect(result.success).toBe(false);
+    expect(result.violations!.map((violation) => violation.rule)).toEqual(['penalty-ban']);
+  });
+
+  test('reports every broken policy rule with the rejection', async () => {
+    seedSeat('G01');
+    writePath('restrictions/user1', { isFlagged: true });
+
+    // 21:50-22:10 is too short and runs past closing time
+    const result = await createBooking(
+      {
+        ...requestFor('G01', 'user1', 20),
+        startTime: new Date(2024, 0, 8, 21, 50).toISOString(),
+        endTime: new Date(2024, 0, 8, 22, 10).toISOString(),
+      },
+      NOW
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.violations!.map((violation) => violation.rule)).toEqual([
+      'restricted-user',
+      'min-duration',
+      'operating-hours',
+    ]);
+    expect(result.message).toBe(result.violations![0].message);
+  });
+
+  // Feature: booking-engine, Property 4: Cancellation releases the seat
+  test('Property 4: For any booking cancelled by its owner, the seat becomes available again', async () => {
+    await fc.assert(
+      fc.asyncProperty(seatIdArb, userIdArb, async (seatId, userId) => {
+        mockTree.root = { settings: { library: settings } };
+        seedSeat(seatId);
+
+        const created = await createBooking(requestFor(seatId, userId, 60), NOW);
+        const cancelled = await cancelUserBooking(userId, created.booking!.id, NOW);
+
+        expect(cancelled.success).toBe(true);
+        expect(readPath(`bookings/${userId}/${created.booking!.id}/status`)).toBe('cancelled');
+
+        const seat = readPath(seatPath(seatId)) as Seat;
+        expect(seat.status).toBe('available');
+        expect(seat.bookingId).toBeFalsy();
+        expect(readPath(`users/${userId}/currentBookingId`)).toBeUndefined();
+
+        // The user can book again straight away
+        const rebooked = await createBooking(requestFor(seatId, userId, 60), NOW);
+        expect(rebooked.success).toBe(true);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('does not release a seat that was re-booked by someone else', async () => {
+    seedSeat('F10');
+    const created = await createBooking(requestFor('F10', 'user1', 60), NOW);
+    const booking = readPath(`bookings/user1/${created.booking!.id}`) as Booking;
+
+    // Seat has since been handed to another booking
+    writePath('seats/first/F10/bookingId', 'other-booking');
+    writePath('seats/first/F10/bookedBy', 'user2');
+
+    await cancelUserBooking('user1', booking.id, NOW);
+
+    expect(readPath('seats/first/F10/status')).toBe('reserved');
+    expect(readPath('seats/first/F10/bookedBy')).toBe('user2');
+  });
+
+  // Feature: booking-engine, Property 5: Seat timelines never overlap
+  test('Property 5: For any sequence of advance reservations on one seat, accepted reservations never overlap', async () => {
+    const reservationArb = fc.record({
+      userId: userIdArb,
+      startSlot: fc.integer({ min: 0, max: 20 }), // half-hour slots from 09:00 tomorrow
+      slots: fc.integer({ min: 1, max: 6 }),
+    });
+
+    await fc.assert(
+      fc.asyncProperty(seatIdArb, fc.array(reservationArb, { minLength: 2, maxLength: 8 }), async (seatId, requests) => {
+        mockTree.root = { settings: { library: settings } };
+        seedSeat(seatId);
+
+        const dayStart = new Date(2024, 0, 9, 9, 0, 0).getTime();
+        const accepted: Array<{ start: number; end: number }> = [];
+
+        for (const { userId, startSlot, slots } of requests) {
+          const start = dayStart + startSlot * 30 * 60000;
+          const end = start + slots * 30 * 60000;
+          const result = await createBooking(
+            {
+              ...requestFor(seatId, userId, 0),
+              startTime: new Date(start).toISOString(),
+              endTime: new Date(end).toISOString(),
+            },
+            NOW
+          );
+
+          if (result.success) {
+            accepted.push({ start, end });
+          }
+        }
+
+        expect(accepted.length).toBeGreaterThan(0);
+        accepted.forEach((a, i) => {
+          accepted.slice(i + 1).forEach((b) => {
+            expect(a.end <= b.start || b.end <= a.start).toBe(true);
+          });
+        });
+
+        // Advance reservations leave the seat available for now
+        const seat = readPath(seatPath(seatId)) as Seat;
+        expect(seat.status).toBe('available');
+        expect(Object.keys(seat.reservations || {})).toHaveLength(accepted.length);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('rejects an immediate booking that runs into a later reservation', async () => {
+    seedSeat('S05');
+    const reservation = await createBooking(
+      {
+        ...requestFor('S05', 'user1', 0),
+        startTime: new Date(2024, 0, 8, 15, 0, 0).toISOString(),
+        endTime: new Date(2024, 0, 8, 17, 0, 0).toISOString(),
+      },
+      NOW
+    );
+    expect(reservation.success).toBe(true);
+
+    const tooLong = await createBooking(requestFor('S05', 'user2', 6 * 60), NOW);
+    expect(tooLong.success).toBe(false);
+
+    const beforeReservation = await createBooking(requestFor('S05', 'user2', 120), NOW);
+    expect(beforeReservation.success).toBe(true);
+    expect(readPath('seats/second/S05/status')).toBe('reserved');
+  });
+
+  test('rejects reservations beyond the advance booking window', async () => {
+    seedSeat('T01');
+    const start = new Date(2024, 0, 16, 10, 0, 0);
+
+    const result = await createBooking(
+      {
+        ...requestFor('T01', 'user1', 0),
+        startTime: start.toISOString(),
+        endTime: new Date(start.getTime() + 60 * 60000).toISOString(),
+      },
+      NOW
+    );
+
+    expect(result.success).toBe(false);
+    expect(readPath('seats/third/T01/reservations')).toBeUndefined();
+  });
+
+  test('cancelling a reservation frees its slot on the seat timeline', async () => {
+    seedSeat('G20');
+    const request = {
+      ...requestFor('G20', 'user1', 0),
+      startTime: new Date(2024, 0, 9, 11, 0, 0).toISOString(),
+      endTime: new Date(2024, 0, 9, 12, 0, 0).toISOString(),
+    };
+
+    const created = await createBooking(request, NOW);
+    expect(readPath(`seats/ground/G20/reservations/${created.booking!.id}`)).toBeDefined();
+
+    const cancelled = await cancelUserBooking('user1', created.booking!.id, NOW);
+    expect(cancelled.success).toBe(true);
+    expect(readPath(`seats/ground/G20/reservations/${created.booking!.id}`)).toBeUndefined();
+    expect(readPath('seats/ground/G20/status')).toBe('available');
+
+    const rebooked = await createBooking({ ...request, userId: 'user2' }, NOW);
+    expect(rebooked.success).toBe(true);
+  });
+
+  test('books seats on floors added to a stored layout, whatever their ids', async () => {
+    writePath('layout', {
+      buildings: { main: { id: 'main', name: 'Main Library', order: 0 } },
+      floors: { mezzanine: { id: 'mezzanine', buildingId: 'main', name: 'Mezzanine', order: 0 } },
+      sections: { silent: { id: 'silent', floorId: 'mezzanine', name: 'Silent Zone', order: 0 } },
+      seats: { 'quiet-1': { id: 'quiet-1', floorId: 'mezzanine', sectionId: 'silent', label: 'Q1', order: 1 } },
+    });
+    writePath('seats/mezzanine/quiet-1', { id: 'quiet-1', status: 'available', bookedBy: null, bookedAt: null, bookingId: null });
+    seedSeat('G01');
+
+    const result = await createBooking(requestFor('quiet-1', 'user1', 60), NOW);
+    expect(result.success).toBe(true);
+    expect(readPath('seats/mezzanine/quiet-1/status')).toBe('reserved');
+
+    // Once a layout is stored, seats outside it no longer exist
+    const legacy = await createBooking(requestFor('G01', 'user2', 60), NOW);
+    expect(legacy).toEqual({ success: false, message: 'Seat G01 not found' });
+  });
+
+  test('a seat held for the waitlist can only be booked by the student it is held for', async () => {
+    seedSeat('G05', { waitlistHold: { entryId: 'entry-1', userId: 'user1', expiresAt: NOW.getTime() + 60000 } });
+    writePath('waitlist/entry-1', {
+      id: 'entry-1',
+      userId: 'user1',
+      userName: 'Student',
+      target: { seatId: 'G05' },
+      status: 'offered',
+      offer: { seatId: 'G05', offeredAt: NOW.toISOString(), expiresAt: new Date(NOW.getTime() + 60000).toISOString() },
+      createdAt: NOW.toISOString(),
+      updatedAt: NOW.toISOString(),
+    });
+
+    const other = await createBooking(requestFor('G05', 'user2', 60), NOW);
+    expect(other.success).toBe(false);
+    expect(other.message).toMatch(/held for a student on the waitlist/);
+
+    const holder = await createBooking(requestFor('G05', 'user1', 60), NOW);
+    expect(holder.success).toBe(true);
+    expect(readPath('seats/ground/G05/waitlistHold')).toBeUndefined();
+    expect(readPath('waitlist/entry-1/status')).toBe('claimed');
+    expect(readPath('waitlist/entry-1/bookingId')).toBe(holder.booking!.id);
+  });
+
+  test('cancelling a booking offers the seat to the waitlist', async () => {
+    seedSeat('G06');
+    const created = await createBooking(requestFor('G06', 'user1', 60), NOW);
+    writePath('waitlist/entry-1', {
+      id: 'entry-1',
+      userId: 'user2',
+      userName: 'Student',
+      target: { floorId: 'ground' },
+      status: 'waiting',
+      createdAt: NOW.toISOString(),
+      updatedAt: NOW.toISOString(),
+    });
+
+    await cancelUserBooking('user1', created.booking!.id, NOW);
+
+    expect(readPath('seats/ground/G06/status')).toBe('available');
+    expect(readPath('seats/ground/G06/waitlistHold/userId')).toBe('user2');
+    expect(readPath('waitlist/entry-1/status')).toBe('offered');
+  });
+});
@@ -0,0 +1,334 @@
+import { ref, get, set, update, push, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { evaluateBookingPolicy } from '@/lib/booking-policy';
+import { canTransition, isOpenBooking, transitionBooking } from '@/lib/booking-status';
+import { getGroupHoldId } from '@/lib/group-booking';
+import { findTimelineConflict } from '@/lib/seat-timeline';
+import { getActiveHold } from '@/lib/waitlist';
+import { loadLibrarySettings } from '@/services/library-settings';
+import { getUserPenalties } from '@/services/penalties';
+import { resolveSeatPath } from '@/services/seat-layout';
+import { getUserRestrictions } from '@/services/user-management';
+import { completeWaitlistOffer, offerFreedSeat } from '@/services/waitlist';
+import type { Booking, BookingRequest, BookingResult, Seat, UserProfile } from '@/types';
+
+/**
+ * Booking Engine
+ * Server-authoritative booking creation and cancellation. Seats and the
+ * user's current booking are claimed with database transactions so that two
+ * students can never hold the same seat.
+ */
+
+// Start times within this window are treated as "now"
+const IMMEDIATE_START_GRACE_MS = 60 * 1000;
+
+/**
+ * Create a booking for a seat. Without a start time the booking starts now and
+ * holds the seat immediately; with a future start time it is added to the
+ * seat's reservation timeline.
+ */
+export async function createBooking(
+  request: BookingRequest,
+  now: Date = new Date()
+): Promise<BookingResult> {
+  try {
+    const { seatId, userId, userName, userEmail } = request;
+    const requestedStart = request.startTime ? new Date(request.startTime) : now;
+    const endTime = new Date(request.endTime);
+
+    if (isNaN(requestedStart.getTime()) || isNaN(endTime.getTime())) {
+      return { success: false, message: 'Invalid start or end time' };
+    }
+
+    const isImmediate = requestedStart.getTime() <= now.getTime() + IMMEDIATE_START_GRACE_MS;
+    const startTime = isImmediate ? now : requestedStart;
+
+    if (endTime <= startTime) {
+      return { success: false, message: 'End time must be after start time' };
+    }
+
+    const duration = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
+
+    const profileSnapshot = await get(ref(db, `users/${userId}`));
+    const profile = profileSnapshot.exists() ? (profileSnapshot.val() as UserProfile) : null;
+    const userBookings = await getUserBookings(userId);
+
+    // Library policy: restrictions, booking rules, operating hours and holidays
+    const violations = evaluateBookingPolicy({
+      settings: await loadLibrarySettings(),
+      startTime,
+      endTime,
+      now,
+      userBookings,
+      restrictions: await getUserRestrictions(userId),
+      penalties: await getUserPenalties(userId),
+    });
+
+    if (violations.length > 0) {
+      return { success: false, message: violations[0].message, violations };
+    }
+
+    // A user may not hold two bookings at the same time
+    const overlapping = userBookings.find(
+      (b) =>
+        isOpenBooking(b.status) &&
+        new Date(b.startTime) < endTime &&
+        new Date(b.endTime) > startTime
+    );
+
+    if (overlapping) {
+      return {
+        success: false,
+        message: `You already have a booking for seat ${overlapping.seatId} at that time`,
+      };
+    }
+
+    const seatPath = await resolveSeatPath(seatId);
+    if (!seatPath) {
+      return { success: false, message: `Seat ${seatId} not found` };
+    }
+
+    const bookingId = push(ref(db, `bookings/${userId}`)).key!;
+
+    // Claim the user's booking slot. A stale pointer to a finished booking may
+    // be replaced, but a pointer written by a concurrent request may not.
+    if (isImmediate) {
+      const staleBookingId = profile?.currentBookingId ?? null;
+      const userClaim = await runTransaction(
+        ref(db, `users/${userId}/currentBookingId`),
+        (current: string | null) => {
+          if (current && current !== staleBookingId) {
+            return;
+          }
+          return bookingId;
+        }
+      );
+
+      if (!userClaim.committed) {
+        return { success: false, message: 'You already have a booking in progress' };
+      }
+    }
+
+    // Claim the seat, either now or as a slot on its timeline
+    let rejection = `Seat ${seatId} not found`;
+    let claimedOfferId: string | null = null;
+    const seatRef = ref(db, seatPath);
+    const seatClaim = await runTransaction(seatRef, (current: Seat | null) => {
+      if (current === null) {
+        return null;
+      }
+
+      // A group member takes over the seat held for them
+      const groupHoldId = request.groupId ? getGroupHoldId(request.groupId, seatId) : null;
+      const seat = (groupHoldId && releaseFromSeat(current, groupHoldId)) || current;
+
+      if (seat.status === 'maintenance' || seat.status === 'out-of-service') {
+        rejection = `Seat ${seatId} is under maintenance`;
+        return;
+      }
+
+      if (isImmediate && seat.status !== 'available') {
+        rejection = `Seat ${seatId} is no longer available`;
+        return;
+      }
+
+      // A seat offered to a waitlisted student is theirs until the offer lapses
+      const hold = getActiveHold(seat, now);
+      if (isImmediate && hold && hold.userId !== userId) {
+        rejection = `Seat ${seatId} is being held for a student on the waitlist`;
+        return;
+      }
+
+      const conflict = findTimelineConflict(seat, startTime, endTime, now);
+      if (conflict) {
+        rejection = `Seat ${seatId} is already reserved from ${new Date(conflict.start).toLocaleTimeString()}`;
+        return;
+      }
+
+      if (isImmediate) {
+        claimedOfferId = hold ? hold.entryId : null;
+        const { waitlistHold: _claimed, ...unheld } = seat;
+        return {
+          ...unheld,
+          status: 'reserved',
+          bookedBy: userId,
+          bookedAt: now.getTime(),
+          bookingId,
+          occupiedUntil: endTime.getTime(),
+        };
+      }
+
+      return {
+        ...seat,
+        reservations: {
+          ...(seat.reservations || {}),
+          [bookingId]: {
+            bookingId,
+            userId,
+            startTime: startTime.toISOString(),
+            endTime: endTime.toISOString(),
+            ...(request.groupId ? { groupId: request.groupId } : {}),
+          },
+        },
+      };
+    });
+
+    const claimedSeat = seatClaim.snapshot.val() as Seat | null;
+    const claimed = isImmediate
+      ? claimedSeat?.bookingId === bookingId
+      : !!claimedSeat?.reservations?.[bookingId];
+
+    if (!seatClaim.committed || !claimed) {
+      if (isImmediate) {
+        await releaseUserClaim(userId, bookingId);
+      }
+      return { success: false, message: rejection };
+    }
+
+    const nowISO = now.toISOString();
+    const booking: Booking = {
+      id: bookingId,
+      seatId,
+      userId,
+      userName,
+      userEmail,
+      bookingTime: nowISO,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      status: 'pending',
+      duration,
+      ...(request.seriesId ? { seriesId: request.seriesId } : {}),
+      ...(request.groupId ? { groupId: request.groupId } : {}),
+      createdAt: nowISO,
+      updatedAt: nowISO,
+    };
+
+    await set(ref(db, `bookings/${userId}/${bookingId}`), booking);
+
+    if (claimedOfferId) {
+      await completeWaitlistOffer(claimedOfferId, bookingId, now);
+    }
+
+    return { success: true, booking };
+  } catch (error) {
+    console.error('Error creating booking:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel a user's own pending or active booking and release the seat
+ */
+export async function cancelUserBooking(
+  userId: string,
+  bookingId: string,
+  now: Date = new Date()
+): Promise<BookingResult> {
+  try {
+    const bookingRef = ref(db, `bookings/${userId}/${bookingId}`);
+    const snapshot = await get(bookingRef);
+
+    if (!snapshot.exists()) {
+      return { success: false, message: 'Booking not found' };
+    }
+
+    const booking = { ...(snapshot.val() as Booking), id: bookingId };
+
+    if (!canTransition(booking.status, 'cancel')) {
+      return { success: false, message: `Cannot cancel a ${booking.status} booking` };
+    }
+
+    // Release the seat or reservation only if it still belongs to this booking
+    const seatPath = await resolveSeatPath(booking.seatId);
+    if (seatPath) {
+      await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+        if (seat === null) {
+          return null;
+        }
+        return releaseFromSeat(seat, bookingId);
+      });
+    }
+
+    const updatedAt = now.toISOString();
+    const status = transitionBooking(booking.status, 'cancel');
+    await update(bookingRef, {
+      status,
+      cancelReason: 'Cancelled by user',
+      updatedAt,
+    });
+
+    await releaseUserClaim(userId, bookingId);
+    await offerFreedSeat(booking.seatId, now);
+
+    return {
+      success: true,
+      booking: { ...booking, status, cancelReason: 'Cancelled by user', updatedAt },
+    };
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a booking's hold and reservation from a seat. Returns undefined when
+ * the seat holds nothing for the booking, so transactions can abort.
+ */
+export function releaseFromSeat(seat: Seat, bookingId: string): Seat | undefined {
+  const holdsSeat = seat.bookingId === bookingId;
+  const hasReservation = !!seat.reservations?.[bookingId];
+
+  if (!holdsSeat && !hasReservation) {
+    return;
+  }
+
+  const released: Seat = { ...seat };
+
+  if (holdsSeat) {
+    released.status = 'available';
+    released.bookedBy = null;
+    released.bookedAt = null;
+    released.bookingId = null;
+    released.occupiedUntil = null;
+    if (seat.onBreak) {
+      released.onBreak = null;
+    }
+  }
+
+  if (hasReservation) {
+    const { [bookingId]: _removed, ...remaining } = seat.reservations!;
+    released.reservations = remaining;
+  }
+
+  return released;
+}
+
+/**
+ * Fetch all bookings for a user
+ */
+export async function getUserBookings(userId: string): Promise<Booking[]> {
+  const snapshot = await get(ref(db, `bookings/${userId}`));
+
+  if (!snapshot.exists()) {
+    return [];
+  }
+
+  const bookings: Booking[] = [];
+  snapshot.forEach((child) => {
+    bookings.push({ ...(child.val() as Booking), id: child.key! });
+  });
+
+  return bookings;
+}
+
+/**
+ * Clear the user's current booking pointer if it still points at this booking
+ */
+export async function releaseUserClaim(userId: string, bookingId: string): Promise<void> {
+  await runTransaction(ref(db, `users/${userId}/currentBookingId`), (current: string | null) => {
+    if (current !== bookingId) {
+      return;
+    }
+    return null;
+  });
+}
@@ -1,43 +1,29 @@
 import * as fc from 'fast-check';
+import type { Booking, LibrarySettings, Seat } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+import { __test__ as settingsCache } from './library-settings';
+import { createSeatState, DEFAULT_LAYOUT } from '@/lib/seat-layout';
+
+// Import after mocking
 import {
   checkExtensionAvailability,
   extendBooking,
-  checkPolicyLimits,
   extendBookingWithPolicy,
-  findAlternativeSeats,
   isUrgentExtension,
   processExtensionWithPriority,
-  __test__,
 } from './booking-extension';
-import { Booking, Seat, LibrarySettings } from '@/types';
-
-// Arbitraries for generating test data
-const bookingArb = fc.record({
-  id: fc.uuid(),
-  seatId: fc.uuid(),
-  userId: fc.uuid(),
-  userName: fc.string({ minLength: 3, maxLength: 20 }),
-  userEmail: fc.emailAddress(),
-  bookingTime: fc.integer({ min: Date.now() - 86400000, max: Date.now() }).map(ts => new Date(ts).toISOString()),
-  startTime: fc.integer({ min: Date.now() - 3600000, max: Date.now() }).map(ts => new Date(ts).toISOString()),
-  endTime: fc.integer({ min: Date.now() + 1800000, max: Date.now() + 7200000 }).map(ts => new Date(ts).toISOString()),
-  status: fc.constantFrom('active', 'pending'),
-  duration: fc.integer({ min: 60, max: 240 }),
-  createdAt: fc.integer({ min: Date.now() - 86400000, max: Date.now() }).map(ts => new Date(ts).toISOString()),
-  updatedAt: fc.integer({ min: Date.now() - 86400000, max: Date.now() }).map(ts => new Date(ts).toISOString()),
-});
 
-const seatArb = fc.record({
-  id: fc.uuid(),
-  number: fc.integer({ min: 1, max: 100 }).map(n => `S${n}`),
-  section: fc.constantFrom('A', 'B', 'C'),
-  floor: fc.constantFrom('1', '2', '3'),
-  status: fc.constantFrom('available', 'occupied', 'reserved'),
-  bookedBy: fc.option(fc.uuid(), { nil: null }),
-  bookedAt: fc.option(fc.integer({ min: Date.now() - 86400000, max: Date.now() }), { nil: null }),
-  bookingId: fc.option(fc.uuid(), { nil: null }),
-  occupiedUntil: fc.option(fc.integer({ min: Date.now(), max: Date.now() + 86400000 }), { nil: null }),
-});
+// A Monday at 10:00 local time
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+const later = (minutes: number) => new Date(NOW.getTime() + minutes * 60000);
 
 const settingsArb: fc.Arbitrary<LibrarySettings> = fc.record({
   operatingHours: fc.constant({} as any),
@@ -49,38 +35,80 @@ const settingsArb: fc.Arbitrary<LibrarySettings> = fc.record({
     maxBookingDuration: fc.integer({ min: 180, max: 360 }),
     extensionIncrement: fc.integer({ min: 15, max: 60 }),
   }),
-  updatedBy: fc.uuid(),
-  updatedAt: fc.integer({ min: Date.now() - 86400000, max: Date.now() }).map(ts => new Date(ts).toISOString()),
+  updatedBy: fc.constant('admin1'),
+  updatedAt: fc.constant(NOW.toISOString()),
 }) as fc.Arbitrary<LibrarySettings>;
 
+/**
+ * An active booking on G01 that started an hour ago and ends `minutesLeft` from now
+ */
+function seedActiveBooking(minutesLeft: number, overrides: Partial<Booking> = {}): Booking {
+  const booking: Booking = {
+    id: 'b1',
+    seatId: 'G01',
+    userId: 'u1',
+    userName: 'Student',
+    userEmail: 'u1@srmist.edu.in',
+    bookingTime: later(-60).toISOString(),
+    startTime: later(-60).toISOString(),
+    endTime: later(minutesLeft).toISOString(),
+    status: 'active',
+    duration: 60 + minutesLeft,
+    createdAt: later(-60).toISOString(),
+    updatedAt: later(-60).toISOString(),
+    ...overrides,
+  };
+  writePath(`bookings/u1/${booking.id}`, booking);
+  writePath('seats/ground/G01', {
+    ...createSeatState(DEFAULT_LAYOUT, DEFAULT_LAYOUT.seats.G01),
+    status: 'occupied',
+    bookedBy: 'u1',
+    bookedAt: later(-60).getTime(),
+    bookingId: booking.id,
+    occupiedUntil: later(minutesLeft).getTime(),
+  });
+  return booking;
+}
+
+function seedFreeSeat(seatId: string, changes: Partial<Seat> = {}) {
+  writePath(`seats/ground/${seatId}`, { ...createSeatState(DEFAULT_LAYOUT, DEFAULT_LAYOUT.seats[seatId]), ...changes });
+}
+
+function seedReservation(seatId: string, bookingId: string, start: Date, end: Date) {
+  writePath(`seats/ground/${seatId}/reservations/${bookingId}`, {
+    bookingId,
+    userId: 'u2',
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+  });
+}
+
 describe('Booking Extension Service - Property-Based Tests', () => {
   beforeEach(() => {
-    __test__.clear();
+    settingsCache.clear();
+    resetMockDatabase();
   });
 
   // Feature: admin-dashboard-analytics, Property 47: Extension availability check
   test('Property 47: For any booking extension request, system verifies seat availability before allowing extension', async () => {
     await fc.assert(
       fc.asyncProperty(
-        bookingArb,
-        seatArb,
+        fc.integer({ min: 10, max: 120 }),
+        fc.integer({ min: 0, max: 240 }),
         fc.integer({ min: 30, max: 120 }),
-        async (booking, seat, additionalMinutes) => {
-          // Set up booking and seat
-          const bookingWithSeat = { ...booking, seatId: seat.id };
-          __test__.setBookings([bookingWithSeat]);
-          __test__.setSeats([seat]);
-          
-          // Check availability
-          const result = await checkExtensionAvailability(bookingWithSeat.id, additionalMinutes);
-          
-          // Result should indicate whether extension is available
-          expect(typeof result.available).toBe('boolean');
-          
-          // If not available, should provide a reason
+        async (minutesLeft, reservationStart, additionalMinutes) => {
+          resetMockDatabase();
+          const booking = seedActiveBooking(minutesLeft);
+          seedReservation('G01', 'b2', later(reservationStart), later(reservationStart + 60));
+
+          const result = await checkExtensionAvailability('u1', booking.id, additionalMinutes, NOW);
+
+          // Free exactly when the reservation doesn't overlap the extra time
+          const overlaps =
+            reservationStart < minutesLeft + additionalMinutes && reservationStart + 60 > minutesLeft;
+          expect(result.available).toBe(!overlaps);
           if (!result.available) {
-            expect(result.reason).toBeDefined();
-            expect(typeof result.reason).toBe('string');
+            expect(result.reason).toBe('Seat is booked during extension period');
           }
         }
       ),
@@ -92,35 +120,23 @@ describe('Booking Extension Service - Property-Based Tests', () => {
   test('Property 48: For any successful booking extension, booking end time is updated to reflect additional duration', async () => {
     await fc.assert(
       fc.asyncProperty(
-        bookingArb,
-        seatArb,
+        fc.integer({ min: 10, max: 120 }),
         fc.integer({ min: 30, max: 120 }),
-        async (booking, seat, additionalMinutes) => {
-          // Set up booking and seat with no conflicts
-          const bookingWithSeat = { ...booking, seatId: seat.id };
-          __test__.setBookings([bookingWithSeat]);
-          __test__.setSeats([seat]);
-          
-          const originalEndTime = new Date(bookingWithSeat.endTime);
-          
-          // Extend booking
-          const result = await extendBooking(bookingWithSeat.id, additionalMinutes);
-          
-          if (result.success) {
-            // Verify end time was updated
-            expect(result.newEndTime).toBeDefined();
-            
-            const newEndTime = new Date(result.newEndTime!);
-            const expectedEndTime = new Date(originalEndTime.getTime() + additionalMinutes * 60000);
-            
-            // Allow 1 second tolerance for timing differences
-            expect(Math.abs(newEndTime.getTime() - expectedEndTime.getTime())).toBeLessThan(1000);
-            
-            // Verify booking in database was updated
-            const updatedBooking = __test__.getBookings().find(b => b.id === bookingWithSeat.id);
-            expect(updatedBooking?.endTime).toBe(result.newEndTime);
-            expect(updatedBooking?.duration).toBe(booking.duration + additionalMinutes);
-          }
+        async (minutesLeft, additionalMinutes) => {
+          resetMockDatabase();
+          const booking = seedActiveBooking(minutesLeft);
+
+          const result = await extendBooking('u1', booking.id, additionalMinutes, NOW);
+          const newEndTime = later(minutesLeft + additionalMinutes);
+
+          expect(result).toEqual({ success: true, newEndTime: newEndTime.toISOString() });
+          expect(readPath('bookings/u1/b1')).toMatchObject({
+            status: 'active',
+            endTime: newEndTime.toISOString(),
+            duration: booking.duration + additionalMinutes,
+            extendedFrom: booking.endTime,
+          });
+          expect(readPath('seats/ground/G01/occupiedUntil')).toBe(newEndTime.getTime());
         }
       ),
       { numRuns: 100 }
@@ -131,88 +147,52 @@ describe('Booking Extension Service - Property-Based Tests', () => {
   test('Property 49: For any extension request that cannot be fulfilled, system provides alternative seats', async () => {
     await fc.assert(
       fc.asyncProperty(
-        bookingArb,
-        seatArb,
-        fc.array(seatArb, { minLength: 2, maxLength: 5 }),
-        fc.integer({ min: 30, max: 120 }),
-        async (booking, seat, otherSeats, additionalMinutes) => {
-          // Create a conflicting booking to make extension fail
-          const conflictingBooking: Booking = {
-            ...booking,
-            id: 'conflict-' + booking.id,
-            seatId: seat.id,
-            startTime: new Date(new Date(booking.endTime).getTime() + 1800000).toISOString(),
-            endTime: new Date(new Date(booking.endTime).getTime() + 5400000).toISOString(),
-          };
-          
-          const bookingWithSeat = { ...booking, seatId: seat.id };
-          
-          // Set up seats in same section as alternatives
-          const alternativeSeats = otherSeats.map(s => ({
-            ...s,
-            section: seat.section,
-            status: 'available' as const,
-          }));
-          
-          __test__.setBookings([bookingWithSeat, conflictingBooking]);
-          __test__.setSeats([seat, ...alternativeSeats]);
-          
-          // Try to extend
-          const result = await extendBooking(bookingWithSeat.id, additionalMinutes);
-          
-          if (!result.success) {
-            // Should provide alternatives
-            expect(result.alternatives).toBeDefined();
-            expect(Array.isArray(result.alternatives)).toBe(true);
-            
-            // All alternatives should be available seats
-            result.alternatives?.forEach(alt => {
-              expect(alt.status).toBe('available');
-            });
+        fc.uniqueArray(fc.integer({ min: 2, max: 50 }), { minLength: 1, maxLength: 6 }),
+        fc.boolean(),
+        async (seatNumbers, takeFirst) => {
+          resetMockDatabase();
+          const booking = seedActiveBooking(30);
+          seedReservation('G01', 'b2', later(30), later(90));
+
+          const seatIds = seatNumbers.map((n) => `G${n.toString().padStart(2, '0')}`);
+          seatIds.forEach((seatId) => seedFreeSeat(seatId));
+          if (takeFirst) {
+            seedFreeSeat(seatIds[0], { status: 'occupied', bookedBy: 'u3', bookingId: 'b3', occupiedUntil: later(60).getTime() });
           }
+
+          const result = await extendBooking('u1', booking.id, 60, NOW);
+
+          expect(result.success).toBe(false);
+          expect(result.message).toBe('Seat is booked during extension period');
+          expect(result.alternatives!.map((seat) => seat.id).sort()).toEqual(
+            (takeFirst ? seatIds.slice(1) : seatIds).sort()
+          );
+          expect(readPath('bookings/u1/b1/endTime')).toBe(booking.endTime);
+          expect(readPath('seats/ground/G01/occupiedUntil')).toBe(later(30).getTime());
         }
       ),
-      { numRuns: 100 }
+      { numRuns: 50 }
     );
   });
 
   // Feature: admin-dashboard-analytics, Property 50: Extension policy enforcement
   test('Property 50: For any booking extension exceeding maximum daily duration limits, extension is rejected', async () => {
     await fc.assert(
-      fc.asyncProperty(
-        bookingArb,
-        seatArb,
-        settingsArb,
-        async (booking, seat, settings) => {
-          // Set up booking with duration close to max
-          const bookingWithSeat = {
-            ...booking,
-            seatId: seat.id,
-            duration: settings.bookingRules.maxDailyDuration - 30,
-          };
-          
-          __test__.setBookings([bookingWithSeat]);
-          __test__.setSeats([seat]);
-          __test__.setSettings(settings);
-          
-          // Try to extend beyond max daily duration
-          const excessiveExtension = 60; // This would exceed the limit
-          
-          const result = await extendBookingWithPolicy(bookingWithSeat.id, excessiveExtension);
-          
-          // Calculate if this would exceed limits
-          const newDuration = bookingWithSeat.duration + excessiveExtension;
-          const wouldExceedDaily = newDuration > settings.bookingRules.maxDailyDuration;
-          const wouldExceedMax = newDuration > settings.bookingRules.maxBookingDuration;
-          
-          if (wouldExceedDaily || wouldExceedMax) {
-            // Extension should be rejected
-            expect(result.success).toBe(false);
-            expect(result.message).toBeDefined();
-          }
-        }
-      ),
-      { numRuns: 100 }
+      fc.asyncProperty(settingsArb, async (settings) => {
+        resetMockDatabase();
+        settingsCache.clear();
+        writePath('settings/library', settings);
+
+        // Set up booking with duration close to max
+        const booking = seedActiveBooking(30, { duration: settings.bookingRules.maxDailyDuration - 30 });
+
+        const result = await extendBookingWithPolicy('u1', booking.id, 60, NOW);
+
+        expect(result.success).toBe(false);
+        expect(result.violations!.map((violation) => violation.rule)).toContain('daily-limit');
+        expect(readPath('bookings/u1/b1/endTime')).toBe(booking.endTime);
+      }),
+      { numRuns: 50 }
     );
   });
 
@@ -220,109 +200,81 @@ describe('Booking Extension Service - Property-Based Tests', () => {
   test('Property 51: For any extension request within 15 minutes of booking end, request is processed with higher priority', async () => {
     await fc.assert(
       fc.asyncProperty(
-        bookingArb,
-        seatArb,
         fc.integer({ min: 1, max: 14 }),
         fc.integer({ min: 30, max: 60 }),
-        async (booking, seat, minutesUntilEnd, additionalMinutes) => {
-          // Create booking ending soon
-          const now = Date.now();
-          const endTime = now + minutesUntilEnd * 60000;
-          
-          const urgentBooking = {
-            ...booking,
-            seatId: seat.id,
-            startTime: new Date(now - 3600000).toISOString(),
-            endTime: new Date(endTime).toISOString(),
-            status: 'active' as const,
-          };
-          
-          __test__.setBookings([urgentBooking]);
-          __test__.setSeats([seat]);
-          
-          // Check if it's urgent
-          const isUrgent = await isUrgentExtension(urgentBooking.id);
-          
-          // Should be marked as urgent since it's within 15 minutes
-          expect(isUrgent).toBe(true);
-          
-          // Process with priority
-          const result = await processExtensionWithPriority(urgentBooking.id, additionalMinutes);
-          
-          // Should be marked as urgent priority
+        async (minutesUntilEnd, additionalMinutes) => {
+          resetMockDatabase();
+          const booking = seedActiveBooking(minutesUntilEnd);
+
+          expect(await isUrgentExtension('u1', booking.id, NOW)).toBe(true);
+
+          const result = await processExtensionWithPriority('u1', booking.id, additionalMinutes, NOW);
           expect(result.priority).toBe('urgent');
+          expect(result.success).toBe(true);
         }
       ),
-      { numRuns: 100 }
+      { numRuns: 50 }
     );
   });
 
-  // Additional test: Non-urgent extensions
   test('Extension requests more than 15 minutes before end are marked as standard priority', async () => {
     await fc.assert(
       fc.asyncProperty(
-        bookingArb,
-        seatArb,
         fc.integer({ min: 16, max: 120 }),
         fc.integer({ min: 30, max: 60 }),
-        async (booking, seat, minutesUntilEnd, additionalMinutes) => {
-          // Create booking ending later
-          const now = Date.now();
-          const endTime = now + minutesUntilEnd * 60000;
-          
-          const standardBooking = {
-            ...booking,
-            seatId: seat.id,
-            startTime: new Date(now - 3600000).toISOString(),
-            endTime: new Date(endTime).toISOString(),
-            status: 'active' as const,
-          };
-          
-          __test__.setBookings([standardBooking]);
-          __test__.setSeats([seat]);
-          
-          // Check if it's urgent
-          const isUrgent = await isUrgentExtension(standardBooking.id);
-          
-          // Should not be urgent since it's more than 15 minutes away
-          expect(isUrgent).toBe(false);
-          
-          // Process with priority
-          const result = await processExtensionWithPriority(standardBooking.id, additionalMinutes);
-          
-          // Should be marked as standard priority
-          expect(result.priority).toBe('standard');
+        async (minutesUntilEnd, additionalMinutes) => {
+          resetMockDatabase();
+          const booking = seedActiveBooking(minutesUntilEnd);
+
+          expect(await isUrgentExtension('u1', booking.id, NOW)).toBe(false);
+          expect((await processExtensionWithPriority('u1', booking.id, additionalMinutes, NOW)).priority).toBe('standard');
         }
       ),
-      { numRuns: 100 }
+      { numRuns: 50 }
     );
   });
 
-  // Additional test: Extension stores original end time
-  test('First extension stores original end time in extendedFrom field', async () => {
-    await fc.assert(
-      fc.asyncProperty(
-        bookingArb,
-        seatArb,
-        fc.integer({ min: 30, max: 60 }),
-        async (booking, seat, additionalMinutes) => {
-          const bookingWithSeat = { ...booking, seatId: seat.id };
-          __test__.setBookings([bookingWithSeat]);
-          __test__.setSeats([seat]);
-          
-          const originalEndTime = bookingWithSeat.endTime;
-          
-          const result = await extendBooking(bookingWithSeat.id, additionalMinutes);
-          
-          if (result.success) {
-            const updatedBooking = __test__.getBookings().find(b => b.id === bookingWithSeat.id);
-            
-            // Should store original end time
-            expect(updatedBooking?.extendedFrom).toBe(originalEndTime);
-          }
-        }
-      ),
-      { numRuns: 100 }
-    );
+  test('a second extension keeps the original end time in extendedFrom', async () => {
+    const booking = seedActiveBooking(30);
+
+    await extendBooking('u1', booking.id, 30, NOW);
+    await extendBooking('u1', booking.id, 30, NOW);
+
+    expect(readPath('bookings/u1/b1')).toMatchObject({
+      endTime: later(90).toISOString(),
+      extendedFrom: booking.endTime,
+    });
+  });
+
+  test('extends advance reservations on the seat timeline', async () => {
+    seedFreeSeat('G02');
+    seedReservation('G02', 'b4', later(120), later(180));
+    writePath('seats/ground/G02/reservations/b4/userId', 'u1');
+    writePath('bookings/u1/b4', {
+      id: 'b4',
+      seatId: 'G02',
+      userId: 'u1',
+      status: 'pending',
+      startTime: later(120).toISOString(),
+      endTime: later(180).toISOString(),
+      duration: 60,
+    });
+
+    expect((await extendBooking('u1', 'b4', 30, NOW)).success).toBe(true);
+    expect(readPath('seats/ground/G02/reservations/b4/endTime')).toBe(later(210).toISOString());
+    expect(readPath('bookings/u1/b4/status')).toBe('pending');
+  });
+
+  test('only open bookings the seat still holds can be extended', async () => {
+    expect((await extendBooking('u1', 'missing', 30, NOW)).message).toBe('Booking not found');
+
+    seedActiveBooking(30, { status: 'completed' });
+    expect((await extendBooking('u1', 'b1', 30, NOW)).message).toBe('Booking is not active');
+
+    seedActiveBooking(30);
+    seedFreeSeat('G01');
+    const result = await extendBooking('u1', 'b1', 30, NOW);
+    expect(result.message).toBe('Seat is no longer held for this booking');
+    expect(readPath('bookings/u1/b1/endTime')).toBe(later(30).toISOString());
   });
 });
@@ -1,167 +1,138 @@
-import { Booking, Seat, ExtensionResult, LibrarySettings } from '@/types';
+import { ref, get, update, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { canTransition, transitionBooking } from '@/lib/booking-status';
+import { findTimelineConflict } from '@/lib/seat-timeline';
+import { releaseFromSeat } from '@/services/booking-engine';
+import { checkExtensionPolicy } from '@/services/booking-policy';
+import { findSeats, getSeatLayout, resolveSeatPath } from '@/services/seat-layout';
+import type { Booking, ExtensionResult, PolicyViolation, Seat } from '@/types';
 
-// Mock Firebase database
-const mockDb = {
-  bookings: new Map<string, Booking>(),
-  seats: new Map<string, Seat>(),
-  settings: null as LibrarySettings | null,
-};
+/**
+ * Booking Extension Service
+ * Extends a student's booking at bookings/{userId}/{bookingId}. The seat is
+ * re-checked in a transaction, so an extension never runs into a reservation
+ * made in the meantime; when it would, free seats nearby are suggested.
+ */
+
+// Extensions asked for this close to the end of a booking are urgent
+const URGENT_EXTENSION_MS = 15 * 60 * 1000;
 
 /**
  * Check if a booking can be extended for the requested duration
  */
 export async function checkExtensionAvailability(
+  userId: string,
   bookingId: string,
-  additionalMinutes: number
+  additionalMinutes: number,
+  now: Date = new Date()
 ): Promise<{ available: boolean; reason?: string }> {
-  const booking = mockDb.bookings.get(bookingId);
-  
+  const booking = await getBooking(userId, bookingId);
+
   if (!booking) {
     return { available: false, reason: 'Booking not found' };
   }
-  
-  if (booking.status !== 'active' && booking.status !== 'pending') {
+
+  if (!canTransition(booking.status, 'extend')) {
     return { available: false, reason: 'Booking is not active' };
   }
-  
-  const seat = mockDb.seats.get(booking.seatId);
-  if (!seat) {
+
+  const seatPath = await resolveSeatPath(booking.seatId);
+  const snapshot = seatPath ? await get(ref(db, seatPath)) : null;
+  if (!snapshot?.exists()) {
     return { available: false, reason: 'Seat not found' };
   }
-  
-  // Check if seat is available for the extension period
-  const currentEndTime = new Date(booking.endTime);
-  const newEndTime = new Date(currentEndTime.getTime() + additionalMinutes * 60000);
-  
-  // Check for conflicting bookings
-  const hasConflict = Array.from(mockDb.bookings.values()).some(b => {
-    if (b.id === bookingId || b.seatId !== booking.seatId) {
-      return false;
-    }
-    
-    if (b.status === 'cancelled' || b.status === 'completed' || b.status === 'no-show') {
-      return false;
-    }
-    
-    const bStart = new Date(b.startTime);
-    const bEnd = new Date(b.endTime);
-    
-    // Check if the extension period overlaps with this booking
-    return currentEndTime < bEnd && newEndTime > bStart;
-  });
-  
-  if (hasConflict) {
-    return { available: false, reason: 'Seat is booked during extension period' };
-  }
-  
-  return { available: true };
+
+  const problem = getExtensionProblem(snapshot.val() as Seat, booking, getNewEndTime(booking, additionalMinutes), now);
+  return problem ? { available: false, reason: problem } : { available: true };
 }
 
 /**
- * Extend a booking by adding additional minutes
+ * Extend a booking by adding additional minutes. The seat is claimed for the
+ * extra time before the booking is updated.
  */
 export async function extendBooking(
+  userId: string,
   bookingId: string,
-  additionalMinutes: number
+  additionalMinutes: number,
+  now: Date = new Date()
 ): Promise<ExtensionResult> {
-  const booking = mockDb.bookings.get(bookingId);
-  
-  if (!booking) {
-    return {
-      success: false,
-      message: 'Booking not found',
-    };
-  }
-  
-  // Check availability
-  const availabilityCheck = await checkExtensionAvailability(bookingId, additionalMinutes);
-  
-  if (!availabilityCheck.available) {
-    // Find alternative seats
-    const alternatives = await findAlternativeSeats(booking, additionalMinutes);
-    
+  try {
+    const booking = await getBooking(userId, bookingId);
+
+    if (!booking) {
+      return { success: false, message: 'Booking not found' };
+    }
+
+    if (!canTransition(booking.status, 'extend')) {
+      return { success: false, message: 'Booking is not active' };
+    }
+
+    const seatPath = await resolveSeatPath(booking.seatId);
+    if (!seatPath) {
+      return { success: false, message: 'Seat not found' };
+    }
+
+    const newEndTime = getNewEndTime(booking, additionalMinutes);
+    let problem = 'Seat not found';
+
+    const result = await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+      if (seat === null) {
+        return null;
+      }
+      const found = getExtensionProblem(seat, booking, newEndTime, now);
+      if (found) {
+        problem = found;
+        return;
+      }
+      return extendOnSeat(seat, bookingId, newEndTime);
+    });
+
+    if (!result.committed || !result.snapshot.exists()) {
+      return {
+        success: false,
+        message: problem,
+        alternatives: await findAlternativeSeats(booking, additionalMinutes, now),
+      };
+    }
+
+    await update(ref(db, `bookings/${userId}/${bookingId}`), {
+      status: transitionBooking(booking.status, 'extend'),
+      endTime: newEndTime.toISOString(),
+      duration: booking.duration + additionalMinutes,
+      // The original end time is kept from the first extension
+      extendedFrom: booking.extendedFrom || booking.endTime,
+      updatedAt: now.toISOString(),
+    });
+
     return {
-      success: false,
-      message: availabilityCheck.reason,
-      alternatives,
+      success: true,
+      newEndTime: newEndTime.toISOString(),
     };
+  } catch (error) {
+    console.error('Error extending booking:', error);
+    throw error;
   }
-  
-  // Update booking end time
-  const currentEndTime = new Date(booking.endTime);
-  const newEndTime = new Date(currentEndTime.getTime() + additionalMinutes * 60000);
-  
-  // Store original end time if this is the first extension
-  if (!booking.extendedFrom) {
-    booking.extendedFrom = booking.endTime;
-  }
-  
-  booking.endTime = newEndTime.toISOString();
-  booking.duration += additionalMinutes;
-  booking.updatedAt = new Date().toISOString();
-  
-  mockDb.bookings.set(bookingId, booking);
-  
-  // Update seat occupied until time
-  const seat = mockDb.seats.get(booking.seatId);
-  if (seat) {
-    seat.occupiedUntil = newEndTime.getTime();
-    mockDb.seats.set(booking.seatId, seat);
-  }
-  
-  return {
-    success: true,
-    newEndTime: newEndTime.toISOString(),
-  };
 }
 
 /**
  * Check if extension would exceed policy limits
  */
 export async function checkPolicyLimits(
+  userId: string,
   bookingId: string,
-  additionalMinutes: number
-): Promise<{ allowed: boolean; reason?: string }> {
-  const booking = mockDb.bookings.get(bookingId);
-  
-  if (!booking) {
+  additionalMinutes: number,
+  now: Date = new Date()
+): Promise<{ allowed: boolean; reason?: string; violations?: PolicyViolation[] }> {
+  const violations = await checkExtensionPolicy(userId, bookingId, additionalMinutes, now);
+
+  if (violations === null) {
     return { allowed: false, reason: 'Booking not found' };
   }
-  
-  const settings = mockDb.settings;
-  if (!settings) {
-    // No policy limits configured, allow extension
-    return { allowed: true };
-  }
-  
-  const newDuration = booking.duration + additionalMinutes;
-  
-  // Check max booking duration
-  if (newDuration > settings.bookingRules.maxBookingDuration) {
-    return {
-      allowed: false,
-      reason: `Extension would exceed maximum booking duration of ${settings.bookingRules.maxBookingDuration} minutes`,
-    };
-  }
-  
-  // Check max daily duration
-  const bookingDate = new Date(booking.startTime).toDateString();
-  const userBookingsToday = Array.from(mockDb.bookings.values()).filter(
-    b => b.userId === booking.userId &&
-         new Date(b.startTime).toDateString() === bookingDate &&
-         (b.status === 'active' || b.status === 'completed' || b.status === 'pending')
-  );
-  
-  const totalDurationToday = userBookingsToday.reduce((sum, b) => sum + b.duration, 0);
-  const newTotalDuration = totalDurationToday + additionalMinutes;
-  
-  if (newTotalDuration > settings.bookingRules.maxDailyDuration) {
-    return {
-      allowed: false,
-      reason: `Extension would exceed maximum daily duration of ${settings.bookingRules.maxDailyDuration} minutes`,
-    };
+
+  if (violations.length > 0) {
+    return { allowed: false, reason: violations[0].message, violations };
   }
-  
+
   return { allowed: true };
 }
 
@@ -169,126 +140,133 @@ export async function checkPolicyLimits(
  * Extend booking with policy enforcement
  */
 export async function extendBookingWithPolicy(
+  userId: string,
   bookingId: string,
-  additionalMinutes: number
+  additionalMinutes: number,
+  now: Date = new Date()
 ): Promise<ExtensionResult> {
   // Check policy limits first
-  const policyCheck = await checkPolicyLimits(bookingId, additionalMinutes);
-  
+  const policyCheck = await checkPolicyLimits(userId, bookingId, additionalMinutes, now);
+
   if (!policyCheck.allowed) {
     return {
       success: false,
       message: policyCheck.reason,
+      violations: policyCheck.violations,
     };
   }
-  
+
   // Proceed with normal extension
-  return extendBooking(bookingId, additionalMinutes);
+  return extendBooking(userId, bookingId, additionalMinutes, now);
 }
 
 /**
- * Find alternative seats for the extension period
+ * Find free seats in the same section that the student could move to for the
+ * rest of their booking and the extension
  */
 export async function findAlternativeSeats(
   booking: Booking,
-  additionalMinutes: number
+  additionalMinutes: number,
+  now: Date = new Date()
 ): Promise<Seat[]> {
-  const currentEndTime = new Date(booking.endTime);
-  const newEndTime = new Date(currentEndTime.getTime() + additionalMinutes * 60000);
-  
-  const alternatives: Seat[] = [];
-  
-  for (const seat of mockDb.seats.values()) {
-    // Skip the current seat
-    if (seat.id === booking.seatId) {
-      continue;
-    }
-    
-    // Only consider available seats in the same section
-    if (seat.status !== 'available') {
-      continue;
-    }
-    
-    const currentSeat = mockDb.seats.get(booking.seatId);
-    if (currentSeat && seat.section !== currentSeat.section) {
-      continue;
-    }
-    
-    // Check if seat is available during the extension period
-    const hasConflict = Array.from(mockDb.bookings.values()).some(b => {
-      if (b.seatId !== seat.id) {
-        return false;
-      }
-      
-      if (b.status === 'cancelled' || b.status === 'completed' || b.status === 'no-show') {
-        return false;
-      }
-      
-      const bStart = new Date(b.startTime);
-      const bEnd = new Date(b.endTime);
-      
-      return currentEndTime < bEnd && newEndTime > bStart;
-    });
-    
-    if (!hasConflict) {
-      alternatives.push(seat);
-    }
+  const layout = await getSeatLayout();
+  const currentSeat = layout.seats[booking.seatId];
+
+  if (!currentSeat) {
+    return [];
   }
-  
-  return alternatives;
+
+  const newEndTime = getNewEndTime(booking, additionalMinutes);
+  const seats = await findSeats({ floorId: currentSeat.floorId, availableOnly: true }, booking.userId, now);
+
+  return seats
+    .filter(
+      ([layoutSeat, seat]) =>
+        layoutSeat.id !== booking.seatId &&
+        layoutSeat.sectionId === currentSeat.sectionId &&
+        !findTimelineConflict(seat, now, newEndTime, now)
+    )
+    .map(([, seat]) => seat);
 }
 
 /**
  * Check if extension request is urgent (within 15 minutes of booking end)
  */
-export async function isUrgentExtension(bookingId: string): Promise<boolean> {
-  const booking = mockDb.bookings.get(bookingId);
-  
+export async function isUrgentExtension(
+  userId: string,
+  bookingId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const booking = await getBooking(userId, bookingId);
+
   if (!booking) {
     return false;
   }
-  
-  const endTime = new Date(booking.endTime);
-  const now = new Date();
-  const minutesUntilEnd = (endTime.getTime() - now.getTime()) / 60000;
-  
-  return minutesUntilEnd <= 15 && minutesUntilEnd > 0;
+
+  const msUntilEnd = new Date(booking.endTime).getTime() - now.getTime();
+  return msUntilEnd <= URGENT_EXTENSION_MS && msUntilEnd > 0;
 }
 
 /**
  * Process extension with priority handling
  */
 export async function processExtensionWithPriority(
+  userId: string,
   bookingId: string,
-  additionalMinutes: number
+  additionalMinutes: number,
+  now: Date = new Date()
 ): Promise<ExtensionResult & { priority: 'urgent' | 'standard' }> {
-  const isUrgent = await isUrgentExtension(bookingId);
-  const result = await extendBookingWithPolicy(bookingId, additionalMinutes);
-  
+  const isUrgent = await isUrgentExtension(userId, bookingId, now);
+  const result = await extendBookingWithPolicy(userId, bookingId, additionalMinutes, now);
+
   return {
     ...result,
     priority: isUrgent ? 'urgent' : 'standard',
   };
 }
 
-// Test utilities
-export const __test__ = {
-  setBookings: (bookings: Booking[]) => {
-    mockDb.bookings.clear();
-    bookings.forEach(booking => mockDb.bookings.set(booking.id, booking));
-  },
-  setSeats: (seats: Seat[]) => {
-    mockDb.seats.clear();
-    seats.forEach(seat => mockDb.seats.set(seat.id, seat));
-  },
-  setSettings: (settings: LibrarySettings | null) => {
-    mockDb.settings = settings;
-  },
-  getBookings: () => Array.from(mockDb.bookings.values()),
-  getSeats: () => Array.from(mockDb.seats.values()),
-  clear: () => {
-    mockDb.bookings.clear();
-    mockDb.seats.clear();
-    mockDb.settings = null;
-  },
-};
+// Helper Functions
+
+async function getBooking(userId: string, bookingId: string): Promise<Booking | null> {
+  const snapshot = await get(ref(db, `bookings/${userId}/${bookingId}`));
+  return snapshot.exists() ? { ...(snapshot.val() as Booking), id: bookingId } : null;
+}
+
+function getNewEndTime(booking: Booking, additionalMinutes: number): Date {
+  return new Date(new Date(booking.endTime).getTime() + additionalMinutes * 60000);
+}
+
+/**
+ * Why the seat can't be kept for the booking until the new end time, or null
+ */
+function getExtensionProblem(seat: Seat, booking: Booking, newEndTime: Date, now: Date): string | null {
+  const others = releaseFromSeat(seat, booking.id);
+
+  if (!others) {
+    return 'Seat is no longer held for this booking';
+  }
+
+  if (findTimelineConflict(others, new Date(booking.endTime), newEndTime, now)) {
+    return 'Seat is booked during extension period';
+  }
+
+  return null;
+}
+
+/**
+ * Move the end of the booking's hold or reservation on the seat
+ */
+function extendOnSeat(seat: Seat, bookingId: string, newEndTime: Date): Seat {
+  if (seat.bookingId === bookingId) {
+    return { ...seat, occupiedUntil: newEndTime.getTime() };
+  }
+
+  const reservation = seat.reservations![bookingId];
+  return {
+    ...seat,
+    reservations: {
+      ...seat.reservations,
+      [bookingId]: { ...reservation, endTime: newEndTime.toISOString() },
+    },
+  };
+}
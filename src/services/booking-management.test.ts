@@ -1,22 +1,55 @@
 import * as fc from 'fast-check';
-import type { Booking, BookingFilters, BookingStatus } from '@/types';
+import type { Booking, BookingFilters, BookingStatus, LibrarySettings, Seat } from '@/types';
 
 // Mock Firebase
 jest.mock('@/lib/firebase', () => ({
   db: {},
 }));
 
-jest.mock('firebase/database', () => ({
-  ref: jest.fn(),
-  get: jest.fn(),
-  set: jest.fn(),
-  update: jest.fn(),
-  push: jest.fn(() => ({ key: 'mock-key' })),
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+jest.mock('./seat-layout', () => ({
+  resolveSeatPath: jest.fn((seatId: string) => Promise.resolve(`seats/ground/${seatId}`)),
+}));
+
+jest.mock('./waitlist', () => ({
+  offerFreedSeat: jest.fn(() => Promise.resolve(null)),
+  completeWaitlistOffer: jest.fn(() => Promise.resolve()),
 }));
 
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+
 // Import after mocking
 import { getAllBookings, getPaginatedBookings, cancelBooking, manuallyAssignSeat, manualCheckIn, manualCheckOut } from './booking-management';
-import { ref, get, set, update } from 'firebase/database';
+import { update } from 'firebase/database';
+import { BookingNotFoundError, InvalidTransitionError } from '@/lib/booking-status';
+import { __test__ as settingsTest } from './library-settings';
+
+// A Monday at 10:00 local time
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+
+const openDay = { open: '08:00', close: '22:00', isClosed: false };
+const settings: LibrarySettings = {
+  operatingHours: {
+    monday: openDay,
+    tuesday: openDay,
+    wednesday: openDay,
+    thursday: openDay,
+    friday: openDay,
+    saturday: openDay,
+    sunday: openDay,
+  },
+  holidays: [],
+  bookingRules: {
+    maxDailyDuration: 480,
+    maxAdvanceBookingDays: 7,
+    minBookingDuration: 30,
+    maxBookingDuration: 240,
+    extensionIncrement: 30,
+  },
+  updatedBy: 'system',
+  updatedAt: NOW.toISOString(),
+};
 
 // Custom Generators
 const bookingStatusArb = fc.constantFrom<BookingStatus>(
@@ -57,40 +90,51 @@ const bookingArb = fc.record({
   updatedAt: validDateArb.map((d) => d.toISOString()),
 }) as fc.Arbitrary<Booking>;
 
-// Helper to mock Firebase responses
-function mockFirebaseGetBookings(bookings: Booking[]) {
-  const getMock = get as jest.MockedFunction<typeof get>;
-  const refMock = ref as jest.MockedFunction<typeof ref>;
+// Bookings in a given status, for transitions that are only legal from it
+const bookingInStatusArb = (...statuses: BookingStatus[]) =>
+  fc.tuple(bookingArb, fc.constantFrom(...statuses)).map(([booking, status]) => ({ ...booking, status }));
 
-  refMock.mockImplementation((db: any, path?: string) => {
-    return { _path: path } as any;
-  });
+const bookingListArb = (minLength: number, maxLength: number) =>
+  fc.uniqueArray(bookingArb, { minLength, maxLength, selector: (b) => b.id });
 
-  getMock.mockImplementation((reference: any) => {
-    const path = reference._path || '';
-
-    if (path === 'bookings' || path.startsWith('bookings/')) {
-      return Promise.resolve({
-        exists: () => bookings.length > 0,
-        forEach: (callback: (child: any) => void) => {
-          bookings.forEach((booking) => {
-            callback({
-              key: booking.id,
-              val: () => booking,
-            });
-          });
-        },
-        val: () => (bookings.length > 0 ? bookings[0] : null),
-      } as any);
-    }
+// Start from an empty database holding these bookings at bookings/{userId}/{bookingId}
+function seedBookings(bookings: Booking[]) {
+  resetMockDatabase({ settings: { library: settings } });
+  bookings.forEach((booking) => writePath(bookingPath(booking), booking));
+}
+
+function seedSeat(seatId: string, overrides: Partial<Seat> = {}) {
+  writePath(`seats/ground/${seatId}`, {
+    id: seatId,
+    status: 'available',
+    bookedBy: null,
+    bookedAt: null,
+    bookingId: null,
+    occupiedUntil: null,
+    ...overrides,
+  });
+}
 
-    return Promise.resolve({ exists: () => false } as any);
+// A seat held by the booking, as the booking engine leaves it
+function seedHeldSeat(booking: Booking, status: Seat['status']) {
+  seedSeat(booking.seatId, {
+    status,
+    bookedBy: booking.userId,
+    bookedAt: NOW.getTime(),
+    bookingId: booking.id,
+    occupiedUntil: new Date(booking.endTime).getTime(),
   });
 }
 
+function bookingPath(booking: Booking): string {
+  return `bookings/${booking.userId}/${booking.id}`;
+}
+
 describe('Booking Management Service - Property-Based Tests', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    resetMockDatabase();
+    settingsTest.clear();
   });
 
   // Feature: admin-dashboard-analytics, Property 7: Search filter accuracy
@@ -98,7 +142,7 @@ describe('Booking Management Service - Property-Based Tests', () => {
     test('filtered bookings should match all specified criteria', async () => {
       await fc.assert(
         fc.asyncProperty(
-          fc.array(bookingArb, { minLength: 10, maxLength: 50 }),
+          bookingListArb(10, 50),
           fc.record({
             userId: fc.option(fc.uuid(), { nil: undefined }),
             seatId: fc.option(fc.uuid(), { nil: undefined }),
@@ -108,7 +152,7 @@ describe('Booking Management Service - Property-Based Tests', () => {
             }),
           }),
           async (bookings, filters) => {
-            mockFirebaseGetBookings(bookings);
+            seedBookings(bookings);
 
             const filtered = await getAllBookings(filters);
 
@@ -141,12 +185,12 @@ describe('Booking Management Service - Property-Based Tests', () => {
     test('date range filters should only return bookings within range', async () => {
       await fc.assert(
         fc.asyncProperty(
-          fc.array(bookingArb, { minLength: 10, maxLength: 50 }),
+          bookingListArb(10, 50),
           async (bookings) => {
             const startDate = new Date('2024-03-01');
             const endDate = new Date('2024-09-30');
 
-            mockFirebaseGetBookings(bookings);
+            seedBookings(bookings);
 
             const filtered = await getAllBookings({ startDate, endDate });
 
@@ -169,9 +213,9 @@ describe('Booking Management Service - Property-Based Tests', () => {
     test('empty filters should return all bookings', async () => {
       await fc.assert(
         fc.asyncProperty(
-          fc.array(bookingArb, { minLength: 1, maxLength: 50 }),
+          bookingListArb(1, 50),
           async (bookings) => {
-            mockFirebaseGetBookings(bookings);
+            seedBookings(bookings);
 
             const filtered = await getAllBookings({});
 
@@ -189,10 +233,10 @@ describe('Booking Management Service - Property-Based Tests', () => {
     test('paginating through all pages should present every booking exactly once', async () => {
       await fc.assert(
         fc.asyncProperty(
-          fc.array(bookingArb, { minLength: 10, maxLength: 100 }),
+          bookingListArb(10, 100),
           fc.integer({ min: 5, max: 20 }),
           async (bookings, pageSize) => {
-            mockFirebaseGetBookings(bookings);
+            seedBookings(bookings);
 
             const allPaginatedBookings: Booking[] = [];
             const totalPages = Math.ceil(bookings.length / pageSize);
@@ -225,10 +269,10 @@ describe('Booking Management Service - Property-Based Tests', () => {
     test('page size should be respected', async () => {
       await fc.assert(
         fc.asyncProperty(
-          fc.array(bookingArb, { minLength: 20, maxLength: 100 }),
+          bookingListArb(20, 100),
           fc.integer({ min: 5, max: 15 }),
           async (bookings, pageSize) => {
-            mockFirebaseGetBookings(bookings);
+            seedBookings(bookings);
 
             const result = await getPaginatedBookings(1, pageSize);
 
@@ -253,43 +297,53 @@ describe('Booking Management Service - Property-Based Tests', () => {
     test('cancelled booking should update status and release seat', async () => {
       await fc.assert(
         fc.asyncProperty(
-          bookingArb,
+          bookingInStatusArb('pending', 'active'),
           fc.uuid(),
           fc.string({ minLength: 5, maxLength: 100 }),
           async (booking, adminId, reason) => {
-            const updateMock = update as jest.MockedFunction<typeof update>;
-            const updates: any[] = [];
-
-            updateMock.mockImplementation((ref: any, data: any) => {
-              updates.push({ ref, data });
-              return Promise.resolve();
-            });
-
-            mockFirebaseGetBookings([booking]);
+            seedBookings([booking]);
+            seedHeldSeat(booking, booking.status === 'active' ? 'occupied' : 'reserved');
+            writePath(`users/${booking.userId}/currentBookingId`, booking.id);
 
-            await cancelBooking(booking.id, adminId, reason);
+            await cancelBooking(booking.userId, booking.id, adminId, reason, NOW);
 
             // Property: Booking should be updated with cancelled status
-            const bookingUpdate = updates.find((u) =>
-              u.ref._path?.includes('bookings')
-            );
-            expect(bookingUpdate).toBeDefined();
-            expect(bookingUpdate.data.status).toBe('cancelled');
-            expect(bookingUpdate.data.cancelledBy).toBe(adminId);
-            expect(bookingUpdate.data.cancelReason).toBe(reason);
-
-            // Property: Seat should be released
-            const seatUpdate = updates.find((u) =>
-              u.ref._path?.includes('seats')
-            );
-            expect(seatUpdate).toBeDefined();
-            expect(seatUpdate.data.status).toBe('available');
-            expect(seatUpdate.data.bookedBy).toBeNull();
+            const stored = readPath(bookingPath(booking));
+            expect(stored.status).toBe('cancelled');
+            expect(stored.cancelledBy).toBe(adminId);
+            expect(stored.cancelReason).toBe(reason);
+
+            // Property: Seat and the user's booking slot should be released
+            const seat = readPath(`seats/ground/${booking.seatId}`);
+            expect(seat.status).toBe('available');
+            expect(seat.bookedBy).toBeNull();
+            expect(seat.bookingId).toBeNull();
+            expect(readPath(`users/${booking.userId}/currentBookingId`)).toBeUndefined();
           }
         ),
         { numRuns: 100 }
       );
     });
+
+    test('cancelling leaves a seat that another booking now holds', async () => {
+      const booking = { ...fc.sample(bookingInStatusArb('pending'), 1)[0], id: 'b1', seatId: 'G01' };
+      seedBookings([booking]);
+      seedSeat('G01', {
+        status: 'reserved',
+        bookedBy: 'someone-else',
+        bookingId: 'b2',
+        reservations: {
+          b1: { bookingId: 'b1', userId: booking.userId, startTime: booking.startTime, endTime: booking.endTime },
+        },
+      });
+
+      await cancelBooking(booking.userId, 'b1', 'admin1', 'Student left', NOW);
+
+      const seat = readPath('seats/ground/G01');
+      expect(seat).toMatchObject({ status: 'reserved', bookedBy: 'someone-else', bookingId: 'b2' });
+      expect(seat.reservations?.b1).toBeUndefined();
+      expect(readPath(bookingPath(booking)).status).toBe('cancelled');
+    });
   });
 
   // Feature: admin-dashboard-analytics, Property 23: Manual seat assignment creates booking
@@ -303,55 +357,36 @@ describe('Booking Management Service - Property-Based Tests', () => {
           fc.emailAddress(),
           fc.uuid(),
           async (seatId, userId, userName, userEmail, adminId) => {
-            const setMock = set as jest.MockedFunction<typeof set>;
-            const updateMock = update as jest.MockedFunction<typeof update>;
-            const getMock = get as jest.MockedFunction<typeof get>;
-            const refMock = ref as jest.MockedFunction<typeof ref>;
+            seedBookings([]);
+            seedSeat(seatId);
 
-            refMock.mockImplementation((db: any, path?: string) => {
-              return { _path: path } as any;
-            });
+            const startTime = NOW;
+            const endTime = new Date(NOW.getTime() + 2 * 60 * 60 * 1000);
 
-            getMock.mockImplementation((reference: any) => {
-              const path = reference._path || '';
-              if (path.includes('seats')) {
-                return Promise.resolve({
-                  exists: () => true,
-                  val: () => ({ id: seatId, status: 'available' }),
-                } as any);
-              }
-              return Promise.resolve({ exists: () => false } as any);
-            });
-
-            const startTime = new Date('2024-06-15T10:00:00Z');
-            const endTime = new Date('2024-06-15T12:00:00Z');
-
-            const booking = await manuallyAssignSeat(
+            const result = await manuallyAssignSeat(
               seatId,
               userId,
               userName,
               userEmail,
               startTime,
               endTime,
-              adminId
+              adminId,
+              NOW
             );
 
-            // Property: Booking should be created
-            expect(booking).toBeDefined();
+            // Property: Booking should be created under the user
+            expect(result.success).toBe(true);
+            const booking = result.booking!;
             expect(booking.seatId).toBe(seatId);
             expect(booking.userId).toBe(userId);
             expect(booking.status).toBe('pending');
+            expect(readPath(`bookings/${userId}/${booking.id}`)).toMatchObject({ seatId, userId, status: 'pending' });
 
-            // Property: Set should be called to create booking
-            expect(setMock).toHaveBeenCalled();
-
-            // Property: Seat should be updated to reserved
-            expect(updateMock).toHaveBeenCalled();
-            const seatUpdate = updateMock.mock.calls.find((call) =>
-              (call[0] as any)._path?.includes('seats')
-            );
-            expect(seatUpdate).toBeDefined();
-            expect((seatUpdate![1] as any).status).toBe('reserved');
+            // Property: Seat should be reserved for the booking
+            const seat = readPath(`seats/ground/${seatId}`);
+            expect(seat.status).toBe('reserved');
+            expect(seat.bookingId).toBe(booking.id);
+            expect(seat.bookedBy).toBe(userId);
           }
         ),
         { numRuns: 100 }
@@ -359,46 +394,114 @@ describe('Booking Management Service - Property-Based Tests', () => {
     });
   });
 
+  describe('Manual assignment policy', () => {
+    test('manual assignment for a restricted user is rejected before anything is written', async () => {
+      seedBookings([]);
+      seedSeat('G01');
+      writePath('restrictions/user1', { isFlagged: true });
+
+      const result = await manuallyAssignSeat(
+        'G01',
+        'user1',
+        'Student',
+        'user1@srmist.edu.in',
+        NOW,
+        new Date(NOW.getTime() + 2 * 60 * 60 * 1000),
+        'admin1',
+        NOW
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.violations).toMatchObject([{ rule: 'restricted-user' }]);
+      expect(readPath('bookings')).toBeUndefined();
+      expect(readPath('seats/ground/G01').status).toBe('available');
+    });
+
+    test('a seat someone else holds cannot be assigned', async () => {
+      seedBookings([]);
+      seedSeat('G01', { status: 'reserved', bookedBy: 'user2', bookingId: 'b2' });
+
+      const result = await manuallyAssignSeat(
+        'G01',
+        'user1',
+        'Student',
+        'user1@srmist.edu.in',
+        NOW,
+        new Date(NOW.getTime() + 2 * 60 * 60 * 1000),
+        'admin1',
+        NOW
+      );
+
+      expect(result).toMatchObject({ success: false, message: 'Seat G01 is no longer available' });
+      expect(readPath('bookings')).toBeUndefined();
+      expect(readPath('seats/ground/G01')).toMatchObject({ bookedBy: 'user2', bookingId: 'b2' });
+    });
+  });
+
   // Feature: admin-dashboard-analytics, Property 32: Manual check-in updates state
   describe('Property 32: Manual check-in updates state', () => {
     test('manual check-in should update booking to active and record timestamp', async () => {
       await fc.assert(
         fc.asyncProperty(
-          bookingArb,
+          bookingInStatusArb('pending'),
           fc.uuid(),
           fc.string({ minLength: 5, maxLength: 100 }),
           async (booking, adminId, reason) => {
-            const updateMock = update as jest.MockedFunction<typeof update>;
-            const updates: any[] = [];
+            seedBookings([booking]);
+            seedHeldSeat(booking, 'reserved');
 
-            updateMock.mockImplementation((ref: any, data: any) => {
-              updates.push({ ref, data });
-              return Promise.resolve();
-            });
-
-            mockFirebaseGetBookings([booking]);
-
-            await manualCheckIn(booking.id, adminId, reason);
+            const result = await manualCheckIn(booking.userId, booking.id, adminId, reason, NOW);
+            expect(result.success).toBe(true);
 
             // Property: Booking should be updated to active status
-            const bookingUpdate = updates.find((u) =>
-              u.ref._path?.includes('bookings')
-            );
-            expect(bookingUpdate).toBeDefined();
-            expect(bookingUpdate.data.status).toBe('active');
-            expect(bookingUpdate.data.entryTime).toBeDefined();
+            const stored = readPath(bookingPath(booking));
+            expect(stored.status).toBe('active');
+            expect(stored.entryTime).toBe(NOW.toISOString());
 
             // Property: Seat should be updated to occupied
-            const seatUpdate = updates.find((u) =>
-              u.ref._path?.includes('seats')
-            );
-            expect(seatUpdate).toBeDefined();
-            expect(seatUpdate.data.status).toBe('occupied');
+            expect(readPath(`seats/ground/${booking.seatId}`).status).toBe('occupied');
           }
         ),
         { numRuns: 100 }
       );
     });
+
+    test('manual check-in moves an advance reservation onto a free seat', async () => {
+      const booking = { ...fc.sample(bookingInStatusArb('pending'), 1)[0], id: 'b1', seatId: 'G01' };
+      seedBookings([booking]);
+      seedSeat('G01', {
+        reservations: {
+          b1: { bookingId: 'b1', userId: booking.userId, startTime: booking.startTime, endTime: booking.endTime },
+        },
+      });
+
+      const result = await manualCheckIn(booking.userId, 'b1', 'admin1', 'Phone battery died', NOW);
+
+      expect(result.success).toBe(true);
+      const seat = readPath('seats/ground/G01');
+      expect(seat).toMatchObject({ status: 'occupied', bookedBy: booking.userId, bookingId: 'b1' });
+      expect(seat.reservations?.b1).toBeUndefined();
+    });
+
+    test('manual check-in fails without writing while another booking holds the seat', async () => {
+      const booking = { ...fc.sample(bookingInStatusArb('pending'), 1)[0], id: 'b1', seatId: 'G01' };
+      seedBookings([booking]);
+      seedSeat('G01', {
+        status: 'occupied',
+        bookedBy: 'user2',
+        bookingId: 'b2',
+        reservations: {
+          b1: { bookingId: 'b1', userId: booking.userId, startTime: booking.startTime, endTime: booking.endTime },
+        },
+      });
+
+      const result = await manualCheckIn(booking.userId, 'b1', 'admin1', 'Phone battery died', NOW);
+
+      expect(result).toMatchObject({ success: false, message: 'Seat is still held by another booking' });
+      expect(readPath(bookingPath(booking)).status).toBe('pending');
+      expect(readPath('seats/ground/G01')).toMatchObject({ status: 'occupied', bookedBy: 'user2', bookingId: 'b2' });
+      expect(readPath('auditLogs')).toBeUndefined();
+    });
   });
 
   // Feature: admin-dashboard-analytics, Property 33: Manual check-out releases seat
@@ -406,42 +509,59 @@ describe('Booking Management Service - Property-Based Tests', () => {
     test('manual check-out should complete booking and release seat', async () => {
       await fc.assert(
         fc.asyncProperty(
-          bookingArb,
+          bookingInStatusArb('active'),
           fc.uuid(),
           fc.string({ minLength: 5, maxLength: 100 }),
           async (booking, adminId, reason) => {
-            const updateMock = update as jest.MockedFunction<typeof update>;
-            const updates: any[] = [];
-
-            updateMock.mockImplementation((ref: any, data: any) => {
-              updates.push({ ref, data });
-              return Promise.resolve();
-            });
+            seedBookings([booking]);
+            seedHeldSeat(booking, 'occupied');
 
-            mockFirebaseGetBookings([booking]);
-
-            await manualCheckOut(booking.id, adminId, reason);
+            await manualCheckOut(booking.userId, booking.id, adminId, reason, NOW);
 
             // Property: Booking should be completed
-            const bookingUpdate = updates.find((u) =>
-              u.ref._path?.includes('bookings')
-            );
-            expect(bookingUpdate).toBeDefined();
-            expect(bookingUpdate.data.status).toBe('completed');
-            expect(bookingUpdate.data.exitTime).toBeDefined();
+            const stored = readPath(bookingPath(booking));
+            expect(stored.status).toBe('completed');
+            expect(stored.exitTime).toBe(NOW.toISOString());
 
             // Property: Seat should be released
-            const seatUpdate = updates.find((u) =>
-              u.ref._path?.includes('seats')
-            );
-            expect(seatUpdate).toBeDefined();
-            expect(seatUpdate.data.status).toBe('available');
-            expect(seatUpdate.data.bookedBy).toBeNull();
-            expect(seatUpdate.data.bookingId).toBeNull();
+            const seat = readPath(`seats/ground/${booking.seatId}`);
+            expect(seat.status).toBe('available');
+            expect(seat.bookedBy).toBeNull();
+            expect(seat.bookingId).toBeNull();
           }
         ),
         { numRuns: 100 }
       );
     });
   });
+
+  // Feature: booking-status, Property 2: Admin actions respect the booking state machine
+  describe('Illegal admin transitions', () => {
+    test('admin actions on finished bookings are rejected without writing', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          bookingInStatusArb('completed', 'cancelled', 'no-show', 'expired'),
+          fc.constantFrom(cancelBooking, manualCheckIn, manualCheckOut),
+          fc.uuid(),
+          async (booking, action, adminId) => {
+            const updateMock = update as jest.MockedFunction<typeof update>;
+            updateMock.mockClear();
+            seedBookings([booking]);
+            const before = readPath(bookingPath(booking));
+
+            await expect(action(booking.userId, booking.id, adminId, 'Admin action')).rejects.toBeInstanceOf(InvalidTransitionError);
+            expect(updateMock).not.toHaveBeenCalled();
+            expect(readPath(bookingPath(booking))).toEqual(before);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    test('admin actions on a missing booking fail with a not-found error', async () => {
+      for (const action of [cancelBooking, manualCheckIn, manualCheckOut]) {
+        await expect(action('u1', 'missing', 'admin1', 'Admin action')).rejects.toBeInstanceOf(BookingNotFoundError);
+      }
+    });
+  });
 });
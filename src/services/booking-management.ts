@@ -1,10 +1,18 @@
-import { ref, get, set, update, push } from 'firebase/database';
+import { ref, get, update, runTransaction } from 'firebase/database';
 import { db } from '@/lib/firebase';
-import type { Booking, BookingFilters, Seat } from '@/types';
+import { BookingNotFoundError, getTransitionEvent, transitionBooking } from '@/lib/booking-status';
+import { recordAuditEvent } from '@/services/audit-log';
+import { checkInBooking, checkOutBooking } from '@/services/booking-checkin';
+import { createBooking, releaseFromSeat, releaseUserClaim } from '@/services/booking-engine';
+import { resolveSeatPath } from '@/services/seat-layout';
+import { offerFreedSeat } from '@/services/waitlist';
+import type { Booking, BookingFilters, BookingResult, Seat } from '@/types';
 
 /**
  * Booking Management Service
- * Provides functions for querying, filtering, and managing bookings
+ * Provides functions for querying, filtering, and managing bookings.
+ * Bookings live at bookings/{userId}/{bookingId}; staff actions claim and
+ * release seats the same way the booking engine does.
  */
 
 /**
@@ -22,8 +30,10 @@ export async function getAllBookings(
     }
 
     let bookings: Booking[] = [];
-    snapshot.forEach((child) => {
-      bookings.push(child.val() as Booking);
+    snapshot.forEach((userBookings) => {
+      userBookings.forEach((child) => {
+        bookings.push({ ...(child.val() as Booking), id: child.key! });
+      });
     });
 
     // Apply filters
@@ -114,43 +124,39 @@ export async function getPaginatedBookings(
  * Cancel a booking (admin action)
  */
 export async function cancelBooking(
+  userId: string,
   bookingId: string,
   adminId: string,
-  reason: string
+  reason: string,
+  now: Date = new Date()
 ): Promise<void> {
   try {
-    const bookingRef = ref(db, `bookings/${bookingId}`);
-    const snapshot = await get(bookingRef);
-
-    if (!snapshot.exists()) {
-      throw new Error('Booking not found');
-    }
-
-    const booking = snapshot.val() as Booking;
+    const booking = await getBooking(userId, bookingId);
 
     // Update booking status
-    await update(bookingRef, {
-      status: 'cancelled',
+    await update(ref(db, `bookings/${userId}/${bookingId}`), {
+      status: transitionBooking(booking.status, 'cancel'),
       cancelledBy: adminId,
       cancelReason: reason,
-      updatedAt: new Date().toISOString(),
+      updatedAt: now.toISOString(),
     });
 
     // Release the seat
-    const seatRef = ref(db, `seats/${booking.seatId}`);
-    await update(seatRef, {
-      status: 'available',
-      bookedBy: null,
-      bookingId: null,
-      bookedAt: null,
-      occupiedUntil: null,
-    });
+    await releaseSeat(booking, now);
+    await releaseUserClaim(userId, bookingId);
 
     // Log the action
-    await logAdminAction(adminId, 'cancel_booking', bookingId, 'booking', reason, {
-      userId: booking.userId,
-      seatId: booking.seatId,
-    });
+    await recordAuditEvent(
+      {
+        adminId,
+        action: 'cancel_booking',
+        targetId: bookingId,
+        targetType: 'booking',
+        reason,
+        details: { userId, seatId: booking.seatId },
+      },
+      now
+    );
 
     // TODO: Send notification to user
     // TODO: Send notification to user about cancellation
@@ -161,7 +167,8 @@ export async function cancelBooking(
 }
 
 /**
- * Manually assign a seat to a user
+ * Manually assign a seat to a user. The booking is made by the booking
+ * engine, so staff assignments follow the same rules as student bookings.
  */
 export async function manuallyAssignSeat(
   seatId: string,
@@ -170,66 +177,40 @@ export async function manuallyAssignSeat(
   userEmail: string,
   startTime: Date,
   endTime: Date,
-  adminId: string
-): Promise<Booking> {
+  adminId: string,
+  now: Date = new Date()
+): Promise<BookingResult> {
   try {
-    // Check if seat is available
-    const seatRef = ref(db, `seats/${seatId}`);
-    const seatSnapshot = await get(seatRef);
-
-    if (!seatSnapshot.exists()) {
-      throw new Error('Seat not found');
-    }
+    const result = await createBooking(
+      {
+        seatId,
+        userId,
+        userName,
+        userEmail,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+      },
+      now
+    );
 
-    const seat = seatSnapshot.val() as Seat;
-    if (seat.status !== 'available') {
-      throw new Error('Seat is not available');
+    if (!result.success) {
+      return result;
     }
 
-    // Create booking
-    const bookingsRef = ref(db, 'bookings');
-    const newBookingRef = push(bookingsRef);
-    const bookingId = newBookingRef.key!;
-
-    const duration = (endTime.getTime() - startTime.getTime()) / (1000 * 60);
-
-    const booking: Booking = {
-      id: bookingId,
-      seatId,
-      userId,
-      userName,
-      userEmail,
-      bookingTime: new Date().toISOString(),
-      startTime: startTime.toISOString(),
-      endTime: endTime.toISOString(),
-      status: 'pending',
-      duration,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    await set(newBookingRef, booking);
-
-    // Update seat status
-    await update(seatRef, {
-      status: 'reserved',
-      bookedBy: userId,
-      bookingId,
-      bookedAt: Date.now(),
-      occupiedUntil: endTime.getTime(),
-    });
-
     // Log the action
-    await logAdminAction(
-      adminId,
-      'manual_assign',
-      bookingId,
-      'booking',
-      'Manual seat assignment',
-      { userId, seatId, startTime: startTime.toISOString(), endTime: endTime.toISOString() }
+    await recordAuditEvent(
+      {
+        adminId,
+        action: 'manual_assign',
+        targetId: result.booking!.id,
+        targetType: 'booking',
+        reason: 'Manual seat assignment',
+        details: { userId, seatId, startTime: result.booking!.startTime, endTime: result.booking!.endTime },
+      },
+      now
     );
 
-    return booking;
+    return result;
   } catch (error) {
     console.error('Error manually assigning seat:', error);
     throw error;
@@ -240,27 +221,37 @@ export async function manuallyAssignSeat(
  * Override a booking
  */
 export async function overrideBooking(
+  userId: string,
   bookingId: string,
   changes: Partial<Booking>,
   adminId: string,
   reason: string
 ): Promise<void> {
   try {
-    const bookingRef = ref(db, `bookings/${bookingId}`);
-    const snapshot = await get(bookingRef);
-
-    if (!snapshot.exists()) {
-      throw new Error('Booking not found');
+    // Status changes must still follow the booking state machine
+    const booking = await getBooking(userId, bookingId);
+    if (changes.status && changes.status !== booking.status) {
+      getTransitionEvent(booking.status, changes.status);
     }
 
     // Update booking with changes
-    await update(bookingRef, {
+    await update(ref(db, `bookings/${userId}/${bookingId}`), {
       ...changes,
       updatedAt: new Date().toISOString(),
     });
 
     // Log the action
-    await logAdminAction(adminId, 'override_booking', bookingId, 'booking', reason, changes);
+    const before = Object.fromEntries(
+      Object.keys(changes).map((key) => [key, booking[key as keyof Booking] ?? null])
+    );
+    await recordAuditEvent({
+      adminId,
+      action: 'override_booking',
+      targetId: bookingId,
+      targetType: 'booking',
+      reason,
+      details: { before, after: changes },
+    });
   } catch (error) {
     console.error('Error overriding booking:', error);
     throw error;
@@ -268,44 +259,40 @@ export async function overrideBooking(
 }
 
 /**
- * Manual check-in
+ * Manual check-in. Staff seat the student the same way a scan at the
+ * entrance does; fails if another booking now holds the seat.
  */
 export async function manualCheckIn(
+  userId: string,
   bookingId: string,
   adminId: string,
-  reason: string
-): Promise<void> {
+  reason: string,
+  now: Date = new Date()
+): Promise<BookingResult> {
   try {
-    const bookingRef = ref(db, `bookings/${bookingId}`);
-    const snapshot = await get(bookingRef);
+    const booking = await getBooking(userId, bookingId);
 
-    if (!snapshot.exists()) {
-      throw new Error('Booking not found');
+    const checkIn = await checkInBooking(booking, now);
+    if (!checkIn.success) {
+      return { success: false, message: checkIn.message };
     }
 
-    const booking = snapshot.val() as Booking;
-
-    // Update booking status
-    await update(bookingRef, {
-      status: 'active',
-      entryTime: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    });
-
-    // Update seat status
-    const seatRef = ref(db, `seats/${booking.seatId}`);
-    await update(seatRef, {
-      status: 'occupied',
-    });
-
     // Log the action
-    await logAdminAction(adminId, 'manual_checkin', bookingId, 'booking', reason, {
-      userId: booking.userId,
-      seatId: booking.seatId,
-    });
+    await recordAuditEvent(
+      {
+        adminId,
+        action: 'manual_checkin',
+        targetId: bookingId,
+        targetType: 'booking',
+        reason,
+        details: { userId, seatId: booking.seatId },
+      },
+      now
+    );
 
     // TODO: Send notification to user
     // TODO: Send notification to user about check-in
+    return { success: true, booking: checkIn.booking };
   } catch (error) {
     console.error('Error performing manual check-in:', error);
     throw error;
@@ -316,42 +303,30 @@ export async function manualCheckIn(
  * Manual check-out
  */
 export async function manualCheckOut(
+  userId: string,
   bookingId: string,
   adminId: string,
-  reason: string
+  reason: string,
+  now: Date = new Date()
 ): Promise<void> {
   try {
-    const bookingRef = ref(db, `bookings/${bookingId}`);
-    const snapshot = await get(bookingRef);
-
-    if (!snapshot.exists()) {
-      throw new Error('Booking not found');
-    }
-
-    const booking = snapshot.val() as Booking;
+    const booking = await getBooking(userId, bookingId);
 
-    // Update booking status
-    await update(bookingRef, {
-      status: 'completed',
-      exitTime: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    });
-
-    // Release the seat
-    const seatRef = ref(db, `seats/${booking.seatId}`);
-    await update(seatRef, {
-      status: 'available',
-      bookedBy: null,
-      bookingId: null,
-      bookedAt: null,
-      occupiedUntil: null,
-    });
+    // Complete the booking and release the seat, as a scan at the exit does
+    await checkOutBooking(booking, now);
 
     // Log the action
-    await logAdminAction(adminId, 'manual_checkout', bookingId, 'booking', reason, {
-      userId: booking.userId,
-      seatId: booking.seatId,
-    });
+    await recordAuditEvent(
+      {
+        adminId,
+        action: 'manual_checkout',
+        targetId: bookingId,
+        targetType: 'booking',
+        reason,
+        details: { userId, seatId: booking.seatId },
+      },
+      now
+    );
 
     // TODO: Send notification to user
     // TODO: Send notification to user about check-out
@@ -361,36 +336,33 @@ export async function manualCheckOut(
   }
 }
 
-/**
- * Log admin action to audit log
- */
-async function logAdminAction(
-  adminId: string,
-  action: string,
-  targetId: string,
-  targetType: 'booking' | 'user' | 'seat' | 'settings',
-  reason?: string,
-  details?: Record<string, any>
-): Promise<void> {
-  try {
-    const auditLogsRef = ref(db, 'auditLogs');
-    const newLogRef = push(auditLogsRef);
+// Helper Functions
 
-    const log = {
-      id: newLogRef.key,
-      timestamp: new Date().toISOString(),
-      adminId,
-      adminName: 'Admin', // TODO: Get actual admin name
-      action,
-      targetId,
-      targetType,
-      reason,
-      details,
-    };
+async function getBooking(userId: string, bookingId: string): Promise<Booking> {
+  const snapshot = await get(ref(db, `bookings/${userId}/${bookingId}`));
 
-    await set(newLogRef, log);
-  } catch (error) {
-    console.error('Error logging admin action:', error);
-    // Don't throw - logging failure shouldn't block the main operation
+  if (!snapshot.exists()) {
+    throw new BookingNotFoundError(bookingId);
   }
+
+  return { ...(snapshot.val() as Booking), id: bookingId };
+}
+
+/**
+ * Release the booking's hold or reservation, if the seat still has one for
+ * it, and offer the seat to the waitlist
+ */
+async function releaseSeat(booking: Booking, now: Date): Promise<void> {
+  const seatPath = await resolveSeatPath(booking.seatId);
+  if (!seatPath) {
+    return;
+  }
+
+  await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    return releaseFromSeat(seat, booking.id);
+  });
+  await offerFreedSeat(booking.seatId, now);
 }
@@ -0,0 +1,81 @@
+import { evaluateBookingPolicy, evaluateExtensionPolicy } from '@/lib/booking-policy';
+import { getUserBookings } from '@/services/booking-engine';
+import { loadLibrarySettings } from '@/services/library-settings';
+import { getUserPenalties } from '@/services/penalties';
+import { getUserRestrictions } from '@/services/user-management';
+import type { PolicyViolation } from '@/types';
+
+/**
+ * Booking Policy Service
+ * Loads what the policy engine needs (library settings, the user's restrictions,
+ * penalties and bookings) for callers that don't already have it.
+ */
+
+/**
+ * Check a booking a user wants to make, or that staff want to make for them
+ */
+export async function checkBookingPolicy(
+  userId: string,
+  startTime: Date,
+  endTime: Date,
+  now: Date = new Date()
+): Promise<PolicyViolation[]> {
+  try {
+    const [settings, restrictions, penalties, userBookings] = await Promise.all([
+      loadLibrarySettings(),
+      getUserRestrictions(userId),
+      getUserPenalties(userId),
+      getUserBookings(userId),
+    ]);
+
+    return evaluateBookingPolicy({
+      settings,
+      startTime,
+      endTime,
+      now,
+      userBookings,
+      restrictions,
+      penalties,
+    });
+  } catch (error) {
+    console.error('Error checking booking policy:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check extending one of a user's bookings. Null if the booking isn't theirs.
+ */
+export async function checkExtensionPolicy(
+  userId: string,
+  bookingId: string,
+  additionalMinutes: number,
+  now: Date = new Date()
+): Promise<PolicyViolation[] | null> {
+  try {
+    const [settings, restrictions, penalties, userBookings] = await Promise.all([
+      loadLibrarySettings(),
+      getUserRestrictions(userId),
+      getUserPenalties(userId),
+      getUserBookings(userId),
+    ]);
+
+    const booking = userBookings.find((b) => b.id === bookingId);
+    if (!booking) {
+      return null;
+    }
+
+    return evaluateExtensionPolicy({
+      settings,
+      booking,
+      additionalMinutes,
+      userBookings,
+      restrictions,
+      penalties,
+      now,
+    });
+  } catch (error) {
+    console.error('Error checking extension policy:', error);
+    throw error;
+  }
+}
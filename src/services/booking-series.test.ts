@@ -0,0 +1,180 @@
+import * as fc from 'fast-check';
+import type { Booking, BookingSeries, LibrarySettings } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { mockTree, readPath, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { cancelBookingSeries, createBookingSeries, skipSeriesOccurrence } from './booking-series';
+import { __test__ as settingsTest } from './library-settings';
+
+// A Monday at 08:00 local time
+const NOW = new Date(2024, 0, 8, 8, 0, 0);
+
+const settings: LibrarySettings = {
+  operatingHours: {
+    monday: { open: '08:00', close: '22:00', isClosed: false },
+    tuesday: { open: '08:00', close: '22:00', isClosed: false },
+    wednesday: { open: '08:00', close: '22:00', isClosed: false },
+    thursday: { open: '08:00', close: '22:00', isClosed: false },
+    friday: { open: '08:00', close: '22:00', isClosed: false },
+    saturday: { open: '09:00', close: '18:00', isClosed: false },
+    sunday: { open: '09:00', close: '18:00', isClosed: true },
+  },
+  holidays: [],
+  bookingRules: {
+    maxDailyDuration: 480,
+    maxAdvanceBookingDays: 90,
+    minBookingDuration: 30,
+    maxBookingDuration: 240,
+    extensionIncrement: 30,
+  },
+  updatedBy: 'system',
+  updatedAt: NOW.toISOString(),
+};
+
+function resetTree() {
+  mockTree.root = { settings: { library: JSON.parse(JSON.stringify(settings)) } };
+  settingsTest.clear();
+  seedSeat('G01');
+}
+
+function seedSeat(seatId: string) {
+  writePath(`seats/ground/${seatId}`, {
+    id: seatId,
+    status: 'available',
+    bookedBy: null,
+    bookedAt: null,
+    bookingId: null,
+    occupiedUntil: null,
+  });
+}
+
+// Tuesday 10:00-12:00, the day after NOW
+function seriesRequest(rule: BookingSeries['rule'], userId = 'user1') {
+  return {
+    seatId: 'G01',
+    userId,
+    userName: 'Student',
+    userEmail: `${userId}@srmist.edu.in`,
+    startTime: new Date(2024, 0, 9, 10, 0).toISOString(),
+    endTime: new Date(2024, 0, 9, 12, 0).toISOString(),
+    rule,
+  };
+}
+
+function bookingsOf(userId: string): Booking[] {
+  return Object.values(readPath(`bookings/${userId}`) || {});
+}
+
+describe('Booking Series - Property-Based Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetTree();
+  });
+
+  // Feature: recurring-bookings, Property 3: Every bookable occurrence becomes a booking in the series
+  test('Property 3: for any weekday pattern within the window, each open day gets one booking and closed days are skipped', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 }),
+        fc.integer({ min: 1, max: 10 }),
+        async (weekdays, count) => {
+          resetTree();
+
+          const result = await createBookingSeries(seriesRequest({ frequency: 'weekly', weekdays, count }), NOW);
+          const created = result.bookings || [];
+          const skipped = result.skipped || [];
+
+          expect(created.length + skipped.length).toBe(count);
+          created.forEach((booking) => {
+            expect(booking.seriesId).toBe(result.series!.id);
+            expect(new Date(booking.startTime).getDay()).not.toBe(0);
+            expect(booking.duration).toBe(120);
+          });
+          skipped.forEach((occurrence) => expect(new Date(occurrence.startTime).getDay()).toBe(0));
+          expect(result.success).toBe(created.length > 0);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  test('series may not reach past the advance booking window', async () => {
+    const result = await createBookingSeries(seriesRequest({ frequency: 'weekly', count: 20 }), NOW);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/90 days ahead/);
+    expect(bookingsOf('user1')).toHaveLength(0);
+  });
+
+  test('holidays and taken slots are skipped and reported', async () => {
+    writePath('settings/library/holidays', [{ date: '2024-01-10', name: 'Pongal' }]);
+    writePath('seats/ground/G01/reservations/other', {
+      bookingId: 'other',
+      userId: 'user2',
+      startTime: new Date(2024, 0, 11, 11, 0).toISOString(),
+      endTime: new Date(2024, 0, 11, 12, 0).toISOString(),
+    });
+
+    const result = await createBookingSeries(seriesRequest({ frequency: 'daily', until: '2024-01-12' }), NOW);
+
+    expect(result.success).toBe(true);
+    expect(result.bookings!.map((b) => new Date(b.startTime).getDate())).toEqual([9, 12]);
+    expect(result.skipped!.map((s) => new Date(s.startTime).getDate())).toEqual([10, 11]);
+    expect(result.skipped![0].reason).toMatch(/Pongal/);
+  });
+
+  test('holidays are matched on the local day of an early-morning occurrence', async () => {
+    // 02:00 in the test timezone is still the previous day in UTC
+    writePath('settings/library/operatingHours/tuesday', { open: '00:00', close: '24:00', isClosed: false });
+    writePath('settings/library/operatingHours/wednesday', { open: '00:00', close: '24:00', isClosed: false });
+    writePath('settings/library/operatingHours/thursday', { open: '00:00', close: '24:00', isClosed: false });
+    writePath('settings/library/holidays', [{ date: '2024-01-10', name: 'Pongal' }]);
+
+    const result = await createBookingSeries(
+      {
+        ...seriesRequest({ frequency: 'daily', until: '2024-01-11' }),
+        startTime: new Date(2024, 0, 9, 2, 0).toISOString(),
+        endTime: new Date(2024, 0, 9, 3, 0).toISOString(),
+      },
+      NOW
+    );
+
+    expect(result.bookings!.map((b) => new Date(b.startTime).getDate())).toEqual([9, 11]);
+    expect(result.skipped!.map((s) => new Date(s.startTime).getDate())).toEqual([10]);
+    expect(result.skipped![0].reason).toMatch(/Pongal/);
+  });
+
+  test('skipping an occurrence cancels only that booking', async () => {
+    const { series, bookings } = await createBookingSeries(seriesRequest({ frequency: 'daily', count: 3 }), NOW);
+
+    const skipped = await skipSeriesOccurrence('user1', series!.id, bookings![1].id, NOW);
+
+    expect(skipped.success).toBe(true);
+    expect(bookingsOf('user1').map((b) => b.status)).toEqual(['pending', 'cancelled', 'pending']);
+    expect(readPath(`seats/ground/G01/reservations/${bookings![1].id}`)).toBeUndefined();
+    expect((readPath(`bookingSeries/user1/${series!.id}`) as BookingSeries).skipped).toHaveLength(1);
+
+    const foreign = await skipSeriesOccurrence('user1', series!.id, 'not-in-series', NOW);
+    expect(foreign.success).toBe(false);
+  });
+
+  test('cancelling a series cancels its pending bookings', async () => {
+    const { series } = await createBookingSeries(seriesRequest({ frequency: 'daily', count: 3 }), NOW);
+
+    const result = await cancelBookingSeries('user1', series!.id, NOW);
+
+    expect(result.cancelled).toHaveLength(3);
+    expect(bookingsOf('user1').every((b) => b.status === 'cancelled')).toBe(true);
+    expect(readPath('seats/ground/G01/reservations') || {}).toEqual({});
+    expect(readPath(`bookingSeries/user1/${series!.id}/status`)).toBe('cancelled');
+    expect((await cancelBookingSeries('user1', series!.id, NOW)).success).toBe(false);
+  });
+});
@@ -0,0 +1,241 @@
+import { ref, get, set, push, update } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { expandRecurrence, toDateKey, validateRecurrenceRule } from '@/lib/recurrence';
+import { createBooking, cancelUserBooking } from '@/services/booking-engine';
+import { getHolidaysInRange, loadLibrarySettings, validateBookingTime } from '@/services/library-settings';
+import type {
+  Booking,
+  BookingResult,
+  BookingSeries,
+  BookingSeriesRequest,
+  BookingSeriesResult,
+  SkippedOccurrence,
+} from '@/types';
+
+/**
+ * Booking Series Service
+ * Recurring reservations. A series expands into ordinary bookings, one per
+ * occurrence, each created through the booking engine; dates the library is
+ * closed or the seat is taken are skipped and reported.
+ */
+
+/**
+ * Create a recurring series of bookings for one seat
+ */
+export async function createBookingSeries(
+  request: BookingSeriesRequest,
+  now: Date = new Date()
+): Promise<BookingSeriesResult> {
+  try {
+    const { rule, ...bookingRequest } = request;
+    const problem = validateRecurrenceRule(rule);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    const firstStart = new Date(request.startTime);
+    const firstEnd = new Date(request.endTime);
+    if (isNaN(firstStart.getTime()) || isNaN(firstEnd.getTime()) || firstEnd <= firstStart) {
+      return { success: false, message: 'Invalid start or end time' };
+    }
+
+    const durationMs = firstEnd.getTime() - firstStart.getTime();
+    const occurrences = expandRecurrence(firstStart, rule);
+    const lastStart = occurrences[occurrences.length - 1];
+
+    // Every occurrence must be bookable today, so the series can't outrun the advance window
+    const settings = await loadLibrarySettings();
+    if (settings) {
+      const days = settings.bookingRules.maxAdvanceBookingDays;
+      if (lastStart.getTime() > now.getTime() + days * 24 * 60 * 60 * 1000) {
+        return {
+          success: false,
+          message: `Recurring bookings can reach at most ${days} days ahead; choose an earlier end date or fewer sessions`,
+        };
+      }
+    }
+
+    const holidays = await getHolidaysInRange(firstStart, lastStart);
+    const skipped: SkippedOccurrence[] = [];
+    const bookable: Date[] = [];
+
+    for (const start of occurrences) {
+      const end = new Date(start.getTime() + durationMs);
+      const holiday = holidays.find((h) => h.date === toDateKey(start));
+
+      if (holiday) {
+        skipped.push({ startTime: start.toISOString(), reason: `Library closed: ${holiday.name}` });
+        continue;
+      }
+
+      const timeCheck = await validateBookingTime(start, end);
+      if (!timeCheck.valid) {
+        skipped.push({ startTime: start.toISOString(), reason: timeCheck.reason! });
+        continue;
+      }
+
+      bookable.push(start);
+    }
+
+    if (bookable.length === 0) {
+      return { success: false, skipped, message: 'None of the sessions in this series can be booked' };
+    }
+
+    const seriesId = push(ref(db, `bookingSeries/${request.userId}`)).key!;
+    const bookings: Booking[] = [];
+
+    for (const start of bookable) {
+      const result = await createBooking(
+        {
+          ...bookingRequest,
+          startTime: start.toISOString(),
+          endTime: new Date(start.getTime() + durationMs).toISOString(),
+          seriesId,
+        },
+        now
+      );
+
+      if (result.success) {
+        bookings.push(result.booking!);
+      } else {
+        skipped.push({ startTime: start.toISOString(), reason: result.message || 'Could not be booked' });
+      }
+    }
+
+    if (bookings.length === 0) {
+      return { success: false, skipped, message: skipped[skipped.length - 1].reason };
+    }
+
+    const nowISO = now.toISOString();
+    skipped.sort((a, b) => a.startTime.localeCompare(b.startTime));
+    const series: BookingSeries = {
+      id: seriesId,
+      userId: request.userId,
+      seatId: request.seatId,
+      rule,
+      startTime: firstStart.toISOString(),
+      duration: Math.round(durationMs / 60000),
+      bookingIds: bookings.map((booking) => booking.id),
+      skipped,
+      status: 'active',
+      createdAt: nowISO,
+      updatedAt: nowISO,
+    };
+
+    await set(ref(db, `bookingSeries/${request.userId}/${seriesId}`), series);
+
+    return { success: true, series, bookings, skipped };
+  } catch (error) {
+    console.error('Error creating booking series:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a user's recurring series, newest first
+ */
+export async function getUserBookingSeries(userId: string): Promise<BookingSeries[]> {
+  try {
+    const snapshot = await get(ref(db, `bookingSeries/${userId}`));
+
+    if (!snapshot.exists()) {
+      return [];
+    }
+
+    return Object.entries(snapshot.val() as Record<string, BookingSeries>)
+      .map(([id, series]) => ({ ...series, id, bookingIds: series.bookingIds || [], skipped: series.skipped || [] }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error fetching booking series:', error);
+    throw error;
+  }
+}
+
+/**
+ * Skip a single occurrence of a series by cancelling its booking
+ */
+export async function skipSeriesOccurrence(
+  userId: string,
+  seriesId: string,
+  bookingId: string,
+  now: Date = new Date()
+): Promise<BookingResult> {
+  try {
+    const series = await getSeries(userId, seriesId);
+
+    if (!series || !series.bookingIds.includes(bookingId)) {
+      return { success: false, message: 'Session not found in this series' };
+    }
+
+    const result = await cancelUserBooking(userId, bookingId, now);
+    if (!result.success) {
+      return result;
+    }
+
+    await update(ref(db, `bookingSeries/${userId}/${seriesId}`), {
+      skipped: [...(series.skipped || []), { startTime: result.booking!.startTime, reason: 'Skipped' }],
+      updatedAt: now.toISOString(),
+    });
+
+    return result;
+  } catch (error) {
+    console.error('Error skipping series occurrence:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel a series: every occurrence that hasn't started is cancelled and no
+ * further sessions are kept. Sessions already checked in are left alone.
+ */
+export async function cancelBookingSeries(
+  userId: string,
+  seriesId: string,
+  now: Date = new Date()
+): Promise<{ success: boolean; cancelled: string[]; message?: string }> {
+  try {
+    const series = await getSeries(userId, seriesId);
+
+    if (!series || series.status === 'cancelled') {
+      return { success: false, cancelled: [], message: 'Series not found' };
+    }
+
+    const cancelled: string[] = [];
+    for (const bookingId of series.bookingIds) {
+      const snapshot = await get(ref(db, `bookings/${userId}/${bookingId}`));
+      const booking = snapshot.exists() ? (snapshot.val() as Booking) : null;
+
+      if (booking?.status !== 'pending') {
+        continue;
+      }
+
+      const result = await cancelUserBooking(userId, bookingId, now);
+      if (result.success) {
+        cancelled.push(bookingId);
+      }
+    }
+
+    await update(ref(db, `bookingSeries/${userId}/${seriesId}`), {
+      status: 'cancelled',
+      updatedAt: now.toISOString(),
+    });
+
+    return { success: true, cancelled };
+  } catch (error) {
+    console.error('Error cancelling booking series:', error);
+    throw error;
+  }
+}
+
+// Helper Functions
+
+async function getSeries(userId: string, seriesId: string): Promise<BookingSeries | null> {
+  const snapshot = await get(ref(db, `bookingSeries/${userId}/${seriesId}`));
+
+  if (!snapshot.exists()) {
+    return null;
+  }
+
+  const series = snapshot.val() as BookingSeries;
+  return { ...series, id: seriesId, bookingIds: series.bookingIds || [], skipped: series.skipped || [] };
+}
@@ -0,0 +1,234 @@
+import * as fc from 'fast-check';
+import type { Seat } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { runSweep, getLapsedHold, CHECK_IN_WINDOW_MS } from './booking-sweeper';
+import { getGroupHoldExpiry, GROUP_INVITE_TTL_MS } from '@/lib/group-booking';
+
+// Fake clock: a Monday at 10:00 local time
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+const minutes = (n: number) => n * 60000;
+
+function seedBooking(userId: string, bookingId: string, seatId: string, status: string, overrides: Record<string, any> = {}) {
+  writePath(`bookings/${userId}/${bookingId}`, {
+    id: bookingId,
+    seatId,
+    userId,
+    status,
+    startTime: NOW.toISOString(),
+    endTime: new Date(NOW.getTime() + minutes(60)).toISOString(),
+    duration: 60,
+    ...overrides,
+  });
+  writePath(`users/${userId}`, {
+    uid: userId,
+    currentBookingId: bookingId,
+    stats: { totalBookings: 1, noShowCount: 0, overstayCount: 0, totalHoursBooked: 1 },
+  });
+}
+
+function seedHeldSeat(seatId: string, status: 'reserved' | 'occupied', userId: string, bookingId: string, bookedAt: number, occupiedUntil: number | null) {
+  writePath(`seats/ground/${seatId}`, {
+    id: seatId,
+    status,
+    bookedBy: userId,
+    bookedAt,
+    bookingId,
+    occupiedUntil,
+  });
+}
+
+describe('Booking Sweeper - Property-Based Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetMockDatabase();
+  });
+
+  // Feature: booking-sweeper, Property 1: Lapsed holds are expired
+  test('Property 1: For any reserved seat, it is freed exactly when the check-in window has passed', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 600 }), async (secondsAgo) => {
+        resetMockDatabase();
+        const bookedAt = NOW.getTime() - secondsAgo * 1000;
+        seedBooking('user1', 'b1', 'G01', 'pending');
+        seedHeldSeat('G01', 'reserved', 'user1', 'b1', bookedAt, bookedAt + minutes(60));
+
+        const result = await runSweep(NOW);
+        const lapsed = secondsAgo * 1000 > CHECK_IN_WINDOW_MS;
+
+        expect(result.actions).toHaveLength(lapsed ? 1 : 0);
+        expect(readPath('seats/ground/G01/status')).toBe(lapsed ? 'available' : 'reserved');
+        expect(readPath('bookings/user1/b1/status')).toBe(lapsed ? 'expired' : 'pending');
+        expect(readPath('users/user1/currentBookingId')).toBe(lapsed ? undefined : 'b1');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: booking-sweeper, Property 2: Sweeping is idempotent
+  test('Property 2: For any seat layout, a second sweep at the same time does nothing', async () => {
+    const seatArb = fc.record({
+      status: fc.constantFrom('available', 'reserved', 'occupied'),
+      minutesAgo: fc.integer({ min: 0, max: 300 }),
+      duration: fc.integer({ min: 30, max: 240 }),
+    });
+
+    await fc.assert(
+      fc.asyncProperty(fc.array(seatArb, { minLength: 1, maxLength: 10 }), async (layout) => {
+        resetMockDatabase();
+        layout.forEach(({ status, minutesAgo, duration }, i) => {
+          const seatId = `G${(i + 1).toString().padStart(2, '0')}`;
+          const bookedAt = NOW.getTime() - minutes(minutesAgo);
+          if (status === 'available') {
+            writePath(`seats/ground/${seatId}`, { id: seatId, status, bookedBy: null, bookedAt: null, bookingId: null });
+            return;
+          }
+          seedBooking(`user${i}`, `b${i}`, seatId, status === 'reserved' ? 'pending' : 'active');
+          seedHeldSeat(seatId, status as 'reserved' | 'occupied', `user${i}`, `b${i}`, bookedAt, bookedAt + minutes(duration));
+        });
+
+        await runSweep(NOW);
+        const second = await runSweep(NOW);
+
+        expect(second.actions).toHaveLength(0);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('marks overstays as completed and counts them against the user', async () => {
+    const bookedAt = NOW.getTime() - minutes(90);
+    const occupiedUntil = NOW.getTime() - minutes(30);
+    seedBooking('user1', 'b1', 'G02', 'active');
+    seedHeldSeat('G02', 'occupied', 'user1', 'b1', bookedAt, occupiedUntil);
+
+    const result = await runSweep(NOW);
+
+    expect(result.actions).toEqual([{ type: 'overstay', seatId: 'G02', bookingId: 'b1', userId: 'user1' }]);
+    expect(readPath('seats/ground/G02/status')).toBe('available');
+    expect(readPath('bookings/user1/b1/status')).toBe('completed');
+    expect(readPath('bookings/user1/b1/exitTime')).toBe(new Date(occupiedUntil).toISOString());
+    expect(readPath('users/user1/stats/overstayCount')).toBe(1);
+    expect(Object.values(readPath('penalties/user1/strikes'))).toEqual([
+      expect.objectContaining({ reason: 'overstay', bookingId: 'b1', issuedAt: NOW.toISOString() }),
+    ]);
+  });
+
+  test('marks missed reservations as no-shows without touching the current hold', async () => {
+    seedBooking('user1', 'b1', 'G03', 'pending', {
+      startTime: new Date(NOW.getTime() - minutes(10)).toISOString(),
+    });
+    seedBooking('user2', 'b2', 'G03', 'active');
+    seedHeldSeat('G03', 'occupied', 'user2', 'b2', NOW.getTime() - minutes(5), NOW.getTime() + minutes(55));
+    writePath('seats/ground/G03/reservations/b1', {
+      bookingId: 'b1',
+      userId: 'user1',
+      startTime: new Date(NOW.getTime() - minutes(10)).toISOString(),
+      endTime: new Date(NOW.getTime() + minutes(50)).toISOString(),
+    });
+
+    const result = await runSweep(NOW);
+
+    expect(result.actions.map((a) => a.type)).toEqual(['no-show']);
+    expect(readPath('seats/ground/G03/reservations')).toEqual({});
+    expect(readPath('seats/ground/G03/bookingId')).toBe('b2');
+    expect(readPath('bookings/user1/b1/status')).toBe('no-show');
+    expect(readPath('users/user1/stats/noShowCount')).toBe(1);
+  });
+
+  test('releases held seats that have no booking attached', async () => {
+    writePath('seats/ground/G04', { id: 'G04', status: 'reserved', bookedBy: null, bookedAt: null, bookingId: null });
+
+    const result = await runSweep(NOW);
+
+    expect(result.actions).toEqual([{ type: 'released', seatId: 'G04', bookingId: null, userId: null }]);
+    expect(readPath('seats/ground/G04/status')).toBe('available');
+  });
+
+  test('releases group seats nobody claimed without penalising anyone', async () => {
+    writePath('users/lead', { uid: 'lead', stats: { totalBookings: 1, noShowCount: 0, overstayCount: 0, totalHoursBooked: 1 } });
+    writePath('groupBookings/g1', {
+      id: 'g1',
+      organiserId: 'lead',
+      members: [
+        { email: 'lead@srmist.edu.in', seatId: 'G05', status: 'accepted' },
+        { email: 'ana@srmist.edu.in', seatId: 'G06', status: 'invited' },
+      ],
+    });
+    writePath('seats/ground/G06', { id: 'G06', status: 'available', bookedBy: null, bookedAt: null, bookingId: null });
+    writePath('seats/ground/G06/reservations/group-g1-G06', {
+      bookingId: 'group-g1-G06',
+      userId: 'lead',
+      groupId: 'g1',
+      startTime: new Date(NOW.getTime() - minutes(20)).toISOString(),
+      endTime: new Date(NOW.getTime() + minutes(40)).toISOString(),
+    });
+
+    const result = await runSweep(NOW);
+
+    expect(result.actions).toEqual([{ type: 'released', seatId: 'G06', bookingId: null, userId: null }]);
+    expect(readPath('seats/ground/G06/reservations')).toEqual({});
+    expect(readPath('groupBookings/g1/members/1/status')).toBe('expired');
+    expect(readPath('users/lead/stats/noShowCount')).toBe(0);
+  });
+
+  test('keeps a group seat held until the invitation lapses, not just the check-in window', async () => {
+    const created = new Date(NOW.getTime() - minutes(5));
+    writePath('groupBookings/g1', {
+      id: 'g1',
+      organiserId: 'lead',
+      members: [
+        { email: 'lead@srmist.edu.in', seatId: 'G05', status: 'accepted' },
+        { email: 'ana@srmist.edu.in', seatId: 'G06', status: 'invited' },
+      ],
+    });
+    writePath('seats/ground/G06', { id: 'G06', status: 'available', bookedBy: null, bookedAt: null, bookingId: null });
+    writePath('seats/ground/G06/reservations/group-g1-G06', {
+      bookingId: 'group-g1-G06',
+      userId: 'lead',
+      groupId: 'g1',
+      startTime: created.toISOString(),
+      endTime: new Date(NOW.getTime() + minutes(120)).toISOString(),
+      expiresAt: getGroupHoldExpiry(created, new Date(NOW.getTime() + minutes(120)), created).toISOString(),
+    });
+
+    expect((await runSweep(NOW)).actions).toEqual([]);
+    expect(readPath('seats/ground/G06/reservations/group-g1-G06')).toBeDefined();
+
+    const lapsed = new Date(created.getTime() + GROUP_INVITE_TTL_MS + 1000);
+    expect((await runSweep(lapsed)).actions).toEqual([{ type: 'released', seatId: 'G06', bookingId: null, userId: null }]);
+    expect(readPath('seats/ground/G06/reservations')).toEqual({});
+    expect(readPath('groupBookings/g1/members/1/status')).toBe('expired');
+  });
+
+  test('records every action in the audit log', async () => {
+    seedBooking('user1', 'b1', 'G05', 'pending');
+    seedHeldSeat('G05', 'reserved', 'user1', 'b1', NOW.getTime() - minutes(5), NOW.getTime() + minutes(55));
+
+    await runSweep(NOW);
+
+    const logs = Object.values(readPath('auditLogs') || {}) as any[];
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({ adminId: 'system', action: 'sweep_expired', targetId: 'b1', targetType: 'booking' });
+  });
+
+  test('uses the system clock by default', async () => {
+    jest.useFakeTimers().setSystemTime(NOW.getTime() + minutes(5));
+    try {
+      const seat = { status: 'reserved', bookedBy: 'user1', bookedAt: NOW.getTime(), bookingId: 'b1' } as Seat;
+      expect(getLapsedHold(seat, new Date())).toBe('expired');
+      expect((await runSweep()).sweptAt).toBe(new Date(NOW.getTime() + minutes(5)).toISOString());
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
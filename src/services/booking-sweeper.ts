@@ -0,0 +1,250 @@
+import { ref, get, update, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { canTransition, transitionBooking, type BookingEvent } from '@/lib/booking-status';
+import { recordAuditEvent } from '@/services/audit-log';
+import { getGroupHoldId } from '@/lib/group-booking';
+import { releaseFromSeat } from '@/services/booking-engine';
+import { expireGroupHold } from '@/services/group-bookings';
+import { recordStrike } from '@/services/penalties';
+import { offerFreedSeat, processWaitlist } from '@/services/waitlist';
+import type { Booking, Seat, SweepAction, SweepActionType, SweepResult } from '@/types';
+
+/**
+ * Booking Sweeper
+ * Server-side job that frees lapsed seats. Runs with the other scheduled
+ * jobs (see scheduled-jobs.ts).
+ *
+ * - Held seat not checked in within the window: booking expired
+ * - Advance reservation not checked in after it starts: booking no-show
+ * - Occupied seat past its end time: booking completed, counted as an overstay
+ * - Student on a break who didn't rescan in time: booking completed when the break began
+ * - Held seat with no booking attached: seat released
+ * - Group seat still waiting for its invitee when the invitation lapses: hold released, nobody penalised
+ * - Waitlist offer not claimed in time: offer expired, seat offered to the next student
+ *
+ * No-shows and overstays also earn the student a strike under the penalty
+ * policy. Every seat freed by the sweep is offered to the waitlist.
+ */
+
+// Time allowed to scan the QR code once a booking starts
+export const CHECK_IN_WINDOW_MS = 150 * 1000;
+
+// Occupied seats without an end time are released after this long
+const MAX_OCCUPANCY_MS = 24 * 60 * 60 * 1000;
+
+// Booking state machine event applied for each sweep action
+const SWEEP_EVENTS: Record<SweepActionType, BookingEvent | null> = {
+  expired: 'expire',
+  'no-show': 'no-show',
+  overstay: 'check-out',
+  released: null,
+  'break-expired': 'check-out',
+};
+
+/**
+ * Sweep every seat once and apply all due transitions
+ */
+export async function runSweep(now: Date = new Date()): Promise<SweepResult> {
+  try {
+    const snapshot = await get(ref(db, 'seats'));
+    const actions: SweepAction[] = [];
+
+    if (snapshot.exists()) {
+      const floors = snapshot.val() as Record<string, Record<string, Seat>>;
+
+      for (const [floor, seats] of Object.entries(floors)) {
+        for (const [seatId, seat] of Object.entries(seats || {})) {
+          actions.push(...(await sweepSeat(`seats/${floor}/${seatId}`, seatId, seat, now)));
+        }
+      }
+    }
+
+    const waitlist = await processWaitlist(now);
+
+    return { sweptAt: now.toISOString(), actions, expiredOffers: waitlist.expired };
+  } catch (error) {
+    console.error('Error running booking sweep:', error);
+    throw error;
+  }
+}
+
+/**
+ * Work out whether a seat's current hold has lapsed
+ */
+export function getLapsedHold(seat: Seat, now: Date): SweepActionType | null {
+  const nowMs = now.getTime();
+
+  if (seat.status === 'reserved') {
+    if (!seat.bookedAt || !seat.bookedBy || !seat.bookingId) {
+      return 'released';
+    }
+    return nowMs - seat.bookedAt > CHECK_IN_WINDOW_MS ? 'expired' : null;
+  }
+
+  if (seat.status === 'occupied') {
+    if (seat.onBreak && nowMs > seat.onBreak.endsAt) {
+      return 'break-expired';
+    }
+    const endsAt = seat.occupiedUntil ?? (seat.bookedAt ? seat.bookedAt + MAX_OCCUPANCY_MS : null);
+    return endsAt !== null && nowMs > endsAt ? 'overstay' : null;
+  }
+
+  return null;
+}
+
+// Helper Functions
+
+/**
+ * Sweep a single seat: missed reservations first, then the current hold
+ */
+async function sweepSeat(path: string, seatId: string, seat: Seat, now: Date): Promise<SweepAction[]> {
+  const actions: SweepAction[] = [];
+
+  for (const reservation of Object.values(seat.reservations || {})) {
+    // Seats held for invitees carry their own expiry
+    const closes = reservation.expiresAt
+      ? new Date(reservation.expiresAt).getTime()
+      : new Date(reservation.startTime).getTime() + CHECK_IN_WINDOW_MS;
+    if (now.getTime() <= closes) {
+      continue;
+    }
+
+    const removed = await runTransaction(ref(db, path), (current: Seat | null) => {
+      if (current === null) {
+        return null;
+      }
+      if (!current.reservations?.[reservation.bookingId]) {
+        return;
+      }
+      return releaseFromSeat(current, reservation.bookingId);
+    });
+
+    if (!removed.committed || !removed.snapshot.exists()) {
+      continue;
+    }
+
+    // An invitee who never answered has no booking to mark as a no-show
+    if (reservation.groupId && reservation.bookingId === getGroupHoldId(reservation.groupId, seatId)) {
+      const action: SweepAction = { type: 'released', seatId, bookingId: null, userId: null };
+      await logSweepAction(action, now);
+      await expireGroupHold(reservation.groupId, seatId, now);
+      actions.push(action);
+    } else {
+      const action: SweepAction = {
+        type: 'no-show',
+        seatId,
+        bookingId: reservation.bookingId,
+        userId: reservation.userId,
+      };
+      await finalizeBooking(action, now, now);
+      actions.push(action);
+    }
+  }
+
+  const lapsed = getLapsedHold(seat, now);
+  if (!lapsed) {
+    return actions;
+  }
+
+  // Only release the seat if nobody checked in or re-booked it meanwhile
+  const released = await runTransaction(ref(db, path), (current: Seat | null) => {
+    if (current === null) {
+      return null;
+    }
+    if (current.bookingId !== seat.bookingId || getLapsedHold(current, now) !== lapsed) {
+      return;
+    }
+    return {
+      ...current,
+      status: 'available',
+      bookedBy: null,
+      bookedAt: null,
+      bookingId: null,
+      occupiedUntil: null,
+      ...(current.onBreak ? { onBreak: null } : {}),
+    };
+  });
+
+  if (released.committed && released.snapshot.exists()) {
+    const action: SweepAction = {
+      type: lapsed,
+      seatId,
+      bookingId: seat.bookingId,
+      userId: seat.bookedBy,
+    };
+    const endedAt =
+      lapsed === 'break-expired' ? new Date(seat.onBreak!.startedAt) : seat.occupiedUntil ? new Date(seat.occupiedUntil) : now;
+    await finalizeBooking(action, endedAt, now);
+    actions.push(action);
+    await offerFreedSeat(seatId, now);
+  }
+
+  return actions;
+}
+
+/**
+ * Update the booking, the user's stats and the audit log for a sweep action
+ */
+async function finalizeBooking(action: SweepAction, endedAt: Date, now: Date): Promise<void> {
+  const { type, bookingId, userId } = action;
+
+  if (bookingId && userId) {
+    const bookingRef = ref(db, `bookings/${userId}/${bookingId}`);
+    const snapshot = await get(bookingRef);
+
+    const event = SWEEP_EVENTS[type];
+    const current = snapshot.exists() ? (snapshot.val() as Booking).status : null;
+
+    // Bookings already finished elsewhere are left as they are
+    if (event && current && canTransition(current, event)) {
+      const changes: Partial<Booking> = {
+        status: transitionBooking(current, event),
+        updatedAt: now.toISOString(),
+      };
+      if (type === 'overstay' || type === 'break-expired') {
+        changes.exitTime = endedAt.toISOString();
+      }
+      if (type === 'break-expired') {
+        changes.currentBreakId = null;
+      }
+      await update(bookingRef, changes);
+    }
+
+    await runTransaction(ref(db, `users/${userId}/currentBookingId`), (current: string | null) => {
+      if (current !== bookingId) {
+        return;
+      }
+      return null;
+    });
+  }
+
+  if (userId && (type === 'no-show' || type === 'overstay')) {
+    const counter = type === 'no-show' ? 'noShowCount' : 'overstayCount';
+    await runTransaction(ref(db, `users/${userId}/stats/${counter}`), (current: number | null) => {
+      return (current || 0) + 1;
+    });
+    await recordStrike(userId, type, bookingId, now);
+  }
+
+  await logSweepAction(action, now);
+}
+
+/**
+ * Record a sweep action in the audit log
+ */
+async function logSweepAction(action: SweepAction, now: Date): Promise<void> {
+  await recordAuditEvent(
+    {
+      adminId: 'system',
+      adminName: 'Booking Sweeper',
+      action: `sweep_${action.type.replace('-', '_')}`,
+      targetId: action.bookingId || action.seatId,
+      targetType: action.bookingId ? 'booking' : 'seat',
+      details: {
+        seatId: action.seatId,
+        userId: action.userId,
+      },
+    },
+    now
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * @jest-environment node
+ */
+
+import * as fc from 'fast-check';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+// Host names resolve through this table
+const mockHosts = new Map<string, string[]>();
+
+jest.mock('dns', () => ({
+  lookup: jest.fn((host: string, options: unknown, callback: (error: Error | null, addresses?: unknown) => void) => {
+    const addresses = mockHosts.get(host);
+    if (!addresses) {
+      callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${host}`), { code: 'ENOTFOUND' }));
+      return;
+    }
+    callback(null, addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })));
+  }),
+}));
+
+// Requests are answered in turn from this queue, once the connection has
+// looked up the host with the lookup it was given
+const mockResponses: Array<{ status: number; body?: string; headers?: Record<string, string> } | Error> = [];
+const mockConnections: string[] = [];
+
+jest.mock('https', () => {
+  const { EventEmitter } = require('events');
+  const { Readable } = require('stream');
+  const { isIP } = require('net');
+
+  return {
+    get: jest.fn((url: URL, options: any, onResponse: (response: unknown) => void) => {
+      const request = new EventEmitter();
+      const connect = (error: Error | null, addresses: string | Array<{ address: string }>) => {
+        if (error) {
+          request.emit('error', error);
+          return;
+        }
+        if (options.signal?.aborted) {
+          request.emit('error', Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+          return;
+        }
+        mockConnections.push(typeof addresses === 'string' ? addresses : addresses[0].address);
+
+        const next = mockResponses.shift()!;
+        if (next instanceof Error) {
+          request.emit('error', next);
+          return;
+        }
+        onResponse(
+          Object.assign(Readable.from(next.body ? [Buffer.from(next.body)] : []), {
+            statusCode: next.status,
+            headers: next.headers || {},
+          })
+        );
+      };
+
+      const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+      process.nextTick(() => (isIP(host) ? connect(null, host) : options.lookup(host, { all: true }, connect)));
+      return request;
+    }),
+  };
+});
+
+// Import after mocking
+import { fetchICalendarFeed, isPublicAddress, MAX_FEED_BYTES } from './calendar-feed';
+import { SettingsError } from './library-settings';
+import { get } from 'https';
+
+const ICS = 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n';
+
+describe('Calendar Feed', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockHosts.clear();
+    mockHosts.set('calendar.srmist.edu.in', ['203.0.113.10']);
+    mockHosts.set('intranet.example.com', ['10.1.2.3']);
+    mockResponses.length = 0;
+    mockConnections.length = 0;
+  });
+
+  // Feature: holiday-import, Property 2: Private and link-local addresses are never public
+  test('Property 2: addresses in private, loopback and link-local ranges are refused', () => {
+    const octet = fc.integer({ min: 0, max: 255 });
+    const privateV4 = fc.oneof(
+      fc.tuple(octet, octet, octet).map(([b, c, d]) => `10.${b}.${c}.${d}`),
+      fc.tuple(octet, octet, octet).map(([b, c, d]) => `127.${b}.${c}.${d}`),
+      fc.tuple(octet, octet).map(([c, d]) => `169.254.${c}.${d}`),
+      fc.tuple(fc.integer({ min: 16, max: 31 }), octet, octet).map(([b, c, d]) => `172.${b}.${c}.${d}`),
+      fc.tuple(octet, octet).map(([c, d]) => `192.168.${c}.${d}`)
+    );
+
+    fc.assert(
+      fc.property(privateV4, (address) => {
+        expect(isPublicAddress(address)).toBe(false);
+        expect(isPublicAddress(`::ffff:${address}`)).toBe(false);
+      }),
+      { numRuns: 200 }
+    );
+    ['::1', '::', 'fe80::1', 'fd00::1', 'localhost'].forEach((address) => expect(isPublicAddress(address)).toBe(false));
+    ['203.0.113.10', '8.8.8.8', '2001:4860:4860::8888'].forEach((address) => expect(isPublicAddress(address)).toBe(true));
+  });
+
+  test('downloads a public https feed, reading webcal links as https', async () => {
+    mockResponses.push({ status: 200, body: ICS });
+
+    expect(await fetchICalendarFeed('webcal://calendar.srmist.edu.in/holidays.ics')).toBe(ICS);
+    expect(String((get as jest.Mock).mock.calls[0][0])).toBe('https://calendar.srmist.edu.in/holidays.ics');
+    expect((get as jest.Mock).mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  test('refuses links to private hosts, directly or through a redirect', async () => {
+    const refused = [
+      'http://calendar.srmist.edu.in/holidays.ics',
+      'https://127.0.0.1/holidays.ics',
+      'https://[::1]/holidays.ics',
+      'https://169.254.169.254/latest/meta-data',
+      'https://intranet.example.com/holidays.ics',
+      'not a link',
+    ];
+    for (const url of refused) {
+      await expect(fetchICalendarFeed(url)).rejects.toBeInstanceOf(SettingsError);
+    }
+    expect(mockConnections).toEqual([]);
+
+    mockResponses.push({ status: 302, headers: { location: 'https://intranet.example.com/' } });
+    await expect(fetchICalendarFeed('https://calendar.srmist.edu.in/holidays.ics')).rejects.toThrow(
+      'Calendar links must point to a public website'
+    );
+    expect(mockConnections).toEqual(['203.0.113.10']);
+  });
+
+  test('connects to the address that was checked, so a host cannot switch to a private one', async () => {
+    // Public for the first lookup, private for any after it
+    const lookups = [['203.0.113.20'], ['10.0.0.5']];
+    mockHosts.set('rebind.example.com', lookups[0]);
+    (jest.requireMock('dns').lookup as jest.Mock).mockImplementationOnce((host, options, callback) => {
+      mockHosts.set(host, lookups[1]);
+      callback(null, lookups[0].map((address) => ({ address, family: 4 })));
+    });
+    mockResponses.push({ status: 200, body: ICS });
+
+    expect(await fetchICalendarFeed('https://rebind.example.com/holidays.ics')).toBe(ICS);
+    expect(jest.requireMock('dns').lookup).toHaveBeenCalledTimes(1);
+    expect(mockConnections).toEqual(['203.0.113.20']);
+  });
+
+  test('oversized feeds and network failures are reported as settings errors', async () => {
+    mockResponses.push({ status: 200, body: 'x'.repeat(MAX_FEED_BYTES + 1) });
+    await expect(fetchICalendarFeed('https://calendar.srmist.edu.in/holidays.ics')).rejects.toThrow(/larger than/);
+
+    mockResponses.push(new Error('socket hang up'));
+    await expect(fetchICalendarFeed('https://calendar.srmist.edu.in/holidays.ics')).rejects.toThrow(
+      'The calendar could not be downloaded'
+    );
+
+    jest
+      .spyOn(AbortSignal, 'timeout')
+      .mockReturnValueOnce(AbortSignal.abort(new DOMException('The operation was aborted due to timeout', 'TimeoutError')));
+    await expect(fetchICalendarFeed('https://calendar.srmist.edu.in/holidays.ics')).rejects.toThrow(/longer than/);
+
+    await expect(fetchICalendarFeed('https://unknown.example.com/holidays.ics')).rejects.toBeInstanceOf(SettingsError);
+  });
+});
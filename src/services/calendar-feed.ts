@@ -0,0 +1,182 @@
+import { lookup } from 'dns';
+import { get } from 'https';
+import type { IncomingMessage } from 'http';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { SettingsError } from '@/services/library-settings';
+
+/**
+ * Calendar Feed Service
+ * Downloads the iCalendar feed an admin links to for the holiday import.
+ * Server-only: the link is fetched from the server, so it is held to what a
+ * public calendar needs and nothing more:
+ *
+ * - https only (webcal links are read as https)
+ * - The host, and every host it redirects to, must resolve to public
+ *   addresses, never loopback, private or link-local ones. The check runs in
+ *   the lookup the connection itself uses, so the host can't resolve to a
+ *   public address for the check and a private one for the download.
+ * - The download is cut off after FEED_TIMEOUT_MS or MAX_FEED_BYTES
+ *
+ * Every failure is a SettingsError, shown to the admin.
+ */
+
+export const FEED_TIMEOUT_MS = 10 * 1000;
+export const MAX_FEED_BYTES = 2 * 1024 * 1024;
+
+const MAX_REDIRECTS = 3;
+
+// Addresses a public calendar host never has
+const PRIVATE_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+/**
+ * Download an iCalendar feed, such as the university's published calendar
+ */
+export async function fetchICalendarFeed(url: string): Promise<string> {
+  let feedUrl = parseFeedUrl(url);
+  const signal = AbortSignal.timeout(FEED_TIMEOUT_MS);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await download(feedUrl, signal);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+
+      if (status >= 300 && status < 400 && location) {
+        response.destroy();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new SettingsError('The calendar link redirects too many times');
+        }
+        feedUrl = parseFeedUrl(new URL(location, feedUrl).toString());
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.destroy();
+        throw new SettingsError(`The calendar could not be downloaded (${status})`);
+      }
+
+      return await readLimited(response);
+    }
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      throw error;
+    }
+    if (signal.aborted) {
+      throw new SettingsError(`The calendar took longer than ${FEED_TIMEOUT_MS / 1000} seconds to download`);
+    }
+    throw new SettingsError('The calendar could not be downloaded');
+  }
+}
+
+/**
+ * Whether an IP address is one a public host could have
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  // IPv4 written as IPv6 (::ffff:10.0.0.1) is judged as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+
+  return !PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Helper Functions
+
+function parseFeedUrl(url: string): URL {
+  let feedUrl: URL;
+  try {
+    feedUrl = new URL(url.trim().replace(/^webcal:/i, 'https:'));
+  } catch {
+    throw new SettingsError('The calendar link is not a valid URL');
+  }
+  if (feedUrl.protocol !== 'https:') {
+    throw new SettingsError('Calendar links must use https');
+  }
+
+  // Connections to an IP address skip the lookup, so it is checked here
+  const host = feedUrl.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw notPublic();
+  }
+  return feedUrl;
+}
+
+function notPublic(): SettingsError {
+  return new SettingsError('Calendar links must point to a public website');
+}
+
+/**
+ * Resolve a host for a connection, failing unless every address is public
+ */
+const lookupPublicHost: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+    } else if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+      callback(notPublic(), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Request the feed, resolving once the response headers arrive
+ */
+function download(feedUrl: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    get(feedUrl, { headers: { Accept: 'text/calendar' }, lookup: lookupPublicHost, signal }, resolve).on('error', reject);
+  });
+}
+
+/**
+ * Read the body as text, giving up once it passes MAX_FEED_BYTES
+ */
+async function readLimited(response: IncomingMessage): Promise<string> {
+  const tooLarge = () => new SettingsError(`The calendar is larger than ${MAX_FEED_BYTES / (1024 * 1024)} MB`);
+
+  if (Number(response.headers['content-length']) > MAX_FEED_BYTES) {
+    response.destroy();
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_FEED_BYTES) {
+      response.destroy();
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
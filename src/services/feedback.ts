@@ -1,5 +1,6 @@
 import { ref, get, set, update, push } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { recordAuditEvent } from '@/services/audit-log';
 import type { FeedbackTicket, FeedbackFilters, FeedbackResponse } from '@/types';
 
 /**
@@ -142,7 +143,7 @@ export async function addResponse(
       timestamp: new Date().toISOString(),
     };
 
-    const updatedResponses = [...ticket.responses, newResponse];
+    const updatedResponses = [...(ticket.responses || []), newResponse]; // Empty lists aren't stored
 
     await update(ticketRef, {
       responses: updatedResponses,
@@ -150,6 +151,15 @@ export async function addResponse(
       updatedAt: new Date().toISOString(),
     });
 
+    await recordAuditEvent({
+      adminId: authorId,
+      adminName: authorName,
+      action: 'respond_feedback',
+      targetId: ticketId,
+      targetType: 'feedback',
+      details: { message },
+    });
+
     // Notify user of response
     // TODO: Send notification to user about response
   } catch (error) {
@@ -181,6 +191,14 @@ export async function updateTicketStatus(
       updatedAt: new Date().toISOString(),
     });
 
+    await recordAuditEvent({
+      adminId,
+      action: 'update_feedback_status',
+      targetId: ticketId,
+      targetType: 'feedback',
+      details: { before: { status: ticket.status }, after: { status } },
+    });
+
     // Notify user of status change
     // TODO: Send notification to user about status change
   } catch (error) {
@@ -209,6 +227,13 @@ export async function assignTicket(
       status: 'in-progress',
       updatedAt: new Date().toISOString(),
     });
+
+    await recordAuditEvent({
+      adminId,
+      action: 'assign_feedback',
+      targetId: ticketId,
+      targetType: 'feedback',
+    });
   } catch (error) {
     console.error('Error assigning ticket:', error);
     throw error;
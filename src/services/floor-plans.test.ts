@@ -0,0 +1,139 @@
+import * as fc from 'fast-check';
+import type { FloorPlan, LayoutSeat } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { FloorPlanError, getFloorPlanVersions, restoreFloorPlanVersion, saveFloorPlan } from './floor-plans';
+import { getSeatLayout, resolveSeatPath, setSeatAttributes } from './seat-layout';
+import { arrangeSeatsInGrid } from '@/lib/floor-plan';
+
+const NOW = new Date('2024-03-01T10:00:00.000Z');
+
+function draftFor(seatIds: string[]): { plan: FloorPlan; seats: Record<string, LayoutSeat> } {
+  return {
+    plan: { width: 1000, height: 600, elements: {}, seats: arrangeSeatsInGrid(seatIds) },
+    seats: Object.fromEntries(
+      seatIds.map((id, index) => [id, { id, floorId: 'ground', label: `Seat ${id}`, order: index }])
+    ),
+  };
+}
+
+// Seat ids that don't collide with the default layout's other floors
+const groundSeatIdsArb = fc.uniqueArray(
+  fc.integer({ min: 1, max: 99 }).map((n) => `G${n.toString().padStart(2, '0')}`),
+  { minLength: 1, maxLength: 40 }
+);
+
+describe('Floor Plan Service', () => {
+  beforeEach(() => {
+    resetMockDatabase();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Feature: floor-plans, Property 4: Saving publishes exactly the floor's new seats
+  test('Property 4: after a save the floor has exactly the saved seats and other floors are untouched', async () => {
+    await fc.assert(
+      fc.asyncProperty(groundSeatIdsArb, async (seatIds) => {
+        resetMockDatabase();
+
+        await saveFloorPlan('ground', draftFor(seatIds), 'admin1', undefined, NOW);
+        const layout = await getSeatLayout();
+
+        const groundSeats = Object.values(layout.seats).filter((seat) => seat.floorId === 'ground');
+        expect(groundSeats.map((seat) => seat.id).sort()).toEqual([...seatIds].sort());
+        expect(Object.values(layout.seats).filter((seat) => seat.floorId === 'first')).toHaveLength(50);
+        expect(Object.keys(readPath('seats/ground')).sort()).toEqual([...seatIds].sort());
+        for (const seatId of seatIds) {
+          expect(await resolveSeatPath(seatId)).toBe(`seats/ground/${seatId}`);
+        }
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('keeps every save as a version and records it in the audit log', async () => {
+    await saveFloorPlan('ground', draftFor(['G01', 'G02']), 'admin1', ' First draft ', NOW);
+    await saveFloorPlan('ground', draftFor(['G01']), 'admin1', undefined, new Date('2024-03-02T10:00:00.000Z'));
+
+    const versions = await getFloorPlanVersions('ground');
+    expect(versions.map((version) => Object.keys(version.seats))).toEqual([['G01'], ['G01', 'G02']]);
+    expect(versions[1].note).toBe('First draft');
+    expect((await getSeatLayout()).plans.ground.versionId).toBe(versions[0].id);
+    expect(readPath('seats/ground/G02')).toBeUndefined();
+
+    const logs = Object.values(readPath('auditLogs')) as any[];
+    expect(logs).toHaveLength(2);
+    expect(logs[0]).toMatchObject({ action: 'save_floor_plan', targetType: 'layout', targetId: 'ground' });
+  });
+
+  test('admins saving different floors at the same time keep each other\'s changes', async () => {
+    await Promise.all([
+      saveFloorPlan('ground', draftFor(['G01', 'G02']), 'admin1', undefined, NOW),
+      saveFloorPlan('first', draftFor(['F01']), 'admin2', undefined, NOW),
+    ]);
+
+    const layout = await getSeatLayout();
+    const floorSeats = (floorId: string) =>
+      Object.values(layout.seats)
+        .filter((seat) => seat.floorId === floorId)
+        .map((seat) => seat.id)
+        .sort();
+    expect(floorSeats('ground')).toEqual(['G01', 'G02']);
+    expect(floorSeats('first')).toEqual(['F01']);
+    expect(Object.keys(layout.plans).sort()).toEqual(['first', 'ground']);
+  });
+
+  test('seats kept on the floor keep the attributes set on the seats page', async () => {
+    await saveFloorPlan('ground', draftFor(['G01', 'G02']), 'admin1', undefined, NOW);
+    await setSeatAttributes('G01', ['power', 'window']);
+
+    await saveFloorPlan('ground', draftFor(['G01', 'G02', 'G03']), 'admin1', undefined, NOW);
+
+    const layout = await getSeatLayout();
+    expect(layout.seats.G01.attributes).toEqual(['power', 'window']);
+    expect(layout.seats.G03.attributes).toBeUndefined();
+  });
+
+  test('restores an earlier version as a new save', async () => {
+    const first = await saveFloorPlan('ground', draftFor(['G01', 'G02']), 'admin1', undefined, NOW);
+    await saveFloorPlan('ground', draftFor(['G03']), 'admin1', undefined, NOW);
+
+    const restored = await restoreFloorPlanVersion('ground', first.id, 'admin2', NOW);
+    const layout = await getSeatLayout();
+
+    expect(restored.id).not.toBe(first.id);
+    expect(Object.keys(restored.seats)).toEqual(['G01', 'G02']);
+    expect(layout.plans.ground.versionId).toBe(restored.id);
+    expect(Object.keys(layout.seats).filter((id) => id.startsWith('G')).sort()).toEqual(['G01', 'G02']);
+    await expect(restoreFloorPlanVersion('ground', 'missing', 'admin1')).rejects.toThrow(FloorPlanError);
+  });
+
+  test('rejects invalid plans and removing seats that have bookings', async () => {
+    const overlapping = draftFor(['G01', 'G02']);
+    overlapping.plan.seats.G02 = { ...overlapping.plan.seats.G01 };
+    await expect(saveFloorPlan('ground', overlapping, 'admin1')).rejects.toThrow(FloorPlanError);
+
+    await expect(saveFloorPlan('ground', draftFor(['F01']), 'admin1')).rejects.toThrow(FloorPlanError);
+    await expect(saveFloorPlan('basement', draftFor(['G01']), 'admin1')).rejects.toThrow('Floor basement not found');
+
+    writePath('seats/ground/G05', { id: 'G05', status: 'occupied', bookingId: 'b1' });
+    await expect(saveFloorPlan('ground', draftFor(['G01']), 'admin1')).rejects.toThrow(
+      'Seats G05 have bookings and cannot be removed'
+    );
+
+    expect(readPath('floorPlans')).toBeUndefined();
+    expect(readPath('layout')).toBeUndefined();
+  });
+});
@@ -0,0 +1,249 @@
+import { ref, get, set, push, update, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { validateFloorPlan } from '@/lib/floor-plan';
+import { getFloorSeats, getSeatStatePath, normalizeLayout } from '@/lib/seat-layout';
+import { recordAuditEvent } from '@/services/audit-log';
+import { getSeatLayout, syncSeatStates } from '@/services/seat-layout';
+import type { FloorPlan, FloorPlanVersion, LayoutSeat, Seat, SeatLayout } from '@/types';
+
+/**
+ * Floor Plan Service
+ * Saves the admin floor-plan editor's work. Every save is kept as a version
+ * under floorPlans/{floorId} and published to the layout, so the seat map and
+ * seat path resolution pick it up straight away.
+ */
+
+/**
+ * Thrown when a floor plan cannot be saved; the message is shown to the admin
+ */
+export class FloorPlanError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'FloorPlanError';
+    this.problems = problems;
+  }
+}
+
+export interface FloorPlanDraft {
+  plan: FloorPlan;
+  seats: Record<string, LayoutSeat>; // The floor's seats, keyed by seat ID
+}
+
+/**
+ * Get the saved versions of a floor's plan, newest first
+ */
+export async function getFloorPlanVersions(floorId: string): Promise<FloorPlanVersion[]> {
+  try {
+    const snapshot = await get(ref(db, `floorPlans/${floorId}`));
+
+    if (!snapshot.exists()) {
+      return [];
+    }
+
+    const versions = Object.values(snapshot.val() as Record<string, FloorPlanVersion>);
+    return versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  } catch (error) {
+    console.error('Error fetching floor plan versions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save a floor plan as a new version and publish it. Seats removed from the
+ * floor lose their live state; seats that are held or reserved cannot be
+ * removed.
+ */
+export async function saveFloorPlan(
+  floorId: string,
+  draft: FloorPlanDraft,
+  adminId: string,
+  note?: string,
+  now: Date = new Date()
+): Promise<FloorPlanVersion> {
+  try {
+    const layout = await getSeatLayout();
+
+    if (!layout.floors[floorId]) {
+      throw new FloorPlanError(`Floor ${floorId} not found`);
+    }
+
+    const seats = withFloor(draft.seats, floorId);
+    const otherFloorSeatIds = new Set(
+      Object.values(layout.seats)
+        .filter((seat) => seat.floorId !== floorId)
+        .map((seat) => seat.id)
+    );
+    const problems = validateFloorPlan(draft.plan, seats, otherFloorSeatIds);
+
+    if (problems.length > 0) {
+      throw new FloorPlanError('The floor plan has problems that must be fixed before saving', problems);
+    }
+
+    const previousSeats = getFloorSeats(layout, floorId);
+    const removed = previousSeats.filter((seat) => !seats[seat.id]);
+    await assertSeatsFree(floorId, removed);
+
+    const versionRef = push(ref(db, `floorPlans/${floorId}`));
+    const createdAt = now.toISOString();
+    const plan: FloorPlan = {
+      width: draft.plan.width,
+      height: draft.plan.height,
+      elements: draft.plan.elements || {},
+      seats: draft.plan.seats,
+      versionId: versionRef.key!,
+      updatedBy: adminId,
+      updatedAt: createdAt,
+    };
+    const version: FloorPlanVersion = {
+      id: versionRef.key!,
+      floorId,
+      plan,
+      seats,
+      createdBy: adminId,
+      createdAt,
+      ...(note?.trim() ? { note: note.trim() } : {}),
+    };
+
+    await set(versionRef, version);
+    await publishFloor(floorId, plan, seats, removed);
+
+    await recordAuditEvent(
+      {
+        adminId,
+        action: 'save_floor_plan',
+        targetId: floorId,
+        targetType: 'layout',
+        reason: version.note,
+        details: {
+          versionId: version.id,
+          before: { seats: previousSeats.map((seat) => seat.id).sort() },
+          after: { seats: Object.keys(seats).sort() },
+        },
+      },
+      now
+    );
+
+    return version;
+  } catch (error) {
+    console.error('Error saving floor plan:', error);
+    throw error;
+  }
+}
+
+/**
+ * Publish an earlier version of a floor's plan. The restore is itself saved
+ * as a new version, so it can be undone the same way.
+ */
+export async function restoreFloorPlanVersion(
+  floorId: string,
+  versionId: string,
+  adminId: string,
+  now: Date = new Date()
+): Promise<FloorPlanVersion> {
+  const snapshot = await get(ref(db, `floorPlans/${floorId}/${versionId}`));
+
+  if (!snapshot.exists()) {
+    throw new FloorPlanError(`Version ${versionId} not found`);
+  }
+
+  const version = snapshot.val() as FloorPlanVersion;
+  const plan: FloorPlan = {
+    ...version.plan,
+    elements: version.plan.elements || {},
+    seats: version.plan.seats || {},
+  };
+
+  return saveFloorPlan(
+    floorId,
+    { plan, seats: version.seats || {} },
+    adminId,
+    `Restored version from ${version.createdAt}`,
+    now
+  );
+}
+
+// Helper Functions
+
+/**
+ * Pin every draft seat to the floor being saved
+ */
+function withFloor(seats: Record<string, LayoutSeat> | undefined, floorId: string): Record<string, LayoutSeat> {
+  return Object.fromEntries(
+    Object.values(seats || {}).map((seat) => [seat.id, { ...seat, floorId }])
+  );
+}
+
+/**
+ * Reject the save if any seat being removed is in use or has reservations
+ */
+async function assertSeatsFree(floorId: string, seats: LayoutSeat[]): Promise<void> {
+  const busy: string[] = [];
+
+  for (const seat of seats) {
+    const snapshot = await get(ref(db, getSeatStatePath(floorId, seat.id)));
+    const state = snapshot.exists() ? (snapshot.val() as Seat) : null;
+
+    if (state && (state.bookingId || state.status === 'occupied' || state.status === 'reserved' || state.reservations)) {
+      busy.push(seat.id);
+    }
+  }
+
+  if (busy.length > 0) {
+    throw new FloorPlanError(
+      `Seats ${busy.join(', ')} have bookings and cannot be removed`,
+      busy.map((seatId) => `Seat ${seatId} has bookings`)
+    );
+  }
+}
+
+/**
+ * Replace the floor's seats and plan in the layout, then bring the live seat
+ * state in line with it. The layout is rewritten in a transaction, so admins
+ * publishing different floors at once keep each other's changes.
+ */
+async function publishFloor(
+  floorId: string,
+  plan: FloorPlan,
+  seats: Record<string, LayoutSeat>,
+  removed: LayoutSeat[]
+): Promise<void> {
+  const result = await runTransaction(ref(db, 'layout'), (current: Partial<SeatLayout> | null) => {
+    const layout = normalizeLayout(current);
+
+    // Another floor may have taken one of the seat IDs since the plan was checked
+    if (Object.values(seats).some((seat) => layout.seats[seat.id] && layout.seats[seat.id].floorId !== floorId)) {
+      return;
+    }
+
+    const otherSeats = Object.values(layout.seats).filter((seat) => seat.floorId !== floorId);
+    // Attributes are edited on the seats page, so seats kept on the floor keep theirs
+    const floorSeats = Object.values(seats).map((seat) => ({
+      ...seat,
+      attributes: layout.seats[seat.id]?.attributes ?? seat.attributes,
+    }));
+    const next: SeatLayout = {
+      ...layout,
+      seats: Object.fromEntries([...otherSeats, ...floorSeats].map((seat) => [seat.id, seat])),
+      plans: { ...layout.plans, [floorId]: plan },
+    };
+
+    // The database rejects undefined values
+    return JSON.parse(JSON.stringify(next));
+  });
+
+  if (!result.committed) {
+    throw new FloorPlanError('Another floor now uses some of these seat IDs; reload the layout and try again');
+  }
+
+  if (removed.length > 0) {
+    const updates: Record<string, null> = {};
+    removed.forEach((seat) => {
+      updates[`${floorId}/${seat.id}`] = null;
+    });
+    await update(ref(db, 'seats'), updates);
+  }
+
+  await syncSeatStates(normalizeLayout(result.snapshot.val()));
+}
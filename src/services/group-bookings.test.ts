@@ -0,0 +1,191 @@
+import * as fc from 'fast-check';
+import type { Booking, GroupBookingRequest, LibrarySettings, SeatReservation } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { mockTree, readPath, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { cancelGroupBooking, createGroupBooking, getGroupBlocks, respondToGroupInvite } from './group-bookings';
+import { getGroupHoldId } from '@/lib/group-booking';
+import { __test__ as settingsTest } from './library-settings';
+
+// A Monday at 10:00 local time
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+
+const settings: LibrarySettings = {
+  operatingHours: {
+    monday: { open: '08:00', close: '22:00', isClosed: false },
+    tuesday: { open: '08:00', close: '22:00', isClosed: false },
+    wednesday: { open: '08:00', close: '22:00', isClosed: false },
+    thursday: { open: '08:00', close: '22:00', isClosed: false },
+    friday: { open: '08:00', close: '22:00', isClosed: false },
+    saturday: { open: '09:00', close: '18:00', isClosed: false },
+    sunday: { open: '09:00', close: '18:00', isClosed: false },
+  },
+  holidays: [],
+  bookingRules: {
+    maxDailyDuration: 480,
+    maxAdvanceBookingDays: 7,
+    minBookingDuration: 30,
+    maxBookingDuration: 240,
+    extensionIncrement: 30,
+  },
+  updatedBy: 'system',
+  updatedAt: NOW.toISOString(),
+};
+
+// Seats next to each other on the default ground floor plan
+const SEATS = ['G01', 'G02', 'G03', 'G04'];
+
+function resetTree() {
+  mockTree.root = { settings: { library: JSON.parse(JSON.stringify(settings)) } };
+  settingsTest.clear();
+  ['G01', 'G02', 'G03', 'G04', 'G10'].forEach(seedSeat);
+}
+
+function seedSeat(seatId: string) {
+  writePath(`seats/ground/${seatId}`, {
+    id: seatId,
+    status: 'available',
+    bookedBy: null,
+    bookedAt: null,
+    bookingId: null,
+    occupiedUntil: null,
+  });
+}
+
+const email = (name: string) => `${name}@srmist.edu.in`;
+
+// Today 14:00-16:00
+function groupRequest(overrides: Partial<GroupBookingRequest> = {}): GroupBookingRequest {
+  return {
+    organiserId: 'lead',
+    organiserName: 'Lead',
+    organiserEmail: email('lead'),
+    floorId: 'ground',
+    seatIds: SEATS,
+    startTime: new Date(2024, 0, 8, 14, 0).toISOString(),
+    endTime: new Date(2024, 0, 8, 16, 0).toISOString(),
+    memberEmails: [email('ana'), email('ben'), email('cai')],
+    ...overrides,
+  };
+}
+
+function reservationsOf(seatId: string): Record<string, SeatReservation> {
+  return readPath(`seats/ground/${seatId}/reservations`) || {};
+}
+
+function bookingsOf(userId: string): Booking[] {
+  return Object.values(readPath(`bookings/${userId}`) || {});
+}
+
+describe('Group Bookings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetTree();
+  });
+
+  // Feature: group-bookings, Property 3: A group holds exactly one seat per member
+  test('Property 3: creating a group books the organiser and holds a seat for every invitee', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 2, max: 3 }), async (invitees) => {
+        resetTree();
+        const seatIds = SEATS.slice(0, invitees + 1);
+        const memberEmails = ['ana', 'ben', 'cai'].slice(0, invitees).map(email);
+
+        const result = await createGroupBooking(groupRequest({ seatIds, memberEmails }), NOW);
+
+        expect(result.success).toBe(true);
+        const group = result.group!;
+        expect(group.members.map((member) => member.status)).toEqual([
+          'accepted',
+          ...memberEmails.map(() => 'invited'),
+        ]);
+        expect(bookingsOf('lead')).toEqual([expect.objectContaining({ seatId: 'G01', groupId: group.id })]);
+        seatIds.slice(1).forEach((seatId) => {
+          expect(Object.keys(reservationsOf(seatId))).toEqual([getGroupHoldId(group.id, seatId)]);
+        });
+        expect(readPath(`groupBookings/${group.id}`)).toBeDefined();
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('rejects seats that are not next to each other', async () => {
+    const result = await createGroupBooking(groupRequest({ seatIds: ['G01', 'G02', 'G03', 'G10'] }), NOW);
+
+    expect(result).toEqual({ success: false, message: 'Seats must be next to each other' });
+    expect(bookingsOf('lead')).toEqual([]);
+  });
+
+  test('releases the holds when a seat is already taken', async () => {
+    writePath('seats/ground/G03/reservations/other', {
+      bookingId: 'other',
+      userId: 'someone',
+      startTime: new Date(2024, 0, 8, 15, 0).toISOString(),
+      endTime: new Date(2024, 0, 8, 17, 0).toISOString(),
+    });
+
+    const result = await createGroupBooking(groupRequest(), NOW);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/G03 is already booked/);
+    expect(reservationsOf('G02')).toEqual({});
+    expect(Object.keys(reservationsOf('G03'))).toEqual(['other']);
+  });
+
+  test('an invitee who accepts books the seat held for them', async () => {
+    const { group } = await createGroupBooking(groupRequest(), NOW);
+
+    const result = await respondToGroupInvite('ana-id', 'Ana', email('ana'), group!.id, true, NOW);
+
+    expect(result.success).toBe(true);
+    const [booking] = bookingsOf('ana-id');
+    expect(booking).toMatchObject({ seatId: 'G02', groupId: group!.id, status: 'pending' });
+    expect(Object.keys(reservationsOf('G02'))).toEqual([booking.id]);
+    expect(result.group!.members[1]).toMatchObject({ status: 'accepted', userId: 'ana-id', bookingId: booking.id });
+
+    // The same invitation can't be used twice
+    expect((await respondToGroupInvite('ana-id', 'Ana', email('ana'), group!.id, true, NOW)).success).toBe(false);
+  });
+
+  test('declining frees the seat and drops it from the group block', async () => {
+    const { group } = await createGroupBooking(groupRequest(), NOW);
+
+    const result = await respondToGroupInvite('ben-id', 'Ben', email('ben'), group!.id, false, NOW);
+
+    expect(result.group!.members[2].status).toBe('declined');
+    expect(reservationsOf('G03')).toEqual({});
+    expect(bookingsOf('ben-id')).toEqual([]);
+    expect((await getGroupBlocks(NOW))[0].seatIds).toEqual(['G01', 'G02', 'G04']);
+  });
+
+  test('only the organiser can cancel, which cancels bookings and releases holds', async () => {
+    const { group } = await createGroupBooking(groupRequest(), NOW);
+    await respondToGroupInvite('ana-id', 'Ana', email('ana'), group!.id, true, NOW);
+
+    expect((await cancelGroupBooking('ana-id', group!.id, NOW)).success).toBe(false);
+
+    const result = await cancelGroupBooking('lead', group!.id, NOW);
+
+    expect(result.group!.status).toBe('cancelled');
+    expect(result.group!.members.map((member) => member.status)).toEqual([
+      'accepted',
+      'accepted',
+      'cancelled',
+      'cancelled',
+    ]);
+    expect([...bookingsOf('lead'), ...bookingsOf('ana-id')].map((booking) => booking.status)).toEqual([
+      'cancelled',
+      'cancelled',
+    ]);
+    SEATS.forEach((seatId) => expect(reservationsOf(seatId)).toEqual({}));
+    expect(await getGroupBlocks(NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,457 @@
+import { ref, get, set, push, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { areSeatsAdjacent, getFloorPlan, getRoomSeatIds } from '@/lib/floor-plan';
+import {
+  findGroupMember,
+  getGroupHoldExpiry,
+  getGroupHoldId,
+  isSeatedMember,
+  normalizeEmail,
+  validateGroupMembers,
+} from '@/lib/group-booking';
+import { findTimelineConflict } from '@/lib/seat-timeline';
+import { cancelUserBooking, createBooking, releaseFromSeat } from '@/services/booking-engine';
+import { getSeatLayout, resolveSeatPath } from '@/services/seat-layout';
+import type {
+  Booking,
+  GroupBlock,
+  GroupBooking,
+  GroupBookingRequest,
+  GroupBookingResult,
+  GroupMember,
+  Seat,
+} from '@/types';
+
+/**
+ * Group Booking Service
+ * Books a block of adjacent seats or a study room for a group. The organiser
+ * gets a booking straight away; invitees' seats are held under the group
+ * until each member accepts (and books their own seat) or declines. Holds
+ * still unclaimed when the invitation lapses (see getGroupHoldExpiry) are
+ * released by the sweeper, so a few missing members don't cost the rest of
+ * the group their seats.
+ */
+
+/**
+ * Create a group booking and invite its members
+ */
+export async function createGroupBooking(
+  request: GroupBookingRequest,
+  now: Date = new Date()
+): Promise<GroupBookingResult> {
+  try {
+    const memberEmails = request.memberEmails.map(normalizeEmail);
+    const memberProblem = validateGroupMembers(request.organiserEmail, memberEmails);
+    if (memberProblem) {
+      return { success: false, message: memberProblem };
+    }
+
+    const startTime = request.startTime ? new Date(request.startTime) : now;
+    const endTime = new Date(request.endTime);
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime()) || endTime <= startTime) {
+      return { success: false, message: 'Invalid start or end time' };
+    }
+
+    const layout = await getSeatLayout();
+    if (!layout.floors[request.floorId]) {
+      return { success: false, message: `Floor ${request.floorId} not found` };
+    }
+
+    const plan = getFloorPlan(layout, request.floorId);
+    const size = memberEmails.length + 1;
+    let seatIds: string[];
+    let roomName: string | undefined;
+
+    if (request.roomId) {
+      const room = plan.elements[request.roomId];
+      if (!room || room.type !== 'room') {
+        return { success: false, message: 'Study room not found' };
+      }
+      seatIds = getRoomSeatIds(plan, room);
+      roomName = room.label || 'Study room';
+      if (seatIds.length < size) {
+        return { success: false, message: `${roomName} only has ${seatIds.length} seats` };
+      }
+    } else {
+      seatIds = request.seatIds || [];
+      if (seatIds.length !== size || new Set(seatIds).size !== size) {
+        return { success: false, message: `Choose ${size} seats, one for each member` };
+      }
+      if (seatIds.some((seatId) => layout.seats[seatId]?.floorId !== request.floorId)) {
+        return { success: false, message: 'All seats must be on the chosen floor' };
+      }
+      if (!areSeatsAdjacent(plan, seatIds)) {
+        return { success: false, message: 'Seats must be next to each other' };
+      }
+    }
+
+    const groupId = push(ref(db, 'groupBookings')).key!;
+    const [organiserSeatId, ...otherSeatIds] = seatIds;
+
+    // Hold every other seat for the group before booking the organiser's
+    const held: string[] = [];
+    for (const seatId of otherSeatIds) {
+      const rejection = await holdSeat(groupId, seatId, request.organiserId, startTime, endTime, now);
+      if (rejection) {
+        await releaseHolds(groupId, held);
+        return { success: false, message: rejection };
+      }
+      held.push(seatId);
+    }
+
+    const organiserBooking = await createBooking(
+      {
+        seatId: organiserSeatId,
+        userId: request.organiserId,
+        userName: request.organiserName,
+        userEmail: request.organiserEmail,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        groupId,
+      },
+      now
+    );
+
+    if (!organiserBooking.success) {
+      await releaseHolds(groupId, held);
+      return { success: false, message: organiserBooking.message };
+    }
+
+    const nowISO = now.toISOString();
+    const members: GroupMember[] = [
+      {
+        email: normalizeEmail(request.organiserEmail),
+        seatId: organiserSeatId,
+        status: 'accepted',
+        userId: request.organiserId,
+        userName: request.organiserName,
+        bookingId: organiserBooking.booking!.id,
+        respondedAt: nowISO,
+      },
+      ...memberEmails.map((email, index): GroupMember => ({
+        email,
+        seatId: otherSeatIds[index],
+        status: 'invited',
+      })),
+    ];
+
+    const group: GroupBooking = {
+      id: groupId,
+      organiserId: request.organiserId,
+      organiserName: request.organiserName,
+      floorId: request.floorId,
+      ...(request.roomId ? { roomId: request.roomId, roomName } : {}),
+      seatIds,
+      startTime: organiserBooking.booking!.startTime,
+      endTime: organiserBooking.booking!.endTime,
+      members,
+      status: 'active',
+      createdAt: nowISO,
+      updatedAt: nowISO,
+    };
+
+    await set(ref(db, `groupBookings/${groupId}`), group);
+
+    return { success: true, group };
+  } catch (error) {
+    console.error('Error creating group booking:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accept or decline an invitation. Accepting books the seat held for the
+ * member, subject to the usual booking rules.
+ */
+export async function respondToGroupInvite(
+  userId: string,
+  userName: string,
+  email: string,
+  groupId: string,
+  accept: boolean,
+  now: Date = new Date()
+): Promise<GroupBookingResult> {
+  try {
+    const group = await getGroup(groupId);
+    const member = group && findGroupMember(group, email);
+
+    if (!group || !member || member.status !== 'invited') {
+      return { success: false, message: 'Invitation not found' };
+    }
+    if (group.status === 'cancelled') {
+      return { success: false, message: 'This group booking was cancelled' };
+    }
+
+    if (!accept) {
+      await releaseHolds(groupId, [member.seatId]);
+      const updated = await updateMember(
+        groupId,
+        member.email,
+        { status: 'declined', userId, userName, respondedAt: now.toISOString() },
+        now
+      );
+      return { success: true, group: updated || undefined };
+    }
+
+    if (new Date(group.endTime) <= now) {
+      return { success: false, message: 'This group booking has ended' };
+    }
+
+    const booking = await createBooking(
+      {
+        seatId: member.seatId,
+        userId,
+        userName,
+        userEmail: email,
+        startTime: group.startTime,
+        endTime: group.endTime,
+        groupId,
+      },
+      now
+    );
+
+    if (!booking.success) {
+      return { success: false, message: booking.message };
+    }
+
+    const updated = await updateMember(
+      groupId,
+      member.email,
+      { status: 'accepted', userId, userName, bookingId: booking.booking!.id, respondedAt: now.toISOString() },
+      now
+    );
+
+    return { success: true, group: updated || undefined };
+  } catch (error) {
+    console.error('Error responding to group invitation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel a whole group booking. Only the organiser may do this; members'
+ * bookings that haven't been checked in are cancelled with it.
+ */
+export async function cancelGroupBooking(
+  organiserId: string,
+  groupId: string,
+  now: Date = new Date()
+): Promise<GroupBookingResult> {
+  try {
+    const group = await getGroup(groupId);
+
+    if (!group || group.organiserId !== organiserId || group.status === 'cancelled') {
+      return { success: false, message: 'Group booking not found' };
+    }
+
+    for (const member of group.members) {
+      if (member.status === 'accepted' && member.userId && member.bookingId) {
+        const snapshot = await get(ref(db, `bookings/${member.userId}/${member.bookingId}`));
+        if (snapshot.exists() && (snapshot.val() as Booking).status === 'pending') {
+          await cancelUserBooking(member.userId, member.bookingId, now);
+        }
+      }
+    }
+
+    await releaseHolds(groupId, group.seatIds);
+
+    const members = group.members.map((member) =>
+      member.status === 'invited' ? { ...member, status: 'cancelled' as const } : member
+    );
+    const cancelled: GroupBooking = { ...group, members, status: 'cancelled', updatedAt: now.toISOString() };
+    await set(ref(db, `groupBookings/${groupId}`), cancelled);
+
+    return { success: true, group: cancelled };
+  } catch (error) {
+    console.error('Error cancelling group booking:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the groups a user organised or was invited to, newest first, with each
+ * member's booking status filled in
+ */
+export async function getUserGroupBookings(userId: string, email: string): Promise<GroupBooking[]> {
+  try {
+    const groups = (await getAllGroups()).filter(
+      (group) => group.organiserId === userId || !!findGroupMember(group, email)
+    );
+
+    for (const group of groups) {
+      group.members = await Promise.all(group.members.map(withBookingStatus));
+    }
+
+    return groups.sort((a, b) => b.startTime.localeCompare(a.startTime));
+  } catch (error) {
+    console.error('Error fetching group bookings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Where active groups sit, for drawing on the seat map. Only groups that
+ * haven't ended are included, and only their seated members' seats.
+ */
+export async function getGroupBlocks(now: Date = new Date()): Promise<GroupBlock[]> {
+  try {
+    return (await getAllGroups())
+      .filter((group) => group.status === 'active' && new Date(group.endTime) > now)
+      .map((group) => ({
+        groupId: group.id,
+        floorId: group.floorId,
+        seatIds: group.members.filter(isSeatedMember).map((member) => member.seatId),
+        label: group.roomName || `${group.organiserName}'s group`,
+        startTime: group.startTime,
+        endTime: group.endTime,
+      }))
+      .filter((block) => block.seatIds.length > 0);
+  } catch (error) {
+    console.error('Error fetching group blocks:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record that a held seat was released unclaimed when the invitation lapsed.
+ * Called by the sweeper; failures are logged, not thrown.
+ */
+export async function expireGroupHold(groupId: string, seatId: string, now: Date = new Date()): Promise<void> {
+  try {
+    await runTransaction(ref(db, `groupBookings/${groupId}`), (group: GroupBooking | null) => {
+      if (group === null) {
+        return null;
+      }
+      const index = (group.members || []).findIndex(
+        (member) => member.seatId === seatId && member.status === 'invited'
+      );
+      if (index === -1) {
+        return;
+      }
+      const members = [...group.members];
+      members[index] = { ...members[index], status: 'expired' };
+      return { ...group, members, updatedAt: now.toISOString() };
+    });
+  } catch (error) {
+    console.error('Error expiring group hold:', error);
+  }
+}
+
+// Helper Functions
+
+async function getGroup(groupId: string): Promise<GroupBooking | null> {
+  const snapshot = await get(ref(db, `groupBookings/${groupId}`));
+  return snapshot.exists() ? toGroup(groupId, snapshot.val()) : null;
+}
+
+async function getAllGroups(): Promise<GroupBooking[]> {
+  const snapshot = await get(ref(db, 'groupBookings'));
+
+  if (!snapshot.exists()) {
+    return [];
+  }
+
+  return Object.entries(snapshot.val() as Record<string, GroupBooking>).map(([id, group]) => toGroup(id, group));
+}
+
+function toGroup(id: string, group: GroupBooking): GroupBooking {
+  return { ...group, id, seatIds: group.seatIds || [], members: group.members || [] };
+}
+
+/**
+ * Hold a seat on its timeline for the group; returns why it couldn't be held
+ */
+async function holdSeat(
+  groupId: string,
+  seatId: string,
+  organiserId: string,
+  startTime: Date,
+  endTime: Date,
+  now: Date
+): Promise<string | null> {
+  const seatPath = await resolveSeatPath(seatId);
+  if (!seatPath) {
+    return `Seat ${seatId} not found`;
+  }
+
+  const holdId = getGroupHoldId(groupId, seatId);
+  let rejection = `Seat ${seatId} not found`;
+
+  const result = await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    if (seat.status === 'maintenance' || seat.status === 'out-of-service') {
+      rejection = `Seat ${seatId} is under maintenance`;
+      return;
+    }
+    if (findTimelineConflict(seat, startTime, endTime, now)) {
+      rejection = `Seat ${seatId} is already booked at that time`;
+      return;
+    }
+    return {
+      ...seat,
+      reservations: {
+        ...(seat.reservations || {}),
+        [holdId]: {
+          bookingId: holdId,
+          userId: organiserId,
+          startTime: startTime.toISOString(),
+          endTime: endTime.toISOString(),
+          groupId,
+          expiresAt: getGroupHoldExpiry(startTime, endTime, now).toISOString(),
+        },
+      },
+    };
+  });
+
+  const claimed = result.snapshot.val() as Seat | null;
+  return result.committed && claimed?.reservations?.[holdId] ? null : rejection;
+}
+
+/**
+ * Release the group's holds on these seats, where they're still held
+ */
+async function releaseHolds(groupId: string, seatIds: string[]): Promise<void> {
+  for (const seatId of seatIds) {
+    const seatPath = await resolveSeatPath(seatId);
+    if (!seatPath) {
+      continue;
+    }
+
+    await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+      if (seat === null) {
+        return null;
+      }
+      return releaseFromSeat(seat, getGroupHoldId(groupId, seatId));
+    });
+  }
+}
+
+async function updateMember(
+  groupId: string,
+  email: string,
+  changes: Partial<GroupMember>,
+  now: Date
+): Promise<GroupBooking | null> {
+  const result = await runTransaction(ref(db, `groupBookings/${groupId}`), (group: GroupBooking | null) => {
+    if (group === null) {
+      return null;
+    }
+    const members = (group.members || []).map((member) =>
+      member.email === email ? { ...member, ...changes } : member
+    );
+    return { ...group, members, updatedAt: now.toISOString() };
+  });
+
+  return result.snapshot.exists() ? toGroup(groupId, result.snapshot.val()) : null;
+}
+
+async function withBookingStatus(member: GroupMember): Promise<GroupMember> {
+  if (!member.userId || !member.bookingId) {
+    return member;
+  }
+
+  const snapshot = await get(ref(db, `bookings/${member.userId}/${member.bookingId}`));
+  return snapshot.exists() ? { ...member, bookingStatus: (snapshot.val() as Booking).status } : member;
+}
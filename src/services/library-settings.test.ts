@@ -1,6 +1,25 @@
 import * as fc from 'fast-check';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { mockTree, resetMockDatabase } from '@/test-utils/mock-database';
+
 import {
+  applyScheduledSettings,
+  cancelScheduledSettings,
   getLibrarySettings,
+  getLibrarySettingsVersions,
+  importHolidays,
+  previewHolidayImport,
+  restoreLibrarySettingsVersion,
+  scheduleLibrarySettings,
+  SettingsError,
+  updateLibrarySettings,
   updateOperatingHours,
   addHoliday,
   isWithinOperatingHours,
@@ -66,6 +85,7 @@ const bookingArb = fc.record({
 
 describe('Library Settings Service - Property-Based Tests', () => {
   beforeEach(() => {
+    resetMockDatabase();
     __test__.clear();
   });
 
@@ -113,8 +133,10 @@ describe('Library Settings Service - Property-Based Tests', () => {
         fc.array(bookingArb, { minLength: 1, maxLength: 10 }),
         fc.uuid(),
         async (settings, bookings, adminId) => {
+          mockTree.root = {
+            bookings: Object.fromEntries(bookings.map((booking) => [booking.userId, { [booking.id]: booking }])),
+          };
           __test__.setSettings(settings);
-          __test__.setBookings(bookings);
           
           // Create new operating hours that close earlier
           const newHours: OperatingHours = {
@@ -287,3 +309,238 @@ describe('Library Settings Service - Property-Based Tests', () => {
     );
   });
 });
+
+describe('Library Settings Persistence', () => {
+  const values = () => ({
+    operatingHours: {
+      monday: { open: '09:00', close: '18:00', isClosed: false },
+      tuesday: { open: '09:00', close: '18:00', isClosed: false },
+      wednesday: { open: '09:00', close: '18:00', isClosed: false },
+      thursday: { open: '09:00', close: '18:00', isClosed: false },
+      friday: { open: '09:00', close: '18:00', isClosed: false },
+      saturday: { open: '10:00', close: '16:00', isClosed: false },
+      sunday: { open: '00:00', close: '00:00', isClosed: true },
+    },
+    holidays: [
+      { date: '2024-12-25', name: 'Christmas Day' },
+      { date: '2024-01-01', name: "New Year's Day" },
+    ],
+    bookingRules: {
+      maxDailyDuration: 480,
+      maxAdvanceBookingDays: 7,
+      minBookingDuration: 30,
+      maxBookingDuration: 240,
+      extensionIncrement: 30,
+      maxBreakDuration: 20,
+    },
+  });
+
+  beforeEach(() => {
+    resetMockDatabase();
+    __test__.clear();
+  });
+
+  test('saved settings are stored in the database and read back from it', async () => {
+    const now = new Date('2024-03-01T09:00:00Z');
+    const { settings } = await updateLibrarySettings(values(), 'admin1', undefined, now);
+
+    expect(mockTree.root.settings.library).toEqual({
+      ...values(),
+      holidays: [values().holidays[1], values().holidays[0]],
+      versionId: settings.versionId,
+      updatedBy: 'admin1',
+      updatedAt: now.toISOString(),
+    });
+    expect(settings.updatedBy).toBe('admin1');
+
+    // Another server instance reads what was saved, not its own copy
+    __test__.setSettings(null);
+    expect((await getLibrarySettings())?.bookingRules.maxBreakDuration).toBe(20);
+    expect(Object.values(mockTree.root.auditLogs).map((log: any) => log.action)).toEqual(['update_settings']);
+  });
+
+  test('invalid settings are refused with every problem and nothing is saved', async () => {
+    const invalid = values();
+    invalid.operatingHours.monday = { open: '18:00', close: '09:00', isClosed: false };
+    invalid.bookingRules.minBookingDuration = 300;
+
+    const attempt = updateLibrarySettings(invalid, 'admin1');
+
+    await expect(attempt).rejects.toBeInstanceOf(SettingsError);
+    await expect(attempt).rejects.toMatchObject({
+      problems: ['Monday must close after it opens', 'Maximum booking length cannot be shorter than the minimum'],
+    });
+    expect(mockTree.root.settings).toBeUndefined();
+  });
+
+  test('changing opening hours reports the open bookings now outside them', async () => {
+    await updateLibrarySettings(values(), 'admin1');
+    const monday9pm = new Date(2024, 0, 8, 21, 0).toISOString();
+    mockTree.root.bookings = {
+      user1: {
+        b1: { id: 'b1', status: 'pending', startTime: monday9pm },
+        b2: { id: 'b2', status: 'cancelled', startTime: monday9pm },
+      },
+    };
+
+    const unchanged = await updateLibrarySettings(values(), 'admin1');
+    expect(unchanged.affectedBookings).toEqual([]);
+
+    const shorter = values();
+    shorter.operatingHours.monday = { open: '09:00', close: '20:00', isClosed: false };
+    expect((await updateLibrarySettings(shorter, 'admin1')).affectedBookings).toEqual(['b1']);
+  });
+
+  test('every change is kept as a version with its author and reason', async () => {
+    const first = await updateLibrarySettings(values(), 'admin1', 'Spring timetable');
+    const shorter = values();
+    shorter.bookingRules.maxBookingDuration = 120;
+    const second = await updateLibrarySettings(shorter, 'admin2', '  Exam season  ');
+
+    const versions = await getLibrarySettingsVersions();
+
+    expect(versions.map((version) => version.id)).toEqual([second.settings.versionId, first.settings.versionId]);
+    expect(versions[0]).toMatchObject({ status: 'applied', reason: 'Exam season', createdBy: 'admin2' });
+    expect(versions[0].settings.bookingRules.maxBookingDuration).toBe(120);
+    expect(versions[1]).toMatchObject({ status: 'applied', reason: 'Spring timetable', createdBy: 'admin1' });
+  });
+
+  test('rolling back makes an earlier version live again as a new version', async () => {
+    const first = await updateLibrarySettings(values(), 'admin1', 'Spring timetable');
+    const shorter = values();
+    shorter.operatingHours.monday = { open: '09:00', close: '12:00', isClosed: false };
+    await updateLibrarySettings(shorter, 'admin1', 'Half day');
+
+    const { settings } = await restoreLibrarySettingsVersion(first.settings.versionId!, 'admin2');
+
+    expect(settings.operatingHours.monday.close).toBe('18:00');
+    expect(settings.versionId).not.toBe(first.settings.versionId);
+    expect((await getLibrarySettingsVersions())[0]).toMatchObject({
+      id: settings.versionId,
+      restoredFrom: first.settings.versionId,
+      createdBy: 'admin2',
+    });
+    await expect(restoreLibrarySettingsVersion('missing', 'admin2')).rejects.toBeInstanceOf(SettingsError);
+  });
+
+  test('a scheduled version goes live only once its time has come', async () => {
+    const now = new Date('2024-03-01T09:00:00Z');
+    await updateLibrarySettings(values(), 'admin1', undefined, now);
+    const nextTerm = values();
+    nextTerm.bookingRules.maxAdvanceBookingDays = 14;
+    const version = await scheduleLibrarySettings(
+      nextTerm,
+      'admin2',
+      new Date('2024-09-01T00:00:00Z'),
+      'Autumn term',
+      now
+    );
+
+    expect(version.status).toBe('scheduled');
+    expect(await applyScheduledSettings(new Date('2024-08-31T23:59:00Z'))).toEqual([]);
+    expect((await getLibrarySettings())?.bookingRules.maxAdvanceBookingDays).toBe(7);
+
+    expect(await applyScheduledSettings(new Date('2024-09-01T00:05:00Z'))).toEqual([version.id]);
+    expect(await applyScheduledSettings(new Date('2024-09-01T00:10:00Z'))).toEqual([]);
+    expect(mockTree.root.settings.library).toMatchObject({
+      versionId: version.id,
+      updatedBy: 'admin2',
+      bookingRules: { maxAdvanceBookingDays: 14 },
+    });
+    expect(mockTree.root.settingsVersions[version.id]).toMatchObject({
+      status: 'applied',
+      appliedAt: '2024-09-01T00:05:00.000Z',
+    });
+  });
+
+  test('a scheduled version can be cancelled and is never applied', async () => {
+    const now = new Date('2024-03-01T09:00:00Z');
+    await expect(
+      scheduleLibrarySettings(values(), 'admin1', new Date('2024-02-01T00:00:00Z'), undefined, now)
+    ).rejects.toBeInstanceOf(SettingsError);
+
+    const version = await scheduleLibrarySettings(values(), 'admin1', new Date('2024-09-01T00:00:00Z'), undefined, now);
+    expect((await cancelScheduledSettings(version.id, 'admin1', now)).status).toBe('cancelled');
+    await expect(cancelScheduledSettings(version.id, 'admin1', now)).rejects.toBeInstanceOf(SettingsError);
+
+    expect(await applyScheduledSettings(new Date('2024-10-01T00:00:00Z'))).toEqual([]);
+    expect(mockTree.root.settings).toBeUndefined();
+  });
+
+  test('time slots follow special hours around closures and up to midnight', async () => {
+    const examDay = {
+      ...values(),
+      specialHours: [
+        {
+          id: 'exams',
+          name: 'Exam season',
+          startDate: '2024-01-08',
+          endDate: '2024-01-08',
+          hours: { open: '20:00', close: '24:00', isClosed: false },
+          closures: [{ start: '21:00', end: '22:00', reason: 'Fire drill' }],
+        },
+      ],
+    };
+    await updateLibrarySettings(examDay, 'admin1');
+
+    const slots = await getAvailableTimeSlots(new Date(2024, 0, 8, 12), 60);
+
+    expect(slots).toEqual([
+      { start: '20:00', end: '21:00' },
+      { start: '22:00', end: '23:00' },
+      { start: '23:00', end: '24:00' },
+    ]);
+    expect(await isWithinOperatingHours(new Date(2024, 0, 8, 21, 30))).toBe(false);
+    expect(await isWithinOperatingHours(new Date(2024, 0, 8, 23, 30))).toBe(true);
+  });
+
+  test('importing a calendar saves its holidays and closures as one version', async () => {
+    const now = new Date('2024-03-01T09:00:00Z');
+    await updateLibrarySettings(values(), 'admin1', undefined, now);
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20241225',
+      'SUMMARY:Christmas Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20241031',
+      'SUMMARY:Deepavali',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:convocation@srmist',
+      'DTSTART:20240410T140000',
+      'DTEND:20240410T170000',
+      'SUMMARY:Convocation',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const preview = await previewHolidayImport(ics, now);
+    expect(preview.map((item) => item.action)).toEqual(['skip', 'add', 'add']);
+    expect(await getLibrarySettingsVersions()).toHaveLength(1);
+
+    const { items, settings } = await importHolidays(ics, 'admin2', now);
+
+    expect(items).toEqual(preview);
+    expect(settings?.holidays.map((h) => h.date)).toEqual(['2024-01-01', '2024-10-31', '2024-12-25']);
+    expect(settings?.specialHours).toEqual([
+      {
+        id: 'ical-convocation@srmist',
+        name: 'Convocation',
+        startDate: '2024-04-10',
+        endDate: '2024-04-10',
+        closures: [{ start: '14:00', end: '17:00', reason: 'Convocation' }],
+      },
+    ]);
+    expect((await getLibrarySettingsVersions())[0]).toMatchObject({
+      createdBy: 'admin2',
+      reason: 'Imported 2 holiday(s) and closure(s) from iCalendar',
+    });
+
+    // Nothing new the second time round, so no new version
+    await importHolidays(ics, 'admin2', now);
+    expect(await getLibrarySettingsVersions()).toHaveLength(2);
+    await expect(previewHolidayImport('not a calendar', now)).rejects.toBeInstanceOf(SettingsError);
+  });
+});
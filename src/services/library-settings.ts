@@ -1,28 +1,265 @@
-import { LibrarySettings, OperatingHours, Holiday, BookingRules, Booking } from '@/types';
+import { ref, get, set, push, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { evaluateOpeningHours } from '@/lib/booking-policy';
+import { isOpenBooking } from '@/lib/booking-status';
+import { applyHolidayImport, planHolidayImport } from '@/lib/holiday-import';
+import { exportHolidaysToICalendar, parseICalendar } from '@/lib/icalendar';
+import { getDaySchedule, getOpenPeriodAt, getOpenPeriods } from '@/lib/opening-hours';
+import { toDateKey } from '@/lib/recurrence';
+import {
+  DEFAULT_LIBRARY_SETTINGS,
+  validateBookingRules,
+  validateHolidays,
+  validateLibrarySettings,
+  validateOperatingHours,
+  withoutMetadata,
+  type LibrarySettingsValues,
+} from '@/lib/library-settings';
+import { getAdminName, recordAuditEvent } from '@/services/audit-log';
+import {
+  LibrarySettings,
+  LibrarySettingsVersion,
+  OperatingHours,
+  Holiday,
+  HolidayImportItem,
+  BookingRules,
+  Booking,
+} from '@/types';
 
-// Mock Firebase database
-const mockDb = {
+/**
+ * Library Settings Service
+ * Settings live at settings/library. Every read goes to the database so
+ * booking code always sees what staff last saved; the last value read is
+ * kept for when the database can't be reached.
+ *
+ * Every change is also kept as a version under settingsVersions, with who
+ * made it and why. A version can be rolled back to, or scheduled to go live
+ * later; the scheduled sweep applies versions whose time has come.
+ */
+
+const cache = {
   settings: null as LibrarySettings | null,
-  bookings: new Map<string, Booking>(),
 };
 
+// Settings that decide when the library is open
+const HOURS_FIELDS: Array<keyof LibrarySettings> = ['operatingHours', 'holidays', 'specialHours'];
+
+/**
+ * Thrown when settings fail validation; the problems are shown to the admin
+ */
+export class SettingsError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'SettingsError';
+    this.problems = problems;
+  }
+}
+
 /**
  * Get library settings
  */
 export async function getLibrarySettings(): Promise<LibrarySettings | null> {
-  return mockDb.settings;
+  return loadLibrarySettings();
 }
 
 /**
- * Update library settings
+ * Load library settings from the database
+ */
+export async function loadLibrarySettings(): Promise<LibrarySettings | null> {
+  try {
+    const snapshot = await get(ref(db, 'settings/library'));
+
+    if (snapshot.exists()) {
+      const settings = snapshot.val() as LibrarySettings;
+      cache.settings = {
+        ...settings,
+        holidays: settings.holidays || [],
+      };
+    }
+  } catch (error) {
+    console.error('Error loading library settings:', error);
+  }
+
+  return cache.settings;
+}
+
+/**
+ * Get every saved settings version, newest first
+ */
+export async function getLibrarySettingsVersions(): Promise<LibrarySettingsVersion[]> {
+  try {
+    const snapshot = await get(ref(db, 'settingsVersions'));
+
+    if (!snapshot.exists()) {
+      return [];
+    }
+
+    const versions = Object.values(snapshot.val() as Record<string, LibrarySettingsVersion>);
+    return versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  } catch (error) {
+    console.error('Error fetching library settings versions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the library settings. Returns the saved settings and the open
+ * bookings that fall outside any new opening hours.
  */
 export async function updateLibrarySettings(
-  settings: LibrarySettings,
-  adminId: string
-): Promise<void> {
-  settings.updatedBy = adminId;
-  settings.updatedAt = new Date().toISOString();
-  mockDb.settings = settings;
+  values: LibrarySettingsValues,
+  adminId: string,
+  reason?: string,
+  now: Date = new Date()
+): Promise<{ settings: LibrarySettings; affectedBookings: string[] }> {
+  assertValid(values);
+
+  return replaceSettings(values, adminId, 'update_settings', { reason }, now);
+}
+
+/**
+ * Save settings as a version that goes live at a later time
+ */
+export async function scheduleLibrarySettings(
+  values: LibrarySettingsValues,
+  adminId: string,
+  effectiveFrom: Date,
+  reason?: string,
+  now: Date = new Date()
+): Promise<LibrarySettingsVersion> {
+  assertValid(values);
+
+  if (isNaN(effectiveFrom.getTime()) || effectiveFrom <= now) {
+    throw new SettingsError('Scheduled settings must take effect in the future');
+  }
+
+  const version = await recordVersion(values, adminId, 'scheduled', effectiveFrom, { reason }, now);
+
+  await logSettingsChange(
+    adminId,
+    'schedule_settings',
+    { versionId: version.id, effectiveFrom: version.effectiveFrom },
+    version.reason,
+    now
+  );
+
+  return version;
+}
+
+/**
+ * Withdraw a scheduled version before it goes live
+ */
+export async function cancelScheduledSettings(
+  versionId: string,
+  adminId: string,
+  now: Date = new Date()
+): Promise<LibrarySettingsVersion> {
+  const result = await runTransaction(
+    ref(db, `settingsVersions/${versionId}`),
+    (current: LibrarySettingsVersion | null) => {
+      if (current === null || current.status !== 'scheduled') {
+        return;
+      }
+      return { ...current, status: 'cancelled' };
+    }
+  );
+
+  if (!result.committed) {
+    throw new SettingsError(`Version ${versionId} is not waiting to go live`);
+  }
+
+  const version = result.snapshot.val() as LibrarySettingsVersion;
+  await logSettingsChange(
+    adminId,
+    'cancel_scheduled_settings',
+    { versionId, effectiveFrom: version.effectiveFrom },
+    undefined,
+    now
+  );
+
+  return version;
+}
+
+/**
+ * Make an earlier version's settings live again. The rollback is itself saved
+ * as a new version, so it can be undone the same way.
+ */
+export async function restoreLibrarySettingsVersion(
+  versionId: string,
+  adminId: string,
+  now: Date = new Date()
+): Promise<{ settings: LibrarySettings; affectedBookings: string[] }> {
+  const snapshot = await get(ref(db, `settingsVersions/${versionId}`));
+
+  if (!snapshot.exists()) {
+    throw new SettingsError(`Version ${versionId} not found`);
+  }
+
+  const version = snapshot.val() as LibrarySettingsVersion;
+  const values = { ...version.settings, holidays: version.settings.holidays || [] };
+  assertValid(values);
+
+  return replaceSettings(
+    values,
+    adminId,
+    'restore_settings',
+    { reason: `Rolled back to the version from ${version.createdAt}`, restoredFrom: versionId },
+    now
+  );
+}
+
+/**
+ * Apply scheduled versions whose time has come, oldest first, so the latest
+ * one due ends up live. Run by the scheduled sweep; returns the versions
+ * applied.
+ */
+export async function applyScheduledSettings(now: Date = new Date()): Promise<string[]> {
+  try {
+    const due = (await getLibrarySettingsVersions())
+      .filter((version) => version.status === 'scheduled' && new Date(version.effectiveFrom) <= now)
+      .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || a.createdAt.localeCompare(b.createdAt));
+    const applied: string[] = [];
+
+    for (const version of due) {
+      // Claim the version so overlapping sweeps don't apply it twice
+      const claimed = await runTransaction(
+        ref(db, `settingsVersions/${version.id}`),
+        (current: LibrarySettingsVersion | null) => {
+          if (current === null || current.status !== 'scheduled') {
+            return;
+          }
+          return { ...current, status: 'applied', appliedAt: now.toISOString() };
+        }
+      );
+
+      if (!claimed.committed) {
+        continue;
+      }
+
+      const previous = await loadLibrarySettings();
+      const settings = await publishSettings(version, version.createdBy, now);
+
+      await logSettingsChange(
+        version.createdBy,
+        'apply_scheduled_settings',
+        {
+          versionId: version.id,
+          before: previous && withoutMetadata(previous),
+          after: withoutMetadata(settings),
+        },
+        version.reason,
+        now
+      );
+      applied.push(version.id);
+    }
+
+    return applied;
+  } catch (error) {
+    console.error('Error applying scheduled settings:', error);
+    return [];
+  }
 }
 
 /**
@@ -32,44 +269,21 @@ export async function updateOperatingHours(
   operatingHours: OperatingHours,
   adminId: string
 ): Promise<{ affectedBookings: string[] }> {
-  if (!mockDb.settings) {
-    throw new Error('Settings not initialized');
-  }
-  
-  const oldHours = mockDb.settings.operatingHours;
-  mockDb.settings.operatingHours = operatingHours;
-  mockDb.settings.updatedBy = adminId;
-  mockDb.settings.updatedAt = new Date().toISOString();
-  
-  // Find bookings affected by the change
-  const affectedBookings: string[] = [];
-  
-  for (const [bookingId, booking] of mockDb.bookings.entries()) {
-    if (booking.status === 'cancelled' || booking.status === 'completed') {
-      continue;
-    }
-    
-    const startTime = new Date(booking.startTime);
-    const dayOfWeek = startTime.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    
-    const newHours = operatingHours[dayOfWeek];
-    
-    if (!newHours || newHours.isClosed) {
-      affectedBookings.push(bookingId);
-      continue;
-    }
-    
-    // Check if booking time is within new operating hours
-    const bookingHour = startTime.getHours();
-    const bookingMinute = startTime.getMinutes();
-    const bookingTimeStr = `${bookingHour.toString().padStart(2, '0')}:${bookingMinute.toString().padStart(2, '0')}`;
-    
-    if (bookingTimeStr < newHours.open || bookingTimeStr >= newHours.close) {
-      affectedBookings.push(bookingId);
-    }
+  const current = await requireSettings();
+  const problems = validateOperatingHours(operatingHours);
+  if (problems.length > 0) {
+    throw new SettingsError('The opening hours have problems that must be fixed before saving', problems);
   }
-  
-  return { affectedBookings };
+
+  const oldHours = current.operatingHours;
+  await saveSettings({ ...withoutMetadata(current), operatingHours }, adminId);
+
+  await logSettingsChange(adminId, 'update_operating_hours', {
+    before: { operatingHours: oldHours },
+    after: { operatingHours },
+  });
+
+  return { affectedBookings: await findBookingsOutsideHours({ ...current, operatingHours }) };
 }
 
 /**
@@ -79,17 +293,19 @@ export async function addHoliday(
   holiday: Holiday,
   adminId: string
 ): Promise<void> {
-  if (!mockDb.settings) {
-    throw new Error('Settings not initialized');
-  }
+  const current = await requireSettings();
   
   // Check if holiday already exists
-  const exists = mockDb.settings.holidays.some(h => h.date === holiday.date);
+  const exists = current.holidays.some(h => h.date === holiday.date);
   
   if (!exists) {
-    mockDb.settings.holidays.push(holiday);
-    mockDb.settings.updatedBy = adminId;
-    mockDb.settings.updatedAt = new Date().toISOString();
+    const problems = validateHolidays([holiday]);
+    if (problems.length > 0) {
+      throw new SettingsError('The holiday has problems that must be fixed before saving', problems);
+    }
+
+    await saveSettings({ ...withoutMetadata(current), holidays: [...current.holidays, holiday] }, adminId);
+    await logSettingsChange(adminId, 'add_holiday', { holiday });
   }
 }
 
@@ -100,13 +316,16 @@ export async function removeHoliday(
   date: string,
   adminId: string
 ): Promise<void> {
-  if (!mockDb.settings) {
-    throw new Error('Settings not initialized');
-  }
+  const current = await requireSettings();
+  const removed = current.holidays.find(h => h.date === date);
   
-  mockDb.settings.holidays = mockDb.settings.holidays.filter(h => h.date !== date);
-  mockDb.settings.updatedBy = adminId;
-  mockDb.settings.updatedAt = new Date().toISOString();
+  if (removed) {
+    await saveSettings(
+      { ...withoutMetadata(current), holidays: current.holidays.filter(h => h.date !== date) },
+      adminId
+    );
+    await logSettingsChange(adminId, 'remove_holiday', { holiday: removed });
+  }
 }
 
 /**
@@ -116,50 +335,101 @@ export async function updateBookingRules(
   rules: BookingRules,
   adminId: string
 ): Promise<void> {
-  if (!mockDb.settings) {
-    throw new Error('Settings not initialized');
+  const current = await requireSettings();
+  const problems = validateBookingRules(rules);
+  if (problems.length > 0) {
+    throw new SettingsError('The booking rules have problems that must be fixed before saving', problems);
   }
   
-  mockDb.settings.bookingRules = rules;
-  mockDb.settings.updatedBy = adminId;
-  mockDb.settings.updatedAt = new Date().toISOString();
+  const previousRules = current.bookingRules;
+  await saveSettings({ ...withoutMetadata(current), bookingRules: rules }, adminId);
+  
+  await logSettingsChange(adminId, 'update_booking_rules', {
+    before: { bookingRules: previousRules },
+    after: { bookingRules: rules },
+  });
+}
+
+/**
+ * Work out what importing an iCalendar file would add, change and skip,
+ * without saving anything
+ */
+export async function previewHolidayImport(ics: string, now: Date = new Date()): Promise<HolidayImportItem[]> {
+  const current = (await loadLibrarySettings()) ?? DEFAULT_LIBRARY_SETTINGS;
+
+  return planHolidayImport(readICalendar(ics), getHolidayCalendar(current), now);
+}
+
+/**
+ * Import the holidays and closures from an iCalendar file, saved as a new
+ * settings version. Nothing is saved if every event is skipped.
+ */
+export async function importHolidays(
+  ics: string,
+  adminId: string,
+  now: Date = new Date()
+): Promise<{ items: HolidayImportItem[]; settings: LibrarySettings | null; affectedBookings: string[] }> {
+  const current = (await loadLibrarySettings()) ?? DEFAULT_LIBRARY_SETTINGS;
+  const items = planHolidayImport(readICalendar(ics), getHolidayCalendar(current), now);
+  const imported = items.filter((item) => item.action !== 'skip');
+
+  if (imported.length === 0) {
+    return { items, settings: await loadLibrarySettings(), affectedBookings: [] };
+  }
+
+  const values = {
+    ...withoutMetadata(current as LibrarySettings),
+    ...applyHolidayImport(getHolidayCalendar(current), items),
+  };
+  assertValid(values);
+
+  const result = await replaceSettings(
+    values,
+    adminId,
+    'import_holidays',
+    { reason: `Imported ${imported.length} holiday(s) and closure(s) from iCalendar` },
+    now
+  );
+
+  return { items, ...result };
+}
+
+/**
+ * The library's holidays as an iCalendar file
+ */
+export async function exportHolidays(now: Date = new Date()): Promise<string> {
+  const settings = await loadLibrarySettings();
+  return exportHolidaysToICalendar(settings?.holidays || [], now);
 }
 
 /**
- * Check if a booking time is within operating hours
+ * Check if a booking time is within operating hours, special hours included
  */
 export async function isWithinOperatingHours(
   bookingTime: Date
 ): Promise<boolean> {
-  if (!mockDb.settings) {
+  const settings = await loadLibrarySettings();
+  if (!settings) {
     return true; // No restrictions if settings not configured
   }
   
-  const dayOfWeek = bookingTime.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-  const hours = mockDb.settings.operatingHours[dayOfWeek];
-  
-  if (!hours || hours.isClosed) {
-    return false;
-  }
-  
-  const bookingHour = bookingTime.getHours();
-  const bookingMinute = bookingTime.getMinutes();
-  const bookingTimeStr = `${bookingHour.toString().padStart(2, '0')}:${bookingMinute.toString().padStart(2, '0')}`;
-  
-  return bookingTimeStr >= hours.open && bookingTimeStr < hours.close;
+  // Holidays are answered by isHoliday; this is the day's hours alone
+  const schedule = getDaySchedule({ ...settings, holidays: [] }, bookingTime);
+  return getOpenPeriodAt(schedule, bookingTime) !== null;
 }
 
 /**
  * Check if a date is a holiday
  */
 export async function isHoliday(date: Date): Promise<boolean> {
-  if (!mockDb.settings) {
+  const settings = await loadLibrarySettings();
+  if (!settings) {
     return false;
   }
   
-  const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD format
+  const dateStr = toDateKey(date);
   
-  return mockDb.settings.holidays.some(h => h.date === dateStr);
+  return settings.holidays.some(h => h.date === dateStr);
 }
 
 /**
@@ -169,82 +439,34 @@ export async function validateBookingTime(
   startTime: Date,
   endTime: Date
 ): Promise<{ valid: boolean; reason?: string }> {
-  // Check if start time is a holiday
-  const isHolidayDate = await isHoliday(startTime);
-  if (isHolidayDate) {
-    return {
-      valid: false,
-      reason: 'Library is closed on this date (holiday)',
-    };
-  }
-  
-  // Check if within operating hours
-  const withinHours = await isWithinOperatingHours(startTime);
-  if (!withinHours) {
-    return {
-      valid: false,
-      reason: 'Booking time is outside operating hours',
-    };
-  }
-  
-  // Check end time as well
-  const endWithinHours = await isWithinOperatingHours(endTime);
-  if (!endWithinHours) {
-    return {
-      valid: false,
-      reason: 'Booking end time is outside operating hours',
-    };
-  }
-  
-  return { valid: true };
+  const violations = evaluateOpeningHours(await loadLibrarySettings(), startTime, endTime);
+
+  return violations.length > 0 ? { valid: false, reason: violations[0].message } : { valid: true };
 }
 
 /**
- * Get available time slots for a given date
+ * Get available time slots for a given date. Each stretch of opening hours
+ * is split into slots on its own, so no slot runs into a closure.
  */
 export async function getAvailableTimeSlots(
   date: Date,
   slotDuration: number = 60 // minutes
 ): Promise<Array<{ start: string; end: string }>> {
-  // Check if date is a holiday
-  const isHolidayDate = await isHoliday(date);
-  if (isHolidayDate) {
-    return [];
-  }
-  
-  if (!mockDb.settings) {
+  const settings = await loadLibrarySettings();
+  if (!settings) {
     return [];
   }
   
-  const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-  const hours = mockDb.settings.operatingHours[dayOfWeek];
-  
-  if (!hours || hours.isClosed) {
-    return [];
-  }
-  
-  // Parse operating hours
-  const [openHour, openMinute] = hours.open.split(':').map(Number);
-  const [closeHour, closeMinute] = hours.close.split(':').map(Number);
-  
   const slots: Array<{ start: string; end: string }> = [];
   
-  let currentTime = new Date(date);
-  currentTime.setHours(openHour, openMinute, 0, 0);
-  
-  const closeTime = new Date(date);
-  closeTime.setHours(closeHour, closeMinute, 0, 0);
-  
-  while (currentTime.getTime() + slotDuration * 60000 <= closeTime.getTime()) {
-    const slotStart = new Date(currentTime);
-    const slotEnd = new Date(currentTime.getTime() + slotDuration * 60000);
-    
-    slots.push({
-      start: `${slotStart.getHours().toString().padStart(2, '0')}:${slotStart.getMinutes().toString().padStart(2, '0')}`,
-      end: `${slotEnd.getHours().toString().padStart(2, '0')}:${slotEnd.getMinutes().toString().padStart(2, '0')}`,
-    });
+  for (const period of getOpenPeriods(getDaySchedule(settings, date))) {
+    let current = toMinutes(period.start);
+    const close = toMinutes(period.end);
     
-    currentTime = slotEnd;
+    while (current + slotDuration <= close) {
+      slots.push({ start: fromMinutes(current), end: fromMinutes(current + slotDuration) });
+      current += slotDuration;
+    }
   }
   
   return slots;
@@ -257,29 +479,227 @@ export async function getHolidaysInRange(
   startDate: Date,
   endDate: Date
 ): Promise<Holiday[]> {
-  if (!mockDb.settings) {
+  const settings = await loadLibrarySettings();
+  if (!settings) {
     return [];
   }
   
-  const startStr = startDate.toISOString().split('T')[0];
-  const endStr = endDate.toISOString().split('T')[0];
+  const startStr = toDateKey(startDate);
+  const endStr = toDateKey(endDate);
   
-  return mockDb.settings.holidays.filter(h => h.date >= startStr && h.date <= endStr);
+  return settings.holidays.filter(h => h.date >= startStr && h.date <= endStr);
+}
+
+// Helper Functions
+
+/**
+ * Refuse settings that would break booking
+ */
+function assertValid(values: LibrarySettingsValues): void {
+  const problems = validateLibrarySettings(values);
+  if (problems.length > 0) {
+    throw new SettingsError('The settings have problems that must be fixed before saving', problems);
+  }
+}
+
+/**
+ * Make the given settings live as a new version and report the open
+ * bookings outside any new opening hours
+ */
+async function replaceSettings(
+  values: LibrarySettingsValues,
+  adminId: string,
+  action: string,
+  details: Pick<LibrarySettingsVersion, 'reason' | 'restoredFrom'>,
+  now: Date
+): Promise<{ settings: LibrarySettings; affectedBookings: string[] }> {
+  const previous = await loadLibrarySettings();
+  const settings = await saveSettings(withoutMetadata(values as LibrarySettings), adminId, now, details);
+
+  await logSettingsChange(
+    adminId,
+    action,
+    {
+      versionId: settings.versionId,
+      before: previous && withoutMetadata(previous),
+      after: withoutMetadata(settings),
+    },
+    details.reason,
+    now
+  );
+
+  const hoursChanged = HOURS_FIELDS.some(
+    (field) => JSON.stringify(previous?.[field] ?? null) !== JSON.stringify(settings[field] ?? null)
+  );
+  const affectedBookings = hoursChanged ? await findBookingsOutsideHours(settings) : [];
+
+  return { settings, affectedBookings };
+}
+
+/**
+ * Read an uploaded iCalendar file, refusing anything else
+ */
+function readICalendar(ics: string) {
+  const events = parseICalendar(ics);
+  if (!events) {
+    throw new SettingsError('The file is not an iCalendar (.ics) file');
+  }
+  return events;
+}
+
+function getHolidayCalendar(settings: LibrarySettingsValues) {
+  return { holidays: settings.holidays || [], specialHours: settings.specialHours || [] };
+}
+
+/**
+ * The current settings, for changes to one part of them
+ */
+async function requireSettings(): Promise<LibrarySettings> {
+  const settings = await loadLibrarySettings();
+  if (!settings) {
+    throw new Error('Settings not initialized');
+  }
+  return settings;
+}
+
+/**
+ * Save the settings as a new version and make it live straight away
+ */
+async function saveSettings(
+  values: LibrarySettingsValues,
+  adminId: string,
+  now: Date = new Date(),
+  details: Pick<LibrarySettingsVersion, 'reason' | 'restoredFrom'> = {}
+): Promise<LibrarySettings> {
+  const version = await recordVersion(values, adminId, 'applied', now, details, now);
+  return publishSettings(version, adminId, now);
+}
+
+/**
+ * Store a settings version
+ */
+async function recordVersion(
+  values: LibrarySettingsValues,
+  adminId: string,
+  status: LibrarySettingsVersion['status'],
+  effectiveFrom: Date,
+  details: Pick<LibrarySettingsVersion, 'reason' | 'restoredFrom'>,
+  now: Date
+): Promise<LibrarySettingsVersion> {
+  const versionRef = push(ref(db, 'settingsVersions'));
+  const version: LibrarySettingsVersion = {
+    id: versionRef.key!,
+    settings: {
+      ...values,
+      holidays: [...(values.holidays || [])].sort((a, b) => a.date.localeCompare(b.date)),
+    },
+    status,
+    effectiveFrom: effectiveFrom.toISOString(),
+    createdBy: adminId,
+    createdByName: await getAdminName(adminId),
+    createdAt: now.toISOString(),
+    ...(status === 'applied' ? { appliedAt: now.toISOString() } : {}),
+    ...(details.reason?.trim() ? { reason: details.reason.trim() } : {}),
+    ...(details.restoredFrom ? { restoredFrom: details.restoredFrom } : {}),
+  };
+
+  // The database rejects undefined values
+  await set(versionRef, JSON.parse(JSON.stringify(version)));
+
+  return version;
+}
+
+/**
+ * Write a version's settings to settings/library, stamped with who changed them
+ */
+async function publishSettings(version: LibrarySettingsVersion, adminId: string, now: Date): Promise<LibrarySettings> {
+  const settings: LibrarySettings = {
+    ...version.settings,
+    holidays: version.settings.holidays || [],
+    versionId: version.id,
+    updatedBy: adminId,
+    updatedAt: now.toISOString(),
+  };
+
+  await set(ref(db, 'settings/library'), JSON.parse(JSON.stringify(settings)));
+  cache.settings = settings;
+
+  return settings;
+}
+
+/**
+ * Open bookings that would start outside the opening hours of the given
+ * settings, special hours and holidays included
+ */
+async function findBookingsOutsideHours(settings: LibrarySettings): Promise<string[]> {
+  const snapshot = await get(ref(db, 'bookings'));
+  const bookings: Booking[] = [];
+  snapshot.forEach((userBookings) => {
+    userBookings.forEach((child) => {
+      bookings.push({ ...(child.val() as Booking), id: child.key! });
+    });
+  });
+
+  const affectedBookings: string[] = [];
+
+  for (const booking of bookings) {
+    if (!isOpenBooking(booking.status)) {
+      continue;
+    }
+    
+    const startTime = new Date(booking.startTime);
+    
+    if (!getOpenPeriodAt(getDaySchedule(settings, startTime), startTime)) {
+      affectedBookings.push(booking.id);
+    }
+  }
+
+  return affectedBookings;
+}
+
+/**
+ * Minutes since midnight for an HH:mm time, and back again. The end of the
+ * day reads as 24:00.
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Record a settings change in the audit log
+ */
+async function logSettingsChange(
+  adminId: string,
+  action: string,
+  details: Record<string, any>,
+  reason?: string,
+  now: Date = new Date()
+): Promise<void> {
+  await recordAuditEvent(
+    {
+      adminId,
+      action,
+      targetId: 'library',
+      targetType: 'settings',
+      ...(reason ? { reason } : {}),
+      details,
+    },
+    now
+  );
 }
 
 // Test utilities
 export const __test__ = {
   setSettings: (settings: LibrarySettings | null) => {
-    mockDb.settings = settings;
-  },
-  setBookings: (bookings: Booking[]) => {
-    mockDb.bookings.clear();
-    bookings.forEach(booking => mockDb.bookings.set(booking.id, booking));
+    cache.settings = settings;
   },
-  getSettings: () => mockDb.settings,
-  getBookings: () => Array.from(mockDb.bookings.values()),
+  getSettings: () => cache.settings,
   clear: () => {
-    mockDb.settings = null;
-    mockDb.bookings.clear();
+    cache.settings = null;
   },
 };
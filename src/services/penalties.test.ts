@@ -0,0 +1,130 @@
+import * as fc from 'fast-check';
+import type { LibrarySettings, UserPenalties } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { mockTree, readPath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { DEFAULT_PENALTY_POLICY } from '@/lib/penalties';
+import { overridePenalties, PenaltyError, recordStrike } from './penalties';
+import { __test__ as settingsTest } from './library-settings';
+
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAfter = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+
+const settings: LibrarySettings = {
+  operatingHours: {},
+  holidays: [],
+  bookingRules: {
+    maxDailyDuration: 480,
+    maxAdvanceBookingDays: 7,
+    minBookingDuration: 30,
+    maxBookingDuration: 240,
+    extensionIncrement: 30,
+  },
+  penaltyPolicy: { ...DEFAULT_PENALTY_POLICY },
+  updatedBy: 'system',
+  updatedAt: NOW.toISOString(),
+};
+
+function resetTree(librarySettings: LibrarySettings = settings) {
+  mockTree.root = {
+    settings: { library: JSON.parse(JSON.stringify(librarySettings)) },
+    users: {
+      user1: { uid: 'user1', email: 'user1@srmist.edu.in' },
+      staff1: { uid: 'staff1', displayName: 'Librarian' },
+    },
+  };
+  settingsTest.clear();
+}
+
+const penaltiesOf = (userId: string): UserPenalties => readPath(`penalties/${userId}`) || {};
+const auditActions = () => (Object.values(readPath('auditLogs') || {}) as any[]).map((log) => log.action);
+
+describe('Penalty Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetTree();
+  });
+
+  // Feature: penalties, Property 3: Every strike is stored and audited
+  test('Property 3: each no-show or overstay adds one strike and one audit entry until the ban', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.constantFrom<'no-show' | 'overstay'>('no-show', 'overstay'), { minLength: 1, maxLength: 5 }), async (reasons) => {
+        resetTree();
+        for (const [index, reason] of reasons.entries()) {
+          await recordStrike('user1', reason, `b${index}`, daysAfter(index));
+        }
+
+        const strikes = Object.values(penaltiesOf('user1').strikes || {});
+        expect(strikes.map((strike) => strike.reason)).toEqual(reasons);
+        expect(auditActions().filter((action) => action === 'penalty_strike')).toHaveLength(reasons.length);
+        expect(auditActions().filter((action) => action === 'penalty_ban')).toHaveLength(reasons.length >= 3 ? 1 : 0);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('bans a student at the threshold', async () => {
+    await recordStrike('user1', 'no-show', 'b1', NOW);
+    await recordStrike('user1', 'overstay', 'b2', daysAfter(1));
+    const result = await recordStrike('user1', 'no-show', 'b3', daysAfter(2));
+
+    expect(result?.banned).toBe(true);
+    expect(penaltiesOf('user1').bannedUntil).toBe(daysAfter(9).toISOString());
+
+    const ban = (Object.values(readPath('auditLogs')) as any[]).find((log) => log.action === 'penalty_ban');
+    expect(ban).toMatchObject({ adminId: 'system', targetId: 'user1', targetType: 'user' });
+  });
+
+  test('does nothing when the penalty policy is switched off', async () => {
+    resetTree({ ...settings, penaltyPolicy: { ...settings.penaltyPolicy!, enabled: false } });
+
+    expect(await recordStrike('user1', 'no-show', 'b1', NOW)).toBeNull();
+    expect(penaltiesOf('user1')).toEqual({});
+    expect(readPath('auditLogs') || {}).toEqual({});
+  });
+
+  test('staff can waive a strike, clear strikes and lift a ban, each audited', async () => {
+    await recordStrike('user1', 'no-show', 'b1', NOW);
+    await recordStrike('user1', 'no-show', 'b2', NOW);
+    await recordStrike('user1', 'no-show', 'b3', NOW);
+    const [first] = Object.keys(penaltiesOf('user1').strikes!);
+
+    await overridePenalties('user1', 'waive-strike', 'staff1', 'Was ill', first, daysAfter(1));
+    expect(penaltiesOf('user1').strikes![first].waivedBy).toBe('staff1');
+
+    await overridePenalties('user1', 'clear-strikes', 'staff1', 'Fresh start', undefined, daysAfter(1));
+    expect(Object.values(penaltiesOf('user1').strikes!).every((strike) => strike.waivedAt)).toBe(true);
+
+    await overridePenalties('user1', 'lift-ban', 'staff1', 'Appeal upheld', undefined, daysAfter(1));
+    expect(penaltiesOf('user1')).toMatchObject({ bannedUntil: daysAfter(1).toISOString(), banLiftedBy: 'staff1' });
+
+    const overrides = (Object.values(readPath('auditLogs')) as any[]).filter((log) => log.action === 'penalty_override');
+    expect(overrides.map((log) => log.details.override)).toEqual(['waive-strike', 'clear-strikes', 'lift-ban']);
+    expect(overrides[2]).toMatchObject({
+      adminId: 'staff1',
+      adminName: 'Librarian',
+      reason: 'Appeal upheld',
+      details: { after: { activeStrikes: 0, bannedUntil: daysAfter(1).toISOString() } },
+    });
+  });
+
+  test('rejects overrides that change nothing', async () => {
+    await expect(overridePenalties('user1', 'lift-ban', 'staff1', 'No ban', undefined, NOW)).rejects.toThrow(PenaltyError);
+    await expect(overridePenalties('user1', 'waive-strike', 'staff1', 'Missing', 'nope', NOW)).rejects.toThrow(
+      'Strike not found'
+    );
+    await expect(overridePenalties('ghost', 'clear-strikes', 'staff1', 'Who?', undefined, NOW)).rejects.toThrow(
+      'User not found'
+    );
+    expect(readPath('auditLogs') || {}).toEqual({});
+  });
+});
@@ -0,0 +1,189 @@
+import { ref, get, push, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { applyStrike, createStrike, getActiveStrikes, getPenaltyPolicy } from '@/lib/penalties';
+import { recordAuditEvent } from '@/services/audit-log';
+import { loadLibrarySettings } from '@/services/library-settings';
+import type { PenaltyOverride, Strike, StrikeReason, UserPenalties } from '@/types';
+
+/**
+ * Penalty Service
+ * Issues strikes for no-shows and overstays, bans students who collect too
+ * many, and lets staff waive strikes or lift bans. Every change is recorded
+ * in the audit log. Penalties are kept at penalties/{userId}, apart from the
+ * profile students can edit, so a banned student can't clear their own ban.
+ */
+
+/**
+ * Thrown when a staff override can't be applied
+ */
+export class PenaltyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PenaltyError';
+  }
+}
+
+/**
+ * Give a student a strike for a no-show or overstay, banning them if it
+ * takes them over the threshold. Called by the sweeper; failures are logged,
+ * not thrown.
+ */
+export async function recordStrike(
+  userId: string,
+  reason: StrikeReason,
+  bookingId: string | null,
+  now: Date = new Date()
+): Promise<{ strike: Strike; banned: boolean } | null> {
+  try {
+    const policy = getPenaltyPolicy(await loadLibrarySettings());
+    if (!policy.enabled) {
+      return null;
+    }
+
+    const penaltiesRef = ref(db, `penalties/${userId}`);
+    const strike = createStrike(push(ref(db, `penalties/${userId}/strikes`)).key!, reason, bookingId, policy, now);
+    let banned = false;
+
+    const result = await runTransaction(penaltiesRef, (current: UserPenalties | null) => {
+      const next = applyStrike(current, strike, policy, now);
+      banned = next.banned;
+      return next.penalties;
+    });
+
+    if (!result.committed) {
+      return null;
+    }
+
+    await recordAuditEvent(
+      {
+        adminId: 'system',
+        adminName: 'Penalty Policy',
+        action: 'penalty_strike',
+        targetId: userId,
+        targetType: 'user',
+        reason: reason === 'no-show' ? 'No-show' : 'Overstay',
+        details: { bookingId, weight: strike.weight, expiresAt: strike.expiresAt },
+      },
+      now
+    );
+
+    if (banned) {
+      const penalties = result.snapshot.val() as UserPenalties;
+      await recordAuditEvent(
+        {
+          adminId: 'system',
+          adminName: 'Penalty Policy',
+          action: 'penalty_ban',
+          targetId: userId,
+          targetType: 'user',
+          reason: `${policy.banThreshold} strikes within ${policy.banWindowDays} days`,
+          details: { bannedUntil: penalties.bannedUntil },
+        },
+        now
+      );
+    }
+
+    return { strike, banned };
+  } catch (error) {
+    console.error('Error recording strike:', error);
+    return null;
+  }
+}
+
+/**
+ * A student's strikes and ban, if they have any
+ */
+export async function getUserPenalties(userId: string): Promise<UserPenalties | null> {
+  const snapshot = await get(ref(db, `penalties/${userId}`));
+  return snapshot.exists() ? (snapshot.val() as UserPenalties) : null;
+}
+
+/**
+ * Staff override: waive one strike, clear all active strikes, or lift a ban
+ */
+export async function overridePenalties(
+  userId: string,
+  override: PenaltyOverride,
+  adminId: string,
+  reason: string,
+  strikeId?: string,
+  now: Date = new Date()
+): Promise<UserPenalties> {
+  try {
+    const userSnapshot = await get(ref(db, `users/${userId}`));
+    if (!userSnapshot.exists()) {
+      throw new PenaltyError('User not found');
+    }
+
+    const before = (await getUserPenalties(userId)) || {};
+    const after = applyOverride(before, override, adminId, strikeId, now);
+    if (!after) {
+      throw new PenaltyError(override === 'waive-strike' ? 'Strike not found' : 'Nothing to override');
+    }
+
+    await runTransaction(ref(db, `penalties/${userId}`), (current: UserPenalties | null) => {
+      return applyOverride(current || {}, override, adminId, strikeId, now) || undefined;
+    });
+
+    await recordAuditEvent(
+      {
+        adminId,
+        action: 'penalty_override',
+        targetId: userId,
+        targetType: 'user',
+        reason,
+        details: {
+          override,
+          ...(strikeId ? { strikeId } : {}),
+          before: { activeStrikes: getActiveStrikes(before, now).length, bannedUntil: before.bannedUntil || null },
+          after: { activeStrikes: getActiveStrikes(after, now).length, bannedUntil: after.bannedUntil || null },
+        },
+      },
+      now
+    );
+
+    return after;
+  } catch (error) {
+    console.error('Error overriding penalties:', error);
+    throw error;
+  }
+}
+
+// Helper Functions
+
+/**
+ * The penalties after an override, or null if it changes nothing
+ */
+function applyOverride(
+  penalties: UserPenalties,
+  override: PenaltyOverride,
+  adminId: string,
+  strikeId: string | undefined,
+  now: Date
+): UserPenalties | null {
+  const waive = (strike: Strike): Strike => ({ ...strike, waivedBy: adminId, waivedAt: now.toISOString() });
+  const active = getActiveStrikes(penalties, now);
+
+  switch (override) {
+    case 'waive-strike': {
+      const strike = active.find((s) => s.id === strikeId);
+      return strike ? { ...penalties, strikes: { ...penalties.strikes, [strike.id]: waive(strike) } } : null;
+    }
+    case 'clear-strikes': {
+      if (active.length === 0) {
+        return null;
+      }
+      const strikes = { ...penalties.strikes };
+      active.forEach((strike) => {
+        strikes[strike.id] = waive(strike);
+      });
+      return { ...penalties, strikes };
+    }
+    case 'lift-ban': {
+      if (!penalties.bannedUntil || new Date(penalties.bannedUntil) <= now) {
+        return null;
+      }
+      return { ...penalties, bannedUntil: now.toISOString(), banLiftedBy: adminId };
+    }
+  }
+}
@@ -1,6 +1,8 @@
-import type { ReportConfig, ReportData, ReportFormat, Booking, Seat } from '@/types';
+import type { ReportBreakdown, ReportChart, ReportConfig, ReportData, ReportFormat, Booking, Seat } from '@/types';
 import { ref, get } from 'firebase/database';
 import { db } from '@/lib/firebase';
+import { renderReportPdf } from '@/lib/report-pdf';
+import { renderReportXlsx } from '@/lib/report-xlsx';
 
 /**
  * Report Service
@@ -56,23 +58,31 @@ export async function generateReport(config: ReportConfig): Promise<ReportData>
       }
     });
 
-    // Group data if requested
+    const breakdowns: ReportBreakdown[] = [];
+    const charts: ReportChart[] = [];
+
+    // Group data by period if requested
     if (config.groupBy) {
       const grouped = groupBookings(filteredBookings, config.groupBy);
-      data.push(...grouped);
-    } else {
-      // Return raw booking data
-      data.push(...filteredBookings.map(b => ({
-        'Booking ID': b.id,
-        'User': b.userName,
-        'Seat': b.seatId,
-        'Start Time': b.startTime,
-        'End Time': b.endTime,
-        'Status': b.status,
-        'Duration (min)': b.duration,
-      })));
+      breakdowns.push({ groupBy: config.groupBy, rows: grouped });
+      charts.push({
+        type: 'bar',
+        title: `Bookings per ${config.groupBy}`,
+        data: grouped.map(row => ({ label: row.Period, value: row['Total Bookings'] })),
+      });
     }
 
+    // Raw booking data
+    data.push(...filteredBookings.map(b => ({
+      'Booking ID': b.id,
+      'User': b.userName,
+      'Seat': b.seatId,
+      'Start Time': b.startTime,
+      'End Time': b.endTime,
+      'Status': b.status,
+      'Duration (min)': b.duration,
+    })));
+
     return {
       title: `Report: ${config.metrics.join(', ')}`,
       generatedAt: new Date().toISOString(),
@@ -82,6 +92,8 @@ export async function generateReport(config: ReportConfig): Promise<ReportData>
       },
       summary,
       data,
+      breakdowns,
+      charts: [...charts, getStatusChart(filteredBookings)],
     };
   } catch (error) {
     console.error('Error generating report:', error);
@@ -130,14 +142,17 @@ async function getBookingsInRange(startDate: Date, endDate: Date): Promise<Booki
       return [];
     }
 
+    // Bookings are stored per user: bookings/{userId}/{bookingId}
     const bookings: Booking[] = [];
-    snapshot.forEach((child) => {
-      const booking = child.val() as Booking;
-      const bookingDate = new Date(booking.startTime);
-      
-      if (bookingDate >= startDate && bookingDate <= endDate) {
-        bookings.push(booking);
-      }
+    snapshot.forEach((userSnapshot) => {
+      userSnapshot.forEach((child) => {
+        const booking = { ...(child.val() as Booking), id: child.key! };
+        const bookingDate = new Date(booking.startTime);
+
+        if (bookingDate >= startDate && bookingDate <= endDate) {
+          bookings.push(booking);
+        }
+      });
     });
 
     return bookings;
@@ -159,9 +174,12 @@ async function getAllSeats(): Promise<Seat[]> {
       return [];
     }
 
+    // Seats are stored per floor: seats/{floor}/{seatId}
     const seats: Seat[] = [];
-    snapshot.forEach((child) => {
-      seats.push(child.val() as Seat);
+    snapshot.forEach((floorSnapshot) => {
+      floorSnapshot.forEach((child) => {
+        seats.push(child.val() as Seat);
+      });
     });
 
     return seats;
@@ -284,6 +302,22 @@ function groupBookings(
     .sort((a, b) => a.Period.localeCompare(b.Period));
 }
 
+/**
+ * Chart the number of bookings in each status
+ */
+function getStatusChart(bookings: Booking[]): ReportChart {
+  const counts: Record<string, number> = {};
+  bookings.forEach(booking => {
+    counts[booking.status] = (counts[booking.status] || 0) + 1;
+  });
+
+  return {
+    type: 'bar',
+    title: 'Bookings by Status',
+    data: Object.entries(counts).map(([label, value]) => ({ label, value })),
+  };
+}
+
 /**
  * Get week start date (Monday)
  */
@@ -310,40 +344,55 @@ function exportToCSV(reportData: ReportData): Blob {
   csv += '\n';
 
   // Data section
-  if (reportData.data.length > 0) {
-    const headers = Object.keys(reportData.data[0]);
-    csv += headers.join(',') + '\n';
-
-    reportData.data.forEach(row => {
-      const values = headers.map(header => {
-        const value = row[header];
-        // Escape commas and quotes
-        if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-          return `"${value.replace(/"/g, '""')}"`;
-        }
-        return value;
-      });
-      csv += values.join(',') + '\n';
-    });
-  }
+  csv += toCSVTable(reportData.data);
+
+  // Period breakdowns
+  (reportData.breakdowns || []).forEach(breakdown => {
+    csv += `\nBookings by ${breakdown.groupBy}\n`;
+    csv += toCSVTable(breakdown.rows);
+  });
 
   return new Blob([csv], { type: 'text/csv;charset=utf-8;' });
 }
 
 /**
- * Export to PDF format (simplified - would use a library like jsPDF in production)
+ * Format rows as CSV lines with a header row
+ */
+function toCSVTable(rows: Array<Record<string, any>>): string {
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const headers = Object.keys(rows[0]);
+  let csv = headers.join(',') + '\n';
+
+  rows.forEach(row => {
+    const values = headers.map(header => {
+      const value = row[header];
+      // Escape commas and quotes
+      if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
+        return `"${value.replace(/"/g, '""')}"`;
+      }
+      return value;
+    });
+    csv += values.join(',') + '\n';
+  });
+
+  return csv;
+}
+
+/**
+ * Export to PDF format
  */
 function exportToPDF(reportData: ReportData): Blob {
-  // This is a placeholder - in production, use jsPDF or similar
-  const content = JSON.stringify(reportData, null, 2);
-  return new Blob([content], { type: 'application/pdf' });
+  return new Blob([renderReportPdf(reportData)], { type: 'application/pdf' });
 }
 
 /**
- * Export to Excel format (simplified - would use a library like xlsx in production)
+ * Export to Excel format
  */
-function exportToExcel(reportData: ReportData): Blob {
-  // This is a placeholder - in production, use xlsx or similar
-  const content = JSON.stringify(reportData, null, 2);
-  return new Blob([content], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+async function exportToExcel(reportData: ReportData): Promise<Blob> {
+  return new Blob([await renderReportXlsx(reportData)], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
 }
@@ -0,0 +1,73 @@
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { DEFAULT_LIBRARY_SETTINGS } from '@/lib/library-settings';
+import { __test__ as settingsTest } from './library-settings';
+import { runScheduledJobs } from './scheduled-jobs';
+
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+
+describe('Scheduled Jobs', () => {
+  beforeEach(() => {
+    resetMockDatabase();
+    settingsTest.clear();
+  });
+
+  test('one run applies due settings, sweeps seats and lifts lapsed suspensions', async () => {
+    writePath('settingsVersions/v1', {
+      id: 'v1',
+      settings: { ...DEFAULT_LIBRARY_SETTINGS, holidays: [{ date: '2024-01-26', name: 'Republic Day' }] },
+      status: 'scheduled',
+      effectiveFrom: new Date(NOW.getTime() - 60000).toISOString(),
+      createdBy: 'admin1',
+      createdByName: 'Ada',
+      createdAt: new Date(2024, 0, 1).toISOString(),
+    });
+    writePath('users/user1', { uid: 'user1' });
+    writePath('users/user2', { uid: 'user2' });
+    writePath('restrictions/user1', { isFlagged: true, reason: 'No-shows', expiresAt: new Date(NOW.getTime() - 1000).toISOString() });
+    writePath('restrictions/user2', { isFlagged: true, reason: 'No-shows', expiresAt: new Date(NOW.getTime() + 1000).toISOString() });
+    writePath('seats/ground/G01', { id: 'G01', status: 'reserved', bookedBy: 'user3', bookedAt: NOW.getTime() - 3600000 });
+
+    const result = await runScheduledJobs(NOW);
+
+    expect(result.appliedSettings).toEqual(['v1']);
+    expect(readPath('settings/library/holidays')).toEqual([{ date: '2024-01-26', name: 'Republic Day' }]);
+    expect(result.actions.map((action) => action.seatId)).toEqual(['G01']);
+    expect(result.liftedRestrictions).toEqual(['user1']);
+    expect(readPath('restrictions/user1')).toEqual({ isFlagged: false });
+    expect(readPath('restrictions/user2/isFlagged')).toBe(true);
+  });
+
+  test('a suspension re-applied while the job runs is left in place', async () => {
+    const lapsed = { isFlagged: true, reason: 'No-shows', expiresAt: new Date(NOW.getTime() - 1000).toISOString() };
+    const reapplied = { isFlagged: true, reason: 'Abuse', flaggedBy: 'admin1' };
+    writePath('users/user1', { uid: 'user1' });
+    writePath('restrictions/user1', lapsed);
+
+    // Staff flag the student again between the job's read and its write
+    const database = jest.requireMock('firebase/database');
+    const transact = database.runTransaction.getMockImplementation();
+    database.runTransaction.mockImplementation((reference: { _path: string }, update: (current: any) => any) => {
+      if (reference._path === 'restrictions/user1') {
+        writePath(reference._path, reapplied);
+      }
+      return transact(reference, update);
+    });
+
+    try {
+      expect((await runScheduledJobs(NOW)).liftedRestrictions).toEqual([]);
+    } finally {
+      database.runTransaction.mockImplementation(transact);
+    }
+    expect(readPath('restrictions/user1')).toEqual(reapplied);
+    expect(readPath('restrictionHistory/user1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,25 @@
+import { runSweep } from '@/services/booking-sweeper';
+import { applyScheduledSettings } from '@/services/library-settings';
+import { liftExpiredRestrictions } from '@/services/user-management';
+import type { ScheduledJobsResult } from '@/types';
+
+/**
+ * Scheduled Jobs
+ * Everything that runs on a timer, kept in one place so the cron route
+ * (/api/cron/sweep) and `npm run sweep` do the same work:
+ *
+ * 1. Scheduled library settings go live, so the sweep judges bookings by them
+ * 2. The booking sweeper frees lapsed seats
+ * 3. Suspensions whose time is up are lifted
+ */
+
+/**
+ * Run every scheduled job once
+ */
+export async function runScheduledJobs(now: Date = new Date()): Promise<ScheduledJobsResult> {
+  const appliedSettings = await applyScheduledSettings(now);
+  const sweep = await runSweep(now);
+  const liftedRestrictions = await liftExpiredRestrictions(now);
+
+  return { ...sweep, appliedSettings, liftedRestrictions };
+}
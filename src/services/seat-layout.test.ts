@@ -0,0 +1,86 @@
+import type { SeatLayout } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { findSeats, getSeatLayout, resolveSeatPath, setSeatAttributes, syncSeatStates } from './seat-layout';
+import { DEFAULT_LAYOUT } from '@/lib/seat-layout';
+
+const mezzanineLayout: SeatLayout = {
+  buildings: { main: { id: 'main', name: 'Main Library', order: 0 } },
+  floors: { mezzanine: { id: 'mezzanine', buildingId: 'main', name: 'Mezzanine', order: 0 } },
+  sections: { silent: { id: 'silent', floorId: 'mezzanine', name: 'Silent Zone', order: 0 } },
+  seats: {
+    'quiet-1': { id: 'quiet-1', floorId: 'mezzanine', sectionId: 'silent', label: 'Q1', order: 1 },
+    'quiet-2': { id: 'quiet-2', floorId: 'mezzanine', sectionId: 'silent', label: 'Q2', order: 2 },
+  },
+  plans: {},
+};
+
+describe('Seat Layout Service', () => {
+  beforeEach(() => {
+    resetMockDatabase();
+  });
+
+  test('resolves seats against the default layout until one is stored', async () => {
+    expect(await getSeatLayout()).toBe(DEFAULT_LAYOUT);
+    expect(await resolveSeatPath('S05')).toBe('seats/second/S05');
+    expect(await resolveSeatPath('quiet-1')).toBeNull();
+
+    writePath('layout', mezzanineLayout);
+
+    expect(await getSeatLayout()).toEqual(mezzanineLayout);
+    expect(await resolveSeatPath('quiet-1')).toBe('seats/mezzanine/quiet-1');
+    expect(await resolveSeatPath('S05')).toBeNull();
+  });
+
+  test('creates live state only for seats that have none', async () => {
+    writePath('seats/mezzanine/quiet-1', { id: 'quiet-1', status: 'occupied', bookedBy: 'user1' });
+
+    const { created } = await syncSeatStates(mezzanineLayout);
+
+    expect(created).toEqual(['quiet-2']);
+    expect(readPath('seats/mezzanine/quiet-1/status')).toBe('occupied');
+    expect(readPath('seats/mezzanine/quiet-2')).toMatchObject({
+      id: 'quiet-2',
+      number: 'Q2',
+      section: 'Silent Zone',
+      floor: 'Mezzanine',
+      status: 'available',
+    });
+    expect((await syncSeatStates(mezzanineLayout)).created).toEqual([]);
+  });
+
+  test('stores seat attributes on the layout seat', async () => {
+    expect(await setSeatAttributes('G01', ['power', 'window'])).toEqual([]);
+    expect(readPath('layout/seats/G01/attributes')).toEqual(['power', 'window']);
+    expect(Object.keys(readPath('layout/seats'))).toHaveLength(Object.keys(DEFAULT_LAYOUT.seats).length);
+
+    expect(await setSeatAttributes('G01', [])).toEqual(['power', 'window']);
+    expect(readPath('layout/seats/G01')).not.toHaveProperty('attributes');
+
+    expect(await setSeatAttributes('quiet-1', ['power'])).toBeNull();
+  });
+
+  test('finds seats by the layout attributes and their live state', async () => {
+    writePath('layout', mezzanineLayout);
+    await syncSeatStates(mezzanineLayout);
+    await setSeatAttributes('quiet-1', ['power']);
+    await setSeatAttributes('quiet-2', ['power', 'window']);
+    writePath('seats/mezzanine/quiet-2/status', 'occupied');
+
+    const ids = (seats: Awaited<ReturnType<typeof findSeats>>) => seats.map(([seat]) => seat.id);
+
+    expect(ids(await findSeats())).toEqual(['quiet-1', 'quiet-2']);
+    expect(ids(await findSeats({ attributes: ['power', 'window'] }))).toEqual(['quiet-2']);
+    expect(ids(await findSeats({ attributes: ['power'], availableOnly: true }))).toEqual(['quiet-1']);
+    expect(ids(await findSeats({ floorId: 'ground' }))).toEqual([]);
+  });
+});
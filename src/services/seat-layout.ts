@@ -0,0 +1,137 @@
+import { ref, get, update, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import {
+  createSeatState,
+  DEFAULT_LAYOUT,
+  filterSeats,
+  getFloors,
+  getFloorSeatStates,
+  getSeatFloorId,
+  getSeatsWithoutState,
+  getSeatStatePath,
+  normalizeLayout,
+} from '@/lib/seat-layout';
+import type { LayoutSeat, Seat, SeatAttribute, SeatFilters, SeatLayout } from '@/types';
+
+/**
+ * Seat Layout Service
+ * Reads the library layout and resolves where a seat's live state is stored.
+ * Every booking, check-in and maintenance path goes through resolveSeatPath
+ * rather than deriving the floor from the seat id. Seat attributes are part
+ * of the layout; searches pair them with the live state at seats/{floorId}.
+ */
+
+/**
+ * Get the library layout, or the default layout if none is stored
+ */
+export async function getSeatLayout(): Promise<SeatLayout> {
+  try {
+    const snapshot = await get(ref(db, 'layout'));
+    return normalizeLayout(snapshot.exists() ? snapshot.val() : null);
+  } catch (error) {
+    console.error('Error fetching seat layout:', error);
+    throw error;
+  }
+}
+
+/**
+ * Resolve the database path of a seat's live state (seats/{floorId}/{seatId}),
+ * or null if the seat is not in the layout
+ */
+export async function resolveSeatPath(seatId: string): Promise<string | null> {
+  const seatSnapshot = await get(ref(db, `layout/seats/${seatId}`));
+
+  if (seatSnapshot.exists()) {
+    const seat = seatSnapshot.val() as LayoutSeat;
+    return getSeatStatePath(seat.floorId, seatId);
+  }
+
+  // Only fall back to the default layout when no layout is stored at all
+  const floorsSnapshot = await get(ref(db, 'layout/floors'));
+
+  if (floorsSnapshot.exists()) {
+    return null;
+  }
+
+  const floorId = getSeatFloorId(DEFAULT_LAYOUT, seatId);
+  return floorId ? getSeatStatePath(floorId, seatId) : null;
+}
+
+/**
+ * Find the layout seats matching the filters, paired with their live state,
+ * floor by floor in display order. Pass userId so a seat held for that
+ * student on the waitlist still counts as available.
+ */
+export async function findSeats(
+  filters: SeatFilters = {},
+  userId: string | null = null,
+  now: Date = new Date()
+): Promise<Array<[LayoutSeat, Seat]>> {
+  try {
+    const layout = await getSeatLayout();
+    const floorIds = filters.floorId ? [filters.floorId] : getFloors(layout).map((floor) => floor.id);
+    const snapshot = await get(ref(db, 'seats'));
+    const states = snapshot.exists() ? snapshot.val() : null;
+
+    return floorIds.flatMap((floorId) =>
+      filterSeats(getFloorSeatStates(layout, states, floorId), filters, userId, now)
+    );
+  } catch (error) {
+    console.error('Error finding seats:', error);
+    throw error;
+  }
+}
+
+/**
+ * Set a seat's attributes in the layout. The layout is updated in a
+ * transaction (storing the default layout first if none is stored yet), so
+ * concurrent layout changes are kept. Returns the previous attributes, or
+ * null if the seat is not in the layout.
+ */
+export async function setSeatAttributes(
+  seatId: string,
+  attributes: SeatAttribute[]
+): Promise<SeatAttribute[] | null> {
+  let previous: SeatAttribute[] | null = null;
+
+  const result = await runTransaction(ref(db, 'layout'), (current: Partial<SeatLayout> | null) => {
+    const layout = normalizeLayout(current);
+    const seat = layout.seats[seatId];
+    if (!seat) {
+      return;
+    }
+
+    previous = seat.attributes || [];
+    const { attributes: _previous, ...rest } = seat;
+    const updated: LayoutSeat = attributes.length > 0 ? { ...rest, attributes } : rest;
+
+    // The database rejects undefined values
+    return JSON.parse(JSON.stringify({ ...layout, seats: { ...layout.seats, [seatId]: updated } }));
+  });
+
+  return result.committed ? previous : null;
+}
+
+/**
+ * Create the live state for layout seats that don't have one yet. Existing
+ * seat state (holds, reservations, maintenance) is left untouched.
+ */
+export async function syncSeatStates(layout: SeatLayout): Promise<{ created: string[] }> {
+  try {
+    const snapshot = await get(ref(db, 'seats'));
+    const missing = getSeatsWithoutState(layout, snapshot.exists() ? snapshot.val() : null);
+
+    if (missing.length > 0) {
+      const updates: Record<string, Seat> = {};
+      missing.forEach((seat) => {
+        updates[`${seat.floorId}/${seat.id}`] = createSeatState(layout, seat);
+      });
+      await update(ref(db, 'seats'), updates);
+    }
+
+    return { created: missing.map((seat) => seat.id) };
+  } catch (error) {
+    console.error('Error creating seat states:', error);
+    throw error;
+  }
+}
@@ -1,4 +1,5 @@
 import { Seat, SeatStatus, MaintenanceInfo, Booking } from '@/types';
+import { canTransition, transitionBooking } from '@/lib/booking-status';
 
 // Mock Firebase database
 const mockDb = {
@@ -125,8 +126,8 @@ export async function markSeatOutOfService(
   for (const [bookingId, booking] of mockDb.bookings.entries()) {
     if (booking.seatId === seatId && 
         new Date(booking.startTime) > now &&
-        booking.status !== 'cancelled') {
-      booking.status = 'cancelled';
+        canTransition(booking.status, 'cancel')) {
+      booking.status = transitionBooking(booking.status, 'cancel');
       booking.cancelledBy = adminId;
       booking.cancelReason = `Seat marked out of service: ${maintenanceInfo.reason}`;
       booking.updatedAt = new Date().toISOString();
@@ -0,0 +1,313 @@
+import * as fc from 'fast-check';
+import type { Booking } from '@/types';
+
+process.env.QR_TOKEN_SECRET = 'test-secret';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+import { runTransaction } from 'firebase/database';
+
+// Import after mocking
+import { startBreak } from './booking-breaks';
+import { issueBookingToken, verifyBookingScan } from './booking-checkin';
+import { __test__ as settingsTest } from './library-settings';
+import { cancelSeatSwap, getUserSeatSwaps, moveBooking, requestSeatSwap, respondToSeatSwap } from './seat-swaps';
+
+// Fake clock: a Monday at 10:00 local time
+const NOW = new Date(2024, 0, 8, 10, 0, 0);
+const minutes = (n: number) => n * 60000;
+const later = (n: number) => new Date(NOW.getTime() + minutes(n));
+
+const ALICE = { userId: 'user1', userName: 'Alice', email: 'alice@srmist.edu.in' };
+const BOB = { userId: 'user2', userName: 'Bob', email: 'bob@srmist.edu.in' };
+
+const seatPath = (seatId: string) => `seats/ground/${seatId}`;
+
+function freeSeat(seatId: string) {
+  writePath(seatPath(seatId), { id: seatId, status: 'available', bookedBy: null, bookedAt: null, bookingId: null });
+}
+
+// A checked-in booking held on the seat until it ends
+function seedHold(user: typeof ALICE, bookingId: string, seatId: string, endsIn = 120) {
+  writePath(`bookings/${user.userId}/${bookingId}`, {
+    id: bookingId,
+    seatId,
+    userId: user.userId,
+    userName: user.userName,
+    userEmail: user.email,
+    status: 'active',
+    bookingTime: NOW.toISOString(),
+    startTime: NOW.toISOString(),
+    endTime: later(endsIn).toISOString(),
+    duration: endsIn,
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+  });
+  writePath(`users/${user.userId}`, { uid: user.userId, displayName: user.userName, currentBookingId: bookingId });
+  writePath(seatPath(seatId), {
+    id: seatId,
+    status: 'occupied',
+    bookedBy: user.userId,
+    bookedAt: NOW.getTime(),
+    bookingId,
+    occupiedUntil: later(endsIn).getTime(),
+  });
+}
+
+function reset() {
+  resetMockDatabase();
+  settingsTest.clear();
+  ['G01', 'G02', 'G03', 'G04', 'G05'].forEach(freeSeat);
+}
+
+const bookingOf = (userId: string, bookingId: string) => readPath(`bookings/${userId}/${bookingId}`) as Booking;
+const auditActions = () => Object.values(readPath('auditLogs') || {}).map((log: any) => log.action);
+
+describe('Seat Swaps', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reset();
+  });
+
+  // Feature: seat-swaps, Property 1: A move leaves the booking on exactly one seat
+  test('Property 1: after any sequence of moves the booking holds exactly one seat, the last free one it was moved to', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.constantFrom('G01', 'G02', 'G03', 'G04', 'G05'), { maxLength: 6 }), async (targets) => {
+        reset();
+        writePath(seatPath('G05'), { id: 'G05', status: 'maintenance', bookedBy: null, bookedAt: null, bookingId: null });
+        seedHold(ALICE, 'b1', 'G01');
+
+        let expected = 'G01';
+        for (const target of targets) {
+          const result = await moveBooking('user1', 'b1', target, later(5));
+          expect(result.success).toBe(target !== expected && target !== 'G05');
+          if (result.success) {
+            expected = target;
+          }
+        }
+
+        const held = ['G01', 'G02', 'G03', 'G04', 'G05'].filter((seatId) => readPath(`${seatPath(seatId)}/bookingId`) === 'b1');
+        expect(held).toEqual([expected]);
+        expect(readPath(seatPath(expected))).toMatchObject({ status: 'occupied', bookedAt: NOW.getTime() });
+        expect(bookingOf('user1', 'b1')).toMatchObject({ seatId: expected, endTime: later(120).toISOString() });
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('a moved booking keeps its QR code, which now scans at the new seat', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    const token = (await issueBookingToken('user1', 'b1')).token!;
+
+    const result = await moveBooking('user1', 'b1', 'G02', later(5));
+
+    expect(result.success).toBe(true);
+    expect(bookingOf('user1', 'b1')).toMatchObject({ seatId: 'G02', movedFrom: ['G01'] });
+    expect(readPath(seatPath('G01'))).toMatchObject({ status: 'available', bookingId: null });
+    expect(auditActions()).toEqual(['move_booking']);
+
+    expect((await verifyBookingScan(token, 'exit', later(10), 'G01')).reason).toBe('wrong-seat');
+    expect((await verifyBookingScan(token, 'exit', later(10), 'G02')).success).toBe(true);
+  });
+
+  test('a move onto a taken seat leaves the booking where it was', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    seedHold(BOB, 'b2', 'G02');
+
+    const result = await moveBooking('user1', 'b1', 'G02', later(5));
+
+    expect(result).toEqual({ success: false, message: 'Seat G02 is not available' });
+    expect(readPath(seatPath('G01/bookingId'))).toBe('b1');
+    expect(readPath(seatPath('G02/bookingId'))).toBe('b2');
+    expect(bookingOf('user1', 'b1').seatId).toBe('G01');
+  });
+
+  test('an advance reservation moves to the other seat\'s timeline', async () => {
+    writePath('bookings/user1/b1', {
+      id: 'b1',
+      seatId: 'G01',
+      userId: 'user1',
+      status: 'pending',
+      startTime: later(60).toISOString(),
+      endTime: later(120).toISOString(),
+    });
+    const reservation = { bookingId: 'b1', userId: 'user1', startTime: later(60).toISOString(), endTime: later(120).toISOString() };
+    writePath(`${seatPath('G01')}/reservations/b1`, reservation);
+
+    expect((await moveBooking('user1', 'b1', 'G03', NOW)).success).toBe(true);
+    expect(readPath(`${seatPath('G01')}/reservations/b1`)).toBeUndefined();
+    expect(readPath(`${seatPath('G03')}/reservations/b1`)).toEqual(reservation);
+  });
+
+  test('no moving while on a break', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    await startBreak('user1', 'b1', later(5));
+
+    expect(await moveBooking('user1', 'b1', 'G02', later(6))).toEqual({
+      success: false,
+      message: 'You cannot change seats while on a break',
+    });
+  });
+
+  test('two students swap seats once the other accepts', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    seedHold(BOB, 'b2', 'G02', 60);
+
+    const offered = await requestSeatSwap(ALICE, 'b1', ' Bob@srmist.edu.in ', 'swap', later(5));
+    expect(offered.swap).toMatchObject({ status: 'pending', toEmail: BOB.email, fromSeatId: 'G01' });
+    expect(readPath(seatPath('G01/bookingId'))).toBe('b1');
+
+    // Only the student it was sent to can answer
+    expect((await respondToSeatSwap(ALICE, offered.swap!.id, true, 'b1', later(6))).success).toBe(false);
+
+    const accepted = await respondToSeatSwap(BOB, offered.swap!.id, true, 'b2', later(6));
+
+    expect(accepted.success).toBe(true);
+    expect(accepted.swap).toMatchObject({ status: 'completed', toUserId: 'user2', toBookingId: 'b2', toSeatId: 'G01' });
+    expect(readPath(seatPath('G01'))).toMatchObject({ bookingId: 'b2', bookedBy: 'user2', occupiedUntil: later(60).getTime() });
+    expect(readPath(seatPath('G02'))).toMatchObject({ bookingId: 'b1', bookedBy: 'user1', occupiedUntil: later(120).getTime() });
+    expect(bookingOf('user1', 'b1')).toMatchObject({ seatId: 'G02', movedFrom: ['G01'] });
+    expect(bookingOf('user2', 'b2')).toMatchObject({ seatId: 'G01', movedFrom: ['G02'] });
+    expect(auditActions()).toEqual(['swap_seats']);
+    expect(Object.values(readPath('auditLogs'))).toMatchObject([{ actorId: 'user2', adminName: 'Bob' }]);
+    expect((Object.values(readPath('auditLogs'))[0] as any).adminId).toBeUndefined();
+  });
+
+  test('a swap that can\'t be completed puts both seats back', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    seedHold(BOB, 'b2', 'G02', 60);
+    // Alice's booking runs into a reservation on Bob's seat
+    writePath(`${seatPath('G02')}/reservations/b3`, {
+      bookingId: 'b3',
+      userId: 'user3',
+      startTime: later(90).toISOString(),
+      endTime: later(150).toISOString(),
+    });
+    const offered = await requestSeatSwap(ALICE, 'b1', BOB.email, 'swap', later(5));
+
+    const accepted = await respondToSeatSwap(BOB, offered.swap!.id, true, 'b2', later(6));
+
+    expect(accepted.success).toBe(false);
+    expect(accepted.message).toMatch(/Seat G02 is already reserved/);
+    expect(readPath(seatPath('G01'))).toMatchObject({ bookingId: 'b1', bookedBy: 'user1', status: 'occupied' });
+    expect(readPath(seatPath('G02'))).toMatchObject({ bookingId: 'b2', bookedBy: 'user2', status: 'occupied' });
+    expect(bookingOf('user1', 'b1').seatId).toBe('G01');
+    expect(readPath(`seatSwaps/${offered.swap!.id}/status`)).toBe('pending');
+  });
+
+  test('a swap is not rolled back over a reservation made in the meantime', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    seedHold(BOB, 'b2', 'G02', 60);
+    writePath(`${seatPath('G02')}/reservations/b3`, {
+      bookingId: 'b3',
+      userId: 'user3',
+      startTime: later(90).toISOString(),
+      endTime: later(150).toISOString(),
+    });
+    const offered = await requestSeatSwap(ALICE, 'b1', BOB.email, 'swap', later(5));
+
+    // While Bob's shorter booking sits on Alice's seat, someone reserves it for after Bob leaves
+    const transaction = jest.mocked(runTransaction);
+    const original = transaction.getMockImplementation()!;
+    transaction.mockImplementation((reference: any, update: any) => {
+      if (reference._path === seatPath('G02')) {
+        writePath(`${seatPath('G01')}/reservations/b4`, {
+          bookingId: 'b4',
+          userId: 'user4',
+          startTime: later(70).toISOString(),
+          endTime: later(100).toISOString(),
+        });
+      }
+      return original(reference, update);
+    });
+
+    try {
+      const accepted = await respondToSeatSwap(BOB, offered.swap!.id, true, 'b2', later(6));
+      expect(accepted.success).toBe(false);
+    } finally {
+      transaction.mockImplementation(original);
+    }
+
+    // The new reservation stands and Bob's booking is off Alice's seat, but Alice's can't go back
+    const g01 = readPath(seatPath('G01'));
+    expect(g01).toMatchObject({ status: 'available', bookingId: null, bookedBy: null });
+    expect(g01.reservations.b4).toBeDefined();
+    expect(readPath(seatPath('G02'))).toMatchObject({ bookingId: 'b2', bookedBy: 'user2' });
+
+    const [failure] = Object.values(readPath('auditLogs')) as any[];
+    expect(failure).toMatchObject({
+      action: 'swap_rollback_failed',
+      actorId: 'user2',
+      targetId: 'b1',
+      details: { seatId: 'G01', userId: 'user1' },
+    });
+    expect(failure.reason).toMatch(/Seat G01 is already reserved/);
+    expect(failure.adminId).toBeUndefined();
+  });
+
+  test('a handed-over booking becomes the other student\'s, waiting for their check-in', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    writePath('users/user2', { uid: 'user2', displayName: 'Bob' });
+    const offered = await requestSeatSwap(ALICE, 'b1', BOB.email, 'transfer', later(5));
+
+    const accepted = await respondToSeatSwap(BOB, offered.swap!.id, true, undefined, later(30));
+
+    expect(accepted.success).toBe(true);
+    const given = accepted.booking!;
+    expect(given).toMatchObject({
+      seatId: 'G01',
+      userId: 'user2',
+      status: 'pending',
+      startTime: later(30).toISOString(),
+      endTime: later(120).toISOString(),
+      transferredFrom: 'b1',
+    });
+    expect(readPath(seatPath('G01'))).toMatchObject({
+      status: 'reserved',
+      bookedBy: 'user2',
+      bookingId: given.id,
+      bookedAt: later(30).getTime(),
+    });
+    expect(bookingOf('user1', 'b1')).toMatchObject({ status: 'cancelled', cancelReason: 'Transferred to Bob' });
+    expect(readPath('users/user1/currentBookingId')).toBeUndefined();
+    expect(readPath('users/user2/currentBookingId')).toBe(given.id);
+    expect(auditActions()).toEqual(['transfer_booking']);
+  });
+
+  test('a booking can\'t be handed to a student already booked at that time', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    seedHold(BOB, 'b2', 'G02');
+    const offered = await requestSeatSwap(ALICE, 'b1', BOB.email, 'transfer', later(5));
+
+    const accepted = await respondToSeatSwap(BOB, offered.swap!.id, true, undefined, later(6));
+
+    expect(accepted).toEqual({ success: false, message: 'You already have a booking for seat G02 at that time' });
+    expect(readPath(seatPath('G01/bookedBy'))).toBe('user1');
+  });
+
+  test('requests can be declined or withdrawn, and only one is open per booking', async () => {
+    seedHold(ALICE, 'b1', 'G01');
+    const first = await requestSeatSwap(ALICE, 'b1', BOB.email, 'swap', later(5));
+
+    expect((await requestSeatSwap(ALICE, 'b1', 'carol@srmist.edu.in', 'swap', later(6))).message).toBe(
+      `You have already offered this booking to ${BOB.email}`
+    );
+    expect((await respondToSeatSwap(BOB, first.swap!.id, false, undefined, later(7))).swap!.status).toBe('declined');
+
+    const second = await requestSeatSwap(ALICE, 'b1', 'carol@srmist.edu.in', 'transfer', later(8));
+    expect((await cancelSeatSwap(BOB, second.swap!.id, later(9))).success).toBe(false);
+    expect((await cancelSeatSwap(ALICE, second.swap!.id, later(9))).swap!.status).toBe('cancelled');
+
+    expect((await getUserSeatSwaps('user1', ALICE.email, later(10))).map((swap) => swap.status)).toEqual([
+      'cancelled',
+      'declined',
+    ]);
+    expect(await getUserSeatSwaps('user1', ALICE.email, later(120))).toEqual([]);
+  });
+});
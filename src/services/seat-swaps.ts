@@ -0,0 +1,597 @@
+import { ref, get, set, push, update, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { isOpenBooking, transitionBooking } from '@/lib/booking-status';
+import { normalizeEmail } from '@/lib/group-booking';
+import { getSeatSlot, getSlotProblem, isSameSlot, placeSlot, reassignSlot, type SeatSlot } from '@/lib/seat-swap';
+import { recordAuditEvent } from '@/services/audit-log';
+import { getUserBookings, releaseFromSeat, releaseUserClaim } from '@/services/booking-engine';
+import { checkBookingPolicy } from '@/services/booking-policy';
+import { resolveSeatPath } from '@/services/seat-layout';
+import { offerFreedSeat } from '@/services/waitlist';
+import type { Booking, Seat, SeatSwapKind, SeatSwapRequest, SeatSwapResult } from '@/types';
+
+/**
+ * Seat Swap Service
+ * Moves a student's booking to another seat, and lets two students swap
+ * seats or hand a booking over once both have agreed. The new seat is always
+ * claimed before the old one is let go, so a move that fails leaves the
+ * student where they were.
+ */
+
+export interface SeatSwapUser {
+  userId: string;
+  userName: string;
+  email: string;
+}
+
+/**
+ * Move the student's own booking to another seat. The booking keeps its
+ * times and its QR code.
+ */
+export async function moveBooking(
+  userId: string,
+  bookingId: string,
+  toSeatId: string,
+  now: Date = new Date()
+): Promise<SeatSwapResult> {
+  try {
+    const booking = await getBooking(userId, bookingId);
+    const problem = getMoveProblem(booking, now);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+    if (booking!.seatId === toSeatId) {
+      return { success: false, message: `You are already booked on seat ${toSeatId}` };
+    }
+
+    const [fromPath, toPath] = await Promise.all([resolveSeatPath(booking!.seatId), resolveSeatPath(toSeatId)]);
+    if (!fromPath || !toPath) {
+      return { success: false, message: `Seat ${fromPath ? toSeatId : booking!.seatId} not found` };
+    }
+
+    const rejection = await moveSlot(bookingId, fromPath, toPath, now);
+    if (rejection) {
+      return { success: false, message: rejection };
+    }
+
+    const moved = await reseatBooking(booking!, toSeatId, now);
+    await offerFreedSeat(booking!.seatId, now);
+
+    await recordAuditEvent(
+      {
+        actorId: userId,
+        adminName: booking!.userName,
+        action: 'move_booking',
+        targetId: bookingId,
+        targetType: 'booking',
+        details: { fromSeatId: booking!.seatId, toSeatId },
+      },
+      now
+    );
+
+    return { success: true, booking: moved };
+  } catch (error) {
+    console.error('Error moving booking:', error);
+    throw error;
+  }
+}
+
+/**
+ * Offer another student a seat swap or the booking itself. Nothing changes
+ * until they accept.
+ */
+export async function requestSeatSwap(
+  from: SeatSwapUser,
+  bookingId: string,
+  toEmail: string,
+  kind: SeatSwapKind,
+  now: Date = new Date()
+): Promise<SeatSwapResult> {
+  try {
+    const email = normalizeEmail(toEmail);
+    if (!email || email === normalizeEmail(from.email)) {
+      return { success: false, message: 'Enter the email of the student you want to swap with' };
+    }
+
+    const booking = await getBooking(from.userId, bookingId);
+    const problem = getMoveProblem(booking, now);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    const pending = (await getAllSwaps()).find(
+      (swap) => swap.fromBookingId === bookingId && isPendingSwap(swap, now)
+    );
+    if (pending) {
+      return { success: false, message: `You have already offered this booking to ${pending.toEmail}` };
+    }
+
+    const swapRef = push(ref(db, 'seatSwaps'));
+    const swap: SeatSwapRequest = {
+      id: swapRef.key!,
+      kind,
+      status: 'pending',
+      fromUserId: from.userId,
+      fromUserName: from.userName,
+      fromBookingId: bookingId,
+      fromSeatId: booking!.seatId,
+      toEmail: email,
+      expiresAt: booking!.endTime,
+      createdAt: now.toISOString(),
+    };
+
+    await set(swapRef, swap);
+
+    return { success: true, swap };
+  } catch (error) {
+    console.error('Error requesting seat swap:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accept or decline a swap offered to this student. Accepting a swap needs
+ * the booking whose seat they are giving in return.
+ */
+export async function respondToSeatSwap(
+  user: SeatSwapUser,
+  swapId: string,
+  accept: boolean,
+  bookingId?: string,
+  now: Date = new Date()
+): Promise<SeatSwapResult> {
+  try {
+    const swapSnapshot = await get(ref(db, `seatSwaps/${swapId}`));
+    const swap = swapSnapshot.exists() ? (swapSnapshot.val() as SeatSwapRequest) : null;
+
+    if (!swap || swap.toEmail !== normalizeEmail(user.email) || !isPendingSwap(swap, now)) {
+      return { success: false, message: 'Swap request not found or no longer pending' };
+    }
+
+    if (!accept) {
+      const declined = await closeSwap(swap, 'declined', user, now);
+      return declined ? { success: true, swap: declined } : { success: false, message: 'Swap request is no longer pending' };
+    }
+
+    const offered = await getBooking(swap.fromUserId, swap.fromBookingId);
+    if (getMoveProblem(offered, now) || offered!.seatId !== swap.fromSeatId) {
+      return { success: false, message: `${swap.fromUserName}'s booking has changed since they asked` };
+    }
+
+    let mine: Booking | null = null;
+    if (swap.kind === 'swap') {
+      mine = bookingId ? await getBooking(user.userId, bookingId) : null;
+      const problem = getMoveProblem(mine, now);
+      if (problem) {
+        return { success: false, message: problem };
+      }
+      if (mine!.seatId === offered!.seatId) {
+        return { success: false, message: 'You are already on that seat' };
+      }
+    }
+
+    // Claim the request so it can only be carried out once
+    const claim = await runTransaction(ref(db, `seatSwaps/${swapId}`), (current: SeatSwapRequest | null) => {
+      if (!current || current.status !== 'pending') {
+        return;
+      }
+      return { ...current, status: 'completed', toUserId: user.userId, toUserName: user.userName, respondedAt: now.toISOString() };
+    });
+
+    if (!claim.committed) {
+      return { success: false, message: 'Swap request is no longer pending' };
+    }
+
+    const result = mine
+      ? await swapSeats(offered!, mine, now)
+      : await transferBooking(offered!, user, now);
+
+    if (!result.success) {
+      // Leave the request open so it can be retried or declined
+      await set(ref(db, `seatSwaps/${swapId}`), swap);
+      return result;
+    }
+
+    const completed: SeatSwapRequest = {
+      ...(claim.snapshot.val() as SeatSwapRequest),
+      toBookingId: result.booking!.id,
+      toSeatId: result.booking!.seatId,
+    };
+    await update(ref(db, `seatSwaps/${swapId}`), { toBookingId: completed.toBookingId, toSeatId: completed.toSeatId });
+
+    return { success: true, swap: completed, booking: result.booking };
+  } catch (error) {
+    console.error('Error responding to seat swap:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a swap the student offered
+ */
+export async function cancelSeatSwap(
+  user: SeatSwapUser,
+  swapId: string,
+  now: Date = new Date()
+): Promise<SeatSwapResult> {
+  try {
+    const swapSnapshot = await get(ref(db, `seatSwaps/${swapId}`));
+    const swap = swapSnapshot.exists() ? (swapSnapshot.val() as SeatSwapRequest) : null;
+
+    if (!swap || swap.fromUserId !== user.userId) {
+      return { success: false, message: 'Swap request not found' };
+    }
+
+    const cancelled = await closeSwap(swap, 'cancelled', null, now);
+    return cancelled ? { success: true, swap: cancelled } : { success: false, message: 'Swap request is no longer pending' };
+  } catch (error) {
+    console.error('Error cancelling seat swap:', error);
+    throw error;
+  }
+}
+
+/**
+ * Swaps the student offered or was offered, for bookings that haven't ended,
+ * newest first
+ */
+export async function getUserSeatSwaps(
+  userId: string,
+  email: string,
+  now: Date = new Date()
+): Promise<SeatSwapRequest[]> {
+  try {
+    const normalized = normalizeEmail(email);
+    return (await getAllSwaps())
+      .filter((swap) => swap.fromUserId === userId || swap.toEmail === normalized)
+      .filter((swap) => new Date(swap.expiresAt) > now)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error fetching seat swaps:', error);
+    return [];
+  }
+}
+
+// Helper Functions
+
+async function getBooking(userId: string, bookingId: string): Promise<Booking | null> {
+  const snapshot = await get(ref(db, `bookings/${userId}/${bookingId}`));
+  return snapshot.exists() ? { ...(snapshot.val() as Booking), id: bookingId } : null;
+}
+
+async function getAllSwaps(): Promise<SeatSwapRequest[]> {
+  const snapshot = await get(ref(db, 'seatSwaps'));
+  return snapshot.exists() ? (Object.values(snapshot.val()) as SeatSwapRequest[]) : [];
+}
+
+function isPendingSwap(swap: SeatSwapRequest, now: Date): boolean {
+  return swap.status === 'pending' && new Date(swap.expiresAt) > now;
+}
+
+/**
+ * Why the booking can't change seats, or null if it can
+ */
+function getMoveProblem(booking: Booking | null, now: Date): string | null {
+  if (!booking) {
+    return 'Booking not found';
+  }
+  if (!isOpenBooking(booking.status) || new Date(booking.endTime) <= now) {
+    return 'Only upcoming or current bookings can change seats';
+  }
+  if (booking.currentBreakId) {
+    return 'You cannot change seats while on a break';
+  }
+  return null;
+}
+
+async function closeSwap(
+  swap: SeatSwapRequest,
+  status: 'declined' | 'cancelled',
+  responder: SeatSwapUser | null,
+  now: Date
+): Promise<SeatSwapRequest | null> {
+  const result = await runTransaction(ref(db, `seatSwaps/${swap.id}`), (current: SeatSwapRequest | null) => {
+    if (!current || current.status !== 'pending') {
+      return;
+    }
+    return {
+      ...current,
+      status,
+      ...(responder ? { toUserId: responder.userId, toUserName: responder.userName } : {}),
+      respondedAt: now.toISOString(),
+    };
+  });
+  return result.committed ? (result.snapshot.val() as SeatSwapRequest) : null;
+}
+
+/**
+ * Claim the booking's slot on the new seat, then release the old one.
+ * Returns why the move failed, or null.
+ */
+async function moveSlot(bookingId: string, fromPath: string, toPath: string, now: Date): Promise<string | null> {
+  const fromSnapshot = await get(ref(db, fromPath));
+  const slot = fromSnapshot.exists() ? getSeatSlot(fromSnapshot.val() as Seat, bookingId) : null;
+  if (!slot) {
+    return 'Your seat is no longer held for this booking';
+  }
+
+  let rejection = 'Seat not found';
+  const claim = await runTransaction(ref(db, toPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    const problem = getSlotProblem(seat, slot, now);
+    if (problem) {
+      rejection = problem;
+      return;
+    }
+    return placeSlot(seat, slot);
+  });
+
+  const claimed = claim.snapshot.val() as Seat | null;
+  if (!claim.committed || !claimed || !getSeatSlot(claimed, bookingId)) {
+    return rejection;
+  }
+
+  // Let go of the old seat, unless the booking changed there in the meantime
+  const release = await runTransaction(ref(db, fromPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    if (!isSameSlot(getSeatSlot(seat, bookingId), slot)) {
+      return;
+    }
+    return releaseFromSeat(seat, bookingId);
+  });
+
+  if (!release.committed) {
+    await runTransaction(ref(db, toPath), (seat: Seat | null) => {
+      if (seat === null) {
+        return null;
+      }
+      return releaseFromSeat(seat, bookingId);
+    });
+    return 'Your booking changed while it was being moved; please try again';
+  }
+
+  return null;
+}
+
+/**
+ * Swap two bookings' seats: each seat in turn drops its booking and takes
+ * the other's. If the second seat can't be swapped the first is put back.
+ */
+async function swapSeats(offered: Booking, mine: Booking, now: Date): Promise<SeatSwapResult> {
+  const [offeredPath, minePath] = await Promise.all([resolveSeatPath(offered.seatId), resolveSeatPath(mine.seatId)]);
+  if (!offeredPath || !minePath) {
+    return { success: false, message: 'Seat not found' };
+  }
+
+  const [offeredSeat, mySeat] = await Promise.all([get(ref(db, offeredPath)), get(ref(db, minePath))]);
+  const offeredSlot = offeredSeat.exists() ? getSeatSlot(offeredSeat.val() as Seat, offered.id) : null;
+  const mySlot = mySeat.exists() ? getSeatSlot(mySeat.val() as Seat, mine.id) : null;
+  if (!offeredSlot || !mySlot) {
+    return { success: false, message: 'One of the seats is no longer held for its booking' };
+  }
+
+  let rejection = await exchangeSlot(offeredPath, offered.id, offeredSlot, mySlot, now);
+  if (rejection) {
+    return { success: false, message: rejection };
+  }
+
+  rejection = await exchangeSlot(minePath, mine.id, mySlot, offeredSlot, now);
+  if (rejection) {
+    await restoreSlot(offeredPath, offered, mine, offeredSlot, now);
+    return { success: false, message: rejection };
+  }
+
+  await reseatBooking(offered, mine.seatId, now);
+  const swapped = await reseatBooking(mine, offered.seatId, now);
+
+  await recordAuditEvent(
+    {
+      actorId: mine.userId,
+      adminName: mine.userName,
+      action: 'swap_seats',
+      targetId: mine.id,
+      targetType: 'booking',
+      details: {
+        bookingIds: [offered.id, mine.id],
+        userIds: [offered.userId, mine.userId],
+        seatIds: [offered.seatId, mine.seatId],
+      },
+    },
+    now
+  );
+
+  return { success: true, booking: swapped };
+}
+
+/**
+ * Replace the booking's slot on a seat with another booking's slot.
+ * Returns why it couldn't, or null.
+ */
+async function exchangeSlot(
+  seatPath: string,
+  bookingId: string,
+  expected: SeatSlot,
+  replacement: SeatSlot,
+  now: Date
+): Promise<string | null> {
+  let rejection = 'Seat not found';
+  const result = await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    if (!isSameSlot(getSeatSlot(seat, bookingId), expected)) {
+      rejection = 'A booking changed while the seats were being swapped; please try again';
+      return;
+    }
+    const released = releaseFromSeat(seat, bookingId)!;
+    const problem = getSlotProblem(released, replacement, now);
+    if (problem) {
+      rejection = problem;
+      return;
+    }
+    return placeSlot(released, replacement);
+  });
+
+  return result.committed && result.snapshot.exists() ? null : rejection;
+}
+
+/**
+ * Undo the first half of a swap: take my booking's slot back off the offered
+ * seat and put the offered booking's slot back. If the seat has since been
+ * reserved over that slot it is not overwritten; the offered booking is left
+ * without a seat and the failure is recorded for staff to resolve.
+ */
+async function restoreSlot(seatPath: string, offered: Booking, mine: Booking, slot: SeatSlot, now: Date): Promise<void> {
+  let problem: string | null = `${mine.userName}'s booking was no longer on seat ${offered.seatId}`;
+  await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    const released = releaseFromSeat(seat, mine.id);
+    if (!released) {
+      return;
+    }
+    problem = getSlotProblem(released, slot, now);
+    return problem ? released : placeSlot(released, slot);
+  });
+
+  if (problem) {
+    await recordAuditEvent(
+      {
+        actorId: mine.userId,
+        adminName: mine.userName,
+        action: 'swap_rollback_failed',
+        targetId: offered.id,
+        targetType: 'booking',
+        reason: problem,
+        details: { seatId: offered.seatId, userId: offered.userId, swappedWith: mine.id },
+      },
+      now
+    );
+  }
+}
+
+/**
+ * Hand the offered booking over: the recipient gets a booking of their own
+ * for the same seat and end time, and the original is cancelled
+ */
+async function transferBooking(offered: Booking, recipient: SeatSwapUser, now: Date): Promise<SeatSwapResult> {
+  const startTime = new Date(Math.max(new Date(offered.startTime).getTime(), now.getTime()));
+  const endTime = new Date(offered.endTime);
+
+  const violations = await checkBookingPolicy(recipient.userId, startTime, endTime, now);
+  if (violations.length > 0) {
+    return { success: false, message: violations[0].message };
+  }
+
+  const overlapping = (await getUserBookings(recipient.userId)).find(
+    (b) => isOpenBooking(b.status) && new Date(b.startTime) < endTime && new Date(b.endTime) > startTime
+  );
+  if (overlapping) {
+    return { success: false, message: `You already have a booking for seat ${overlapping.seatId} at that time` };
+  }
+
+  const seatPath = await resolveSeatPath(offered.seatId);
+  if (!seatPath) {
+    return { success: false, message: `Seat ${offered.seatId} not found` };
+  }
+
+  const bookingId = push(ref(db, `bookings/${recipient.userId}`)).key!;
+  const isCurrentHold = startTime.getTime() === now.getTime();
+
+  if (isCurrentHold) {
+    const pointer = await get(ref(db, `users/${recipient.userId}/currentBookingId`));
+    const staleBookingId = pointer.exists() ? (pointer.val() as string) : null;
+    const userClaim = await runTransaction(
+      ref(db, `users/${recipient.userId}/currentBookingId`),
+      (current: string | null) => {
+        if (current && current !== staleBookingId) {
+          return;
+        }
+        return bookingId;
+      }
+    );
+
+    if (!userClaim.committed) {
+      return { success: false, message: 'You already have a booking in progress' };
+    }
+  }
+
+  const seatClaim = await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    const slot = getSeatSlot(seat, offered.id);
+    if (!slot) {
+      return;
+    }
+    return placeSlot(releaseFromSeat(seat, offered.id)!, reassignSlot(slot, bookingId, recipient.userId, now));
+  });
+
+  const claimedSeat = seatClaim.snapshot.val() as Seat | null;
+  if (!seatClaim.committed || !claimedSeat || !getSeatSlot(claimedSeat, bookingId)) {
+    if (isCurrentHold) {
+      await releaseUserClaim(recipient.userId, bookingId);
+    }
+    return { success: false, message: `${offered.userName}'s seat is no longer held for their booking` };
+  }
+
+  const nowISO = now.toISOString();
+  const booking: Booking = {
+    id: bookingId,
+    seatId: offered.seatId,
+    userId: recipient.userId,
+    userName: recipient.userName,
+    userEmail: recipient.email,
+    bookingTime: nowISO,
+    startTime: startTime.toISOString(),
+    endTime: offered.endTime,
+    status: 'pending',
+    duration: Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)),
+    transferredFrom: offered.id,
+    createdAt: nowISO,
+    updatedAt: nowISO,
+  };
+
+  await set(ref(db, `bookings/${recipient.userId}/${bookingId}`), booking);
+
+  const cancelReason = `Transferred to ${recipient.userName}`;
+  await update(ref(db, `bookings/${offered.userId}/${offered.id}`), {
+    status: transitionBooking(offered.status, 'cancel'),
+    cancelReason,
+    updatedAt: nowISO,
+  });
+  await releaseUserClaim(offered.userId, offered.id);
+
+  await recordAuditEvent(
+    {
+      actorId: recipient.userId,
+      adminName: recipient.userName,
+      action: 'transfer_booking',
+      targetId: bookingId,
+      targetType: 'booking',
+      reason: cancelReason,
+      details: { seatId: offered.seatId, fromUserId: offered.userId, fromBookingId: offered.id },
+    },
+    now
+  );
+
+  return { success: true, booking };
+}
+
+/**
+ * Point the booking at its new seat, remembering the old one so the QR code
+ * issued for it still scans
+ */
+async function reseatBooking(booking: Booking, seatId: string, now: Date): Promise<Booking> {
+  const changes = {
+    seatId,
+    movedFrom: [...(booking.movedFrom || []), booking.seatId],
+    updatedAt: now.toISOString(),
+  };
+  await update(ref(db, `bookings/${booking.userId}/${booking.id}`), changes);
+  return { ...booking, ...changes };
+}
@@ -1,10 +1,29 @@
-import { ref, get, update } from 'firebase/database';
+import { ref, get, set, push, update, runTransaction } from 'firebase/database';
 import { db } from '@/lib/firebase';
-import type { UserProfile, Booking, UserStatistics } from '@/types';
+import { getBreakHours, getStudyHours } from '@/lib/booking-break';
+import { hasRestrictionLapsed } from '@/lib/restrictions';
+import { recordAuditEvent } from '@/services/audit-log';
+import type {
+  UserProfile,
+  UserRole,
+  Booking,
+  UserStatistics,
+  RestrictionHistoryEntry,
+  RestrictionSeverity,
+  UserRestrictions,
+} from '@/types';
+
+export interface FlagOptions {
+  severity?: RestrictionSeverity;
+  expiresAt?: string; // Makes the flag a suspension that lifts itself
+}
 
 /**
  * User Management Service
- * Provides functions for user profile management, statistics, and restrictions
+ * Provides functions for user profile management, statistics, and restrictions.
+ * Restrictions and their history are kept at restrictions/{userId} and
+ * restrictionHistory/{userId}, apart from the profile students can edit, so
+ * a suspended student can't lift their own suspension.
  */
 
 /**
@@ -69,33 +88,58 @@ export async function getUserBookingHistory(
 }
 
 /**
- * Flag a user (restrict booking privileges)
+ * Flag a user (restrict booking privileges), optionally only until
+ * `options.expiresAt`
  */
 export async function flagUser(
   userId: string,
   reason: string,
-  adminId: string
+  adminId: string,
+  options: FlagOptions = {},
+  now: Date = new Date()
 ): Promise<void> {
   try {
-    const userRef = ref(db, `users/${userId}`);
-    const snapshot = await get(userRef);
+    const snapshot = await get(ref(db, `users/${userId}`));
 
     if (!snapshot.exists()) {
       throw new Error('User not found');
     }
 
-    await update(userRef, {
-      restrictions: {
-        isFlagged: true,
+    const severity = options.severity || 'moderate';
+    const restrictions: UserRestrictions = {
+      isFlagged: true,
+      reason,
+      flaggedBy: adminId,
+      flaggedAt: now.toISOString(),
+      severity,
+      ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+    };
+
+    await update(ref(db), {
+      [`restrictions/${userId}`]: restrictions,
+      ...restrictionHistoryUpdate(userId, {
+        event: 'flagged',
+        at: now.toISOString(),
+        by: adminId,
         reason,
-        flaggedBy: adminId,
-        flaggedAt: new Date().toISOString(),
-      },
-      updatedAt: new Date().toISOString(),
+        severity,
+        expiresAt: options.expiresAt,
+      }),
+      [`users/${userId}/updatedAt`]: now.toISOString(),
     });
 
     // Log the action
-    await logAdminAction(adminId, 'flag_user', userId, 'user', reason);
+    await recordAuditEvent(
+      {
+        adminId,
+        action: 'flag_user',
+        targetId: userId,
+        targetType: 'user',
+        reason,
+        details: { severity, expiresAt: options.expiresAt || null },
+      },
+      now
+    );
   } catch (error) {
     console.error('Error flagging user:', error);
     throw error;
@@ -105,30 +149,172 @@ export async function flagUser(
 /**
  * Remove flag from user (restore booking privileges)
  */
-export async function unflagUser(userId: string, adminId: string): Promise<void> {
+export async function unflagUser(userId: string, adminId: string, now: Date = new Date()): Promise<void> {
   try {
-    const userRef = ref(db, `users/${userId}`);
-    const snapshot = await get(userRef);
+    const snapshot = await get(ref(db, `users/${userId}`));
 
     if (!snapshot.exists()) {
       throw new Error('User not found');
     }
 
-    await update(userRef, {
-      restrictions: {
-        isFlagged: false,
-      },
-      updatedAt: new Date().toISOString(),
+    await update(ref(db), {
+      [`restrictions/${userId}`]: { isFlagged: false },
+      ...restrictionHistoryUpdate(userId, { event: 'unflagged', at: now.toISOString(), by: adminId }),
+      [`users/${userId}/updatedAt`]: now.toISOString(),
     });
 
     // Log the action
-    await logAdminAction(adminId, 'unflag_user', userId, 'user', 'Restrictions removed');
+    await recordAuditEvent(
+      {
+        adminId,
+        action: 'unflag_user',
+        targetId: userId,
+        targetType: 'user',
+        reason: 'Restrictions removed',
+      },
+      now
+    );
   } catch (error) {
     console.error('Error unflagging user:', error);
     throw error;
   }
 }
 
+/**
+ * Lift suspensions whose time is up, recording each in the user's history
+ * and the audit log. Run by the scheduled sweep; returns the users freed.
+ */
+export async function liftExpiredRestrictions(now: Date = new Date()): Promise<string[]> {
+  try {
+    const snapshot = await get(ref(db, 'restrictions'));
+    const lapsed: Array<{ userId: string; restrictions: UserRestrictions }> = [];
+
+    snapshot.forEach((child) => {
+      const restrictions = child.val() as UserRestrictions;
+      if (hasRestrictionLapsed(restrictions, now)) {
+        lapsed.push({ userId: child.key!, restrictions });
+      }
+    });
+
+    const lifted: string[] = [];
+
+    for (const { userId, restrictions: read } of lapsed) {
+      // Re-check inside the transaction: staff may have flagged the student again since the read
+      let restrictions = read;
+      const result = await runTransaction(
+        ref(db, `restrictions/${userId}`),
+        (current: UserRestrictions | null) => {
+          if (!hasRestrictionLapsed(current, now)) {
+            return;
+          }
+          restrictions = current!;
+          return { isFlagged: false };
+        }
+      );
+
+      if (!result.committed) {
+        continue;
+      }
+
+      await update(ref(db), {
+        ...restrictionHistoryUpdate(userId, { event: 'expired', at: now.toISOString(), by: 'system', reason: restrictions.reason }),
+        [`users/${userId}/updatedAt`]: now.toISOString(),
+      });
+
+      await recordAuditEvent(
+        {
+          adminId: 'system',
+          adminName: 'Suspension Expiry',
+          action: 'unflag_user',
+          targetId: userId,
+          targetType: 'user',
+          reason: 'Suspension expired',
+          details: { expiresAt: restrictions.expiresAt },
+        },
+        now
+      );
+      lifted.push(userId);
+    }
+
+    return lifted;
+  } catch (error) {
+    console.error('Error lifting expired restrictions:', error);
+    return [];
+  }
+}
+
+/**
+ * Fields to add to an update of the database root that append an entry to
+ * the user's restriction history
+ */
+export function restrictionHistoryUpdate(
+  userId: string,
+  entry: Omit<RestrictionHistoryEntry, 'id'>
+): Record<string, RestrictionHistoryEntry> {
+  const id = push(ref(db, `restrictionHistory/${userId}`)).key!;
+  // The database rejects undefined values
+  return { [`restrictionHistory/${userId}/${id}`]: JSON.parse(JSON.stringify({ id, ...entry })) };
+}
+
+/**
+ * A user's current restriction, if they have ever been flagged
+ */
+export async function getUserRestrictions(userId: string): Promise<UserRestrictions | null> {
+  const snapshot = await get(ref(db, `restrictions/${userId}`));
+  return snapshot.exists() ? (snapshot.val() as UserRestrictions) : null;
+}
+
+/**
+ * A user's restriction history, newest first
+ */
+export async function getRestrictionHistory(userId: string): Promise<RestrictionHistoryEntry[]> {
+  try {
+    const snapshot = await get(ref(db, `restrictionHistory/${userId}`));
+    if (!snapshot.exists()) {
+      return [];
+    }
+
+    return (Object.values(snapshot.val()) as RestrictionHistoryEntry[]).sort((a, b) => b.at.localeCompare(a.at));
+  } catch (error) {
+    console.error('Error fetching restriction history:', error);
+    return [];
+  }
+}
+
+/**
+ * Change a user's role (and so their staff permissions). Roles are stored at
+ * roles/{userId}, away from the profile the student can edit, and this is the
+ * only place that writes them.
+ */
+export async function setUserRole(userId: string, role: UserRole, adminId: string): Promise<void> {
+  try {
+    const snapshot = await get(ref(db, `users/${userId}`));
+
+    if (!snapshot.exists()) {
+      throw new Error('User not found');
+    }
+
+    const roleRef = ref(db, `roles/${userId}`);
+    const previous = await get(roleRef);
+    const previousRole = previous.exists() ? (previous.val() as UserRole) : 'user';
+
+    // Students hold no stored role
+    await set(roleRef, role === 'user' ? null : role);
+
+    // Log the action
+    await recordAuditEvent({
+      adminId,
+      action: 'set_user_role',
+      targetId: userId,
+      targetType: 'user',
+      details: { before: { role: previousRole }, after: { role } },
+    });
+  } catch (error) {
+    console.error('Error setting user role:', error);
+    throw error;
+  }
+}
+
 /**
  * Search users by email or name
  */
@@ -173,13 +359,9 @@ export async function getUserStatistics(userId: string): Promise<UserStatistics>
       (b) => b.status === 'completed' && b.entryTime
     );
 
-    // Calculate total hours booked
-    const totalHoursBooked = completedBookings.reduce((sum, booking) => {
-      const start = new Date(booking.entryTime!);
-      const end = new Date(booking.exitTime || booking.endTime);
-      const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-      return sum + Math.max(0, hours);
-    }, 0);
+    // Calculate total hours booked, with breaks counted separately
+    const totalHoursBooked = completedBookings.reduce((sum, booking) => sum + getStudyHours(booking), 0);
+    const totalBreakHours = completedBookings.reduce((sum, booking) => sum + getBreakHours(booking), 0);
 
     // Calculate average session duration
     const averageSessionDuration =
@@ -228,6 +410,7 @@ export async function getUserStatistics(userId: string): Promise<UserStatistics>
     return {
       totalBookings: bookings.length,
       totalHoursBooked,
+      totalBreakHours,
       averageSessionDuration,
       noShowCount,
       overstayCount,
@@ -241,6 +424,7 @@ export async function getUserStatistics(userId: string): Promise<UserStatistics>
     return {
       totalBookings: 0,
       totalHoursBooked: 0,
+      totalBreakHours: 0,
       averageSessionDuration: 0,
       noShowCount: 0,
       overstayCount: 0,
@@ -264,8 +448,7 @@ function calculateWeeklyUsage(
     if (!booking.entryTime) return;
 
     const start = new Date(booking.entryTime);
-    const end = new Date(booking.exitTime || booking.endTime);
-    const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+    const hours = getStudyHours(booking);
 
     // Get week identifier (ISO week)
     const weekStart = getWeekStart(start);
@@ -292,8 +475,7 @@ function calculateMonthlyUsage(
     if (!booking.entryTime) return;
 
     const start = new Date(booking.entryTime);
-    const end = new Date(booking.exitTime || booking.endTime);
-    const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+    const hours = getStudyHours(booking);
 
     // Get month identifier (YYYY-MM)
     const monthKey = start.toISOString().substring(0, 7);
@@ -316,38 +498,3 @@ function getWeekStart(date: Date): Date {
   const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
   return new Date(d.setDate(diff));
 }
-
-/**
- * Log admin action to audit log
- */
-async function logAdminAction(
-  adminId: string,
-  action: string,
-  targetId: string,
-  targetType: 'booking' | 'user' | 'seat' | 'settings',
-  reason?: string,
-  details?: Record<string, any>
-): Promise<void> {
-  try {
-    const { push, set } = await import('firebase/database');
-    const auditLogsRef = ref(db, 'auditLogs');
-    const newLogRef = push(auditLogsRef);
-
-    const log = {
-      id: newLogRef.key,
-      timestamp: new Date().toISOString(),
-      adminId,
-      adminName: 'Admin', // TODO: Get actual admin name
-      action,
-      targetId,
-      targetType,
-      reason,
-      details,
-    };
-
-    await set(newLogRef, log);
-  } catch (error) {
-    console.error('Error logging admin action:', error);
-    // Don't throw - logging failure shouldn't block the main operation
-  }
-}
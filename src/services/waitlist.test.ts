@@ -0,0 +1,162 @@
+import * as fc from 'fast-check';
+import type { Seat, WaitlistEntry } from '@/types';
+
+// Mock Firebase
+jest.mock('@/lib/firebase', () => ({
+  db: {},
+}));
+
+jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+
+import { readPath, resetMockDatabase, writePath } from '@/test-utils/mock-database';
+
+// Import after mocking
+import { joinWaitlist, leaveWaitlist, getUserWaitlist, offerFreedSeat, processWaitlist } from './waitlist';
+import { WAITLIST_CLAIM_WINDOW_MS } from '@/lib/waitlist';
+import { DEFAULT_LAYOUT } from '@/lib/seat-layout';
+
+const NOW = new Date('2024-03-01T10:00:00.000Z');
+
+function seedSeat(seatId: string, overrides: Partial<Seat> = {}, floorId = 'ground') {
+  writePath(`seats/${floorId}/${seatId}`, {
+    id: seatId,
+    status: 'occupied',
+    bookedBy: 'someone',
+    bookedAt: null,
+    bookingId: 'booking-x',
+    ...overrides,
+  });
+}
+
+function freeSeat(seatId: string, floorId = 'ground') {
+  writePath(`seats/${floorId}/${seatId}/status`, 'available');
+  writePath(`seats/${floorId}/${seatId}/bookedBy`, null);
+  writePath(`seats/${floorId}/${seatId}/bookingId`, null);
+}
+
+function entry(id: string): WaitlistEntry {
+  return readPath(`waitlist/${id}`);
+}
+
+describe('Waitlist Service - Property-Based Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetMockDatabase();
+  });
+
+  // Feature: waitlist, Property 4: A freed seat goes to the longest-waiting matching student
+  test('Property 4: for any queue, each freed seat is offered to the next waiting student in join order', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uniqueArray(fc.stringMatching(/^[a-z]{6}$/), { minLength: 1, maxLength: 5 }), async (userIds) => {
+        resetMockDatabase();
+        seedSeat('G01');
+
+        for (const [index, userId] of userIds.entries()) {
+          const joined = await joinWaitlist(userId, 'Student', { floorId: 'ground' }, new Date(NOW.getTime() + index * 1000));
+          expect(joined.success).toBe(true);
+        }
+
+        freeSeat('G01');
+        let now = NOW.getTime() + 60_000;
+        const offeredTo: string[] = [];
+
+        for (let round = 0; round < userIds.length; round++) {
+          if (round === 0) {
+            await offerFreedSeat('G01', new Date(now));
+          } else {
+            // The previous offer lapses and moves on
+            now += WAITLIST_CLAIM_WINDOW_MS;
+            await processWaitlist(new Date(now));
+          }
+          const seat = readPath('seats/ground/G01') as Seat;
+          offeredTo.push(seat.waitlistHold!.userId);
+        }
+
+        expect(offeredTo).toEqual(userIds);
+      }),
+      { numRuns: 25 }
+    );
+  });
+
+  test('students cannot queue for seats that are free, unknown or already queued for', async () => {
+    seedSeat('G01');
+    seedSeat('G02', { status: 'available', bookedBy: null, bookingId: null });
+
+    expect((await joinWaitlist('u1', 'Student', { seatId: 'G02' }, NOW)).message).toMatch(/available now/);
+    expect((await joinWaitlist('u1', 'Student', { floorId: 'ground' }, NOW)).message).toMatch(/available now/);
+    expect((await joinWaitlist('u1', 'Student', { seatId: 'Z99' }, NOW)).message).toMatch(/not found/);
+    expect((await joinWaitlist('u1', 'Student', {}, NOW)).success).toBe(false);
+
+    expect((await joinWaitlist('u1', 'Student', { seatId: 'G01' }, NOW)).success).toBe(true);
+    expect((await joinWaitlist('u1', 'Student', { seatId: 'G01' }, NOW)).message).toMatch(/already on this waitlist/);
+  });
+
+  test('feature targets only match seats with those features', async () => {
+    writePath('layout', {
+      ...DEFAULT_LAYOUT,
+      seats: { ...DEFAULT_LAYOUT.seats, G02: { ...DEFAULT_LAYOUT.seats.G02, attributes: ['power'] } },
+    });
+    seedSeat('G01');
+    seedSeat('G02');
+
+    await joinWaitlist('u1', 'Student', { attributes: ['power'] }, NOW);
+
+    freeSeat('G01');
+    expect(await offerFreedSeat('G01', NOW)).toBeNull();
+
+    freeSeat('G02');
+    const offered = await offerFreedSeat('G02', NOW);
+    expect(offered?.userId).toBe('u1');
+    expect(offered?.offer?.seatId).toBe('G02');
+  });
+
+  test('students who are already sitting somewhere keep their place but are passed over', async () => {
+    seedSeat('G01');
+    await joinWaitlist('u1', 'Student', { floorId: 'ground' }, NOW);
+    await joinWaitlist('u2', 'Student', { floorId: 'ground' }, new Date(NOW.getTime() + 1000));
+    writePath('users/u1/currentBookingId', 'booking-1');
+
+    freeSeat('G01');
+    const offered = await offerFreedSeat('G01', NOW);
+
+    expect(offered?.userId).toBe('u2');
+    expect(entry(offered!.id).status).toBe('offered');
+    expect((await getUserWaitlist('u1'))[0]).toMatchObject({ status: 'waiting', position: 1 });
+  });
+
+  test('declining an offer hands the seat to the next student', async () => {
+    seedSeat('G01');
+    const first = await joinWaitlist('u1', 'Student', { seatId: 'G01' }, NOW);
+    await joinWaitlist('u2', 'Student', { seatId: 'G01' }, new Date(NOW.getTime() + 1000));
+
+    freeSeat('G01');
+    await offerFreedSeat('G01', NOW);
+    expect(readPath('seats/ground/G01/waitlistHold/userId')).toBe('u1');
+
+    const left = await leaveWaitlist('u1', first.entry!.id, NOW);
+    expect(left.success).toBe(true);
+    expect(entry(first.entry!.id).status).toBe('cancelled');
+    expect(readPath('seats/ground/G01/waitlistHold/userId')).toBe('u2');
+  });
+
+  test('students can only leave their own entries', async () => {
+    seedSeat('G01');
+    const joined = await joinWaitlist('u1', 'Student', { seatId: 'G01' }, NOW);
+
+    expect((await leaveWaitlist('u2', joined.entry!.id, NOW)).success).toBe(false);
+    expect(entry(joined.entry!.id).status).toBe('waiting');
+  });
+
+  test('an unclaimed offer with nobody else waiting releases the seat', async () => {
+    seedSeat('G01');
+    const joined = await joinWaitlist('u1', 'Student', { seatId: 'G01' }, NOW);
+    freeSeat('G01');
+    await offerFreedSeat('G01', NOW);
+
+    const result = await processWaitlist(new Date(NOW.getTime() + WAITLIST_CLAIM_WINDOW_MS));
+
+    expect(result).toEqual({ expired: [joined.entry!.id], offered: [] });
+    expect(entry(joined.entry!.id).status).toBe('expired');
+    expect(readPath('seats/ground/G01/waitlistHold')).toBeUndefined();
+  });
+});
@@ -0,0 +1,437 @@
+import { ref, get, set, push, runTransaction } from 'firebase/database';
+import { db } from '@/lib/firebase';
+import { isRestrictionActive } from '@/lib/restrictions';
+import { normalizeSeatAttributes } from '@/lib/seat-attributes';
+import { getFloorSeats } from '@/lib/seat-layout';
+import {
+  getActiveHold,
+  getTargetKey,
+  getWaitlistCandidates,
+  getWaitlistPosition,
+  isActiveWaitlistEntry,
+  matchesWaitlistTarget,
+  MAX_ACTIVE_WAITLIST_ENTRIES,
+  WAITLIST_CLAIM_WINDOW_MS,
+} from '@/lib/waitlist';
+import { getSeatLayout, resolveSeatPath } from '@/services/seat-layout';
+import { getUserRestrictions } from '@/services/user-management';
+import type { Seat, SeatLayout, WaitlistEntry, WaitlistResult, WaitlistTarget } from '@/types';
+
+/**
+ * Waitlist Service
+ * Students queue for a specific seat or for any seat on a floor and/or with
+ * given attributes. Whenever a seat is freed (check-out, cancellation or the
+ * sweeper) it is offered to the longest-waiting matching student and held for
+ * them; lapsed offers are moved on by the sweeper.
+ */
+
+export interface WaitlistSweepResult {
+  expired: string[];
+  offered: string[];
+}
+
+/**
+ * Join the waitlist for a seat, floor or set of attributes
+ */
+export async function joinWaitlist(
+  userId: string,
+  userName: string,
+  target: WaitlistTarget,
+  now: Date = new Date()
+): Promise<WaitlistResult> {
+  try {
+    const normalized = normalizeTarget(target);
+    if (!normalized) {
+      return { success: false, message: 'Choose a seat, a floor or at least one seat feature' };
+    }
+
+    if (isRestrictionActive(await getUserRestrictions(userId), now)) {
+      return { success: false, message: 'Your booking privileges have been restricted' };
+    }
+
+    const layout = await getSeatLayout();
+
+    if (normalized.seatId && !layout.seats[normalized.seatId]) {
+      return { success: false, message: `Seat ${normalized.seatId} not found` };
+    }
+    if (normalized.floorId && !layout.floors[normalized.floorId]) {
+      return { success: false, message: `Floor ${normalized.floorId} not found` };
+    }
+
+    const entries = await getAllEntries();
+    const active = entries.filter((entry) => entry.userId === userId && isActiveWaitlistEntry(entry));
+
+    if (active.some((entry) => getTargetKey(entry.target) === getTargetKey(normalized))) {
+      return { success: false, message: 'You are already on this waitlist' };
+    }
+    if (active.length >= MAX_ACTIVE_WAITLIST_ENTRIES) {
+      return {
+        success: false,
+        message: `You can be on at most ${MAX_ACTIVE_WAITLIST_ENTRIES} waitlists at a time`,
+      };
+    }
+
+    const freeSeatId = await findFreeSeat(layout, normalized, now);
+    if (freeSeatId) {
+      return { success: false, message: `Seat ${freeSeatId} is available now, so there is no need to wait` };
+    }
+
+    const entryRef = push(ref(db, 'waitlist'));
+    const nowISO = now.toISOString();
+    const entry: WaitlistEntry = {
+      id: entryRef.key!,
+      userId,
+      userName,
+      target: normalized,
+      status: 'waiting',
+      createdAt: nowISO,
+      updatedAt: nowISO,
+    };
+
+    await set(entryRef, entry);
+
+    return { success: true, entry };
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Leave a waitlist, or decline an offer. A held seat is offered to the next
+ * student straight away.
+ */
+export async function leaveWaitlist(
+  userId: string,
+  entryId: string,
+  now: Date = new Date()
+): Promise<WaitlistResult> {
+  try {
+    const entryRef = ref(db, `waitlist/${entryId}`);
+    let before: WaitlistEntry | null = null;
+
+    const result = await runTransaction(entryRef, (entry: WaitlistEntry | null) => {
+      if (entry === null) {
+        return null;
+      }
+      if (entry.userId !== userId || !isActiveWaitlistEntry(entry)) {
+        return;
+      }
+      before = entry;
+      return { ...entry, status: 'cancelled', updatedAt: now.toISOString() };
+    });
+
+    const cancelled = before as WaitlistEntry | null;
+    if (!result.committed || !cancelled) {
+      return { success: false, message: 'Waitlist entry not found' };
+    }
+
+    if (cancelled.status === 'offered' && cancelled.offer) {
+      await releaseHold(cancelled.offer.seatId, entryId);
+      await offerFreedSeat(cancelled.offer.seatId, now);
+    }
+
+    return { success: true, entry: result.snapshot.val() as WaitlistEntry };
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a user's waiting and offered entries, with their place in the queue
+ */
+export async function getUserWaitlist(
+  userId: string
+): Promise<Array<WaitlistEntry & { position: number }>> {
+  try {
+    const entries = await getAllEntries();
+
+    return entries
+      .filter((entry) => entry.userId === userId && isActiveWaitlistEntry(entry))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((entry) => ({ ...entry, position: getWaitlistPosition(entries, entry) }));
+  } catch (error) {
+    console.error('Error fetching waitlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Offer a freed seat to the next matching student and hold it for them.
+ * Called after a seat is released; failures are logged, not thrown, since the
+ * release itself has already happened.
+ */
+export async function offerFreedSeat(
+  seatId: string,
+  now: Date = new Date()
+): Promise<WaitlistEntry | null> {
+  try {
+    const seatPath = await resolveSeatPath(seatId);
+    if (!seatPath) {
+      return null;
+    }
+
+    const seatSnapshot = await get(ref(db, seatPath));
+    const seat = seatSnapshot.exists() ? (seatSnapshot.val() as Seat) : null;
+
+    if (!seat || seat.status !== 'available' || getActiveHold(seat, now)) {
+      return null;
+    }
+
+    const entries = await getAllEntries();
+    if (!entries.some((entry) => entry.status === 'waiting')) {
+      return null;
+    }
+
+    // Students already holding an offer can only claim one seat at a time
+    const offeredUserIds = new Set(
+      entries.filter((entry) => entry.status === 'offered').map((entry) => entry.userId)
+    );
+    const floorId = seatPath.split('/')[1];
+    const layout = await getSeatLayout();
+    const candidates = getWaitlistCandidates(
+      entries,
+      { id: seatId, floorId, attributes: layout.seats[seatId]?.attributes },
+      offeredUserIds
+    );
+
+    for (const candidate of candidates) {
+      // Students who are sitting somewhere already can't take the seat
+      const currentBooking = await get(ref(db, `users/${candidate.userId}/currentBookingId`));
+      if (currentBooking.exists()) {
+        continue;
+      }
+
+      const offered = await makeOffer(candidate, seatPath, seatId, now);
+      if (offered !== 'skipped') {
+        return offered;
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error offering seat to the waitlist:', error);
+    return null;
+  }
+}
+
+/**
+ * Mark an offer as claimed once the student has booked the seat
+ */
+export async function completeWaitlistOffer(
+  entryId: string,
+  bookingId: string,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    await runTransaction(ref(db, `waitlist/${entryId}`), (entry: WaitlistEntry | null) => {
+      if (entry === null) {
+        return null;
+      }
+      if (entry.status !== 'offered') {
+        return;
+      }
+      return { ...entry, status: 'claimed', bookingId, updatedAt: now.toISOString() };
+    });
+  } catch (error) {
+    console.error('Error completing waitlist offer:', error);
+  }
+}
+
+/**
+ * Expire offers whose claim window has passed and offer their seats to the
+ * next students. Run by the booking sweeper.
+ */
+export async function processWaitlist(now: Date = new Date()): Promise<WaitlistSweepResult> {
+  const result: WaitlistSweepResult = { expired: [], offered: [] };
+  const entries = await getAllEntries();
+  const lapsed = entries.filter(
+    (entry) => entry.status === 'offered' && entry.offer && new Date(entry.offer.expiresAt) <= now
+  );
+
+  for (const entry of lapsed) {
+    const expired = await runTransaction(ref(db, `waitlist/${entry.id}`), (current: WaitlistEntry | null) => {
+      if (current === null) {
+        return null;
+      }
+      if (current.status !== 'offered' || current.offer?.seatId !== entry.offer!.seatId) {
+        return;
+      }
+      return { ...current, status: 'expired', updatedAt: now.toISOString() };
+    });
+
+    if (!expired.committed || !expired.snapshot.exists()) {
+      continue;
+    }
+
+    result.expired.push(entry.id);
+    await releaseHold(entry.offer!.seatId, entry.id);
+
+    const next = await offerFreedSeat(entry.offer!.seatId, now);
+    if (next) {
+      result.offered.push(next.id);
+    }
+  }
+
+  return result;
+}
+
+// Helper Functions
+
+async function getAllEntries(): Promise<WaitlistEntry[]> {
+  const snapshot = await get(ref(db, 'waitlist'));
+
+  if (!snapshot.exists()) {
+    return [];
+  }
+
+  return Object.entries(snapshot.val() as Record<string, WaitlistEntry>).map(([id, entry]) => ({
+    ...entry,
+    id,
+    target: entry.target || {},
+  }));
+}
+
+/**
+ * Drop unknown attributes and empty fields; null if nothing is left to match
+ */
+function normalizeTarget(target: WaitlistTarget | null | undefined): WaitlistTarget | null {
+  if (!target) {
+    return null;
+  }
+  if (target.seatId) {
+    return { seatId: target.seatId };
+  }
+
+  const attributes = normalizeSeatAttributes(target.attributes || []);
+  if (!attributes) {
+    return null;
+  }
+
+  const normalized: WaitlistTarget = {
+    ...(target.floorId ? { floorId: target.floorId } : {}),
+    ...(attributes.length > 0 ? { attributes } : {}),
+  };
+
+  return normalized.floorId || normalized.attributes ? normalized : null;
+}
+
+/**
+ * Find a seat matching the target that could be booked right now
+ */
+async function findFreeSeat(layout: SeatLayout, target: WaitlistTarget, now: Date): Promise<string | null> {
+  const snapshot = await get(ref(db, 'seats'));
+  const states = (snapshot.exists() ? snapshot.val() : {}) as Record<string, Record<string, Seat>>;
+  const floorIds = target.seatId
+    ? [layout.seats[target.seatId].floorId]
+    : target.floorId
+      ? [target.floorId]
+      : Object.keys(layout.floors);
+
+  for (const floorId of floorIds) {
+    for (const layoutSeat of getFloorSeats(layout, floorId)) {
+      const seat = states[floorId]?.[layoutSeat.id];
+      if (
+        seat &&
+        seat.status === 'available' &&
+        !getActiveHold(seat, now) &&
+        matchesWaitlistTarget(target, { id: layoutSeat.id, floorId, attributes: layoutSeat.attributes })
+      ) {
+        return layoutSeat.id;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Offer a seat to one entry: claim the entry, then hold the seat. Returns
+ * 'skipped' if the entry was taken meanwhile, or null if the seat was.
+ */
+async function makeOffer(
+  candidate: WaitlistEntry,
+  seatPath: string,
+  seatId: string,
+  now: Date
+): Promise<WaitlistEntry | null | 'skipped'> {
+  const expiresAt = now.getTime() + WAITLIST_CLAIM_WINDOW_MS;
+  const entryRef = ref(db, `waitlist/${candidate.id}`);
+
+  const entryClaim = await runTransaction(entryRef, (entry: WaitlistEntry | null) => {
+    if (entry === null) {
+      return null;
+    }
+    if (entry.status !== 'waiting') {
+      return;
+    }
+    return {
+      ...entry,
+      status: 'offered',
+      offer: {
+        seatId,
+        offeredAt: now.toISOString(),
+        expiresAt: new Date(expiresAt).toISOString(),
+      },
+      updatedAt: now.toISOString(),
+    };
+  });
+
+  if (!entryClaim.committed || !entryClaim.snapshot.exists()) {
+    return 'skipped';
+  }
+
+  const seatClaim = await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    if (seat.status !== 'available' || getActiveHold(seat, now)) {
+      return;
+    }
+    return {
+      ...seat,
+      waitlistHold: { entryId: candidate.id, userId: candidate.userId, expiresAt },
+    };
+  });
+
+  const held = seatClaim.snapshot.val() as Seat | null;
+  if (seatClaim.committed && held?.waitlistHold?.entryId === candidate.id) {
+    return entryClaim.snapshot.val() as WaitlistEntry;
+  }
+
+  // Someone took the seat first; put the student back in the queue
+  await runTransaction(entryRef, (entry: WaitlistEntry | null) => {
+    if (entry === null) {
+      return null;
+    }
+    if (entry.status !== 'offered' || entry.offer?.seatId !== seatId) {
+      return;
+    }
+    const { offer: _withdrawn, ...waiting } = entry;
+    return { ...waiting, status: 'waiting', updatedAt: now.toISOString() };
+  });
+
+  return null;
+}
+
+/**
+ * Remove a seat's hold if it still belongs to the entry
+ */
+async function releaseHold(seatId: string, entryId: string): Promise<void> {
+  const seatPath = await resolveSeatPath(seatId);
+  if (!seatPath) {
+    return;
+  }
+
+  await runTransaction(ref(db, seatPath), (seat: Seat | null) => {
+    if (seat === null) {
+      return null;
+    }
+    if (seat.waitlistHold?.entryId !== entryId) {
+      return;
+    }
+    const { waitlistHold: _released, ...rest } = seat;
+    return rest;
+  });
+}
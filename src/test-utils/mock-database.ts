@@ -0,0 +1,97 @@
+/**
+ * In-memory Realtime Database for service tests
+ * Stands in for `firebase/database`, keyed by slash-separated paths. In a
+ * test file:
+ *
+ *   jest.mock('firebase/database', () => require('@/test-utils/mock-database').mockDatabaseModule());
+ *
+ * then seed and inspect `mockTree.root` directly, and call
+ * `resetMockDatabase()` before each test.
+ */
+
+export const mockTree: { root: any } = { root: {} };
+
+let pushCounter = 0;
+
+/**
+ * Empty the database (or seed it with `root`) and restart the push keys
+ */
+export function resetMockDatabase(root: any = {}): void {
+  mockTree.root = root;
+  pushCounter = 0;
+}
+
+export function readPath(path: string): any {
+  return path
+    .split('/')
+    .filter(Boolean)
+    .reduce((node, key) => (node == null ? undefined : node[key]), mockTree.root);
+}
+
+/**
+ * Write a copy of `value` at the path; null or undefined removes it
+ */
+export function writePath(path: string, value: any): void {
+  const keys = path.split('/').filter(Boolean);
+  let node = mockTree.root;
+  keys.slice(0, -1).forEach((key) => {
+    if (node[key] == null || typeof node[key] !== 'object') {
+      node[key] = {};
+    }
+    node = node[key];
+  });
+  const last = keys[keys.length - 1];
+  if (value === null || value === undefined) {
+    delete node[last];
+  } else {
+    node[last] = JSON.parse(JSON.stringify(value));
+  }
+}
+
+export function snapshotOf(path: string) {
+  const value = readPath(path);
+  return {
+    key: path.split('/').pop(),
+    exists: () => value !== undefined && value !== null,
+    val: () => (value === undefined ? null : JSON.parse(JSON.stringify(value))),
+    forEach: (callback: (child: any) => void) => {
+      Object.keys(value || {}).forEach((key) => callback(snapshotOf(`${path}/${key}`)));
+    },
+  };
+}
+
+/**
+ * The `firebase/database` functions the services use, backed by `mockTree`.
+ * Push keys sort in the order they were made, as Firebase's do.
+ */
+export function mockDatabaseModule() {
+  return {
+    ref: jest.fn((db: any, path?: string) => ({ _path: path || '' })),
+    get: jest.fn((reference: any) => Promise.resolve(snapshotOf(reference._path))),
+    set: jest.fn((reference: any, value: any) => {
+      writePath(reference._path, value);
+      return Promise.resolve();
+    }),
+    update: jest.fn((reference: any, values: Record<string, any>) => {
+      Object.entries(values).forEach(([key, value]) => writePath(`${reference._path}/${key}`, value));
+      return Promise.resolve();
+    }),
+    remove: jest.fn((reference: any) => {
+      writePath(reference._path, null);
+      return Promise.resolve();
+    }),
+    push: jest.fn((reference: any) => {
+      const key = `key-${String(++pushCounter).padStart(6, '0')}`;
+      return { key, _path: `${reference._path}/${key}` };
+    }),
+    runTransaction: jest.fn((reference: any, updateFn: (current: any) => any) => {
+      const current = readPath(reference._path);
+      const next = updateFn(current === undefined ? null : JSON.parse(JSON.stringify(current)));
+      if (next === undefined) {
+        return Promise.resolve({ committed: false, snapshot: snapshotOf(reference._path) });
+      }
+      writePath(reference._path, next);
+      return Promise.resolve({ committed: true, snapshot: snapshotOf(reference._path) });
+    }),
+  };
+}
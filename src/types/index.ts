@@ -1,6 +1,8 @@
 // Seat Types
 export type SeatStatus = 'available' | 'occupied' | 'reserved' | 'maintenance' | 'out-of-service';
 
+export type SeatAttribute = 'power' | 'window' | 'quiet' | 'accessible' | 'desktop';
+
 export interface MaintenanceInfo {
   reason: string;
   reportedBy: string;
@@ -8,6 +10,15 @@ export interface MaintenanceInfo {
   startedAt: string;
 }
 
+export interface SeatReservation {
+  bookingId: string;
+  userId: string;
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp
+  groupId?: string; // Set for group members, and for seats held for invitees
+  expiresAt?: string; // ISO timestamp; seats held for invitees are released then if unclaimed
+}
+
 export interface Seat {
   id: string;
   number: string;
@@ -19,6 +30,104 @@ export interface Seat {
   bookingId: string | null;
   occupiedUntil?: number | null;
   maintenanceInfo?: MaintenanceInfo;
+  reservations?: Record<string, SeatReservation>; // Future reservations keyed by booking ID
+  waitlistHold?: WaitlistHold; // Held for a waitlisted student while they claim it
+  onBreak?: SeatBreak | null; // The student has stepped away and must rescan to keep the seat
+}
+
+export interface SeatBreak {
+  bookingId: string;
+  startedAt: number; // Epoch ms
+  endsAt: number; // Epoch ms; the booking is ended if they haven't rescanned by then
+}
+
+export interface WaitlistHold {
+  entryId: string;
+  userId: string;
+  expiresAt: number; // Epoch ms
+}
+
+// Layout Types
+// The library's physical layout, stored at layout/. Seat state lives at
+// seats/{floorId}/{seatId}; seat ids carry no floor information.
+export interface Building {
+  id: string;
+  name: string;
+  order: number;
+}
+
+export interface Floor {
+  id: string;
+  buildingId: string;
+  name: string;
+  order: number;
+}
+
+export interface Section {
+  id: string;
+  floorId: string;
+  name: string;
+  order: number;
+}
+
+export interface LayoutSeat {
+  id: string;
+  floorId: string;
+  sectionId?: string;
+  label: string; // Shown on the seat map
+  order: number;
+  attributes?: SeatAttribute[]; // Physical features students can filter by
+}
+
+export interface SeatLayout {
+  buildings: Record<string, Building>;
+  floors: Record<string, Floor>;
+  sections: Record<string, Section>;
+  seats: Record<string, LayoutSeat>;
+  plans: Record<string, FloorPlan>; // Published floor plans keyed by floor ID
+}
+
+// Floor plans position seats and furniture on a floor, in plan units from the
+// top-left corner. Published plans live at layout/plans/{floorId}; every save
+// is also kept at floorPlans/{floorId}/{versionId}.
+// Seats inside a 'room' element make up a study room that groups book together.
+export type FloorPlanElementType = 'table' | 'wall' | 'zone' | 'room';
+
+export interface FloorPlanElement {
+  id: string;
+  type: FloorPlanElementType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees clockwise
+  label?: string; // Zone or room name, e.g. "Silent Zone" or "Discussion Room 1"
+}
+
+export interface SeatPlacement {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+export interface FloorPlan {
+  width: number;
+  height: number;
+  elements: Record<string, FloorPlanElement>;
+  seats: Record<string, SeatPlacement>; // Keyed by seat ID
+  versionId?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export interface FloorPlanVersion {
+  id: string;
+  floorId: string;
+  plan: FloorPlan;
+  seats: Record<string, LayoutSeat>; // The floor's seats as saved
+  note?: string;
+  createdBy: string;
+  createdAt: string;
 }
 
 // Booking Types
@@ -40,18 +149,46 @@ export interface Booking {
   extendedFrom?: string; // Original end time if extended
   cancelledBy?: string; // Admin ID if cancelled by admin
   cancelReason?: string;
+  qrTokenId?: string; // ID of the QR token currently valid for this booking
+  qrScans?: { entry?: string; exit?: string }; // ISO timestamps of accepted scans
+  seriesId?: string; // Recurring series this booking was created by
+  groupId?: string; // Group booking this seat is part of
+  breaks?: Record<string, BookingBreak>;
+  currentBreakId?: string | null; // Set while the student is on a break
+  movedFrom?: string[]; // Seats the booking was moved off, oldest first; its QR stays valid
+  transferredFrom?: string; // Booking this one was handed over from
   createdAt: string;
   updatedAt: string;
 }
 
+export interface BookingBreak {
+  id: string;
+  startedAt: string; // ISO timestamp
+  endsBy: string; // ISO timestamp; rescan deadline
+  endedAt?: string; // When the student came back; unset if they never did
+}
+
+export interface BreakResult {
+  success: boolean;
+  booking?: Booking;
+  message?: string;
+}
+
 // User Types
-export type UserRole = 'user' | 'admin';
+// Roles are kept apart from the profile at roles/{userId}, which only the
+// server writes; students can edit their own users/{userId} node
+export type UserRole = 'user' | 'desk-staff' | 'floor-manager' | 'head-librarian' | 'admin';
+
+export type RestrictionSeverity = 'minor' | 'moderate' | 'severe';
 
 export interface UserRestrictions {
   isFlagged: boolean;
   reason?: string;
   flaggedBy?: string;
   flaggedAt?: string;
+  severity?: RestrictionSeverity;
+  expiresAt?: string; // Suspensions lift themselves at this time; unset means until staff lift it
+  appealId?: string; // The student's appeal against this restriction
 }
 
 export interface UserStats {
@@ -66,14 +203,99 @@ export interface UserProfile {
   email: string;
   displayName?: string;
   photoURL?: string;
-  role: UserRole;
   currentBookingId?: string;
-  restrictions?: UserRestrictions;
   stats: UserStats;
   createdAt: string;
   updatedAt: string;
 }
 
+// Restriction Types
+// Restrictions are stored at restrictions/{userId} and their history at
+// restrictionHistory/{userId}, which only the server writes; appeals wait in
+// a queue at appeals/{appealId}
+export type RestrictionEvent =
+  | 'flagged'
+  | 'unflagged'
+  | 'expired'
+  | 'appeal-submitted'
+  | 'appeal-accepted'
+  | 'appeal-rejected';
+
+export interface RestrictionHistoryEntry {
+  id: string;
+  event: RestrictionEvent;
+  at: string; // ISO timestamp
+  by: string; // Admin, the student for appeals, or 'system' for expiries
+  reason?: string;
+  severity?: RestrictionSeverity;
+  expiresAt?: string;
+  appealId?: string;
+}
+
+export type AppealStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface RestrictionAppeal {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  message: string;
+  status: AppealStatus;
+  restriction: UserRestrictions; // The restriction being appealed, as it was
+  submittedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reply?: string;
+}
+
+export interface AppealResult {
+  success: boolean;
+  appeal?: RestrictionAppeal;
+  message?: string;
+}
+
+// Penalty Types
+// Strikes are stored at penalties/{userId}, which only the server writes
+export type StrikeReason = 'no-show' | 'overstay';
+
+export interface Strike {
+  id: string;
+  reason: StrikeReason;
+  bookingId: string | null;
+  weight: number; // Strikes counted, from the penalty policy
+  issuedAt: string; // ISO timestamp
+  expiresAt: string; // Strikes decay and stop counting after this
+  waivedBy?: string; // Admin who removed it
+  waivedAt?: string;
+}
+
+export interface UserPenalties {
+  strikes?: Record<string, Strike>;
+  bannedAt?: string; // Only strikes after the latest ban count towards the next
+  bannedUntil?: string;
+  banLiftedBy?: string; // Admin who ended the ban early
+}
+
+export interface PenaltyPolicy {
+  enabled: boolean;
+  noShowStrikes: number; // Strikes per no-show
+  overstayStrikes: number; // Strikes per overstay
+  strikeLifetimeDays: number;
+  banThreshold: number; // Strikes within the window that trigger a ban
+  banWindowDays: number;
+  banDays: number;
+  repeatOffenderStrikes: number; // Active strikes at which bookings are shortened
+  repeatOffenderMaxDuration: number; // Minutes
+}
+
+export interface PenaltyStatus {
+  activeStrikes: number;
+  bannedUntil: string | null;
+  maxDuration: number | null; // Reduced booking length for repeat offenders
+}
+
+export type PenaltyOverride = 'waive-strike' | 'clear-strikes' | 'lift-ban';
+
 // Analytics Types
 export interface PeakHour {
   hour: number;
@@ -144,27 +366,93 @@ export interface OperatingHours {
   };
 }
 
+export type DayHours = OperatingHours[string];
+
 export interface Holiday {
   date: string; // YYYY-MM-DD
   name: string;
 }
 
+export interface SpecialClosure {
+  start: string; // HH:mm
+  end: string; // HH:mm, or 24:00 for midnight
+  reason?: string;
+}
+
+// Hours and rules that replace the weekly schedule over a range of dates
+export interface SpecialHours {
+  id: string;
+  name: string; // e.g. 'Exam season', shown on the opening hours calendar
+  startDate: string; // YYYY-MM-DD, first day
+  endDate: string; // YYYY-MM-DD, last day
+  hours?: DayHours; // Replaces the weekly hours; close may be 24:00
+  closures?: SpecialClosure[]; // Parts of the day the library is shut
+  bookingRules?: Partial<BookingRules>; // Replace these rules on the dates
+}
+
+// The hours and rules that apply on one date once everything is resolved
+export interface DaySchedule {
+  date: string; // YYYY-MM-DD
+  isClosed: boolean;
+  open: string; // HH:mm
+  close: string; // HH:mm, or 24:00 for midnight
+  closures: SpecialClosure[];
+  bookingRules: BookingRules;
+  holiday?: string; // Name of the holiday closing the library
+  specialHours: string[]; // Names of the special hours in force
+}
+
 export interface BookingRules {
   maxDailyDuration: number; // Minutes
   maxAdvanceBookingDays: number;
   minBookingDuration: number;
   maxBookingDuration: number;
   extensionIncrement: number; // Minutes
+  maxBreakDuration?: number; // Minutes a student may step away during a session
 }
 
 export interface LibrarySettings {
   operatingHours: OperatingHours;
   holidays: Holiday[];
   bookingRules: BookingRules;
+  penaltyPolicy?: PenaltyPolicy; // Defaults apply when unset
+  specialHours?: SpecialHours[];
+  versionId?: string; // The saved version these settings came from
   updatedBy: string;
   updatedAt: string;
 }
 
+export type LibrarySettingsVersionStatus = 'scheduled' | 'applied' | 'cancelled';
+
+export interface LibrarySettingsVersion {
+  id: string;
+  settings: Omit<LibrarySettings, 'versionId' | 'updatedBy' | 'updatedAt'>;
+  status: LibrarySettingsVersionStatus;
+  reason?: string;
+  effectiveFrom: string; // When the version goes live; the save time unless scheduled
+  appliedAt?: string;
+  restoredFrom?: string; // Version ID this one rolled back to
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+}
+
+// Holiday Import Types
+export type HolidayImportAction = 'add' | 'change' | 'skip';
+
+// One line of the preview shown before an iCalendar import is saved
+export interface HolidayImportItem {
+  action: HolidayImportAction;
+  kind: 'holiday' | 'closure'; // A closure is imported as special hours
+  date: string; // YYYY-MM-DD
+  name: string;
+  start?: string; // HH:mm, closures only
+  end?: string; // HH:mm, closures only
+  specialHoursId?: string; // The special hours a closure is saved as
+  previousName?: string; // What a changed holiday or closure was called
+  reason?: string; // Why the event is skipped
+}
+
 // Filter Types
 export interface BookingFilters {
   userId?: string;
@@ -175,11 +463,26 @@ export interface BookingFilters {
   searchTerm?: string;
 }
 
+export interface SeatFilters {
+  floorId?: string;
+  attributes?: SeatAttribute[]; // Seats need every one
+  availableOnly?: boolean;
+}
+
 export interface FeedbackFilters {
   status?: FeedbackStatus;
   category?: FeedbackCategory;
 }
 
+export interface AuditLogFilters {
+  adminId?: string;
+  action?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
 // Report Types
 export type ReportMetric = 'occupancy' | 'no-show-rate' | 'average-duration' | 'user-activity';
 export type ReportFormat = 'csv' | 'pdf' | 'excel';
@@ -195,19 +498,32 @@ export interface ReportConfig {
   groupBy?: ReportGroupBy;
 }
 
+export interface ReportChart {
+  type: 'bar';
+  title: string;
+  data: Array<{ label: string; value: number }>;
+}
+
+export interface ReportBreakdown {
+  groupBy: ReportGroupBy;
+  rows: Array<Record<string, any>>;
+}
+
 export interface ReportData {
   title: string;
   generatedAt: string;
   dateRange: { start: string; end: string };
   summary: Record<string, number | string>;
   data: Array<Record<string, any>>;
-  charts?: Array<{ type: string; data: any }>;
+  breakdowns?: ReportBreakdown[]; // Bookings grouped by period
+  charts?: ReportChart[];
 }
 
 // User Statistics Types
 export interface UserStatistics {
   totalBookings: number;
-  totalHoursBooked: number;
+  totalHoursBooked: number; // Time at the desk, not counting breaks
+  totalBreakHours: number;
   averageSessionDuration: number;
   noShowCount: number;
   overstayCount: number;
@@ -218,16 +534,284 @@ export interface UserStatistics {
 }
 
 // Audit Log Types
+export type AuditTargetType = 'booking' | 'user' | 'seat' | 'settings' | 'feedback' | 'layout';
+
 export interface AuditLog {
   id: string;
   timestamp: string;
-  adminId: string;
-  adminName: string;
+  adminId?: string; // Staff member who acted, or 'system'
+  actorId?: string; // Set instead of adminId when a student acted on their own booking
+  adminName: string; // Display name of whoever acted
   action: string;
   targetId: string;
-  targetType: 'booking' | 'user' | 'seat' | 'settings';
+  targetType: AuditTargetType;
   reason?: string;
-  details?: Record<string, any>;
+  details?: Record<string, any>; // Changes are recorded as { before, after }
+}
+
+export interface AuditLogPage {
+  logs: AuditLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AuditDetailChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Booking Policy Types
+export type PolicyRule =
+  | 'invalid-time'
+  | 'restricted-user'
+  | 'advance-window'
+  | 'min-duration'
+  | 'max-duration'
+  | 'daily-limit'
+  | 'extension-increment'
+  | 'penalty-ban'
+  | 'penalty-duration'
+  | 'holiday'
+  | 'operating-hours';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+// Booking Engine Types
+export interface BookingRequest {
+  seatId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  startTime?: string; // ISO timestamp, defaults to now
+  endTime: string; // ISO timestamp
+  seriesId?: string;
+  groupId?: string; // Takes over the seat held for this member of the group
+}
+
+export interface BookingResult {
+  success: boolean;
+  booking?: Booking;
+  message?: string;
+  violations?: PolicyViolation[]; // Set when the booking breaks library policy
+}
+
+// Recurring Booking Types
+// Series live at bookingSeries/{userId}/{seriesId}; each occurrence is an ordinary booking
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  weekdays?: number[]; // Weekly only: 0 = Sunday ... 6 = Saturday; defaults to the first occurrence's day
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number; // Number of occurrences, including skipped ones
+}
+
+export interface SkippedOccurrence {
+  startTime: string; // ISO timestamp
+  reason: string;
+}
+
+export interface BookingSeries {
+  id: string;
+  userId: string;
+  seatId: string;
+  rule: RecurrenceRule;
+  startTime: string; // ISO timestamp of the first occurrence
+  duration: number; // Minutes per occurrence
+  bookingIds: string[];
+  skipped?: SkippedOccurrence[];
+  status: 'active' | 'cancelled';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BookingSeriesRequest extends Omit<BookingRequest, 'seriesId'> {
+  startTime: string; // ISO timestamp of the first occurrence
+  rule: RecurrenceRule;
+}
+
+export interface BookingSeriesResult {
+  success: boolean;
+  series?: BookingSeries;
+  bookings?: Booking[];
+  skipped?: SkippedOccurrence[];
+  message?: string;
+}
+
+// Group Booking Types
+// Groups live at groupBookings/{groupId}. Every member books their own seat and
+// checks in with their own QR; invitees' seats are held on the seat timeline
+// until they accept, decline or the booking starts.
+export type GroupMemberStatus = 'invited' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+export interface GroupMember {
+  email: string;
+  seatId: string;
+  status: GroupMemberStatus;
+  userId?: string; // Set once the member accepts
+  userName?: string;
+  bookingId?: string; // The member's own booking
+  respondedAt?: string;
+  bookingStatus?: BookingStatus; // Filled in when groups are read, not stored
+}
+
+export interface GroupBooking {
+  id: string;
+  organiserId: string;
+  organiserName: string;
+  floorId: string;
+  roomId?: string; // Study room element on the floor plan, if a room was booked
+  roomName?: string;
+  seatIds: string[]; // Every seat held for the group, members' first
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp
+  members: GroupMember[]; // The organiser first
+  status: 'active' | 'cancelled';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GroupBookingRequest {
+  organiserId: string;
+  organiserName: string;
+  organiserEmail: string;
+  floorId: string;
+  seatIds?: string[]; // Adjacent seats, the organiser's first
+  roomId?: string; // Or a study room
+  startTime?: string; // ISO timestamp, defaults to now
+  endTime: string; // ISO timestamp
+  memberEmails: string[]; // Invitees, not including the organiser
+}
+
+export interface GroupBookingResult {
+  success: boolean;
+  group?: GroupBooking;
+  message?: string;
+}
+
+// Where a group sits on the seat map; shared without member details
+export interface GroupBlock {
+  groupId: string;
+  floorId: string;
+  seatIds: string[];
+  label: string;
+  startTime: string;
+  endTime: string;
+}
+
+// Seat Swap Types
+// Requests live at seatSwaps/{swapId}. A student offers another student a
+// swap of seats between their two bookings, or hands their booking over;
+// nothing changes until the other student accepts.
+export type SeatSwapKind = 'swap' | 'transfer';
+
+export type SeatSwapStatus = 'pending' | 'completed' | 'declined' | 'cancelled';
+
+export interface SeatSwapRequest {
+  id: string;
+  kind: SeatSwapKind;
+  status: SeatSwapStatus;
+  fromUserId: string;
+  fromUserName: string;
+  fromBookingId: string;
+  fromSeatId: string;
+  toEmail: string;
+  toUserId?: string; // Set once the other student responds
+  toUserName?: string;
+  toBookingId?: string; // Their booking swapped, or the booking they were given
+  toSeatId?: string;
+  expiresAt: string; // ISO timestamp; the offered booking's end
+  createdAt: string;
+  respondedAt?: string;
+}
+
+export interface SeatSwapResult {
+  success: boolean;
+  swap?: SeatSwapRequest;
+  booking?: Booking;
+  message?: string;
+}
+
+// Waitlist Types
+// Entries live at waitlist/{entryId} and are offered seats first come, first served
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+
+export interface WaitlistTarget {
+  seatId?: string; // A specific seat; otherwise any seat matching the floor and attributes
+  floorId?: string;
+  attributes?: SeatAttribute[];
+}
+
+export interface WaitlistOffer {
+  seatId: string;
+  offeredAt: string;
+  expiresAt: string;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  target: WaitlistTarget;
+  status: WaitlistStatus;
+  createdAt: string;
+  updatedAt: string;
+  offer?: WaitlistOffer;
+  bookingId?: string; // The booking made from the offer
+}
+
+export interface WaitlistResult {
+  success: boolean;
+  entry?: WaitlistEntry;
+  message?: string;
+}
+
+// Booking Sweeper Types
+export type SweepActionType = 'expired' | 'no-show' | 'overstay' | 'released' | 'break-expired';
+
+export interface SweepAction {
+  type: SweepActionType;
+  seatId: string;
+  bookingId: string | null;
+  userId: string | null;
+}
+
+export interface SweepResult {
+  sweptAt: string;
+  actions: SweepAction[];
+  expiredOffers: string[]; // Waitlist entries whose claim window lapsed
+}
+
+export interface ScheduledJobsResult extends SweepResult {
+  appliedSettings: string[]; // Settings versions that went live
+  liftedRestrictions: string[]; // Users whose suspension ran out
+}
+
+// QR Check-in Types
+export type ScanMode = 'entry' | 'exit';
+
+export type ScanRejectionReason =
+  | 'malformed'
+  | 'bad-signature'
+  | 'expired'
+  | 'not-yet-valid'
+  | 'not-found'
+  | 'wrong-seat'
+  | 'replayed'
+  | 'revoked'
+  | 'not-checked-in'
+  | 'seat-taken';
+
+export interface ScanResult {
+  success: boolean;
+  reason?: ScanRejectionReason;
+  message?: string;
+  booking?: Booking;
 }
 
 // Booking Extension Types
@@ -236,4 +820,5 @@ export interface ExtensionResult {
   newEndTime?: string;
   alternatives?: Seat[];
   message?: string;
+  violations?: PolicyViolation[];
 }